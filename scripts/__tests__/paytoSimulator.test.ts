@@ -0,0 +1,235 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createHttpPayToProvider,
+  findCallbackPayment,
+  PayToEvent,
+  PayToProvider,
+  SIGNATURE_HEADER,
+} from '../../supabase/functions/_shared/payto';
+
+const API_KEY = 'test-key';
+const WEBHOOK_SECRET = 'test-secret';
+
+type Callback = { body: string; signature: string | null };
+
+let provider: PayToProvider;
+let simulatorUrl: string;
+let simulator: http.Server;
+let webhook: http.Server;
+
+// What payto-webhook received, and the events the provider read from them
+const callbacks: Callback[] = [];
+const events: (PayToEvent | null)[] = [];
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+// Simulator callbacks are sent before its /simulate response, so events are in by the time this returns
+async function simulate(path: string) {
+  const response = await fetch(`${simulatorUrl}/simulate/${path}`, { method: 'POST' });
+  expect(response.status).toBe(200);
+}
+
+async function approvedAgreement(clientTransactionId: string) {
+  const agreement = await provider.createAgreement({
+    payerName: 'Bob',
+    payerPayId: 'bob@example.com',
+    maximumAmountCents: 5000,
+    description: 'Dinner',
+    clientTransactionId,
+  });
+  await simulate(`agreements/${agreement.agreementId}/approve`);
+  return agreement;
+}
+
+type PaymentRow = { id: string; payment_method: string; provider_payment_id: string | null };
+
+/**
+ * Just enough of a Supabase client to look payments up in `rows`
+ */
+function paymentsTable(rows: PaymentRow[]): any {
+  return {
+    from: () => {
+      const filters: [keyof PaymentRow, unknown][] = [];
+      const query = {
+        select: () => query,
+        eq: (column: keyof PaymentRow, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: rows.find(row => filters.every(([column, value]) => row[column] === value)) || null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  };
+}
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  // Stands in for payto-webhook: reads each callback through the provider, as it does
+  webhook = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const signature = (req.headers[SIGNATURE_HEADER] as string | undefined) || null;
+      callbacks.push({ body, signature });
+      const event = await provider.parseCallback(body, signature);
+      events.push(event);
+      res.writeHead(event ? 200 : 400).end();
+    });
+  });
+  const webhookUrl = await listen(webhook);
+
+  process.env.PAYTO_API_KEY = API_KEY;
+  process.env.PAYTO_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.PAYTO_CALLBACK_URL = webhookUrl;
+  process.env.PAYTO_AUTO_SETTLE_MS = 'off';
+
+  simulator = require('../paytoSimulator').server;
+  simulatorUrl = await listen(simulator);
+  provider = createHttpPayToProvider({ apiUrl: simulatorUrl, apiKey: API_KEY, webhookSecret: WEBHOOK_SECRET });
+});
+
+afterAll(async () => {
+  await close(simulator);
+  await close(webhook);
+  jest.restoreAllMocks();
+});
+
+describe('PayTo provider against the simulator', () => {
+  it('pays a share once the payer approves the agreement, and only once per payment', async () => {
+    const agreement = await provider.createAgreement({
+      payerName: 'Bob',
+      payerPayId: 'bob@example.com',
+      maximumAmountCents: 5000,
+      description: 'Dinner',
+      clientTransactionId: 'payment-1',
+    });
+
+    expect(agreement.status).toBe('pending');
+    expect(agreement.approvalUrl).toContain(agreement.agreementId);
+
+    const payment = {
+      agreementId: agreement.agreementId,
+      amountCents: 1234,
+      description: 'Dinner',
+      recipientPayId: 'alice@example.com',
+      clientTransactionId: 'payment-1',
+    };
+    await expect(provider.initiatePayment(payment)).rejects.toThrow('409');
+
+    await simulate(`agreements/${agreement.agreementId}/approve`);
+    expect(events[events.length - 1]).toEqual({ type: 'agreement', agreementId: agreement.agreementId, status: 'active' });
+
+    const initiated = await provider.initiatePayment(payment);
+    expect(initiated.status).toBe('processing');
+    expect(await provider.initiatePayment(payment)).toEqual(initiated);
+
+    await simulate(`payments/${initiated.paymentId}/settle`);
+    expect(events[events.length - 1]).toEqual({
+      type: 'payment',
+      paymentId: initiated.paymentId,
+      clientTransactionId: 'payment-1',
+      status: 'settled',
+      amountCents: 1234,
+      settledAt: expect.any(String),
+      failureReason: null,
+    });
+  });
+
+  it('reports a failed payment, and resends its callback for retries', async () => {
+    const agreement = await approvedAgreement('payment-2');
+    const { paymentId } = await provider.initiatePayment({
+      agreementId: agreement.agreementId,
+      amountCents: 999,
+      description: 'Taxi',
+      recipientPayId: 'alice@example.com',
+      clientTransactionId: 'payment-2',
+    });
+
+    await simulate(`payments/${paymentId}/fail`);
+    await simulate(`payments/${paymentId}/resend`);
+
+    const failed = {
+      type: 'payment',
+      paymentId,
+      clientTransactionId: 'payment-2',
+      status: 'failed',
+      amountCents: 999,
+      settledAt: null,
+      failureReason: 'INSUFFICIENT_FUNDS',
+    };
+    expect(events.slice(-2)).toEqual([failed, failed]);
+  });
+
+  it('reports an agreement the payer cancels in their bank', async () => {
+    const agreement = await approvedAgreement('payment-3');
+    await simulate(`agreements/${agreement.agreementId}/cancel`);
+
+    expect(events[events.length - 1]).toEqual({ type: 'agreement', agreementId: agreement.agreementId, status: 'cancelled' });
+  });
+
+  it('finds a payment that settles before its provider payment id is saved', async () => {
+    const agreement = await approvedAgreement('payment-5');
+    const { paymentId } = await provider.initiatePayment({
+      agreementId: agreement.agreementId,
+      amountCents: 2500,
+      description: 'Groceries',
+      recipientPayId: 'alice@example.com',
+      clientTransactionId: 'payment-5',
+    });
+
+    // The settle callback arrives before create-payto-payment saves provider_payment_id
+    await simulate(`payments/${paymentId}/settle`);
+    const event = events[events.length - 1] as Extract<PayToEvent, { type: 'payment' }>;
+    const saved = { id: 'payment-5', payment_method: 'payto', provider_payment_id: null };
+
+    expect(await findCallbackPayment(paymentsTable([saved]), event, 'id')).toBe(saved);
+    expect(await findCallbackPayment(paymentsTable([{ ...saved, provider_payment_id: paymentId }]), event, 'id'))
+      .toEqual({ ...saved, provider_payment_id: paymentId });
+  });
+
+  it('fails a callback for a payment it can\'t find, so the provider retries it', async () => {
+    const event = events.find(candidate => candidate?.type === 'payment') as Extract<PayToEvent, { type: 'payment' }>;
+
+    await expect(findCallbackPayment(paymentsTable([]), event, 'id')).rejects.toThrow(event.paymentId);
+  });
+
+  it('ignores callbacks that are not signed with the webhook secret', async () => {
+    const other = createHttpPayToProvider({ apiUrl: simulatorUrl, apiKey: API_KEY, webhookSecret: 'other-secret' });
+    const { body, signature } = callbacks[callbacks.length - 1];
+
+    expect(events).not.toContain(null);
+    expect(await other.parseCallback(body, signature)).toBeNull();
+    expect(await provider.parseCallback(body, null)).toBeNull();
+  });
+
+  it('refuses requests with the wrong API key', async () => {
+    const other = createHttpPayToProvider({ apiUrl: simulatorUrl, apiKey: 'wrong-key', webhookSecret: WEBHOOK_SECRET });
+
+    await expect(
+      other.createAgreement({
+        payerName: 'Bob',
+        payerPayId: 'bob@example.com',
+        maximumAmountCents: 5000,
+        description: 'Dinner',
+        clientTransactionId: 'payment-4',
+      })
+    ).rejects.toThrow('401');
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Local PayTo provider simulator
+ *
+ * Speaks the same Azupay-style API as the real provider (see
+ * supabase/functions/_shared/payto.ts), keeps agreements and payments in
+ * memory, and sends signed status callbacks to payto-webhook, so the
+ * whole PayTo flow can be driven without a bank.
+ *
+ * Usage:
+ *   PAYTO_WEBHOOK_SECRET=dev-secret \
+ *   PAYTO_CALLBACK_URL=http://localhost:54321/functions/v1/payto-webhook \
+ *   node scripts/paytoSimulator.js
+ *
+ * Then serve the edge functions with PAYTO_API_URL=http://host.docker.internal:4010,
+ * the same PAYTO_API_KEY and PAYTO_WEBHOOK_SECRET.
+ *
+ * scripts/__tests__/paytoSimulator.test.ts drives the PayTo provider that
+ * create-payto-payment and payto-webhook use through it.
+ *
+ * Environment:
+ *   PORT                   Port to listen on (default 4010)
+ *   PAYTO_API_KEY          API key requests must send (default dev-key)
+ *   PAYTO_WEBHOOK_SECRET   Secret callbacks are signed with (default dev-secret)
+ *   PAYTO_CALLBACK_URL     Where callbacks are sent (default: logged only)
+ *   PAYTO_PUBLIC_URL       Base of approval links, reachable from the phone
+ *                          (default http://localhost:PORT)
+ *   PAYTO_AUTO_APPROVE     'true' to approve agreements without the approval page
+ *   PAYTO_AUTO_SETTLE_MS   Settle payments this long after initiation (default 2000;
+ *                          'off' to settle or fail them by hand)
+ *
+ * Driving a scenario by hand:
+ *   GET  /approve/:agreementId                    Approval page (the "banking app")
+ *   POST /simulate/agreements/:id/approve         Agreement becomes ACTIVE
+ *   POST /simulate/agreements/:id/decline         Agreement is DECLINED
+ *   POST /simulate/agreements/:id/cancel          Payer cancels it in their bank
+ *   POST /simulate/payments/:id/settle            Payment SETTLED
+ *   POST /simulate/payments/:id/fail              Payment FAILED (insufficient funds)
+ *   POST /simulate/payments/:id/resend            Send the last callback again (retries)
+ *   GET  /simulate/state                          Everything the simulator holds
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT || 4010);
+const API_KEY = process.env.PAYTO_API_KEY || 'dev-key';
+const WEBHOOK_SECRET = process.env.PAYTO_WEBHOOK_SECRET || 'dev-secret';
+const CALLBACK_URL = process.env.PAYTO_CALLBACK_URL;
+const PUBLIC_URL = process.env.PAYTO_PUBLIC_URL || `http://localhost:${PORT}`;
+const AUTO_APPROVE = process.env.PAYTO_AUTO_APPROVE === 'true';
+const AUTO_SETTLE_MS = process.env.PAYTO_AUTO_SETTLE_MS === 'off'
+  ? null
+  : Number(process.env.PAYTO_AUTO_SETTLE_MS || 2000);
+
+const agreements = new Map();
+const payments = new Map();
+const lastCallbacks = new Map();
+
+function newId(prefix) {
+  return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      if (!data) return resolve({});
+      try {
+        resolve(JSON.parse(data));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function sendCallback(key, payload) {
+  lastCallbacks.set(key, payload);
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex');
+
+  if (!CALLBACK_URL) {
+    console.log('📨 Callback (no PAYTO_CALLBACK_URL set):', body);
+    return;
+  }
+
+  try {
+    const response = await fetch(CALLBACK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-payto-signature': signature },
+      body,
+    });
+    console.log(`📨 Callback ${payload.status} → ${response.status}`);
+  } catch (err) {
+    console.error('❌ Callback failed:', err.message);
+  }
+}
+
+function setAgreementStatus(agreement, status) {
+  agreement.status = status;
+  console.log(`🤝 Agreement ${agreement.agreementId}: ${status}`);
+  return sendCallback(agreement.agreementId, {
+    agreementId: agreement.agreementId,
+    status,
+    payerName: agreement.payerName,
+  });
+}
+
+function setPaymentStatus(payment, status, failureReason) {
+  payment.status = status;
+  if (status === 'SETTLED') payment.settledAt = new Date().toISOString();
+  console.log(`💸 Payment ${payment.paymentId}: ${status}`);
+  return sendCallback(payment.paymentId, {
+    paymentId: payment.paymentId,
+    agreementId: payment.agreementId,
+    clientTransactionId: payment.clientTransactionId,
+    status,
+    amount: payment.amount,
+    ...(payment.settledAt && { settledAt: payment.settledAt }),
+    ...(failureReason && { failureReason }),
+  });
+}
+
+// ━━━ Provider API ━━━
+
+async function createAgreement(req, res) {
+  const body = await readBody(req);
+  if (!body.payerId || !(body.maximumAmount > 0)) {
+    return sendJson(res, 400, { message: 'payerId and maximumAmount are required' });
+  }
+
+  const agreementId = newId('agr');
+  const agreement = {
+    agreementId,
+    payerName: body.payerName,
+    payerId: body.payerId,
+    maximumAmount: Number(body.maximumAmount),
+    clientTransactionId: body.clientTransactionId,
+    status: 'CREATED',
+  };
+  agreements.set(agreementId, agreement);
+  console.log(`🤝 Agreement ${agreementId} created for ${body.payerName} (max $${agreement.maximumAmount})`);
+
+  sendJson(res, 201, {
+    agreementId,
+    status: agreement.status,
+    approvalUrl: `${PUBLIC_URL}/approve/${agreementId}`,
+  });
+
+  if (AUTO_APPROVE) {
+    setTimeout(() => setAgreementStatus(agreement, 'ACTIVE'), 500);
+  }
+}
+
+async function initiatePayment(req, res) {
+  const body = await readBody(req);
+  const agreement = agreements.get(body.agreementId);
+
+  if (!agreement) {
+    return sendJson(res, 404, { message: 'Agreement not found' });
+  }
+  if (agreement.status !== 'ACTIVE') {
+    return sendJson(res, 409, { message: `Agreement is ${agreement.status}` });
+  }
+  if (!(body.amount > 0) || body.amount > agreement.maximumAmount) {
+    return sendJson(res, 422, { message: 'Amount is outside the agreement' });
+  }
+
+  // The same clientTransactionId is the same payment (safe retries)
+  const existing = Array.from(payments.values()).find(
+    p => p.clientTransactionId && p.clientTransactionId === body.clientTransactionId
+  );
+  if (existing) {
+    return sendJson(res, 200, { paymentId: existing.paymentId, status: existing.status });
+  }
+
+  const paymentId = newId('pay');
+  const payment = {
+    paymentId,
+    agreementId: agreement.agreementId,
+    amount: Number(body.amount),
+    recipientPayId: body.recipientPayId,
+    description: body.description,
+    clientTransactionId: body.clientTransactionId,
+    status: 'PENDING',
+  };
+  payments.set(paymentId, payment);
+  console.log(`💸 Payment ${paymentId}: $${payment.amount} to ${payment.recipientPayId}`);
+
+  sendJson(res, 201, { paymentId, status: payment.status });
+
+  if (AUTO_SETTLE_MS !== null) {
+    setTimeout(() => {
+      if (payment.status === 'PENDING') setPaymentStatus(payment, 'SETTLED');
+    }, AUTO_SETTLE_MS);
+  }
+}
+
+// ━━━ Approval page (stands in for the payer's banking app) ━━━
+
+function approvalPage(res, agreement) {
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end(`<!doctype html>
+<html><head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Approve PayTo agreement</title></head>
+<body style="font-family: -apple-system, sans-serif; padding: 24px; max-width: 420px; margin: auto">
+  <h2>Simulated Bank</h2>
+  <p>Allow <b>ZapSplit</b> to take payments of up to <b>$${agreement.maximumAmount.toFixed(2)}</b>
+  from <b>${agreement.payerId}</b>?</p>
+  <p>Status: <b>${agreement.status}</b></p>
+  <form method="post" action="/simulate/agreements/${agreement.agreementId}/approve"><button style="width:100%;padding:14px;font-size:16px">Approve</button></form>
+  <br>
+  <form method="post" action="/simulate/agreements/${agreement.agreementId}/decline"><button style="width:100%;padding:14px;font-size:16px">Decline</button></form>
+</body></html>`);
+}
+
+// ━━━ Simulation controls ━━━
+
+async function simulate(req, res, kind, id, action) {
+  if (kind === 'agreements') {
+    const agreement = agreements.get(id);
+    if (!agreement) return sendJson(res, 404, { message: 'Agreement not found' });
+
+    const status = { approve: 'ACTIVE', decline: 'DECLINED', cancel: 'CANCELLED' }[action];
+    if (!status) return sendJson(res, 404, { message: `Unknown action: ${action}` });
+
+    await setAgreementStatus(agreement, status);
+    return req.headers['content-type']?.includes('form')
+      ? approvalPage(res, agreement)
+      : sendJson(res, 200, agreement);
+  }
+
+  const payment = payments.get(id);
+  if (!payment) return sendJson(res, 404, { message: 'Payment not found' });
+
+  if (action === 'settle') {
+    await setPaymentStatus(payment, 'SETTLED');
+  } else if (action === 'fail') {
+    await setPaymentStatus(payment, 'FAILED', 'INSUFFICIENT_FUNDS');
+  } else if (action === 'resend' && lastCallbacks.has(id)) {
+    await sendCallback(id, lastCallbacks.get(id));
+  } else {
+    return sendJson(res, 404, { message: `Unknown action: ${action}` });
+  }
+
+  return sendJson(res, 200, payment);
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'GET' && parts[0] === 'approve' && parts[1]) {
+      const agreement = agreements.get(parts[1]);
+      return agreement ? approvalPage(res, agreement) : sendJson(res, 404, { message: 'Agreement not found' });
+    }
+
+    if (parts[0] === 'simulate') {
+      if (req.method === 'GET' && parts[1] === 'state') {
+        return sendJson(res, 200, {
+          agreements: Array.from(agreements.values()),
+          payments: Array.from(payments.values()),
+        });
+      }
+      if (req.method === 'POST' && parts.length === 4) {
+        return simulate(req, res, parts[1], parts[2], parts[3]);
+      }
+    }
+
+    if (req.headers.authorization !== API_KEY) {
+      return sendJson(res, 401, { message: 'Invalid API key' });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/paymentAgreement') {
+      return createAgreement(req, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/paymentInitiation') {
+      return initiatePayment(req, res);
+    }
+
+    sendJson(res, 404, { message: 'Not found' });
+  } catch (err) {
+    console.error('❌ Simulator error:', err);
+    sendJson(res, 500, { message: err.message });
+  }
+});
+
+// Tests require the script and listen on a port of their own
+if (require.main === module) {
+  server.listen(PORT, () => {
+    console.log(`🏦 PayTo simulator listening on http://localhost:${PORT}`);
+    console.log(`   Callbacks: ${CALLBACK_URL || 'logged only (set PAYTO_CALLBACK_URL)'}`);
+    console.log(`   Auto approve: ${AUTO_APPROVE ? 'on' : 'off'} · Auto settle: ${AUTO_SETTLE_MS === null ? 'off' : `${AUTO_SETTLE_MS}ms`}`);
+  });
+}
+
+module.exports = { server };
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ScrollView, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/ThemeContext';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency';
+
+interface CurrencyPickerProps {
+  value: string;
+  onChange: (currency: string) => void;
+  style?: ViewStyle;
+}
+
+export default function CurrencyPicker({ value, onChange, style }: CurrencyPickerProps) {
+  const { colors } = useTheme();
+
+  const handleSelect = (code: string) => {
+    Haptics.selectionAsync();
+    onChange(code);
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+      style={style}
+    >
+      {SUPPORTED_CURRENCIES.map(currency => {
+        const isSelected = currency.code === value;
+        return (
+          <TouchableOpacity
+            key={currency.code}
+            style={[
+              styles.option,
+              { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+              isSelected && { borderWidth: 1, borderColor: colors.primary },
+            ]}
+            onPress={() => handleSelect(currency.code)}
+          >
+            <Text style={[styles.code, { color: isSelected ? colors.primary : colors.gray700 }]}>
+              {currency.code}
+            </Text>
+            <Text style={[styles.symbol, { color: isSelected ? colors.primary : colors.gray500 }]}>
+              {currency.symbol}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    gap: 6,
+  },
+  code: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  symbol: {
+    fontSize: 13,
+  },
+});
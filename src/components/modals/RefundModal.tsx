@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { spacing, radius } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { getRefundableAmount, Payment, refundPayment, RefundReason } from '../../services/stripeService';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { PAYMENT_CURRENCY } from '../../utils/currency';
+import { fromCents, toCents } from '../../utils/money';
+
+interface RefundModalProps {
+  payment: Payment | null; // Shown while set
+  payerName?: string;
+  onClose: () => void;
+  onRefunded: (amount: number) => void;
+}
+
+const REASONS: { value: RefundReason; label: string }[] = [
+  { value: 'requested_by_customer', label: 'They asked' },
+  { value: 'duplicate', label: 'Paid twice' },
+];
+
+/**
+ * Refund all or part of a card payment the current user received
+ */
+export default function RefundModal({ payment, payerName, onClose, onRefunded }: RefundModalProps) {
+  const { colors } = useTheme();
+  const [amountText, setAmountText] = useState('');
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer');
+  const [refunding, setRefunding] = useState(false);
+
+  const refundable = payment ? getRefundableAmount(payment) : 0;
+  const isFirstRefund = !!payment && Number(payment.refunded_amount || 0) === 0;
+
+  // Start from everything that can still be refunded
+  useEffect(() => {
+    if (payment) {
+      setAmountText(getRefundableAmount(payment).toFixed(2));
+      setReason('requested_by_customer');
+    }
+  }, [payment?.id]);
+
+  const handleRefund = async () => {
+    if (!payment) return;
+
+    const amountCents = toCents(parseFloat(amountText.replace(/[^0-9.]/g, '')));
+    const amount = fromCents(amountCents);
+    if (amountCents <= 0) {
+      Alert.alert('Invalid Amount', 'Enter how much to refund.');
+      return;
+    }
+    if (amountCents > toCents(refundable)) {
+      Alert.alert('Invalid Amount', `You can refund up to ${formatCurrency(refundable, PAYMENT_CURRENCY)}.`);
+      return;
+    }
+
+    try {
+      setRefunding(true);
+      const result = await refundPayment(payment.id, amount, reason);
+
+      if (!result.success) {
+        Alert.alert('Refund Failed', result.error || 'Please try again.');
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onRefunded(result.amount ?? amount);
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!payment} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: colors.surface }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.gray900 }]}>Refund Payment</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.gray500} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.hint, { color: colors.gray500 }]}>
+            {payerName ? `${payerName} paid` : 'They paid'} {formatCurrency(Number(payment?.amount || 0), PAYMENT_CURRENCY)}
+            {refundable < Number(payment?.amount || 0) ? `, ${formatCurrency(refundable, PAYMENT_CURRENCY)} of which can still be refunded` : ''}.
+            {' '}Whatever you refund goes back onto what they owe.
+          </Text>
+
+          <Text style={[styles.label, { color: colors.gray500 }]}>Amount to refund</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+            placeholder="0.00"
+            placeholderTextColor={colors.gray400}
+            value={amountText}
+            onChangeText={setAmountText}
+            keyboardType="decimal-pad"
+          />
+          {isFirstRefund && (
+            <Text style={[styles.hint, { color: colors.gray500 }]}>
+              Refunding the whole payment also returns their card fees.
+            </Text>
+          )}
+
+          <Text style={[styles.label, { color: colors.gray500 }]}>Reason</Text>
+          <View style={styles.reasons}>
+            {REASONS.map(option => {
+              const isSelected = reason === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.reason,
+                    { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+                    isSelected && { borderWidth: 1, borderColor: colors.primary },
+                  ]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <Text style={[styles.reasonText, { color: isSelected ? colors.primary : colors.gray600 }]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.error }, refunding && styles.buttonDisabled]}
+            onPress={handleRefund}
+            disabled={refunding}
+            activeOpacity={0.7}
+          >
+            {refunding ? (
+              <ActivityIndicator size="small" color={colors.surface} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.surface }]}>Refund</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  content: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: spacing.xs,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+    marginTop: spacing.md,
+  },
+  input: {
+    fontSize: 16,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  reasons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  reason: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+  },
+  reasonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  button: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.xl,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
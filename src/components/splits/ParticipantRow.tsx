@@ -11,6 +11,8 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { getCurrencySymbol } from '../../utils/currency';
 
 export interface Participant {
   id: string;
@@ -29,6 +31,7 @@ interface ParticipantRowProps {
   onRemove?: (participantId: string) => void;
   showStatus?: boolean;
   isHighlighted?: boolean; // For "You" in review screen
+  currency?: string;
 }
 
 export default function ParticipantRow({
@@ -38,6 +41,7 @@ export default function ParticipantRow({
   onRemove,
   showStatus = false,
   isHighlighted = false,
+  currency,
 }: ParticipantRowProps) {
   const { colors } = useTheme();
   const [editingAmount, setEditingAmount] = useState(participant.amount_owed.toString());
@@ -103,7 +107,7 @@ export default function ParticipantRow({
           styles.amountEditContainer,
           { backgroundColor: colors.gray100, borderColor: colors.gray300 }
         ]}>
-          <Text style={[styles.currencySymbol, { color: colors.gray500 }]}>$</Text>
+          <Text style={[styles.currencySymbol, { color: colors.gray500 }]}>{getCurrencySymbol(currency)}</Text>
           <TextInput
             style={[styles.amountInput, { color: colors.gray900 }]}
             value={editingAmount}
@@ -119,7 +123,7 @@ export default function ParticipantRow({
             styles.amountDisplay,
             { color: isHighlighted ? colors.primary : colors.gray900 }
           ]}>
-            ${participant.amount_owed.toFixed(2)}
+            {formatCurrency(participant.amount_owed, currency)}
           </Text>
         </View>
       )}
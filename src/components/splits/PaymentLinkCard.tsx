@@ -0,0 +1,242 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/ThemeContext';
+import { spacing, radius } from '../../constants/theme';
+import { formatCurrency } from '../../utils/splitCalculations';
+import {
+  isPaymentLinkLive,
+  PAYMENT_LINK_EXPIRY_OPTIONS,
+  PaymentLinkDeactivatedReason,
+  PaymentLinkExpiry,
+  PaymentLinkWithStats,
+} from '../../services/paymentLinkService';
+
+interface PaymentLinkCardProps {
+  links: PaymentLinkWithStats[]; // newest first
+  busy?: boolean;
+  settled?: boolean;
+  onShare: () => void;
+  onChangeExpiry: (expiry: PaymentLinkExpiry) => void;
+  onRevoke: () => void;
+  onRegenerate: () => void;
+}
+
+const DEACTIVATED_LABELS: Record<PaymentLinkDeactivatedReason, string> = {
+  revoked: 'Revoked',
+  regenerated: 'Replaced',
+  settled: 'Closed when the split settled',
+  expired: 'Expired',
+};
+
+function formatLinkDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function getLinkStatus(link: PaymentLinkWithStats): string {
+  if (isPaymentLinkLive(link)) {
+    return link.expires_at ? `Expires ${formatLinkDate(link.expires_at)}` : 'Never expires';
+  }
+  if (link.is_active) return 'Expired';
+  return link.deactivated_reason ? DEACTIVATED_LABELS[link.deactivated_reason] : 'Inactive';
+}
+
+function formatStats(link: PaymentLinkWithStats): string {
+  const { opens, claims, payments, amountPaid } = link.stats;
+  let text = `${opens} open${opens !== 1 ? 's' : ''} · ${claims} claimed · ${payments} paid`;
+  if (amountPaid > 0) {
+    text += ` (${formatCurrency(amountPaid)})`;
+  }
+  return text;
+}
+
+/**
+ * The creator's view of a split's payment link: its status and analytics,
+ * expiry, revoke/regenerate, and how earlier links did
+ */
+export default function PaymentLinkCard({
+  links,
+  busy,
+  settled,
+  onShare,
+  onChangeExpiry,
+  onRevoke,
+  onRegenerate,
+}: PaymentLinkCardProps) {
+  const { colors } = useTheme();
+  const current = links.find(link => isPaymentLinkLive(link));
+  const earlier = links.filter(link => link !== current);
+
+  const handlePress = (action: () => void) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    action();
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <View style={styles.titleRow}>
+        <Ionicons name="link" size={20} color={current ? colors.primary : colors.gray400} />
+        <Text style={[styles.title, { color: colors.gray900 }]}>Payment Link</Text>
+        {busy && <ActivityIndicator size="small" color={colors.primary} />}
+      </View>
+
+      {current ? (
+        <>
+          <TouchableOpacity onPress={() => handlePress(onShare)} disabled={busy} activeOpacity={0.7}>
+            <Text style={[styles.url, { color: colors.primary }]} numberOfLines={1}>
+              {current.url}
+            </Text>
+          </TouchableOpacity>
+          <Text style={[styles.status, { color: colors.gray500 }]}>{getLinkStatus(current)}</Text>
+          <Text style={[styles.stats, { color: colors.gray700 }]}>{formatStats(current)}</Text>
+
+          <Text style={[styles.label, { color: colors.gray500 }]}>Expires after</Text>
+          <View style={styles.chipRow}>
+            {PAYMENT_LINK_EXPIRY_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, { backgroundColor: colors.gray100 }]}
+                onPress={() => handlePress(() => onChangeExpiry(option.value))}
+                disabled={busy}
+              >
+                <Text style={[styles.chipText, { color: colors.gray700 }]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={styles.action} onPress={() => handlePress(onShare)} disabled={busy}>
+              <Ionicons name="share-outline" size={18} color={colors.primary} />
+              <Text style={[styles.actionText, { color: colors.primary }]}>Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => handlePress(onRegenerate)} disabled={busy}>
+              <Ionicons name="refresh" size={18} color={colors.primary} />
+              <Text style={[styles.actionText, { color: colors.primary }]}>New link</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => handlePress(onRevoke)} disabled={busy}>
+              <Ionicons name="close-circle-outline" size={18} color={colors.error} />
+              <Text style={[styles.actionText, { color: colors.error }]}>Revoke</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : (
+        <>
+          <Text style={[styles.status, { color: colors.gray500 }]}>
+            {settled
+              ? 'This split is settled, so its link no longer works.'
+              : 'No active link. Anyone with an old link can\'t open it.'}
+          </Text>
+          {!settled && (
+            <View style={styles.actionRow}>
+              <TouchableOpacity style={styles.action} onPress={() => handlePress(onRegenerate)} disabled={busy}>
+                <Ionicons name="add-circle-outline" size={18} color={colors.primary} />
+                <Text style={[styles.actionText, { color: colors.primary }]}>Create link</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+
+      {earlier.length > 0 && (
+        <View style={[styles.earlier, { borderTopColor: colors.border }]}>
+          <Text style={[styles.label, { color: colors.gray500 }]}>Earlier links</Text>
+          {earlier.map(link => (
+            <View key={link.id} style={styles.earlierRow}>
+              <Text style={[styles.earlierCode, { color: colors.gray700 }]}>
+                {link.short_code} · {getLinkStatus(link)}
+              </Text>
+              <Text style={[styles.earlierStats, { color: colors.gray500 }]}>{formatStats(link)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    flex: 1,
+  },
+  url: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  status: {
+    fontSize: 13,
+    marginBottom: spacing.xs,
+  },
+  stats: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: spacing.lg,
+    marginTop: spacing.md,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  earlier: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: spacing.md,
+  },
+  earlierRow: {
+    marginBottom: spacing.sm,
+  },
+  earlierCode: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  earlierStats: {
+    fontSize: 12,
+  },
+});
@@ -4,6 +4,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { spacing, radius } from '../../constants/theme';
 import { useTheme } from '../../contexts/ThemeContext';
 import * as Haptics from 'expo-haptics';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 
 interface RecentSplitCardProps {
   title: string;
@@ -13,6 +15,8 @@ interface RecentSplitCardProps {
   date: string;
   totalPaid?: number; // Amount paid via web/participants
   amountOwedByOthers?: number; // Amount excluding creator's items
+  currency?: string;
+  syncStatus?: 'pending' | 'failed'; // Saved offline and not yet synced
   onPress?: () => void;
 }
 
@@ -24,6 +28,8 @@ export default function RecentSplitCard({
   date,
   totalPaid = 0,
   amountOwedByOthers,
+  currency = DEFAULT_CURRENCY,
+  syncStatus,
   onPress,
 }: RecentSplitCardProps) {
   const { colors } = useTheme();
@@ -54,21 +60,33 @@ export default function RecentSplitCard({
     >
       <View style={styles.content}>
         <View style={[styles.iconContainer, { backgroundColor: colors.gray100 }]}>
-          <Ionicons
-            name={isComplete ? "checkmark-circle" : "receipt-outline"}
-            size={24}
-            color={isComplete ? colors.success : colors.primary}
-          />
+          {syncStatus ? (
+            <Ionicons
+              name={syncStatus === 'failed' ? 'cloud-offline' : 'cloud-upload-outline'}
+              size={24}
+              color={syncStatus === 'failed' ? colors.error : colors.warning}
+            />
+          ) : (
+            <Ionicons
+              name={isComplete ? "checkmark-circle" : "receipt-outline"}
+              size={24}
+              color={isComplete ? colors.success : colors.primary}
+            />
+          )}
         </View>
 
         <View style={styles.info}>
           <Text style={[styles.title, { color: colors.gray900 }]}>{title}</Text>
           <Text style={[styles.subtitle, { color: colors.gray600 }]}>
-            {date} • {isSoloSplit
-              ? 'Personal'
-              : hasPaymentData && targetAmount > 0
-                ? `$${totalPaid.toFixed(2)} of $${targetAmount.toFixed(2)}`
-                : `${paidCount}/${totalCount} paid`}
+            {date} • {syncStatus === 'failed'
+              ? 'Sync failed'
+              : syncStatus === 'pending'
+                ? 'Waiting to sync'
+                : isSoloSplit
+                  ? 'Personal'
+                  : hasPaymentData && targetAmount > 0
+                    ? `${formatCurrency(totalPaid, currency)} of ${formatCurrency(targetAmount, currency)}`
+                    : `${paidCount}/${totalCount} paid`}
           </Text>
 
           {/* Progress Bar */}
@@ -88,7 +106,7 @@ export default function RecentSplitCard({
         </View>
 
         <View style={styles.rightContent}>
-          <Text style={[styles.amount, { color: colors.gray900 }]}>${amount.toFixed(2)}</Text>
+          <Text style={[styles.amount, { color: colors.gray900 }]}>{formatCurrency(amount, currency)}</Text>
           <Ionicons name="chevron-forward" size={20} color={colors.gray400} />
         </View>
       </View>
@@ -4,8 +4,9 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
+import { formatCurrency } from '../../utils/splitCalculations';
 
-export type SplitMethod = 'equal' | 'custom' | 'percentage';
+export type SplitMethod = 'equal' | 'custom' | 'percentage' | 'shares';
 
 interface SplitMethodCardProps {
   method: SplitMethod;
@@ -13,6 +14,7 @@ interface SplitMethodCardProps {
   onSelect: () => void;
   totalAmount: number;
   participantCount: number;
+  currency?: string;
 }
 
 const METHOD_CONFIG = {
@@ -31,6 +33,11 @@ const METHOD_CONFIG = {
     title: 'Split by Percentage',
     description: 'Assign percentage to each person',
   },
+  shares: {
+    icon: 'layers' as const,
+    title: 'Split by Shares',
+    description: 'Give people more or fewer shares',
+  },
 };
 
 export default function SplitMethodCard({
@@ -39,6 +46,7 @@ export default function SplitMethodCard({
   onSelect,
   totalAmount,
   participantCount,
+  currency,
 }: SplitMethodCardProps) {
   const { colors } = useTheme();
   const config = METHOD_CONFIG[method];
@@ -50,11 +58,13 @@ export default function SplitMethodCard({
     switch (method) {
       case 'equal':
         const perPerson = totalAmount / participantCount;
-        return `$${perPerson.toFixed(2)} per person`;
+        return `${formatCurrency(perPerson, currency)} per person`;
       case 'custom':
         return 'You decide who pays what';
       case 'percentage':
         return 'You decide the percentages';
+      case 'shares':
+        return 'e.g. 2 shares for one, 1 for everyone else';
       default:
         return '';
     }
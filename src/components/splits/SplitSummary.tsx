@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import ParticipantRow, { Participant } from './ParticipantRow';
+import { formatCurrency } from '../../utils/splitCalculations';
 
 interface SplitSummaryProps {
   title: string;
@@ -11,8 +12,9 @@ interface SplitSummaryProps {
   participants: Participant[];
   currentUserId?: string;
   description?: string;
-  splitMethod?: 'equal' | 'custom' | 'percentage' | 'receipt';
+  splitMethod?: 'equal' | 'custom' | 'percentage' | 'shares' | 'receipt';
   showProgress?: boolean;
+  currency?: string;
 }
 
 export default function SplitSummary({
@@ -23,6 +25,7 @@ export default function SplitSummary({
   description,
   splitMethod = 'equal',
   showProgress = false,
+  currency,
 }: SplitSummaryProps) {
   const { colors } = useTheme();
   // Calculate progress
@@ -45,6 +48,8 @@ export default function SplitSummary({
         return 'Custom Amounts';
       case 'percentage':
         return 'By Percentage';
+      case 'shares':
+        return 'By Shares';
       case 'receipt':
         return 'By Receipt Items';
       default:
@@ -53,7 +58,7 @@ export default function SplitSummary({
   };
 
   // Get method icon
-  const getMethodIcon = (): 'people' | 'calculator' | 'pie-chart' | 'receipt' => {
+  const getMethodIcon = (): 'people' | 'calculator' | 'pie-chart' | 'layers' | 'receipt' => {
     switch (splitMethod) {
       case 'equal':
         return 'people';
@@ -61,6 +66,8 @@ export default function SplitSummary({
         return 'calculator';
       case 'percentage':
         return 'pie-chart';
+      case 'shares':
+        return 'layers';
       case 'receipt':
         return 'receipt';
       default:
@@ -83,7 +90,7 @@ export default function SplitSummary({
         {/* Total Amount */}
         <View style={[styles.totalContainer, { borderColor: colors.gray200 }]}>
           <Text style={[styles.totalLabel, { color: colors.gray500 }]}>TOTAL AMOUNT</Text>
-          <Text style={[styles.totalAmount, { color: colors.primary }]}>${totalAmount.toFixed(2)}</Text>
+          <Text style={[styles.totalAmount, { color: colors.primary }]}>{formatCurrency(totalAmount, currency)}</Text>
         </View>
 
         {/* Split Method Badge */}
@@ -116,7 +123,7 @@ export default function SplitSummary({
           <View style={styles.collectedContainer}>
             <Text style={[styles.collectedLabel, { color: colors.gray500 }]}>Collected</Text>
             <Text style={[styles.collectedAmount, { color: colors.gray900 }]}>
-              ${totalCollected.toFixed(2)} / ${totalAmount.toFixed(2)}
+              {formatCurrency(totalCollected, currency)} / {formatCurrency(totalAmount, currency)}
             </Text>
           </View>
         </View>
@@ -135,6 +142,7 @@ export default function SplitSummary({
             participant={participant}
             showStatus={showProgress}
             isHighlighted={participant.id === currentUserId}
+            currency={currency}
           />
         ))}
       </View>
@@ -144,7 +152,7 @@ export default function SplitSummary({
         <View style={styles.statRow}>
           <Text style={[styles.statLabel, { color: colors.gray500 }]}>Per Person Average</Text>
           <Text style={[styles.statValue, { color: colors.gray900 }]}>
-            ${(participants.reduce((sum, p) => sum + p.amount_owed, 0) / participants.length).toFixed(2)}
+            {formatCurrency(participants.reduce((sum, p) => sum + p.amount_owed, 0) / participants.length, currency)}
           </Text>
         </View>
 
@@ -154,7 +162,7 @@ export default function SplitSummary({
             <View style={styles.statRow}>
               <Text style={[styles.statLabel, { color: colors.gray500 }]}>Remaining</Text>
               <Text style={[styles.statValue, { color: colors.warning }]}>
-                ${(totalAmount - totalCollected).toFixed(2)}
+                {formatCurrency(totalAmount - totalCollected, currency)}
               </Text>
             </View>
           </>
@@ -3,3 +3,4 @@ export { default as FriendSelector, Friend } from './FriendSelector';
 export { default as SplitMethodCard, SplitMethod } from './SplitMethodCard';
 export { default as ParticipantRow, Participant } from './ParticipantRow';
 export { default as SplitSummary } from './SplitSummary';
+export { default as PaymentLinkCard } from './PaymentLinkCard';
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getFriendBalances, FriendBalance } from '../services/ledgerService';
+import { useAuth } from './useAuth';
+
+export function useFriendBalances() {
+  const { user } = useAuth();
+  const [balances, setBalances] = useState<FriendBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Load net balances with every friend from the ledger
+   */
+  const loadBalances = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getFriendBalances(user.id);
+      setBalances(data);
+    } catch (err) {
+      console.error('Error loading friend balances:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const balancesByFriend = useMemo(() => {
+    const map: Record<string, FriendBalance> = {};
+    balances.forEach(b => {
+      map[b.friend_id] = b;
+    });
+    return map;
+  }, [balances]);
+
+  return {
+    balances,
+    balancesByFriend,
+    outstanding: balances.filter(b => b.net !== 0),
+    loading,
+    refresh: loadBalances,
+  };
+}
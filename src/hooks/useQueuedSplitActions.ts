@@ -0,0 +1,58 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { SplitWithParticipants } from '../services/splitService';
+import {
+  discardQueuedOperation,
+  getQueuedSplit,
+  retryQueuedOperation,
+} from '../services/syncQueue';
+
+/**
+ * Actions for splits that only exist in the offline queue (they can't be
+ * opened until they've synced)
+ */
+export function useQueuedSplitActions() {
+  const handleQueuedSplitPress = useCallback(async (split: SplitWithParticipants) => {
+    const operation = await getQueuedSplit(split.id);
+    if (!operation) return;
+
+    const discard = {
+      text: 'Discard',
+      style: 'destructive' as const,
+      onPress: async () => {
+        await discardQueuedOperation(operation.id);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      },
+    };
+
+    if (operation.status === 'conflict') {
+      Alert.alert(
+        'Couldn\'t Sync Split',
+        `"${split.title}" couldn't be saved: ${operation.error || 'Unknown error'}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          discard,
+          {
+            text: 'Retry',
+            onPress: async () => {
+              const result = await retryQueuedOperation(operation.id);
+              if (result.conflicts > 0) {
+                Alert.alert('Still Couldn\'t Sync', 'Check the split details and try again, or discard it.');
+              }
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Waiting to Sync',
+      `"${split.title}" was saved while offline and will be created when you reconnect.`,
+      [{ text: 'OK', style: 'cancel' }, discard]
+    );
+  }, []);
+
+  return { handleQueuedSplitPress };
+}
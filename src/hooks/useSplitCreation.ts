@@ -5,14 +5,18 @@ import {
   validateParticipantCount,
   validateTitle,
   validateCustomSplit,
-  calculateEqualSplit,
+  calculateEqualSplitAmounts,
+  calculatePercentageSplit,
+  calculateSharesSplit,
+  validateShareWeights,
   uploadSplitImage,
   CreateSplitData,
   Split,
 } from '../services/splitService';
 import { Friend } from '../services/friendService';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 
-export type SplitMethod = 'equal' | 'custom' | 'percentage';
+export type SplitMethod = 'equal' | 'custom' | 'percentage' | 'shares';
 
 export interface SplitCreationState {
   amount: number;
@@ -23,6 +27,7 @@ export interface SplitCreationState {
   splitMethod: SplitMethod;
   customAmounts: { [participantId: string]: number };
   percentages: { [participantId: string]: number };
+  shareWeights: { [participantId: string]: number };
 }
 
 export function useSplitCreation() {
@@ -35,6 +40,7 @@ export function useSplitCreation() {
     splitMethod: 'equal',
     customAmounts: {},
     percentages: {},
+    shareWeights: {},
   });
 
   const [loading, setLoading] = useState(false);
@@ -96,6 +102,13 @@ export function useSplitCreation() {
     setState(prev => ({ ...prev, percentages: percentages }));
   }, []);
 
+  /**
+   * Set share weights for participants (creator included)
+   */
+  const setShareWeights = useCallback((shareWeights: { [participantId: string]: number }) => {
+    setState(prev => ({ ...prev, shareWeights }));
+  }, []);
+
   /**
    * Validate current state
    */
@@ -134,6 +147,18 @@ export function useSplitCreation() {
       }
     }
 
+    // Validate weights if shares split method
+    if (state.splitMethod === 'shares') {
+      // Anyone without a weight counts as 1 share
+      const validation = validateShareWeights({
+        ...Object.fromEntries(state.selectedFriends.map(friend => [friend.id, 1])),
+        ...state.shareWeights,
+      });
+      if (!validation.valid) {
+        errors.push(validation.error!);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -155,23 +180,24 @@ export function useSplitCreation() {
       }
 
       // Calculate participant amounts based on split method
-      const participants: { user_id: string; amount_owed: number }[] = [];
+      const participants: { user_id: string; amount_owed: number; share_weight?: number }[] = [];
 
       // Add creator as participant
       let creatorAmount = 0;
 
       if (state.splitMethod === 'equal') {
-        const equalAmount = calculateEqualSplit(
-          state.amount,
-          state.selectedFriends.length + 1
-        );
-        creatorAmount = equalAmount;
+        // Creator is listed first so they absorb any remainder cents
+        const equalAmounts = calculateEqualSplitAmounts(state.amount, [
+          currentUserId,
+          ...state.selectedFriends.map(friend => friend.id),
+        ]);
+        creatorAmount = equalAmounts[currentUserId] || 0;
 
         // Add friends with equal amounts
         state.selectedFriends.forEach(friend => {
           participants.push({
             user_id: friend.id,
-            amount_owed: equalAmount,
+            amount_owed: equalAmounts[friend.id] || 0,
           });
         });
       } else if (state.splitMethod === 'custom') {
@@ -185,16 +211,37 @@ export function useSplitCreation() {
           });
         });
       } else if (state.splitMethod === 'percentage') {
-        const creatorPercentage = state.percentages[currentUserId] || 0;
-        creatorAmount = Math.round((state.amount * creatorPercentage / 100) * 100) / 100;
+        const percentageAmounts = calculatePercentageSplit(state.amount, {
+          [currentUserId]: state.percentages[currentUserId] || 0,
+          ...Object.fromEntries(
+            state.selectedFriends.map(friend => [friend.id, state.percentages[friend.id] || 0])
+          ),
+        });
+        creatorAmount = percentageAmounts[currentUserId] || 0;
 
         // Add friends with percentage-based amounts
         state.selectedFriends.forEach(friend => {
-          const percentage = state.percentages[friend.id] || 0;
-          const amount = Math.round((state.amount * percentage / 100) * 100) / 100;
           participants.push({
             user_id: friend.id,
-            amount_owed: amount,
+            amount_owed: percentageAmounts[friend.id] || 0,
+          });
+        });
+      } else if (state.splitMethod === 'shares') {
+        // Creator is listed first so they absorb any remainder cents
+        const sharesAmounts = calculateSharesSplit(state.amount, {
+          [currentUserId]: state.shareWeights[currentUserId] ?? 1,
+          ...Object.fromEntries(
+            state.selectedFriends.map(friend => [friend.id, state.shareWeights[friend.id] ?? 1])
+          ),
+        });
+        creatorAmount = sharesAmounts[currentUserId] || 0;
+
+        // Add friends with their weights, kept so edits start from them
+        state.selectedFriends.forEach(friend => {
+          participants.push({
+            user_id: friend.id,
+            amount_owed: sharesAmounts[friend.id] || 0,
+            share_weight: state.shareWeights[friend.id] ?? 1,
           });
         });
       }
@@ -221,14 +268,17 @@ export function useSplitCreation() {
         title: state.title.trim(),
         description: state.description?.trim(),
         total_amount: state.amount,
-        currency: 'AUD',
+        currency: DEFAULT_CURRENCY,
         split_method: state.splitMethod,
         participants,
         image_url: imageUrl,
+        ...(state.splitMethod === 'shares' && {
+          creator_share_weight: state.shareWeights[currentUserId] ?? 1,
+        }),
       };
 
       // Create split in database
-      const split = await createSplit(splitData);
+      const { split } = await createSplit(splitData);
 
       // Reset state after successful creation
       reset();
@@ -256,6 +306,7 @@ export function useSplitCreation() {
       splitMethod: 'equal',
       customAmounts: {},
       percentages: {},
+      shareWeights: {},
     });
     setError(null);
   }, []);
@@ -282,6 +333,7 @@ export function useSplitCreation() {
     setSplitMethod,
     setCustomAmounts,
     setPercentages,
+    setShareWeights,
     validate,
     submitSplit,
     reset,
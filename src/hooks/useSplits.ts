@@ -1,35 +1,57 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { getUserSplits, SplitWithParticipants } from '../services/splitService';
 import { useAuth } from './useAuth';
 import { supabase } from '../services/supabase';
+import { getHomeCurrency } from '../services/currencyService';
+import {
+  applyPendingOperations,
+  cacheUserSplits,
+  getCachedUserSplits,
+  getSyncQueue,
+  isNetworkError,
+  QueuedOperation,
+  subscribeToSyncQueue,
+} from '../services/syncQueue';
+import { convertAmount, DEFAULT_CURRENCY } from '../utils/currency';
 
 export interface SplitStats {
   totalBalance: number;
   youOwe: number;
   owedToYou: number;
   recentActivityCount: number;
+  currency: string; // Home currency the totals are converted to
+}
+
+/**
+ * Convert a split amount to the user's home currency at the split's snapshot rate
+ */
+function toHomeCurrency(amount: number, split: SplitWithParticipants, currency: string): number {
+  try {
+    return convertAmount(amount, split.currency || DEFAULT_CURRENCY, currency, split.exchange_rates);
+  } catch {
+    return amount;
+  }
 }
 
 export function useSplits() {
   const { user } = useAuth();
-  const [splits, setSplits] = useState<SplitWithParticipants[]>([]);
+  const [remoteSplits, setRemoteSplits] = useState<SplitWithParticipants[]>([]);
+  const [queue, setQueue] = useState<QueuedOperation[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
   const initialLoadDone = useRef(false);
-  const [stats, setStats] = useState<SplitStats>({
-    totalBalance: 0,
-    youOwe: 0,
-    owedToYou: 0,
-    recentActivityCount: 0,
-  });
-
-  const calculateStats = useCallback((splitsData: SplitWithParticipants[]) => {
+  const queueLength = useRef(0);
+
+  const calculateStats = useCallback((splitsData: SplitWithParticipants[], currency: string) => {
     if (!user) {
       return {
         totalBalance: 0,
         youOwe: 0,
         owedToYou: 0,
         recentActivityCount: 0,
+        currency,
       };
     }
 
@@ -47,7 +69,7 @@ export function useSplits() {
         // Calculate what user owes (amount_owed - amount_paid)
         const userOwes = userParticipant.amount_owed - userParticipant.amount_paid;
         if (userOwes > 0) {
-          youOwe += userOwes;
+          youOwe += toHomeCurrency(userOwes, split, currency);
         }
       }
 
@@ -56,7 +78,7 @@ export function useSplits() {
         // Use amount_remaining which accounts for both participant payments AND web payments
         const remaining = split.amount_remaining ?? (split.total_amount - (split.total_paid || 0));
         if (remaining > 0) {
-          owedToYou += remaining;
+          owedToYou += toHomeCurrency(remaining, split, currency);
         }
       }
     });
@@ -68,6 +90,7 @@ export function useSplits() {
       youOwe,
       owedToYou,
       recentActivityCount: splitsData.filter(s => s.status === 'active').length,
+      currency,
     };
   }, [user]);
 
@@ -84,25 +107,62 @@ export function useSplits() {
       }
       setError(null);
 
-      const splitsData = await getUserSplits();
-      setSplits(splitsData);
+      const [splitsData, currency] = await Promise.all([
+        getUserSplits(),
+        getHomeCurrency(user.id),
+      ]);
+      setRemoteSplits(splitsData);
+      setHomeCurrency(currency);
+      setOffline(false);
       initialLoadDone.current = true;
-
-      // Calculate stats
-      const calculatedStats = calculateStats(splitsData);
-      setStats(calculatedStats);
+      cacheUserSplits(user.id, splitsData);
     } catch (err) {
-      console.error('Error loading splits:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load splits');
+      if (isNetworkError(err)) {
+        // Keep showing what we have; fall back to the last cached list on a cold start
+        setOffline(true);
+        if (!initialLoadDone.current) {
+          setRemoteSplits(await getCachedUserSplits(user.id));
+          initialLoadDone.current = true;
+        }
+      } else {
+        console.error('Error loading splits:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load splits');
+      }
     } finally {
       setLoading(false);
     }
-  }, [user, calculateStats]);
+  }, [user]);
+
+  // Overlay writes still waiting in the offline queue
+  const splits = useMemo(
+    () => (user ? applyPendingOperations(remoteSplits, queue, user.id) : remoteSplits),
+    [remoteSplits, queue, user]
+  );
+
+  const stats = useMemo(
+    () => calculateStats(splits, homeCurrency),
+    [splits, homeCurrency, calculateStats]
+  );
 
   useEffect(() => {
     loadSplits();
   }, [loadSplits]);
 
+  // Track the offline queue; reload once queued writes have synced
+  useEffect(() => {
+    getSyncQueue().then(current => {
+      queueLength.current = current.length;
+      setQueue(current);
+    });
+
+    return subscribeToSyncQueue(updated => {
+      const synced = updated.length < queueLength.current;
+      queueLength.current = updated.length;
+      setQueue(updated);
+      if (synced) loadSplits();
+    });
+  }, [loadSplits]);
+
   // Real-time subscription for live updates
   useEffect(() => {
     if (!user) return;
@@ -135,6 +195,7 @@ export function useSplits() {
     splits,
     loading,
     error,
+    offline,
     stats,
     refresh: loadSplits,
     hasRecentSplits: splits.length > 0,
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Platform } from 'react-native';
@@ -11,6 +11,7 @@ import SplitFlowNavigator from './SplitFlowNavigator';
 // Lazy load Stripe screens to avoid initialization errors
 const ConnectStripeScreen = require('../screens/settings/ConnectStripeScreen').default;
 const PaymentHistoryScreen = require('../screens/payments/PaymentHistoryScreen').default;
+import ReconcileScreen from '../screens/payments/ReconcileScreen';
 // Friends & Groups screens
 import FriendsScreen from '../screens/friends/FriendsScreen';
 import AddFriendScreen from '../screens/friends/AddFriendScreen';
@@ -20,6 +21,7 @@ import GroupsScreen from '../screens/groups/GroupsScreen';
 import CreateGroupScreen from '../screens/groups/CreateGroupScreen';
 import GroupDetailScreen from '../screens/groups/GroupDetailScreen';
 import AddGroupMembersScreen from '../screens/groups/AddGroupMembersScreen';
+import RecurringSplitScreen from '../screens/groups/RecurringSplitScreen';
 // Notification screens
 import NotificationsScreen from '../screens/notifications/NotificationsScreen';
 import NotificationSettingsScreen from '../screens/notifications/NotificationSettingsScreen';
@@ -32,6 +34,7 @@ import TermsOfServiceScreen from '../screens/settings/TermsOfServiceScreen';
 import DeleteAccountScreen from '../screens/settings/DeleteAccountScreen';
 // Settings & Profile screens
 import SettingsScreen from '../screens/settings/SettingsScreen';
+import PayoutMethodsScreen from '../screens/settings/PayoutMethodsScreen';
 import EditProfileScreen from '../screens/settings/EditProfileScreen';
 import ChangePasswordScreen from '../screens/settings/ChangePasswordScreen';
 import HelpSupportScreen from '../screens/settings/HelpSupportScreen';
@@ -39,6 +42,7 @@ import HelpSupportScreen from '../screens/settings/HelpSupportScreen';
 import AnalyticsScreen from '../screens/analytics/AnalyticsScreen';
 import { RootStackParamList, MainTabParamList } from '../types/navigation';
 import { useTheme } from '../contexts/ThemeContext';
+import { startSyncQueue } from '../services/syncQueue';
 
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -129,6 +133,9 @@ function MainTabs() {
 
 // Main Navigator with Modal Stack
 export default function MainNavigator() {
+  // Replay splits and payments saved while offline
+  useEffect(() => startSyncQueue(), []);
+
   return (
     <Stack.Navigator
       screenOptions={{
@@ -168,6 +175,16 @@ export default function MainNavigator() {
         }}
       />
 
+      {/* Bank transfer reconciliation */}
+      <Stack.Screen
+        name="ReconcilePayments"
+        component={ReconcileScreen}
+        options={{
+          presentation: 'card',
+          headerShown: false,
+        }}
+      />
+
       {/* Friends Screens */}
       <Stack.Screen
         name="Friends"
@@ -235,6 +252,14 @@ export default function MainNavigator() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="RecurringSplit"
+        component={RecurringSplitScreen}
+        options={{
+          presentation: 'card',
+          headerShown: false,
+        }}
+      />
 
       {/* Notification Screens */}
       <Stack.Screen
@@ -307,6 +332,14 @@ export default function MainNavigator() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="PayoutMethods"
+        component={PayoutMethodsScreen}
+        options={{
+          presentation: 'card',
+          headerShown: false,
+        }}
+      />
       <Stack.Screen
         name="EditProfile"
         component={EditProfileScreen}
@@ -13,10 +13,13 @@ import SelectFriendsForReceiptScreen from '../screens/splits/SelectFriendsForRec
 import ItemAssignmentScreen from '../screens/splits/ItemAssignmentScreen';
 import PaymentRequestScreen from '../screens/splits/PaymentRequestScreen';
 import PayScreen from '../screens/splits/PayScreen';
+import PaymentPlanScreen from '../screens/splits/PaymentPlanScreen';
 import SplitDetailScreen from '../screens/splits/SplitDetailScreen';
+import EditSplitScreen from '../screens/splits/EditSplitScreen';
 import SelectFriendsScreen from '../screens/splits/SelectFriendsScreen';
 import SplitMethodScreen from '../screens/splits/SplitMethodScreen';
 import CustomAmountsScreen from '../screens/splits/CustomAmountsScreen';
+import ShareWeightsScreen from '../screens/splits/ShareWeightsScreen';
 import ReviewSplitScreen from '../screens/splits/ReviewSplitScreen';
 import SplitSuccessScreen from '../screens/splits/SplitSuccessScreen';
 import ClaimItemsScreen from '../screens/splits/ClaimItemsScreen';
@@ -115,6 +118,13 @@ export default function SplitFlowNavigator() {
           title: 'Custom Amounts',
         }}
       />
+      <Stack.Screen
+        name="ShareWeights"
+        component={ShareWeightsScreen}
+        options={{
+          title: 'Split by Shares',
+        }}
+      />
       <Stack.Screen
         name="ReviewSplit"
         component={ReviewSplitScreen}
@@ -138,6 +148,14 @@ export default function SplitFlowNavigator() {
           headerShown: false, // Custom header in screen
         }}
       />
+      <Stack.Screen
+        name="PaymentPlan"
+        component={PaymentPlanScreen}
+        options={{
+          title: 'Payment Plan',
+          headerShown: false, // Custom header in screen
+        }}
+      />
       <Stack.Screen
         name="SplitDetail"
         component={SplitDetailScreen}
@@ -146,6 +164,14 @@ export default function SplitFlowNavigator() {
           headerShown: false, // Custom header in screen
         }}
       />
+      <Stack.Screen
+        name="EditSplit"
+        component={EditSplitScreen}
+        options={{
+          title: 'Edit Split',
+          headerShown: false, // Custom header in screen
+        }}
+      />
       <Stack.Screen
         name="SplitSuccess"
         component={SplitSuccessScreen}
@@ -26,6 +26,7 @@ import Card from '../../components/common/Card';
 import Header from '../../components/common/Header';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
+import { formatMoney } from '../../utils/currency';
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -89,7 +90,7 @@ export default function AnalyticsScreen() {
   };
 
   const formatCurrency = (amount: number) => {
-    return `$${amount.toFixed(2)}`;
+    return formatMoney(amount, analytics?.currency);
   };
 
   const chartConfig = {
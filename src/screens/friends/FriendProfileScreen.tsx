@@ -10,6 +10,8 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
+import { useStripe } from '@stripe/stripe-react-native';
+import * as Haptics from 'expo-haptics';
 import { supabase } from '../../services/supabase';
 import {
   getFriendProfile,
@@ -18,6 +20,10 @@ import {
   FriendProfile
 } from '../../services/friendService';
 import { blockUser, reportUser, ReportReason } from '../../services/privacyService';
+import { createSettleUpPayment, getPaymentQuote } from '../../services/stripeService';
+import { getFriendBalance } from '../../services/ledgerService';
+import { formatCurrency, roundToTwoDecimals } from '../../utils/splitCalculations';
+import { PAYMENT_CURRENCY } from '../../utils/currency';
 import Avatar from '../../components/common/Avatar';
 import Card from '../../components/common/Card';
 import Button from '../../components/common/Button';
@@ -38,6 +44,13 @@ export default function FriendProfileScreen() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [settlingUp, setSettlingUp] = useState(false);
+  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+
+  // Net amount you owe this friend after offsetting what they owe you
+  const netYouOwe = profile
+    ? roundToTwoDecimals(profile.total_you_owe - profile.total_they_owe)
+    : 0;
 
   useEffect(() => {
     loadCurrentUser();
@@ -88,6 +101,58 @@ export default function FriendProfileScreen() {
     }
   };
 
+  const handleSettleUp = async () => {
+    if (!profile || !currentUserId || netYouOwe <= 0) return;
+
+    // Settle-up is charged in the payment currency, so re-net the ledger in it
+    let amountToPay = netYouOwe;
+    if (profile.balance_currency !== PAYMENT_CURRENCY) {
+      const balance = await getFriendBalance(currentUserId, profile.id, PAYMENT_CURRENCY);
+      amountToPay = roundToTwoDecimals(balance.you_owe - balance.they_owe);
+      if (amountToPay <= 0) return;
+    }
+
+    const quoteResult = await getPaymentQuote({ toUserId: profile.id, amount: amountToPay, settleUp: true });
+    if (!quoteResult.success || !quoteResult.quote) {
+      Alert.alert('Cannot Settle Up', quoteResult.error || 'Couldn\'t work out the payment total. Please try again.');
+      return;
+    }
+    const fees = quoteResult.quote;
+    Alert.alert(
+      `Settle up with ${profile.full_name}`,
+      `Pay ${formatCurrency(fees.total, PAYMENT_CURRENCY)} (${formatCurrency(amountToPay, PAYMENT_CURRENCY)} + ${formatCurrency(fees.userFee, PAYMENT_CURRENCY)} fees) to clear every split between you?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Pay',
+          onPress: async () => {
+            try {
+              setSettlingUp(true);
+              const result = await createSettleUpPayment(
+                profile.id,
+                amountToPay,
+                initPaymentSheet,
+                presentPaymentSheet,
+                fees.total
+              );
+
+              if (result.success) {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                Alert.alert('All Settled!', `You paid ${profile.full_name} ${formatCurrency(fees.total, PAYMENT_CURRENCY)}`);
+                await loadProfile();
+              } else {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+                Alert.alert('Payment Failed', result.error || 'Payment failed. Please try again.');
+              }
+            } finally {
+              setSettlingUp(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleRemoveFriend = () => {
     Alert.alert(
       'Remove Friend',
@@ -264,18 +329,30 @@ export default function FriendProfileScreen() {
           </Card>
           <Card variant="default" style={styles.statCard}>
             <Text style={[styles.statValue, profile.total_you_owe > 0 ? { color: colors.error } : { color: colors.gray900 }]}>
-              ${profile.total_you_owe.toFixed(2)}
+              {formatCurrency(profile.total_you_owe, profile.balance_currency)}
             </Text>
             <Text style={[styles.statLabel, { color: colors.gray500 }]}>You Owe</Text>
           </Card>
           <Card variant="default" style={styles.statCard}>
             <Text style={[styles.statValue, profile.total_they_owe > 0 ? { color: colors.success } : { color: colors.gray900 }]}>
-              ${profile.total_they_owe.toFixed(2)}
+              {formatCurrency(profile.total_they_owe, profile.balance_currency)}
             </Text>
             <Text style={[styles.statLabel, { color: colors.gray500 }]}>They Owe</Text>
           </Card>
         </View>
 
+        {netYouOwe > 0 && (
+          <Button
+            onPress={handleSettleUp}
+            loading={settlingUp}
+            disabled={actionLoading}
+            fullWidth
+            style={styles.settleUpButton}
+          >
+            {`Settle up with ${profile.full_name.split(' ')[0]}`}
+          </Button>
+        )}
+
         {/* Actions */}
         <View style={styles.actionsSection}>
           <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Actions</Text>
@@ -417,6 +494,9 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
     textAlign: 'center',
   },
+  settleUpButton: {
+    marginBottom: spacing.lg,
+  },
   actionsSection: {
     marginBottom: spacing.lg,
   },
@@ -15,10 +15,12 @@ import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../../services/supabase';
 import { getFriends, getIncomingFriendRequests, Friend, FriendRequest } from '../../services/friendService';
+import { useFriendBalances } from '../../hooks/useFriendBalances';
 import Avatar from '../../components/common/Avatar';
 import Card from '../../components/common/Card';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius, shadows } from '../../constants/theme';
+import { formatCurrency } from '../../utils/splitCalculations';
 
 type TabType = 'friends' | 'requests';
 
@@ -33,6 +35,7 @@ export default function FriendsScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { balancesByFriend, refresh: refreshBalances } = useFriendBalances();
 
   useEffect(() => {
     loadCurrentUser();
@@ -72,7 +75,7 @@ export default function FriendsScreen() {
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await Promise.all([loadData(), refreshBalances()]);
     setRefreshing(false);
   };
 
@@ -106,26 +109,41 @@ export default function FriendsScreen() {
     );
   };
 
-  const renderFriendItem = ({ item }: { item: Friend }) => (
-    <TouchableOpacity
-      onPress={() => navigation.navigate('FriendProfile', { friendId: item.id })}
-    >
-      <Card variant="default" style={styles.friendCard}>
-        <View style={styles.friendContent}>
-          <Avatar
-            name={item.full_name}
-            uri={item.avatar_url || undefined}
-            size="md"
-          />
-          <View style={styles.friendInfo}>
-            <Text style={[styles.friendName, { color: colors.gray900 }]}>{item.full_name}</Text>
-            <Text style={[styles.friendEmail, { color: colors.gray500 }]}>{item.email}</Text>
+  const renderFriendItem = ({ item }: { item: Friend }) => {
+    const balance = balancesByFriend[item.id];
+    const net = balance?.net || 0;
+
+    return (
+      <TouchableOpacity
+        onPress={() => navigation.navigate('FriendProfile', { friendId: item.id })}
+      >
+        <Card variant="default" style={styles.friendCard}>
+          <View style={styles.friendContent}>
+            <Avatar
+              name={item.full_name}
+              uri={item.avatar_url || undefined}
+              size="md"
+            />
+            <View style={styles.friendInfo}>
+              <Text style={[styles.friendName, { color: colors.gray900 }]}>{item.full_name}</Text>
+              <Text style={[styles.friendEmail, { color: colors.gray500 }]}>{item.email}</Text>
+            </View>
+            {net !== 0 && (
+              <View style={styles.balanceInfo}>
+                <Text style={[styles.balanceLabel, { color: colors.gray500 }]}>
+                  {net > 0 ? 'owes you' : 'you owe'}
+                </Text>
+                <Text style={[styles.balanceAmount, { color: net > 0 ? colors.success : colors.error }]}>
+                  {formatCurrency(Math.abs(net), balance?.currency)}
+                </Text>
+              </View>
+            )}
+            <Ionicons name="chevron-forward" size={20} color={colors.gray400} />
           </View>
-          <Ionicons name="chevron-forward" size={20} color={colors.gray400} />
-        </View>
-      </Card>
-    </TouchableOpacity>
-  );
+        </Card>
+      </TouchableOpacity>
+    );
+  };
 
   const renderRequestItem = ({ item }: { item: FriendRequest }) => (
     <Card variant="default" style={styles.requestCard}>
@@ -370,6 +388,17 @@ const styles = StyleSheet.create({
   friendEmail: {
     fontSize: 14,
   },
+  balanceInfo: {
+    alignItems: 'flex-end',
+    marginRight: spacing.sm,
+  },
+  balanceLabel: {
+    fontSize: 12,
+  },
+  balanceAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
   requestCard: {
     marginBottom: spacing.md,
     padding: spacing.md,
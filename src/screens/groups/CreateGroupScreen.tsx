@@ -20,6 +20,8 @@ import { createGroup, GroupType } from '../../services/groupService';
 import { getFriends, Friend } from '../../services/friendService';
 import Avatar from '../../components/common/Avatar';
 import Card from '../../components/common/Card';
+import CurrencyPicker from '../../components/common/CurrencyPicker';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 import { shadows } from '../../constants/theme';
 import { useTheme } from '../../contexts/ThemeContext';
 
@@ -39,6 +41,7 @@ export default function CreateGroupScreen() {
   const [description, setDescription] = useState('');
   const [selectedType, setSelectedType] = useState<GroupType>('custom');
   const [customTypeName, setCustomTypeName] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [friends, setFriends] = useState<Friend[]>([]);
   const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
@@ -104,6 +107,7 @@ export default function CreateGroupScreen() {
         name: name.trim(),
         description: groupDescription,
         type: selectedType,
+        currency: selectedType === 'trip' ? currency : undefined,
         memberIds: selectedMembers,
       });
 
@@ -234,6 +238,12 @@ export default function CreateGroupScreen() {
               onChangeText={setCustomTypeName}
             />
           )}
+          {selectedType === 'trip' && (
+            <View style={styles.currencySection}>
+              <Text style={[styles.currencyLabel, { color: colors.gray600 }]}>Trip currency</Text>
+              <CurrencyPicker value={currency} onChange={setCurrency} />
+            </View>
+          )}
         </Card>
 
         <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
@@ -346,6 +356,14 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 0,
   },
+  currencySection: {
+    marginTop: 16,
+  },
+  currencyLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
   typeOption: {
     flexDirection: 'row',
     alignItems: 'center',
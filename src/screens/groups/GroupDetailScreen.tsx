@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,19 +9,31 @@ import {
   Alert,
   ScrollView,
 } from 'react-native';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../../services/supabase';
 import {
   getGroupWithMembers,
   getGroupSplits,
+  getGroupSettlements,
   leaveGroup,
   deleteGroup,
   isUserGroupAdmin,
   GroupWithMembers,
   GroupSplit,
 } from '../../services/groupService';
+import {
+  getGroupRecurringSplits,
+  setRecurringSplitPaused,
+  skipNextOccurrence,
+  deleteRecurringSplit,
+  describeSchedule,
+  RecurringSplit,
+} from '../../services/recurringSplitService';
+import { Settlement } from '../../utils/debtSimplification';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import { formatCurrency } from '../../utils/splitCalculations';
 import Avatar from '../../components/common/Avatar';
 import Card from '../../components/common/Card';
 import Badge from '../../components/common/Badge';
@@ -41,6 +53,8 @@ export default function GroupDetailScreen() {
 
   const [group, setGroup] = useState<GroupWithMembers | null>(null);
   const [splits, setSplits] = useState<GroupSplit[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [recurringSplits, setRecurringSplits] = useState<RecurringSplit[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -73,6 +87,14 @@ export default function GroupDetailScreen() {
       ]);
       setGroup(groupData);
       setSplits(splitsData);
+      if (groupData?.simplify_debts) {
+        setSettlements(await getGroupSettlements(groupId, groupData.currency));
+      } else {
+        setSettlements([]);
+      }
+      if (groupData?.type === 'household') {
+        setRecurringSplits(await getGroupRecurringSplits(groupId));
+      }
     } catch (error) {
       console.error('Error loading group:', error);
     } finally {
@@ -80,6 +102,15 @@ export default function GroupDetailScreen() {
     }
   };
 
+  // Recurring bills are edited on their own screen, so refresh them on return
+  useFocusEffect(
+    useCallback(() => {
+      if (group?.type === 'household') {
+        getGroupRecurringSplits(groupId).then(setRecurringSplits);
+      }
+    }, [group?.type, groupId])
+  );
+
   const checkAdminStatus = async () => {
     if (!currentUserId) return;
     const adminStatus = await isUserGroupAdmin(groupId, currentUserId);
@@ -141,8 +172,57 @@ export default function GroupDetailScreen() {
     navigation.navigate('SplitFlow', { screen: 'CreateSplit', params: { groupId } });
   };
 
-  const formatAmount = (amount: number) => {
-    return '$' + amount.toFixed(2);
+  const handleRecurringOptions = (recurring: RecurringSplit) => {
+    if (recurring.creator_id !== currentUserId) return;
+
+    const reload = async () => setRecurringSplits(await getGroupRecurringSplits(groupId));
+
+    Alert.alert(
+      recurring.title,
+      undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Edit',
+          onPress: () => navigation.navigate('RecurringSplit', { groupId, recurringSplitId: recurring.id }),
+        },
+        {
+          text: recurring.paused ? 'Resume' : 'Pause',
+          onPress: async () => {
+            const result = await setRecurringSplitPaused(recurring.id, !recurring.paused);
+            if (!result.success) Alert.alert('Error', result.error || 'Failed to update recurring bill');
+            await reload();
+          },
+        },
+        ...(!recurring.paused ? [{
+          text: 'Skip Next',
+          onPress: async () => {
+            const result = await skipNextOccurrence(recurring.id);
+            if (!result.success) Alert.alert('Error', result.error || 'Failed to skip occurrence');
+            await reload();
+          },
+        }] : []),
+        {
+          text: 'Delete',
+          style: 'destructive' as const,
+          onPress: async () => {
+            const result = await deleteRecurringSplit(recurring.id);
+            if (!result.success) Alert.alert('Error', result.error || 'Failed to delete recurring bill');
+            await reload();
+          },
+        },
+      ]
+    );
+  };
+
+  const formatAmount = (amount: number, currency: string = group?.currency || DEFAULT_CURRENCY) => {
+    return formatCurrency(amount, currency);
+  };
+
+  const getMemberName = (userId: string) => {
+    if (userId === currentUserId) return 'You';
+    const member = group?.members.find(m => m.user_id === userId);
+    return member?.user?.full_name || 'Unknown';
   };
 
   if (loading) {
@@ -260,6 +340,85 @@ export default function GroupDetailScreen() {
           </Card>
         </View>
 
+        {group.simplify_debts && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Settle Up</Text>
+            </View>
+            <Card variant="default" style={[styles.membersCard, { backgroundColor: colors.surface }]}>
+              {settlements.length === 0 ? (
+                <View style={styles.settledRow}>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={[styles.memberName, { color: colors.gray500 }]}>Everyone is settled up</Text>
+                </View>
+              ) : (
+                settlements.map((settlement, index) => (
+                  <View
+                    key={`${settlement.from}-${settlement.to}`}
+                    style={[
+                      styles.memberItem,
+                      index < settlements.length - 1 && [styles.memberItemBorder, { borderBottomColor: colors.gray100 }],
+                    ]}
+                  >
+                    <Text style={[styles.memberName, { color: colors.gray900 }]} numberOfLines={1}>
+                      {getMemberName(settlement.from)}
+                      <Text style={{ color: colors.gray500 }}> pays </Text>
+                      {getMemberName(settlement.to)}
+                    </Text>
+                    <Text style={[styles.settlementAmount, { color: colors.gray900 }]}>
+                      {formatAmount(settlement.amount)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </Card>
+          </View>
+        )}
+
+        {group.type === 'household' && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Recurring Bills</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('RecurringSplit', { groupId })}>
+                <Text style={[styles.addLink, { color: colors.primary }]}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            <Card variant="default" style={[styles.membersCard, { backgroundColor: colors.surface }]}>
+              {recurringSplits.length === 0 ? (
+                <View style={styles.settledRow}>
+                  <Ionicons name="repeat-outline" size={20} color={colors.gray400} />
+                  <Text style={[styles.memberName, { color: colors.gray500 }]}>Add rent, utilities and other regular bills</Text>
+                </View>
+              ) : (
+                recurringSplits.map((recurring, index) => (
+                  <TouchableOpacity
+                    key={recurring.id}
+                    style={[
+                      styles.memberItem,
+                      index < recurringSplits.length - 1 && [styles.memberItemBorder, { borderBottomColor: colors.gray100 }],
+                    ]}
+                    onPress={() => handleRecurringOptions(recurring)}
+                    disabled={recurring.creator_id !== currentUserId}
+                  >
+                    <View style={styles.splitInfo}>
+                      <Text style={[styles.splitTitle, { color: colors.gray900 }]}>{recurring.title}</Text>
+                      <Text style={[styles.splitDate, { color: colors.gray500 }]}>
+                        {describeSchedule(recurring)}
+                        {recurring.paused
+                          ? ' · Paused'
+                          : ` · Next ${new Date(recurring.next_run_at).toLocaleDateString()}`}
+                      </Text>
+                    </View>
+                    <Text style={[styles.settlementAmount, { color: recurring.paused ? colors.gray400 : colors.gray900 }]}>
+                      {formatAmount(Number(recurring.total_amount), recurring.currency)}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </Card>
+          </View>
+        )}
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Recent Splits</Text>
@@ -290,7 +449,7 @@ export default function GroupDetailScreen() {
                       </Text>
                     </View>
                     <View style={styles.splitRight}>
-                      <Text style={[styles.splitAmount, { color: colors.gray900 }]}>{formatAmount(split.total_amount)}</Text>
+                      <Text style={[styles.splitAmount, { color: colors.gray900 }]}>{formatAmount(split.total_amount, split.currency)}</Text>
                       <Badge
                         variant={split.status === 'settled' ? 'success' : 'warning'}
                         size="small"
@@ -448,6 +607,16 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: 15,
   },
+  settledRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  settlementAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
   emptyCard: {
     padding: 32,
     alignItems: 'center',
@@ -0,0 +1,483 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '../../services/supabase';
+import { getGroupWithMembers, GroupMember } from '../../services/groupService';
+import {
+  createRecurringSplit,
+  updateRecurringSplit,
+  getRecurringSplit,
+  FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  RecurringSplitMethod,
+  RecurringSplitInput,
+} from '../../services/recurringSplitService';
+import { validateCustomSplit } from '../../services/splitService';
+import { formatCurrency, roundToTwoDecimals } from '../../utils/splitCalculations';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import Avatar from '../../components/common/Avatar';
+import Card from '../../components/common/Card';
+import { shadows } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { RootStackParamList } from '../../types/navigation';
+
+type RecurringSplitRouteProp = RouteProp<RootStackParamList, 'RecurringSplit'>;
+
+const FREQUENCIES: { value: RecurrenceFrequency; icon: string }[] = [
+  { value: 'weekly', icon: 'calendar-outline' },
+  { value: 'fortnightly', icon: 'calendar-number-outline' },
+  { value: 'monthly', icon: 'repeat-outline' },
+  { value: 'custom', icon: 'today-outline' },
+];
+
+const SPLIT_METHODS: { value: RecurringSplitMethod; label: string; icon: string }[] = [
+  { value: 'equal', label: 'Equally', icon: 'git-compare-outline' },
+  { value: 'custom', label: 'Custom amounts', icon: 'create-outline' },
+];
+
+export default function RecurringSplitScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RecurringSplitRouteProp>();
+  const { groupId, recurringSplitId } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const isEditing = !!recurringSplitId;
+
+  const [title, setTitle] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [splitMethod, setSplitMethod] = useState<RecurringSplitMethod>('equal');
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [customAmounts, setCustomAmounts] = useState<{ [userId: string]: string }>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [groupId, recurringSplitId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) setCurrentUserId(user.id);
+
+      const group = await getGroupWithMembers(groupId);
+      const groupMembers = group?.members || [];
+      setMembers(groupMembers);
+
+      if (recurringSplitId) {
+        const existing = await getRecurringSplit(recurringSplitId);
+        if (existing) {
+          setTitle(existing.title);
+          setAmount(Number(existing.total_amount).toFixed(2));
+          setFrequency(existing.frequency);
+          setDayOfMonth(String(existing.day_of_month || 1));
+          setSplitMethod(existing.split_method === 'custom' ? 'custom' : 'equal');
+          setSelectedMembers(existing.participants.map(p => p.user_id));
+          const amounts: { [userId: string]: string } = {};
+          existing.participants.forEach(p => {
+            if (p.amount !== undefined) amounts[p.user_id] = Number(p.amount).toFixed(2);
+          });
+          setCustomAmounts(amounts);
+        }
+      } else {
+        // Household bills are usually shared by everyone
+        setSelectedMembers(groupMembers.map(m => m.user_id));
+      }
+    } catch (error) {
+      console.error('Error loading recurring split:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    setSelectedMembers(prev =>
+      prev.includes(userId)
+        ? prev.filter(id => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const getMemberName = (member: GroupMember) =>
+    member.user_id === currentUserId ? 'You' : member.user?.full_name || 'Unknown';
+
+  const handleSave = async () => {
+    if (!currentUserId) return;
+
+    const totalAmount = roundToTwoDecimals(parseFloat(amount));
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter a title');
+      return;
+    }
+    if (!totalAmount || totalAmount <= 0) {
+      Alert.alert('Error', 'Please enter an amount');
+      return;
+    }
+    if (selectedMembers.length < 2) {
+      Alert.alert('Error', 'Select at least two members to split with');
+      return;
+    }
+
+    const day = parseInt(dayOfMonth, 10);
+    if (frequency === 'custom' && (!day || day < 1 || day > 31)) {
+      Alert.alert('Error', 'Day of month must be between 1 and 31');
+      return;
+    }
+
+    if (splitMethod === 'custom') {
+      const amounts: { [userId: string]: number } = {};
+      selectedMembers.forEach(id => {
+        amounts[id] = roundToTwoDecimals(parseFloat(customAmounts[id] || '0') || 0);
+      });
+      const { valid, difference } = validateCustomSplit(amounts, totalAmount);
+      if (!valid) {
+        Alert.alert(
+          'Amounts don\'t add up',
+          `Custom amounts are ${formatCurrency(Math.abs(difference))} ${difference > 0 ? 'over' : 'under'} the total.`
+        );
+        return;
+      }
+    }
+
+    const input: RecurringSplitInput = {
+      title: title.trim(),
+      total_amount: totalAmount,
+      currency: DEFAULT_CURRENCY,
+      split_method: splitMethod,
+      participants: selectedMembers.map(userId => ({
+        user_id: userId,
+        ...(splitMethod === 'custom' && {
+          amount: roundToTwoDecimals(parseFloat(customAmounts[userId] || '0') || 0),
+        }),
+      })),
+      frequency,
+      day_of_month: frequency === 'custom' ? day : null,
+    };
+
+    try {
+      setSaving(true);
+      const result = isEditing
+        ? await updateRecurringSplit(recurringSplitId!, input)
+        : await createRecurringSplit(currentUserId, groupId, input);
+
+      if (result.success) {
+        navigation.goBack();
+      } else {
+        Alert.alert('Something went wrong', 'Couldn\'t save the recurring bill. Please try again.');
+      }
+    } catch (error) {
+      Alert.alert('Something went wrong', 'Couldn\'t save the recurring bill. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    icon: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.option,
+        { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+        isSelected && { borderWidth: 1, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Ionicons name={icon as any} size={20} color={isSelected ? colors.primary : colors.gray500} />
+      <Text style={[styles.optionLabel, { color: isSelected ? colors.primary : colors.gray600 }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderMember = (member: GroupMember) => {
+    const isSelected = selectedMembers.includes(member.user_id);
+    return (
+      <View key={member.user_id} style={[styles.memberItem, { borderBottomColor: colors.gray200 }]}>
+        <TouchableOpacity style={styles.memberToggle} onPress={() => toggleMember(member.user_id)}>
+          <Avatar name={member.user?.full_name || 'Unknown'} uri={member.user?.avatar_url || undefined} size="sm" />
+          <Text style={[styles.memberName, { color: colors.gray900 }]}>{getMemberName(member)}</Text>
+        </TouchableOpacity>
+        {splitMethod === 'custom' && isSelected && (
+          <TextInput
+            style={[styles.amountInput, { backgroundColor: colors.gray100, color: colors.gray900 }]}
+            placeholder="0.00"
+            placeholderTextColor={colors.gray400}
+            keyboardType="decimal-pad"
+            value={customAmounts[member.user_id] || ''}
+            onChangeText={(text) => setCustomAmounts(prev => ({ ...prev, [member.user_id]: text }))}
+          />
+        )}
+        <TouchableOpacity onPress={() => toggleMember(member.user_id)}>
+          <View style={[
+            styles.checkbox,
+            { borderColor: colors.gray300 },
+            isSelected && { backgroundColor: colors.primary, borderColor: colors.primary },
+          ]}>
+            {isSelected && <Ionicons name="checkmark" size={16} color={colors.surface} />}
+          </View>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const canSave = !!title.trim() && !!amount && !saving;
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.gray50, paddingTop: insets.top }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.surface }]}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="close" size={24} color={colors.gray900} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.gray900 }]}>
+          {isEditing ? 'Edit Recurring Bill' : 'Recurring Bill'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.saveBtn, { backgroundColor: colors.primary }, !canSave && styles.saveBtnDisabled]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color={colors.surface} />
+          ) : (
+            <Text style={[styles.saveBtnText, { color: colors.surface }]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Bill Details</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.gray100, color: colors.gray900 }]}
+              placeholder="e.g., Rent, Electricity, Internet"
+              placeholderTextColor={colors.gray400}
+              value={title}
+              onChangeText={setTitle}
+            />
+            <TextInput
+              style={[styles.input, styles.lastInput, { backgroundColor: colors.gray100, color: colors.gray900 }]}
+              placeholder="Amount"
+              placeholderTextColor={colors.gray400}
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+          </Card>
+
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Repeats</Text>
+            <View style={styles.optionGrid}>
+              {FREQUENCIES.map(f =>
+                renderChip(f.value, FREQUENCY_LABELS[f.value], f.icon, frequency === f.value, () => setFrequency(f.value))
+              )}
+            </View>
+            {frequency === 'custom' && (
+              <TextInput
+                style={[styles.input, styles.dayInput, { backgroundColor: colors.gray100, color: colors.gray900 }]}
+                placeholder="Day of month (1-31)"
+                placeholderTextColor={colors.gray400}
+                keyboardType="number-pad"
+                maxLength={2}
+                value={dayOfMonth}
+                onChangeText={setDayOfMonth}
+              />
+            )}
+            <Text style={[styles.hint, { color: colors.gray500 }]}>
+              Bills are sent to everyone on the due date.
+              {isEditing && ' Changes apply to future bills only.'}
+            </Text>
+          </Card>
+
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Split</Text>
+            <View style={styles.optionGrid}>
+              {SPLIT_METHODS.map(m =>
+                renderChip(m.value, m.label, m.icon, splitMethod === m.value, () => setSplitMethod(m.value))
+              )}
+            </View>
+          </Card>
+
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, styles.sectionTitleInline, { color: colors.gray900 }]}>Members</Text>
+              <Text style={[styles.selectedCount, { color: colors.primary }]}>{selectedMembers.length} selected</Text>
+            </View>
+            {members.map(renderMember)}
+          </Card>
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...shadows.low,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  saveBtn: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+  },
+  saveBtnDisabled: {
+    opacity: 0.5,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 8,
+  },
+  section: {
+    marginBottom: 16,
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  sectionTitleInline: {
+    marginBottom: 0,
+  },
+  selectedCount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  lastInput: {
+    marginBottom: 0,
+  },
+  dayInput: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    gap: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  memberToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 15,
+  },
+  amountInput: {
+    width: 90,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    textAlign: 'right',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -20,16 +20,25 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '../../hooks/useAuth';
 import { useSplits } from '../../hooks/useSplits';
+import { useQueuedSplitActions } from '../../hooks/useQueuedSplitActions';
+import { useFriendBalances } from '../../hooks/useFriendBalances';
 import { HomeScreenProps } from '../../types/navigation';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import * as Haptics from 'expo-haptics';
 import GetStartedCard from '../../components/onboarding/GetStartedCard';
 import RecentSplitCard from '../../components/splits/RecentSplitCard';
+import Avatar from '../../components/common/Avatar';
 import { format } from 'date-fns';
 import { getUnreadCount, registerForPushNotifications } from '../../services/notificationService';
 import { getFriends, Friend } from '../../services/friendService';
-import { createSplit, SplitWithParticipants } from '../../services/splitService';
+import { SplitWithParticipants } from '../../services/splitService';
+import { createSplitOrQueue } from '../../services/syncQueue';
+import { getRateLimitErrorMessage, isRateLimitError } from '../../utils/rateLimiter';
+import { processDueRecurringSplits } from '../../services/recurringSplitService';
+import { processPaymentPlanReminders } from '../../services/paymentPlanService';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import { formatCurrency } from '../../utils/splitCalculations';
 
 /** Show "Request from [creator]" for non-creators viewing a "Request to ..." split */
 function getDisplayTitle(split: SplitWithParticipants, userId?: string): string {
@@ -44,6 +53,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
   const { splits, loading, stats, refresh, hasRecentSplits, isNewUser } = useSplits();
+  const { outstanding: friendBalances, refresh: refreshBalances } = useFriendBalances();
   const [refreshing, setRefreshing] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const [showQuickActions, setShowQuickActions] = useState(false);
@@ -59,13 +69,47 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const [requestNote, setRequestNote] = useState('');
   const [sendingRequest, setSendingRequest] = useState(false);
 
-  const { totalBalance, youOwe, owedToYou } = stats;
+  const { totalBalance, youOwe, owedToYou, currency: homeCurrency } = stats;
+  const { handleQueuedSplitPress } = useQueuedSplitActions();
+
+  // Splits saved offline can't be opened until they've synced
+  const openSplit = (split: SplitWithParticipants) => {
+    if (split.sync_status) {
+      handleQueuedSplitPress(split);
+      return;
+    }
+    navigation.navigate('SplitFlow', {
+      screen: 'SplitDetail',
+      params: { splitId: split.id },
+    } as any);
+  };
 
   // Register for push notifications on mount
   useEffect(() => {
     registerForPushNotifications();
   }, []);
 
+  // Catch up on any recurring bills that came due before the server generated them
+  useEffect(() => {
+    if (!user?.id) return;
+    processDueRecurringSplits(user.id).then(generated => {
+      if (generated.length > 0) {
+        refresh();
+        refreshBalances();
+      }
+    });
+  }, [user?.id]);
+
+  // Remind the user about payment plan instalments that have come due
+  useEffect(() => {
+    if (!user?.id) return;
+    processPaymentPlanReminders(user.id).then(sent => {
+      if (sent > 0) {
+        getUnreadCount(user.id).then(setUnreadCount);
+      }
+    });
+  }, [user?.id]);
+
   // Load unread notification count when screen focuses
   useFocusEffect(
     useCallback(() => {
@@ -73,13 +117,14 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         getUnreadCount(user.id).then(setUnreadCount);
       }
       refresh();
+      refreshBalances();
     }, [user?.id])
   );
 
   const onRefresh = async () => {
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    await refresh();
+    await Promise.all([refresh(), refreshBalances()]);
     setRefreshing(false);
   };
 
@@ -148,11 +193,11 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
     setSendingRequest(true);
     try {
-      await createSplit({
+      const { queued } = await createSplitOrQueue({
         title: requestNote || `Request to ${selectedFriend.full_name || 'Friend'}`,
         description: requestNote || undefined,
         total_amount: amount,
-        currency: 'AUD',
+        currency: DEFAULT_CURRENCY,
         split_method: 'custom',
         participants: [
           { user_id: user.id, amount_owed: 0 },
@@ -163,13 +208,20 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       closeRequestModal();
       Alert.alert(
-        'Request Sent!',
-        `${selectedFriend.full_name} has been notified to pay you $${amount.toFixed(2)}`
+        queued ? 'Request Saved' : 'Request Sent!',
+        queued
+          ? `You're offline. We'll send ${selectedFriend.full_name} your request for $${amount.toFixed(2)} when you reconnect.`
+          : `${selectedFriend.full_name} has been notified to pay you $${amount.toFixed(2)}`
       );
       refresh();
     } catch (error) {
       console.error('Error sending request:', error);
-      Alert.alert('Error', 'Failed to send request. Please try again.');
+      Alert.alert(
+        'Error',
+        isRateLimitError(error)
+          ? `You've sent a lot of requests recently. ${getRateLimitErrorMessage(error)}`
+          : 'Failed to send request. Please try again.'
+      );
     } finally {
       setSendingRequest(false);
     }
@@ -249,10 +301,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                     onPress={() => {
                       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                       clearSearch();
-                      navigation.navigate('SplitFlow', {
-                        screen: 'SplitDetail',
-                        params: { splitId: split.id },
-                      } as any);
+                      openSplit(split);
                     }}
                   >
                     <View style={[styles.searchResultIcon, { backgroundColor: colors.primary + '15' }]}>
@@ -304,7 +353,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               </View>
             ) : (
               <Text style={[styles.balanceAmount, { color: colors.gray900 }]}>
-                ${totalBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                {formatCurrency(totalBalance, homeCurrency)}
               </Text>
             )}
 
@@ -318,7 +367,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                   <View style={[styles.oweAmountPlaceholder, { backgroundColor: colors.gray100 }]} />
                 ) : (
                   <Text style={[styles.oweAmount, { color: colors.error }]}>
-                    ${youOwe.toFixed(2)}
+                    {formatCurrency(youOwe, homeCurrency)}
                   </Text>
                 )}
               </View>
@@ -334,7 +383,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                   <View style={[styles.oweAmountPlaceholder, { backgroundColor: colors.gray100 }]} />
                 ) : (
                   <Text style={[styles.oweAmount, { color: colors.success }]}>
-                    ${owedToYou.toFixed(2)}
+                    {formatCurrency(owedToYou, homeCurrency)}
                   </Text>
                 )}
               </View>
@@ -361,6 +410,54 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             </TouchableOpacity>
           </View>
 
+          {/* Balances with friends across all splits */}
+          {friendBalances.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Balances</Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    navigation.navigate('Friends');
+                  }}
+                >
+                  <Text style={[styles.viewAllText, { color: colors.primary }]}>View all</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.activityList}>
+                {friendBalances.slice(0, 5).map((balance) => (
+                  <TouchableOpacity
+                    key={balance.friend_id}
+                    style={[styles.activityRow, { backgroundColor: colors.surface }]}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      navigation.navigate('FriendProfile', { friendId: balance.friend_id });
+                    }}
+                  >
+                    <Avatar
+                      name={balance.full_name || 'Unknown'}
+                      uri={balance.avatar_url || undefined}
+                      size="sm"
+                    />
+                    <View style={styles.activityContent}>
+                      <Text style={[styles.activityTitle, { color: colors.gray900 }]}>{balance.full_name}</Text>
+                      <Text style={[styles.activitySubtitle, { color: colors.gray600 }]}>
+                        {balance.net > 0 ? 'Owes you' : 'You owe'} • {balance.split_count} {balance.split_count === 1 ? 'split' : 'splits'}
+                      </Text>
+                    </View>
+                    <Text style={[
+                      styles.activityAmount,
+                      { color: balance.net > 0 ? colors.success : colors.error }
+                    ]}>
+                      {balance.net > 0 ? '+' : '-'}{formatCurrency(Math.abs(balance.net), balance.currency)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Get Started Card - Only for new users */}
           {isNewUser && (
             <GetStartedCard
@@ -410,12 +507,11 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                       totalPaid={split.total_paid || 0}
                       amountOwedByOthers={split.amount_owed_by_others}
                       date={format(new Date(split.created_at), 'MMM d')}
+                      currency={split.currency}
+                      syncStatus={split.sync_status}
                       onPress={() => {
                         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                        navigation.navigate('SplitFlow', {
-                          screen: 'SplitDetail',
-                          params: { splitId: split.id },
-                        } as any);
+                        openSplit(split);
                       }}
                     />
                   ))}
@@ -14,9 +14,12 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '../../hooks/useAuth';
 import { useSplits } from '../../hooks/useSplits';
+import { useQueuedSplitActions } from '../../hooks/useQueuedSplitActions';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import { SplitWithParticipants } from '../../services/splitService';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { syncPendingOperations } from '../../services/syncQueue';
 import { format } from 'date-fns';
 import * as Haptics from 'expo-haptics';
 
@@ -34,7 +37,8 @@ export default function SplitsScreen() {
   const { user } = useAuth();
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
-  const { splits, loading, refresh } = useSplits();
+  const { splits, loading, offline, refresh } = useSplits();
+  const { handleQueuedSplitPress } = useQueuedSplitActions();
   const [refreshing, setRefreshing] = useState(false);
   const [filter, setFilter] = useState<FilterType>('all');
 
@@ -47,6 +51,7 @@ export default function SplitsScreen() {
   const onRefresh = async () => {
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    await syncPendingOperations();
     await refresh();
     setRefreshing(false);
   };
@@ -84,6 +89,9 @@ export default function SplitsScreen() {
   });
 
   const getStatusColor = (split: any) => {
+    if (split.sync_status === 'failed') return colors.error;
+    if (split.sync_status === 'pending') return colors.gray500;
+
     const isCreator = split.creator_id === user?.id;
     const userParticipant = split.participants.find((p: any) => p.user_id === user?.id);
 
@@ -98,6 +106,9 @@ export default function SplitsScreen() {
   };
 
   const getStatusText = (split: any) => {
+    if (split.sync_status === 'failed') return 'Sync failed';
+    if (split.sync_status === 'pending') return 'Waiting to sync';
+
     const isCreator = split.creator_id === user?.id;
     const userParticipant = split.participants.find((p: any) => p.user_id === user?.id);
 
@@ -170,6 +181,15 @@ export default function SplitsScreen() {
         ))}
       </View>
 
+      {offline && (
+        <View style={[styles.offlineBanner, { backgroundColor: colors.warning + '20' }]}>
+          <Ionicons name="cloud-offline-outline" size={16} color={colors.warning} />
+          <Text style={[styles.offlineText, { color: colors.gray700 }]}>
+            You're offline. Changes will sync when you reconnect.
+          </Text>
+        </View>
+      )}
+
       {/* Splits List */}
       <ScrollView
         style={styles.scrollView}
@@ -220,6 +240,10 @@ export default function SplitsScreen() {
                 style={[styles.splitCard, { backgroundColor: colors.surface }]}
                 onPress={() => {
                   Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  if (split.sync_status) {
+                    handleQueuedSplitPress(split);
+                    return;
+                  }
                   navigation.navigate('SplitFlow', {
                     screen: 'SplitDetail',
                     params: { splitId: split.id },
@@ -245,7 +269,7 @@ export default function SplitsScreen() {
                 </View>
                 <View style={styles.splitCardRight}>
                   <Text style={[styles.splitAmount, { color: getStatusColor(split) }]}>
-                    {split.creator_id === user?.id ? '+' : '-'}${getUserAmount(split).toFixed(2)}
+                    {split.creator_id === user?.id ? '+' : '-'}{formatCurrency(getUserAmount(split), split.currency)}
                   </Text>
                   <View style={[styles.statusBadge, { backgroundColor: getStatusColor(split) + '20' }]}>
                     <Text style={[styles.statusText, { color: getStatusColor(split) }]}>
@@ -325,6 +349,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    borderRadius: radius.md,
+    gap: 8,
+  },
+  offlineText: {
+    fontSize: 13,
+    flex: 1,
+  },
   scrollView: {
     flex: 1,
   },
@@ -43,6 +43,8 @@ export default function NotificationsScreen() {
     payment_received: { name: 'checkmark-circle-outline', color: colors.success },
     payment_sent: { name: 'arrow-up-circle-outline', color: colors.success },
     payment_reminder: { name: 'alarm-outline', color: colors.error },
+    payment_refunded: { name: 'return-down-back-outline', color: colors.info },
+    payment_disputed: { name: 'alert-circle-outline', color: colors.error },
     friend_request: { name: 'person-add-outline', color: colors.primary },
     friend_accepted: { name: 'people-outline', color: colors.success },
     group_invite: { name: 'people-circle-outline', color: colors.primary },
@@ -117,6 +119,18 @@ export default function NotificationsScreen() {
           });
         }
         break;
+      case 'payment_refunded':
+      case 'payment_disputed':
+        // Settle-up payments aren't on one split
+        if (data.splitId) {
+          navigation.navigate('SplitFlow', {
+            screen: 'SplitDetail',
+            params: { splitId: data.splitId },
+          });
+        } else {
+          navigation.navigate('PaymentHistory');
+        }
+        break;
       case 'friend_request':
         navigation.navigate('FriendRequests');
         break;
@@ -7,14 +7,23 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../../services/supabase';
-import { getPaymentHistory, getPaymentsSent, getPaymentsReceived, Payment } from '../../services/stripeService';
+import {
+  getOpenDispute,
+  getPaymentHistory,
+  getPaymentsSent,
+  getPaymentsReceived,
+  getRefundableAmount,
+  Payment,
+} from '../../services/stripeService';
 import Avatar from '../../components/common/Avatar';
 import Card from '../../components/common/Card';
 import Header from '../../components/common/Header';
+import RefundModal from '../../components/modals/RefundModal';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import { format } from 'date-fns';
@@ -22,13 +31,14 @@ import { format } from 'date-fns';
 type TabType = 'all' | 'sent' | 'received';
 
 export default function PaymentHistoryScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<any>();
   const { colors } = useTheme();
   const [activeTab, setActiveTab] = useState<TabType>('all');
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(null);
 
   useEffect(() => {
     loadPayments();
@@ -67,6 +77,16 @@ export default function PaymentHistoryScreen() {
     setRefreshing(false);
   };
 
+  const handleRefunded = (amount: number) => {
+    const payerName = refundingPayment?.payer?.full_name;
+    setRefundingPayment(null);
+    Alert.alert(
+      'Refund Started',
+      `$${amount.toFixed(2)} is on its way back to ${payerName || 'them'}. It's taken off what they've paid once the refund goes through.`
+    );
+    loadPayments();
+  };
+
   const renderTabButton = (tab: TabType, label: string) => {
     const isActive = activeTab === tab;
     return (
@@ -98,10 +118,13 @@ export default function PaymentHistoryScreen() {
         return { bg: colors.success + '18', text: colors.success };
       case 'pending':
       case 'processing':
+      case 'partially_refunded':
         return { bg: colors.warning + '18', text: colors.warning };
       case 'failed':
       case 'cancelled':
       case 'refunded':
+      case 'disputed':
+      case 'charged_back':
         return { bg: colors.error + '18', text: colors.error };
       default:
         return { bg: colors.gray200, text: colors.gray600 };
@@ -116,6 +139,9 @@ export default function PaymentHistoryScreen() {
       case 'failed': return 'Failed';
       case 'cancelled': return 'Cancelled';
       case 'refunded': return 'Refunded';
+      case 'partially_refunded': return 'Part Refunded';
+      case 'disputed': return 'Disputed';
+      case 'charged_back': return 'Charged Back';
       default: return status;
     }
   };
@@ -129,6 +155,9 @@ export default function PaymentHistoryScreen() {
     const hasFee = isSent && item.stripe_fee_amount && item.stripe_fee_amount > 0;
     const directionIcon = isSent ? 'arrow-up-circle' : 'arrow-down-circle';
     const directionColor = isSent ? colors.error : colors.success;
+    const refundedAmount = Number(item.refunded_amount || 0);
+    const openDispute = getOpenDispute(item);
+    const canRefund = !isSent && getRefundableAmount(item) > 0;
 
     return (
       <Card variant="elevated" style={styles.paymentCard}>
@@ -159,6 +188,16 @@ export default function PaymentHistoryScreen() {
               {format(new Date(item.created_at), 'MMM d, yyyy · h:mm a')}
               {hasFee ? `  ·  Fee $${item.stripe_fee_amount!.toFixed(2)}` : ''}
             </Text>
+            {refundedAmount > 0 && item.status !== 'refunded' ? (
+              <Text style={[styles.paymentNote, { color: colors.warning }]}>
+                ${refundedAmount.toFixed(2)} refunded
+              </Text>
+            ) : null}
+            {openDispute ? (
+              <Text style={[styles.paymentNote, { color: colors.error }]}>
+                Disputed with the payer's bank{openDispute.reason ? ` (${openDispute.reason.replace(/_/g, ' ')})` : ''}
+              </Text>
+            ) : null}
           </View>
 
           {/* Amount + Status */}
@@ -171,6 +210,11 @@ export default function PaymentHistoryScreen() {
                 {getStatusText(item.status)}
               </Text>
             </View>
+            {canRefund && (
+              <TouchableOpacity onPress={() => setRefundingPayment(item)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={[styles.refundText, { color: colors.primary }]}>Refund</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Card>
@@ -204,7 +248,15 @@ export default function PaymentHistoryScreen() {
 
   return (
     <View style={[styles.container, { backgroundColor: colors.gray50 }]}>
-      <Header title="Payment History" onBack={() => navigation.goBack()} />
+      <Header
+        title="Payment History"
+        onBack={() => navigation.goBack()}
+        rightElement={
+          <TouchableOpacity onPress={() => navigation.navigate('ReconcilePayments')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons name="business-outline" size={22} color={colors.primary} />
+          </TouchableOpacity>
+        }
+      />
 
       {/* Tabs */}
       <View style={styles.tabBar}>
@@ -224,6 +276,13 @@ export default function PaymentHistoryScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
         }
       />
+
+      <RefundModal
+        payment={refundingPayment}
+        payerName={refundingPayment?.payer?.full_name}
+        onClose={() => setRefundingPayment(null)}
+        onRefunded={handleRefunded}
+      />
     </View>
   );
 }
@@ -296,6 +355,11 @@ const styles = StyleSheet.create({
   paymentDate: {
     fontSize: 12,
   },
+  paymentNote: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   paymentRight: {
     alignItems: 'flex-end',
   },
@@ -313,6 +377,11 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  refundText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
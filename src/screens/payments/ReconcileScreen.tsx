@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Haptics from 'expo-haptics';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../../services/supabase';
+import {
+  confirmMatch,
+  getReconciliationProposals,
+  ignoreTransaction,
+  importBankStatement,
+  ImportedTransaction,
+  ReconciliationProposal,
+} from '../../services/reconciliationService';
+import Button from '../../components/common/Button';
+import Card from '../../components/common/Card';
+import Header from '../../components/common/Header';
+import { useTheme } from '../../contexts/ThemeContext';
+import { spacing, radius } from '../../constants/theme';
+import { MatchConfidence } from '../../utils/bankStatement';
+
+const CONFIDENCE_LABELS: { [confidence in MatchConfidence]: string } = {
+  exact: 'Reference and amount match',
+  reference: 'Reference matches · part payment',
+  amount: 'Amount matches · no reference',
+};
+
+export default function ReconcileScreen() {
+  const navigation = useNavigation();
+  const { colors } = useTheme();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<ReconciliationProposal[]>([]);
+  const [unmatched, setUnmatched] = useState<ImportedTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProposals();
+  }, []);
+
+  const loadProposals = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+
+      const result = await getReconciliationProposals(user.id);
+      if (result.success) {
+        setProposals(result.proposals || []);
+        setUnmatched(result.unmatched || []);
+      }
+    } catch (error) {
+      console.error('Error loading reconciliation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadProposals();
+    setRefreshing(false);
+  };
+
+  const handleImport = async () => {
+    if (!userId) return;
+
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/x-ofx', 'application/x-qif', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.length) return;
+
+      setImporting(true);
+      const file = picked.assets[0];
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      const result = await importBankStatement(userId, file.name, content);
+
+      if (!result.success) {
+        Alert.alert('Import Failed', result.error || 'Could not read this statement');
+        return;
+      }
+
+      setProposals(result.proposals || []);
+      setUnmatched(result.unmatched || []);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      const found = result.proposals?.length || 0;
+      Alert.alert(
+        'Statement Imported',
+        `${result.imported} new incoming payment${result.imported === 1 ? '' : 's'}` +
+          (result.skipped ? ` (${result.skipped} already imported)` : '') +
+          `. ${found ? `${found} look${found === 1 ? 's' : ''} like split payments.` : 'None matched a split yet.'}`
+      );
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      Alert.alert('Error', 'Failed to read the statement file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleConfirm = async (proposal: ReconciliationProposal) => {
+    setBusyId(proposal.transaction.id);
+    const result = await confirmMatch(proposal.transaction.id, proposal.share.participantId, proposal.amount);
+    setBusyId(null);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to record payment');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    // What's outstanding has changed, so propose again
+    await loadProposals();
+  };
+
+  const handleIgnore = (transaction: ImportedTransaction) => {
+    Alert.alert(
+      'Not a Split Payment?',
+      'This transaction won\'t be suggested again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          onPress: async () => {
+            setBusyId(transaction.id);
+            const result = await ignoreTransaction(transaction.id);
+            setBusyId(null);
+
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to skip transaction');
+              return;
+            }
+            await loadProposals();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTransactionLine = (transaction: ImportedTransaction) => (
+    <>
+      <Text style={[styles.description, { color: colors.gray700 }]} numberOfLines={2}>
+        {transaction.description || 'No description'}
+      </Text>
+      <Text style={[styles.meta, { color: colors.gray400 }]}>
+        {format(parseISO(transaction.postedOn), 'MMM d, yyyy')}
+        {transaction.reference ? `  ·  ${transaction.reference}` : ''}
+      </Text>
+    </>
+  );
+
+  const renderProposal = (proposal: ReconciliationProposal) => {
+    const { transaction, share } = proposal;
+    const isBusy = busyId === transaction.id;
+    const confidenceColor = proposal.confidence === 'amount' ? colors.warning : colors.success;
+
+    return (
+      <Card key={transaction.id} variant="elevated" style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.info}>
+            <Text style={[styles.title, { color: colors.gray900 }]} numberOfLines={1}>
+              {share.participantName} · {share.splitTitle}
+            </Text>
+            {renderTransactionLine(transaction)}
+            <Text style={[styles.confidence, { color: confidenceColor }]}>
+              {CONFIDENCE_LABELS[proposal.confidence]}
+            </Text>
+          </View>
+          <View style={styles.amounts}>
+            <Text style={[styles.amount, { color: colors.success }]}>+${transaction.amount.toFixed(2)}</Text>
+            <Text style={[styles.meta, { color: colors.gray400 }]}>owes ${share.outstanding.toFixed(2)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: colors.gray100 }]}
+            onPress={() => handleIgnore(transaction)}
+            disabled={isBusy}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.actionText, { color: colors.gray700 }]}>Skip</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: colors.primary }]}
+            onPress={() => handleConfirm(proposal)}
+            disabled={isBusy}
+            activeOpacity={0.7}
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color={colors.surface} />
+            ) : (
+              <Text style={[styles.actionText, { color: colors.surface }]}>
+                Record ${proposal.amount.toFixed(2)}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </Card>
+    );
+  };
+
+  const renderUnmatched = (transaction: ImportedTransaction) => (
+    <Card key={transaction.id} variant="elevated" style={styles.card}>
+      <View style={styles.row}>
+        <View style={styles.info}>{renderTransactionLine(transaction)}</View>
+        <View style={styles.amounts}>
+          <Text style={[styles.amount, { color: colors.gray700 }]}>+${transaction.amount.toFixed(2)}</Text>
+          <TouchableOpacity onPress={() => handleIgnore(transaction)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Text style={[styles.skipText, { color: colors.primary }]}>Skip</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.gray50 }]}>
+        <Header title="Bank Transfers" onBack={() => navigation.goBack()} />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.gray50 }]}>
+      <Header title="Bank Transfers" onBack={() => navigation.goBack()} />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
+        }
+      >
+        <Text style={[styles.intro, { color: colors.gray500 }]}>
+          Import a statement from your bank (CSV, OFX or QIF) to find transfers from your split participants.
+          Payments with a ZS reference are matched automatically.
+        </Text>
+
+        <Button
+          onPress={handleImport}
+          loading={importing}
+          fullWidth
+          icon={<Ionicons name="document-text-outline" size={20} color={colors.surface} />}
+        >
+          Import Statement
+        </Button>
+
+        {proposals.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Suggested Matches</Text>
+            {proposals.map(renderProposal)}
+          </>
+        )}
+
+        {unmatched.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Not Matched</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.gray500 }]}>
+              Incoming payments that don't match anything you're owed
+            </Text>
+            {unmatched.map(renderUnmatched)}
+          </>
+        )}
+
+        {proposals.length === 0 && unmatched.length === 0 && (
+          <View style={styles.emptyState}>
+            <View style={[styles.emptyIconCircle, { backgroundColor: colors.surface }]}>
+              <Ionicons name="business-outline" size={32} color={colors.gray400} />
+            </View>
+            <Text style={[styles.emptyTitle, { color: colors.gray900 }]}>Nothing to Match</Text>
+            <Text style={[styles.emptyText, { color: colors.gray500 }]}>
+              Imported bank transfers waiting to be matched will appear here
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: spacing.md,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  card: {
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  info: {
+    flex: 1,
+    marginRight: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  meta: {
+    fontSize: 12,
+  },
+  confidence: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  amounts: {
+    alignItems: 'flex-end',
+  },
+  amount: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  skipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: spacing.md,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyIconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: spacing.md,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
@@ -19,8 +19,10 @@ import { useAuth } from '../../hooks/useAuth';
 import Avatar from '../../components/common/Avatar';
 import Button from '../../components/common/Button';
 import Header from '../../components/common/Header';
+import CurrencyPicker from '../../components/common/CurrencyPicker';
 import { useTheme } from '../../contexts/ThemeContext';
 import { decode } from 'base64-arraybuffer';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 
 export default function EditProfileScreen() {
   const navigation = useNavigation<any>();
@@ -31,6 +33,7 @@ export default function EditProfileScreen() {
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
@@ -40,6 +43,7 @@ export default function EditProfileScreen() {
   const [originalValues, setOriginalValues] = useState({
     fullName: '',
     phone: '',
+    homeCurrency: DEFAULT_CURRENCY,
   });
 
   useFocusEffect(
@@ -54,9 +58,10 @@ export default function EditProfileScreen() {
     // Check if values have changed
     const changed =
       fullName !== originalValues.fullName ||
-      phone !== originalValues.phone;
+      phone !== originalValues.phone ||
+      homeCurrency !== originalValues.homeCurrency;
     setHasChanges(changed);
-  }, [fullName, phone, originalValues]);
+  }, [fullName, phone, homeCurrency, originalValues]);
 
   const loadProfile = async () => {
     try {
@@ -74,10 +79,12 @@ export default function EditProfileScreen() {
       setEmail(user.email || '');
       setPhone(data.phone || '');
       setAvatarUrl(data.avatar_url);
+      setHomeCurrency(data.home_currency || DEFAULT_CURRENCY);
 
       setOriginalValues({
         fullName: data.full_name || '',
         phone: data.phone || '',
+        homeCurrency: data.home_currency || DEFAULT_CURRENCY,
       });
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -249,6 +256,7 @@ export default function EditProfileScreen() {
         .update({
           full_name: fullName.trim(),
           phone: phone.trim() || null,
+          home_currency: homeCurrency,
           updated_at: new Date().toISOString(),
         })
         .eq('id', user.id);
@@ -263,6 +271,7 @@ export default function EditProfileScreen() {
       setOriginalValues({
         fullName: fullName.trim(),
         phone: phone.trim(),
+        homeCurrency,
       });
 
       Alert.alert('Success', 'Profile updated successfully!');
@@ -367,6 +376,14 @@ export default function EditProfileScreen() {
                 Optional - used for account recovery
               </Text>
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={[styles.inputLabel, { color: colors.gray700 }]}>Home Currency</Text>
+              <CurrencyPicker value={homeCurrency} onChange={setHomeCurrency} />
+              <Text style={[styles.inputHint, { color: colors.gray400 }]}>
+                Shares and balances from other currencies are shown in this currency
+              </Text>
+            </View>
           </View>
 
           {/* Security Section */}
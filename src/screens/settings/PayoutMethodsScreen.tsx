@@ -0,0 +1,526 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '../../hooks/useAuth';
+import Button from '../../components/common/Button';
+import Header from '../../components/common/Header';
+import { useTheme } from '../../contexts/ThemeContext';
+import { AustralianBank, PaymentMethod } from '../../services/paymentService';
+import {
+  deletePayoutMethod,
+  describePayoutMethod,
+  getPayoutMethods,
+  PayoutMethod,
+  PayoutMethodInput,
+  savePayoutMethod,
+  setDefaultPayoutMethod,
+  validatePayoutMethod,
+} from '../../services/payoutMethodService';
+
+const METHOD_OPTIONS: { method: PaymentMethod; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { method: 'payid', label: 'PayID', icon: 'phone-portrait-outline' },
+  { method: 'bank_transfer', label: 'Bank Account', icon: 'business-outline' },
+  { method: 'paypal', label: 'PayPal', icon: 'logo-paypal' },
+];
+
+const BANKS: AustralianBank[] = [
+  'CommBank', 'Westpac', 'NAB', 'ANZ', 'ING', 'Macquarie', 'BankWest', 'Suncorp', 'BOQ', 'Other',
+];
+
+const EMPTY_FORM: PayoutMethodInput = { method: 'payid', payid_type: 'phone' };
+
+export default function PayoutMethodsScreen() {
+  const navigation = useNavigation<any>();
+  const { user } = useAuth();
+  const { colors } = useTheme();
+
+  const [payoutMethods, setPayoutMethods] = useState<PayoutMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null = list, otherwise the form (editingId is undefined when adding)
+  const [form, setForm] = useState<PayoutMethodInput | null>(null);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        loadPayoutMethods();
+      }
+    }, [user])
+  );
+
+  const loadPayoutMethods = async () => {
+    if (!user) return;
+    setPayoutMethods(await getPayoutMethods(user.id));
+    setLoading(false);
+  };
+
+  const updateForm = (changes: Partial<PayoutMethodInput>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+    setFormError(null);
+  };
+
+  const handleAdd = () => {
+    setForm({ ...EMPTY_FORM, account_name: user?.user_metadata?.full_name || '' });
+    setEditingId(undefined);
+    setFormError(null);
+  };
+
+  const handleEdit = (payoutMethod: PayoutMethod) => {
+    setForm({
+      method: payoutMethod.method,
+      label: payoutMethod.label,
+      payid: payoutMethod.payid,
+      payid_type: payoutMethod.payid_type,
+      bsb: payoutMethod.bsb,
+      account_number: payoutMethod.account_number,
+      bank_name: payoutMethod.bank_name,
+      account_name: payoutMethod.account_name,
+      paypal_username: payoutMethod.paypal_username,
+    });
+    setEditingId(payoutMethod.id);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    if (!user || !form) return;
+
+    const validationError = validatePayoutMethod(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const result = await savePayoutMethod(user.id, form, editingId);
+    setSaving(false);
+
+    if (!result.success) {
+      setFormError(result.error || 'Failed to save payout method');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setForm(null);
+    setEditingId(undefined);
+    await loadPayoutMethods();
+  };
+
+  const handleSetDefault = async (payoutMethod: PayoutMethod) => {
+    if (payoutMethod.is_default) return;
+
+    const result = await setDefaultPayoutMethod(payoutMethod.id);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update default');
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await loadPayoutMethods();
+  };
+
+  const handleDelete = (payoutMethod: PayoutMethod) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Remove Payout Method',
+      'People you share splits with will no longer see these details.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deletePayoutMethod(user.id, payoutMethod);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to remove payout method');
+              return;
+            }
+            await loadPayoutMethods();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderInput = (
+    label: string,
+    value: string | null | undefined,
+    onChangeText: (text: string) => void,
+    props: Partial<React.ComponentProps<typeof TextInput>> = {}
+  ) => (
+    <View style={styles.inputGroup}>
+      <Text style={[styles.inputLabel, { color: colors.gray700 }]}>{label}</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.gray200, color: colors.gray900 }]}
+        value={value || ''}
+        onChangeText={onChangeText}
+        placeholderTextColor={colors.gray400}
+        {...props}
+      />
+    </View>
+  );
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { backgroundColor: colors.surface, borderColor: colors.gray200 },
+        selected && { backgroundColor: colors.primaryLight, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.primary : colors.gray700 }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderForm = (current: PayoutMethodInput) => (
+    <View>
+      {/* Method (fixed once saved) */}
+      {!editingId && (
+        <View style={styles.methodRow}>
+          {METHOD_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.method}
+              style={[
+                styles.methodOption,
+                { backgroundColor: colors.surface, borderColor: colors.gray200 },
+                current.method === option.method && { backgroundColor: colors.primaryLight, borderColor: colors.primary },
+              ]}
+              onPress={() => updateForm({ method: option.method })}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={option.icon}
+                size={22}
+                color={current.method === option.method ? colors.primary : colors.gray500}
+              />
+              <Text style={[styles.methodOptionText, { color: current.method === option.method ? colors.primary : colors.gray700 }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {current.method === 'payid' && (
+        <>
+          <View style={styles.chipRow}>
+            {renderChip('Mobile', current.payid_type !== 'email', () => updateForm({ payid_type: 'phone' }))}
+            {renderChip('Email', current.payid_type === 'email', () => updateForm({ payid_type: 'email' }))}
+          </View>
+          {renderInput('PayID', current.payid, payid => updateForm({ payid }), {
+            placeholder: current.payid_type === 'email' ? 'you@example.com' : '0412 345 678',
+            keyboardType: current.payid_type === 'email' ? 'email-address' : 'phone-pad',
+            autoCapitalize: 'none',
+          })}
+          {renderInput('Name on PayID', current.account_name, account_name => updateForm({ account_name }), {
+            placeholder: 'As it appears to payers',
+            autoCapitalize: 'words',
+          })}
+        </>
+      )}
+
+      {current.method === 'bank_transfer' && (
+        <>
+          <Text style={[styles.inputLabel, { color: colors.gray700 }]}>Bank</Text>
+          <View style={styles.chipRow}>
+            {BANKS.map(bank => renderChip(bank, current.bank_name === bank, () => updateForm({ bank_name: bank })))}
+          </View>
+          {renderInput('BSB', current.bsb, bsb => updateForm({ bsb }), {
+            placeholder: '062-000',
+            keyboardType: 'number-pad',
+            maxLength: 7,
+          })}
+          {renderInput('Account Number', current.account_number, account_number => updateForm({ account_number }), {
+            placeholder: '12345678',
+            keyboardType: 'number-pad',
+            maxLength: 9,
+          })}
+          {renderInput('Account Name', current.account_name, account_name => updateForm({ account_name }), {
+            placeholder: 'Name on the account',
+            autoCapitalize: 'words',
+          })}
+        </>
+      )}
+
+      {current.method === 'paypal' && (
+        renderInput('PayPal.Me Username', current.paypal_username, paypal_username => updateForm({ paypal_username }), {
+          placeholder: 'yourname',
+          autoCapitalize: 'none',
+          autoCorrect: false,
+        })
+      )}
+
+      {renderInput('Label (optional)', current.label, label => updateForm({ label }), {
+        placeholder: 'e.g. Everyday account',
+      })}
+
+      {formError && <Text style={[styles.errorText, { color: colors.error }]}>{formError}</Text>}
+
+      <Button onPress={handleSave} loading={saving} disabled={saving} fullWidth>
+        {editingId ? 'Save Changes' : 'Add Payout Method'}
+      </Button>
+      <TouchableOpacity
+        style={styles.cancelButton}
+        onPress={() => {
+          setForm(null);
+          setEditingId(undefined);
+        }}
+      >
+        <Text style={[styles.cancelText, { color: colors.gray500 }]}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderPayoutMethod = (payoutMethod: PayoutMethod) => {
+    const option = METHOD_OPTIONS.find(o => o.method === payoutMethod.method)!;
+
+    return (
+      <View key={payoutMethod.id} style={[styles.methodCard, { backgroundColor: colors.surface }]}>
+        <TouchableOpacity style={styles.methodCardContent} onPress={() => handleEdit(payoutMethod)} activeOpacity={0.7}>
+          <View style={[styles.methodIcon, { backgroundColor: colors.gray100 }]}>
+            <Ionicons name={option.icon} size={22} color={colors.primary} />
+          </View>
+          <View style={styles.methodInfo}>
+            <Text style={[styles.methodTitle, { color: colors.gray900 }]}>
+              {payoutMethod.label || option.label}
+            </Text>
+            <Text style={[styles.methodSubtitle, { color: colors.gray500 }]} numberOfLines={1}>
+              {describePayoutMethod(payoutMethod)}
+            </Text>
+          </View>
+          {payoutMethod.is_default && (
+            <View style={[styles.defaultBadge, { backgroundColor: colors.primaryLight }]}>
+              <Text style={[styles.defaultBadgeText, { color: colors.primary }]}>Default</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+        <View style={[styles.methodActions, { borderTopColor: colors.gray100 }]}>
+          {!payoutMethod.is_default && (
+            <TouchableOpacity onPress={() => handleSetDefault(payoutMethod)}>
+              <Text style={[styles.actionText, { color: colors.primary }]}>Make Default</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => handleDelete(payoutMethod)}>
+            <Text style={[styles.actionText, { color: colors.error }]}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.gray50 }]}>
+        <Header title="Payout Methods" onBack={() => navigation.goBack()} />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.gray50 }]}>
+      <Header
+        title={form ? (editingId ? 'Edit Payout Method' : 'Add Payout Method') : 'Payout Methods'}
+        onBack={() => (form ? setForm(null) : navigation.goBack())}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoid}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {form ? (
+            renderForm(form)
+          ) : (
+            <>
+              <Text style={[styles.intro, { color: colors.gray500 }]}>
+                If you haven't connected Stripe, your default payout method is included when you share a
+                split or request a payment, so people can pay you directly.
+              </Text>
+
+              {payoutMethods.map(renderPayoutMethod)}
+
+              {payoutMethods.length === 0 && (
+                <View style={styles.emptyState}>
+                  <Ionicons name="wallet-outline" size={40} color={colors.gray400} />
+                  <Text style={[styles.emptyText, { color: colors.gray500 }]}>
+                    No payout methods yet
+                  </Text>
+                </View>
+              )}
+
+              <Button
+                variant="outline"
+                onPress={handleAdd}
+                fullWidth
+                icon={<Ionicons name="add" size={20} color={colors.primary} />}
+              >
+                Add Payout Method
+              </Button>
+            </>
+          )}
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  methodCard: {
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  methodCardContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  methodIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  methodInfo: {
+    flex: 1,
+  },
+  methodTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  methodSubtitle: {
+    fontSize: 13,
+  },
+  defaultBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  methodActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 20,
+  },
+  methodOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    gap: 6,
+  },
+  methodOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -140,6 +140,13 @@ export default function SettingsScreen() {
             onPress={() => navigation.navigate('ConnectStripe')}
             colors={colors}
           />
+          <SettingsItem
+            icon="wallet-outline"
+            label="Payout Methods"
+            subtitle="PayID, bank account or PayPal"
+            onPress={() => navigation.navigate('PayoutMethods')}
+            colors={colors}
+          />
           <SettingsItem
             icon="time-outline"
             label="Payment History"
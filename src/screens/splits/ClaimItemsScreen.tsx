@@ -14,19 +14,26 @@ import * as Haptics from 'expo-haptics';
 import { ClaimItemsScreenProps } from '../../types/navigation';
 import { colors, spacing, radius, typography } from '../../constants/theme';
 import { supabase } from '../../services/supabase';
-import { getSplitItems, SplitItem } from '../../services/itemService';
+import {
+  getClaimedUnits,
+  getClaimsTotalCents,
+  getItemClaims,
+  getSplitItems,
+  ItemClaim,
+  ItemClaimConflictError,
+  SplitItem,
+  subscribeToItemClaims,
+} from '../../services/itemService';
 import { getSplitById, SplitWithParticipants } from '../../services/splitService';
+import { openPaymentLink, recordPaymentLinkClaim } from '../../services/paymentLinkService';
+import { discardQueuedOperation, getItemClaimConflicts, saveItemClaimsOrQueue } from '../../services/syncQueue';
+import { fromCents, toCents } from '../../utils/money';
+
+// Claims are fractions of an item when shared, so allow for rounding
+const UNIT_EPSILON = 0.0001;
 
-interface ItemClaim {
-  id: string;
-  item_index: number;
-  item_name: string;
-  item_amount: number;
-  claimed_by_email: string;
-  claimed_by_name: string;
-  claimed_by_user_id: string | null;
-  share_count: number;
-  quantity_claimed?: number;
+function formatUnits(units: number): string {
+  return Number(units.toFixed(2)).toString();
 }
 
 export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreenProps) {
@@ -44,12 +51,29 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
   const [selectedQuantities, setSelectedQuantities] = useState<Map<number, number>>(new Map()); // Track qty claimed per item
   const [currentUser, setCurrentUser] = useState<{ id: string; email: string; full_name: string } | null>(null);
   const [isCreator, setIsCreator] = useState(false);
+  const [claimNotice, setClaimNotice] = useState<string | null>(null);
 
   // Load data
   useEffect(() => {
     loadData();
   }, [initialSplitId, paymentLinkCode]);
 
+  // Live claims: see what other people claim while you're choosing
+  useEffect(() => {
+    if (!splitId) return;
+    return subscribeToItemClaims(splitId, () => {
+      loadClaims(splitId);
+    });
+  }, [splitId]);
+
+  const loadClaims = async (id: string) => {
+    try {
+      setClaims(await getItemClaims(id));
+    } catch (error) {
+      console.error('Error loading claims:', error);
+    }
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -70,19 +94,14 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
       // Resolve splitId from payment link code if needed
       let resolvedSplitId: string | null = initialSplitId || null;
       if (!resolvedSplitId && paymentLinkCode) {
-        const { data: paymentLink, error: linkError } = await supabase
-          .from('payment_links')
-          .select('split_id')
-          .eq('short_code', paymentLinkCode)
-          .eq('is_active', true)
-          .single();
+        const linkedSplitId = await openPaymentLink(paymentLinkCode);
 
-        if (linkError || !paymentLink) {
+        if (!linkedSplitId) {
           Alert.alert('Error', 'Invalid or expired payment link');
           navigation.goBack();
           return;
         }
-        resolvedSplitId = paymentLink.split_id;
+        resolvedSplitId = linkedSplitId;
         setSplitId(resolvedSplitId);
       }
 
@@ -106,14 +125,8 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
       setItems(itemsData);
 
       // Load existing claims
-      const { data: claimsData } = await supabase
-        .from('item_claims')
-        .select('*')
-        .eq('split_id', resolvedSplitId);
-
-      if (claimsData) {
-        setClaims(claimsData);
-      }
+      await loadClaims(resolvedSplitId);
+      checkClaimConflicts(resolvedSplitId);
     } catch (error) {
       console.error('Error loading data:', error);
       Alert.alert('Something went wrong', 'Couldn\'t load the split. Please try again.');
@@ -123,38 +136,52 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
     }
   };
 
+  // Claims saved offline that the server rejected when they synced (usually someone claimed the item first)
+  const checkClaimConflicts = async (id: string) => {
+    const conflicts = await getItemClaimConflicts(id);
+    if (conflicts.length === 0) return;
+
+    await Promise.all(conflicts.map(conflict => discardQueuedOperation(conflict.id)));
+    Alert.alert(
+      'Your Items Didn\'t Sync',
+      `The items you chose while offline couldn't be saved: ${conflicts[0].error || 'Unknown error'}. Check your selection and try again.`
+    );
+  };
+
   // Service fee constants (3.5% + $0.50)
   const SERVICE_FEE_PERCENT = 0.035;
   const SERVICE_FEE_FIXED = 0.50;
 
   // Calculate totals
-  const { itemsTotal, serviceFee, total } = useMemo(() => {
+  const { itemsTotal, adjustmentsTotal, serviceFee, total } = useMemo(() => {
     if (!split || items.length === 0) {
-      return { itemsTotal: 0, serviceFee: 0, total: 0 };
+      return { itemsTotal: 0, adjustmentsTotal: 0, serviceFee: 0, total: 0 };
     }
 
-    const selectedItemsTotal = Array.from(selectedItems).reduce((sum, index) => {
+    const selectedClaims = Array.from(selectedItems).flatMap(index => {
       const item = items[index];
-      if (!item) return sum;
-      const shareCount = sharedItems.get(index) || 1;
+      if (!item) return [];
       // Get selected quantity (default to full quantity if not specified)
       const selectedQty = selectedQuantities.get(index) || item.quantity;
       const unitPrice = item.total_price / item.quantity;
-      const itemTotal = unitPrice * selectedQty;
-      return sum + (itemTotal / shareCount);
-    }, 0);
+      return [{ item_id: item.id, item_amount: unitPrice * selectedQty, share_count: sharedItems.get(index) || 1 }];
+    });
+
+    // Items, then your share of the receipt's discounts and surcharges
+    const itemsCents = getClaimsTotalCents(selectedClaims, items);
+    const claimedCents = getClaimsTotalCents(selectedClaims, items, split.receipt_adjustments || []);
 
     // Service fee: 3.5% + $0.50 (only for non-creators and if items selected)
-    const calcServiceFee = (!isCreator && selectedItemsTotal > 0)
-      ? (selectedItemsTotal * SERVICE_FEE_PERCENT) + SERVICE_FEE_FIXED
+    const serviceFeeCents = (!isCreator && claimedCents > 0)
+      ? toCents((fromCents(claimedCents) * SERVICE_FEE_PERCENT) + SERVICE_FEE_FIXED)
       : 0;
 
-    const calcTotal = selectedItemsTotal + calcServiceFee;
-
+    // Total is the sum of the rounded parts, so the breakdown adds up
     return {
-      itemsTotal: Math.round(selectedItemsTotal * 100) / 100,
-      serviceFee: Math.round(calcServiceFee * 100) / 100,
-      total: Math.round(calcTotal * 100) / 100,
+      itemsTotal: fromCents(itemsCents),
+      adjustmentsTotal: fromCents(claimedCents - itemsCents),
+      serviceFee: fromCents(serviceFeeCents),
+      total: fromCents(claimedCents + serviceFeeCents),
     };
   }, [split, items, selectedItems, sharedItems, selectedQuantities, isCreator]);
 
@@ -175,18 +202,71 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
     return itemClaims.some(c => c.claimed_by_user_id === currentUser?.id);
   };
 
-  // Calculate what user has already claimed (items only - service fee was added at payment)
-  const alreadyClaimedTotal = useMemo(() => {
-    if (!currentUser || !split || items.length === 0) return 0;
+  // How much of an item is still unclaimed, in units (fractional when shared)
+  const getRemainingUnits = (index: number, byIndex: Map<number, ItemClaim[]> = claimsByItemIndex) => {
+    const item = items[index];
+    if (!item) return 0;
+    const remaining = item.quantity - getClaimedUnits(byIndex.get(index) || []);
+    return remaining < UNIT_EPSILON ? 0 : remaining;
+  };
 
-    let claimedItemsTotal = 0;
-    claims.forEach(claim => {
-      if (claim.claimed_by_user_id === currentUser.id) {
-        claimedItemsTotal += claim.item_amount / (claim.share_count || 1);
+  // Most whole units you can take when sharing between shareCount people
+  const getMaxSelectableQty = (index: number, shareCount: number) =>
+    Math.floor(getRemainingUnits(index) * shareCount + UNIT_EPSILON);
+
+  // Someone else claimed something you'd selected: trim or drop your selection
+  useEffect(() => {
+    if (selectedItems.size === 0) return;
+
+    const lost: string[] = [];
+    const trimmed: string[] = [];
+    const nextSelected = new Set(selectedItems);
+    const nextQuantities = new Map(selectedQuantities);
+
+    selectedItems.forEach(index => {
+      const item = items[index];
+      // Once saved the claim is ours, and counts against what's left
+      if (!item || isClaimedByMe(index)) return;
+      const shareCount = sharedItems.get(index) || 1;
+      const maxQty = getMaxSelectableQty(index, shareCount);
+      const selectedQty = selectedQuantities.get(index) || 1;
+
+      if (maxQty < 1) {
+        nextSelected.delete(index);
+        nextQuantities.delete(index);
+        lost.push(item.name);
+      } else if (selectedQty > maxQty) {
+        nextQuantities.set(index, maxQty);
+        trimmed.push(item.name);
       }
     });
 
-    return Math.round(claimedItemsTotal * 100) / 100;
+    if (lost.length === 0 && trimmed.length === 0) return;
+
+    setSelectedItems(nextSelected);
+    setSelectedQuantities(nextQuantities);
+    setSharedItems(prev => {
+      const next = new Map(prev);
+      prev.forEach((_, index) => {
+        if (!nextSelected.has(index)) next.delete(index);
+      });
+      return next;
+    });
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    setClaimNotice(
+      lost.length > 0
+        ? `Someone else just claimed ${lost.join(', ')}, so it's been removed from your selection.`
+        : `Someone else just claimed some of ${trimmed.join(', ')}, so your quantity has been reduced.`
+    );
+  }, [claimsByItemIndex]);
+
+  // Calculate what user has already claimed (items and adjustments - service fee was added at payment)
+  const alreadyClaimedTotal = useMemo(() => {
+    if (!currentUser || !split || items.length === 0) return 0;
+
+    const myClaims = claims.filter(claim => claim.claimed_by_user_id === currentUser.id);
+    return fromCents(getClaimsTotalCents(myClaims, items, split.receipt_adjustments || []));
   }, [currentUser, split, items, claims]);
 
   // Count items already claimed by current user
@@ -223,10 +303,7 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
         // Set default quantity to 1 for items with remaining qty
         const item = items[index];
         if (item) {
-          const itemClaims = claimsByItemIndex.get(index) || [];
-          const totalQtyClaimed = itemClaims.reduce((sum, c) => sum + (c.quantity_claimed || 1), 0);
-          const qtyRemaining = Math.max(0, item.quantity - totalQtyClaimed);
-          if (qtyRemaining > 0) {
+          if (getRemainingUnits(index) > 0) {
             setSelectedQuantities(prevQty => {
               const nextQty = new Map(prevQty);
               nextQty.set(index, 1); // Default to claiming 1
@@ -245,15 +322,13 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
     if (!item) return;
 
     // Calculate remaining quantity available
-    const itemClaims = claimsByItemIndex.get(index) || [];
-    const totalQtyClaimed = itemClaims.reduce((sum, c) => sum + (c.quantity_claimed || 1), 0);
-    const qtyRemaining = Math.max(0, item.quantity - totalQtyClaimed);
+    const maxQty = getMaxSelectableQty(index, sharedItems.get(index) || 1);
 
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setSelectedQuantities(prev => {
       const next = new Map(prev);
       const currentQty = prev.get(index) || 1;
-      const newQty = Math.max(1, Math.min(qtyRemaining, currentQty + delta));
+      const newQty = Math.max(1, Math.min(maxQty, currentQty + delta));
       next.set(index, newQty);
       return next;
     });
@@ -282,6 +357,21 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
   const handleContinue = async () => {
     if (selectedItems.size === 0 || !currentUser || !splitId) return;
 
+    // Catch what we already know about before asking the server
+    const overClaimed = Array.from(selectedItems).find(index => {
+      const item = items[index];
+      const selectedQty = selectedQuantities.get(index) || item.quantity;
+      return selectedQty > getMaxSelectableQty(index, sharedItems.get(index) || 1);
+    });
+    if (overClaimed !== undefined) {
+      const remaining = getRemainingUnits(overClaimed);
+      Alert.alert(
+        'Not Enough Left',
+        `Only ${formatUnits(remaining)} of "${items[overClaimed].name}" is left to claim. Reduce the quantity or split it with more people.`
+      );
+      return;
+    }
+
     try {
       setSaving(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -294,6 +384,7 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
         const claimedAmount = unitPrice * selectedQty;
         return {
           split_id: splitId,
+          item_id: item.id,
           item_index: index,
           item_name: item.name,
           item_amount: claimedAmount, // Only the amount for selected quantity
@@ -305,27 +396,18 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
         };
       });
 
-      // Save claims to database (use upsert to handle re-claiming)
-      const { error } = await supabase
-        .from('item_claims')
-        .upsert(claimsData, {
-          onConflict: 'split_id,item_index,claimed_by_user_id',
-          ignoreDuplicates: false,
-        });
+      // Save claims and what they come to (re-claiming replaces your earlier claim; queued if we're offline)
+      const { queued } = await saveItemClaimsOrQueue(splitId, claimsData, total);
 
-      if (error) {
-        throw error;
+      if (queued) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        Alert.alert('Saved Offline', 'Your items will be saved when you\'re back online.');
+        navigation.goBack();
+        return;
       }
 
-      // Update participant's amount owed based on their claimed items
-      const { error: updateError } = await supabase
-        .from('split_participants')
-        .update({ amount_owed: total })
-        .eq('split_id', splitId)
-        .eq('user_id', currentUser.id);
-
-      if (updateError) {
-        console.warn('Could not update participant amount:', updateError);
+      if (paymentLinkCode) {
+        await recordPaymentLinkClaim(paymentLinkCode);
       }
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -342,8 +424,17 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
         });
       }
     } catch (error: any) {
-      console.error('Error saving claims:', error);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (error instanceof ItemClaimConflictError) {
+        // Someone claimed it between loading and saving; show the latest claims
+        Alert.alert(
+          'Someone Got There First',
+          `${error.message}. We've updated the list, so check your selection and try again.`
+        );
+        await loadClaims(splitId);
+        return;
+      }
+      console.error('Error saving claims:', error);
       Alert.alert('Error', error.message || 'Failed to save your selections');
     } finally {
       setSaving(false);
@@ -394,6 +485,15 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
           </Text>
         </View>
 
+        {/* Someone else's claim changed your selection */}
+        {claimNotice && (
+          <TouchableOpacity style={styles.claimNotice} onPress={() => setClaimNotice(null)} activeOpacity={0.7}>
+            <Ionicons name="alert-circle" size={20} color={colors.warning} />
+            <Text style={styles.claimNoticeText}>{claimNotice}</Text>
+            <Ionicons name="close" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+
         {/* Items List */}
         <View style={styles.itemsSection}>
           <Text style={styles.sectionTitle}>
@@ -409,10 +509,11 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
             const hasMultipleQty = item.quantity > 1;
             const unitPrice = item.total_price / item.quantity;
 
-            // Calculate total quantity already claimed by everyone
-            const totalQtyClaimed = itemClaims.reduce((sum, c) => sum + (c.quantity_claimed || 1), 0);
-            const qtyRemaining = Math.max(0, item.quantity - totalQtyClaimed);
+            // Calculate how much of the item everyone has claimed (shared claims count as a fraction)
+            const totalQtyClaimed = getClaimedUnits(itemClaims);
+            const qtyRemaining = getRemainingUnits(index);
             const isFullyClaimed = qtyRemaining === 0;
+            const maxSelectableQty = getMaxSelectableQty(index, shareCount);
 
             // Selected quantity should default to remaining (not full quantity)
             const selectedQty = selectedQuantities.get(index) || Math.min(qtyRemaining, 1);
@@ -460,7 +561,7 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
                   )}
 
                   {/* Quantity Selector - show when selected and has remaining qty > 1 */}
-                  {isSelected && qtyRemaining > 1 && !alreadyClaimedByMe && (
+                  {isSelected && maxSelectableQty > 1 && !alreadyClaimedByMe && (
                     <View style={styles.quantitySelector}>
                       <TouchableOpacity
                         style={styles.qtyButton}
@@ -476,19 +577,19 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
                           color={selectedQty <= 1 ? colors.gray300 : colors.primary}
                         />
                       </TouchableOpacity>
-                      <Text style={styles.qtyText}>{selectedQty} of {qtyRemaining} available</Text>
+                      <Text style={styles.qtyText}>{selectedQty} of {maxSelectableQty} available</Text>
                       <TouchableOpacity
                         style={styles.qtyButton}
                         onPress={(e) => {
                           e.stopPropagation();
                           handleQuantityChange(index, 1);
                         }}
-                        disabled={selectedQty >= qtyRemaining}
+                        disabled={selectedQty >= maxSelectableQty}
                       >
                         <Ionicons
                           name="add"
                           size={18}
-                          color={selectedQty >= qtyRemaining ? colors.gray300 : colors.primary}
+                          color={selectedQty >= maxSelectableQty ? colors.gray300 : colors.primary}
                         />
                       </TouchableOpacity>
                     </View>
@@ -500,9 +601,9 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
                       <Ionicons name="people" size={12} color={colors.success} />
                       <Text style={styles.claimersText}>
                         {alreadyClaimedByMe
-                          ? `You claimed${hasMultipleQty ? ` (${totalQtyClaimed}/${item.quantity})` : ''}`
+                          ? `You claimed${hasMultipleQty ? ` (${formatUnits(totalQtyClaimed)}/${item.quantity})` : ''}`
                           : hasMultipleQty
-                          ? `${totalQtyClaimed} of ${item.quantity} claimed`
+                          ? `${formatUnits(totalQtyClaimed)} of ${item.quantity} claimed`
                           : itemClaims.length === 1
                           ? `${itemClaims[0].claimed_by_name} claimed`
                           : `${itemClaims.length} people claimed`}
@@ -512,7 +613,7 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
                   {/* Show remaining quantity available */}
                   {qtyRemaining > 0 && !alreadyClaimedByMe && itemClaims.length > 0 && (
                     <Text style={[styles.itemQuantity, { color: colors.primary }]}>
-                      {qtyRemaining} still available (${(unitPrice * qtyRemaining).toFixed(2)})
+                      {formatUnits(qtyRemaining)} still available (${(unitPrice * qtyRemaining).toFixed(2)})
                     </Text>
                   )}
                 </View>
@@ -580,6 +681,14 @@ export default function ClaimItemsScreen({ navigation, route }: ClaimItemsScreen
               <Text style={styles.summaryLabel}>Items</Text>
               <Text style={styles.summaryValue}>${itemsTotal.toFixed(2)}</Text>
             </View>
+            {adjustmentsTotal !== 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Adjustments</Text>
+                <Text style={styles.summaryValue}>
+                  {adjustmentsTotal < 0 ? '-' : ''}${Math.abs(adjustmentsTotal).toFixed(2)}
+                </Text>
+              </View>
+            )}
             {serviceFee > 0 && (
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Service Fee</Text>
@@ -691,6 +800,20 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border,
   },
+  claimNotice: {
+    backgroundColor: colors.warningLight,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  claimNoticeText: {
+    ...typography.caption,
+    flex: 1,
+    color: colors.text,
+  },
   splitBadgeLeft: {
     flexDirection: 'row',
     alignItems: 'center',
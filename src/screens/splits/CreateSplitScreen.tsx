@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -17,6 +17,9 @@ import { CreateSplitScreenProps } from '../../types/navigation';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import { AmountInput } from '../../components/splits';
+import CurrencyPicker from '../../components/common/CurrencyPicker';
+import { getGroupWithMembers } from '../../services/groupService';
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../../utils/currency';
 
 export default function CreateSplitScreen({ navigation, route }: CreateSplitScreenProps) {
   const insets = useSafeAreaInsets();
@@ -25,6 +28,19 @@ export default function CreateSplitScreen({ navigation, route }: CreateSplitScre
   const [amount, setAmount] = useState('');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [isTripGroup, setIsTripGroup] = useState(false);
+
+  // Trip groups can spend in other currencies; start from the group's currency
+  useEffect(() => {
+    if (!groupId) return;
+    getGroupWithMembers(groupId).then(group => {
+      if (group?.type === 'trip') {
+        setIsTripGroup(true);
+        setCurrency(group.currency || DEFAULT_CURRENCY);
+      }
+    });
+  }, [groupId]);
 
   // Validation
   const amountValue = parseFloat(amount) / 100 || 0;
@@ -40,6 +56,7 @@ export default function CreateSplitScreen({ navigation, route }: CreateSplitScre
       title: title.trim(),
       description: description.trim() || undefined,
       groupId,
+      currency,
     });
   };
 
@@ -99,10 +116,18 @@ export default function CreateSplitScreen({ navigation, route }: CreateSplitScre
             <AmountInput
               value={amount}
               onChangeValue={setAmount}
-              currency="$"
+              currency={getCurrencySymbol(currency)}
             />
           </View>
 
+          {/* Currency (trip groups only) */}
+          {isTripGroup && (
+            <View style={styles.section}>
+              <Text style={[styles.inputLabel, { color: colors.gray600 }]}>Currency</Text>
+              <CurrencyPicker value={currency} onChange={setCurrency} />
+            </View>
+          )}
+
           {/* Title Input */}
           <View style={styles.section}>
             <Text style={[styles.inputLabel, { color: colors.gray600 }]}>Split Title</Text>
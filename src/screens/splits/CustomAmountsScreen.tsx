@@ -15,6 +15,10 @@ import { spacing, radius, typography } from '../../constants/theme';
 import { useFriends } from '../../hooks/useFriends';
 import { useAuth } from '../../hooks/useAuth';
 import { useTheme } from '../../contexts/ThemeContext';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { calculatePercentageSplit } from '../../services/splitService';
+import { fromCents, splitCentsEvenly, sumCents, toCents } from '../../utils/money';
+import { getCurrencySymbol } from '../../utils/currency';
 
 interface ParticipantEntry {
   id: string;
@@ -25,7 +29,7 @@ interface ParticipantEntry {
 }
 
 export default function CustomAmountsScreen({ navigation, route }: CustomAmountsScreenProps) {
-  const { amount, title, description, selectedFriends, splitMethod = 'custom', groupId } = route.params;
+  const { amount, title, description, selectedFriends, splitMethod = 'custom', groupId, currency } = route.params;
   const isPercentageMode = splitMethod === 'percentage';
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
@@ -45,7 +49,7 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
       const totalPeople = friendsData.length + 1; // Friends + creator
       const defaultValue = isPercentageMode
         ? Math.floor(100 / totalPeople)
-        : Math.floor((amount / totalPeople) * 100) / 100;
+        : 0; // Amounts are filled in below
 
       // Build participants list with creator first
       const allParticipants: ParticipantEntry[] = [
@@ -73,11 +77,11 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
           allParticipants[allParticipants.length - 1].value += remainder;
         }
       } else {
-        const totalSoFar = defaultValue * totalPeople;
-        const remainder = Math.round((amount - totalSoFar) * 100) / 100;
-        if (Math.abs(remainder) > 0.001 && allParticipants.length > 0) {
-          allParticipants[allParticipants.length - 1].value += remainder;
-        }
+        // Leftover cents go to the creator, who is listed first
+        const shares = splitCentsEvenly(toCents(amount), totalPeople);
+        allParticipants.forEach((p, index) => {
+          p.value = fromCents(shares[index]);
+        });
       }
 
       setParticipants(allParticipants);
@@ -92,10 +96,10 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
   }, [allFriends, selectedFriends, amount, user, isPercentageMode]);
 
   // Calculate totals
-  const totalAssigned = participants.reduce((sum, p) => sum + p.value, 0);
+  const totalAssigned = fromCents(sumCents(participants.map(p => toCents(p.value))));
   const targetTotal = isPercentageMode ? 100 : amount;
-  const remaining = targetTotal - totalAssigned;
-  const isValid = Math.abs(remaining) < 0.01;
+  const remaining = fromCents(toCents(targetTotal) - toCents(totalAssigned));
+  const isValid = remaining === 0;
 
   const handleValueChange = (participantId: string, text: string) => {
     setEditingValues(prev => ({ ...prev, [participantId]: text }));
@@ -115,14 +119,17 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
 
     // Create custom amounts object (convert percentages to amounts if needed)
     const customAmounts: Record<string, number> = {};
+    const percentageAmounts = isPercentageMode
+      ? calculatePercentageSplit(amount, Object.fromEntries(participants.map(p => [p.id, p.value])))
+      : {};
 
     // Only include friends (not creator) in the amounts that get saved
     // Creator's portion stays with them, friends owe their portion
     participants.forEach(p => {
       if (!p.isCreator) {
         if (isPercentageMode) {
-          // Convert percentage to amount
-          customAmounts[p.id] = Math.round((p.value / 100) * amount * 100) / 100;
+          // Convert percentage to amount (allocated across everyone, creator included)
+          customAmounts[p.id] = percentageAmounts[p.id] || 0;
         } else {
           customAmounts[p.id] = p.value;
         }
@@ -137,6 +144,7 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
       splitMethod,
       customAmounts,
       groupId,
+      currency,
     });
   };
 
@@ -166,7 +174,7 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
               {isPercentageMode ? 'Target' : 'Total Bill'}
             </Text>
             <Text style={[styles.progressAmount, { color: colors.gray900 }]}>
-              {isPercentageMode ? '100%' : `$${amount.toFixed(2)}`}
+              {isPercentageMode ? '100%' : formatCurrency(amount, currency)}
             </Text>
           </View>
 
@@ -177,7 +185,7 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
               { color: colors.gray900 },
               totalAssigned > targetTotal && { color: colors.error }
             ]}>
-              {isPercentageMode ? `${totalAssigned.toFixed(0)}%` : `$${totalAssigned.toFixed(2)}`}
+              {isPercentageMode ? `${totalAssigned.toFixed(0)}%` : formatCurrency(totalAssigned, currency)}
             </Text>
           </View>
 
@@ -188,22 +196,22 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
             <Text style={[
               styles.remainingAmount,
               { color: colors.warning },
-              remaining < -0.01 && { color: colors.error },
-              Math.abs(remaining) < 0.01 && { color: colors.success }
+              remaining < 0 && { color: colors.error },
+              isValid && { color: colors.success }
             ]}>
-              {isPercentageMode ? `${remaining.toFixed(0)}%` : `$${remaining.toFixed(2)}`}
+              {isPercentageMode ? `${remaining.toFixed(0)}%` : formatCurrency(remaining, currency)}
             </Text>
           </View>
 
           {!isValid && (
             <Text style={[styles.errorText, { color: colors.error }]}>
-              {remaining > 0.01
+              {remaining > 0
                 ? isPercentageMode
                   ? `Assign ${remaining.toFixed(0)}% more to reach 100%`
-                  : `Assign $${remaining.toFixed(2)} more to match total`
+                  : `Assign ${formatCurrency(remaining, currency)} more to match total`
                 : isPercentageMode
                   ? `Reduce by ${Math.abs(remaining).toFixed(0)}% to reach 100%`
-                  : `Reduce by $${Math.abs(remaining).toFixed(2)} to match total`}
+                  : `Reduce by ${formatCurrency(Math.abs(remaining), currency)} to match total`}
             </Text>
           )}
         </View>
@@ -249,7 +257,7 @@ export default function CustomAmountsScreen({ navigation, route }: CustomAmounts
                 { backgroundColor: colors.gray100, borderColor: colors.gray300 }
               ]}>
                 {!isPercentageMode && (
-                  <Text style={[styles.symbol, { color: colors.gray500 }]}>$</Text>
+                  <Text style={[styles.symbol, { color: colors.gray500 }]}>{getCurrencySymbol(currency)}</Text>
                 )}
                 <TextInput
                   style={[styles.input, { color: colors.gray900 }]}
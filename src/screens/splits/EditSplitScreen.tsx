@@ -0,0 +1,524 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import {
+  calculateEditedShares,
+  editSplit,
+  getSplitById,
+  SplitEdit,
+  SplitEditMethod,
+  SplitWithParticipants,
+} from '../../services/splitService';
+import { useFriends } from '../../hooks/useFriends';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import { fromCents, toCents } from '../../utils/money';
+import Card from '../../components/common/Card';
+import { shadows } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { EditSplitScreenProps } from '../../types/navigation';
+
+const METHODS: { value: SplitEditMethod; label: string; icon: string }[] = [
+  { value: 'equal', label: 'Equal', icon: 'people-outline' },
+  { value: 'custom', label: 'Custom', icon: 'create-outline' },
+  { value: 'percentage', label: 'Percentage', icon: 'pie-chart-outline' },
+  { value: 'shares', label: 'Shares', icon: 'layers-outline' },
+];
+
+/**
+ * Someone other than the creator while editing: an existing participant
+ * row, or a friend being added
+ */
+type EditEntry = {
+  key: string;
+  id?: string;
+  user_id?: string;
+  name: string;
+  amountPaid: number;
+  value: string; // Custom amount or percentage, as typed
+  weight: string; // Shares splits, as typed
+};
+
+export default function EditSplitScreen({ navigation, route }: EditSplitScreenProps) {
+  const { splitId } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { allFriends } = useFriends();
+
+  const [split, setSplit] = useState<SplitWithParticipants | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [total, setTotal] = useState('');
+  const [method, setMethod] = useState<SplitEditMethod>('equal');
+  const [entries, setEntries] = useState<EditEntry[]>([]);
+  const [creatorPercentage, setCreatorPercentage] = useState('');
+  const [creatorWeight, setCreatorWeight] = useState('1');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSplit();
+  }, [splitId]);
+
+  const loadSplit = async () => {
+    try {
+      setLoading(true);
+      const splitData = await getSplitById(splitId);
+      if (!splitData) throw new Error('Split not found');
+
+      const totalAmount = Number(splitData.total_amount);
+      // Leave out the creator and anyone already removed (kept only for their credit)
+      const current = splitData.participants.filter(p =>
+        p.user_id !== splitData.creator_id && (Number(p.amount_owed) > 0 || Number(p.amount_paid || 0) === 0)
+      );
+      const isPercentage = splitData.split_type === 'percentage';
+      const toPercentage = (amount: number) =>
+        totalAmount > 0 ? fromCents(toCents((amount / totalAmount) * 100)) : 0;
+
+      setSplit(splitData);
+      setTitle(splitData.title);
+      setDescription(splitData.description || '');
+      setTotal(totalAmount.toFixed(2));
+      setMethod(METHODS.some(m => m.value === splitData.split_type) ? splitData.split_type as SplitEditMethod : 'equal');
+      setEntries(current.map(p => ({
+        key: p.id,
+        id: p.id,
+        name: p.external_name || (p as any).user?.full_name || 'Unknown',
+        amountPaid: Number(p.amount_paid || 0),
+        value: isPercentage ? String(toPercentage(Number(p.amount_owed))) : Number(p.amount_owed).toFixed(2),
+        // Saved weights for shares splits, so the edit starts where the split is
+        weight: String(p.share_weight ?? 1),
+      })));
+      setCreatorWeight(String(splitData.creator_share_weight ?? 1));
+      const othersPercentage = current.reduce((sum, p) => sum + toPercentage(Number(p.amount_owed)), 0);
+      setCreatorPercentage(String(fromCents(toCents(100 - othersPercentage))));
+    } catch (error) {
+      console.error('Error loading split to edit:', error);
+      Alert.alert('Something went wrong', 'Couldn\'t load the split. Please try again.');
+      navigation.goBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currency = split?.currency || DEFAULT_CURRENCY;
+
+  const edit: SplitEdit = {
+    title,
+    description,
+    total_amount: parseFloat(total) || 0,
+    split_method: method,
+    participants: entries.map(entry => ({
+      ...(entry.id ? { id: entry.id } : { user_id: entry.user_id }),
+      amount: method === 'custom' ? parseFloat(entry.value) || 0 : undefined,
+      percentage: method === 'percentage' ? parseFloat(entry.value) || 0 : undefined,
+      weight: method === 'shares' ? parseFloat(entry.weight) || 0 : undefined,
+    })),
+    creator_percentage: method === 'percentage' ? parseFloat(creatorPercentage) || 0 : undefined,
+    creator_weight: method === 'shares' ? parseFloat(creatorWeight) || 0 : undefined,
+  };
+
+  // New shares as they'd be saved, or why they can't be
+  const preview = useMemo(() => {
+    try {
+      return { ...calculateEditedShares(edit), error: null };
+    } catch (error: any) {
+      return { shares: {} as { [key: string]: number }, creatorShare: 0, error: error.message as string };
+    }
+  }, [title, description, total, method, entries, creatorPercentage, creatorWeight]);
+
+  const addableFriends = allFriends.filter(friend =>
+    friend.id !== split?.creator_id
+    && !entries.some(entry => entry.user_id === friend.id)
+    && !split?.participants.some(p =>
+      p.user_id === friend.id && entries.some(entry => entry.id === p.id)
+    )
+  );
+
+  const handleAddFriend = (friendId: string) => {
+    const friend = allFriends.find(f => f.id === friendId);
+    if (!friend) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEntries(prev => [
+      ...prev,
+      {
+        key: `new:${friend.id}`,
+        user_id: friend.id,
+        name: friend.full_name || 'Unknown',
+        amountPaid: 0,
+        value: '0',
+        weight: '1',
+      },
+    ]);
+  };
+
+  const handleRemove = (key: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEntries(prev => prev.filter(entry => entry.key !== key));
+  };
+
+  const handleValueChange = (key: string, value: string) => {
+    const field = method === 'shares' ? 'weight' : 'value';
+    setEntries(prev => prev.map(entry => (entry.key === key ? { ...entry, [field]: value } : entry)));
+  };
+
+  const handleSave = async () => {
+    if (!split || preview.error) return;
+
+    try {
+      setSaving(true);
+      const changes = await editSplit(split, edit);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      const credits = changes.filter(c => Number(c.amount_paid) > Number(c.amount_owed)).length;
+      const topUps = changes.filter(c =>
+        Number(c.amount_paid) > 0 && Number(c.amount_paid) < Number(c.amount_owed)
+      ).length;
+
+      if (credits > 0 || topUps > 0) {
+        const notes = [
+          credits > 0 ? `${credits} ${credits === 1 ? 'person has' : 'people have'} paid more than their new share, so you owe them the difference back.` : '',
+          topUps > 0 ? `${topUps} ${topUps === 1 ? 'person needs' : 'people need'} to top up what they've already paid.` : '',
+        ].filter(Boolean);
+        Alert.alert('Split Updated', notes.join(' '));
+      }
+
+      navigation.goBack();
+    } catch (error: any) {
+      console.error('Error editing split:', error);
+      Alert.alert('Couldn\'t Save Changes', error.message || 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderShareNote = (entry: EditEntry) => {
+    const share = preview.shares[entry.key];
+    if (share === undefined || entry.amountPaid <= 0) return null;
+
+    const differenceCents = toCents(share) - toCents(entry.amountPaid);
+    if (differenceCents === 0) {
+      return <Text style={[styles.shareNote, { color: colors.success }]}>Already paid in full</Text>;
+    }
+
+    return (
+      <Text style={[styles.shareNote, { color: colors.warning }]}>
+        Paid {formatCurrency(entry.amountPaid, currency)} ·{' '}
+        {differenceCents > 0
+          ? `${formatCurrency(fromCents(differenceCents), currency)} more to pay`
+          : `you'll owe ${formatCurrency(fromCents(-differenceCents), currency)} back`}
+      </Text>
+    );
+  };
+
+  const canSave = !!split && !preview.error && !saving;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.gray50, paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.surface }]}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="close" size={24} color={colors.gray900} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.gray900 }]}>Edit Split</Text>
+        <TouchableOpacity
+          style={[styles.saveBtn, { backgroundColor: colors.primary }, !canSave && styles.saveBtnDisabled]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color={colors.surface} />
+          ) : (
+            <Text style={[styles.saveBtnText, { color: colors.surface }]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.label, { color: colors.gray500 }]}>Title</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="What was it for?"
+              placeholderTextColor={colors.gray400}
+            />
+            <Text style={[styles.label, { color: colors.gray500 }]}>Description</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Optional"
+              placeholderTextColor={colors.gray400}
+            />
+            <Text style={[styles.label, { color: colors.gray500 }]}>Total ({currency})</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+              value={total}
+              onChangeText={setTotal}
+              placeholder="0.00"
+              placeholderTextColor={colors.gray400}
+              keyboardType="decimal-pad"
+            />
+          </Card>
+
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Split method</Text>
+            <View style={styles.optionGrid}>
+              {METHODS.map(option => {
+                const isSelected = method === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.option,
+                      { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+                      isSelected && { borderWidth: 1, borderColor: colors.primary },
+                    ]}
+                    onPress={() => setMethod(option.value)}
+                  >
+                    <Ionicons name={option.icon as any} size={20} color={isSelected ? colors.primary : colors.gray500} />
+                    <Text style={[styles.optionLabel, { color: isSelected ? colors.primary : colors.gray600 }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Shares</Text>
+
+            <View style={[styles.personRow, { borderBottomColor: colors.gray200 }]}>
+              <View style={styles.personInfo}>
+                <Text style={[styles.personName, { color: colors.gray900 }]}>You</Text>
+                <Text style={[styles.shareNote, { color: colors.gray500 }]}>
+                  {method === 'custom' ? 'Whatever the others don\'t cover' : 'Your own share'}
+                </Text>
+              </View>
+              {method === 'percentage' && (
+                <TextInput
+                  style={[styles.valueInput, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+                  value={creatorPercentage}
+                  onChangeText={setCreatorPercentage}
+                  keyboardType="decimal-pad"
+                />
+              )}
+              {method === 'shares' && (
+                <TextInput
+                  style={[styles.valueInput, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+                  value={creatorWeight}
+                  onChangeText={setCreatorWeight}
+                  keyboardType="decimal-pad"
+                />
+              )}
+              <Text style={[styles.shareValue, { color: colors.gray900 }]}>
+                {formatCurrency(preview.creatorShare, currency)}
+              </Text>
+            </View>
+
+            {entries.map(entry => (
+              <View key={entry.key} style={[styles.personRow, { borderBottomColor: colors.gray200 }]}>
+                <TouchableOpacity onPress={() => handleRemove(entry.key)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Ionicons name="remove-circle-outline" size={22} color={colors.error} />
+                </TouchableOpacity>
+                <View style={styles.personInfo}>
+                  <Text style={[styles.personName, { color: colors.gray900 }]}>{entry.name}</Text>
+                  {renderShareNote(entry)}
+                </View>
+                {method !== 'equal' && (
+                  <TextInput
+                    style={[styles.valueInput, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+                    value={method === 'shares' ? entry.weight : entry.value}
+                    onChangeText={value => handleValueChange(entry.key, value)}
+                    keyboardType="decimal-pad"
+                  />
+                )}
+                <Text style={[styles.shareValue, { color: colors.gray900 }]}>
+                  {formatCurrency(preview.shares[entry.key] || 0, currency)}
+                </Text>
+              </View>
+            ))}
+
+            {method === 'percentage' && (
+              <Text style={[styles.hint, { color: colors.gray500 }]}>Percentages, yours included, must add up to 100%.</Text>
+            )}
+            {method === 'shares' && (
+              <Text style={[styles.hint, { color: colors.gray500 }]}>The total is divided in proportion to everyone's shares, yours included.</Text>
+            )}
+            {preview.error && (
+              <Text style={[styles.hint, { color: colors.error }]}>{preview.error}</Text>
+            )}
+            <Text style={[styles.hint, { color: colors.gray500 }]}>
+              What people have already paid is kept. Anyone whose share changes will be notified.
+            </Text>
+          </Card>
+
+          {addableFriends.length > 0 && (
+            <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Add people</Text>
+              <View style={styles.optionGrid}>
+                {addableFriends.map(friend => (
+                  <TouchableOpacity
+                    key={friend.id}
+                    style={[styles.option, { backgroundColor: colors.gray100 }]}
+                    onPress={() => handleAddFriend(friend.id)}
+                  >
+                    <Ionicons name="person-add-outline" size={18} color={colors.primary} />
+                    <Text style={[styles.optionLabel, { color: colors.gray700 }]}>{friend.full_name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </Card>
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...shadows.low,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  saveBtn: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+  },
+  saveBtnDisabled: {
+    opacity: 0.5,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 8,
+  },
+  section: {
+    marginBottom: 16,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    gap: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 10,
+  },
+  personInfo: {
+    flex: 1,
+  },
+  personName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  shareNote: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  valueInput: {
+    width: 80,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  shareValue: {
+    minWidth: 70,
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,11 +15,10 @@ import { spacing, radius, typography, shadows } from '../../constants/theme';
 import * as Haptics from 'expo-haptics';
 import { ItemAssignmentScreenProps } from '../../types/navigation';
 import { ReceiptItem } from '../../types/receipt';
-import { formatCurrency } from '../../utils/splitCalculations';
-import { createReceiptSplit } from '../../services/splitService';
-import { createSplitItems, createUserItemAssignments } from '../../services/itemService';
-import { uploadReceiptToStorage } from '../../services/receiptService';
-import { supabase } from '../../services/supabase';
+import { calculateFinalTotals, formatCurrency } from '../../utils/splitCalculations';
+import { createSplitOrQueue } from '../../services/syncQueue';
+import { getRateLimitErrorMessage, isRateLimitError } from '../../utils/rateLimiter';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 import { useFriends } from '../../hooks/useFriends';
 import { useAuth } from '../../hooks/useAuth';
 import Avatar from '../../components/common/Avatar';
@@ -69,45 +68,20 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
     setParticipants([currentUser, ...friendsData]);
   }, [allFriends, selectedFriends, user]);
 
-  // Calculate totals for each participant
-  const calculateParticipantTotals = () => {
-    const totals: { [userId: string]: { subtotal: number; tax: number; tip: number; total: number } } = {};
-
-    // Initialize totals for all participants
-    participants.forEach(p => {
-      totals[p.id] = { subtotal: 0, tax: 0, tip: 0, total: 0 };
-    });
-
-    // Calculate item subtotals (using line total = price × quantity)
-    receipt.items.forEach(item => {
-      const assignedTo = assignments[item.id] || [];
-      if (assignedTo.length > 0) {
-        const lineTotal = item.price * item.quantity;
-        const sharePerPerson = lineTotal / assignedTo.length;
-        assignedTo.forEach(userId => {
-          if (totals[userId]) {
-            totals[userId].subtotal += sharePerPerson;
-          }
-        });
-      }
-    });
-
-    // Calculate tax and tip proportionally
-    const totalAssignedSubtotal = Object.values(totals).reduce((sum, t) => sum + t.subtotal, 0);
-
-    if (totalAssignedSubtotal > 0) {
-      participants.forEach(p => {
-        const proportion = totals[p.id].subtotal / totalAssignedSubtotal;
-        totals[p.id].tax = receipt.tax * proportion;
-        totals[p.id].tip = receipt.tip * proportion;
-        totals[p.id].total = totals[p.id].subtotal + totals[p.id].tax + totals[p.id].tip;
-      });
-    }
-
-    return totals;
-  };
-
-  const participantTotals = calculateParticipantTotals();
+  // Each person's items plus their share of adjustments, tax and tip, in exact cents
+  const participantTotals = useMemo(
+    () =>
+      calculateFinalTotals(
+        receipt.items,
+        assignments,
+        receipt.tax,
+        receipt.tip,
+        participants.map(p => p.id),
+        'proportional',
+        receipt.adjustments
+      ),
+    [receipt, assignments, participants]
+  );
 
   // Toggle assignment of an item to a participant
   const toggleAssignment = (itemId: string, userId: string) => {
@@ -164,79 +138,77 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
     try {
       setSaving(true);
 
-      // Get current user
-      const { data: { user: currentUser } } = await supabase.auth.getUser();
-      if (!currentUser) throw new Error('User not authenticated');
-
-      // 1. Upload receipt image to storage
-      const receiptImageUrl = await uploadReceiptToStorage(imageUri, currentUser.id);
-
-      // 2. Build participants data for the split
+      // 1. Build participants data for the split
       const participantsData = participants
-        .filter(p => participantTotals[p.id]?.total > 0)
+        .filter(p => participantTotals[p.id] > 0)
         .map(p => ({
           user_id: p.id,
-          amount_owed: participantTotals[p.id].total,
+          amount_owed: participantTotals[p.id],
         }));
 
-      // 3. Create the split record
+      // 2. Build each participant's item selections
+      const itemAssignments = participants
+        .map(participant => {
+          const selections: { [itemId: string]: { selected: boolean; splitWith?: number } } = {};
+
+          receipt.items.forEach(item => {
+            const assignedTo = assignments[item.id] || [];
+            if (assignedTo.includes(participant.id)) {
+              selections[item.id] = {
+                selected: true,
+                splitWith: assignedTo.length,
+              };
+            }
+          });
+
+          return { user_id: participant.id, selections };
+        })
+        .filter(assignment => Object.keys(assignment.selections).length > 0);
+
+      // 3. Create the split with its items and assignments (queued if we're offline).
+      // The image was stored when the receipt was scanned; if not, it's uploaded as part
+      // of the save so it can wait for a connection too.
       const splitData = {
         title: receipt.merchant || 'Receipt Split',
         description: receipt.date ? `Receipt from ${receipt.date}` : undefined,
         total_amount: receipt.total,
-        currency: 'USD',
+        currency: DEFAULT_CURRENCY,
         split_method: 'receipt' as const,
+        image_url: receipt.image_url,
         participants: participantsData,
-        image_url: receiptImageUrl,
         receipt_data: {
           subtotal: receipt.subtotal,
           tax: receipt.tax,
           tip: receipt.tip,
+          adjustments: receipt.adjustments,
         },
+        receipt_corrections: receipt.corrections,
       };
 
-      const split = await createReceiptSplit(splitData, receipt.items, []);
-
-      // 4. Create split items in database
-      const splitItems = await createSplitItems(split.id, receipt.items);
-
-      // 5. Create item assignments for each participant
-      // Convert assignments to the format expected by createUserItemAssignments
-      for (const participant of participants) {
-        const userSelections: { [itemId: string]: { selected: boolean; splitWith?: number } } = {};
-
-        receipt.items.forEach(item => {
-          const assignedTo = assignments[item.id] || [];
-          if (assignedTo.includes(participant.id)) {
-            userSelections[item.id] = {
-              selected: true,
-              splitWith: assignedTo.length,
-            };
-          }
-        });
-
-        if (Object.keys(userSelections).length > 0) {
-          await createUserItemAssignments(participant.id, splitItems, receipt.items, userSelections);
-        }
-      }
+      const { splitId, queued } = await createSplitOrQueue(splitData, {
+        items: receipt.items,
+        itemAssignments,
+        receiptImageUri: imageUri,
+      });
 
       // Success! Navigate to success screen
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
       // Build participant amounts for display (include everyone)
       const participantAmounts = participants
-        .filter(p => participantTotals[p.id]?.total > 0)
+        .filter(p => participantTotals[p.id] > 0)
         .map(p => ({
           name: p.full_name,
-          amount: participantTotals[p.id].total,
+          amount: participantTotals[p.id],
         }));
 
       navigation.navigate('SplitSuccess', {
-        splitId: split.id,
+        splitId,
         amount: receipt.total,
-        participantCount: participants.filter(p => participantTotals[p.id]?.total > 0).length,
+        participantCount: participants.filter(p => participantTotals[p.id] > 0).length,
         splitMethod: 'receipt',
         participantAmounts,
+        queued,
       });
     } catch (error: any) {
       console.error('Error saving split:', error);
@@ -244,7 +216,9 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
 
       Alert.alert(
         'Error',
-        error.message || 'Failed to save split. Please try again.',
+        isRateLimitError(error)
+          ? `You've created a lot of splits recently. ${getRateLimitErrorMessage(error)}`
+          : error.message || 'Failed to save split. Please try again.',
         [{ text: 'OK' }]
       );
     } finally {
@@ -289,7 +263,7 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
                     {participant.full_name}
                   </Text>
                   <Text style={[styles.participantChipTotal, { color: colors.primary }]}>
-                    {formatCurrency(participantTotals[participant.id]?.total || 0)}
+                    {formatCurrency(participantTotals[participant.id] || 0)}
                   </Text>
                 </View>
               </TouchableOpacity>
@@ -323,8 +297,8 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
         <View style={[styles.summaryCard, { backgroundColor: colors.surface }]}>
           <Text style={[styles.summaryTitle, { color: colors.gray900 }]}>Summary</Text>
           {participants.map((participant) => {
-            const totals = participantTotals[participant.id];
-            if (!totals || totals.total === 0) return null;
+            const total = participantTotals[participant.id];
+            if (!total) return null;
 
             return (
               <View key={participant.id} style={styles.summaryRow}>
@@ -337,7 +311,7 @@ export default function ItemAssignmentScreen({ navigation, route }: ItemAssignme
                   <Text style={[styles.summaryPersonName, { color: colors.gray900 }]}>{participant.full_name}</Text>
                 </View>
                 <Text style={[styles.summaryPersonTotal, { color: colors.gray900 }]}>
-                  {formatCurrency(totals.total)}
+                  {formatCurrency(total)}
                 </Text>
               </View>
             );
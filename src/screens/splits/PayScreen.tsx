@@ -6,19 +6,29 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  TextInput,
+  TouchableOpacity,
 } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '../../services/supabase';
 import { useStripe } from '@stripe/stripe-react-native';
-import { createPayment, calculateFees, checkAccountStatus } from '../../services/stripeService';
+import {
+  createPayment,
+  calculateFees,
+  checkAccountStatus,
+  getPaymentQuote,
+  PaymentQuote,
+} from '../../services/stripeService';
+import { createPayToPayment, getPayToAgreements, openAgreementApproval } from '../../services/paytoService';
 import Button from '../../components/common/Button';
 import Card from '../../components/common/Card';
 import Avatar from '../../components/common/Avatar';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius } from '../../constants/theme';
 import { SplitFlowParamList } from '../../types/navigation';
+import { fromCents, toCents } from '../../utils/money';
 
 type PayScreenProps = StackScreenProps<SplitFlowParamList, 'PayScreen'>;
 
@@ -36,9 +46,18 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
   const [split, setSplit] = useState<any>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [recipientReady, setRecipientReady] = useState(false);
-  const [participantCount, setParticipantCount] = useState(1);
-
-  const fees = calculateFees(amount, participantCount);
+  const [cardAvailable, setCardAvailable] = useState(false); // Recipient can take card payments (Stripe)
+  const [bankAvailable, setBankAvailable] = useState(false); // Recipient has a PayID, so PayTo works
+  const [hasAgreement, setHasAgreement] = useState(false); // Payer has already approved PayTo
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [outstanding, setOutstanding] = useState(amount);
+  const [payAmountText, setPayAmountText] = useState(amount.toFixed(2));
+
+  // Shown only until the server's quote arrives; payment waits for the quote
+  const fees = quote || calculateFees(amount);
+  const participantCount = quote?.participantCount ?? 1;
+  const isPartPayment = fees.amount < outstanding;
 
   useEffect(() => {
     loadPaymentData();
@@ -71,18 +90,28 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
       }
       setRecipient(recipientData);
 
-      // Check if recipient has Stripe account set up
+      // Card payments need the recipient's Stripe account; bank payments (PayTo) their PayID
       const accountStatus = await checkAccountStatus(recipientId);
-      if (!accountStatus?.connected || !accountStatus?.chargesEnabled) {
+      const canTakeCard = !!accountStatus?.connected && !!accountStatus?.chargesEnabled;
+      const canTakeBank = !!(recipientData.payid || recipientData.phone_number);
+      setCardAvailable(canTakeCard);
+      setBankAvailable(canTakeBank);
+
+      if (!canTakeCard && !canTakeBank) {
         Alert.alert(
           'Cannot Process Payment',
-          `${recipientData.full_name} hasn't set up their bank account yet. They need to connect their account to receive payments.`,
+          `${recipientData.full_name} hasn't set up a way to get paid yet. They need to connect their account or add a PayID to receive payments.`,
           [{ text: 'OK', onPress: () => navigation.goBack() }]
         );
         return;
       }
       setRecipientReady(true);
 
+      if (canTakeBank) {
+        const agreements = await getPayToAgreements(user.id);
+        setHasAgreement(agreements.some(agreement => agreement.status === 'active'));
+      }
+
       // Get split details
       const { data: splitData, error: splitError } = await supabase
         .from('splits')
@@ -97,14 +126,19 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
       }
       setSplit(splitData);
 
-      // Get paying participant count (exclude the creator — they don't pay)
-      const { count } = await supabase
-        .from('split_participants')
-        .select('*', { count: 'exact', head: true })
-        .eq('split_id', splitId)
-        .neq('user_id', splitData.creator_id);
-      if (count && count > 0) {
-        setParticipantCount(count);
+      // The server works out the fees, so the total shown is exactly what's charged
+      const quoteResult = await getPaymentQuote({ splitId, participantId: participantId || undefined, amount });
+      if (!quoteResult.success || !quoteResult.quote) {
+        Alert.alert(
+          'Cannot Process Payment',
+          quoteResult.error || 'Couldn\'t work out the payment total. Please try again.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+      setQuote(quoteResult.quote);
+      if (quoteResult.quote.outstanding !== undefined) {
+        setOutstanding(quoteResult.quote.outstanding);
       }
     } catch (error) {
       console.error('Error loading payment data:', error);
@@ -115,8 +149,36 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
     }
   };
 
+  // Any part of the share can be paid; re-quote so the fees match the new amount
+  const updatePayAmount = async (text: string) => {
+    const payCents = toCents(parseFloat(text));
+    const payAmount = fromCents(payCents);
+
+    if (payCents <= 0 || payCents > toCents(outstanding)) {
+      Alert.alert('Invalid Amount', `Enter an amount up to $${outstanding.toFixed(2)}.`);
+      setPayAmountText(fees.amount.toFixed(2));
+      return;
+    }
+
+    setPayAmountText(payAmount.toFixed(2));
+    if (quote && payCents === toCents(quote.amount)) return;
+
+    try {
+      setQuoting(true);
+      const quoteResult = await getPaymentQuote({ splitId, participantId: participantId || undefined, amount: payAmount });
+      if (!quoteResult.success || !quoteResult.quote) {
+        Alert.alert('Cannot Process Payment', quoteResult.error || 'Couldn\'t work out the payment total. Please try again.');
+        setPayAmountText(fees.amount.toFixed(2));
+        return;
+      }
+      setQuote(quoteResult.quote);
+    } finally {
+      setQuoting(false);
+    }
+  };
+
   const handlePay = async () => {
-    if (!currentUserId || !recipientReady) {
+    if (!currentUserId || !recipientReady || !quote) {
       Alert.alert('Error', 'Payment cannot be processed at this time');
       return;
     }
@@ -127,22 +189,24 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
 
       // Create payment and present Stripe payment sheet
       const result = await createPayment(
-        currentUserId,
-        recipientId,
-        amount,
         splitId,
+        quote.amount,
         initPaymentSheet,
         presentPaymentSheet,
-        participantCount
+        participantId,
+        quote.total
       );
 
       if (result.success) {
         // Payment successful!
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
+        const remaining = fromCents(toCents(outstanding) - toCents(quote.amount));
         Alert.alert(
           'Payment Successful!',
-          `You paid ${recipient.full_name} $${fees.total.toFixed(2)}`,
+          remaining > 0
+            ? `You paid ${recipient.full_name} $${fees.total.toFixed(2)}. $${remaining.toFixed(2)} of your share is left to pay.`
+            : `You paid ${recipient.full_name} $${fees.total.toFixed(2)}`,
           [
             {
               text: 'Done',
@@ -169,6 +233,63 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
     }
   };
 
+  // PayTo: no card fees, straight from the payer's bank to the recipient's PayID
+  const handlePayFromBank = async () => {
+    if (!currentUserId || !recipientReady || !quote) {
+      Alert.alert('Error', 'Payment cannot be processed at this time');
+      return;
+    }
+
+    try {
+      setPaying(true);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      const result = await createPayToPayment(splitId, quote.amount, participantId || undefined);
+
+      if (!result.success) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert('Payment Failed', result.error || 'Payment failed. Please try again.');
+        return;
+      }
+
+      const amountText = `$${(result.amount ?? quote.amount).toFixed(2)}`;
+      const backToSplit = () => navigation.navigate('SplitDetail', { splitId });
+
+      // First time: the payer approves ZapSplit in their banking app, then it pays by itself
+      if (result.status === 'awaiting_approval' && result.approvalUrl) {
+        const approvalUrl = result.approvalUrl;
+        Alert.alert(
+          'Approve in Your Bank',
+          `To pay from your bank, approve ZapSplit in your banking app. Your ${amountText} payment to ${recipient.full_name} goes through as soon as you do.`,
+          [
+            { text: 'Later', style: 'cancel', onPress: backToSplit },
+            {
+              text: 'Open Bank',
+              onPress: async () => {
+                await openAgreementApproval(approvalUrl);
+                backToSplit();
+              },
+            },
+          ]
+        );
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        'Payment Sent',
+        `${amountText} is on its way to ${recipient.full_name} from your bank. It shows as paid once their bank confirms it, usually within seconds.`,
+        [{ text: 'Done', onPress: backToSplit }]
+      );
+    } catch (error: any) {
+      console.error('PayTo payment error:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Payment Failed', error.message || 'An error occurred while processing your payment');
+    } finally {
+      setPaying(false);
+    }
+  };
+
   if (loading) {
     return (
       <View style={[styles.container, { backgroundColor: colors.gray50, paddingTop: insets.top }]}>
@@ -188,8 +309,10 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
     <ScrollView style={[styles.container, { backgroundColor: colors.gray50 }]} contentContainerStyle={[styles.content, { paddingTop: insets.top }]}>
         {/* Header */}
         <View style={styles.header}>
-          <Text style={[styles.title, { color: colors.gray900 }]}>Pay with Card</Text>
-          <Text style={[styles.subtitle, { color: colors.gray600 }]}>Secure payment powered by Stripe</Text>
+          <Text style={[styles.title, { color: colors.gray900 }]}>{cardAvailable ? 'Pay with Card' : 'Pay from Your Bank'}</Text>
+          <Text style={[styles.subtitle, { color: colors.gray600 }]}>
+            {cardAvailable ? 'Secure payment powered by Stripe' : 'Instant bank transfer with PayTo'}
+          </Text>
         </View>
 
         {/* Recipient Card */}
@@ -223,52 +346,105 @@ export default function PayScreen({ navigation, route }: PayScreenProps) {
           </Card>
         )}
 
-        {/* Fee Breakdown Card */}
-        <Card variant="elevated" style={styles.breakdownCard}>
-          <Text style={[styles.breakdownTitle, { color: colors.gray900 }]}>Payment Breakdown</Text>
-
-          <View style={styles.breakdownRow}>
-            <Text style={[styles.breakdownLabel, { color: colors.gray700 }]}>Your share</Text>
-            <Text style={[styles.breakdownValue, { color: colors.gray900 }]}>${fees.amount.toFixed(2)}</Text>
+        {/* Amount Card */}
+        <Card variant="default" style={styles.card}>
+          <View style={styles.splitSection}>
+            <Text style={[styles.sectionLabel, { color: colors.gray500 }]}>Amount to pay</Text>
+            <View style={[styles.amountInputRow, { borderColor: colors.gray200 }]}>
+              <Text style={[styles.amountPrefix, { color: colors.gray900 }]}>$</Text>
+              <TextInput
+                style={[styles.amountInput, { color: colors.gray900 }]}
+                value={payAmountText}
+                onChangeText={setPayAmountText}
+                onEndEditing={() => updatePayAmount(payAmountText)}
+                keyboardType="decimal-pad"
+                returnKeyType="done"
+                editable={!paying && !quoting}
+              />
+              {quoting && <ActivityIndicator size="small" color={colors.primary} />}
+            </View>
+            <View style={styles.amountFooter}>
+              <Text style={[styles.amountHint, { color: colors.gray600 }]}>
+                You owe ${outstanding.toFixed(2)}. Pay it all or just part of it now.
+              </Text>
+              {isPartPayment && (
+                <TouchableOpacity onPress={() => updatePayAmount(outstanding.toFixed(2))} disabled={paying || quoting}>
+                  <Text style={[styles.payAllText, { color: colors.primary }]}>Pay all</Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </View>
+        </Card>
 
-          <View style={styles.breakdownRow}>
-            <Text style={[styles.breakdownLabel, { color: colors.gray700 }]}>Fees (split {participantCount} ways)</Text>
-            <Text style={[styles.breakdownValue, { color: colors.gray900 }]}>+${fees.userFee.toFixed(2)}</Text>
-          </View>
+        {cardAvailable && (
+          <>
+            {/* Fee Breakdown Card */}
+            <Card variant="elevated" style={styles.breakdownCard}>
+              <Text style={[styles.breakdownTitle, { color: colors.gray900 }]}>Payment Breakdown</Text>
 
-          <View style={[styles.divider, { backgroundColor: colors.gray200 }]} />
+              <View style={styles.breakdownRow}>
+                <Text style={[styles.breakdownLabel, { color: colors.gray700 }]}>{isPartPayment ? 'Part payment' : 'Your share'}</Text>
+                <Text style={[styles.breakdownValue, { color: colors.gray900 }]}>${fees.amount.toFixed(2)}</Text>
+              </View>
 
-          <View style={styles.totalRow}>
-            <Text style={[styles.totalLabel, { color: colors.gray900 }]}>Total charge</Text>
-            <Text style={[styles.totalValue, { color: colors.primary }]}>${fees.total.toFixed(2)}</Text>
-          </View>
+              <View style={styles.breakdownRow}>
+                <Text style={[styles.breakdownLabel, { color: colors.gray700 }]}>Fees (split {participantCount} ways)</Text>
+                <Text style={[styles.breakdownValue, { color: colors.gray900 }]}>+${fees.userFee.toFixed(2)}</Text>
+              </View>
 
-          <Text style={[styles.feeNote, { color: colors.gray500 }]}>
-            All fees (processing, instant payout, and service fee) are split equally among all {participantCount} participants.
-          </Text>
-        </Card>
+              <View style={[styles.divider, { backgroundColor: colors.gray200 }]} />
 
-        {/* Payment Method Info */}
-        <Card variant="default" style={[styles.infoCard, { backgroundColor: colors.primary + '10' }]}>
-          <View style={styles.infoRow}>
-            <Text style={styles.infoIcon}>💳</Text>
-            <Text style={[styles.infoText, { color: colors.gray700 }]}>
-              Your card information is securely processed by Stripe and never stored on our servers.
-            </Text>
-          </View>
-        </Card>
+              <View style={styles.totalRow}>
+                <Text style={[styles.totalLabel, { color: colors.gray900 }]}>Total charge</Text>
+                <Text style={[styles.totalValue, { color: colors.primary }]}>${fees.total.toFixed(2)}</Text>
+              </View>
 
-        {/* Pay Button */}
-        <Button
-          variant="primary"
-          size="large"
-          onPress={handlePay}
-          disabled={paying}
-          style={styles.payButton}
-        >
-          {paying ? 'Processing...' : `Pay $${fees.total.toFixed(2)}`}
-        </Button>
+              <Text style={[styles.feeNote, { color: colors.gray500 }]}>
+                All fees (processing, instant payout, and service fee) are split equally among all {participantCount} participants.
+              </Text>
+            </Card>
+
+            {/* Payment Method Info */}
+            <Card variant="default" style={[styles.infoCard, { backgroundColor: colors.primary + '10' }]}>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoIcon}>💳</Text>
+                <Text style={[styles.infoText, { color: colors.gray700 }]}>
+                  Your card information is securely processed by Stripe and never stored on our servers.
+                </Text>
+              </View>
+            </Card>
+
+            {/* Pay Button */}
+            <Button
+              variant="primary"
+              size="large"
+              onPress={handlePay}
+              disabled={paying || quoting || !quote}
+              style={styles.payButton}
+            >
+              {paying ? 'Processing...' : `Pay $${fees.total.toFixed(2)}`}
+            </Button>
+          </>
+        )}
+
+        {/* Pay from Bank (PayTo) */}
+        {bankAvailable && (
+          <>
+            <Button
+              variant={cardAvailable ? 'outline' : 'primary'}
+              size="large"
+              onPress={handlePayFromBank}
+              disabled={paying || quoting || !quote}
+              style={styles.payButton}
+            >
+              {paying ? 'Processing...' : `Pay $${fees.amount.toFixed(2)} from your bank`}
+            </Button>
+            <Text style={[styles.bankNote, { color: colors.gray500 }]}>
+              No fees · PayTo bank transfer straight to {recipient.full_name}.
+              {hasAgreement ? '' : ' The first time, you\'ll approve ZapSplit in your banking app.'}
+            </Text>
+          </>
+        )}
 
         {/* Cancel Button */}
         <Button
@@ -353,6 +529,41 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  amountInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  amountPrefix: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '700',
+    padding: 0,
+  },
+  amountFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  amountHint: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    marginRight: 12,
+  },
+  payAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   breakdownCard: {
     padding: 20,
     marginBottom: 16,
@@ -418,6 +629,12 @@ const styles = StyleSheet.create({
   payButton: {
     marginBottom: 12,
   },
+  bankNote: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 16,
+    paddingHorizontal: 12,
+  },
   cancelButton: {
     marginBottom: 20,
   },
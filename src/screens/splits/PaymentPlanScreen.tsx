@@ -0,0 +1,511 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { addMonths, addWeeks, format, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '../../services/supabase';
+import {
+  getSplitById,
+  getOutstandingAmount,
+  SplitParticipant,
+  SplitWithParticipants,
+} from '../../services/splitService';
+import {
+  buildInstalmentSchedule,
+  cancelPaymentPlan,
+  createPaymentPlan,
+  getPlanProgress,
+  getSplitPaymentPlans,
+  PaymentPlan,
+  PaymentPlanFrequency,
+  PlannedInstalment,
+  PLAN_FREQUENCY_LABELS,
+  PLAN_INSTALMENT_OPTIONS,
+} from '../../services/paymentPlanService';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
+import Card from '../../components/common/Card';
+import { shadows } from '../../constants/theme';
+import { useTheme } from '../../contexts/ThemeContext';
+import { PaymentPlanScreenProps } from '../../types/navigation';
+
+const FREQUENCIES: { value: PaymentPlanFrequency; icon: string }[] = [
+  { value: 'weekly', icon: 'calendar-outline' },
+  { value: 'fortnightly', icon: 'calendar-number-outline' },
+  { value: 'monthly', icon: 'repeat-outline' },
+];
+
+type FirstPayment = 'today' | 'next_period';
+
+export default function PaymentPlanScreen({ navigation, route }: PaymentPlanScreenProps) {
+  const { splitId, participantId } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [split, setSplit] = useState<SplitWithParticipants | null>(null);
+  const [participant, setParticipant] = useState<SplitParticipant | null>(null);
+  const [plan, setPlan] = useState<PaymentPlan | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<PaymentPlanFrequency>('fortnightly');
+  const [instalmentCount, setInstalmentCount] = useState(4);
+  const [firstPayment, setFirstPayment] = useState<FirstPayment>('today');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [splitId, participantId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) setCurrentUserId(user.id);
+
+      const [splitData, plans] = await Promise.all([getSplitById(splitId), getSplitPaymentPlans(splitId)]);
+      if (!splitData) throw new Error('Split not found');
+      setSplit(splitData);
+      setParticipant(splitData.participants.find(p => p.id === participantId) || null);
+      setPlan(plans.get(participantId) || null);
+    } catch (error) {
+      console.error('Error loading payment plan:', error);
+      Alert.alert('Something went wrong', 'Couldn\'t load the payment plan. Please try again.');
+      navigation.goBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currency = split?.currency || DEFAULT_CURRENCY;
+  const outstanding = participant ? getOutstandingAmount(participant) : 0;
+
+  const getFirstDueDate = (): Date => {
+    const today = startOfDay(new Date());
+    if (firstPayment === 'today') return today;
+    switch (frequency) {
+      case 'weekly':
+        return addWeeks(today, 1);
+      case 'fortnightly':
+        return addWeeks(today, 2);
+      case 'monthly':
+        return addMonths(today, 1);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!currentUserId || !participant) return;
+
+    try {
+      setSaving(true);
+      const result = await createPaymentPlan(currentUserId, participant, {
+        frequency,
+        instalment_count: instalmentCount,
+        first_due_date: getFirstDueDate(),
+      });
+
+      if (result.success && result.plan) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        setPlan(result.plan);
+      } else {
+        Alert.alert('Couldn\'t Set Up Plan', result.error || 'Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!plan) return;
+
+    Alert.alert(
+      'Cancel Payment Plan',
+      'Reminders will stop. Anything already paid still counts towards the share.',
+      [
+        { text: 'Keep Plan', style: 'cancel' },
+        {
+          text: 'Cancel Plan',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await cancelPaymentPlan(plan.id);
+            if (result.success) {
+              setPlan(null);
+            } else {
+              Alert.alert('Something went wrong', 'Couldn\'t cancel the plan. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    icon: string | null,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.option,
+        { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+        isSelected && { borderWidth: 1, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      {icon && <Ionicons name={icon as any} size={20} color={isSelected ? colors.primary : colors.gray500} />}
+      <Text style={[styles.optionLabel, { color: isSelected ? colors.primary : colors.gray600 }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const getStatusColor = (status: PlannedInstalment['status']) => {
+    switch (status) {
+      case 'paid':
+        return colors.success;
+      case 'overdue':
+        return colors.error;
+      case 'due':
+        return colors.warning;
+      case 'upcoming':
+        return colors.gray500;
+    }
+  };
+
+  const renderInstalment = (instalment: Pick<PlannedInstalment, 'number' | 'due_date' | 'amount'> & { status?: PlannedInstalment['status'] }) => (
+    <View key={instalment.number} style={[styles.instalmentRow, { borderBottomColor: colors.gray200 }]}>
+      <View style={styles.instalmentInfo}>
+        <Text style={[styles.instalmentTitle, { color: colors.gray900 }]}>Instalment {instalment.number}</Text>
+        <Text style={[styles.instalmentDate, { color: colors.gray500 }]}>
+          {format(parseISO(instalment.due_date), 'EEE d MMM yyyy')}
+        </Text>
+      </View>
+      <View style={styles.instalmentAmount}>
+        <Text style={[styles.instalmentValue, { color: colors.gray900 }]}>
+          {formatCurrency(instalment.amount, currency)}
+        </Text>
+        {instalment.status && (
+          <Text style={[styles.instalmentStatus, { color: getStatusColor(instalment.status) }]}>
+            {instalment.status.charAt(0).toUpperCase() + instalment.status.slice(1)}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderExistingPlan = (existing: PaymentPlan) => {
+    const progress = getPlanProgress(existing, participant?.amount_paid || 0);
+
+    return (
+      <>
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>
+            {PLAN_FREQUENCY_LABELS[existing.frequency]} · {existing.instalment_count} instalments
+          </Text>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Paid so far</Text>
+            <Text style={[styles.summaryValue, { color: colors.success }]}>
+              {formatCurrency(progress.paidTowardsPlan, currency)} of {formatCurrency(Number(existing.plan_amount), currency)}
+            </Text>
+          </View>
+          {progress.nextInstalment && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Next instalment</Text>
+              <Text style={[styles.summaryValue, { color: getStatusColor(progress.nextInstalment.status) }]}>
+                {format(parseISO(progress.nextInstalment.due_date), 'd MMM')}
+              </Text>
+            </View>
+          )}
+          <View style={[styles.progressBarContainer, { backgroundColor: colors.gray200 }]}>
+            <View
+              style={[
+                styles.progressBar,
+                {
+                  backgroundColor: colors.primary,
+                  width: `${Math.min(100, (progress.paidTowardsPlan / Number(existing.plan_amount)) * 100)}%`,
+                },
+              ]}
+            />
+          </View>
+        </Card>
+
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Schedule</Text>
+          {progress.instalments.map(renderInstalment)}
+          <Text style={[styles.hint, { color: colors.gray500 }]}>
+            Any payment towards this share counts towards the next instalment.
+          </Text>
+        </Card>
+
+        <TouchableOpacity
+          style={[styles.cancelButton, { borderColor: colors.error }]}
+          onPress={handleCancel}
+        >
+          <Text style={[styles.cancelButtonText, { color: colors.error }]}>Cancel Plan</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderSetup = () => {
+    const firstDueDate = getFirstDueDate();
+    const schedule = buildInstalmentSchedule({
+      plan_amount: outstanding,
+      instalment_count: instalmentCount,
+      frequency,
+      first_due_date: format(firstDueDate, 'yyyy-MM-dd'),
+    });
+    const periodLabel = frequency === 'weekly' ? 'In a week' : frequency === 'fortnightly' ? 'In a fortnight' : 'In a month';
+
+    return (
+      <>
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Outstanding</Text>
+          <Text style={[styles.outstandingValue, { color: colors.gray900 }]}>{formatCurrency(outstanding, currency)}</Text>
+        </Card>
+
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Instalments</Text>
+          <View style={styles.optionGrid}>
+            {PLAN_INSTALMENT_OPTIONS.map(count =>
+              renderChip(String(count), String(count), null, instalmentCount === count, () => setInstalmentCount(count))
+            )}
+          </View>
+        </Card>
+
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Repeats</Text>
+          <View style={styles.optionGrid}>
+            {FREQUENCIES.map(f =>
+              renderChip(f.value, PLAN_FREQUENCY_LABELS[f.value], f.icon, frequency === f.value, () => setFrequency(f.value))
+            )}
+          </View>
+        </Card>
+
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>First payment</Text>
+          <View style={styles.optionGrid}>
+            {renderChip('today', 'Today', 'today-outline', firstPayment === 'today', () => setFirstPayment('today'))}
+            {renderChip('next_period', periodLabel, 'time-outline', firstPayment === 'next_period', () => setFirstPayment('next_period'))}
+          </View>
+        </Card>
+
+        <Card variant="default" style={[styles.section, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Schedule</Text>
+          {schedule.map(renderInstalment)}
+          <Text style={[styles.hint, { color: colors.gray500 }]}>
+            You'll get a reminder when each instalment is due, until the share is paid off.
+          </Text>
+        </Card>
+      </>
+    );
+  };
+
+  const canCreate = !plan && !!participant && outstanding > 0 && !saving;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.gray50, paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: colors.surface }]}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="close" size={24} color={colors.gray900} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.gray900 }]}>Payment Plan</Text>
+        {plan ? (
+          <View style={styles.headerPlaceholder} />
+        ) : (
+          <TouchableOpacity
+            style={[styles.saveBtn, { backgroundColor: colors.primary }, !canCreate && styles.saveBtnDisabled]}
+            onPress={handleCreate}
+            disabled={!canCreate}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={colors.surface} />
+            ) : (
+              <Text style={[styles.saveBtnText, { color: colors.surface }]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {split && (
+            <Text style={[styles.splitTitle, { color: colors.gray600 }]}>For "{split.title}"</Text>
+          )}
+          {plan ? renderExistingPlan(plan) : outstanding > 0 ? renderSetup() : (
+            <Text style={[styles.hint, { color: colors.gray500 }]}>This share has been paid off.</Text>
+          )}
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...shadows.low,
+  },
+  headerPlaceholder: {
+    width: 44,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  saveBtn: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+  },
+  saveBtnDisabled: {
+    opacity: 0.5,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 8,
+  },
+  splitTitle: {
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 16,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  outstandingValue: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    gap: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  progressBarContainer: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 4,
+  },
+  progressBar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  instalmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  instalmentInfo: {
+    flex: 1,
+  },
+  instalmentTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  instalmentDate: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  instalmentAmount: {
+    alignItems: 'flex-end',
+  },
+  instalmentValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  instalmentStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius, typography, shadows } from '../../constants/theme';
@@ -20,8 +21,15 @@ import {
   copyPaymentDetails,
   formatBSB,
   formatPayID,
+  PaymentDetails,
   PaymentRequest,
 } from '../../services/paymentService';
+import {
+  describePayoutMethod,
+  getPayoutMethods,
+  PayoutMethod,
+  toPaymentDetails,
+} from '../../services/payoutMethodService';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../hooks/useAuth';
 
@@ -32,7 +40,7 @@ interface UserPaymentDetails {
 }
 
 export default function PaymentRequestScreen({ navigation, route }: PaymentRequestScreenProps) {
-  const { amount, description, splitId } = route.params;
+  const { amount, description, splitId, participantId } = route.params;
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
   const { user } = useAuth();
@@ -40,10 +48,15 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>('payid');
   const [loading, setLoading] = useState(true);
   const [userDetails, setUserDetails] = useState<UserPaymentDetails | null>(null);
+  const [paymentReference, setPaymentReference] = useState<string | null>(null);
+  const [payoutMethods, setPayoutMethods] = useState<PayoutMethod[]>([]);
 
-  useEffect(() => {
-    loadUserPaymentDetails();
-  }, []);
+  // Reload on focus so payout methods added from here show up straight away
+  useFocusEffect(
+    useCallback(() => {
+      loadUserPaymentDetails();
+    }, [])
+  );
 
   const loadUserPaymentDetails = async () => {
     try {
@@ -57,6 +70,24 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
 
       if (error) throw error;
       setUserDetails(data);
+
+      // Start on the user's default payout method
+      const saved = await getPayoutMethods(user.id);
+      setPayoutMethods(saved);
+      const defaultMethod = saved.find(m => m.is_default);
+      if (defaultMethod) {
+        setSelectedMethod(defaultMethod.method);
+      }
+
+      if (participantId) {
+        const { data: participant } = await supabase
+          .from('split_participants')
+          .select('payment_reference')
+          .eq('id', participantId)
+          .single();
+
+        setPaymentReference(participant?.payment_reference || null);
+      }
     } catch (error) {
       console.error('Error loading payment details:', error);
     } finally {
@@ -64,24 +95,40 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
     }
   };
 
-  // Use real user data, fall back to phone number as PayID if not set
+  // Saved payout methods come default first, so this is the default when it's of this type
+  const getSavedMethod = (method: PaymentMethod) => payoutMethods.find(m => m.method === method);
+  const savedMethod = getSavedMethod(selectedMethod);
+
+  // Without a saved PayID, fall back to the profile's PayID or phone number
   const payid = userDetails?.payid || userDetails?.phone_number || '';
   const accountName = userDetails?.full_name || 'Unknown';
-  const hasPaymentDetails = !!payid;
+  const hasPaymentDetails = !!savedMethod || (selectedMethod === 'payid' && !!payid);
 
-  const paymentRequest: PaymentRequest = {
-    recipientName: accountName,
-    amount,
-    description,
-    splitId,
-    paymentDetails: {
+  const paymentDetails: PaymentDetails = savedMethod
+    ? { accountName, ...toPaymentDetails(savedMethod) }
+    : {
       method: selectedMethod,
       ...(selectedMethod === 'payid' && {
         payid: payid,
         payidType: 'phone' as const,
         accountName: accountName,
       }),
-    },
+    };
+
+  const paymentRequest: PaymentRequest = {
+    recipientName: accountName,
+    amount,
+    description,
+    splitId,
+    reference: paymentReference || undefined,
+    paymentDetails,
+  };
+
+  const getMethodSubtitle = (method: PaymentMethod) => {
+    const saved = getSavedMethod(method);
+    if (saved) return describePayoutMethod(saved);
+    if (method === 'payid' && payid) return formatPayID(payid, 'phone');
+    return 'Not set up';
   };
 
   const handleCopyDetails = async () => {
@@ -141,54 +188,58 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {/* Amount Card */}
         <View style={[styles.amountCard, { backgroundColor: colors.primary }]}>
-          <Text style={[styles.amountLabel, { color: colors.surface }]}>Your Total</Text>
+          <Text style={[styles.amountLabel, { color: colors.surface }]}>{participantId ? 'Amount Owed' : 'Your Total'}</Text>
           <Text style={[styles.amountValue, { color: colors.surface }]}>${amount.toFixed(2)}</Text>
           <Text style={[styles.amountDescription, { color: colors.surface }]}>{description}</Text>
         </View>
 
-        {/* Quick Pay with Card Option */}
-        <View style={styles.section}>
-          <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Pay Instantly</Text>
-          <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>Pay now with your credit or debit card</Text>
+        {/* Quick Pay with Card Option (only when paying your own share) */}
+        {!participantId && (
+          <>
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Pay Instantly</Text>
+              <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>Pay now with your credit or debit card</Text>
 
-          <TouchableOpacity
-            style={[styles.payNowButton, { backgroundColor: colors.primary }]}
-            onPress={() => {
-              // TODO: Need recipientId and participantId in route params
-              // For now, show coming soon alert
-              Alert.alert(
-                'Pay with Card',
-                'Instant card payments coming soon! You\'ll be able to pay directly via Stripe.',
-                [{ text: 'OK' }]
-              );
-              // Future implementation:
-              // navigation.navigate('PayScreen', {
-              //   splitId,
-              //   participantId: currentUserParticipantId,
-              //   recipientId: split.creator_id,
-              //   amount,
-              // });
-            }}
-            activeOpacity={0.8}
-          >
-            <View style={styles.payNowIcon}>
-              <Ionicons name="card-outline" size={24} color={colors.surface} />
-            </View>
-            <Text style={[styles.payNowText, { color: colors.surface }]}>Pay ${amount.toFixed(2)} with Card</Text>
-            <Ionicons name="arrow-forward" size={20} color={colors.surface} />
-          </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.payNowButton, { backgroundColor: colors.primary }]}
+                onPress={() => {
+                  // TODO: Need recipientId and participantId in route params
+                  // For now, show coming soon alert
+                  Alert.alert(
+                    'Pay with Card',
+                    'Instant card payments coming soon! You\'ll be able to pay directly via Stripe.',
+                    [{ text: 'OK' }]
+                  );
+                  // Future implementation:
+                  // navigation.navigate('PayScreen', {
+                  //   splitId,
+                  //   participantId: currentUserParticipantId,
+                  //   recipientId: split.creator_id,
+                  //   amount,
+                  // });
+                }}
+                activeOpacity={0.8}
+              >
+                <View style={styles.payNowIcon}>
+                  <Ionicons name="card-outline" size={24} color={colors.surface} />
+                </View>
+                <Text style={[styles.payNowText, { color: colors.surface }]}>Pay ${amount.toFixed(2)} with Card</Text>
+                <Ionicons name="arrow-forward" size={20} color={colors.surface} />
+              </TouchableOpacity>
 
-          <Text style={[styles.payNowNote, { color: colors.textSecondary }]}>
-            Secure payment via Stripe - Instant confirmation
-          </Text>
-        </View>
+              <Text style={[styles.payNowNote, { color: colors.textSecondary }]}>
+                Secure payment via Stripe - Instant confirmation
+              </Text>
+            </View>
 
-        {/* OR Divider */}
-        <View style={styles.dividerContainer}>
-          <View style={[styles.dividerLine, { backgroundColor: colors.border }]} />
-          <Text style={[styles.dividerText, { color: colors.textSecondary }]}>OR</Text>
-          <View style={[styles.dividerLine, { backgroundColor: colors.border }]} />
-        </View>
+            {/* OR Divider */}
+            <View style={styles.dividerContainer}>
+              <View style={[styles.dividerLine, { backgroundColor: colors.border }]} />
+              <Text style={[styles.dividerText, { color: colors.textSecondary }]}>OR</Text>
+              <View style={[styles.dividerLine, { backgroundColor: colors.border }]} />
+            </View>
+          </>
+        )}
 
         {/* Payment Method Selector */}
         <View style={styles.section}>
@@ -224,7 +275,7 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
                 PayID
               </Text>
               <Text style={[styles.methodSubtitle, { color: colors.textSecondary }]}>
-                {hasPaymentDetails ? formatPayID(payid, 'phone') : 'Not set up'}
+                {getMethodSubtitle('payid')}
               </Text>
             </View>
             {selectedMethod === 'payid' && (
@@ -261,7 +312,7 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
                 Bank Transfer
               </Text>
               <Text style={[styles.methodSubtitle, { color: colors.textSecondary }]}>
-                Coming soon
+                {getMethodSubtitle('bank_transfer')}
               </Text>
             </View>
             {selectedMethod === 'bank_transfer' && (
@@ -297,7 +348,7 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
               ]}>
                 PayPal
               </Text>
-              <Text style={[styles.methodSubtitle, { color: colors.textSecondary }]}>Coming soon</Text>
+              <Text style={[styles.methodSubtitle, { color: colors.textSecondary }]}>{getMethodSubtitle('paypal')}</Text>
             </View>
             {selectedMethod === 'paypal' && (
               <Ionicons name="checkmark-circle" size={24} color={colors.primary} />
@@ -311,37 +362,42 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
           <View style={[styles.detailsCard, { backgroundColor: colors.surface }]}>
             {selectedMethod === 'payid' && hasPaymentDetails && (
               <>
-                <DetailRow label="PayID" value={formatPayID(payid, 'phone')} colors={colors} />
-                <DetailRow label="Name" value={accountName} colors={colors} />
+                <DetailRow label="PayID" value={formatPayID(paymentDetails.payid || '', paymentDetails.payidType || 'phone')} colors={colors} />
+                <DetailRow label="Name" value={paymentDetails.accountName || accountName} colors={colors} />
               </>
             )}
-            {selectedMethod === 'payid' && !hasPaymentDetails && (
-              <View style={styles.noPaymentDetails}>
-                <Ionicons name="alert-circle-outline" size={24} color={colors.warning} />
-                <Text style={[styles.noPaymentText, { color: colors.gray700 }]}>
-                  Add your phone number in Profile to receive payments via PayID
-                </Text>
-              </View>
+            {selectedMethod === 'bank_transfer' && hasPaymentDetails && (
+              <>
+                {paymentDetails.bankName && <DetailRow label="Bank" value={paymentDetails.bankName} colors={colors} />}
+                <DetailRow label="BSB" value={formatBSB(paymentDetails.bsb || '')} colors={colors} />
+                <DetailRow label="Account" value={paymentDetails.accountNumber || ''} colors={colors} />
+                <DetailRow label="Name" value={paymentDetails.accountName || accountName} colors={colors} />
+              </>
             )}
-            {selectedMethod === 'bank_transfer' && (
-              <View style={styles.noPaymentDetails}>
-                <Ionicons name="construct-outline" size={24} color={colors.gray400} />
-                <Text style={[styles.noPaymentText, { color: colors.gray600 }]}>
-                  Bank transfer coming soon
-                </Text>
-              </View>
+            {selectedMethod === 'paypal' && hasPaymentDetails && (
+              <DetailRow label="PayPal" value={`paypal.me/${paymentDetails.paypalUsername}`} colors={colors} />
             )}
-            {selectedMethod === 'paypal' && (
-              <View style={styles.noPaymentDetails}>
-                <Ionicons name="construct-outline" size={24} color={colors.gray400} />
-                <Text style={[styles.noPaymentText, { color: colors.gray600 }]}>
-                  PayPal integration coming soon
+            {!hasPaymentDetails && (
+              <TouchableOpacity
+                style={styles.noPaymentDetails}
+                onPress={() => navigation.navigate('PayoutMethods' as any)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="alert-circle-outline" size={24} color={colors.warning} />
+                <Text style={[styles.noPaymentText, { color: colors.gray700 }]}>
+                  {selectedMethod === 'payid' && 'Add your PayID in Payout Methods to receive payments via PayID'}
+                  {selectedMethod === 'bank_transfer' && 'Add your bank account in Payout Methods to receive bank transfers'}
+                  {selectedMethod === 'paypal' && 'Add your PayPal.Me username in Payout Methods to receive PayPal payments'}
                 </Text>
-              </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.gray400} />
+              </TouchableOpacity>
             )}
-            {selectedMethod === 'payid' && hasPaymentDetails && (
+            {hasPaymentDetails && (
               <>
                 <DetailRow label="Amount" value={`$${amount.toFixed(2)} AUD`} colors={colors} />
+                {paymentReference && selectedMethod !== 'paypal' && (
+                  <DetailRow label="Reference" value={paymentReference} colors={colors} />
+                )}
               </>
             )}
           </View>
@@ -371,7 +427,11 @@ export default function PaymentRequestScreen({ navigation, route }: PaymentReque
           style={[styles.doneButton, { backgroundColor: colors.gray200 }]}
           onPress={() => {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            navigation.navigate('CreateSplit'); // Navigate back to home
+            if (participantId) {
+              navigation.goBack(); // Back to the split
+            } else {
+              navigation.navigate('CreateSplit'); // Navigate back to home
+            }
           }}
           activeOpacity={0.8}
         >
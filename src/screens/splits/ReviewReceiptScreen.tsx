@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -16,11 +16,54 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius, typography, shadows } from '../../constants/theme';
 import * as Haptics from 'expo-haptics';
-import { parseReceiptWithAI } from '../../services/receiptService';
-import { ParsedReceipt, ReceiptItem } from '../../types/receipt';
+import { parseReceipt as parseReceiptImage } from '../../services/receiptParsers';
+import {
+  ParsedReceipt,
+  ReceiptAdjustment,
+  ReceiptAdjustmentKind,
+  ReceiptDiscrepancy,
+  ReceiptItem,
+  ReceiptParseErrorType,
+  TaxTipMethod,
+} from '../../types/receipt';
+import { applyReceiptFix, reconcileReceipt } from '../../utils/receiptReconciliation';
+import { calculateAdjustmentsTotal, getAdjustmentCents } from '../../utils/splitCalculations';
+import { fromCents } from '../../utils/money';
 import { ReviewReceiptScreenProps } from '../../types/navigation';
 import AIConsentModal, { hasAIConsent } from '../../components/modals/AIConsentModal';
 
+const ADJUSTMENT_KINDS: { value: ReceiptAdjustmentKind; label: string }[] = [
+  { value: 'discount', label: 'Discount' },
+  { value: 'surcharge', label: 'Surcharge' },
+  { value: 'service_charge', label: 'Service' },
+  { value: 'rounding', label: 'Rounding' },
+];
+
+const DISTRIBUTIONS: { value: TaxTipMethod; label: string }[] = [
+  { value: 'proportional', label: 'By items' },
+  { value: 'equal', label: 'Equally' },
+];
+
+/**
+ * An adjustment as entered, before the amount is checked
+ */
+interface AdjustmentDraft {
+  id: string;
+  kind: ReceiptAdjustmentKind;
+  label: string;
+  value: string;
+  isPercentage: boolean;
+  itemId: string | null; // null for the whole bill
+  distribution: TaxTipMethod;
+}
+
+/**
+ * Format an adjustment's amount with its sign (e.g. "-$2.00", "+$4.50")
+ */
+function formatAdjustment(cents: number): string {
+  return `${cents < 0 ? '-' : '+'}$${fromCents(Math.abs(cents)).toFixed(2)}`;
+}
+
 export default function ReviewReceiptScreen({ navigation, route }: ReviewReceiptScreenProps) {
   const { imageUri } = route.params;
   const insets = useSafeAreaInsets();
@@ -30,9 +73,13 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
   const [error, setError] = useState<string | null>(null);
   const [receipt, setReceipt] = useState<ParsedReceipt | null>(null);
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editingAdjustmentId, setEditingAdjustmentId] = useState<string | null>(null);
   const [showConsentModal, setShowConsentModal] = useState(false);
   const [consentChecked, setConsentChecked] = useState(false);
 
+  // Totals stay as printed while items are edited, so anything that doesn't add up is flagged
+  const reconciliation = useMemo(() => (receipt ? reconcileReceipt(receipt) : null), [receipt]);
+
   // Check consent and parse receipt on mount
   useEffect(() => {
     checkConsentAndParse();
@@ -66,14 +113,18 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
       setLoading(true);
       setError(null);
 
-      const parsedReceipt = await parseReceiptWithAI(imageUri);
+      const parsedReceipt = await parseReceiptImage(imageUri);
       setReceipt(parsedReceipt);
 
       // Show success haptic
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err: any) {
       console.error('Failed to parse receipt:', err);
-      setError('We couldn\'t read your receipt. Please try a clearer photo.');
+      setError(
+        err?.type === ReceiptParseErrorType.RATE_LIMITED
+          ? `You've scanned a lot of receipts today. ${err.message}`
+          : 'We couldn\'t read your receipt. Please try a clearer photo.'
+      );
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
       setLoading(false);
@@ -98,14 +149,9 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
       item.id === itemId ? { ...item, name, price: priceNum } : item
     );
 
-    // Recalculate subtotal
-    const newSubtotal = updatedItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-
     setReceipt({
       ...receipt,
       items: updatedItems,
-      subtotal: newSubtotal,
-      total: newSubtotal + receipt.tax + receipt.tip,
     });
 
     setEditingItemId(null);
@@ -133,16 +179,11 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
               return;
             }
 
-            const newSubtotal = updatedItems.reduce(
-              (sum, item) => sum + item.price * item.quantity,
-              0
-            );
-
+            // Adjustments on the item go with it
             setReceipt({
               ...receipt,
               items: updatedItems,
-              subtotal: newSubtotal,
-              total: newSubtotal + receipt.tax + receipt.tip,
+              adjustments: receipt.adjustments?.filter((adjustment) => adjustment.itemId !== itemId),
             });
 
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -174,24 +215,141 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
     setEditingItemId(newItem.id);
   };
 
-  const handleContinue = () => {
+  const handleAddAdjustment = () => {
     if (!receipt) return;
 
-    // Validate receipt has items
-    if (receipt.items.length === 0) {
-      Alert.alert('No Items', 'Please add at least one item to continue');
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    const newAdjustment: ReceiptAdjustment = {
+      id: `adjustment-${Date.now()}`,
+      kind: 'discount',
+      label: 'Discount',
+      amount: 0,
+      scope: 'bill',
+      distribution: 'proportional',
+    };
+
+    setReceipt({
+      ...receipt,
+      adjustments: [...(receipt.adjustments || []), newAdjustment],
+    });
+
+    setEditingAdjustmentId(newAdjustment.id);
+  };
+
+  const handleSaveAdjustment = (draft: AdjustmentDraft) => {
+    if (!receipt) return;
+
+    const value = parseFloat(draft.value);
+    if (isNaN(value) || (value < 0 && draft.kind !== 'rounding')) {
+      Alert.alert('Invalid Amount', draft.isPercentage ? 'Please enter a valid percentage' : 'Please enter a valid amount');
       return;
     }
 
+    const updated: ReceiptAdjustment = {
+      id: draft.id,
+      kind: draft.kind,
+      label: draft.label.trim() || ADJUSTMENT_KINDS.find((kind) => kind.value === draft.kind)!.label,
+      amount: draft.isPercentage ? undefined : value,
+      percentage: draft.isPercentage ? value : undefined,
+      scope: draft.itemId ? 'item' : 'bill',
+      itemId: draft.itemId ?? undefined,
+      distribution: draft.distribution,
+    };
+
+    setReceipt({
+      ...receipt,
+      adjustments: (receipt.adjustments || []).map((adjustment) =>
+        adjustment.id === draft.id ? updated : adjustment
+      ),
+    });
+
+    setEditingAdjustmentId(null);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+  };
+
+  const handleDeleteAdjustment = (adjustmentId: string) => {
+    if (!receipt) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    Alert.alert(
+      'Delete Adjustment',
+      'Are you sure you want to remove this adjustment?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            setReceipt({
+              ...receipt,
+              adjustments: (receipt.adjustments || []).filter((adjustment) => adjustment.id !== adjustmentId),
+            });
+            setEditingAdjustmentId(null);
+
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleApplyFix = (discrepancy: ReceiptDiscrepancy) => {
+    if (!receipt) return;
+
+    setReceipt(applyReceiptFix(receipt, discrepancy));
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const continueWithReceipt = (confirmedReceipt: ParsedReceipt) => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
     // Navigate to friend selection first
     navigation.navigate('SelectFriendsForReceipt', {
-      receipt: receipt,
+      receipt: confirmedReceipt,
       imageUri: imageUri,
     });
   };
 
+  const handleContinue = () => {
+    if (!receipt || !reconciliation) return;
+
+    // Validate receipt has items
+    if (receipt.items.length === 0) {
+      Alert.alert('No Items', 'Please add at least one item to continue');
+      return;
+    }
+
+    // Shares are worked out from the items, so they have to add up to the total
+    const itemsOff = reconciliation.discrepancies.some((d) => d.type !== 'totals_mismatch');
+    if (itemsOff) {
+      Alert.alert(
+        'Items Don\'t Add Up',
+        `The items add up to $${reconciliation.itemsTotal.toFixed(2)} but the receipt says $${reconciliation.expectedItemsTotal.toFixed(2)}. Use the item total instead?`,
+        [
+          { text: 'Review', style: 'cancel' },
+          {
+            text: 'Use Item Total',
+            onPress: () =>
+              continueWithReceipt({
+                ...receipt,
+                subtotal: reconciliation.itemsTotal,
+                total:
+                  reconciliation.itemsTotal +
+                  calculateAdjustmentsTotal(receipt.items, receipt.adjustments) +
+                  receipt.tax +
+                  receipt.tip,
+              }),
+          },
+        ]
+      );
+      return;
+    }
+
+    continueWithReceipt(receipt);
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -283,6 +441,29 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
             </Text>
           </View>
 
+          {/* Reconciliation */}
+          {reconciliation && !reconciliation.balanced && (
+            <View style={[styles.reconcileCard, { backgroundColor: colors.warningLight }]}>
+              <View style={styles.reconcileHeader}>
+                <Ionicons name="warning" size={20} color={colors.warning} />
+                <Text style={[styles.reconcileTitle, { color: colors.gray900 }]}>Receipt doesn't add up</Text>
+              </View>
+              {reconciliation.discrepancies.map((discrepancy) => (
+                <View key={discrepancy.id} style={styles.discrepancyRow}>
+                  <Text style={[styles.discrepancyText, { color: colors.gray900 }]}>{discrepancy.message}</Text>
+                  {discrepancy.fix && (
+                    <TouchableOpacity
+                      style={[styles.fixButton, { backgroundColor: colors.warning }]}
+                      onPress={() => handleApplyFix(discrepancy)}
+                    >
+                      <Text style={[styles.fixButtonText, { color: colors.surface }]}>Fix</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Items List */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -306,12 +487,53 @@ export default function ReviewReceiptScreen({ navigation, route }: ReviewReceipt
             ))}
           </View>
 
+          {/* Adjustments */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Adjustments</Text>
+              <TouchableOpacity onPress={handleAddAdjustment} style={styles.addButton}>
+                <Ionicons name="add-circle" size={20} color={colors.primary} />
+                <Text style={[styles.addButtonText, { color: colors.primary }]}>Add Adjustment</Text>
+              </TouchableOpacity>
+            </View>
+
+            {(receipt.adjustments || []).length === 0 && (
+              <Text style={[styles.emptyAdjustmentsText, { color: colors.textSecondary }]}>
+                Discounts, surcharges and service charges on the receipt
+              </Text>
+            )}
+
+            {(receipt.adjustments || []).map((adjustment) => (
+              <AdjustmentRow
+                key={adjustment.id}
+                adjustment={adjustment}
+                items={receipt.items}
+                isEditing={editingAdjustmentId === adjustment.id}
+                onEdit={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setEditingAdjustmentId(adjustment.id);
+                }}
+                onSave={handleSaveAdjustment}
+                onDelete={() => handleDeleteAdjustment(adjustment.id)}
+                colors={colors}
+              />
+            ))}
+          </View>
+
           {/* Totals */}
           <View style={[styles.totalsCard, { backgroundColor: colors.surface }]}>
             <View style={styles.totalRow}>
               <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>Subtotal</Text>
               <Text style={[styles.totalValue, { color: colors.gray900 }]}>${receipt.subtotal.toFixed(2)}</Text>
             </View>
+            {(receipt.adjustments || []).map((adjustment) => (
+              <View key={adjustment.id} style={styles.totalRow}>
+                <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>{adjustment.label}</Text>
+                <Text style={[styles.totalValue, { color: colors.gray900 }]}>
+                  {formatAdjustment(getAdjustmentCents(adjustment, receipt.items))}
+                </Text>
+              </View>
+            ))}
             <View style={styles.totalRow}>
               <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>Tax</Text>
               <Text style={[styles.totalValue, { color: colors.gray900 }]}>${receipt.tax.toFixed(2)}</Text>
@@ -432,6 +654,148 @@ function ItemRow({ item, isEditing, onEdit, onSave, onDelete, colors }: ItemRowP
   );
 }
 
+// Adjustment Row Component
+interface AdjustmentRowProps {
+  adjustment: ReceiptAdjustment;
+  items: ReceiptItem[];
+  isEditing: boolean;
+  onEdit: () => void;
+  onSave: (draft: AdjustmentDraft) => void;
+  onDelete: () => void;
+  colors: any;
+}
+
+function AdjustmentRow({ adjustment, items, isEditing, onEdit, onSave, onDelete, colors }: AdjustmentRowProps) {
+  const toDraft = (): AdjustmentDraft => ({
+    id: adjustment.id,
+    kind: adjustment.kind,
+    label: adjustment.label,
+    value: String(adjustment.percentage ?? adjustment.amount ?? 0),
+    isPercentage: typeof adjustment.percentage === 'number',
+    itemId: adjustment.scope === 'item' ? adjustment.itemId ?? null : null,
+    distribution: adjustment.distribution,
+  });
+
+  const [draft, setDraft] = useState<AdjustmentDraft>(toDraft);
+
+  useEffect(() => {
+    setDraft(toDraft());
+  }, [adjustment]);
+
+  const update = (changes: Partial<AdjustmentDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  if (isEditing) {
+    const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.chip,
+          { backgroundColor: isSelected ? colors.infoLight : colors.gray100 },
+          isSelected && { borderColor: colors.primary },
+        ]}
+        onPress={onPress}
+      >
+        <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.gray600 }]} numberOfLines={1}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+
+    return (
+      <View style={[styles.itemCard, { backgroundColor: colors.surface }]}>
+        <View style={styles.chipRow}>
+          {ADJUSTMENT_KINDS.map((kind) =>
+            renderChip(kind.value, kind.label, draft.kind === kind.value, () => update({ kind: kind.value }))
+          )}
+        </View>
+        <View style={styles.itemEditRow}>
+          <TextInput
+            style={[styles.itemNameInput, { color: colors.gray900, backgroundColor: colors.gray50, borderColor: colors.border }]}
+            value={draft.label}
+            onChangeText={(label) => update({ label })}
+            placeholder="Label"
+            placeholderTextColor={colors.textSecondary}
+          />
+          <TextInput
+            style={[styles.itemPriceInput, { color: colors.gray900, backgroundColor: colors.gray50, borderColor: colors.border }]}
+            value={draft.value}
+            onChangeText={(value) => update({ value })}
+            placeholder={draft.isPercentage ? '10' : '0.00'}
+            placeholderTextColor={colors.textSecondary}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <View style={styles.chipRow}>
+          {renderChip('fixed', '$ Amount', !draft.isPercentage, () => update({ isPercentage: false }))}
+          {renderChip('percentage', '% of items', draft.isPercentage, () => update({ isPercentage: true }))}
+        </View>
+        <Text style={[styles.chipLabel, { color: colors.textSecondary }]}>Applies to</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipScrollRow}>
+          {renderChip('bill', 'Whole bill', draft.itemId === null, () => update({ itemId: null }))}
+          {items.map((item) =>
+            renderChip(item.id, item.name, draft.itemId === item.id, () => update({ itemId: item.id }))
+          )}
+        </ScrollView>
+        {draft.itemId === null && (
+          <>
+            <Text style={[styles.chipLabel, { color: colors.textSecondary }]}>Split</Text>
+            <View style={styles.chipRow}>
+              {DISTRIBUTIONS.map((distribution) =>
+                renderChip(
+                  distribution.value,
+                  distribution.label,
+                  draft.distribution === distribution.value,
+                  () => update({ distribution: distribution.value })
+                )
+              )}
+            </View>
+          </>
+        )}
+        <View style={styles.itemActions}>
+          <TouchableOpacity onPress={onDelete} style={styles.deleteButton}>
+            <Ionicons name="trash-outline" size={18} color={colors.error} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onSave(draft)}
+            style={[styles.saveButton, { backgroundColor: colors.success }]}
+          >
+            <Ionicons name="checkmark" size={18} color={colors.surface} />
+            <Text style={[styles.saveButtonText, { color: colors.surface }]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const item = adjustment.scope === 'item' ? items.find((candidate) => candidate.id === adjustment.itemId) : undefined;
+  const appliesTo = item
+    ? `On ${item.name}`
+    : `Whole bill · ${adjustment.distribution === 'equal' ? 'split equally' : 'split by items'}`;
+
+  return (
+    <TouchableOpacity
+      style={[styles.itemCard, { backgroundColor: colors.surface }]}
+      onPress={onEdit}
+      activeOpacity={0.7}
+    >
+      <View style={styles.itemInfo}>
+        <Text style={[styles.itemName, { color: colors.gray900 }]}>{adjustment.label}</Text>
+      </View>
+      <Text style={[styles.adjustmentDetail, { color: colors.textSecondary }]}>
+        {typeof adjustment.percentage === 'number' ? `${adjustment.percentage}% · ` : ''}{appliesTo}
+      </Text>
+      <View style={styles.itemRight}>
+        <Text style={[styles.itemPrice, { color: colors.gray900 }]}>
+          {formatAdjustment(getAdjustmentCents(adjustment, items))}
+        </Text>
+        <TouchableOpacity onPress={onDelete} style={styles.deleteButton}>
+          <Ionicons name="trash-outline" size={18} color={colors.error} />
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -533,6 +897,39 @@ const styles = StyleSheet.create({
     ...typography.bodySmall,
     flex: 1,
   },
+  reconcileCard: {
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    gap: spacing.sm,
+  },
+  reconcileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  reconcileTitle: {
+    ...typography.h6,
+  },
+  discrepancyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  discrepancyText: {
+    ...typography.bodySmall,
+    flex: 1,
+  },
+  fixButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+  },
+  fixButtonText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
   section: {
     marginTop: spacing.lg,
   },
@@ -641,6 +1038,41 @@ const styles = StyleSheet.create({
     ...typography.bodySmall,
     fontWeight: '600',
   },
+  emptyAdjustmentsText: {
+    ...typography.bodySmall,
+    paddingHorizontal: spacing.md,
+  },
+  adjustmentDetail: {
+    ...typography.caption,
+    marginTop: spacing.xxs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  chipScrollRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    maxWidth: 160,
+  },
+  chipText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+  chipLabel: {
+    ...typography.caption,
+    marginBottom: spacing.xs,
+  },
   totalsCard: {
     marginHorizontal: spacing.md,
     marginTop: spacing.lg,
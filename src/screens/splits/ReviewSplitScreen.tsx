@@ -14,12 +14,16 @@ import { ReviewSplitScreenProps } from '../../types/navigation';
 import { spacing, radius, typography } from '../../constants/theme';
 import { useTheme } from '../../contexts/ThemeContext';
 import { SplitSummary, Participant } from '../../components/splits';
-import { createSplit, calculateEqualSplitAmounts } from '../../services/splitService';
+import { calculateEqualSplitAmounts } from '../../services/splitService';
+import { fromCents, sumCents, toCents } from '../../utils/money';
+import { createSplitOrQueue } from '../../services/syncQueue';
+import { getRateLimitErrorMessage, isRateLimitError } from '../../utils/rateLimiter';
 import { useFriends } from '../../hooks/useFriends';
 import { useAuth } from '../../hooks/useAuth';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 
 export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScreenProps) {
-  const { amount, title, description, selectedFriends, splitMethod, customAmounts, externalPeople, groupId } = route.params;
+  const { amount, title, description, selectedFriends, splitMethod, customAmounts, shareWeights, externalPeople, groupId, currency = DEFAULT_CURRENCY } = route.params;
   const insets = useSafeAreaInsets();
   const { colors, isDark } = useTheme();
 
@@ -59,7 +63,7 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
   // Calculate creator's share (their portion of the split)
   const creatorShare = isEqualSplit
     ? equalAmounts[user?.id || 'creator'] || 0
-    : amount - Object.values(customAmounts || {}).reduce((sum, val) => sum + val, 0);
+    : fromCents(toCents(amount) - sumCents(Object.values(customAmounts || {}).map(toCents)));
 
   // Build display participants list (including creator for UI)
   // Creator is shown first with highlight
@@ -84,7 +88,7 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
       id: `ext_${i}`,
       name: person.name,
       email: person.email,
-      amount_owed: equalAmounts[`ext_${i}`] || 0,
+      amount_owed: customAmounts?.[`ext_${i}`] ?? equalAmounts[`ext_${i}`] ?? 0,
       amount_paid: 0,
       status: 'pending' as const,
     })),
@@ -104,7 +108,7 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
       id: `ext_${i}`,
       name: person.name,
       email: person.email,
-      amount_owed: equalAmounts[`ext_${i}`] || 0,
+      amount_owed: customAmounts?.[`ext_${i}`] ?? equalAmounts[`ext_${i}`] ?? 0,
       amount_paid: 0,
       status: 'pending' as const,
       isExternal: true,
@@ -127,6 +131,7 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
         if ((p as any).isExternal) {
           return {
             amount_owed: p.amount_owed,
+            share_weight: shareWeights?.[p.id],
             external_name: p.name,
             external_email: p.email,
             external_phone: (p as any).externalPhone,
@@ -135,17 +140,19 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
         return {
           user_id: p.id,
           amount_owed: p.amount_owed,
+          share_weight: shareWeights?.[p.id],
         };
       });
 
-      // Create split in Supabase
-      const split = await createSplit({
+      // Create split in Supabase (queued if we're offline)
+      const { splitId, queued } = await createSplitOrQueue({
         title: title.trim(),
         description: description?.trim(),
         total_amount: amount,
-        currency: 'AUD',
+        currency,
         split_method: splitMethod,
         participants: participantsData,
+        creator_share_weight: shareWeights?.[user.id],
         group_id: groupId,
       });
 
@@ -157,14 +164,19 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
 
       // Navigate to success screen with real split ID
       navigation.navigate('SplitSuccess', {
-        splitId: split.id,
+        splitId,
         amount,
         participantCount: participants.length,
         splitMethod,
         participantAmounts,
+        queued,
       });
     } catch (error) {
       console.error('Error creating split:', error);
+      if (isRateLimitError(error)) {
+        Alert.alert('Slow down', `You've created a lot of splits recently. ${getRateLimitErrorMessage(error)}`);
+        return;
+      }
       Alert.alert(
         'Something went wrong',
         'We couldn\'t create your split. Please try again.'
@@ -197,6 +209,7 @@ export default function ReviewSplitScreen({ navigation, route }: ReviewSplitScre
             description={description}
             splitMethod={splitMethod}
             showProgress={false}
+            currency={currency}
           />
         </View>
       </View>
@@ -21,8 +21,10 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { FriendSelector } from '../../components/splits';
 import { useFriends } from '../../hooks/useFriends';
 import { supabase } from '../../services/supabase';
-import { createReceiptSplit, getOrCreatePaymentLink } from '../../services/splitService';
+import { createReceiptSplit } from '../../services/splitService';
+import { getPaymentLinkUrl } from '../../services/paymentLinkService';
 import { uploadReceiptToStorage } from '../../services/receiptService';
+import { DEFAULT_CURRENCY } from '../../utils/currency';
 
 interface ExternalPerson {
   id: string;
@@ -90,8 +92,8 @@ export default function SelectFriendsForReceiptScreen({
       const { data: { user: currentUser } } = await supabase.auth.getUser();
       if (!currentUser) throw new Error('User not authenticated');
 
-      // 1. Upload receipt image to storage
-      const receiptImageUrl = await uploadReceiptToStorage(imageUri, currentUser.id);
+      // 1. Upload receipt image to storage (unless it was stored when scanned)
+      const receiptImageUrl = receipt.image_url || await uploadReceiptToStorage(imageUri, currentUser.id);
 
       // 2. Build participants data - friends will claim items later, so amount_owed starts at 0
       const participantsData = [
@@ -112,7 +114,7 @@ export default function SelectFriendsForReceiptScreen({
         title: receipt.merchant || 'Receipt Split',
         description: receipt.date ? `Receipt from ${receipt.date}` : undefined,
         total_amount: receipt.total,
-        currency: 'USD',
+        currency: DEFAULT_CURRENCY,
         split_method: 'receipt' as const,
         participants: participantsData,
         image_url: receiptImageUrl,
@@ -120,14 +122,15 @@ export default function SelectFriendsForReceiptScreen({
           subtotal: receipt.subtotal,
           tax: receipt.tax,
           tip: receipt.tip,
+          adjustments: receipt.adjustments,
         },
+        receipt_corrections: receipt.corrections,
       };
 
-      const split = await createReceiptSplit(splitData, receipt.items, []);
-      // Note: createReceiptSplit already creates items internally
-
-      // 4. Generate payment link for sharing
-      const paymentLink = await getOrCreatePaymentLink(split.id, currentUser.id);
+      // Items and the payment link for sharing are saved with it
+      const { split, paymentLink } = await createReceiptSplit(splitData, receipt.items, {
+        paymentLinkExpiry: 'never',
+      });
 
       // Success!
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -139,7 +142,7 @@ export default function SelectFriendsForReceiptScreen({
         participantCount: selectedFriendIds.length + externalPeople.length,
         splitMethod: 'receipt',
         participantAmounts: [],
-        paymentLink: paymentLink?.url,
+        paymentLink: paymentLink ? getPaymentLinkUrl(paymentLink.short_code) : undefined,
       });
     } catch (error: any) {
       console.error('Error creating split:', error);
@@ -163,13 +166,13 @@ export default function SelectFriendsForReceiptScreen({
       const { data: { user: currentUser } } = await supabase.auth.getUser();
       if (!currentUser) throw new Error('User not authenticated');
 
-      const receiptImageUrl = await uploadReceiptToStorage(imageUri, currentUser.id);
+      const receiptImageUrl = receipt.image_url || await uploadReceiptToStorage(imageUri, currentUser.id);
 
       const splitData = {
         title: receipt.merchant || 'Receipt Split',
         description: receipt.date ? `Receipt from ${receipt.date}` : undefined,
         total_amount: receipt.total,
-        currency: 'USD',
+        currency: DEFAULT_CURRENCY,
         split_method: 'receipt' as const,
         participants: [], // No other participants
         image_url: receiptImageUrl,
@@ -177,11 +180,12 @@ export default function SelectFriendsForReceiptScreen({
           subtotal: receipt.subtotal,
           tax: receipt.tax,
           tip: receipt.tip,
+          adjustments: receipt.adjustments,
         },
+        receipt_corrections: receipt.corrections,
       };
 
-      const split = await createReceiptSplit(splitData, receipt.items, []);
-      // Note: createReceiptSplit already creates items internally, no need to call createSplitItems again
+      const { split } = await createReceiptSplit(splitData, receipt.items);
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
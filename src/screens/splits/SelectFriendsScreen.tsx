@@ -22,6 +22,7 @@ import { FriendSelector } from '../../components/splits';
 import { useFriends } from '../../hooks/useFriends';
 import { getUserGroups, getGroupWithMembers, Group, GroupType } from '../../services/groupService';
 import { supabase } from '../../services/supabase';
+import { formatCurrency } from '../../utils/splitCalculations';
 
 const GROUP_TYPE_ICONS: Record<GroupType, string> = {
   household: 'home-outline',
@@ -39,7 +40,7 @@ interface ExternalPerson {
 }
 
 export default function SelectFriendsScreen({ navigation, route }: SelectFriendsScreenProps) {
-  const { amount, title, description, groupId } = route.params;
+  const { amount, title, description, groupId, currency } = route.params;
   const insets = useSafeAreaInsets();
   const { colors, isDark } = useTheme();
 
@@ -160,6 +161,7 @@ export default function SelectFriendsScreen({ navigation, route }: SelectFriends
       selectedFriends: selectedFriendIds,
       externalPeople: externalPeople.map(p => ({ name: p.name, email: p.email, phone: p.phone })),
       groupId: activeGroupId || groupId,
+      currency,
     });
   };
 
@@ -180,7 +182,7 @@ export default function SelectFriendsScreen({ navigation, route }: SelectFriends
         <View style={[styles.splitBadge, { backgroundColor: colors.infoLight }]}>
           <Text style={[styles.splitBadgeTitle, { color: colors.gray900 }]}>{title}</Text>
           <Text style={[styles.splitBadgeAmount, { color: colors.primary }]}>
-            ${amount.toFixed(2)}
+            {formatCurrency(amount, currency)}
           </Text>
         </View>
 
@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  StatusBar,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { ShareWeightsScreenProps } from '../../types/navigation';
+import { spacing, radius, typography } from '../../constants/theme';
+import { useFriends } from '../../hooks/useFriends';
+import { useAuth } from '../../hooks/useAuth';
+import { useTheme } from '../../contexts/ThemeContext';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { calculateSharesSplit, validateShareWeights } from '../../services/splitService';
+import { getDefaultShareWeight, getGroupWithMembers, Group, updateGroup } from '../../services/groupService';
+
+interface ParticipantEntry {
+  id: string; // User ID, or ext_<n> for external people
+  name: string;
+  email?: string;
+  weight: number;
+  isCreator: boolean;
+  isExternal: boolean;
+}
+
+/**
+ * Format a weight for display, e.g. "2 shares", "1.5 shares", "1 share"
+ */
+function formatShares(weight: number): string {
+  const rounded = Math.round(weight * 100) / 100;
+  return `${rounded} ${rounded === 1 ? 'share' : 'shares'}`;
+}
+
+export default function ShareWeightsScreen({ navigation, route }: ShareWeightsScreenProps) {
+  const { amount, title, description, selectedFriends, externalPeople, groupId, currency } = route.params;
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { allFriends } = useFriends();
+  const { colors, isDark } = useTheme();
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [groupLoaded, setGroupLoaded] = useState(!groupId);
+  const [participants, setParticipants] = useState<ParticipantEntry[]>([]);
+  const [editingValues, setEditingValues] = useState<Record<string, string>>({});
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+
+  useEffect(() => {
+    if (!groupId) return;
+
+    getGroupWithMembers(groupId)
+      .then(setGroup)
+      .finally(() => setGroupLoaded(true));
+  }, [groupId]);
+
+  // Initialize participants (creator first), starting from the group's default weights
+  useEffect(() => {
+    if ((allFriends.length > 0 || selectedFriends.length === 0) && participants.length === 0 && user && groupLoaded) {
+      const weightFor = (userId: string) => (group ? getDefaultShareWeight(group, userId) : 1);
+
+      const friendsData = selectedFriends
+        .map(id => allFriends.find(f => f.id === id))
+        .filter(f => f !== undefined);
+
+      const allParticipants: ParticipantEntry[] = [
+        {
+          id: user.id,
+          name: 'You',
+          email: user.email || undefined,
+          weight: weightFor(user.id),
+          isCreator: true,
+          isExternal: false,
+        },
+        ...friendsData.map(friend => ({
+          id: friend!.id,
+          name: friend!.full_name || 'Unknown',
+          email: friend!.email,
+          weight: weightFor(friend!.id),
+          isCreator: false,
+          isExternal: false,
+        })),
+        ...(externalPeople || []).map((person, i) => ({
+          id: `ext_${i}`,
+          name: person.name,
+          email: person.email,
+          weight: 1,
+          isCreator: false,
+          isExternal: true,
+        })),
+      ];
+
+      setParticipants(allParticipants);
+
+      const initialEditing: Record<string, string> = {};
+      allParticipants.forEach(p => {
+        initialEditing[p.id] = p.weight.toString();
+      });
+      setEditingValues(initialEditing);
+    }
+  }, [allFriends, selectedFriends, externalPeople, user, group, groupLoaded]);
+
+  const weights = Object.fromEntries(participants.map(p => [p.id, p.weight]));
+  const validation = validateShareWeights(weights);
+  const isValid = participants.length > 0 && validation.valid;
+  const amounts = isValid ? calculateSharesSplit(amount, weights) : {};
+  const totalShares = participants.reduce((sum, p) => sum + p.weight, 0);
+
+  const setWeight = (participantId: string, weight: number, text?: string) => {
+    setEditingValues(prev => ({ ...prev, [participantId]: text ?? weight.toString() }));
+    setParticipants(prev =>
+      prev.map(p => (p.id === participantId ? { ...p, weight } : p))
+    );
+  };
+
+  const handleValueChange = (participantId: string, text: string) => {
+    setWeight(participantId, parseFloat(text) || 0, text);
+  };
+
+  const handleStep = (participant: ParticipantEntry, step: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setWeight(participant.id, Math.max(0, Math.round((participant.weight + step) * 100) / 100));
+  };
+
+  const handleContinue = async () => {
+    if (!isValid) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    if (groupId && saveAsDefault) {
+      // Only group members have defaults; external people start at 1 every time
+      const defaultWeights = Object.fromEntries(
+        participants.filter(p => !p.isExternal).map(p => [p.id, p.weight])
+      );
+      const result = await updateGroup(groupId, {
+        default_split_type: 'shares',
+        default_share_weights: { ...(group?.default_share_weights || {}), ...defaultWeights },
+      });
+      if (!result.success) {
+        console.error('Error saving group default weights:', result.error);
+      }
+    }
+
+    // Only others' amounts get saved; the creator's share is what's left
+    const customAmounts: Record<string, number> = {};
+    participants.forEach(p => {
+      if (!p.isCreator) {
+        customAmounts[p.id] = amounts[p.id] || 0;
+      }
+    });
+
+    navigation.navigate('ReviewSplit', {
+      amount,
+      title,
+      description,
+      selectedFriends,
+      externalPeople,
+      splitMethod: 'shares',
+      customAmounts,
+      shareWeights: weights,
+      groupId,
+      currency,
+    });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, backgroundColor: colors.gray50 }]}>
+      <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+
+      <View style={styles.content}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={[styles.pageTitle, { color: colors.gray900 }]}>Split by Shares</Text>
+          <Text style={[styles.pageSubtitle, { color: colors.textSecondary }]}>
+            Give each person a number of shares
+          </Text>
+        </View>
+
+        {/* Summary Card */}
+        <View style={[
+          styles.summaryCard,
+          { backgroundColor: colors.surface, borderColor: colors.gray200 },
+          !isValid && { borderColor: colors.warning, backgroundColor: colors.warningLight }
+        ]}>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Total Bill</Text>
+            <Text style={[styles.summaryAmount, { color: colors.gray900 }]}>{formatCurrency(amount, currency)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Total Shares</Text>
+            <Text style={[styles.summaryAmount, { color: colors.gray900 }]}>{formatShares(totalShares)}</Text>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: colors.gray200 }]} />
+
+          {isValid ? (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.perShareLabel, { color: colors.gray900 }]}>Per Share</Text>
+              <Text style={[styles.perShareAmount, { color: colors.success }]}>
+                {formatCurrency(amount / totalShares, currency)}
+              </Text>
+            </View>
+          ) : (
+            <Text style={[styles.errorText, { color: colors.error }]}>
+              {validation.error || 'Add shares to continue'}
+            </Text>
+          )}
+        </View>
+
+        {/* Participants List */}
+        <ScrollView
+          style={styles.participantsList}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {participants.map(participant => (
+            <View
+              key={participant.id}
+              style={[
+                styles.participantRow,
+                {
+                  backgroundColor: participant.isCreator ? colors.primaryLight : colors.surface,
+                  borderColor: participant.isCreator ? colors.primary : colors.gray200,
+                  borderWidth: participant.isCreator ? 2 : 1,
+                }
+              ]}
+            >
+              {/* Avatar */}
+              <View style={[styles.avatar, { backgroundColor: colors.primaryLight }]}>
+                <Text style={[styles.avatarText, { color: colors.primary }]}>
+                  {participant.name.charAt(0).toUpperCase()}
+                </Text>
+              </View>
+
+              {/* Info */}
+              <View style={styles.infoContainer}>
+                <Text style={[styles.name, { color: colors.gray900 }]}>
+                  {participant.name}
+                </Text>
+                <Text style={[styles.amount, { color: colors.gray500 }]}>
+                  {formatCurrency(amounts[participant.id] || 0, currency)}
+                </Text>
+              </View>
+
+              {/* Weight Stepper */}
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={[styles.stepButton, { backgroundColor: colors.gray100 }]}
+                  onPress={() => handleStep(participant, -1)}
+                  disabled={participant.weight <= 0}
+                >
+                  <Ionicons name="remove" size={18} color={participant.weight <= 0 ? colors.gray300 : colors.gray700} />
+                </TouchableOpacity>
+                <TextInput
+                  style={[styles.input, { color: colors.gray900, backgroundColor: colors.gray100, borderColor: colors.gray300 }]}
+                  value={editingValues[participant.id] || ''}
+                  onChangeText={(text) => handleValueChange(participant.id, text)}
+                  keyboardType="decimal-pad"
+                  placeholder="0"
+                  placeholderTextColor={colors.gray400}
+                />
+                <TouchableOpacity
+                  style={[styles.stepButton, { backgroundColor: colors.gray100 }]}
+                  onPress={() => handleStep(participant, 1)}
+                >
+                  <Ionicons name="add" size={18} color={colors.gray700} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {groupId && (
+            <View style={[styles.defaultRow, { backgroundColor: colors.surface, borderColor: colors.gray200 }]}>
+              <View style={styles.infoContainer}>
+                <Text style={[styles.name, { color: colors.gray900 }]}>Save as group default</Text>
+                <Text style={[styles.amount, { color: colors.gray500 }]}>
+                  Start new splits in {group?.name || 'this group'} with these shares
+                </Text>
+              </View>
+              <Switch
+                value={saveAsDefault}
+                onValueChange={setSaveAsDefault}
+                trackColor={{ false: colors.gray300, true: colors.primaryLight }}
+                thumbColor={saveAsDefault ? colors.primary : colors.gray100}
+              />
+            </View>
+          )}
+        </ScrollView>
+      </View>
+
+      {/* Continue Button - Fixed at Bottom */}
+      <View style={[styles.buttonContainer, { backgroundColor: colors.gray50, borderTopColor: colors.gray200 }]}>
+        <TouchableOpacity
+          style={[
+            styles.continueButton,
+            { backgroundColor: colors.primary },
+            !isValid && { backgroundColor: colors.gray200 }
+          ]}
+          onPress={handleContinue}
+          disabled={!isValid}
+          activeOpacity={0.7}
+        >
+          <Text style={[
+            styles.continueButtonText,
+            { color: colors.surface },
+            !isValid && { color: colors.gray400 }
+          ]}>
+            Continue
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: spacing.lg,
+  },
+  header: {
+    marginBottom: spacing.lg,
+  },
+  pageTitle: {
+    ...typography.h2,
+    marginBottom: spacing.xs,
+    textAlign: 'center',
+  },
+  pageSubtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderWidth: 2,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  summaryAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  divider: {
+    height: 1,
+    marginVertical: spacing.sm,
+  },
+  perShareLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  perShareAmount: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  participantsList: {
+    flex: 1,
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  infoContainer: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  amount: {
+    fontSize: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  input: {
+    fontSize: 16,
+    fontWeight: '700',
+    minWidth: 48,
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    textAlign: 'center',
+  },
+  defaultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: radius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  buttonContainer: {
+    padding: spacing.lg,
+    borderTopWidth: 1,
+  },
+  continueButton: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  continueButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,9 +8,15 @@ import {
   Alert,
   ActivityIndicator,
   Image,
+  Modal,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
   Share as RNShare,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { format, parseISO } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import { spacing, radius, typography, shadows } from '../../constants/theme';
 import { useTheme, ThemeColors } from '../../contexts/ThemeContext';
@@ -18,21 +24,49 @@ import * as Haptics from 'expo-haptics';
 import { SplitDetailScreenProps } from '../../types/navigation';
 import {
   getSplitById,
-  markParticipantAsPaid,
   deleteSplit,
   generateShareMessage,
-  getOrCreatePaymentLink,
   generateShareMessageWithLink,
+  generateParticipantShareMessage,
+  getOutstandingAmount,
+  getParticipantCredit,
+  getSplitPayments,
+  ParticipantPayment,
+  settleParticipantCredit,
   SplitWithParticipants,
   SplitParticipant,
 } from '../../services/splitService';
 import { supabase } from '../../services/supabase';
-import { createPayment, checkAccountStatus } from '../../services/stripeService';
-import { useStripe } from '@stripe/stripe-react-native';
+import { getClaimsTotalCents, getReceiptExtrasCents, getSplitItems, SplitItem } from '../../services/itemService';
+import { checkAccountStatus, getRefundableAmount, getSplitCardPayments, Payment } from '../../services/stripeService';
+import { getHomeCurrency } from '../../services/currencyService';
+import { getPlanProgress, getSplitPaymentPlans, PaymentPlan } from '../../services/paymentPlanService';
+import { getPreferredPaymentDetails } from '../../services/payoutMethodService';
+import {
+  getOrCreateParticipantPaymentLink,
+  getOrCreatePaymentLink,
+  getPaymentLinks,
+  PaymentLinkExpiry,
+  PaymentLinkWithStats,
+  regeneratePaymentLink,
+  revokePaymentLink,
+  setPaymentLinkExpiry,
+} from '../../services/paymentLinkService';
+import {
+  discardQueuedOperation,
+  getPaymentConflicts,
+  markParticipantAsPaidOrQueue,
+  recordParticipantPaymentOrQueue,
+  retryQueuedOperation,
+} from '../../services/syncQueue';
+import RefundModal from '../../components/modals/RefundModal';
+import { PaymentLinkCard } from '../../components/splits';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { fromCents, toCents } from '../../utils/money';
+import { convertAmount, DEFAULT_CURRENCY, ExchangeRateSnapshot, PAYMENT_CURRENCY } from '../../utils/currency';
 
 export default function SplitDetailScreen({ navigation, route }: SplitDetailScreenProps) {
   const { splitId } = route.params;
-  const { initPaymentSheet, presentPaymentSheet } = useStripe();
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
 
@@ -40,19 +74,73 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
   const [split, setSplit] = useState<SplitWithParticipants | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const [paymentLoading, setPaymentLoading] = useState(false);
   const [itemClaims, setItemClaims] = useState<Map<string, any[]>>(new Map()); // userId -> claims
+  const [splitItems, setSplitItems] = useState<SplitItem[]>([]);
+  const [homeCurrency, setHomeCurrency] = useState(DEFAULT_CURRENCY);
+  const [payments, setPayments] = useState<ParticipantPayment[]>([]);
+  const [paymentPlans, setPaymentPlans] = useState<Map<string, PaymentPlan>>(new Map()); // participantId -> plan
+  const [cardPayments, setCardPayments] = useState<Map<string, Payment>>(new Map()); // paymentId -> payment
+  const [refundingPayment, setRefundingPayment] = useState<{ payment: Payment; payerName: string } | null>(null);
+  const [partPaymentParticipant, setPartPaymentParticipant] = useState<any | null>(null);
+  const [partPaymentAmount, setPartPaymentAmount] = useState('');
+  const [partPaymentNote, setPartPaymentNote] = useState('');
+  const [recordingPayment, setRecordingPayment] = useState(false);
+  const [paymentLinks, setPaymentLinks] = useState<PaymentLinkWithStats[]>([]);
+  const [updatingLink, setUpdatingLink] = useState(false);
+  const hasFocused = useRef(false);
 
   // Load split details
   useEffect(() => {
     loadSplitDetails();
     getCurrentUser();
+    checkPaymentConflicts();
   }, [splitId]);
 
+  // Coming back from paying or setting up a plan
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocused.current) {
+        refreshSplitDetails();
+      }
+      hasFocused.current = true;
+    }, [splitId])
+  );
+
+  // Payments marked offline that the server rejected when they synced
+  const checkPaymentConflicts = async () => {
+    const conflicts = await getPaymentConflicts(splitId);
+    if (conflicts.length === 0) return;
+
+    const conflict = conflicts[0];
+    Alert.alert(
+      'Payment Didn\'t Sync',
+      `A payment you marked while offline couldn't be saved: ${conflict.error || 'Unknown error'}`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await discardQueuedOperation(conflict.id);
+            checkPaymentConflicts();
+          },
+        },
+        {
+          text: 'Mark Paid Anyway',
+          onPress: async () => {
+            await retryQueuedOperation(conflict.id, { force: true });
+            await refreshSplitDetails();
+            checkPaymentConflicts();
+          },
+        },
+      ]
+    );
+  };
+
   const getCurrentUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
       setCurrentUserId(user.id);
+      setHomeCurrency(await getHomeCurrency(user.id));
     }
   };
 
@@ -61,6 +149,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
       setLoading(true);
       const splitData = await getSplitById(splitId);
       setSplit(splitData);
+      await loadPaymentHistory();
 
       // Fetch item claims for this split
       const { data: claims } = await supabase
@@ -81,6 +170,10 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
         });
         setItemClaims(claimsByUser);
       }
+
+      if (splitData?.split_type === 'receipt') {
+        setSplitItems(await getSplitItems(splitId));
+      }
     } catch (error) {
       console.error('Error loading split:', error);
       Alert.alert('Something went wrong', 'Couldn\'t load the split. Please try again.');
@@ -95,6 +188,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
       setRefreshing(true);
       const splitData = await getSplitById(splitId);
       setSplit(splitData);
+      await loadPaymentHistory();
     } catch (error) {
       console.error('Error refreshing split:', error);
     } finally {
@@ -102,6 +196,28 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
     }
   };
 
+  // Instalments paid (and refunded) so far, and any payment plans, on this split
+  const loadPaymentHistory = async () => {
+    try {
+      const [allocations, plans, stripePayments] = await Promise.all([
+        getSplitPayments(splitId),
+        getSplitPaymentPlans(splitId),
+        getSplitCardPayments(splitId),
+      ]);
+      setPayments(allocations);
+      setPaymentPlans(plans);
+      setCardPayments(stripePayments);
+    } catch (error) {
+      console.error('Error loading payment history:', error);
+    }
+    await loadPaymentLinks();
+  };
+
+  // Only the creator can see links and their analytics; for everyone else this is empty
+  const loadPaymentLinks = async () => {
+    setPaymentLinks(await getPaymentLinks(splitId));
+  };
+
   const handleMarkAsPaid = async (participant: any) => {
     if (!split || !currentUserId) return;
 
@@ -111,19 +227,37 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
       return;
     }
 
+    const outstanding = getOutstandingAmount(participant);
+
     // Show confirmation
     Alert.alert(
-      'Mark as Paid',
-      `Mark ${participant.user?.full_name || 'participant'} as paid $${participant.amount_owed.toFixed(2)}?`,
+      'Record Payment',
+      `${participant.external_name || participant.user?.full_name || 'This participant'} has ${formatCurrency(outstanding, split.currency)} left to pay. How much have they paid?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Mark Paid',
+          text: 'Part Payment',
+          onPress: () => {
+            setPartPaymentAmount('');
+            setPartPaymentNote('');
+            setPartPaymentParticipant(participant);
+          },
+        },
+        {
+          text: 'Paid in Full',
           style: 'default',
           onPress: async () => {
             try {
-              await markParticipantAsPaid(participant.id, splitId);
+              const { queued } = await markParticipantAsPaidOrQueue(
+                participant.id,
+                splitId,
+                Number(participant.amount_owed)
+              );
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              if (queued) {
+                Alert.alert('Saved Offline', 'This payment will be recorded when you\'re back online.');
+                return;
+              }
               await refreshSplitDetails();
             } catch (error) {
               console.error('Error marking as paid:', error);
@@ -135,6 +269,143 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
     );
   };
 
+  const handleRecordPartPayment = async () => {
+    if (!split || !partPaymentParticipant) return;
+
+    const participant = partPaymentParticipant;
+    const outstanding = getOutstandingAmount(participant);
+    const amountCents = toCents(parseFloat(partPaymentAmount.replace(/[^0-9.]/g, '')));
+    const amount = fromCents(amountCents);
+
+    if (amountCents <= 0) {
+      Alert.alert('Invalid Amount', 'Enter how much they paid.');
+      return;
+    }
+    if (amountCents > toCents(outstanding)) {
+      Alert.alert('Invalid Amount', `They only have ${formatCurrency(outstanding, split.currency)} left to pay.`);
+      return;
+    }
+
+    try {
+      setRecordingPayment(true);
+      const { queued } = await recordParticipantPaymentOrQueue(participant.id, splitId, amount, {
+        amountOwed: Number(participant.amount_owed),
+        note: partPaymentNote.trim() || undefined,
+      });
+      setPartPaymentParticipant(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (queued) {
+        Alert.alert('Saved Offline', 'This payment will be recorded when you\'re back online.');
+        return;
+      }
+      await refreshSplitDetails();
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      Alert.alert('Error', error.message || 'Failed to record payment');
+    } finally {
+      setRecordingPayment(false);
+    }
+  };
+
+  const handleRefunded = (amount: number) => {
+    const payerName = refundingPayment?.payerName;
+    setRefundingPayment(null);
+    Alert.alert(
+      'Refund Started',
+      `${formatCurrency(amount, PAYMENT_CURRENCY)} is on its way back to ${payerName || 'them'}. It comes off what they've paid once the refund goes through.`
+    );
+    refreshSplitDetails();
+  };
+
+  const handleRequestPayment = (participant: SplitParticipant) => {
+    if (!split) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Bank transfers are in PAYMENT_CURRENCY; the message carries the participant's reference
+    navigation.navigate('PaymentRequest', {
+      amount: convertAmount(getOutstandingAmount(participant), split.currency, PAYMENT_CURRENCY, split.exchange_rates),
+      description: split.title,
+      splitId,
+      participantId: participant.id,
+    });
+  };
+
+  // Send someone a link straight to their share; they can pay without an account
+  const handleShareParticipantLink = async (participant: SplitParticipant) => {
+    if (!split || !currentUserId) return;
+
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      const result = await getOrCreateParticipantPaymentLink(participant.id);
+      if (!result.success || !result.url) {
+        Alert.alert('Error', result.error || 'Failed to create payment link');
+        return;
+      }
+
+      const accountStatus = await checkAccountStatus(currentUserId);
+      const canTakeCards = !!accountStatus?.connected && !!accountStatus?.chargesEnabled;
+      const payoutDetails = canTakeCards ? null : await getPreferredPaymentDetails(currentUserId);
+
+      const message = generateParticipantShareMessage(
+        split,
+        {
+          name: participant.external_name || (participant as any).user?.full_name || 'there',
+          outstanding: getOutstandingAmount(participant),
+          reference: participant.payment_reference,
+        },
+        result.url,
+        payoutDetails
+      );
+      await RNShare.share({
+        message,
+        title: `Split: ${split.title}`,
+        url: result.url,
+      });
+    } catch (error) {
+      console.error('Error sharing participant link:', error);
+      Alert.alert('Something went wrong', 'Couldn\'t create the link. Please try again.');
+    }
+  };
+
+  const handleOpenPaymentPlan = (participant: SplitParticipant) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('PaymentPlan', { splitId, participantId: participant.id });
+  };
+
+  const handleSettleCredit = (participant: any) => {
+    if (!split) return;
+
+    const credit = getParticipantCredit(participant);
+    const name = participant.external_name || participant.user?.full_name || 'this participant';
+
+    Alert.alert(
+      'Credit Paid Back?',
+      `${name} paid ${formatCurrency(credit, split.currency)} more than their share after the split was edited. Record that you've paid it back?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Paid Back',
+          onPress: async () => {
+            try {
+              await settleParticipantCredit(participant.id);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              await refreshSplitDetails();
+            } catch (error: any) {
+              console.error('Error settling credit:', error);
+              Alert.alert('Error', error.message || 'Failed to record the credit');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEdit = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('EditSplit', { splitId });
+  };
+
   const handleDelete = async () => {
     if (!split || !currentUserId) return;
 
@@ -181,16 +452,23 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
     try {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-      // Check if creator has Stripe Connect set up before generating payment link
+      // Without Stripe Connect, people pay the creator directly using their saved payout method
       const accountStatus = await checkAccountStatus(currentUserId);
-      if (!accountStatus?.connected || !accountStatus?.chargesEnabled) {
+      const canTakeCards = !!accountStatus?.connected && !!accountStatus?.chargesEnabled;
+      const payoutDetails = canTakeCards ? null : await getPreferredPaymentDetails(currentUserId);
+
+      if (!canTakeCards && !payoutDetails) {
         Alert.alert(
-          'Set up your bank account first',
-          'You need to connect your bank account before sharing a payment link. This is where you\'ll receive payments.',
+          'Set up how you get paid',
+          'Connect your bank account to take card payments, or add your PayID, bank details or PayPal so people can pay you directly.',
           [
             { text: 'Not now', style: 'cancel' },
             {
-              text: 'Set up now',
+              text: 'Add payout method',
+              onPress: () => navigation.navigate('PayoutMethods' as any),
+            },
+            {
+              text: 'Connect bank',
               onPress: () => navigation.navigate('ConnectStripe' as any),
             },
           ]
@@ -203,7 +481,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
 
       if (!result) {
         // Fallback to simple share without link
-        const message = generateShareMessage(split, currentUserId);
+        const message = generateShareMessage(split, currentUserId, payoutDetails);
         await RNShare.share({
           message,
           title: `Split: ${split.title}`,
@@ -212,7 +490,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
       }
 
       // Share with payment link
-      const message = generateShareMessageWithLink(split, result.url);
+      const message = generateShareMessageWithLink(split, result.url, payoutDetails);
       await RNShare.share({
         message,
         title: `Split: ${split.title}`,
@@ -220,61 +498,114 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
       });
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadPaymentLinks();
     } catch (error) {
       console.error('Error sharing:', error);
       Alert.alert('Something went wrong', 'Couldn\'t create the link. Please try again.');
     }
   };
 
-  // Handle Pay Now - Stripe payment flow
-  const handlePayNow = async () => {
-    if (!split || !currentUserId) return;
+  const handleLinkExpiry = async (expiry: PaymentLinkExpiry) => {
+    const link = paymentLinks.find(l => l.is_active);
+    if (!link) return;
 
-    // Find current user's participant record
-    const userParticipant = split.participants.find(p => p.user_id === currentUserId);
-    if (!userParticipant || userParticipant.status === 'paid') {
-      Alert.alert('Error', 'No payment required');
+    setUpdatingLink(true);
+    const result = await setPaymentLinkExpiry(link.id, expiry);
+    setUpdatingLink(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update link expiry');
       return;
     }
+    await loadPaymentLinks();
+  };
 
-    const amountToPay = userParticipant.amount_owed;
+  const handleRegenerateLink = () => {
+    const hasActiveLink = paymentLinks.some(l => l.is_active);
 
-    try {
-      setPaymentLoading(true);
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-
-      // Create payment and show Stripe payment sheet
-      const result = await createPayment(
-        currentUserId,           // fromUserId (payer)
-        split.creator_id,        // toUserId (receiver/creator)
-        amountToPay,             // amount
-        splitId,                 // splitId
-        initPaymentSheet,        // from useStripe()
-        presentPaymentSheet      // from useStripe()
-      );
+    const regenerate = async () => {
+      setUpdatingLink(true);
+      const result = await regeneratePaymentLink(splitId);
+      setUpdatingLink(false);
 
       if (!result.success) {
-        if (result.error !== 'Canceled') {
-          Alert.alert('Payment Failed', result.error || 'Unknown error');
-        }
+        Alert.alert('Error', result.error || 'Failed to create a new link');
         return;
       }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadPaymentLinks();
+    };
+
+    if (!hasActiveLink) {
+      regenerate();
+      return;
+    }
 
-      // Payment successful - mark as paid in database
-      await markParticipantAsPaid(userParticipant.id, splitId);
+    Alert.alert(
+      'Create a New Link?',
+      'The current link will stop working. You\'ll need to share the new one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'New Link', onPress: regenerate },
+      ]
+    );
+  };
 
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert(
-        'Payment Successful!',
-        `You paid $${amountToPay.toFixed(2)} for "${split.title}"`,
-        [{ text: 'OK', onPress: () => refreshSplitDetails() }]
-      );
-    } catch (error: any) {
-      console.error('Payment error:', error);
-      Alert.alert('Payment didn\'t go through', 'Something went wrong. Please try again.');
-    } finally {
-      setPaymentLoading(false);
+  const handleRevokeLink = () => {
+    const link = paymentLinks.find(l => l.is_active);
+    if (!link) return;
+
+    Alert.alert(
+      'Revoke Link?',
+      'Anyone with this link won\'t be able to open it any more. Participants in the app can still pay.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            setUpdatingLink(true);
+            const result = await revokePaymentLink(link.id);
+            setUpdatingLink(false);
+
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to revoke link');
+              return;
+            }
+            await loadPaymentLinks();
+          },
+        },
+      ]
+    );
+  };
+
+  // Handle Pay Now - pay all or part of what's left on PayScreen
+  const handlePayNow = () => {
+    if (!split || !currentUserId) return;
+
+    // Find current user's participant record
+    const userParticipant = split.participants.find(p => p.user_id === currentUserId);
+    if (!userParticipant || userParticipant.status === 'paid') {
+      Alert.alert('Error', 'No payment required');
+      return;
     }
+
+    // Cards are charged in the payment currency, converted at the split's snapshot rate
+    const splitCurrency = split.currency || DEFAULT_CURRENCY;
+    const amountToPay = convertAmount(
+      getOutstandingAmount(userParticipant),
+      splitCurrency,
+      PAYMENT_CURRENCY,
+      split.exchange_rates
+    );
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    navigation.navigate('PayScreen', {
+      splitId,
+      participantId: userParticipant.id,
+      recipientId: split.creator_id,
+      amount: amountToPay, // checked against what's owed by the server
+    });
   };
 
   if (loading) {
@@ -301,26 +632,30 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
   const isCreator = currentUserId === split.creator_id;
   const isSettled = split.status === 'settled';
   const isReceiptSplit = split.split_type === 'receipt';
+  const currency = split.currency || DEFAULT_CURRENCY;
 
   // Calculate what others owe (sum of all participant amounts)
   const othersOweTotal = split.participants.reduce((sum, p) => sum + (p.amount_owed || 0), 0);
 
-  // Calculate the current user's share from their claimed items (for receipt splits)
+  // Calculate the current user's share from their claimed items, with their share of adjustments and tax/tip (for receipt splits)
   const currentUserClaims = isReceiptSplit && currentUserId
-    ? (itemClaims.get(currentUserId) || []).reduce((sum: number, claim: any) => sum + (Number(claim.item_amount) / (claim.share_count || 1)), 0)
+    ? fromCents(getClaimsTotalCents(
+        itemClaims.get(currentUserId) || [],
+        splitItems,
+        split.receipt_adjustments || [],
+        getReceiptExtrasCents(split.total_amount, splitItems, split.receipt_adjustments || [])
+      ))
     : 0;
 
-  // Creator's share calculation
-  const creatorShareFromClaims = isReceiptSplit && split.creator_id
-    ? (itemClaims.get(split.creator_id) || []).reduce((sum: number, claim: any) => sum + (Number(claim.item_amount) / (claim.share_count || 1)), 0)
-    : 0;
+  // Creator's share calculation (claimed items with their share of adjustments, tax and tip)
   const creatorShare = isReceiptSplit
-    ? creatorShareFromClaims
+    ? split.creator_claimed_amount || 0
     : split.total_amount - othersOweTotal;
 
   // Check if current user owes money
   const userParticipant = split.participants.find(p => p.user_id === currentUserId);
-  const userOwesMoney = userParticipant && userParticipant.amount_owed > 0 && userParticipant.status !== 'paid';
+  const userOutstanding = userParticipant ? getOutstandingAmount(userParticipant) : 0;
+  const userOwesMoney = userParticipant && userOutstanding > 0 && userParticipant.status !== 'paid';
   const amountOwed = userParticipant?.amount_owed || 0;
 
   // "Your Share" depends on who is viewing
@@ -377,7 +712,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
 
           <View style={styles.summaryRow}>
             <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Total Amount</Text>
-            <Text style={[styles.summaryValue, { color: colors.gray900 }]}>${split.total_amount.toFixed(2)} AUD</Text>
+            <Text style={[styles.summaryValue, { color: colors.gray900 }]}>{formatCurrency(split.total_amount, currency)} {currency}</Text>
           </View>
 
           <View style={styles.summaryRow}>
@@ -398,7 +733,15 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
             <View style={styles.summaryRow}>
               <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Your Share</Text>
               <Text style={[styles.summaryValue, { color: colors.primary }]}>
-                ${yourShare.toFixed(2)}
+                {formatCurrency(yourShare, currency)}
+              </Text>
+            </View>
+          )}
+          {yourShare > 0.01 && formatInCurrency(yourShare, currency, homeCurrency, split.exchange_rates) && (
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>In {homeCurrency}</Text>
+              <Text style={[styles.summaryValue, { color: colors.gray500 }]}>
+                ≈ {formatInCurrency(yourShare, currency, homeCurrency, split.exchange_rates)}
               </Text>
             </View>
           )}
@@ -422,12 +765,17 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
                 }
                 return false;
               });
-              const isPaid = userParticipant?.status === 'paid' || (userParticipant?.amount_paid && userParticipant.amount_paid > 0) || paidViaWeb;
+              const isPaid = userParticipant?.status === 'paid' || paidViaWeb;
+              const partPaid = !isPaid && Number(userParticipant?.amount_paid || 0) > 0;
               return (
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Status</Text>
                   <Text style={[styles.summaryValue, { color: isPaid ? colors.success : colors.warning }]}>
-                    {isPaid ? 'Paid' : 'Unpaid'}
+                    {isPaid
+                      ? 'Paid'
+                      : partPaid
+                        ? `Paid ${formatCurrency(Number(userParticipant!.amount_paid), currency)} of ${formatCurrency(amountOwed, currency)}`
+                        : 'Unpaid'}
                   </Text>
                 </View>
               );
@@ -457,14 +805,14 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Collected</Text>
                   <Text style={[styles.summaryValue, { color: colors.success }]}>
-                    ${totalPaid.toFixed(2)} of ${effectiveOwed.toFixed(2)}
+                    {formatCurrency(totalPaid, currency)} of {formatCurrency(effectiveOwed, currency)}
                   </Text>
                 </View>
                 {remaining > 0.01 && (
                   <View style={styles.summaryRow}>
                     <Text style={[styles.summaryLabel, { color: colors.gray500 }]}>Remaining</Text>
                     <Text style={[styles.summaryValue, { color: colors.warning }]}>
-                      ${remaining.toFixed(2)}
+                      {formatCurrency(remaining, currency)}
                     </Text>
                   </View>
                 )}
@@ -484,6 +832,21 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
           })()}
         </View>
 
+        {/* Payment Link - creator manages expiry and sees how the link is doing */}
+        {isCreator && (paymentLinks.length > 0 || !isSettled) && (
+          <View style={styles.section}>
+            <PaymentLinkCard
+              links={paymentLinks}
+              busy={updatingLink}
+              settled={isSettled}
+              onShare={handleShare}
+              onChangeExpiry={handleLinkExpiry}
+              onRevoke={handleRevokeLink}
+              onRegenerate={handleRegenerateLink}
+            />
+          </View>
+        )}
+
         {/* Web Payments Section */}
         {split.web_payments && split.web_payments.length > 0 && (
           <View style={styles.section}>
@@ -511,13 +874,73 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
                   </Text>
                 </View>
                 <Text style={[styles.paymentAmount, { color: colors.success }]}>
-                  +${Number(payment.amount).toFixed(2)}
+                  +{formatCurrency(Number(payment.amount), currency)}
                 </Text>
               </View>
             ))}
           </View>
         )}
 
+        {/* Payment History Section - every instalment, by card or recorded */}
+        {payments.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.gray900 }]}>Payment History</Text>
+              <Text style={[styles.sectionSubtitle, { color: colors.gray500 }]}>
+                {payments.length} payment{payments.length !== 1 ? 's' : ''}
+              </Text>
+            </View>
+
+            {payments.map((payment) => {
+              const participant: any = split.participants.find(p => p.id === payment.participant_id);
+              const name = participant?.user_id === currentUserId
+                ? 'You'
+                : participant?.external_name || participant?.user?.full_name || 'Unknown';
+              const isReversal = payment.allocation_type === 'refund'
+                || payment.allocation_type === 'chargeback'
+                || payment.allocation_type === 'credit';
+              const amountColor = isReversal ? colors.error : colors.success;
+              const cardPayment = payment.allocation_type === 'payment' && payment.payment_id
+                ? cardPayments.get(payment.payment_id)
+                : undefined;
+              // The receiver can refund what's left of a card payment from its first instalment row
+              const canRefund = !!cardPayment
+                && cardPayment.to_user_id === currentUserId
+                && getRefundableAmount(cardPayment) > 0
+                && payments.find(p => p.payment_id === payment.payment_id && p.allocation_type === 'payment')?.id === payment.id;
+
+              return (
+                <View
+                  key={payment.id}
+                  style={[styles.paymentCard, { backgroundColor: colors.surface }]}
+                >
+                  <View style={[styles.paymentIcon, { backgroundColor: isReversal ? colors.errorLight : colors.successLight }]}>
+                    <Ionicons name={getPaymentIcon(payment) as any} size={20} color={amountColor} />
+                  </View>
+                  <View style={styles.paymentInfo}>
+                    <Text style={[styles.paymentName, { color: colors.gray900 }]}>{name}</Text>
+                    <Text style={[styles.paymentDate, { color: colors.gray500 }]}>
+                      {formatDate(payment.created_at)} · {getPaymentMethodLabel(payment)}
+                      {cardPayment?.status === 'disputed' ? ' · Disputed' : ''}
+                    </Text>
+                    {canRefund && (
+                      <TouchableOpacity
+                        onPress={() => setRefundingPayment({ payment: cardPayment!, payerName: name })}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                      >
+                        <Text style={[styles.refundLink, { color: colors.primary }]}>Refund</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <Text style={[styles.paymentAmount, { color: amountColor }]}>
+                    {isReversal ? '-' : '+'}{formatCurrency(Number(payment.amount), currency)}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {/* Participants Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -529,7 +952,6 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
                 const webPayments = split.web_payments || [];
                 const paidCount = owingParticipants.filter((p: any) => {
                   if (p.status === 'paid') return true;
-                  if (p.amount_paid > 0) return true;
                   // Check if any web payment matches this participant
                   const participantEmail = p.user?.email?.toLowerCase();
                   const participantName = p.user?.full_name?.toLowerCase();
@@ -574,7 +996,7 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
                     {isCreator ? 'You' : split.creator?.full_name || 'Creator'}
                   </Text>
                   <Text style={[styles.participantAmount, { color: colors.gray500 }]}>
-                    ${creatorShare.toFixed(2)}
+                    {formatCurrency(creatorShare, currency)}
                   </Text>
                 </View>
                 <View style={[styles.paidBadge, { backgroundColor: isCreator ? colors.primaryLight : colors.successLight }]}>
@@ -596,8 +1018,15 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
               isCreator={isCreator}
               isCurrentUser={participant.user_id === currentUserId}
               onMarkAsPaid={() => handleMarkAsPaid(participant)}
+              paymentPlan={paymentPlans.get(participant.id)}
+              onOpenPaymentPlan={() => handleOpenPaymentPlan(participant)}
+              onRequestPayment={() => handleRequestPayment(participant)}
+              onSharePaymentLink={isReceiptSplit ? undefined : () => handleShareParticipantLink(participant)}
+              onSettleCredit={() => handleSettleCredit(participant)}
               colors={colors}
               webPayments={split.web_payments || []}
+              currency={currency}
+              exchangeRates={split.exchange_rates}
               claimedItems={(participant.user_id ? itemClaims.get(participant.user_id) : undefined) || itemClaims.get((participant as any).user?.email?.toLowerCase()) || []}
             />
           ))}
@@ -626,16 +1055,9 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
             style={[styles.payButton, { backgroundColor: colors.primary }]}
             onPress={handlePayNow}
             activeOpacity={0.7}
-            disabled={paymentLoading}
           >
-            {paymentLoading ? (
-              <ActivityIndicator size="small" color={colors.surface} />
-            ) : (
-              <>
-                <Ionicons name="card-outline" size={20} color={colors.surface} />
-                <Text style={[styles.payButtonText, { color: colors.surface }]}>Pay ${amountOwed.toFixed(2)}</Text>
-              </>
-            )}
+            <Ionicons name="card-outline" size={20} color={colors.surface} />
+            <Text style={[styles.payButtonText, { color: colors.surface }]}>Pay {formatCurrency(userOutstanding, currency)}</Text>
           </TouchableOpacity>
         )}
 
@@ -644,6 +1066,14 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
           <Text style={[styles.actionButtonText, { color: colors.primary }]}>Share</Text>
         </TouchableOpacity>
 
+        {/* Receipt split shares come from claimed items, so only other splits can be edited */}
+        {isCreator && !isReceiptSplit && (
+          <TouchableOpacity style={styles.actionButton} onPress={handleEdit} activeOpacity={0.7}>
+            <Ionicons name="create-outline" size={24} color={colors.primary} />
+            <Text style={[styles.actionButtonText, { color: colors.primary }]}>Edit</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Only creator can delete */}
         {isCreator && (
           <TouchableOpacity style={styles.actionButton} onPress={handleDelete} activeOpacity={0.7}>
@@ -652,6 +1082,68 @@ export default function SplitDetailScreen({ navigation, route }: SplitDetailScre
           </TouchableOpacity>
         )}
       </View>
+
+      <RefundModal
+        payment={refundingPayment?.payment || null}
+        payerName={refundingPayment?.payerName}
+        onClose={() => setRefundingPayment(null)}
+        onRefunded={handleRefunded}
+      />
+
+      {/* Part Payment Modal - creator records cash or a bank transfer */}
+      <Modal visible={!!partPaymentParticipant} animationType="slide" transparent>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.gray900 }]}>Record Part Payment</Text>
+              <TouchableOpacity onPress={() => setPartPaymentParticipant(null)}>
+                <Ionicons name="close" size={24} color={colors.gray500} />
+              </TouchableOpacity>
+            </View>
+
+            {partPaymentParticipant && (
+              <Text style={[styles.modalHint, { color: colors.gray500 }]}>
+                {partPaymentParticipant.external_name || partPaymentParticipant.user?.full_name || 'This participant'} has {formatCurrency(getOutstandingAmount(partPaymentParticipant), currency)} left to pay
+              </Text>
+            )}
+
+            <Text style={[styles.modalLabel, { color: colors.gray500 }]}>Amount paid *</Text>
+            <TextInput
+              style={[styles.modalInput, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+              placeholder="0.00"
+              placeholderTextColor={colors.gray400}
+              value={partPaymentAmount}
+              onChangeText={setPartPaymentAmount}
+              keyboardType="decimal-pad"
+              autoFocus
+            />
+
+            <Text style={[styles.modalLabel, { color: colors.gray500 }]}>Note (optional)</Text>
+            <TextInput
+              style={[styles.modalInput, { backgroundColor: colors.gray50, color: colors.gray900, borderColor: colors.gray200 }]}
+              placeholder="e.g. Cash at dinner"
+              placeholderTextColor={colors.gray400}
+              value={partPaymentNote}
+              onChangeText={setPartPaymentNote}
+            />
+
+            <TouchableOpacity
+              style={[styles.modalButton, { backgroundColor: partPaymentAmount.trim() ? colors.primary : colors.gray200 }]}
+              onPress={handleRecordPartPayment}
+              disabled={!partPaymentAmount.trim() || recordingPayment}
+              activeOpacity={0.7}
+            >
+              {recordingPayment ? (
+                <ActivityIndicator size="small" color={colors.surface} />
+              ) : (
+                <Text style={[styles.modalButtonText, { color: partPaymentAmount.trim() ? colors.surface : colors.gray400 }]}>
+                  Record Payment
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
     </View>
   );
 }
@@ -662,17 +1154,31 @@ function ParticipantCard({
   isCreator,
   isCurrentUser,
   onMarkAsPaid,
+  paymentPlan,
+  onOpenPaymentPlan,
+  onRequestPayment,
+  onSharePaymentLink,
+  onSettleCredit,
   colors,
   webPayments,
   claimedItems,
+  currency,
+  exchangeRates,
 }: {
   participant: any;
   isCreator: boolean;
   isCurrentUser: boolean;
   onMarkAsPaid: () => void;
+  paymentPlan?: PaymentPlan;
+  onOpenPaymentPlan: () => void;
+  onRequestPayment: () => void;
+  onSharePaymentLink?: () => void; // Not for receipt splits, where people pick their items first
+  onSettleCredit: () => void;
   colors: ThemeColors;
   webPayments: any[];
   claimedItems: any[];
+  currency: string;
+  exchangeRates?: ExchangeRateSnapshot | null;
 }) {
   const isExternal = !participant.user_id && !!participant.external_name;
 
@@ -697,6 +1203,18 @@ function ParticipantCard({
   const isPaidViaWeb = !!webPayment;
   const isPaid = participant.status === 'paid' || isPaidViaWeb;
   const paidAmount = isPaidViaWeb ? Number(webPayment.amount) : participant.amount_paid;
+  const isPartPaid = !isPaid && Number(participant.amount_paid || 0) > 0;
+  // Paid more than their share since the split was edited; the creator owes it back
+  const credit = getParticipantCredit(participant);
+  const nextInstalment = paymentPlan ? getPlanProgress(paymentPlan, participant.amount_paid || 0).nextInstalment : null;
+  // Plans are for participants with an account; they set one up for themselves or the creator does
+  const canPlan = !isPaid && !!participant.user_id && (isCurrentUser || isCreator);
+  const shareInHomeCurrency = formatInCurrency(
+    participant.amount_owed,
+    currency,
+    participant.user?.home_currency,
+    exchangeRates
+  );
 
   return (
     <View style={[
@@ -727,8 +1245,21 @@ function ParticipantCard({
         <View style={styles.participantDetails}>
           <Text style={[styles.participantName, { color: colors.gray900 }]}>{isCurrentUser ? 'You' : (participant.external_name || participant.user?.full_name || 'Unknown')}</Text>
           <Text style={[styles.participantAmount, { color: colors.gray500 }]}>
-            ${isPaidViaWeb ? paidAmount.toFixed(2) : participant.amount_owed.toFixed(2)}
+            {formatCurrency(isPaidViaWeb ? paidAmount : participant.amount_owed, currency)}
+            {shareInHomeCurrency && !isPaidViaWeb ? `  ·  ≈ ${shareInHomeCurrency}` : ''}
+            {participant.share_weight != null ? `  ·  ${Number(participant.share_weight)} ${Number(participant.share_weight) === 1 ? 'share' : 'shares'}` : ''}
           </Text>
+          {isPartPaid && (
+            <Text style={[styles.participantProgress, { color: colors.warning }]}>
+              Paid {formatCurrency(Number(participant.amount_paid), currency)} of {formatCurrency(participant.amount_owed, currency)}
+            </Text>
+          )}
+          {credit > 0 && (
+            <Text style={[styles.participantProgress, { color: colors.warning }]}>
+              {Number(participant.amount_owed) > 0 ? 'Paid ' : 'Removed after paying '}
+              {formatCurrency(Number(participant.amount_paid), currency)} · {formatCurrency(credit, currency)} to pay back
+            </Text>
+          )}
         </View>
 
         {/* Status or Button */}
@@ -736,7 +1267,7 @@ function ParticipantCard({
           <View style={[styles.paidBadge, { backgroundColor: colors.successLight }]}>
             <Ionicons name="checkmark-circle" size={20} color={colors.success} />
             <Text style={[styles.paidBadgeText, { color: colors.success }]}>
-              {isPaidViaWeb ? `Paid $${paidAmount.toFixed(2)}` : 'Paid'}
+              {isPaidViaWeb ? `Paid ${formatCurrency(paidAmount, currency)}` : 'Paid'}
             </Text>
           </View>
         ) : (
@@ -750,6 +1281,46 @@ function ParticipantCard({
         )}
       </View>
 
+      {/* Payment plan */}
+      {canPlan && (paymentPlan || isCurrentUser) && (
+        <TouchableOpacity style={styles.planRow} onPress={onOpenPaymentPlan} activeOpacity={0.7}>
+          <Ionicons name="calendar-outline" size={16} color={colors.primary} />
+          <Text style={[styles.planRowText, { color: colors.primary }]}>
+            {paymentPlan
+              ? `Payment plan${nextInstalment ? ` · next ${formatCurrency(nextInstalment.amount, currency)} on ${format(parseISO(nextInstalment.due_date), 'd MMM')}` : ''}`
+              : 'Pay in instalments'}
+          </Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+        </TouchableOpacity>
+      )}
+
+      {/* Creator has paid an overpayment back */}
+      {isCreator && credit > 0 && (
+        <TouchableOpacity style={styles.planRow} onPress={onSettleCredit} activeOpacity={0.7}>
+          <Ionicons name="return-up-back-outline" size={16} color={colors.primary} />
+          <Text style={[styles.planRowText, { color: colors.primary }]}>Mark credit paid back</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+        </TouchableOpacity>
+      )}
+
+      {/* Ask for a bank transfer with this participant's payment reference */}
+      {isCreator && !isCurrentUser && !isPaid && (
+        <TouchableOpacity style={styles.planRow} onPress={onRequestPayment} activeOpacity={0.7}>
+          <Ionicons name="paper-plane-outline" size={16} color={colors.primary} />
+          <Text style={[styles.planRowText, { color: colors.primary }]}>Request payment</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+        </TouchableOpacity>
+      )}
+
+      {/* Link straight to this participant's share */}
+      {isCreator && !isCurrentUser && !isPaid && onSharePaymentLink && (
+        <TouchableOpacity style={styles.planRow} onPress={onSharePaymentLink} activeOpacity={0.7}>
+          <Ionicons name="link-outline" size={16} color={colors.primary} />
+          <Text style={[styles.planRowText, { color: colors.primary }]}>Share payment link</Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+        </TouchableOpacity>
+      )}
+
       {/* Show claimed items */}
       {claimedItems.length > 0 && (
         <View style={styles.claimedItemsContainer}>
@@ -765,7 +1336,7 @@ function ParticipantCard({
                   : ''}{item.item_name}
               </Text>
               <Text style={[styles.claimedItemPrice, { color: colors.gray600 }]}>
-                ${(Number(item.item_amount) / (item.share_count || 1)).toFixed(2)}
+                {formatCurrency(Number(item.item_amount) / (item.share_count || 1), currency)}
               </Text>
             </View>
           ))}
@@ -776,6 +1347,59 @@ function ParticipantCard({
 }
 
 // Helper Functions
+
+/**
+ * Format an amount converted into another currency, or null when no
+ * conversion is needed or the split's snapshot doesn't cover it
+ */
+function formatInCurrency(
+  amount: number,
+  from: string,
+  to: string | null | undefined,
+  snapshot: ExchangeRateSnapshot | null | undefined
+): string | null {
+  if (!to || to === from || !snapshot) return null;
+  try {
+    return formatCurrency(convertAmount(amount, from, to, snapshot), to);
+  } catch {
+    return null;
+  }
+}
+
+function getPaymentIcon(payment: ParticipantPayment): string {
+  switch (payment.allocation_type) {
+    case 'payment':
+      return payment.payment?.payment_method === 'payto' ? 'business-outline' : 'card-outline';
+    case 'offset':
+      return 'swap-horizontal-outline';
+    case 'manual':
+      return 'cash-outline';
+    case 'refund':
+      return 'return-down-back-outline';
+    case 'chargeback':
+      return 'alert-circle-outline';
+    case 'credit':
+      return 'return-up-back-outline';
+  }
+}
+
+function getPaymentMethodLabel(payment: ParticipantPayment): string {
+  switch (payment.allocation_type) {
+    case 'payment':
+      return payment.payment?.payment_method === 'payto' ? 'Bank (PayTo)' : 'Card';
+    case 'offset':
+      return 'Settled up';
+    case 'manual':
+      return payment.note ? `Recorded · ${payment.note}` : 'Recorded';
+    case 'refund':
+      return 'Refunded';
+    case 'chargeback':
+      return 'Disputed with bank';
+    case 'credit':
+      return payment.note ? `Credit paid back · ${payment.note}` : 'Credit paid back';
+  }
+}
+
 function getSplitMethodLabel(splitType: string): string {
   switch (splitType) {
     case 'equal':
@@ -784,6 +1408,8 @@ function getSplitMethodLabel(splitType: string): string {
       return 'Custom Amounts';
     case 'percentage':
       return 'Percentage Split';
+    case 'shares':
+      return 'Split by Shares';
     case 'receipt':
       return 'Receipt Scan';
     default:
@@ -1098,4 +1724,72 @@ const styles = StyleSheet.create({
     ...typography.caption,
     fontWeight: '500',
   },
+  refundLink: {
+    ...typography.caption,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  participantProgress: {
+    ...typography.caption,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  planRowText: {
+    ...typography.caption,
+    fontWeight: '600',
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxxl,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  modalHint: {
+    ...typography.caption,
+  },
+  modalLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+    marginTop: spacing.md,
+  },
+  modalInput: {
+    fontSize: 16,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+  },
+  modalButton: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.xl,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -13,14 +13,30 @@ import { SplitMethodScreenProps } from '../../types/navigation';
 import { useTheme } from '../../contexts/ThemeContext';
 import { spacing, radius, typography } from '../../constants/theme';
 import { SplitMethodCard, SplitMethod } from '../../components/splits';
+import { formatCurrency } from '../../utils/splitCalculations';
+import { getGroupWithMembers } from '../../services/groupService';
+
+const SPLIT_METHODS: SplitMethod[] = ['equal', 'custom', 'percentage', 'shares'];
 
 export default function SplitMethodScreen({ navigation, route }: SplitMethodScreenProps) {
-  const { amount, title, description, selectedFriends, externalPeople, groupId } = route.params;
+  const { amount, title, description, selectedFriends, externalPeople, groupId, currency } = route.params;
   const insets = useSafeAreaInsets();
   const { colors, isDark } = useTheme();
 
   const [selectedMethod, setSelectedMethod] = useState<SplitMethod>('equal');
 
+  // Start from the group's usual way of splitting
+  useEffect(() => {
+    if (!groupId) return;
+
+    getGroupWithMembers(groupId).then(group => {
+      const defaultMethod = group?.default_split_type as SplitMethod | undefined;
+      if (defaultMethod && SPLIT_METHODS.includes(defaultMethod)) {
+        setSelectedMethod(defaultMethod);
+      }
+    });
+  }, [groupId]);
+
   // For display purposes, count includes everyone (creator + friends)
   // Friends count is used for calculating how much they owe the creator
   const externalCount = externalPeople?.length || 0;
@@ -45,6 +61,17 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
         externalPeople,
         splitMethod: selectedMethod,
         groupId,
+        currency,
+      });
+    } else if (selectedMethod === 'shares') {
+      navigation.navigate('ShareWeights', {
+        amount,
+        title,
+        description,
+        selectedFriends,
+        externalPeople,
+        groupId,
+        currency,
       });
     } else {
       // For custom/percentage, go to CustomAmounts screen
@@ -56,6 +83,7 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
         externalPeople,
         splitMethod: selectedMethod,
         groupId,
+        currency,
       });
     }
   };
@@ -73,7 +101,7 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
         <View style={styles.header}>
           <Text style={[styles.pageTitle, { color: colors.gray900 }]}>Split Method</Text>
           <Text style={[styles.pageSubtitle, { color: colors.gray900 }]}>
-            How should we split ${amount.toFixed(2)}?
+            How should we split {formatCurrency(amount, currency)}?
           </Text>
           <Text style={[styles.participantCount, { color: colors.primary }]}>
             {totalPeopleCount} people total
@@ -88,6 +116,7 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
             onSelect={() => handleMethodSelect('equal')}
             totalAmount={amount}
             participantCount={totalPeopleCount}
+            currency={currency}
           />
 
           <SplitMethodCard
@@ -105,6 +134,14 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
             totalAmount={amount}
             participantCount={totalPeopleCount}
           />
+
+          <SplitMethodCard
+            method="shares"
+            isSelected={selectedMethod === 'shares'}
+            onSelect={() => handleMethodSelect('shares')}
+            totalAmount={amount}
+            participantCount={totalPeopleCount}
+          />
         </View>
 
         {/* Info Section */}
@@ -114,6 +151,8 @@ export default function SplitMethodScreen({ navigation, route }: SplitMethodScre
               ? '✓ Everyone pays the same amount'
               : selectedMethod === 'custom'
               ? '→ You\'ll enter specific amounts for each person'
+              : selectedMethod === 'shares'
+              ? '→ You\'ll give each person a number of shares'
               : '→ You\'ll assign percentages to each person'}
           </Text>
         </View>
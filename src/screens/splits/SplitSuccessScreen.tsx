@@ -13,11 +13,14 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import * as Clipboard from 'expo-clipboard';
 import { SplitSuccessScreenProps } from '../../types/navigation';
+import { supabase } from '../../services/supabase';
+import { formatPaymentInstructions } from '../../services/paymentService';
+import { getPreferredPaymentDetails } from '../../services/payoutMethodService';
 import { spacing, radius, typography } from '../../constants/theme';
 import { useTheme } from '../../contexts/ThemeContext';
 
 export default function SplitSuccessScreen({ navigation, route }: SplitSuccessScreenProps) {
-  const { splitId, amount, participantCount, splitMethod, participantAmounts, paymentLink } = route.params;
+  const { splitId, amount, participantCount, splitMethod, participantAmounts, paymentLink, queued } = route.params;
   const insets = useSafeAreaInsets();
   const { colors, isDark } = useTheme();
   const isEqualSplit = splitMethod === 'equal' || !splitMethod;
@@ -49,8 +52,17 @@ export default function SplitSuccessScreen({ navigation, route }: SplitSuccessSc
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
     try {
+      let message = `Hey! I'm splitting a bill with you. Claim your items and pay here: ${paymentLink}`;
+
+      // Creators without Stripe Connect also share how to pay them directly
+      const { data: { user } } = await supabase.auth.getUser();
+      const payoutDetails = user ? await getPreferredPaymentDetails(user.id) : null;
+      if (payoutDetails) {
+        message += `\n\nPrefer to pay directly?\n${formatPaymentInstructions(payoutDetails)}`.trimEnd();
+      }
+
       await Share.share({
-        message: `Hey! I'm splitting a bill with you. Claim your items and pay here: ${paymentLink}`,
+        message,
         url: paymentLink,
       });
     } catch (error) {
@@ -74,16 +86,18 @@ export default function SplitSuccessScreen({ navigation, route }: SplitSuccessSc
         {/* Success Icon */}
         <View style={styles.iconContainer}>
           <Ionicons
-            name="checkmark-circle"
+            name={queued ? 'cloud-upload' : 'checkmark-circle'}
             size={100}
-            color={colors.success}
+            color={queued ? colors.warning : colors.success}
           />
         </View>
 
         {/* Success Message */}
-        <Text style={[styles.title, { color: colors.text }]}>Split Created!</Text>
+        <Text style={[styles.title, { color: colors.text }]}>{queued ? 'Split Saved' : 'Split Created!'}</Text>
         <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-          Your split has been created successfully
+          {queued
+            ? 'You\'re offline. We\'ll create it automatically when you reconnect'
+            : 'Your split has been created successfully'}
         </Text>
 
         {/* Summary Card */}
@@ -126,12 +140,14 @@ export default function SplitSuccessScreen({ navigation, route }: SplitSuccessSc
         </View>
 
         {/* Info Text */}
-        <View style={[styles.infoCard, { backgroundColor: isDark ? 'rgba(59,130,246,0.1)' : colors.infoLight }]}>
-          <Ionicons name="information-circle" size={20} color={colors.primary} />
-          <Text style={[styles.infoText, { color: colors.text }]}>
-            Share the link below - friends can claim their items and pay via card, Apple Pay, or Google Pay
-          </Text>
-        </View>
+        {!queued && (
+          <View style={[styles.infoCard, { backgroundColor: isDark ? 'rgba(59,130,246,0.1)' : colors.infoLight }]}>
+            <Ionicons name="information-circle" size={20} color={colors.primary} />
+            <Text style={[styles.infoText, { color: colors.text }]}>
+              Share the link below - friends can claim their items and pay via card, Apple Pay, or Google Pay
+            </Text>
+          </View>
+        )}
 
         {/* Payment Link Card */}
         {paymentLink && (
@@ -147,22 +163,27 @@ export default function SplitSuccessScreen({ navigation, route }: SplitSuccessSc
 
       {/* Action Buttons */}
       <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={styles.primaryButton}
-          onPress={handleShareLink}
-          activeOpacity={0.7}
-        >
-          <Ionicons name="share-outline" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
-          <Text style={styles.primaryButtonText}>Share Link</Text>
-        </TouchableOpacity>
+        {/* A queued split doesn't exist on the server yet, so there's nothing to share or open */}
+        {!queued && (
+          <>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleShareLink}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="share-outline" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
+              <Text style={styles.primaryButtonText}>Share Link</Text>
+            </TouchableOpacity>
 
-        <TouchableOpacity
-          style={[styles.secondaryButton, { backgroundColor: colors.gray100 }]}
-          onPress={handleViewSplit}
-          activeOpacity={0.7}
-        >
-          <Text style={[styles.secondaryButtonText, { color: colors.primary }]}>View Split Details</Text>
-        </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, { backgroundColor: colors.gray100 }]}
+              onPress={handleViewSplit}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.secondaryButtonText, { color: colors.primary }]}>View Split Details</Text>
+            </TouchableOpacity>
+          </>
+        )}
 
         <TouchableOpacity
           style={styles.doneButton}
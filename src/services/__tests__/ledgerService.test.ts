@@ -0,0 +1,180 @@
+import { ExchangeRateSnapshot } from '../../utils/currency';
+import { calculateFriendBalances, LedgerSplit } from '../ledgerService';
+
+// Only the balance maths is under test
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../currencyService', () => ({}));
+
+type Participant = LedgerSplit['participants'][number];
+
+// 1 AUD buys 0.65 USD and 0.60 EUR
+const AUD_RATES: ExchangeRateSnapshot = {
+  base: 'AUD',
+  rates: { USD: 0.65, EUR: 0.6 },
+  provider: 'test',
+  captured_at: '2026-10-01T00:00:00Z',
+};
+
+function split(
+  id: string,
+  creatorId: string,
+  participants: Participant[],
+  overrides: Partial<LedgerSplit> = {}
+): LedgerSplit {
+  return { id, creator_id: creatorId, status: 'active', currency: 'AUD', participants, web_payments: [], ...overrides };
+}
+
+function owes(userId: string | null, amountOwed: number, amountPaid = 0): Participant {
+  return { user_id: userId, amount_owed: amountOwed, amount_paid: amountPaid };
+}
+
+function paidOnline(payerEmail: string | null, amount: number): LedgerSplit['web_payments'][number] {
+  return { payer_email: payerEmail, amount };
+}
+
+describe('calculateFriendBalances', () => {
+  it('nets what each side owes across splits', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('alice', 30), owes('bob', 30)]),
+      split('s2', 'bob', [owes('bob', 12), owes('alice', 12)]),
+      split('s3', 'alice', [owes('bob', 0.1), owes('carol', 25)]),
+    ], {});
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 12, they_owe: 30.1, net: 18.1, split_count: 3, currency: 'AUD' },
+      { friend_id: 'carol', you_owe: 0, they_owe: 25, net: 25, split_count: 1, currency: 'AUD' },
+    ]);
+  });
+
+  it('skips splits that are not active, external participants and rows between other people', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 20)], { status: 'settled' }),
+      split('s2', 'alice', [owes(null, 15), owes('bob', 10)]),
+      split('s3', 'bob', [owes('carol', 40), owes('alice', 5)]),
+    ], {});
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 5, they_owe: 10, net: 5, split_count: 2, currency: 'AUD' },
+    ]);
+  });
+
+  it('takes off part payments and counts a credit from an edit as owed back', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 40, 15)]),
+      split('s2', 'alice', [owes('bob', 10, 25)]),
+      split('s3', 'alice', [owes('carol', 20, 20)]),
+    ], {});
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 15, they_owe: 25, net: 10, split_count: 2, currency: 'AUD' },
+      // Paid up, but still a split they share
+      { friend_id: 'carol', you_owe: 0, they_owe: 0, net: 0, split_count: 1, currency: 'AUD' },
+    ]);
+  });
+
+  it('is the same balance seen from either side', () => {
+    const splits = [
+      split('s1', 'alice', [owes('bob', 30, 5)]),
+      split('s2', 'bob', [owes('alice', 12)]),
+    ];
+
+    const [aliceView] = calculateFriendBalances('alice', splits, {});
+    const [bobView] = calculateFriendBalances('bob', splits, {});
+
+    expect(aliceView.net).toBe(13);
+    expect(bobView).toEqual({ ...aliceView, friend_id: 'alice', you_owe: aliceView.they_owe, they_owe: aliceView.you_owe, net: -13 });
+  });
+});
+
+describe('calculateFriendBalances web payments', () => {
+  const emails = { bob: 'Bob@Example.com', carol: 'carol@example.com' };
+
+  it('takes settled web payments off the share of the participant whose email paid', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 50), owes('carol', 50)], {
+        web_payments: [paidOnline('bob@example.com', 20), paidOnline('BOB@EXAMPLE.COM', 10)],
+      }),
+    ], emails);
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 0, they_owe: 20, net: 20, split_count: 1, currency: 'AUD' },
+      { friend_id: 'carol', you_owe: 0, they_owe: 50, net: 50, split_count: 1, currency: 'AUD' },
+    ]);
+  });
+
+  it('ignores web payments from unknown or missing emails and those on other splits', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 50)], {
+        web_payments: [paidOnline(null, 20), paidOnline('someone@example.com', 20)],
+      }),
+      split('s2', 'alice', [owes('carol', 10)], { web_payments: [paidOnline('bob@example.com', 10)] }),
+    ], emails);
+
+    expect(balances.map(balance => [balance.friend_id, balance.they_owe])).toEqual([
+      ['bob', 50],
+      ['carol', 10],
+    ]);
+  });
+
+  it('never lets a web payment turn what is owed into a credit', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 30, 10)], { web_payments: [paidOnline('bob@example.com', 50)] }),
+      split('s2', 'alice', [owes('carol', 10, 15)], { web_payments: [paidOnline('carol@example.com', 10)] }),
+    ], emails);
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 0, they_owe: 0, net: 0, split_count: 1, currency: 'AUD' },
+      // A credit is untouched by web payments
+      { friend_id: 'carol', you_owe: 5, they_owe: 0, net: -5, split_count: 1, currency: 'AUD' },
+    ]);
+  });
+});
+
+describe('calculateFriendBalances currency conversion', () => {
+  it('converts each split with the rates captured when it was created', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 13)], { currency: 'USD', exchange_rates: AUD_RATES }),
+      split('s2', 'bob', [owes('alice', 6)], { currency: 'EUR', exchange_rates: AUD_RATES }),
+      split('s3', 'alice', [owes('bob', 5)]),
+    ], {}, 'AUD');
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 10, they_owe: 25, net: 15, split_count: 3, currency: 'AUD' },
+    ]);
+  });
+
+  it('converts into a currency other than the snapshot base', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 20)], { exchange_rates: AUD_RATES }),
+      split('s2', 'alice', [owes('bob', 6)], { currency: 'EUR', exchange_rates: AUD_RATES }),
+    ], {}, 'USD');
+
+    expect(balances).toEqual([
+      { friend_id: 'bob', you_owe: 0, they_owe: 19.5, net: 19.5, split_count: 2, currency: 'USD' },
+    ]);
+  });
+
+  it('converts what is left after web payments, in the split currency', () => {
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 26)], {
+        currency: 'USD',
+        exchange_rates: AUD_RATES,
+        web_payments: [paidOnline('bob@example.com', 13)],
+      }),
+    ], { bob: 'bob@example.com' }, 'AUD');
+
+    expect(balances[0].they_owe).toBe(20);
+  });
+
+  it('falls back to the unconverted amount when a split has no rate for the currency', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const balances = calculateFriendBalances('alice', [
+      split('s1', 'alice', [owes('bob', 40)], { currency: 'JPY', exchange_rates: AUD_RATES }),
+    ], {}, 'AUD');
+
+    expect(balances[0].they_owe).toBe(40);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Missing exchange rate'), 's1', expect.any(Error));
+    warn.mockRestore();
+  });
+});
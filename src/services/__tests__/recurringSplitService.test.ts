@@ -0,0 +1,30 @@
+import { calculateNextOccurrence, getFirstOccurrence, getScheduleDayOfMonth } from '../recurringSplitService';
+
+// Only the scheduling maths is under test
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../splitService', () => ({}));
+
+describe('calculateNextOccurrence', () => {
+  it('keeps a monthly schedule that starts on the 31st on the last day of shorter months', () => {
+    const start = getFirstOccurrence('monthly', null, new Date(2025, 0, 31, 9));
+    const dayOfMonth = getScheduleDayOfMonth('monthly', null, start);
+    const occurrences = [start];
+
+    for (let i = 0; i < 4; i++) {
+      occurrences.push(calculateNextOccurrence(occurrences[occurrences.length - 1], 'monthly', dayOfMonth));
+    }
+
+    expect(occurrences).toEqual([
+      new Date(2025, 0, 31),
+      new Date(2025, 1, 28),
+      new Date(2025, 2, 31),
+      new Date(2025, 3, 30),
+      new Date(2025, 4, 31),
+    ]);
+  });
+
+  it('moves weekly and fortnightly schedules by whole weeks', () => {
+    expect(calculateNextOccurrence(new Date(2025, 0, 31), 'weekly', null)).toEqual(new Date(2025, 1, 7));
+    expect(calculateNextOccurrence(new Date(2025, 0, 31), 'fortnightly', null)).toEqual(new Date(2025, 1, 14));
+  });
+});
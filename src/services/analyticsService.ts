@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { getHomeCurrency } from './currencyService';
+import { convertAmount, DEFAULT_CURRENCY, ExchangeRateSnapshot } from '../utils/currency';
 
 export interface MonthlyStats {
   totalSpent: number;
@@ -32,6 +34,23 @@ export interface AnalyticsData {
   spendingByMonth: SpendingByMonth[];
   splitBreakdown: SplitBreakdown[];
   topPartners: TopPartner[];
+  currency: string; // Home currency all amounts are converted to
+}
+
+type SplitCurrency = {
+  currency: string | null;
+  exchange_rates: ExchangeRateSnapshot | null;
+};
+
+/**
+ * Convert a split amount to the user's home currency at the split's snapshot rate
+ */
+function toHomeCurrency(amount: number, split: SplitCurrency | null | undefined, currency: string): number {
+  try {
+    return convertAmount(amount, split?.currency || DEFAULT_CURRENCY, currency, split?.exchange_rates);
+  } catch {
+    return amount;
+  }
 }
 
 /**
@@ -41,11 +60,13 @@ export async function getAnalytics(): Promise<AnalyticsData> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
+  const currency = await getHomeCurrency(user.id);
+
   const [monthlyStats, spendingByMonth, splitBreakdown, topPartners] = await Promise.all([
-    getMonthlyStats(user.id),
-    getSpendingByMonth(user.id),
-    getSplitBreakdown(user.id),
-    getTopPartners(user.id),
+    getMonthlyStats(user.id, currency),
+    getSpendingByMonth(user.id, currency),
+    getSplitBreakdown(user.id, currency),
+    getTopPartners(user.id, currency),
   ]);
 
   return {
@@ -53,13 +74,14 @@ export async function getAnalytics(): Promise<AnalyticsData> {
     spendingByMonth,
     splitBreakdown,
     topPartners,
+    currency,
   };
 }
 
 /**
  * Get stats for the current month
  */
-async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
+async function getMonthlyStats(userId: string, currency: string): Promise<MonthlyStats> {
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
   const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59).toISOString();
@@ -71,6 +93,8 @@ async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
     .select(`
       id,
       total_amount,
+      currency,
+      exchange_rates,
       split_participants (
         amount_owed,
         status
@@ -89,7 +113,9 @@ async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
       splits!inner (
         id,
         created_at,
-        creator_id
+        creator_id,
+        currency,
+        exchange_rates
       )
     `)
     .eq('user_id', userId)
@@ -111,7 +137,7 @@ async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
         (sum: number, p: any) => sum + (p.amount_owed || 0),
         0
       ) || 0;
-      totalReceived += participantsOwe;
+      totalReceived += toHomeCurrency(participantsOwe, split, currency);
     });
   }
 
@@ -119,7 +145,7 @@ async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
   if (participatedSplits) {
     participatedSplits.forEach((p: any) => {
       splitsParticipatedCount++;
-      totalSpent += p.amount_owed || 0;
+      totalSpent += toHomeCurrency(p.amount_owed || 0, p.splits, currency);
     });
   }
 
@@ -138,7 +164,7 @@ async function getMonthlyStats(userId: string): Promise<MonthlyStats> {
  * Get spending/receiving by month for the last 6 months
  * Shows total split activity (both spending and receiving)
  */
-async function getSpendingByMonth(userId: string): Promise<SpendingByMonth[]> {
+async function getSpendingByMonth(userId: string, currency: string): Promise<SpendingByMonth[]> {
   const months: SpendingByMonth[] = [];
   const now = new Date();
 
@@ -154,7 +180,9 @@ async function getSpendingByMonth(userId: string): Promise<SpendingByMonth[]> {
         amount_owed,
         splits!inner (
           created_at,
-          creator_id
+          creator_id,
+          currency,
+          exchange_rates
         )
       `)
       .eq('user_id', userId)
@@ -166,6 +194,8 @@ async function getSpendingByMonth(userId: string): Promise<SpendingByMonth[]> {
     const { data: createdSplits } = await supabase
       .from('splits')
       .select(`
+        currency,
+        exchange_rates,
         split_participants (
           amount_owed
         )
@@ -174,13 +204,16 @@ async function getSpendingByMonth(userId: string): Promise<SpendingByMonth[]> {
       .gte('created_at', startOfMonth)
       .lte('created_at', endOfMonth);
 
-    const spent = participatedSplits?.reduce((sum: number, p: any) => sum + (p.amount_owed || 0), 0) || 0;
+    const spent = participatedSplits?.reduce(
+      (sum: number, p: any) => sum + toHomeCurrency(p.amount_owed || 0, p.splits, currency),
+      0
+    ) || 0;
     const received = createdSplits?.reduce((sum: number, split: any) => {
       const participantAmounts = split.split_participants?.reduce(
         (pSum: number, p: any) => pSum + (p.amount_owed || 0),
         0
       ) || 0;
-      return sum + participantAmounts;
+      return sum + toHomeCurrency(participantAmounts, split, currency);
     }, 0) || 0;
 
     months.push({
@@ -195,7 +228,7 @@ async function getSpendingByMonth(userId: string): Promise<SpendingByMonth[]> {
 /**
  * Get split breakdown by category/title patterns
  */
-async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
+async function getSplitBreakdown(userId: string, currency: string): Promise<SplitBreakdown[]> {
   // Get splits where user participated
   const { data: participatedSplits } = await supabase
     .from('split_participants')
@@ -204,7 +237,9 @@ async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
       splits!inner (
         title,
         description,
-        creator_id
+        creator_id,
+        currency,
+        exchange_rates
       )
     `)
     .eq('user_id', userId)
@@ -217,6 +252,8 @@ async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
       title,
       description,
       total_amount,
+      currency,
+      exchange_rates,
       split_participants (
         amount_owed
       )
@@ -265,7 +302,7 @@ async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
   // Process participated splits (amount spent)
   participatedSplits?.forEach((p: any) => {
     const text = `${p.splits.title || ''} ${p.splits.description || ''}`;
-    categorize(text, p.amount_owed || 0);
+    categorize(text, toHomeCurrency(p.amount_owed || 0, p.splits, currency));
   });
 
   // Process created splits (amount to receive = sum of participant amounts)
@@ -275,7 +312,7 @@ async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
       (sum: number, p: any) => sum + (p.amount_owed || 0),
       0
     ) || 0;
-    categorize(text, amountToReceive);
+    categorize(text, toHomeCurrency(amountToReceive, split, currency));
   });
 
   const totalAmount = Object.values(categories).reduce((sum, c) => sum + c.amount, 0);
@@ -298,12 +335,14 @@ async function getSplitBreakdown(userId: string): Promise<SplitBreakdown[]> {
 /**
  * Get top split partners
  */
-async function getTopPartners(userId: string): Promise<TopPartner[]> {
+async function getTopPartners(userId: string, currency: string): Promise<TopPartner[]> {
   // Get all splits where user is creator (with participant profiles)
   const { data: createdSplits } = await supabase
     .from('splits')
     .select(`
       id,
+      currency,
+      exchange_rates,
       split_participants (
         user_id,
         amount_owed,
@@ -323,7 +362,9 @@ async function getTopPartners(userId: string): Promise<TopPartner[]> {
       amount_owed,
       splits!inner (
         id,
-        creator_id
+        creator_id,
+        currency,
+        exchange_rates
       )
     `)
     .eq('user_id', userId)
@@ -365,7 +406,7 @@ async function getTopPartners(userId: string): Promise<TopPartner[]> {
             splitCount: 0,
           };
         }
-        partnerMap[partnerId].totalAmount += p.amount_owed || 0;
+        partnerMap[partnerId].totalAmount += toHomeCurrency(p.amount_owed || 0, split, currency);
         partnerMap[partnerId].splitCount++;
       }
     });
@@ -384,7 +425,7 @@ async function getTopPartners(userId: string): Promise<TopPartner[]> {
           splitCount: 0,
         };
       }
-      partnerMap[partnerId].totalAmount += p.amount_owed || 0;
+      partnerMap[partnerId].totalAmount += toHomeCurrency(p.amount_owed || 0, p.splits, currency);
       partnerMap[partnerId].splitCount++;
     }
   });
@@ -416,6 +457,7 @@ export async function exportToCSV(): Promise<string> {
         title,
         description,
         total_amount,
+        currency,
         created_at,
         creator_id
       )
@@ -455,7 +497,7 @@ export async function exportToCSV(): Promise<string> {
   });
 
   // CSV Header
-  const headers = ['Date', 'Title', 'Description', 'Total Amount', 'Your Share', 'Status', 'Created By', 'Type'];
+  const headers = ['Date', 'Title', 'Description', 'Total Amount', 'Your Share', 'Currency', 'Status', 'Created By', 'Type'];
 
   // CSV Rows
   const rows = participants.map((p: any) => {
@@ -470,6 +512,7 @@ export async function exportToCSV(): Promise<string> {
       `"${(split.description || '').replace(/"/g, '""')}"`,
       split.total_amount?.toFixed(2) || '0.00',
       p.amount_owed?.toFixed(2) || '0.00',
+      split.currency || DEFAULT_CURRENCY,
       p.status || 'pending',
       `"${creatorName.replace(/"/g, '""')}"`,
       isCreator ? 'Received' : 'Paid',
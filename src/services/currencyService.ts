@@ -0,0 +1,149 @@
+// ═══════════════════════════════════════════════════════════════
+// Currency Service - Exchange rate providers and home currency
+// ═══════════════════════════════════════════════════════════════
+
+import { supabase } from './supabase';
+import { DEFAULT_CURRENCY, ExchangeRateSnapshot, SUPPORTED_CURRENCIES } from '../utils/currency';
+
+/**
+ * Source of exchange rates. `getRates(base)` returns how many units of each
+ * currency one unit of `base` buys.
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  getRates(base: string): Promise<{ [currency: string]: number }>;
+}
+
+// Approximate AUD rates. Used offline, in development, and whenever the
+// live provider is unavailable, so split creation never blocks on rates.
+export const FIXED_AUD_RATES: { [currency: string]: number } = {
+  AUD: 1,
+  NZD: 1.09,
+  USD: 0.66,
+  CAD: 0.9,
+  EUR: 0.61,
+  GBP: 0.52,
+  SGD: 0.88,
+  THB: 23.6,
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Providers
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Provider backed by a fixed rate table, rebased to whatever base is asked for
+ */
+export function createFixedRateProvider(
+  table: { [currency: string]: number } = FIXED_AUD_RATES,
+  tableBase: string = DEFAULT_CURRENCY
+): ExchangeRateProvider {
+  return {
+    name: 'fixed',
+    async getRates(base: string) {
+      const baseRate = base === tableBase ? 1 : table[base];
+      if (!baseRate) throw new Error(`No fixed rate for ${base}`);
+
+      const rates: { [currency: string]: number } = {};
+      Object.entries(table).forEach(([currency, rate]) => {
+        rates[currency] = rate / baseRate;
+      });
+      rates[base] = 1;
+      return rates;
+    },
+  };
+}
+
+/**
+ * Provider that fetches live rates from an HTTP endpoint returning
+ * `{ rates: { [currency]: number } }`. `{base}` in the URL is replaced
+ * with the base currency code.
+ */
+export function createHttpRateProvider(urlTemplate: string): ExchangeRateProvider {
+  return {
+    name: 'http',
+    async getRates(base: string) {
+      const response = await fetch(urlTemplate.replace('{base}', encodeURIComponent(base)));
+      if (!response.ok) throw new Error(`Exchange rate request failed: ${response.status}`);
+
+      const body = await response.json();
+      if (!body?.rates || typeof body.rates !== 'object') {
+        throw new Error('Exchange rate response has no rates');
+      }
+      return { ...body.rates, [base]: 1 };
+    },
+  };
+}
+
+const exchangeRateUrl = process.env.EXPO_PUBLIC_EXCHANGE_RATE_URL || '';
+const fallbackProvider = createFixedRateProvider();
+let activeProvider: ExchangeRateProvider = exchangeRateUrl
+  ? createHttpRateProvider(exchangeRateUrl)
+  : fallbackProvider;
+
+/**
+ * Replace the rate provider (e.g. a fixed table in tests)
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider): void {
+  activeProvider = provider;
+}
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return activeProvider;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Snapshots
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Capture the current rates from `base` to every supported currency.
+ * Falls back to the fixed table if the active provider fails.
+ */
+export async function getRateSnapshot(base: string): Promise<ExchangeRateSnapshot> {
+  let provider = activeProvider;
+  let rates: { [currency: string]: number };
+
+  try {
+    rates = await provider.getRates(base);
+  } catch (error) {
+    console.warn('Exchange rate provider failed, using fixed rates:', error);
+    provider = fallbackProvider;
+    rates = await provider.getRates(base);
+  }
+
+  // Only keep the currencies we can display, to keep the stored snapshot small
+  const supported: { [currency: string]: number } = {};
+  SUPPORTED_CURRENCIES.forEach(({ code }) => {
+    if (rates[code]) supported[code] = rates[code];
+  });
+
+  return {
+    base,
+    rates: supported,
+    provider: provider.name,
+    captured_at: new Date().toISOString(),
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Home Currency
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Currency a user sees their shares and balances in
+ */
+export async function getHomeCurrency(userId: string): Promise<string> {
+  try {
+    const { data } = await supabase
+      .from('profiles')
+      .select('home_currency')
+      .eq('id', userId)
+      .single();
+
+    return data?.home_currency || DEFAULT_CURRENCY;
+  } catch (error) {
+    console.error('Error getting home currency:', error);
+    return DEFAULT_CURRENCY;
+  }
+}
@@ -3,6 +3,8 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { supabase } from './supabase';
+import { getFriendBalance } from './ledgerService';
+import { getRateLimitErrorMessage, isRateLimitError } from '../utils/rateLimiter';
 
 export interface Friend {
   id: string;
@@ -60,6 +62,7 @@ export interface FriendProfile {
   splits_together: number;
   total_you_owe: number;
   total_they_owe: number;
+  balance_currency: string;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -190,6 +193,9 @@ export async function sendFriendRequest(userId: string, friendId: string): Promi
     return { success: true };
   } catch (error: any) {
     console.error('Error sending friend request:', error);
+    if (isRateLimitError(error)) {
+      return { success: false, error: `You've sent a lot of friend requests recently. ${getRateLimitErrorMessage(error)}` };
+    }
     return { success: false, error: error.message || 'Failed to send request' };
   }
 }
@@ -319,8 +325,6 @@ export async function getFriendProfile(userId: string, friendId: string): Promis
 
     const userSplitIds = userSplits?.map(s => s.split_id) || [];
     let splitsTogether = 0;
-    let totalYouOwe = 0;
-    let totalTheyOwe = 0;
 
     if (userSplitIds.length > 0) {
       const { data: friendSplits } = await supabase
@@ -332,6 +336,8 @@ export async function getFriendProfile(userId: string, friendId: string): Promis
       splitsTogether = friendSplits?.length || 0;
     }
 
+    const balance = await getFriendBalance(userId, friendId);
+
     return {
       id: profile.id,
       email: profile.email,
@@ -341,8 +347,9 @@ export async function getFriendProfile(userId: string, friendId: string): Promis
       friendship_id: friendship.id,
       is_favorite: friendship.favorite,
       splits_together: splitsTogether,
-      total_you_owe: totalYouOwe,
-      total_they_owe: totalTheyOwe,
+      total_you_owe: balance.you_owe,
+      total_they_owe: balance.they_owe,
+      balance_currency: balance.currency,
     };
   } catch (error) {
     console.error('Error getting friend profile:', error);
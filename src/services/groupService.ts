@@ -3,6 +3,8 @@
 // ═══════════════════════════════════════════════════════════════
 
 import { supabase } from './supabase';
+import { calculateSettlements, Settlement } from '../utils/debtSimplification';
+import { convertAmount, DEFAULT_CURRENCY, ExchangeRateSnapshot } from '../utils/currency';
 
 export type GroupType = 'household' | 'trip' | 'event' | 'work' | 'custom';
 
@@ -14,7 +16,9 @@ export interface Group {
   created_by: string;
   type: GroupType;
   default_split_type: string;
+  default_share_weights: Record<string, number>; // user_id -> weight for shares splits, 1 if not listed
   simplify_debts: boolean;
+  currency: string;
   total_expenses: number;
   member_count: number;
   created_at: string;
@@ -108,6 +112,7 @@ export interface CreateGroupInput {
   name: string;
   description?: string;
   type?: GroupType;
+  currency?: string;
   memberIds: string[];
 }
 
@@ -123,6 +128,7 @@ export async function createGroup(
         name: input.name,
         description: input.description || null,
         type: input.type || 'custom',
+        ...(input.currency && { currency: input.currency }),
         created_by: userId,
         member_count: input.memberIds.length + 1,
       })
@@ -170,7 +176,7 @@ export async function createGroup(
 
 export async function updateGroup(
   groupId: string,
-  updates: Partial<Pick<Group, 'name' | 'description' | 'type'>>
+  updates: Partial<Pick<Group, 'name' | 'description' | 'type' | 'currency' | 'default_split_type' | 'default_share_weights'>>
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const { error } = await supabase
@@ -186,6 +192,17 @@ export async function updateGroup(
   }
 }
 
+/**
+ * A member's default weight for shares splits in the group
+ */
+export function getDefaultShareWeight(
+  group: Pick<Group, 'default_share_weights'>,
+  userId: string
+): number {
+  const weight = group.default_share_weights?.[userId];
+  return typeof weight === 'number' && weight >= 0 ? weight : 1;
+}
+
 export async function deleteGroup(groupId: string): Promise<{ success: boolean; error?: string }> {
   try {
     // Soft delete by setting archived_at
@@ -313,6 +330,7 @@ export interface GroupSplit {
   id: string;
   title: string;
   total_amount: number;
+  currency: string;
   status: string;
   created_at: string;
   created_by: string;
@@ -326,7 +344,7 @@ export async function getGroupSplits(groupId: string): Promise<GroupSplit[]> {
   try {
     const { data, error } = await supabase
       .from('splits')
-      .select('id, title, total_amount, status, created_at, created_by, creator:created_by (full_name, avatar_url)')
+      .select('id, title, total_amount, currency, status, created_at, created_by, creator:created_by (full_name, avatar_url)')
       .eq('group_id', groupId)
       .order('created_at', { ascending: false })
       .limit(50);
@@ -343,6 +361,73 @@ export async function getGroupSplits(groupId: string): Promise<GroupSplit[]> {
   }
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Debt Simplification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Simplified settlements for a group, in the group's currency. Splits in
+ * other currencies are converted at the rates captured when they were created.
+ */
+export async function getGroupSettlements(
+  groupId: string,
+  currency: string = DEFAULT_CURRENCY
+): Promise<Settlement[]> {
+  try {
+    const { data: splits, error } = await supabase
+      .from('splits')
+      .select('id, creator_id, status, currency, exchange_rates')
+      .eq('group_id', groupId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    if (!splits || splits.length === 0) return [];
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('split_participants')
+      .select('split_id, user_id, amount_owed, amount_paid')
+      .in('split_id', splits.map(s => s.id));
+
+    if (participantsError) throw participantsError;
+
+    return calculateSettlements(
+      splits.map(split => {
+        const toGroupCurrency = (amount: number) =>
+          convertToCurrency(amount, split.currency, currency, split.exchange_rates);
+
+        return {
+          creator_id: split.creator_id,
+          status: split.status,
+          participants: (participants || [])
+            .filter(p => p.split_id === split.id)
+            .map(p => ({
+              user_id: p.user_id,
+              amount_owed: toGroupCurrency(Number(p.amount_owed)),
+              amount_paid: toGroupCurrency(Number(p.amount_paid || 0)),
+            })),
+        };
+      })
+    );
+  } catch (error) {
+    console.error('Error getting group settlements:', error);
+    return [];
+  }
+}
+
+function convertToCurrency(
+  amount: number,
+  from: string | null,
+  to: string,
+  snapshot: ExchangeRateSnapshot | null
+): number {
+  try {
+    return convertAmount(amount, from || DEFAULT_CURRENCY, to, snapshot);
+  } catch (error) {
+    console.warn('Missing exchange rate, using unconverted amount:', error);
+    return amount;
+  }
+}
+
 export async function isUserGroupAdmin(groupId: string, userId: string): Promise<boolean> {
   try {
     const { data, error } = await supabase
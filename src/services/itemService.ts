@@ -1,6 +1,12 @@
 import { supabase } from './supabase';
-import { ReceiptItem } from '../types/receipt';
-import { UserItemSelections, calculateYourItemShare } from '../utils/splitCalculations';
+import { ReceiptAdjustment, ReceiptItem } from '../types/receipt';
+import {
+  UserItemSelections,
+  calculateAdjustmentsTotal,
+  calculateYourItemShare,
+  getAdjustmentCents,
+} from '../utils/splitCalculations';
+import { allocateCents, Cents, fromCents, splitCentsEvenly, sumCents, toCents } from '../utils/money';
 
 /**
  * Item Service
@@ -33,6 +39,7 @@ export interface ItemAssignment {
 }
 
 export interface CreateSplitItemData {
+  id?: string; // Client-generated when item assignments are created alongside
   split_id: string;
   name: string;
   unit_price: number; // Price per single item
@@ -62,14 +69,7 @@ export async function createSplitItems(
   splitId: string,
   items: ReceiptItem[]
 ): Promise<SplitItem[]> {
-  // Prepare items for insertion
-  const itemsData: CreateSplitItemData[] = items.map((item) => ({
-    split_id: splitId,
-    name: item.name,
-    unit_price: item.price,
-    quantity: item.quantity,
-    total_price: item.price * item.quantity, // Calculate total
-  }));
+  const itemsData = buildSplitItems(splitId, items);
 
   // Insert all items
   const { data, error } = await supabase
@@ -83,6 +83,29 @@ export async function createSplitItems(
   return data;
 }
 
+/**
+ * Turn receipt items into split item rows
+ *
+ * @param splitId - ID of the split these items belong to
+ * @param items - Receipt items
+ * @param generateId - Gives each row an ID up front, so assignments can point at it before it's saved
+ * @returns Rows ready to insert
+ */
+export function buildSplitItems(
+  splitId: string,
+  items: ReceiptItem[],
+  generateId?: () => string
+): CreateSplitItemData[] {
+  return items.map((item) => ({
+    ...(generateId && { id: generateId() }),
+    split_id: splitId,
+    name: item.name,
+    unit_price: item.price,
+    quantity: item.quantity,
+    total_price: fromCents(Math.round(toCents(item.price) * item.quantity)), // Calculate total
+  }));
+}
+
 /**
  * Get all items for a split
  *
@@ -170,9 +193,39 @@ export async function createUserItemAssignments(
   receiptItems: ReceiptItem[],
   selections: UserItemSelections
 ): Promise<ItemAssignment[]> {
+  const assignments = buildUserItemAssignments(userId, splitItems, receiptItems, selections);
+
+  if (assignments.length === 0) {
+    return []; // No items selected
+  }
+
+  // Insert all assignments
+  const { data, error } = await supabase
+    .from('item_assignments')
+    .insert(assignments)
+    .select();
+
+  if (error) throw error;
+  if (!data) throw new Error('Failed to create item assignments');
+
+  return data;
+}
+
+/**
+ * Work out a user's item assignments from their selections, one per item
+ * they selected
+ *
+ * @param splitItems - Split items (with IDs, saved or not)
+ * @returns Assignment rows ready to insert
+ */
+export function buildUserItemAssignments(
+  userId: string,
+  splitItems: Pick<SplitItem, 'id' | 'name' | 'unit_price' | 'total_price'>[],
+  receiptItems: ReceiptItem[],
+  selections: UserItemSelections
+): CreateItemAssignmentData[] {
   const assignments: CreateItemAssignmentData[] = [];
 
-  // Build assignments array
   splitItems.forEach((splitItem) => {
     // Find matching receipt item by name and price
     const receiptItem = receiptItems.find(
@@ -193,24 +246,11 @@ export async function createUserItemAssignments(
       item_id: splitItem.id,
       user_id: userId,
       share: sharePercentage,
-      amount: yourShare,
+      amount: fromCents(toCents(yourShare)),
     });
   });
 
-  if (assignments.length === 0) {
-    return []; // No items selected
-  }
-
-  // Insert all assignments
-  const { data, error } = await supabase
-    .from('item_assignments')
-    .insert(assignments)
-    .select();
-
-  if (error) throw error;
-  if (!data) throw new Error('Failed to create item assignments');
-
-  return data;
+  return assignments;
 }
 
 /**
@@ -288,6 +328,110 @@ export async function deleteItemAssignments(splitId: string): Promise<void> {
   if (error) throw error;
 }
 
+// ============================================================================
+// ITEM CLAIMS
+// ============================================================================
+
+/**
+ * Someone claiming (part of) a receipt item for themselves
+ *
+ * A claim of quantity_claimed units shared between share_count people
+ * uses quantity_claimed / share_count of the item.
+ */
+export interface ItemClaim {
+  id: string;
+  split_id: string;
+  item_id: string | null; // null for claims made before item_id was recorded
+  item_index: number;
+  item_name: string;
+  item_amount: number;
+  claimed_by_email: string;
+  claimed_by_name: string;
+  claimed_by_user_id: string | null;
+  share_count: number;
+  quantity_claimed?: number;
+}
+
+export type NewItemClaim = Omit<ItemClaim, 'id'>;
+
+/**
+ * The server rejected a claim because someone else claimed the item first
+ */
+export class ItemClaimConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ItemClaimConflictError';
+  }
+}
+
+/**
+ * How much of an item a set of claims uses, in units of the item
+ */
+export function getClaimedUnits(claims: ItemClaim[]): number {
+  return claims.reduce(
+    (sum, claim) => sum + (claim.quantity_claimed || 1) / Math.max(claim.share_count || 1, 1),
+    0
+  );
+}
+
+/**
+ * Get all claims for a split
+ *
+ * @param splitId - ID of the split
+ */
+export async function getItemClaims(splitId: string): Promise<ItemClaim[]> {
+  const { data, error } = await supabase
+    .from('item_claims')
+    .select('*')
+    .eq('split_id', splitId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save a user's claims, replacing any they already have on those items
+ *
+ * The database checks each claim against what's left of the item, so two
+ * people can't claim the last one at the same time.
+ *
+ * @throws ItemClaimConflictError if an item no longer has enough left
+ */
+export async function saveItemClaims(claims: NewItemClaim[]): Promise<void> {
+  const { error } = await supabase
+    .from('item_claims')
+    .upsert(claims, {
+      onConflict: 'split_id,item_index,claimed_by_user_id',
+      ignoreDuplicates: false,
+    });
+
+  if (error) {
+    // check_violation, raised by enforce_item_claim_limit()
+    if (error.code === '23514') throw new ItemClaimConflictError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Call `onChange` whenever anyone adds, changes or removes a claim on a split
+ *
+ * @returns A function that stops listening
+ */
+export function subscribeToItemClaims(splitId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`item-claims-${splitId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'item_claims', filter: `split_id=eq.${splitId}` },
+      () => { onChange(); }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
 // ============================================================================
 // CALCULATIONS
 // ============================================================================
@@ -297,105 +441,233 @@ export async function deleteItemAssignments(splitId: string): Promise<void> {
  *
  * This sums:
  * - All their item shares (from assignments)
+ * - Their share of any adjustments
  * - Their proportional share of tax
  * - Their proportional share of tip
  *
+ * Uses the same allocation as getSplitParticipantTotals(), so a user's
+ * total always matches their row there.
+ *
  * @param splitId - ID of the split
  * @param userId - User ID
  * @param tax - Total tax amount
  * @param tip - Total tip amount
+ * @param adjustments - Adjustments (item-level ones by split item ID); defaults to the split's own
  * @returns Total amount user owes
  */
 export async function calculateUserTotal(
   splitId: string,
   userId: string,
   tax: number,
-  tip: number
+  tip: number,
+  adjustments?: ReceiptAdjustment[]
 ): Promise<{
   subtotal: number;
+  adjustments: number;
   tax: number;
   tip: number;
   total: number;
 }> {
-  // Get user's assignments
-  const assignments = await getUserItemAssignments(splitId, userId);
+  const totals = await getSplitParticipantTotals(splitId, tax, tip, adjustments);
+  const userTotal = totals.find((total) => total.user_id === userId);
 
-  // Calculate subtotal from items
-  const subtotal = assignments.reduce((sum, assignment) => {
-    return sum + assignment.amount;
-  }, 0);
+  if (!userTotal) {
+    return { subtotal: 0, adjustments: 0, tax: 0, tip: 0, total: 0 };
+  }
 
-  // Get all items to calculate receipt subtotal
-  const allItems = await getSplitItems(splitId);
-  const receiptSubtotal = allItems.reduce((sum, item) => {
-    return sum + item.total_price;
-  }, 0);
-
-  // Calculate proportional tax and tip
-  const proportion = receiptSubtotal > 0 ? subtotal / receiptSubtotal : 0;
-  const userTax = tax * proportion;
-  const userTip = tip * proportion;
-
-  return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    tax: Math.round(userTax * 100) / 100,
-    tip: Math.round(userTip * 100) / 100,
-    total: Math.round((subtotal + userTax + userTip) * 100) / 100,
-  };
+  const { user_id, ...breakdown } = userTotal;
+  return breakdown;
 }
 
 /**
  * Get summary of all participants and their totals for a receipt split
  *
+ * Tax and tip are divided in proportion to each person's items, with
+ * unassigned items holding their share back, so once every item is
+ * assigned the totals add up to exactly the receipt total. Item-level
+ * adjustments are shared like the item; bill-level ones like tax and tip,
+ * or evenly between everyone with items if they're split equally.
+ *
  * @param splitId - ID of the split
  * @param tax - Total tax amount
  * @param tip - Total tip amount
- * @returns Array of { userId, subtotal, tax, tip, total }
+ * @param adjustments - Adjustments (item-level ones by split item ID); defaults to the split's own
+ * @returns Array of { userId, subtotal, adjustments, tax, tip, total }
  */
 export async function getSplitParticipantTotals(
   splitId: string,
   tax: number,
-  tip: number
+  tip: number,
+  adjustments?: ReceiptAdjustment[]
 ): Promise<Array<{
   user_id: string;
   subtotal: number;
+  adjustments: number;
   tax: number;
   tip: number;
   total: number;
 }>> {
   // Get all assignments for this split
   const assignments = await getItemAssignments(splitId);
+  const receiptAdjustments = adjustments ?? await getSplitAdjustments(splitId);
 
   // Group by user
-  const userTotals = new Map<string, number>();
+  const userSubtotals = new Map<string, number>();
 
   assignments.forEach((assignment) => {
-    const current = userTotals.get(assignment.user_id) || 0;
-    userTotals.set(assignment.user_id, current + assignment.amount);
+    const current = userSubtotals.get(assignment.user_id) || 0;
+    userSubtotals.set(assignment.user_id, current + toCents(assignment.amount));
   });
 
   // Get receipt subtotal
   const allItems = await getSplitItems(splitId);
-  const receiptSubtotal = allItems.reduce((sum, item) => {
-    return sum + item.total_price;
-  }, 0);
+  const receiptSubtotal = sumCents(allItems.map((item) => toCents(item.total_price)));
+
+  const userIds = Array.from(userSubtotals.keys());
+  const subtotals = userIds.map((userId) => userSubtotals.get(userId) || 0);
+  const unassigned = Math.max(receiptSubtotal - sumCents(subtotals), 0);
+
+  // The last weight is the unassigned items' share, which nobody owes yet
+  const allocate = (amount: number) =>
+    receiptSubtotal > 0
+      ? allocateCents(toCents(amount), [...subtotals, unassigned])
+      : subtotals.map(() => 0);
+  const taxShares = allocate(tax);
+  const tipShares = allocate(tip);
+
+  const receiptItems = toReceiptItems(allItems);
+  const adjustmentShares = userIds.map(() => 0);
+
+  receiptAdjustments.forEach((adjustment) => {
+    const amountCents = getAdjustmentCents(adjustment, receiptItems);
+    let shares: number[];
+
+    if (adjustment.scope === 'item') {
+      // Shared like the item, with the unclaimed part held back
+      const item = allItems.find((candidate) => candidate.id === adjustment.itemId);
+      const itemShares = userIds.map((userId) =>
+        sumCents(
+          assignments
+            .filter((assignment) => assignment.item_id === adjustment.itemId && assignment.user_id === userId)
+            .map((assignment) => toCents(assignment.amount))
+        )
+      );
+      const itemUnassigned = Math.max(toCents(item?.total_price ?? 0) - sumCents(itemShares), 0);
+      shares = sumCents(itemShares) + itemUnassigned > 0
+        ? allocateCents(amountCents, [...itemShares, itemUnassigned])
+        : userIds.map(() => 0);
+    } else if (adjustment.distribution === 'equal') {
+      shares = splitCentsEvenly(amountCents, userIds.length);
+    } else {
+      shares = allocate(fromCents(amountCents));
+    }
+
+    userIds.forEach((_, index) => {
+      adjustmentShares[index] += shares[index] || 0;
+    });
+  });
 
-  // Calculate totals for each user
-  const results = Array.from(userTotals.entries()).map(([userId, subtotal]) => {
-    const proportion = receiptSubtotal > 0 ? subtotal / receiptSubtotal : 0;
-    const userTax = tax * proportion;
-    const userTip = tip * proportion;
+  return userIds.map((userId, index) => ({
+    user_id: userId,
+    subtotal: fromCents(subtotals[index]),
+    adjustments: fromCents(adjustmentShares[index]),
+    tax: fromCents(taxShares[index]),
+    tip: fromCents(tipShares[index]),
+    total: fromCents(subtotals[index] + adjustmentShares[index] + taxShares[index] + tipShares[index]),
+  }));
+}
 
-    return {
-      user_id: userId,
-      subtotal: Math.round(subtotal * 100) / 100,
-      tax: Math.round(userTax * 100) / 100,
-      tip: Math.round(userTip * 100) / 100,
-      total: Math.round((subtotal + userTax + userTip) * 100) / 100,
-    };
-  });
+/**
+ * What a receipt split's total adds on top of its items and adjustments
+ * (tax and tip), in cents
+ *
+ * @param totalAmount - The split's total
+ * @param items - All the split's items
+ * @param adjustments - The split's adjustments (item-level ones by split item ID)
+ */
+export function getReceiptExtrasCents(
+  totalAmount: number,
+  items: SplitItem[],
+  adjustments: ReceiptAdjustment[] = []
+): Cents {
+  const itemsCents = sumCents(items.map((item) => toCents(Number(item.total_price))));
+  const adjustmentsCents = toCents(calculateAdjustmentsTotal(toReceiptItems(items), adjustments));
+  return toCents(totalAmount) - itemsCents - adjustmentsCents;
+}
+
+/**
+ * What a set of item claims comes to with its share of the adjustments
+ * and extras, in cents
+ *
+ * Claims are divided by share_count. Item-level adjustments follow the
+ * claimed part of their item. Bill-level adjustments and `extrasCents`
+ * are divided in proportion to the claimed items against every item on
+ * the receipt, since who else will claim isn't known yet.
+ *
+ * @param claims - Claims to total (e.g. one person's)
+ * @param items - All the split's items
+ * @param adjustments - The split's adjustments (item-level ones by split item ID)
+ * @param extrasCents - Tax and tip to share as well (see getReceiptExtrasCents)
+ * @returns Total in cents
+ */
+export function getClaimsTotalCents(
+  claims: Pick<ItemClaim, 'item_id' | 'item_amount' | 'share_count'>[],
+  items: SplitItem[],
+  adjustments: ReceiptAdjustment[] = [],
+  extrasCents: Cents = 0
+): Cents {
+  const claimCents = (claim: Pick<ItemClaim, 'item_amount' | 'share_count'>) =>
+    Math.round(toCents(Number(claim.item_amount)) / (claim.share_count || 1));
+  const claimedCents = sumCents(claims.map(claimCents));
+  const itemsCents = sumCents(items.map((item) => toCents(Number(item.total_price))));
+
+  // The claimed part of an amount shared between what's claimed and the rest
+  const claimedShare = (amountCents: Cents, claimed: Cents, total: Cents): Cents =>
+    total > 0 ? allocateCents(amountCents, [claimed, Math.max(total - claimed, 0)])[0] : 0;
+
+  const receiptItems = toReceiptItems(items);
+  const adjustmentCents = sumCents(
+    adjustments.map((adjustment) => {
+      const amountCents = getAdjustmentCents(adjustment, receiptItems);
+      if (adjustment.scope === 'bill') return claimedShare(amountCents, claimedCents, itemsCents);
+
+      const item = items.find((candidate) => candidate.id === adjustment.itemId);
+      if (!item) return 0;
+
+      const claimedItemCents = sumCents(claims.filter((claim) => claim.item_id === item.id).map(claimCents));
+      return claimedShare(amountCents, claimedItemCents, toCents(Number(item.total_price)));
+    })
+  );
+
+  return claimedCents + adjustmentCents + claimedShare(extrasCents, claimedCents, itemsCents);
+}
+
+/**
+ * Get the adjustments saved on a split (item-level ones by split item ID)
+ *
+ * @param splitId - ID of the split
+ */
+export async function getSplitAdjustments(splitId: string): Promise<ReceiptAdjustment[]> {
+  const { data, error } = await supabase
+    .from('splits')
+    .select('receipt_adjustments')
+    .eq('id', splitId)
+    .single();
 
-  return results;
+  if (error) throw error;
+  return data?.receipt_adjustments || [];
+}
+
+/**
+ * Split items in the shape the receipt calculations take
+ */
+function toReceiptItems(items: SplitItem[]): ReceiptItem[] {
+  return items.map((item) => ({
+    id: item.id,
+    name: item.name,
+    price: Number(item.unit_price),
+    quantity: item.quantity,
+  }));
 }
 
 // ============================================================================
@@ -0,0 +1,264 @@
+// ═══════════════════════════════════════════════════════════════
+// Ledger Service - Net balances between you and each friend
+// ═══════════════════════════════════════════════════════════════
+
+import { supabase } from './supabase';
+import { getHomeCurrency } from './currencyService';
+import { fromCents, toCents } from '../utils/money';
+import { convertAmount, DEFAULT_CURRENCY, ExchangeRateSnapshot } from '../utils/currency';
+
+export interface FriendBalance {
+  friend_id: string;
+  you_owe: number;
+  they_owe: number;
+  net: number; // Positive = they owe you, negative = you owe them
+  split_count: number;
+  currency: string; // Currency all amounts are converted to
+  full_name?: string;
+  avatar_url?: string | null;
+}
+
+export interface LedgerSplit {
+  id: string;
+  creator_id: string;
+  status: string;
+  currency?: string | null;
+  exchange_rates?: ExchangeRateSnapshot | null;
+  participants: {
+    user_id: string | null;
+    amount_owed: number;
+    amount_paid: number;
+  }[];
+  web_payments: {
+    payer_email: string | null;
+    amount: number;
+  }[];
+}
+
+/**
+ * Convert an amount in a split's currency to the ledger currency (in cents)
+ * using the rates captured when that split was created
+ */
+function toLedgerCents(cents: number, split: LedgerSplit, currency: string): number {
+  try {
+    return toCents(
+      convertAmount(fromCents(cents), split.currency || DEFAULT_CURRENCY, currency, split.exchange_rates)
+    );
+  } catch (error) {
+    console.warn('Missing exchange rate for split, using unconverted amount:', split.id, error);
+    return cents;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Balance Calculation
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Net the outstanding amounts between a user and everyone they split with.
+ * A participant row owes the split creator `amount_owed - amount_paid`, less
+ * any settled web payments made from that participant's email address.
+ * A row that has paid more than it owes (after the split was edited) is
+ * a credit the creator owes back. Each split's outstanding amount is
+ * converted to `currency` first.
+ */
+export function calculateFriendBalances(
+  userId: string,
+  splits: LedgerSplit[],
+  emailsByUserId: Record<string, string>,
+  currency: string = DEFAULT_CURRENCY
+): FriendBalance[] {
+  const youOweCents: Record<string, number> = {};
+  const theyOweCents: Record<string, number> = {};
+  const splitCounts: Record<string, number> = {};
+
+  for (const split of splits) {
+    if (split.status !== 'active') continue;
+
+    const webPaidCents: Record<string, number> = {};
+    for (const wp of split.web_payments) {
+      const email = wp.payer_email?.toLowerCase();
+      if (!email) continue;
+      webPaidCents[email] = (webPaidCents[email] || 0) + toCents(Number(wp.amount));
+    }
+
+    const counterparties = new Set<string>();
+
+    for (const p of split.participants) {
+      if (!p.user_id || p.user_id === split.creator_id) continue;
+
+      // Only rows between the user and someone else matter
+      let friendId: string;
+      if (split.creator_id === userId) {
+        friendId = p.user_id;
+      } else if (p.user_id === userId) {
+        friendId = split.creator_id;
+      } else {
+        continue;
+      }
+
+      counterparties.add(friendId);
+
+      const payerEmail = emailsByUserId[p.user_id]?.toLowerCase();
+      const webPaid = payerEmail ? webPaidCents[payerEmail] || 0 : 0;
+      const unpaid = toCents(Number(p.amount_owed)) - toCents(Number(p.amount_paid || 0));
+      // Web payments only count against what's still owed; a negative
+      // amount is a credit left by an edit, owed back by the creator
+      const outstanding = unpaid > 0 ? Math.max(0, unpaid - webPaid) : unpaid;
+
+      if (outstanding === 0) continue;
+
+      const converted = toLedgerCents(Math.abs(outstanding), split, currency);
+      const participantOwes = outstanding > 0;
+
+      if ((split.creator_id === userId) === participantOwes) {
+        theyOweCents[friendId] = (theyOweCents[friendId] || 0) + converted;
+      } else {
+        youOweCents[friendId] = (youOweCents[friendId] || 0) + converted;
+      }
+    }
+
+    counterparties.forEach(friendId => {
+      splitCounts[friendId] = (splitCounts[friendId] || 0) + 1;
+    });
+  }
+
+  return Object.keys(splitCounts).map(friendId => {
+    const youOwe = youOweCents[friendId] || 0;
+    const theyOwe = theyOweCents[friendId] || 0;
+    return {
+      friend_id: friendId,
+      you_owe: fromCents(youOwe),
+      they_owe: fromCents(theyOwe),
+      net: fromCents(theyOwe - youOwe),
+      split_count: splitCounts[friendId],
+      currency,
+    };
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Get Balances
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function getLedgerSplits(userId: string): Promise<LedgerSplit[]> {
+  const { data: participantRows, error: participantError } = await supabase
+    .from('split_participants')
+    .select('split_id')
+    .eq('user_id', userId);
+
+  if (participantError) throw participantError;
+
+  const participantSplitIds = (participantRows || []).map(p => p.split_id);
+
+  const { data: createdSplits, error: createdError } = await supabase
+    .from('splits')
+    .select('id, creator_id, status, currency, exchange_rates')
+    .eq('creator_id', userId)
+    .eq('status', 'active');
+
+  if (createdError) throw createdError;
+
+  let participatedSplits: Omit<LedgerSplit, 'participants' | 'web_payments'>[] = [];
+  if (participantSplitIds.length > 0) {
+    const { data, error } = await supabase
+      .from('splits')
+      .select('id, creator_id, status, currency, exchange_rates')
+      .in('id', participantSplitIds)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    participatedSplits = data || [];
+  }
+
+  const splits = Array.from(
+    new Map([...(createdSplits || []), ...participatedSplits].map(s => [s.id, s])).values()
+  );
+  if (splits.length === 0) return [];
+
+  const splitIds = splits.map(s => s.id);
+
+  const { data: participants, error: participantsError } = await supabase
+    .from('split_participants')
+    .select('split_id, user_id, amount_owed, amount_paid')
+    .in('split_id', splitIds);
+
+  if (participantsError) throw participantsError;
+
+  const { data: webPayments } = await supabase
+    .from('web_payments')
+    .select('split_id, payer_email, amount')
+    .in('split_id', splitIds)
+    .eq('status', 'settled');
+
+  return splits.map(split => ({
+    ...split,
+    participants: (participants || []).filter(p => p.split_id === split.id),
+    web_payments: (webPayments || []).filter(wp => wp.split_id === split.id),
+  }));
+}
+
+/**
+ * Get the net balance between a user and every person they share an active split with.
+ * Amounts are in `currency`, defaulting to the user's home currency.
+ */
+export async function getFriendBalances(userId: string, currency?: string): Promise<FriendBalance[]> {
+  try {
+    const ledgerCurrency = currency || (await getHomeCurrency(userId));
+    const splits = await getLedgerSplits(userId);
+    if (splits.length === 0) return [];
+
+    // Emails are needed to attribute web payments to registered users
+    const userIds = new Set<string>();
+    splits.forEach(split => {
+      userIds.add(split.creator_id);
+      split.participants.forEach(p => p.user_id && userIds.add(p.user_id));
+    });
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, email, full_name, avatar_url')
+      .in('id', Array.from(userIds));
+
+    const emailsByUserId: Record<string, string> = {};
+    (profiles || []).forEach(p => {
+      if (p.email) emailsByUserId[p.id] = p.email;
+    });
+
+    return calculateFriendBalances(userId, splits, emailsByUserId, ledgerCurrency)
+      .map(balance => {
+        const profile = profiles?.find(p => p.id === balance.friend_id);
+        return {
+          ...balance,
+          full_name: profile?.full_name || 'Unknown',
+          avatar_url: profile?.avatar_url || null,
+        };
+      })
+      .sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+  } catch (error) {
+    console.error('Error getting friend balances:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the net balance between a user and a single friend
+ */
+export async function getFriendBalance(
+  userId: string,
+  friendId: string,
+  currency?: string
+): Promise<FriendBalance> {
+  const ledgerCurrency = currency || (await getHomeCurrency(userId));
+  const balances = await getFriendBalances(userId, ledgerCurrency);
+  return (
+    balances.find(b => b.friend_id === friendId) || {
+      friend_id: friendId,
+      you_owe: 0,
+      they_owe: 0,
+      net: 0,
+      split_count: 0,
+      currency: ledgerCurrency,
+    }
+  );
+}
@@ -19,6 +19,8 @@ export type NotificationType =
   | 'payment_received'
   | 'payment_sent'
   | 'payment_reminder'
+  | 'payment_refunded'
+  | 'payment_disputed'
   | 'friend_request'
   | 'friend_accepted'
   | 'group_invite'
@@ -368,6 +370,22 @@ export async function notifySplitCreated(
   }
 }
 
+export async function notifySplitUpdated(
+  userId: string,
+  splitTitle: string,
+  message: string,
+  splitId: string
+): Promise<void> {
+  await createNotification(
+    userId,
+    'split_updated',
+    `"${splitTitle}" Updated`,
+    message,
+    { splitId },
+    `/splits/${splitId}`
+  );
+}
+
 export async function notifyPaymentRequested(
   userId: string,
   amount: number,
@@ -434,6 +452,26 @@ export async function notifyPaymentReminder(
   );
 }
 
+export async function notifyInstalmentDue(
+  userId: string,
+  amount: number,
+  splitTitle: string,
+  splitId: string,
+  instalmentNumber: number,
+  instalmentCount: number,
+  daysOverdue: number
+): Promise<void> {
+  const urgency = daysOverdue >= 7 ? '⚠️ ' : '';
+  await createNotification(
+    userId,
+    'payment_reminder',
+    `${urgency}Instalment ${daysOverdue > 0 ? 'Overdue' : 'Due'}`,
+    `Instalment ${instalmentNumber} of ${instalmentCount}: $${amount.toFixed(2)} for "${splitTitle}"`,
+    { splitId, amount, instalmentNumber, daysOverdue },
+    `/splits/${splitId}/pay`
+  );
+}
+
 export async function notifyFriendRequest(
   userId: string,
   requesterName: string,
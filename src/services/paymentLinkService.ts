@@ -0,0 +1,370 @@
+// ═══════════════════════════════════════════════════════════════
+// Payment Link Service - Shareable links to claim items and pay
+// ═══════════════════════════════════════════════════════════════
+// Each split has at most one active split-wide link (zapsplit.com.au/pay/CODE),
+// where people pick their items and pay. Equal, custom and percentage
+// splits can also have a link per participant that opens straight to
+// their share, so people without an account can pay it.
+// Creators can give a link an expiry, revoke it, or regenerate it with a
+// new code, and see how many people opened it, claimed items and paid.
+// Links stop working on their own once the split settles.
+
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+
+export const WEB_BASE_URL = 'https://zapsplit.com.au';
+
+const SHORT_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excluded confusing chars: 0, O, I, 1
+const SHORT_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export type PaymentLinkDeactivatedReason = 'revoked' | 'regenerated' | 'settled' | 'expired';
+
+export interface PaymentLink {
+  id: string;
+  split_id: string;
+  participant_id: string | null; // null for the split-wide link
+  short_code: string;
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  is_active: boolean;
+  deactivated_at: string | null;
+  deactivated_reason: PaymentLinkDeactivatedReason | null;
+}
+
+export interface PaymentLinkStats {
+  opens: number;
+  claims: number; // distinct people who claimed items through the link
+  payments: number;
+  amountPaid: number; // AUD
+}
+
+export interface PaymentLinkWithStats extends PaymentLink {
+  url: string;
+  stats: PaymentLinkStats;
+}
+
+export type PaymentLinkExpiry = 'never' | '24h' | '7d' | '30d';
+
+export const PAYMENT_LINK_EXPIRY_OPTIONS: { value: PaymentLinkExpiry; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+];
+
+const EXPIRY_HOURS: Record<Exclude<PaymentLinkExpiry, 'never'>, number> = {
+  '24h': 24,
+  '7d': 24 * 7,
+  '30d': 24 * 30,
+};
+
+/**
+ * Generate a random short code for payment links
+ *
+ * The alphabet has 32 characters, so each random byte maps onto it
+ * without bias.
+ */
+function generateShortCode(length: number = SHORT_CODE_LENGTH): string {
+  const bytes = Crypto.getRandomBytes(length);
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += SHORT_CODE_CHARS.charAt(bytes[i] % SHORT_CODE_CHARS.length);
+  }
+  return code;
+}
+
+/**
+ * Turn an expiry choice into a timestamp (null for links that never expire)
+ */
+export function getExpiryDate(expiry: PaymentLinkExpiry, from: Date = new Date()): string | null {
+  if (expiry === 'never') return null;
+  return new Date(from.getTime() + EXPIRY_HOURS[expiry] * 60 * 60 * 1000).toISOString();
+}
+
+export function getPaymentLinkUrl(shortCode: string): string {
+  return `${WEB_BASE_URL}/pay/${shortCode}`;
+}
+
+/**
+ * Whether a link can still be opened
+ */
+export function isPaymentLinkLive(link: PaymentLink, now: Date = new Date()): boolean {
+  return link.is_active && (!link.expires_at || new Date(link.expires_at) > now);
+}
+
+/**
+ * Run a request that saves a new short code, retrying with a fresh code
+ * if it's already taken
+ *
+ * The server enforces unique short codes, so a clash fails the request
+ * with a unique violation and nothing is saved.
+ */
+export async function withFreshShortCode<T>(
+  request: (shortCode: string) => PromiseLike<{ data: T | null; error: any }>
+): Promise<T> {
+  let lastError: any = null;
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const { data, error } = await request(generateShortCode());
+
+    if (!error) return data as T;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+    lastError = error;
+  }
+
+  throw lastError;
+}
+
+/**
+ * Create a new active link, replacing the one it's for (the split-wide
+ * link, or the participant's link)
+ */
+async function createPaymentLink(
+  target: { splitId: string } | { participantId: string },
+  expiresAt: string | null
+): Promise<PaymentLink> {
+  return withFreshShortCode<PaymentLink>(shortCode =>
+    'participantId' in target
+      ? supabase.rpc('create_participant_payment_link', {
+          p_participant_id: target.participantId,
+          p_short_code: shortCode,
+          p_expires_at: expiresAt,
+        })
+      : supabase.rpc('create_payment_link', {
+          p_split_id: target.splitId,
+          p_short_code: shortCode,
+          p_expires_at: expiresAt,
+        })
+  );
+}
+
+/**
+ * Get or create a payment link for a split
+ * If a live link already exists, return it. Otherwise, create a new one.
+ *
+ * @param expiry - Expiry for a newly created link; an existing link keeps its own
+ */
+export async function getOrCreatePaymentLink(
+  splitId: string,
+  creatorId: string,
+  expiry: PaymentLinkExpiry = 'never'
+): Promise<{ link: PaymentLink; url: string } | null> {
+  try {
+    // Check if a payment link already exists for this split
+    const { data: existingLink } = await supabase
+      .from('payment_links')
+      .select('*')
+      .eq('split_id', splitId)
+      .eq('created_by', creatorId)
+      .is('participant_id', null)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (existingLink && isPaymentLinkLive(existingLink)) {
+      return {
+        link: existingLink,
+        url: getPaymentLinkUrl(existingLink.short_code),
+      };
+    }
+
+    const newLink = await createPaymentLink({ splitId }, getExpiryDate(expiry));
+
+    return {
+      link: newLink,
+      url: getPaymentLinkUrl(newLink.short_code),
+    };
+  } catch (error) {
+    console.error('Failed to get or create payment link:', error);
+    return null;
+  }
+}
+
+/**
+ * Get or create the link that opens straight to one participant's share
+ *
+ * @returns The link, or an error (e.g. for receipt splits, or a share
+ * that's already paid)
+ */
+export async function getOrCreateParticipantPaymentLink(
+  participantId: string,
+  expiry: PaymentLinkExpiry = 'never'
+): Promise<{ success: boolean; link?: PaymentLink; url?: string; error?: string }> {
+  try {
+    const { data: existingLink } = await supabase
+      .from('payment_links')
+      .select('*')
+      .eq('participant_id', participantId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    const link = existingLink && isPaymentLinkLive(existingLink)
+      ? existingLink
+      : await createPaymentLink({ participantId }, getExpiryDate(expiry));
+
+    return { success: true, link, url: getPaymentLinkUrl(link.short_code) };
+  } catch (error: any) {
+    console.error('Error getting participant payment link:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to create payment link',
+    };
+  }
+}
+
+/**
+ * Replace a split's link with a new code; the old one stops working
+ */
+export async function regeneratePaymentLink(
+  splitId: string,
+  expiry: PaymentLinkExpiry = 'never'
+): Promise<{ success: boolean; link?: PaymentLink; url?: string; error?: string }> {
+  try {
+    const link = await createPaymentLink({ splitId }, getExpiryDate(expiry));
+
+    return { success: true, link, url: getPaymentLinkUrl(link.short_code) };
+  } catch (error: any) {
+    console.error('Error regenerating payment link:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to regenerate payment link',
+    };
+  }
+}
+
+/**
+ * Stop a link from working without creating a new one
+ */
+export async function revokePaymentLink(linkId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('payment_links')
+      .update({
+        is_active: false,
+        deactivated_at: new Date().toISOString(),
+        deactivated_reason: 'revoked',
+      })
+      .eq('id', linkId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error revoking payment link:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to revoke payment link',
+    };
+  }
+}
+
+/**
+ * Change when an active link expires, counted from now
+ */
+export async function setPaymentLinkExpiry(
+  linkId: string,
+  expiry: PaymentLinkExpiry
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('payment_links')
+      .update({ expires_at: getExpiryDate(expiry) })
+      .eq('id', linkId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error updating payment link expiry:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update link expiry',
+    };
+  }
+}
+
+/**
+ * Get every split-wide link created for a split with its analytics,
+ * newest first
+ */
+export async function getPaymentLinks(splitId: string): Promise<PaymentLinkWithStats[]> {
+  try {
+    const { data: links, error } = await supabase
+      .from('payment_links')
+      .select('*')
+      .eq('split_id', splitId)
+      .is('participant_id', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    if (!links || links.length === 0) return [];
+
+    const { data: events, error: eventsError } = await supabase
+      .from('payment_link_events')
+      .select('payment_link_id, event_type, user_id, amount')
+      .in('payment_link_id', links.map(link => link.id));
+
+    if (eventsError) throw eventsError;
+
+    return links.map((link: PaymentLink) => {
+      const linkEvents = (events || []).filter(e => e.payment_link_id === link.id);
+      const claimants = new Set(
+        linkEvents.filter(e => e.event_type === 'claim').map(e => e.user_id || 'anonymous')
+      );
+      const payments = linkEvents.filter(e => e.event_type === 'pay');
+
+      return {
+        ...link,
+        url: getPaymentLinkUrl(link.short_code),
+        stats: {
+          opens: linkEvents.filter(e => e.event_type === 'open').length,
+          claims: claimants.size,
+          payments: payments.length,
+          amountPaid: payments.reduce((sum, e) => sum + (Number(e.amount) || 0), 0),
+        },
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching payment links:', error);
+    return [];
+  }
+}
+
+/**
+ * Resolve a link's short code to its split, recording the open
+ *
+ * @returns The split ID, or null if the link is unknown, revoked or expired
+ */
+export async function openPaymentLink(shortCode: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('open_payment_link', {
+      p_short_code: shortCode,
+    });
+
+    if (error) throw error;
+
+    return (data as string | null) || null;
+  } catch (error) {
+    console.error('Error opening payment link:', error);
+    return null;
+  }
+}
+
+/**
+ * Record that someone who came through a link claimed their items
+ */
+export async function recordPaymentLinkClaim(shortCode: string): Promise<void> {
+  const { error } = await supabase.rpc('record_payment_link_claim', {
+    p_short_code: shortCode,
+  });
+
+  if (error) {
+    console.error('Error recording payment link claim:', error);
+  }
+}
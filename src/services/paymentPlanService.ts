@@ -0,0 +1,317 @@
+// ═══════════════════════════════════════════════════════════════
+// Payment Plan Service - Pay a share in scheduled instalments
+// ═══════════════════════════════════════════════════════════════
+
+import { addMonths, addWeeks, differenceInCalendarDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { supabase } from './supabase';
+import { getOutstandingAmount, SplitParticipant } from './splitService';
+import { getNotificationPreferences, notifyInstalmentDue } from './notificationService';
+import { fromCents, splitCentsEvenly, toCents } from '../utils/money';
+
+export type PaymentPlanFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export type PaymentPlanStatus = 'active' | 'completed' | 'cancelled';
+
+export interface PaymentPlan {
+  id: string;
+  participant_id: string;
+  split_id: string;
+  user_id: string; // Who pays (and is reminded)
+  created_by: string | null;
+  frequency: PaymentPlanFrequency;
+  instalment_count: number;
+  plan_amount: number; // Outstanding when the plan was set up, in the split's currency
+  paid_at_start: number; // Participant's amount_paid when the plan was set up
+  first_due_date: string; // yyyy-MM-dd
+  status: PaymentPlanStatus;
+  last_reminded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlannedInstalment {
+  number: number; // 1-based
+  due_date: string; // yyyy-MM-dd
+  amount: number;
+  status: 'paid' | 'overdue' | 'due' | 'upcoming';
+}
+
+export interface PaymentPlanProgress {
+  instalments: PlannedInstalment[];
+  paidTowardsPlan: number;
+  remaining: number;
+  nextInstalment: PlannedInstalment | null;
+  complete: boolean;
+}
+
+export const PLAN_FREQUENCY_LABELS: Record<PaymentPlanFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Fortnightly',
+  monthly: 'Monthly',
+};
+
+export const PLAN_INSTALMENT_OPTIONS = [2, 3, 4, 6, 8, 12];
+
+// While an instalment stays unpaid, remind again this often
+const REMINDER_REPEAT_DAYS = 3;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Scheduling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Due date of the nth instalment (0-based) after the first
+ */
+function getDueDate(firstDueDate: Date, frequency: PaymentPlanFrequency, index: number): Date {
+  switch (frequency) {
+    case 'weekly':
+      return addWeeks(firstDueDate, index);
+    case 'fortnightly':
+      return addWeeks(firstDueDate, index * 2);
+    case 'monthly':
+      return addMonths(firstDueDate, index);
+  }
+}
+
+/**
+ * Split a plan's amount into instalments and their due dates
+ *
+ * Amounts are equal to the cent; leftover cents go on the earliest
+ * instalments so they always add up to the plan amount.
+ */
+export function buildInstalmentSchedule(
+  plan: Pick<PaymentPlan, 'plan_amount' | 'instalment_count' | 'frequency' | 'first_due_date'>
+): { number: number; due_date: string; amount: number }[] {
+  const count = Math.max(1, plan.instalment_count);
+  const amounts = splitCentsEvenly(toCents(Number(plan.plan_amount)), count);
+  const firstDueDate = parseISO(plan.first_due_date);
+
+  return amounts.map((cents, index) => ({
+    number: index + 1,
+    due_date: format(getDueDate(firstDueDate, plan.frequency, index), 'yyyy-MM-dd'),
+    amount: fromCents(cents),
+  }));
+}
+
+/**
+ * Work out which instalments are covered by what the participant has paid
+ *
+ * Any payment towards the share counts, in order, so paying early or
+ * paying more than one instalment at once just moves the plan forward.
+ *
+ * @param plan - The payment plan
+ * @param amountPaid - The participant's current amount_paid
+ * @param today - Date to judge due and overdue instalments against
+ */
+export function getPlanProgress(
+  plan: PaymentPlan,
+  amountPaid: number,
+  today: Date = new Date()
+): PaymentPlanProgress {
+  const planCents = toCents(Number(plan.plan_amount));
+  const paidCents = Math.min(
+    Math.max(toCents(Number(amountPaid)) - toCents(Number(plan.paid_at_start)), 0),
+    planCents
+  );
+  const todayStart = startOfDay(today);
+
+  let coveredCents = 0;
+  const instalments: PlannedInstalment[] = buildInstalmentSchedule(plan).map(instalment => {
+    coveredCents += toCents(instalment.amount);
+    const daysUntilDue = differenceInCalendarDays(parseISO(instalment.due_date), todayStart);
+
+    return {
+      ...instalment,
+      status:
+        coveredCents <= paidCents ? 'paid' :
+        daysUntilDue < 0 ? 'overdue' :
+        daysUntilDue === 0 ? 'due' : 'upcoming',
+    };
+  });
+
+  return {
+    instalments,
+    paidTowardsPlan: fromCents(paidCents),
+    remaining: fromCents(planCents - paidCents),
+    nextInstalment: instalments.find(instalment => instalment.status !== 'paid') || null,
+    complete: paidCents >= planCents,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Get Payment Plans
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Active payment plans on a split, keyed by participant ID
+ */
+export async function getSplitPaymentPlans(splitId: string): Promise<Map<string, PaymentPlan>> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .select('*')
+      .eq('split_id', splitId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    return new Map((data || []).map((plan: PaymentPlan) => [plan.participant_id, plan]));
+  } catch (error) {
+    console.error('Error getting payment plans:', error);
+    return new Map();
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Create & Cancel Payment Plans
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface PaymentPlanInput {
+  frequency: PaymentPlanFrequency;
+  instalment_count: number;
+  first_due_date: Date;
+}
+
+/**
+ * Set up a plan to pay off what's outstanding on a participant's share
+ *
+ * Only participants with an account can have a plan (reminders go to them).
+ */
+export async function createPaymentPlan(
+  userId: string,
+  participant: SplitParticipant,
+  input: PaymentPlanInput
+): Promise<{ success: boolean; plan?: PaymentPlan; error?: string }> {
+  try {
+    if (!participant.user_id) throw new Error('Only participants with a ZapSplit account can have a payment plan');
+
+    const outstanding = getOutstandingAmount(participant);
+    if (participant.status === 'paid' || outstanding <= 0) throw new Error('This share has already been paid');
+
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .insert({
+        participant_id: participant.id,
+        split_id: participant.split_id,
+        user_id: participant.user_id,
+        created_by: userId,
+        frequency: input.frequency,
+        instalment_count: input.instalment_count,
+        plan_amount: outstanding,
+        paid_at_start: Number(participant.amount_paid || 0),
+        first_due_date: format(input.first_due_date, 'yyyy-MM-dd'),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error('This share already has a payment plan');
+      throw error;
+    }
+    return { success: true, plan: data };
+  } catch (error: any) {
+    console.error('Error creating payment plan:', error);
+    return { success: false, error: error.message || 'Failed to create payment plan' };
+  }
+}
+
+export async function cancelPaymentPlan(planId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('payment_plans')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', planId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error cancelling payment plan:', error);
+    return { success: false, error: error.message || 'Failed to cancel payment plan' };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Reminders
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Remind the user about instalments that are due on their payment plans.
+ * Runs on the payer's device (e.g. when the app is opened), like
+ * processDueRecurringSplits().
+ *
+ * Each due instalment is reminded once, then again every few days while it
+ * stays unpaid. Plans whose share has been paid off are completed.
+ *
+ * @returns Number of reminders sent
+ */
+export async function processPaymentPlanReminders(userId: string): Promise<number> {
+  let sent = 0;
+
+  try {
+    const { data: plans, error } = await supabase
+      .from('payment_plans')
+      .select('*, participant:split_participants(amount_owed, amount_paid, status), split:splits(title)')
+      .eq('user_id', userId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    if (!plans || plans.length === 0) return sent;
+
+    const preferences = await getNotificationPreferences(userId);
+    const now = new Date();
+
+    for (const row of plans as any[]) {
+      const { participant, split, ...plan } = row;
+      const progress = getPlanProgress(plan, participant?.amount_paid || 0, now);
+
+      if (!participant || participant.status === 'paid' || progress.complete) {
+        await supabase
+          .from('payment_plans')
+          .update({ status: 'completed', updated_at: now.toISOString() })
+          .eq('id', plan.id);
+        continue;
+      }
+
+      const next = progress.nextInstalment;
+      if (!next || next.status === 'upcoming' || !preferences.reminder_notifications) continue;
+
+      // Not reminded since it fell due, or not for a few days while it's overdue
+      const remindAfter = Math.max(
+        parseISO(next.due_date).getTime(),
+        subDays(now, REMINDER_REPEAT_DAYS).getTime()
+      );
+      if (plan.last_reminded_at && new Date(plan.last_reminded_at).getTime() >= remindAfter) continue;
+
+      // Claim the reminder first: the update only matches if nobody else has
+      // reminded since we looked, so two devices don't both send it
+      let claim = supabase
+        .from('payment_plans')
+        .update({ last_reminded_at: now.toISOString() })
+        .eq('id', plan.id);
+      claim = plan.last_reminded_at ? claim.eq('last_reminded_at', plan.last_reminded_at) : claim.is('last_reminded_at', null);
+      const { data: claimed } = await claim.select('id');
+
+      if (!claimed || claimed.length === 0) continue;
+
+      // Whatever's been paid towards this instalment already comes off it
+      const coveredBefore = progress.instalments
+        .filter(instalment => instalment.number < next.number)
+        .reduce((sum, instalment) => sum + toCents(instalment.amount), 0);
+      const amountDue = toCents(next.amount) - Math.max(toCents(progress.paidTowardsPlan) - coveredBefore, 0);
+
+      await notifyInstalmentDue(
+        userId,
+        amountDue / 100,
+        split?.title || 'a split',
+        plan.split_id,
+        next.number,
+        plan.instalment_count,
+        Math.max(differenceInCalendarDays(now, parseISO(next.due_date)), 0)
+      );
+      sent++;
+    }
+  } catch (error) {
+    console.error('Error processing payment plan reminders:', error);
+  }
+
+  return sent;
+}
@@ -49,6 +49,7 @@ export interface PaymentRequest {
   amount: number; // Amount in dollars
   description: string; // What it's for (e.g., "Your share for dinner at Chipotle")
   splitId?: string; // Optional split ID for reference
+  reference?: string; // Participant's payment reference (e.g., "ZS7K3QXM"), for matching bank transfers
   paymentDetails: PaymentDetails;
 }
 
@@ -87,21 +88,29 @@ export function formatPayID(payid: string, type: 'phone' | 'email'): string {
 }
 
 /**
- * Generate payment message for SMS/WhatsApp
+ * Format how to pay someone, one detail per line
+ *
+ * PayPal links carry the amount when it's known. PayID and bank transfer
+ * details include the payment reference when there is one, so the
+ * transfer can be matched to the share when the recipient imports their
+ * bank statement.
  */
-export function generatePaymentMessage(request: PaymentRequest): string {
-  const { recipientName, amount, description, paymentDetails } = request;
-
-  let message = `Hi! 💸\n\n`;
-  message += `You owe ${recipientName} $${amount.toFixed(2)} for ${description}.\n\n`;
+export function formatPaymentInstructions(
+  paymentDetails: PaymentDetails,
+  amount?: number,
+  reference?: string
+): string {
+  let message = '';
 
-  // Add payment method details
   if (paymentDetails.method === 'payid' && paymentDetails.payid) {
     message += `Pay via PayID:\n`;
     message += `${formatPayID(paymentDetails.payid, paymentDetails.payidType || 'phone')}\n`;
     if (paymentDetails.accountName) {
       message += `Name: ${paymentDetails.accountName}\n`;
     }
+    if (reference) {
+      message += `Reference: ${reference}\n`;
+    }
   } else if (paymentDetails.method === 'bank_transfer') {
     message += `Bank Transfer Details:\n`;
     if (paymentDetails.bankName) {
@@ -116,11 +125,31 @@ export function generatePaymentMessage(request: PaymentRequest): string {
     if (paymentDetails.accountName) {
       message += `Name: ${paymentDetails.accountName}\n`;
     }
+    if (reference) {
+      message += `Reference: ${reference}\n`;
+    }
   } else if (paymentDetails.method === 'paypal' && paymentDetails.paypalUsername) {
     message += `Pay via PayPal:\n`;
-    message += `paypal.me/${paymentDetails.paypalUsername}/${amount.toFixed(2)}\n`;
+    message += amount
+      ? `paypal.me/${paymentDetails.paypalUsername}/${amount.toFixed(2)}\n`
+      : `paypal.me/${paymentDetails.paypalUsername}\n`;
   }
 
+  return message;
+}
+
+/**
+ * Generate payment message for SMS/WhatsApp
+ */
+export function generatePaymentMessage(request: PaymentRequest): string {
+  const { recipientName, amount, description, reference, paymentDetails } = request;
+
+  let message = `Hi! 💸\n\n`;
+  message += `You owe ${recipientName} $${amount.toFixed(2)} for ${description}.\n\n`;
+
+  // Add payment method details
+  message += formatPaymentInstructions(paymentDetails, amount, reference);
+
   message += `\nThanks! 🙏`;
 
   return message;
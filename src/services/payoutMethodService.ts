@@ -0,0 +1,289 @@
+// ═══════════════════════════════════════════════════════════════
+// Payout Method Service - Saved ways to be paid without Stripe
+// ═══════════════════════════════════════════════════════════════
+// Users save PayID, bank account and PayPal details once and pick a
+// default. Whoever has no Stripe Connect account gets their default
+// included in share messages and payment requests, and shown on the web
+// payment page (get_payment_link_payout_method), so people can pay them
+// directly.
+
+import { supabase } from './supabase';
+import {
+  AustralianBank,
+  formatBSB,
+  formatPayID,
+  PaymentDetails,
+  PaymentMethod,
+  validateAccountNumber,
+  validateBSB,
+  validatePayID,
+  validatePayPalUsername,
+} from './paymentService';
+
+export interface PayoutMethod {
+  id: string;
+  user_id: string;
+  method: PaymentMethod;
+  label: string | null;
+  payid: string | null;
+  payid_type: 'phone' | 'email' | null;
+  bsb: string | null; // 6 digits, no hyphen
+  account_number: string | null;
+  bank_name: AustralianBank | null;
+  account_name: string | null;
+  paypal_username: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PayoutMethodInput = Pick<PayoutMethod, 'method'> &
+  Partial<Pick<
+    PayoutMethod,
+    'label' | 'payid' | 'payid_type' | 'bsb' | 'account_number' | 'bank_name' | 'account_name' | 'paypal_username'
+  >>;
+
+export interface PayoutMethodResult {
+  success: boolean;
+  payoutMethod?: PayoutMethod;
+  error?: string;
+}
+
+/**
+ * Check a payout method has everything its method needs
+ *
+ * @returns An error message, or null if it's valid
+ */
+export function validatePayoutMethod(input: PayoutMethodInput): string | null {
+  switch (input.method) {
+    case 'payid':
+      if (!input.payid?.trim()) return 'Enter your PayID';
+      if (!validatePayID(input.payid.trim(), input.payid_type || 'phone')) {
+        return input.payid_type === 'email'
+          ? 'Enter a valid email address'
+          : 'Enter a valid Australian mobile number (04XX XXX XXX)';
+      }
+      return null;
+    case 'bank_transfer':
+      if (!input.bsb || !validateBSB(input.bsb)) return 'BSB must be 6 digits';
+      if (!input.account_number || !validateAccountNumber(input.account_number)) {
+        return 'Account number must be 6-9 digits';
+      }
+      if (!input.account_name?.trim()) return 'Enter the account name';
+      return null;
+    case 'paypal':
+      if (!input.paypal_username || !validatePayPalUsername(input.paypal_username.trim())) {
+        return 'Enter your PayPal.Me username';
+      }
+      return null;
+    default:
+      return 'Choose a payout method';
+  }
+}
+
+/**
+ * Only keep the fields for the chosen method, in the form they're stored
+ */
+function toPayoutMethodRow(input: PayoutMethodInput) {
+  return {
+    method: input.method,
+    label: input.label?.trim() || null,
+    payid: input.method === 'payid' ? input.payid!.trim() : null,
+    payid_type: input.method === 'payid' ? input.payid_type || 'phone' : null,
+    bsb: input.method === 'bank_transfer' ? input.bsb!.replace(/\D/g, '') : null,
+    account_number: input.method === 'bank_transfer' ? input.account_number!.replace(/\D/g, '') : null,
+    bank_name: input.method === 'bank_transfer' ? input.bank_name || null : null,
+    account_name: input.method === 'paypal' ? null : input.account_name?.trim() || null,
+    paypal_username: input.method === 'paypal' ? input.paypal_username!.trim().replace(/^@/, '') : null,
+  };
+}
+
+/**
+ * Turn a saved payout method into the details payment messages use
+ */
+export function toPaymentDetails(payoutMethod: PayoutMethod): PaymentDetails {
+  return {
+    method: payoutMethod.method,
+    payid: payoutMethod.payid || undefined,
+    payidType: payoutMethod.payid_type || undefined,
+    bsb: payoutMethod.bsb || undefined,
+    accountNumber: payoutMethod.account_number || undefined,
+    accountName: payoutMethod.account_name || undefined,
+    bankName: payoutMethod.bank_name || undefined,
+    paypalUsername: payoutMethod.paypal_username || undefined,
+  };
+}
+
+/**
+ * Get the user's payout methods, default first
+ */
+export async function getPayoutMethods(userId: string): Promise<PayoutMethod[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payout_methods')
+      .select('*')
+      .eq('user_id', userId)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching payout methods:', error);
+    return [];
+  }
+}
+
+/**
+ * Add or update a payout method
+ *
+ * The first method a user saves becomes their default.
+ *
+ * @param userId - Owner of the payout method
+ * @param input - Method and its details
+ * @param payoutMethodId - Existing method to update
+ */
+export async function savePayoutMethod(
+  userId: string,
+  input: PayoutMethodInput,
+  payoutMethodId?: string
+): Promise<PayoutMethodResult> {
+  const validationError = validatePayoutMethod(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    if (payoutMethodId) {
+      const { data, error } = await supabase
+        .from('payout_methods')
+        .update(toPayoutMethodRow(input))
+        .eq('id', payoutMethodId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, payoutMethod: data };
+    }
+
+    const { count } = await supabase
+      .from('payout_methods')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    const { data, error } = await supabase
+      .from('payout_methods')
+      .insert({
+        ...toPayoutMethodRow(input),
+        user_id: userId,
+        is_default: !count,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, payoutMethod: data };
+  } catch (error: any) {
+    console.error('Error saving payout method:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save payout method',
+    };
+  }
+}
+
+/**
+ * Make a payout method the one shared with people who owe you
+ */
+export async function setDefaultPayoutMethod(payoutMethodId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('set_default_payout_method', {
+      p_payout_method_id: payoutMethodId,
+    });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error setting default payout method:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update default',
+    };
+  }
+}
+
+/**
+ * Delete a payout method
+ *
+ * Deleting the default makes the oldest remaining method the default.
+ */
+export async function deletePayoutMethod(
+  userId: string,
+  payoutMethod: PayoutMethod
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('payout_methods')
+      .delete()
+      .eq('id', payoutMethod.id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    if (payoutMethod.is_default) {
+      const remaining = await getPayoutMethods(userId);
+      if (remaining.length > 0) {
+        await setDefaultPayoutMethod(remaining[0].id);
+      }
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error deleting payout method:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to delete payout method',
+    };
+  }
+}
+
+/**
+ * Get how someone prefers to be paid when they can't take card payments
+ *
+ * @param userId - Person being paid (usually a split's creator)
+ * @returns Their default payout method's details, or null if they have
+ * a Stripe Connect account, haven't saved one, or don't share a split
+ * with the current user
+ */
+export async function getPreferredPaymentDetails(userId: string): Promise<PaymentDetails | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_preferred_payout_method', {
+      p_user_id: userId,
+    });
+
+    if (error) throw error;
+
+    const payoutMethod = (data as PayoutMethod[] | null)?.[0];
+    return payoutMethod ? toPaymentDetails(payoutMethod) : null;
+  } catch (error) {
+    console.error('Error fetching preferred payout method:', error);
+    return null;
+  }
+}
+
+/**
+ * Short description of a payout method for lists (e.g. "BSB 062-000 · 1234")
+ */
+export function describePayoutMethod(payoutMethod: PayoutMethod): string {
+  switch (payoutMethod.method) {
+    case 'payid':
+      return formatPayID(payoutMethod.payid || '', payoutMethod.payid_type || 'phone');
+    case 'bank_transfer':
+      return `BSB ${formatBSB(payoutMethod.bsb || '')} · ${payoutMethod.account_number?.slice(-4)}`;
+    case 'paypal':
+      return `paypal.me/${payoutMethod.paypal_username}`;
+  }
+}
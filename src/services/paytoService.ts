@@ -0,0 +1,128 @@
+// ═══════════════════════════════════════════════════════════════
+// PayTo Service - Client-side wrapper for direct bank payments
+// ═══════════════════════════════════════════════════════════════
+// PayTo debits the payer's bank account and pays the receiver's PayID
+// directly, with no card fees. The first payment needs the payer to
+// approve a PayTo agreement in their banking app; after that payments
+// go straight through. Shares are only marked paid once the bank
+// confirms the payment (payto-webhook), usually within seconds.
+
+import { Linking } from 'react-native';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type PayToPaymentStatus = 'awaiting_approval' | 'processing';
+
+export interface PayToAgreement {
+  id: string;
+  user_id: string;
+  provider: string;
+  provider_agreement_id: string;
+  payer_payid: string;
+  maximum_amount: number;
+  status: 'pending' | 'active' | 'declined' | 'cancelled';
+  approval_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePayToPaymentResult {
+  success: boolean;
+  paymentId?: string;
+  status?: PayToPaymentStatus;
+  approvalUrl?: string | null; // Open this so the payer can approve the agreement
+  amount?: number;
+  error?: string;
+}
+
+async function getPayToErrorMessage(error: any): Promise<string> {
+  const body = error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+
+  if (body?.receiverName && body.error?.includes('PayID')) {
+    return `${body.receiverName} hasn't added a PayID yet, so they can't be paid from your bank.`;
+  }
+
+  if (body?.outstanding) {
+    return `${body.error}. You currently owe $${body.outstanding}.`;
+  }
+
+  return body?.error || error.message || 'Failed to create payment';
+}
+
+/**
+ * Pay all or part of the current user's share of a split from their bank
+ *
+ * The payer, receiver and amount are checked by the server exactly as for
+ * a card payment. If the payer hasn't approved a PayTo agreement yet the
+ * result is 'awaiting_approval' with an approvalUrl; the payment goes
+ * through by itself once they approve. The account debited is the
+ * payer's PayID (or phone number) from their profile.
+ */
+export async function createPayToPayment(
+  splitId: string,
+  amount: number,
+  participantId?: string
+): Promise<CreatePayToPaymentResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('create-payto-payment', {
+      body: { splitId, participantId, amount },
+    });
+
+    if (error) {
+      console.error('Error creating PayTo payment:', error);
+      return {
+        success: false,
+        error: await getPayToErrorMessage(error),
+      };
+    }
+
+    return {
+      success: true,
+      paymentId: data.paymentId,
+      status: data.status,
+      approvalUrl: data.approvalUrl || null,
+      amount: parseFloat(data.amount),
+    };
+  } catch (error: any) {
+    console.error('Failed to create PayTo payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to create payment',
+    };
+  }
+}
+
+/**
+ * Open the payer's bank to approve a PayTo agreement
+ */
+export async function openAgreementApproval(approvalUrl: string): Promise<boolean> {
+  try {
+    await Linking.openURL(approvalUrl);
+    return true;
+  } catch (error) {
+    console.error('Error opening PayTo approval:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the current user's PayTo agreements, newest first
+ */
+export async function getPayToAgreements(userId: string): Promise<PayToAgreement[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_agreements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching PayTo agreements:', error);
+    return [];
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Receipt Parsers
+ *
+ * Pluggable receipt parsing providers. The provider is chosen with
+ * EXPO_PUBLIC_RECEIPT_PARSER ('openai' by default). If the OpenAI parser
+ * can't be reached, the on-device parser is tried before giving up.
+ */
+
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import TextRecognition, { TextLine, TextRecognitionResult } from '@react-native-ml-kit/text-recognition';
+import { supabase } from './supabase';
+import { uploadReceiptImage, validateReceipt } from './receiptService';
+import { getRateLimitMessage } from '../utils/rateLimiter';
+import { parseReceiptLines } from '../utils/receiptText';
+import {
+  ParsedReceipt,
+  ReceiptParseError,
+  ReceiptParseErrorType,
+  ReceiptParser,
+  ReceiptParserProvider,
+} from '../types/receipt';
+
+const RECEIPT_PARSER_PROVIDERS: ReceiptParserProvider[] = ['openai', 'ocr', 'mock'];
+
+const configuredProvider = process.env.EXPO_PUBLIC_RECEIPT_PARSER as ReceiptParserProvider | undefined;
+
+// Errors worth retrying on-device; a photo that isn't a receipt won't read any better locally
+const FALLBACK_ERROR_TYPES = [
+  ReceiptParseErrorType.API_ERROR,
+  ReceiptParseErrorType.INVALID_RESPONSE,
+  ReceiptParseErrorType.NETWORK_ERROR,
+  ReceiptParseErrorType.RATE_LIMITED,
+];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OpenAI Vision (parse-receipt edge function)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Turn an error from the parse-receipt function into a ReceiptParseError
+ *
+ * The function responds with { error: { type, message, details } }; rate
+ * limited responses also carry the limit state for a "try again in" message.
+ */
+async function toReceiptParseError(error: any): Promise<ReceiptParseError> {
+  if (error instanceof FunctionsFetchError) {
+    return {
+      type: ReceiptParseErrorType.NETWORK_ERROR,
+      message: 'Check your connection and try again',
+      details: error.message,
+    };
+  }
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+
+    if (body?.error?.type === ReceiptParseErrorType.RATE_LIMITED && body.resetAt) {
+      return {
+        type: ReceiptParseErrorType.RATE_LIMITED,
+        message: getRateLimitMessage(body),
+      };
+    }
+
+    if (body?.error?.type && body.error.message) {
+      return body.error;
+    }
+  }
+
+  return {
+    type: ReceiptParseErrorType.API_ERROR,
+    message: 'Failed to parse receipt',
+    details: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * Parses receipts with OpenAI Vision in the parse-receipt edge function
+ *
+ * The image is uploaded first and the function reads it from storage, so
+ * the OpenAI key never ships with the app. The uploaded image's URL is
+ * returned on the receipt so saving the split doesn't upload it again.
+ */
+export const openAIReceiptParser: ReceiptParser = {
+  provider: 'openai',
+  async parse(imageUri) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('User not authenticated');
+    }
+
+    const { path, publicUrl } = await uploadReceiptImage(imageUri, session.user.id);
+
+    const { data, error } = await supabase.functions.invoke('parse-receipt', {
+      body: { imagePath: path },
+    });
+
+    if (error) {
+      throw await toReceiptParseError(error);
+    }
+
+    return { ...data, image_url: publicUrl };
+  },
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// On-device OCR + heuristic parser
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Rebuild printed rows from recognised text
+ *
+ * ML Kit often returns item names and prices as separate blocks (two
+ * columns), so lines are regrouped by vertical position and read left to right.
+ */
+function toReceiptRows(result: TextRecognitionResult): string[] {
+  const lines = result.blocks.flatMap(block => block.lines);
+  if (lines.length === 0 || lines.some(line => !line.frame)) {
+    return result.text.split('\n');
+  }
+
+  const centerOf = (line: TextLine) => line.frame!.top + line.frame!.height / 2;
+  const rows: TextLine[][] = [];
+
+  [...lines]
+    .sort((a, b) => centerOf(a) - centerOf(b))
+    .forEach(line => {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(centerOf(line) - centerOf(row[0])) < row[0].frame!.height / 2) {
+        row.push(line);
+      } else {
+        rows.push([line]);
+      }
+    });
+
+  return rows.map(row =>
+    row
+      .sort((a, b) => a.frame!.left - b.frame!.left)
+      .map(line => line.text)
+      .join(' ')
+  );
+}
+
+/**
+ * Parses receipts on the device with ML Kit text recognition
+ *
+ * Works offline and costs nothing, but is less accurate than the vision
+ * model, which the confidence score reflects.
+ */
+export const ocrReceiptParser: ReceiptParser = {
+  provider: 'ocr',
+  async parse(imageUri) {
+    const result = await TextRecognition.recognize(imageUri);
+    const receipt = parseReceiptLines(toReceiptRows(result));
+
+    if (receipt.items.length === 0) {
+      const parseError: ReceiptParseError = {
+        type: ReceiptParseErrorType.NO_ITEMS_FOUND,
+        message: 'Please take a photo of a receipt',
+        details: 'No items could be read from the photo. Please try again with a clearer photo.',
+      };
+      throw parseError;
+    }
+
+    return receipt;
+  },
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Fixture mock
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Sample receipts returned by the mock parser
+ */
+export const RECEIPT_FIXTURES: { [name: string]: ParsedReceipt } = {
+  restaurant: {
+    items: [
+      { id: '1', name: 'Margherita Pizza', price: 24.0, quantity: 1 },
+      { id: '2', name: 'Caesar Salad', price: 18.5, quantity: 1 },
+      { id: '3', name: 'Pale Ale', price: 11.0, quantity: 2 },
+    ],
+    subtotal: 64.5,
+    tax: 0,
+    tip: 0,
+    total: 64.5,
+    merchant: 'Luigi\'s Trattoria',
+    date: '2025-03-14',
+    confidence: 0.98,
+  },
+  combo: {
+    items: [
+      { id: '1', name: 'H&C Zing Box', price: 15.45, quantity: 1 },
+      { id: '2', name: 'Dip Supercharged', price: 0.6, quantity: 1 },
+      { id: '3', name: 'Coke No Sugar', price: 3.5, quantity: 2 },
+    ],
+    subtotal: 23.05,
+    tax: 0,
+    tip: 0,
+    total: 23.05,
+    merchant: 'Red Rooster',
+    date: '2025-03-12',
+    confidence: 0.95,
+  },
+};
+
+/**
+ * Create a parser that always returns the given fixture
+ *
+ * @param fixture - Receipt to return (defaults to the restaurant fixture)
+ */
+export function createMockReceiptParser(
+  fixture: ParsedReceipt = RECEIPT_FIXTURES.restaurant
+): ReceiptParser {
+  return {
+    provider: 'mock',
+    async parse() {
+      return {
+        ...fixture,
+        items: fixture.items.map(item => ({ ...item })),
+      };
+    },
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Provider selection
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get a receipt parser
+ *
+ * @param provider - Provider to use (defaults to EXPO_PUBLIC_RECEIPT_PARSER, then 'openai')
+ * @returns Receipt parser for the provider
+ */
+export function getReceiptParser(provider?: ReceiptParserProvider): ReceiptParser {
+  const selected =
+    provider ||
+    (configuredProvider && RECEIPT_PARSER_PROVIDERS.includes(configuredProvider) ? configuredProvider : 'openai');
+
+  switch (selected) {
+    case 'ocr':
+      return ocrReceiptParser;
+    case 'mock':
+      return createMockReceiptParser();
+    default:
+      return openAIReceiptParser;
+  }
+}
+
+/**
+ * Run a parser and validate what it returns
+ */
+async function runParser(parser: ReceiptParser, imageUri: string): Promise<ParsedReceipt> {
+  const receipt = await parser.parse(imageUri);
+
+  const validationError = validateReceipt(receipt);
+  if (validationError) {
+    const parseError: ReceiptParseError = {
+      type: ReceiptParseErrorType.INVALID_RESPONSE,
+      message: 'Failed to parse receipt',
+      details: validationError,
+    };
+    throw parseError;
+  }
+
+  return receipt;
+}
+
+/**
+ * Convert anything thrown while parsing into a ReceiptParseError
+ */
+function toParseError(error: any): ReceiptParseError {
+  // If it's already a ReceiptParseError, keep it
+  if (error && error.type && error.message) {
+    return error;
+  }
+
+  return {
+    type: ReceiptParseErrorType.API_ERROR,
+    message: 'Failed to parse receipt',
+    details: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * Parse a receipt photo with the configured provider
+ *
+ * When the OpenAI parser fails for a reason other than the photo itself
+ * (offline, rate limited, service error), the on-device parser is tried.
+ * If that fails too, the original error is thrown.
+ *
+ * @param imageUri - Local file URI of the receipt image
+ * @param parser - Parser to use (defaults to the configured provider)
+ * @returns Parsed receipt data with items, totals, etc.
+ * @throws ReceiptParseError
+ */
+export async function parseReceipt(
+  imageUri: string,
+  parser: ReceiptParser = getReceiptParser()
+): Promise<ParsedReceipt> {
+  try {
+    return await runParser(parser, imageUri);
+  } catch (error: any) {
+    console.error(`Error parsing receipt with ${parser.provider}:`, error);
+    const parseError = toParseError(error);
+
+    if (parser.provider === 'openai' && FALLBACK_ERROR_TYPES.includes(parseError.type)) {
+      try {
+        return await runParser(ocrReceiptParser, imageUri);
+      } catch (fallbackError) {
+        console.error('Error parsing receipt on device:', fallbackError);
+      }
+    }
+
+    throw parseError;
+  }
+}
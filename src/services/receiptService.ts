@@ -1,34 +1,31 @@
 /**
  * Receipt Service
  *
- * Handles AI-powered receipt parsing using OpenAI Vision API
- * and receipt image storage in Supabase
+ * Receipt image storage in Supabase and validation of parsed receipts
+ * (parsing itself lives in receiptParsers.ts)
  */
 
 import * as FileSystem from 'expo-file-system/legacy';
 import { supabase } from './supabase';
-import {
-  ParsedReceipt,
-  ReceiptParseError,
-  ReceiptParseErrorType,
-  OpenAIVisionRequest,
-  OpenAIVisionResponse,
-} from '../types/receipt';
+import { ParsedReceipt, ReceiptAdjustmentKind } from '../types/receipt';
+import { getAdjustmentCents } from '../utils/splitCalculations';
+import { fromCents } from '../utils/money';
 
-const OPENAI_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const RECEIPTS_BUCKET = 'split-receipts';
+
+const ADJUSTMENT_KINDS: ReceiptAdjustmentKind[] = ['discount', 'surcharge', 'service_charge', 'rounding'];
 
 /**
  * Upload receipt image to Supabase Storage
  *
  * @param imageUri - Local file URI of the receipt image
  * @param userId - User ID for organizing storage
- * @returns Public URL of the uploaded image
+ * @returns Storage path and public URL of the uploaded image
  */
-export async function uploadReceiptToStorage(
+export async function uploadReceiptImage(
   imageUri: string,
   userId: string
-): Promise<string> {
+): Promise<{ path: string; publicUrl: string }> {
   try {
     // Read the image file as base64
     const base64 = await FileSystem.readAsStringAsync(imageUri, {
@@ -43,8 +40,8 @@ export async function uploadReceiptToStorage(
     const arrayBuffer = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
 
     // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from('split-receipts')
+    const { error } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
       .upload(filename, arrayBuffer, {
         contentType: 'image/jpeg',
         upsert: false,
@@ -56,10 +53,10 @@ export async function uploadReceiptToStorage(
 
     // Get public URL
     const { data: urlData } = supabase.storage
-      .from('split-receipts')
+      .from(RECEIPTS_BUCKET)
       .getPublicUrl(filename);
 
-    return urlData.publicUrl;
+    return { path: filename, publicUrl: urlData.publicUrl };
   } catch (error) {
     console.error('Error uploading receipt to storage:', error);
     throw error;
@@ -67,201 +64,26 @@ export async function uploadReceiptToStorage(
 }
 
 /**
- * Parse receipt using OpenAI Vision API
+ * Upload receipt image to Supabase Storage
  *
  * @param imageUri - Local file URI of the receipt image
- * @returns Parsed receipt data with items, totals, etc.
+ * @param userId - User ID for organizing storage
+ * @returns Public URL of the uploaded image
  */
-export async function parseReceiptWithAI(
-  imageUri: string
-): Promise<ParsedReceipt> {
-  try {
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
-    }
-
-    // Read image as base64
-    const base64 = await FileSystem.readAsStringAsync(imageUri, {
-      encoding: 'base64',
-    });
-
-    // Prepare the request to OpenAI Vision API
-    const request: OpenAIVisionRequest = {
-      model: 'gpt-4o', // Latest vision model
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `You are a receipt parsing assistant. Analyze this receipt image and extract the following information in JSON format:
-
-{
-  "items": [
-    {"id": "uuid", "name": "item name", "price": 0.00, "quantity": 1}
-  ],
-  "subtotal": 0.00,
-  "tax": 0.00,
-  "tip": 0.00,
-  "total": 0.00,
-  "merchant": "restaurant name",
-  "date": "YYYY-MM-DD",
-  "confidence": <calculated>
-}
-
-CRITICAL - AUSTRALIAN RECEIPTS (AUD):
-All prices on Australian receipts INCLUDE GST. The "Subtotal" and "Tax/GST" lines just show the GST breakdown — the GST is ALREADY included in the item prices. Therefore:
-- Set "subtotal" to the receipt TOTAL (the final amount paid)
-- Set "tax" to 0 (GST is already included in item prices, do NOT add it again)
-- Set "total" to the same value as subtotal
-- All item prices must sum to the receipt TOTAL (the final amount paid)
-
-CRITICAL - PRICE INTERPRETATION:
-The "price" field must be the PER-UNIT price, NOT the line total.
-- If a line shows "2 Burger $20.00", the $20 is the LINE TOTAL for 2 burgers
-  - price should be: 10.00 (20 ÷ 2 = 10 per burger)
-  - quantity should be: 2
-- If a line shows "Burger $10.00", then price: 10.00, quantity: 1
-
-IMPORTANT RULES:
-1. Extract ONLY top-level purchasable items (meals, combos, boxes, individual items, standalone add-ons)
-2. ALWAYS calculate per-unit price by dividing the line total by quantity
-3. Generate a unique ID for each item (use simple incrementing numbers like "1", "2", "3")
-4. If quantity is not shown, assume quantity = 1
-5. Set subtotal to the receipt TOTAL (the final amount paid, GST-inclusive)
-6. Set tax to 0 (GST is already included in item prices)
-7. Extract tip amount (if shown, otherwise set to 0)
-8. Set total to the final amount on the receipt
-9. COMBO/BOX/MEAL DEALS: Items like "Zing Box", "Big Mac Meal", "Family Feast", etc. are COMBO items. The items listed underneath them (burger, chips, drink, sides, etc.) are what COMES WITH the combo — they are NOT separate charges. Only output the combo/box/meal as ONE item at the combo price. Do NOT list individual combo contents as separate items. To identify combo contents: sum the prices of items listed under a combo. If they equal the combo price, they are combo contents.
-10. STANDALONE ADD-ONS: If an item listed under a combo causes the sum of sub-items to EXCEED the combo price, that item is a STANDALONE ADD-ON — list it as its own separate item. Example: "H&C Zing Box $15.45" has sub-items summing to $15.45, plus "Dip Supercharged $0.60" listed after them. The Dip is NOT part of the $15.45 combo — it is a separate $0.60 item. Output: {"name": "H&C Zing Box", "price": 15.45} AND {"name": "Dip Supercharged", "price": 0.60}.
-11. MODIFIERS: Items like "No Mayo", "Extra Cheese", "$0.00" customisations listed under a combo are just modifications — ignore them entirely, do NOT create items for them.
-12. VERIFY: The sum of all item prices times quantities MUST equal the receipt TOTAL (the final amount paid, GST-inclusive). If it doesn't, you likely missed a standalone add-on or incorrectly merged an item into a combo. Go back and check.
-13. CONFIDENCE SCORING - Set based on how well you could read the receipt:
-   - 0.98-1.0: Perfect quality, all text crystal clear
-   - 0.90-0.97: Good quality, most text readable
-   - 0.80-0.89: Moderate quality, some items may be unclear
-   - 0.70-0.79: Poor quality, had to guess some values
-   - Below 0.70: Very poor quality, many items unreadable
-
-Return ONLY the JSON object, no additional text.`,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${base64}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 1000,
-      temperature: 0.2, // Low temperature for consistent, accurate parsing
-    };
-
-    // Call OpenAI API
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(
-        `OpenAI API error: ${errorData.error?.message || response.statusText}`
-      );
-    }
-
-    const data: OpenAIVisionResponse = await response.json();
-
-    // Extract the JSON from the response
-    const content = data.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in OpenAI response');
-    }
-
-    // Check if AI indicates this is not a receipt
-    const notReceiptIndicators = [
-      "doesn't contain a receipt",
-      "does not contain a receipt",
-      "not a receipt",
-      "unable to extract",
-      "cannot extract",
-      "can't extract",
-      "no receipt",
-      "isn't a receipt",
-      "is not a receipt",
-      "doesn't appear to be a receipt",
-      "does not appear to be a receipt",
-    ];
-
-    const contentLower = content.toLowerCase();
-    const isNotReceipt = notReceiptIndicators.some(indicator =>
-      contentLower.includes(indicator)
-    );
-
-    if (isNotReceipt) {
-      const parseError: ReceiptParseError = {
-        type: ReceiptParseErrorType.INVALID_IMAGE,
-        message: 'Please take a photo of a receipt',
-        details: 'The image does not appear to be a receipt. Please try again with a clear photo of your receipt.',
-      };
-      throw parseError;
-    }
-
-    // Parse the JSON response
-    let parsedReceipt: ParsedReceipt;
-    try {
-      // Remove markdown code blocks if present
-      const jsonContent = content
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-      parsedReceipt = JSON.parse(jsonContent);
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
-
-      // If JSON parsing fails, it might still be a non-receipt message we didn't catch
-      const error: ReceiptParseError = {
-        type: ReceiptParseErrorType.INVALID_IMAGE,
-        message: 'Please take a photo of a receipt',
-        details: 'Could not read the receipt. Please try again with a clearer photo.',
-      };
-      throw error;
-    }
-
-    // Validate the parsed receipt
-    const validationError = validateReceipt(parsedReceipt);
-    if (validationError) {
-      throw new Error(validationError);
-    }
-
-    return parsedReceipt;
-  } catch (error: any) {
-    console.error('Error parsing receipt with AI:', error);
-
-    // If it's already a ReceiptParseError, re-throw it
-    if (error && error.type && error.message) {
-      throw error;
-    }
-
-    // Convert to ReceiptParseError
-    const parseError: ReceiptParseError = {
-      type: ReceiptParseErrorType.API_ERROR,
-      message: 'Failed to parse receipt',
-      details: error instanceof Error ? error.message : 'Unknown error',
-    };
-
-    throw parseError;
-  }
+export async function uploadReceiptToStorage(
+  imageUri: string,
+  userId: string
+): Promise<string> {
+  const { publicUrl } = await uploadReceiptImage(imageUri, userId);
+  return publicUrl;
 }
 
 /**
  * Validate parsed receipt data
  *
+ * Only checks the shape of the data; whether the items add up to the
+ * totals is checked by reconcileReceipt (utils/receiptReconciliation).
+ *
  * @param receipt - Parsed receipt to validate
  * @returns Error message if invalid, null if valid
  */
@@ -290,6 +112,32 @@ export function validateReceipt(receipt: ParsedReceipt): string | null {
     }
   }
 
+  // Validate adjustments
+  if (receipt.adjustments !== undefined && !Array.isArray(receipt.adjustments)) {
+    return 'Receipt adjustments must be an array';
+  }
+
+  for (const adjustment of receipt.adjustments || []) {
+    if (!adjustment.id || !adjustment.label || !ADJUSTMENT_KINDS.includes(adjustment.kind)) {
+      return 'Invalid adjustment in receipt';
+    }
+
+    if ((typeof adjustment.amount === 'number') === (typeof adjustment.percentage === 'number')) {
+      return 'Adjustment needs either an amount or a percentage';
+    }
+
+    const appliesTo = adjustment.scope === 'item'
+      ? receipt.items.some((item) => item.id === adjustment.itemId)
+      : adjustment.scope === 'bill';
+    if (!appliesTo) {
+      return 'Adjustment must be for the bill or one of its items';
+    }
+
+    if (adjustment.distribution !== 'equal' && adjustment.distribution !== 'proportional') {
+      return 'Invalid adjustment distribution';
+    }
+  }
+
   // Validate totals
   if (typeof receipt.subtotal !== 'number' || receipt.subtotal < 0) {
     return 'Invalid subtotal';
@@ -316,18 +164,6 @@ export function validateReceipt(receipt: ParsedReceipt): string | null {
     return 'Invalid confidence score';
   }
 
-  // Check if total roughly matches subtotal + tax + tip
-  const calculatedTotal = receipt.subtotal + receipt.tax + receipt.tip;
-  const difference = Math.abs(calculatedTotal - receipt.total);
-
-  // Allow for small rounding differences (up to $0.10)
-  if (difference > 0.1) {
-    console.warn(
-      `Total mismatch: calculated ${calculatedTotal}, actual ${receipt.total}`
-    );
-    // Don't fail validation, but log warning
-  }
-
   return null;
 }
 
@@ -347,6 +183,9 @@ export function formatReceiptForDisplay(receipt: ParsedReceipt): string {
   });
 
   output += `\nSubtotal: $${receipt.subtotal.toFixed(2)}\n`;
+  (receipt.adjustments || []).forEach((adjustment) => {
+    output += `${adjustment.label}: $${fromCents(getAdjustmentCents(adjustment, receipt.items)).toFixed(2)}\n`;
+  });
   output += `Tax: $${receipt.tax.toFixed(2)}\n`;
   output += `Tip: $${receipt.tip.toFixed(2)}\n`;
   output += `Total: $${receipt.total.toFixed(2)}\n`;
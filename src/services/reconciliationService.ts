@@ -0,0 +1,323 @@
+// ═══════════════════════════════════════════════════════════════
+// Reconciliation Service - Match bank transfers to shares
+// ═══════════════════════════════════════════════════════════════
+// Every share has a payment reference (e.g. ZS7K3QXM) that goes into
+// the PayID / bank transfer message sent to the participant. The split
+// creator imports a statement export from their bank, incoming credits
+// are matched to outstanding shares by reference and amount
+// (src/utils/bankStatement.ts), and each proposed match is only
+// recorded once the creator confirms it.
+
+import { supabase } from './supabase';
+import { getOutstandingAmount, recordParticipantPayment } from './splitService';
+import { convertAmount, PAYMENT_CURRENCY } from '../utils/currency';
+import {
+  detectStatementFormat,
+  matchStatementTransactions,
+  parseBankStatement,
+  OutstandingShare,
+  ProposedMatch,
+  StatementFormat,
+} from '../utils/bankStatement';
+
+export interface BankTransaction {
+  id: string;
+  user_id: string;
+  fingerprint: string;
+  posted_on: string;
+  amount: number; // AUD
+  description: string | null;
+  reference: string | null;
+  source_format: StatementFormat;
+  status: 'unmatched' | 'matched' | 'ignored';
+  participant_id: string | null;
+  matched_at: string | null;
+  created_at: string;
+}
+
+/**
+ * An imported transaction in the shape the matcher works with
+ */
+export type ImportedTransaction = {
+  id: string;
+  fingerprint: string;
+  postedOn: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+};
+
+export type ReconciliationProposal = ProposedMatch<ImportedTransaction>;
+
+export interface ReconciliationResult {
+  success: boolean;
+  imported?: number; // New transactions in this statement
+  skipped?: number; // Already imported from an earlier statement
+  proposals?: ReconciliationProposal[];
+  unmatched?: ImportedTransaction[];
+  error?: string;
+}
+
+function toImportedTransaction(row: BankTransaction): ImportedTransaction {
+  return {
+    id: row.id,
+    fingerprint: row.fingerprint,
+    postedOn: row.posted_on,
+    amount: Number(row.amount),
+    description: row.description || '',
+    reference: row.reference,
+  };
+}
+
+/**
+ * Get every unpaid share on splits the user created
+ *
+ * Amounts are converted to PAYMENT_CURRENCY, since that's what bank
+ * transfers arrive in.
+ */
+async function getOutstandingShares(userId: string): Promise<OutstandingShare[]> {
+  const { data, error } = await supabase
+    .from('split_participants')
+    .select(`
+      id,
+      user_id,
+      amount_owed,
+      amount_paid,
+      payment_reference,
+      external_name,
+      user:user_id (
+        full_name
+      ),
+      splits!inner (
+        id,
+        title,
+        creator_id,
+        currency,
+        exchange_rates
+      )
+    `)
+    .eq('splits.creator_id', userId)
+    .neq('status', 'paid');
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((p: any) => p.user_id !== userId && p.payment_reference)
+    .map((p: any): OutstandingShare => ({
+      participantId: p.id,
+      splitId: p.splits.id,
+      splitTitle: p.splits.title,
+      participantName: p.user?.full_name || p.external_name || 'Unknown',
+      reference: p.payment_reference,
+      outstanding: convertAmount(getOutstandingAmount(p), p.splits.currency, PAYMENT_CURRENCY, p.splits.exchange_rates),
+    }))
+    .filter(share => share.outstanding > 0);
+}
+
+/**
+ * Match the user's unmatched transactions against their outstanding shares
+ */
+async function proposeMatches(userId: string): Promise<{
+  proposals: ReconciliationProposal[];
+  unmatched: ImportedTransaction[];
+}> {
+  const [transactions, shares] = await Promise.all([
+    getUnmatchedTransactions(userId),
+    getOutstandingShares(userId),
+  ]);
+
+  const { matches, unmatched } = matchStatementTransactions(transactions, shares);
+  return { proposals: matches, unmatched };
+}
+
+/**
+ * Import a bank statement export and propose matches for its credits
+ *
+ * Transactions already imported (from this or an overlapping statement)
+ * are skipped. Proposals cover every unmatched transaction, not just the
+ * ones in this file, so earlier imports get another chance once more
+ * shares exist.
+ *
+ * @param userId - Split creator importing their statement
+ * @param fileName - Used to tell the format apart
+ * @param content - File contents
+ */
+export async function importBankStatement(
+  userId: string,
+  fileName: string,
+  content: string
+): Promise<ReconciliationResult> {
+  try {
+    const format = detectStatementFormat(fileName, content);
+    if (!format) {
+      return { success: false, error: 'Unsupported file. Export a CSV, OFX or QIF statement from your bank.' };
+    }
+
+    const parsed = parseBankStatement(content, format);
+    if (parsed.length === 0) {
+      return { success: false, error: 'No incoming payments were found in this statement.' };
+    }
+
+    const { data: inserted, error } = await supabase
+      .from('bank_transactions')
+      .upsert(
+        parsed.map(transaction => ({
+          user_id: userId,
+          fingerprint: transaction.fingerprint,
+          posted_on: transaction.postedOn,
+          amount: transaction.amount,
+          description: transaction.description,
+          reference: transaction.reference,
+          source_format: format,
+        })),
+        { onConflict: 'user_id,fingerprint', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+
+    const imported = inserted?.length || 0;
+    const { proposals, unmatched } = await proposeMatches(userId);
+
+    return {
+      success: true,
+      imported,
+      skipped: parsed.length - imported,
+      proposals,
+      unmatched,
+    };
+  } catch (error: any) {
+    console.error('Error importing bank statement:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to import statement',
+    };
+  }
+}
+
+/**
+ * Get proposals for transactions imported earlier that are still unmatched
+ */
+export async function getReconciliationProposals(userId: string): Promise<ReconciliationResult> {
+  try {
+    const { proposals, unmatched } = await proposeMatches(userId);
+    return { success: true, proposals, unmatched };
+  } catch (error: any) {
+    console.error('Error fetching reconciliation proposals:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to load transactions',
+    };
+  }
+}
+
+/**
+ * Get the user's imported transactions that haven't been matched or ignored
+ */
+export async function getUnmatchedTransactions(userId: string): Promise<ImportedTransaction[]> {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'unmatched')
+    .order('posted_on', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(toImportedTransaction);
+}
+
+/**
+ * Record a transaction as a payment towards a share
+ *
+ * The amount is converted back to the split's currency; a transfer that
+ * covers everything outstanding records exactly what's outstanding, so
+ * rounding can't leave a few cents owing. The bank transaction's id is
+ * used as the allocation id, so confirming twice records it once.
+ *
+ * @param transactionId - Imported bank transaction
+ * @param participantId - Share it pays
+ * @param amount - Amount to record, in PAYMENT_CURRENCY
+ */
+export async function confirmMatch(
+  transactionId: string,
+  participantId: string,
+  amount: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: transaction, error: transactionError } = await supabase
+      .from('bank_transactions')
+      .select('*')
+      .eq('id', transactionId)
+      .single();
+
+    if (transactionError) throw transactionError;
+
+    const { data: participant, error: participantError } = await supabase
+      .from('split_participants')
+      .select('id, split_id, amount_owed, amount_paid, splits (currency, exchange_rates)')
+      .eq('id', participantId)
+      .single();
+
+    if (participantError) throw participantError;
+
+    const split = (participant as any).splits;
+    const outstanding = getOutstandingAmount(participant);
+    const outstandingInPaymentCurrency = convertAmount(outstanding, split.currency, PAYMENT_CURRENCY, split.exchange_rates);
+    const splitAmount = amount >= outstandingInPaymentCurrency
+      ? outstanding
+      : Math.min(convertAmount(amount, PAYMENT_CURRENCY, split.currency, split.exchange_rates), outstanding);
+
+    if (splitAmount > 0) {
+      const note = transaction.reference
+        ? `Bank transfer · ${transaction.reference}`
+        : `Bank transfer · ${transaction.posted_on}`;
+
+      await recordParticipantPayment(participantId, participant.split_id, splitAmount, {
+        note,
+        paymentId: transactionId,
+      });
+    }
+
+    const { error: updateError } = await supabase
+      .from('bank_transactions')
+      .update({
+        status: 'matched',
+        participant_id: participantId,
+        matched_at: new Date().toISOString(),
+      })
+      .eq('id', transactionId);
+
+    if (updateError) throw updateError;
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error confirming bank transaction match:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to record payment',
+    };
+  }
+}
+
+/**
+ * Mark a transaction as not a split payment, so it isn't proposed again
+ */
+export async function ignoreTransaction(transactionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('bank_transactions')
+      .update({ status: 'ignored' })
+      .eq('id', transactionId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error ignoring bank transaction:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to skip transaction',
+    };
+  }
+}
@@ -0,0 +1,515 @@
+// ═══════════════════════════════════════════════════════════════
+// Recurring Split Service - Scheduled bills for household groups
+// ═══════════════════════════════════════════════════════════════
+
+import { addMonths, addWeeks, format, getDaysInMonth, setDate, startOfDay, startOfMonth } from 'date-fns';
+import { supabase } from './supabase';
+import {
+  createSplit,
+  calculateEqualSplitAmounts,
+  calculatePercentageSplit,
+  CreateSplitParticipant,
+  Split,
+} from './splitService';
+
+export type RecurrenceFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'custom';
+
+export type RecurringSplitMethod = 'equal' | 'custom' | 'percentage';
+
+export interface RecurringSplitParticipant {
+  user_id: string;
+  amount?: number; // custom split
+  percentage?: number; // percentage split
+}
+
+export interface RecurringSplit {
+  id: string;
+  group_id: string;
+  creator_id: string;
+  title: string;
+  description: string | null;
+  total_amount: number;
+  currency: string;
+  split_method: RecurringSplitMethod;
+  participants: RecurringSplitParticipant[];
+  frequency: RecurrenceFrequency;
+  day_of_month: number | null; // 'custom': the chosen day; 'monthly': the day it started on
+  time_zone: string; // Where the schedule was set up; the server generates bills in this zone
+  next_run_at: string;
+  last_run_at: string | null;
+  last_split_id: string | null;
+  paused: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Upper bound on missed occurrences generated in one pass (e.g. app unopened for months)
+const MAX_CATCH_UP_OCCURRENCES = 12;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Fortnightly',
+  monthly: 'Monthly',
+  custom: 'Day of month',
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Scheduling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * The given day in the month of `date`, clamped to the month's length
+ * (day 31 in February becomes the 28th/29th)
+ */
+function clampToDayOfMonth(date: Date, dayOfMonth: number): Date {
+  return setDate(startOfMonth(date), Math.min(dayOfMonth, getDaysInMonth(date)));
+}
+
+/**
+ * Day of the month a schedule is anchored to
+ *
+ * Monthly schedules keep the day they started on, so one that starts on
+ * the 31st runs on the 30th in April and back on the 31st in May instead
+ * of drifting to the 28th after February.
+ */
+export function getScheduleDayOfMonth(
+  frequency: RecurrenceFrequency,
+  dayOfMonth: number | null | undefined,
+  start: Date = new Date()
+): number | null {
+  switch (frequency) {
+    case 'custom':
+      return dayOfMonth || null;
+    case 'monthly':
+      return start.getDate();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Anchor day of a saved schedule (monthly schedules saved before they
+ * stored one are anchored to the day they were created)
+ */
+function getAnchorDay(recurring: Pick<RecurringSplit, 'frequency' | 'day_of_month' | 'created_at'>): number | null {
+  if (recurring.frequency === 'monthly' && !recurring.day_of_month) {
+    return new Date(recurring.created_at).getDate();
+  }
+  return recurring.day_of_month;
+}
+
+/**
+ * First occurrence of a new schedule, on or after `from`
+ */
+export function getFirstOccurrence(
+  frequency: RecurrenceFrequency,
+  dayOfMonth: number | null,
+  from: Date = new Date()
+): Date {
+  const today = startOfDay(from);
+  if (frequency !== 'custom' || !dayOfMonth) return today;
+
+  const thisMonth = clampToDayOfMonth(today, dayOfMonth);
+  return thisMonth >= today ? thisMonth : clampToDayOfMonth(addMonths(today, 1), dayOfMonth);
+}
+
+/**
+ * Occurrence that follows `previous` for the given frequency
+ */
+export function calculateNextOccurrence(
+  previous: Date,
+  frequency: RecurrenceFrequency,
+  dayOfMonth: number | null
+): Date {
+  switch (frequency) {
+    case 'weekly':
+      return addWeeks(previous, 1);
+    case 'fortnightly':
+      return addWeeks(previous, 2);
+    case 'monthly':
+    case 'custom':
+      return clampToDayOfMonth(addMonths(startOfMonth(previous), 1), dayOfMonth || previous.getDate());
+  }
+}
+
+/**
+ * Describe a schedule for display, e.g. "Monthly on the 1st"
+ */
+export function describeSchedule(recurring: Pick<RecurringSplit, 'frequency' | 'day_of_month'>): string {
+  if (recurring.frequency === 'custom' && recurring.day_of_month) {
+    const day = recurring.day_of_month;
+    const suffix =
+      day % 10 === 1 && day !== 11 ? 'st' :
+      day % 10 === 2 && day !== 12 ? 'nd' :
+      day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+    return `Monthly on the ${day}${suffix}`;
+  }
+  return FREQUENCY_LABELS[recurring.frequency];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Get Recurring Splits
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getGroupRecurringSplits(groupId: string): Promise<RecurringSplit[]> {
+  try {
+    const { data, error } = await supabase
+      .from('recurring_splits')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('next_run_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error getting recurring splits:', error);
+    return [];
+  }
+}
+
+export async function getRecurringSplit(recurringSplitId: string): Promise<RecurringSplit | null> {
+  try {
+    const { data, error } = await supabase
+      .from('recurring_splits')
+      .select('*')
+      .eq('id', recurringSplitId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error getting recurring split:', error);
+    return null;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Create & Update Recurring Splits
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface RecurringSplitInput {
+  title: string;
+  description?: string;
+  total_amount: number;
+  currency: string;
+  split_method: RecurringSplitMethod;
+  participants: RecurringSplitParticipant[];
+  frequency: RecurrenceFrequency;
+  day_of_month?: number | null;
+}
+
+export async function createRecurringSplit(
+  userId: string,
+  groupId: string,
+  input: RecurringSplitInput,
+  startDate: Date = new Date()
+): Promise<{ success: boolean; recurringSplit?: RecurringSplit; error?: string }> {
+  try {
+    const dayOfMonth = getScheduleDayOfMonth(input.frequency, input.day_of_month, startDate);
+
+    const { data, error } = await supabase
+      .from('recurring_splits')
+      .insert({
+        group_id: groupId,
+        creator_id: userId,
+        title: input.title,
+        description: input.description || null,
+        total_amount: input.total_amount,
+        currency: input.currency,
+        split_method: input.split_method,
+        participants: input.participants,
+        frequency: input.frequency,
+        day_of_month: dayOfMonth,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        next_run_at: getFirstOccurrence(input.frequency, dayOfMonth, startDate).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, recurringSplit: data };
+  } catch (error: any) {
+    console.error('Error creating recurring split:', error);
+    return { success: false, error: error.message || 'Failed to create recurring split' };
+  }
+}
+
+/**
+ * Edit a recurring split. Only future occurrences are affected; splits that
+ * were already generated keep their original amounts and participants.
+ */
+export async function updateRecurringSplit(
+  recurringSplitId: string,
+  input: Partial<RecurringSplitInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const updates: Record<string, any> = { ...input, updated_at: new Date().toISOString() };
+
+    // Changing the schedule moves the next occurrence onto the new schedule
+    if (input.frequency !== undefined || input.day_of_month !== undefined) {
+      const existing = await getRecurringSplit(recurringSplitId);
+      if (!existing) throw new Error('Recurring split not found');
+
+      const frequency = input.frequency ?? existing.frequency;
+      const dayOfMonth =
+        frequency === existing.frequency && frequency === 'monthly'
+          ? getAnchorDay(existing)
+          : getScheduleDayOfMonth(
+              frequency,
+              input.day_of_month ?? existing.day_of_month,
+              // A new monthly schedule starts from the next occurrence worked out below
+              existing.last_run_at ? new Date(existing.last_run_at) : new Date()
+            );
+      updates.day_of_month = dayOfMonth;
+
+      if (frequency !== existing.frequency || dayOfMonth !== existing.day_of_month) {
+        updates.next_run_at = (
+          existing.last_run_at
+            ? calculateNextOccurrence(new Date(existing.last_run_at), frequency, dayOfMonth)
+            : getFirstOccurrence(frequency, dayOfMonth)
+        ).toISOString();
+      }
+    }
+
+    const { error } = await supabase
+      .from('recurring_splits')
+      .update(updates)
+      .eq('id', recurringSplitId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error updating recurring split:', error);
+    return { success: false, error: error.message || 'Failed to update recurring split' };
+  }
+}
+
+export async function setRecurringSplitPaused(
+  recurringSplitId: string,
+  paused: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const updates: Record<string, any> = { paused, updated_at: new Date().toISOString() };
+
+    // Resuming should not generate every occurrence missed while paused
+    if (!paused) {
+      const existing = await getRecurringSplit(recurringSplitId);
+      if (existing) {
+        let next = new Date(existing.next_run_at);
+        const today = startOfDay(new Date());
+        while (next < today) {
+          next = calculateNextOccurrence(next, existing.frequency, getAnchorDay(existing));
+        }
+        updates.next_run_at = next.toISOString();
+      }
+    }
+
+    const { error } = await supabase
+      .from('recurring_splits')
+      .update(updates)
+      .eq('id', recurringSplitId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error pausing recurring split:', error);
+    return { success: false, error: error.message || 'Failed to update recurring split' };
+  }
+}
+
+/**
+ * Skip the next occurrence without generating a split for it
+ */
+export async function skipNextOccurrence(
+  recurringSplitId: string
+): Promise<{ success: boolean; nextRunAt?: string; error?: string }> {
+  try {
+    const existing = await getRecurringSplit(recurringSplitId);
+    if (!existing) throw new Error('Recurring split not found');
+
+    const nextRunAt = calculateNextOccurrence(
+      new Date(existing.next_run_at),
+      existing.frequency,
+      getAnchorDay(existing)
+    ).toISOString();
+
+    const { error } = await supabase
+      .from('recurring_splits')
+      .update({ next_run_at: nextRunAt, updated_at: new Date().toISOString() })
+      .eq('id', recurringSplitId);
+
+    if (error) throw error;
+    return { success: true, nextRunAt };
+  } catch (error: any) {
+    console.error('Error skipping recurring split:', error);
+    return { success: false, error: error.message || 'Failed to skip occurrence' };
+  }
+}
+
+export async function deleteRecurringSplit(
+  recurringSplitId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('recurring_splits')
+      .delete()
+      .eq('id', recurringSplitId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error deleting recurring split:', error);
+    return { success: false, error: error.message || 'Failed to delete recurring split' };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Generate Splits
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Work out what each participant owes for one occurrence.
+ *
+ * The creator is paid back rather than owing themselves, so their share is
+ * calculated but not returned as a participant row (matching ReviewSplitScreen).
+ * For equal splits the creator is listed first so they absorb remainder cents.
+ */
+export function buildOccurrenceParticipants(
+  recurring: Pick<RecurringSplit, 'creator_id' | 'total_amount' | 'split_method' | 'participants'>
+): CreateSplitParticipant[] {
+  const total = Number(recurring.total_amount);
+  let amounts: { [userId: string]: number } = {};
+
+  switch (recurring.split_method) {
+    case 'equal': {
+      const ids = recurring.participants.map(p => p.user_id);
+      const ordered = ids.includes(recurring.creator_id)
+        ? [recurring.creator_id, ...ids.filter(id => id !== recurring.creator_id)]
+        : ids;
+      amounts = calculateEqualSplitAmounts(total, ordered);
+      break;
+    }
+    case 'custom':
+      recurring.participants.forEach(p => {
+        amounts[p.user_id] = Number(p.amount || 0);
+      });
+      break;
+    case 'percentage': {
+      const percentages: { [userId: string]: number } = {};
+      recurring.participants.forEach(p => {
+        percentages[p.user_id] = Number(p.percentage || 0);
+      });
+      amounts = calculatePercentageSplit(total, percentages);
+      break;
+    }
+  }
+
+  return Object.entries(amounts)
+    .filter(([userId, amount]) => userId !== recurring.creator_id && amount > 0)
+    .map(([userId, amount]) => ({ user_id: userId, amount_owed: amount }));
+}
+
+/**
+ * Claim an occurrence by moving next_run_at forward. The update only matches
+ * if nobody else has claimed it first, so two devices can't double-generate.
+ */
+async function claimOccurrence(recurring: RecurringSplit, nextRunAt: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('recurring_splits')
+    .update({ next_run_at: nextRunAt })
+    .eq('id', recurring.id)
+    .eq('next_run_at', recurring.next_run_at)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function generateOccurrence(
+  recurring: RecurringSplit,
+  occurrenceDate: Date
+): Promise<Split> {
+  const participants = buildOccurrenceParticipants(recurring);
+
+  // Participants are notified as part of creating the split
+  const { split } = await createSplit({
+    title: `${recurring.title} (${format(occurrenceDate, 'd MMM')})`,
+    description: recurring.description || undefined,
+    total_amount: Number(recurring.total_amount),
+    currency: recurring.currency,
+    split_method: recurring.split_method,
+    participants,
+    group_id: recurring.group_id,
+    recurring_split_id: recurring.id,
+  });
+
+  await supabase
+    .from('recurring_splits')
+    .update({ last_run_at: occurrenceDate.toISOString(), last_split_id: split.id })
+    .eq('id', recurring.id);
+
+  return split;
+}
+
+/**
+ * Generate a split for every due occurrence of the user's recurring splits.
+ * The server generates them on schedule (generate_due_recurring_splits() in
+ * supabase/add-recurring-split-schedule.sql); this is the catch-up run when
+ * the creator opens the app, for occurrences the job hasn't reached yet.
+ * Both claim an occurrence by moving next_run_at on, so only one of them
+ * generates it.
+ *
+ * @returns The splits that were generated
+ */
+export async function processDueRecurringSplits(userId: string): Promise<Split[]> {
+  const generated: Split[] = [];
+
+  try {
+    const now = new Date();
+
+    const { data: due, error } = await supabase
+      .from('recurring_splits')
+      .select('*')
+      .eq('creator_id', userId)
+      .eq('paused', false)
+      .lte('next_run_at', now.toISOString());
+
+    if (error) throw error;
+    if (!due || due.length === 0) return generated;
+
+    for (const template of due as RecurringSplit[]) {
+      let recurring = template;
+
+      for (let i = 0; i < MAX_CATCH_UP_OCCURRENCES; i++) {
+        const occurrenceDate = new Date(recurring.next_run_at);
+        if (occurrenceDate > now) break;
+
+        const nextRunAt = calculateNextOccurrence(
+          occurrenceDate,
+          recurring.frequency,
+          getAnchorDay(recurring)
+        ).toISOString();
+
+        if (!(await claimOccurrence(recurring, nextRunAt))) break;
+
+        try {
+          generated.push(await generateOccurrence(recurring, occurrenceDate));
+        } catch (error) {
+          // Hand the occurrence back so it is retried next time
+          await supabase
+            .from('recurring_splits')
+            .update({ next_run_at: recurring.next_run_at })
+            .eq('id', recurring.id)
+            .eq('next_run_at', nextRunAt);
+          throw error;
+        }
+
+        recurring = { ...recurring, next_run_at: nextRunAt };
+      }
+    }
+  } catch (error) {
+    console.error('Error processing recurring splits:', error);
+  }
+
+  return generated;
+}
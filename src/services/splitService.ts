@@ -1,27 +1,52 @@
+import * as Crypto from 'expo-crypto';
 import { supabase } from './supabase';
+import { getRateSnapshot } from './currencyService';
+import {
+  buildSplitItems,
+  buildUserItemAssignments,
+  CreateSplitItemData,
+  getClaimsTotalCents,
+  getReceiptExtrasCents,
+  SplitItem,
+} from './itemService';
+import { getExpiryDate, PaymentLink, PaymentLinkExpiry, withFreshShortCode } from './paymentLinkService';
+import { formatPaymentInstructions, PaymentDetails } from './paymentService';
+import { notifySplitUpdated } from './notificationService';
+import { ExchangeRateSnapshot, formatMoney, PAYMENT_CURRENCY } from '../utils/currency';
+import { allocateCentsByKey, Cents, fromCents, sumCents, toCents } from '../utils/money';
+import { AppliedReceiptCorrection, ReceiptAdjustment, ReceiptItem } from '../types/receipt';
+import { UserItemSelections } from '../utils/splitCalculations';
 
 export interface CreateSplitParticipant {
+  id?: string; // Client-generated so queued offline writes can reference it
   user_id?: string;
   amount_owed: number;
+  share_weight?: number; // Shares splits
   external_name?: string;
   external_email?: string;
   external_phone?: string;
 }
 
 export interface CreateSplitData {
+  id?: string; // Client-generated so a replayed offline creation is idempotent
   title: string;
   description?: string;
   total_amount: number;
   currency: string;
-  split_method: 'equal' | 'custom' | 'percentage' | 'receipt';
+  split_method: 'equal' | 'custom' | 'percentage' | 'shares' | 'receipt';
   participants: CreateSplitParticipant[];
+  creator_share_weight?: number; // Shares splits: the creator's own weight
   image_url?: string;
   receipt_data?: {
     subtotal: number;
     tax: number;
     tip: number;
+    adjustments?: ReceiptAdjustment[];
   };
+  receipt_corrections?: AppliedReceiptCorrection[];
   group_id?: string;
+  recurring_split_id?: string;
+  exchange_rates?: ExchangeRateSnapshot; // Rates when the split was made (kept by offline splits); captured on save if omitted
 }
 
 export interface Split {
@@ -33,14 +58,18 @@ export interface Split {
   tax_amount?: number;
   tip_amount?: number;
   currency: string;
+  exchange_rates?: ExchangeRateSnapshot | null;
   image_url?: string;
-  split_type?: 'equal' | 'custom' | 'percentage' | 'receipt';
+  split_type?: 'equal' | 'custom' | 'percentage' | 'shares' | 'receipt';
+  creator_share_weight?: number | null; // Shares splits
   status: 'active' | 'settled';
   receipt_parsed_data?: {
     tax?: number;
     tip?: number;
     subtotal?: number;
   };
+  receipt_corrections?: AppliedReceiptCorrection[];
+  receipt_adjustments?: ReceiptAdjustment[]; // Item-level ones by split item ID
   created_at: string;
   updated_at: string;
 }
@@ -52,68 +81,135 @@ export interface SplitParticipant {
   amount_owed: number;
   amount_paid: number;
   status: 'pending' | 'paid';
+  share_weight?: number | null; // Shares splits
+  payment_reference?: string; // Goes in bank transfer descriptions, see reconciliationService
   external_name?: string | null;
   external_email?: string | null;
   external_phone?: string | null;
 }
 
 /**
- * Create a new split in the database with participants
+ * One instalment towards a participant's share (a payment_allocations row)
+ */
+export interface ParticipantPayment {
+  id: string;
+  participant_id: string;
+  split_id: string;
+  payment_id: string | null; // Card and PayTo payments only
+  amount: number; // In the split's currency
+  // 'payment' = card or PayTo, 'offset' = cancelled against a settle-up, 'manual' = recorded by the creator,
+  // 'refund' / 'chargeback' = part of a card payment taken back off the share,
+  // 'credit' = an overpayment the creator paid back after an edit
+  allocation_type: 'payment' | 'offset' | 'manual' | 'refund' | 'chargeback' | 'credit';
+  recorded_by: string | null;
+  note: string | null;
+  created_at: string;
+  payment?: { payment_method: string } | null; // The payment this came from, if any
+}
+
+export interface CreateSplitItemAssignment {
+  user_id: string;
+  selections: UserItemSelections;
+}
+
+export interface CreateSplitOptions {
+  items?: ReceiptItem[];
+  itemAssignments?: CreateSplitItemAssignment[];
+  paymentLinkExpiry?: PaymentLinkExpiry; // Also create a split-wide payment link
+}
+
+export interface CreatedSplit {
+  split: Split;
+  paymentLink: PaymentLink | null;
+}
+
+/**
+ * Create a new split with its participants, receipt items, item
+ * assignments and (optionally) a payment link
  *
- * RLS is enabled with proper non-recursive policies using SECURITY DEFINER functions.
- * Users can only see/modify splits they created or participate in.
+ * Everything is saved in one transaction by the create_split() RPC (see
+ * supabase/add-atomic-split-creation.sql), which also notifies the
+ * participants. A dropped connection leaves either the whole split or
+ * nothing. Creating a split whose ID already exists returns the existing
+ * one, so an offline replay can safely run again.
  */
-export async function createSplit(data: CreateSplitData): Promise<Split> {
+export async function createSplit(
+  data: CreateSplitData,
+  options: CreateSplitOptions = {}
+): Promise<CreatedSplit> {
   // Get current user
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
 
-  // Prepare split data for insertion (handle undefined values)
+  // Snapshot rates now so shares in other currencies never drift
+  const exchangeRates = data.exchange_rates || await getRateSnapshot(data.currency);
+
+  // Items and assignments point at each other, so IDs are generated here
+  const splitId = data.id || Crypto.randomUUID();
+
+  const items: CreateSplitItemData[] = options.items?.length
+    ? buildSplitItems(splitId, options.items, () => Crypto.randomUUID())
+    : [];
+
+  // Item-level adjustments point at receipt items; save them against the split's items
+  const splitItemIds = new Map((options.items || []).map((item, index) => [item.id, items[index]?.id]));
+  const adjustments = (data.receipt_data?.adjustments || []).map(adjustment =>
+    adjustment.scope === 'item' && adjustment.itemId
+      ? { ...adjustment, itemId: splitItemIds.get(adjustment.itemId) }
+      : adjustment
+  );
+
   const splitData = {
-    creator_id: user.id,
+    id: splitId,
     title: data.title,
     description: data.description || null,
     total_amount: data.total_amount,
     currency: data.currency,
+    exchange_rates: exchangeRates,
     split_type: data.split_method, // Map split_method to split_type column
+    creator_share_weight: data.creator_share_weight ?? null,
     image_url: data.image_url || null,
     group_id: data.group_id || null,
-    status: 'active' as const,
+    receipt_corrections: data.receipt_corrections?.length ? data.receipt_corrections : null,
+    receipt_adjustments: adjustments.length ? adjustments : null,
+    recurring_split_id: data.recurring_split_id || null,
   };
 
-  // Insert split record
-  const { data: split, error: splitError} = await supabase
-    .from('splits')
-    .insert(splitData)
-    .select()
-    .single();
-
-  if (splitError) throw splitError;
-  if (!split) throw new Error('Failed to create split');
-
-  // Insert participants (including creator and external participants)
+  // Participants (including external participants)
   const participantsData = data.participants.map(p => ({
-    split_id: split.id,
+    id: p.id || null,
     user_id: p.user_id || null,
     amount_owed: p.amount_owed,
-    amount_paid: 0,
-    status: 'pending' as const,
+    share_weight: p.share_weight ?? null,
     external_name: p.external_name || null,
     external_email: p.external_email || null,
     external_phone: p.external_phone || null,
   }));
 
-  const { error: participantsError } = await supabase
-    .from('split_participants')
-    .insert(participantsData);
+  const itemAssignments = (options.itemAssignments || []).flatMap(assignment =>
+    buildUserItemAssignments(
+      assignment.user_id,
+      items.map(item => ({ ...item, id: item.id! })),
+      options.items || [],
+      assignment.selections
+    )
+  );
 
-  if (participantsError) {
-    // Rollback: delete the split if participants insertion fails
-    await supabase.from('splits').delete().eq('id', split.id);
-    throw participantsError;
-  }
+  const expiresAt = options.paymentLinkExpiry ? getExpiryDate(options.paymentLinkExpiry) : null;
+
+  const result = await withFreshShortCode<{ split: Split; payment_link: PaymentLink | null }>(shortCode =>
+    supabase.rpc('create_split', {
+      p_split: splitData,
+      p_participants: participantsData,
+      p_items: items,
+      p_item_assignments: itemAssignments,
+      p_payment_link: options.paymentLinkExpiry ? { short_code: shortCode, expires_at: expiresAt } : null,
+    })
+  );
+
+  if (!result?.split) throw new Error('Failed to create split');
 
-  return split;
+  return { split: result.split, paymentLink: result.payment_link };
 }
 
 /**
@@ -125,58 +221,80 @@ export function calculateEqualSplit(
   participantCount: number
 ): number {
   if (participantCount === 0) return 0;
-  // Use floor to avoid exceeding total, remainder goes to first participant
-  return Math.floor((total / participantCount) * 100) / 100;
+  // Use floor to avoid exceeding total, remainder goes to first participants
+  return fromCents(Math.floor(toCents(total) / participantCount));
 }
 
 /**
  * Calculate equal split amounts for all participants
- * Ensures the sum exactly matches the total by giving remainder cents to first participant
+ * Ensures the sum exactly matches the total by giving remainder cents to the first participants
  */
 export function calculateEqualSplitAmounts(
   total: number,
   participantIds: string[]
 ): { [participantId: string]: number } {
-  const count = participantIds.length;
-  if (count === 0) return {};
-
-  // Calculate base amount (floor to avoid exceeding total)
-  const baseAmount = Math.floor((total / count) * 100) / 100;
-
-  // Calculate what we've assigned so far
-  const assignedTotal = baseAmount * count;
-
-  // Calculate remainder (in cents to avoid floating point issues)
-  const remainderCents = Math.round((total - assignedTotal) * 100);
-
-  const amounts: { [participantId: string]: number } = {};
-
-  participantIds.forEach((id, index) => {
-    if (index < remainderCents) {
-      // Give 1 extra cent to first N participants where N = remainder cents
-      amounts[id] = Math.round((baseAmount + 0.01) * 100) / 100;
-    } else {
-      amounts[id] = baseAmount;
-    }
+  const weights: { [participantId: string]: number } = {};
+  participantIds.forEach(id => {
+    weights[id] = 1;
   });
 
-  return amounts;
+  return toDollarAmounts(allocateCentsByKey(toCents(total), weights));
 }
 
 /**
  * Calculate percentage-based split amounts
+ *
+ * Amounts are allocated by largest remainder, so when the percentages add
+ * up to 100 the amounts add up to exactly the total.
  */
 export function calculatePercentageSplit(
   total: number,
   percentages: { [participantId: string]: number }
 ): { [participantId: string]: number } {
-  const amounts: { [participantId: string]: number } = {};
+  const percentageTotal = Object.values(percentages).reduce(
+    (sum, percentage) => sum + Math.max(percentage, 0),
+    0
+  );
+  // Percentages within a hundredth of 100 (e.g. three lots of 33.33) cover the whole total
+  const coveredCents = Math.abs(percentageTotal - 100) <= 0.01
+    ? toCents(total)
+    : Math.round(toCents(total) * percentageTotal / 100);
 
-  Object.entries(percentages).forEach(([participantId, percentage]) => {
-    amounts[participantId] = Math.round((total * percentage / 100) * 100) / 100;
-  });
+  return toDollarAmounts(allocateCentsByKey(coveredCents, percentages));
+}
 
-  return amounts;
+/**
+ * Calculate shares-based split amounts ("Sam pays 2 shares, everyone else 1")
+ *
+ * The total is divided in proportion to each person's weight (whole or
+ * decimal), by largest remainder, so the amounts add up to exactly the
+ * total. Leftover cents go to the earliest weights, so list the creator
+ * first.
+ */
+export function calculateSharesSplit(
+  total: number,
+  weights: { [participantId: string]: number }
+): { [participantId: string]: number } {
+  return toDollarAmounts(allocateCentsByKey(toCents(total), weights));
+}
+
+/**
+ * Validate share weights (none negative, at least one above zero)
+ */
+export function validateShareWeights(
+  weights: { [participantId: string]: number }
+): { valid: boolean; error?: string } {
+  const values = Object.values(weights);
+
+  if (values.some(weight => !Number.isFinite(weight) || weight < 0)) {
+    return { valid: false, error: 'Weights can\'t be negative' };
+  }
+
+  if (!values.some(weight => weight > 0)) {
+    return { valid: false, error: 'At least one person needs a weight above 0' };
+  }
+
+  return { valid: true };
 }
 
 /**
@@ -186,13 +304,18 @@ export function validateCustomSplit(
   amounts: { [participantId: string]: number },
   total: number
 ): { valid: boolean; difference: number } {
-  const sum = Object.values(amounts).reduce((acc, val) => acc + val, 0);
-  const difference = Math.round((sum - total) * 100) / 100;
+  const sum = sumCents(Object.values(amounts).map(toCents));
+  const differenceCents = sum - toCents(total);
 
-  // Allow for small floating point errors (< 1 cent)
-  const valid = Math.abs(difference) < 0.01;
+  return { valid: differenceCents === 0, difference: fromCents(differenceCents) };
+}
 
-  return { valid, difference };
+function toDollarAmounts(cents: { [participantId: string]: Cents }): { [participantId: string]: number } {
+  const amounts: { [participantId: string]: number } = {};
+  Object.entries(cents).forEach(([participantId, value]) => {
+    amounts[participantId] = fromCents(value);
+  });
+  return amounts;
 }
 
 /**
@@ -248,6 +371,7 @@ export interface SplitWithParticipants extends Split {
     full_name?: string;
     avatar_url?: string;
   };
+  sync_status?: 'pending' | 'failed'; // Set on splits that only exist in the offline queue
 }
 
 /**
@@ -328,80 +452,63 @@ export async function getUserSplits(): Promise<SplitWithParticipants[]> {
       // Get creator's claims (they don't pay themselves)
       const { data: creatorClaims } = await supabase
         .from('item_claims')
-        .select('item_amount, share_count')
+        .select('item_id, item_amount, share_count')
         .eq('split_id', split.id)
         .eq('claimed_by_user_id', split.creator_id);
 
       // Get all claims for this split to calculate totals
       const { data: allClaims } = await supabase
         .from('item_claims')
-        .select('item_amount, share_count, claimed_by_email, claimed_by_user_id')
+        .select('item_id, item_amount, share_count, claimed_by_email, claimed_by_user_id')
         .eq('split_id', split.id);
 
       // Get ACTUAL total items value from split_items (not from claims)
       const { data: splitItems } = await supabase
         .from('split_items')
-        .select('total_price')
+        .select('*')
         .eq('split_id', split.id);
 
-      const totalItemsValue = splitItems?.reduce((sum, item) => sum + Number(item.total_price), 0) || 0;
-
       const paidCount = participants?.filter(p => p.status === 'paid').length || 0;
 
-      // Calculate creator's claimed items
-      const creatorClaimedItems = creatorClaims?.reduce((sum, claim) => {
-        const shareCount = claim.share_count || 1;
-        return sum + (Number(claim.item_amount) / shareCount);
-      }, 0) || 0;
-
-      // Calculate tax/tip using actual items value (not just claimed items)
-      const taxTipAmount = Math.max(0, split.total_amount - totalItemsValue);
+      // Tax/tip is what the total adds on top of the actual items (not just claimed
+      // items) and the adjustments, which can make it negative on an older split
+      const items: SplitItem[] = splitItems || [];
+      const adjustments = split.receipt_adjustments || [];
+      const taxTipCents = getReceiptExtrasCents(split.total_amount, items, adjustments);
 
-      // Calculate proportional tax/tip for creator
-      const creatorTaxTipShare = totalItemsValue > 0
-        ? (creatorClaimedItems / totalItemsValue) * taxTipAmount
-        : 0;
-      const creatorClaimedAmount = creatorClaimedItems + creatorTaxTipShare;
+      // Creator's claimed items plus their share of adjustments and tax/tip
+      const creatorClaimedAmount = fromCents(getClaimsTotalCents(creatorClaims || [], items, adjustments, taxTipCents));
 
       // Calculate total paid - use ITEM amounts from claims plus proportional tax/tip
       const paidEmails = new Set(
         (webPayments || []).map((wp: any) => wp.payer_email?.toLowerCase())
       );
-      const participantsPaid = participants?.reduce((sum, p) => sum + (p.amount_paid || 0), 0) || 0;
+      const participantsPaidCents = sumCents((participants || []).map(p => toCents(Number(p.amount_paid || 0))));
 
-      // Sum item amounts for users who have paid (excluding creator)
-      const paidClaimsItems = (allClaims || []).reduce((sum, claim) => {
-        if (claim.claimed_by_user_id === split.creator_id) return sum;
+      // Claims by users who have paid (excluding creator)
+      const paidClaims = (allClaims || []).filter(claim => {
+        if (claim.claimed_by_user_id === split.creator_id) return false;
         const email = claim.claimed_by_email?.toLowerCase();
-        if (email && paidEmails.has(email)) {
-          const shareCount = claim.share_count || 1;
-          return sum + (Number(claim.item_amount) / shareCount);
-        }
-        return sum;
-      }, 0);
+        return !!email && paidEmails.has(email);
+      });
+      const paidClaimsCents = getClaimsTotalCents(paidClaims, items, adjustments, taxTipCents);
 
-      // Add proportional tax/tip to paid claims based on total items value
-      const paidTaxTipShare = totalItemsValue > 0
-        ? (paidClaimsItems / totalItemsValue) * taxTipAmount
-        : 0;
-      const paidClaimsTotal = paidClaimsItems + paidTaxTipShare;
-
-      const totalPaid = participantsPaid + paidClaimsTotal;
+      const totalPaid = fromCents(participantsPaidCents + paidClaimsCents);
 
       // Amount owed by others depends on split type
       // For receipt splits: use item claims to determine creator's share
       // For manual splits: use sum of participant amounts (they are the ones who owe)
       const isReceiptSplit = split.split_type === 'receipt';
-      const participantAmountsTotal = participants?.reduce((sum, p) => sum + (p.amount_owed || 0), 0) || 0;
+      const participantAmountsTotal = fromCents(sumCents((participants || []).map(p => toCents(Number(p.amount_owed || 0)))));
 
       const amountOwedByOthers = isReceiptSplit
-        ? split.total_amount - creatorClaimedAmount
+        ? fromCents(toCents(split.total_amount) - toCents(creatorClaimedAmount))
         : participantAmountsTotal;
 
       // For manual splits, creator's share is total minus what participants owe
       const creatorShareAmount = isReceiptSplit
         ? creatorClaimedAmount
-        : split.total_amount - participantAmountsTotal;
+        : fromCents(toCents(split.total_amount) - toCents(participantAmountsTotal));
 
       return {
         ...split,
@@ -411,7 +518,7 @@ export async function getUserSplits(): Promise<SplitWithParticipants[]> {
         total_paid: totalPaid,
         creator_claimed_amount: creatorShareAmount,
         amount_owed_by_others: amountOwedByOthers,
-        amount_remaining: Math.max(0, amountOwedByOthers - totalPaid),
+        amount_remaining: fromCents(Math.max(0, toCents(amountOwedByOthers) - toCents(totalPaid))),
         creator: creatorMap.get(split.creator_id),
       };
     })
@@ -437,7 +544,8 @@ export async function getSplitParticipants(splitId: string) {
         id,
         email,
         full_name,
-        avatar_url
+        avatar_url,
+        home_currency
       )
     `)
     .eq('split_id', splitId);
@@ -495,42 +603,20 @@ export function validateTitle(title: string): { valid: boolean; error?: string }
 /**
  * Create a receipt-based split with items and assignments
  *
- * This is a convenience function that:
- * 1. Creates the split record
- * 2. Creates split items
- * 3. Creates item assignments
+ * A convenience wrapper around createSplit(), which saves the split,
+ * its items and any assignments together.
  *
  * @param data - Split creation data
- * @param items - Receipt items
- * @param assignments - Item assignments
- * @returns Created split
+ * @param receiptItems - Receipt items
+ * @param options - Item assignments and payment link
+ * @returns Created split and its payment link, if one was asked for
  */
 export async function createReceiptSplit(
   data: CreateSplitData,
-  receiptItems: any[],
-  itemAssignments: any[]
-): Promise<Split> {
-  // Import itemService functions (avoid circular dependency)
-  const { createSplitItems, createUserItemAssignments } = require('./itemService');
-
-  // Create the split record first
-  const split = await createSplit(data);
-
-  try {
-    // Create split items (if provided)
-    if (receiptItems && receiptItems.length > 0) {
-      await createSplitItems(split.id, receiptItems);
-    }
-
-    // Note: Item assignments are created separately by each user
-    // when they mark their items, so we don't create them here
-
-    return split;
-  } catch (error) {
-    // Rollback: delete the split if items/assignments creation fails
-    await supabase.from('splits').delete().eq('id', split.id);
-    throw error;
-  }
+  receiptItems: ReceiptItem[],
+  options: Omit<CreateSplitOptions, 'items'> = {}
+): Promise<CreatedSplit> {
+  return createSplit(data, { ...options, items: receiptItems });
 }
 
 // ============================================================================
@@ -604,92 +690,67 @@ export async function getSplitById(splitId: string): Promise<SplitWithParticipan
   // Get creator's claims (creator doesn't pay themselves)
   const { data: creatorClaims } = await supabase
     .from('item_claims')
-    .select('item_amount, share_count')
+    .select('item_id, item_amount, share_count')
     .eq('split_id', splitId)
     .eq('claimed_by_user_id', split.creator_id);
 
   const paidCount = participants?.filter(p => p.status === 'paid').length || 0;
 
-  // Calculate creator's claimed total (they don't need to pay themselves)
-  const creatorClaimedItems = creatorClaims?.reduce((sum, claim) => {
-    const shareCount = claim.share_count || 1;
-    return sum + (Number(claim.item_amount) / shareCount);
-  }, 0) || 0;
-
-  // Get all item claims to calculate total claimed items value
+  // Get all item claims to work out who has paid for what
   const { data: allClaims } = await supabase
     .from('item_claims')
-    .select('item_amount, share_count, claimed_by_email, claimed_by_user_id')
+    .select('item_id, item_amount, share_count, claimed_by_email, claimed_by_user_id')
     .eq('split_id', splitId);
 
-  const totalClaimedItems = allClaims?.reduce((sum, claim) => {
-    const shareCount = claim.share_count || 1;
-    return sum + (Number(claim.item_amount) / shareCount);
-  }, 0) || 0;
-
   // Get ACTUAL total items value from split_items (not from claims)
   // This is needed for accurate tax/tip calculation when not all items are claimed
   const { data: splitItems } = await supabase
     .from('split_items')
-    .select('total_price')
+    .select('*')
     .eq('split_id', splitId);
 
-  const totalItemsValue = splitItems?.reduce((sum, item) => sum + Number(item.total_price), 0) || 0;
-
-  // Calculate tax/tip as difference between total and actual items subtotal
-  // Use totalItemsValue (from receipt), NOT totalClaimedItems (only what's been claimed)
-  const taxTipAmount = Math.max(0, split.total_amount - totalItemsValue);
+  // Tax/tip is what the total adds on top of the actual items subtotal and the
+  // adjustments. Use the items from the receipt, NOT only what's been claimed
+  const items: SplitItem[] = splitItems || [];
+  const adjustments = split.receipt_adjustments || [];
+  const taxTipCents = getReceiptExtrasCents(split.total_amount, items, adjustments);
 
-  // Calculate proportional tax/tip for creator's items
-  const creatorTaxTipShare = totalItemsValue > 0
-    ? (creatorClaimedItems / totalItemsValue) * taxTipAmount
-    : 0;
-  const creatorClaimedAmount = creatorClaimedItems + creatorTaxTipShare;
+  // Creator's claimed items plus their share of adjustments and tax/tip (they don't need to pay themselves)
+  const creatorClaimedAmount = fromCents(getClaimsTotalCents(creatorClaims || [], items, adjustments, taxTipCents));
 
   // Calculate total paid - use ITEM amounts from claims plus proportional tax/tip
   // This represents what the creator will actually receive (excluding service fees which go to platform)
   const paidEmails = new Set(
     (webPayments || []).map((wp: any) => wp.payer_email?.toLowerCase())
   );
-  const participantsPaid = participants?.reduce((sum, p) => sum + (p.amount_paid || 0), 0) || 0;
+  const participantsPaidCents = sumCents((participants || []).map(p => toCents(Number(p.amount_paid || 0))));
 
-  // Sum item amounts for users who have paid (excluding creator)
-  const paidClaimsItems = (allClaims || []).reduce((sum, claim) => {
-    // Skip creator's claims
-    if (claim.claimed_by_user_id === split.creator_id) return sum;
-    // Check if this user has paid via web payment
+  // Claims by users who have paid via web payment (excluding creator)
+  const paidClaims = (allClaims || []).filter(claim => {
+    if (claim.claimed_by_user_id === split.creator_id) return false;
     const email = claim.claimed_by_email?.toLowerCase();
-    if (email && paidEmails.has(email)) {
-      const shareCount = claim.share_count || 1;
-      return sum + (Number(claim.item_amount) / shareCount);
-    }
-    return sum;
-  }, 0);
-
-  // Add proportional tax/tip to paid claims based on total items value (not just claimed)
-  const paidTaxTipShare = totalItemsValue > 0
-    ? (paidClaimsItems / totalItemsValue) * taxTipAmount
-    : 0;
-  const paidClaimsTotal = paidClaimsItems + paidTaxTipShare;
+    return !!email && paidEmails.has(email);
+  });
+  const paidClaimsCents = getClaimsTotalCents(paidClaims, items, adjustments, taxTipCents);
 
-  const totalPaid = participantsPaid + paidClaimsTotal;
+  const totalPaid = fromCents(participantsPaidCents + paidClaimsCents);
 
   // Amount owed by others depends on split type
   // For receipt splits: use item claims to determine creator's share
   // For manual splits: use sum of participant amounts (they are the ones who owe)
   const isReceiptSplit = split.split_type === 'receipt';
-  const participantAmountsTotal = participants?.reduce((sum, p) => sum + (p.amount_owed || 0), 0) || 0;
+  const participantAmountsTotal = fromCents(sumCents((participants || []).map(p => toCents(Number(p.amount_owed || 0)))));
 
   const amountOwedByOthers = isReceiptSplit
-    ? split.total_amount - creatorClaimedAmount
+    ? fromCents(toCents(split.total_amount) - toCents(creatorClaimedAmount))
     : participantAmountsTotal;
 
   // For manual splits, creator's share is total minus what participants owe
   const creatorShareAmount = isReceiptSplit
     ? creatorClaimedAmount
-    : split.total_amount - participantAmountsTotal;
+    : fromCents(toCents(split.total_amount) - toCents(participantAmountsTotal));
 
-  const amountRemaining = Math.max(0, amountOwedByOthers - totalPaid);
+  const amountRemaining = fromCents(Math.max(0, toCents(amountOwedByOthers) - toCents(totalPaid)));
 
   return {
     ...split,
@@ -705,45 +766,98 @@ export async function getSplitById(splitId: string): Promise<SplitWithParticipan
   };
 }
 
+/**
+ * What a participant still owes on their share, in the split's currency
+ */
+export function getOutstandingAmount(participant: Pick<SplitParticipant, 'amount_owed' | 'amount_paid'>): number {
+  const cents = toCents(Number(participant.amount_owed)) - toCents(Number(participant.amount_paid || 0));
+  return fromCents(Math.max(cents, 0));
+}
+
 /**
  * Mark a participant as paid
  *
+ * Records whatever is still outstanding as a manual payment, so the
+ * participant's payment history adds up to their share.
+ *
  * @param participantId - Participant ID from split_participants table
  * @param splitId - Split ID (for checking if all paid)
+ * @param paymentId - Client-generated ID, so a replayed offline write is recorded once
  * @returns Updated participant
  */
 export async function markParticipantAsPaid(
   participantId: string,
-  splitId: string
+  splitId: string,
+  paymentId?: string
 ): Promise<SplitParticipant> {
-  // First get the participant to know their amount_owed
+  // First get the participant to know what's left to pay
   const { data: existingParticipant, error: fetchError } = await supabase
     .from('split_participants')
-    .select('amount_owed')
+    .select('*')
     .eq('id', participantId)
     .single();
 
   if (fetchError) throw fetchError;
 
-  // Update participant to paid with amount_paid = amount_owed
-  const { data: participant, error } = await supabase
-    .from('split_participants')
-    .update({
-      status: 'paid',
-      amount_paid: existingParticipant.amount_owed,
-    })
-    .eq('id', participantId)
-    .select()
-    .single();
+  const outstanding = getOutstandingAmount(existingParticipant);
+  if (existingParticipant.status === 'paid' || outstanding <= 0) {
+    return existingParticipant;
+  }
+
+  return recordParticipantPayment(participantId, splitId, outstanding, { paymentId });
+}
+
+/**
+ * Record a payment towards a participant's share (cash, bank transfer)
+ *
+ * Any amount up to what's outstanding can be recorded; the participant is
+ * marked paid once nothing is left. Only the split creator can record
+ * payments (enforced by record_participant_payment()).
+ *
+ * @param participantId - Participant ID from split_participants table
+ * @param splitId - Split ID (for checking if all paid)
+ * @param amount - Amount paid, in the split's currency
+ * @param options.note - Shown in the payment history
+ * @param options.paymentId - Client-generated ID, so a replayed offline write is recorded once
+ * @returns Updated participant
+ */
+export async function recordParticipantPayment(
+  participantId: string,
+  splitId: string,
+  amount: number,
+  options: { note?: string; paymentId?: string } = {}
+): Promise<SplitParticipant> {
+  const { data: participant, error } = await supabase.rpc('record_participant_payment', {
+    p_participant_id: participantId,
+    p_amount: fromCents(toCents(amount)),
+    p_note: options.note || null,
+    p_allocation_id: options.paymentId || null,
+  });
 
   if (error) throw error;
 
   // Check if all participants are now paid
-  await checkIfSplitSettled(splitId);
+  if (participant?.status === 'paid') {
+    await checkIfSplitSettled(splitId);
+  }
 
   return participant;
 }
 
+/**
+ * Get every payment made towards shares of a split, oldest first
+ */
+export async function getSplitPayments(splitId: string): Promise<ParticipantPayment[]> {
+  const { data, error } = await supabase
+    .from('payment_allocations')
+    .select('*, payment:payments (payment_method)')
+    .eq('split_id', splitId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
 /**
  * Check if all participants have paid, and mark split as settled
  *
@@ -774,8 +888,10 @@ export async function checkIfSplitSettled(splitId: string): Promise<boolean> {
 }
 
 /**
- * Update split (title, description, amount)
- * Only basic fields for MVP
+ * Update a split's title and description
+ *
+ * Use editSplit() to change the total or shares, so participants'
+ * amounts are rebalanced with it.
  *
  * @param splitId - Split ID
  * @param updates - Fields to update
@@ -786,7 +902,6 @@ export async function updateSplit(
   updates: {
     title?: string;
     description?: string;
-    total_amount?: number;
   }
 ): Promise<Split> {
   const { data, error } = await supabase
@@ -800,6 +915,249 @@ export async function updateSplit(
   return data;
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Split Editing
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type SplitEditMethod = 'equal' | 'custom' | 'percentage' | 'shares';
+
+/**
+ * Someone other than the creator in an edited split
+ */
+export interface SplitEditParticipant {
+  id?: string; // Existing participant row; omit for someone new
+  user_id?: string; // Required for someone new
+  amount?: number; // Custom splits
+  percentage?: number; // Percentage splits
+  weight?: number; // Shares splits
+}
+
+export interface SplitEdit {
+  title: string;
+  description?: string;
+  total_amount: number;
+  split_method: SplitEditMethod;
+  participants: SplitEditParticipant[]; // Everyone except the creator
+  creator_percentage?: number; // Percentage splits: the creator's own percentage
+  creator_weight?: number; // Shares splits: the creator's own weight
+}
+
+/**
+ * A participant whose share an edit changed (an edit_split() row)
+ */
+export interface SplitEditChange {
+  participant_id: string;
+  user_id: string | null;
+  change: 'added' | 'removed' | 'updated';
+  previous_amount_owed: number;
+  amount_owed: number;
+  amount_paid: number;
+}
+
+function getEditKey(participant: SplitEditParticipant): string {
+  return participant.id || `new:${participant.user_id}`;
+}
+
+/**
+ * Work out everyone's new share for an edit
+ *
+ * Equal splits divide the total between the creator and everyone else,
+ * with the creator first so they absorb any remainder cents. Percentage
+ * and shares splits allocate by everyone's percentage or weight, the
+ * creator's included. In custom splits the creator's share is whatever
+ * the others don't cover.
+ *
+ * @returns New share per participant (keyed by id, or "new:<user_id>") and the creator's share
+ * @throws Error if the shares can't add up to the total
+ */
+export function calculateEditedShares(edit: SplitEdit): {
+  shares: { [key: string]: number };
+  creatorShare: number;
+} {
+  const keys = edit.participants.map(getEditKey);
+  const totalCents = toCents(edit.total_amount);
+  const shares: { [key: string]: number } = {};
+
+  switch (edit.split_method) {
+    case 'equal': {
+      const amounts = calculateEqualSplitAmounts(edit.total_amount, ['creator', ...keys]);
+      keys.forEach(key => {
+        shares[key] = amounts[key];
+      });
+      break;
+    }
+    case 'percentage': {
+      const percentages: { [key: string]: number } = { creator: edit.creator_percentage || 0 };
+      edit.participants.forEach((p, index) => {
+        percentages[keys[index]] = p.percentage || 0;
+      });
+
+      const percentageTotal = Object.values(percentages).reduce((sum, value) => sum + value, 0);
+      if (Math.abs(percentageTotal - 100) > 0.01) {
+        throw new Error(`Percentages must add up to 100% (currently ${percentageTotal.toFixed(1)}%)`);
+      }
+
+      const amounts = calculatePercentageSplit(edit.total_amount, percentages);
+      keys.forEach(key => {
+        shares[key] = amounts[key];
+      });
+      break;
+    }
+    case 'shares': {
+      const weights: { [key: string]: number } = { creator: edit.creator_weight ?? 0 };
+      edit.participants.forEach((p, index) => {
+        weights[keys[index]] = p.weight ?? 0;
+      });
+
+      const validation = validateShareWeights(weights);
+      if (!validation.valid) throw new Error(validation.error);
+
+      const amounts = calculateSharesSplit(edit.total_amount, weights);
+      keys.forEach(key => {
+        shares[key] = amounts[key];
+      });
+      break;
+    }
+    case 'custom':
+      edit.participants.forEach((p, index) => {
+        shares[keys[index]] = fromCents(toCents(p.amount || 0));
+      });
+      break;
+  }
+
+  if (Object.values(shares).some(amount => amount < 0)) {
+    throw new Error('Shares can\'t be negative');
+  }
+
+  const creatorCents = totalCents - sumCents(Object.values(shares).map(toCents));
+  if (creatorCents < 0) {
+    throw new Error('Shares add up to more than the total');
+  }
+
+  return { shares, creatorShare: fromCents(creatorCents) };
+}
+
+/**
+ * Describe how an edit changed someone's share, for their notification
+ */
+export function describeShareChange(
+  change: SplitEditChange,
+  splitTitle: string,
+  creatorName: string,
+  currency: string
+): string {
+  const owed = Number(change.amount_owed);
+  const paid = Number(change.amount_paid);
+  const creditCents = toCents(paid) - toCents(owed);
+
+  if (change.change === 'removed') {
+    return paid > 0
+      ? `${creatorName} removed you from "${splitTitle}". They owe you ${formatMoney(paid, currency)} back.`
+      : `${creatorName} removed you from "${splitTitle}".`;
+  }
+
+  const share = change.change === 'added'
+    ? `${creatorName} added you to "${splitTitle}". Your share is ${formatMoney(owed, currency)}.`
+    : `${creatorName} changed "${splitTitle}". Your share is now ${formatMoney(owed, currency)} (was ${formatMoney(Number(change.previous_amount_owed), currency)}).`;
+
+  if (creditCents > 0) {
+    return `${share} You've paid ${formatMoney(paid, currency)}, so they owe you ${formatMoney(fromCents(creditCents), currency)} back.`;
+  }
+  if (paid > 0 && creditCents < 0) {
+    return `${share} You've paid ${formatMoney(paid, currency)}, so ${formatMoney(fromCents(-creditCents), currency)} is left to pay.`;
+  }
+  return share;
+}
+
+/**
+ * Edit a split's details and rebalance everyone's share
+ *
+ * Shares are recomputed here and applied by edit_split() in one
+ * transaction. Already-paid amounts are kept: a share that grows past
+ * what was paid needs a top-up, one that shrinks below it leaves a
+ * credit (see getParticipantCredit()). Everyone whose share changed is
+ * notified. Receipt splits can't be edited this way; their shares come
+ * from claimed items.
+ *
+ * @returns The participants whose share changed
+ */
+export async function editSplit(
+  split: Pick<Split, 'id' | 'currency'>,
+  edit: SplitEdit
+): Promise<SplitEditChange[]> {
+  const { shares } = calculateEditedShares(edit);
+
+  const { data, error } = await supabase.rpc('edit_split', {
+    p_split_id: split.id,
+    p_title: edit.title.trim(),
+    p_description: edit.description?.trim() || null,
+    p_total_amount: fromCents(toCents(edit.total_amount)),
+    p_split_type: edit.split_method,
+    p_participants: edit.participants.map(p => ({
+      ...(p.id ? { id: p.id } : { user_id: p.user_id }),
+      amount_owed: shares[getEditKey(p)],
+      ...(edit.split_method === 'shares' && { share_weight: p.weight ?? 0 }),
+    })),
+    p_creator_share_weight: edit.split_method === 'shares' ? edit.creator_weight ?? 0 : null,
+  });
+
+  if (error) throw error;
+
+  const changes = (data || []) as SplitEditChange[];
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('id', user?.id)
+      .single();
+    const creatorName = profile?.full_name || 'Someone';
+
+    for (const change of changes) {
+      if (!change.user_id) continue;
+      await notifySplitUpdated(
+        change.user_id,
+        edit.title.trim(),
+        describeShareChange(change, edit.title.trim(), creatorName, split.currency),
+        split.id
+      );
+    }
+  } catch (notifyError) {
+    // The edit is saved either way; a failed notification shouldn't undo it
+    console.error('Error notifying participants of split edit:', notifyError);
+  }
+
+  return changes;
+}
+
+/**
+ * What the creator owes a participant back because they paid more than
+ * their share (after an edit), in the split's currency
+ */
+export function getParticipantCredit(participant: Pick<SplitParticipant, 'amount_owed' | 'amount_paid'>): number {
+  const cents = toCents(Number(participant.amount_paid || 0)) - toCents(Number(participant.amount_owed));
+  return fromCents(Math.max(cents, 0));
+}
+
+/**
+ * Record that the creator has paid a participant's credit back
+ *
+ * @returns Updated participant
+ */
+export async function settleParticipantCredit(
+  participantId: string,
+  note?: string
+): Promise<SplitParticipant> {
+  const { data, error } = await supabase.rpc('settle_participant_credit', {
+    p_participant_id: participantId,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
 /**
  * Delete split with cascade (items, assignments, participants, storage)
  *
@@ -861,11 +1219,13 @@ export async function deleteSplit(splitId: string): Promise<void> {
  *
  * @param split - Split with participants
  * @param currentUserId - Current user ID (to personalize message)
+ * @param payoutDetails - Creator's preferred payout method, when they can't take card payments
  * @returns Shareable text message
  */
 export function generateShareMessage(
   split: SplitWithParticipants,
-  currentUserId: string
+  currentUserId: string,
+  payoutDetails?: PaymentDetails | null
 ): string {
   // Find current user's participant record
   const userParticipant = split.participants.find(p => p.user_id === currentUserId);
@@ -890,120 +1250,65 @@ export function generateShareMessage(
   message += `${split.paid_count} paid • `;
   message += `${split.participant_count - split.paid_count} pending`;
 
+  if (payoutDetails) {
+    message += `\n\n${formatPaymentInstructions(payoutDetails)}`.trimEnd();
+  }
+
   message += `\n\nShared via ZapSplit 🇦🇺`;
 
   return message;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// Payment Link Generation
+// Payment Link Messages
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-const WEB_BASE_URL = 'https://zapsplit.com.au';
-
 /**
- * Generate a random short code for payment links
+ * Generate a shareable message with payment link
+ *
+ * Creators without a Stripe Connect account pass their preferred payout
+ * method, which is added so people can pay them directly.
  */
-function generateShortCode(length: number = 8): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excluded confusing chars: 0, O, I, 1
-  let code = '';
-  for (let i = 0; i < length; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
+export function generateShareMessageWithLink(
+  split: SplitWithParticipants,
+  paymentUrl: string,
+  payoutDetails?: PaymentDetails | null
+): string {
+  let message = `💸 ${split.title}\n\n`;
+  message += `Total: $${split.total_amount.toFixed(2)} AUD\n`;
+  message += `Split between ${split.participant_count} people\n\n`;
+  message += `Tap to select your items and pay:\n`;
+  message += `${paymentUrl}\n\n`;
+  if (payoutDetails) {
+    message += `Prefer to pay directly?\n${formatPaymentInstructions(payoutDetails)}\n`;
   }
-  return code;
-}
-
-export interface PaymentLink {
-  id: string;
-  split_id: string;
-  short_code: string;
-  creator_id: string;
-  created_at: string;
-  expires_at: string | null;
-  is_active: boolean;
-}
-
-/**
- * Get or create a payment link for a split
- * If a link already exists, return it. Otherwise, create a new one.
- */
-export async function getOrCreatePaymentLink(
-  splitId: string,
-  creatorId: string
-): Promise<{ link: PaymentLink; url: string } | null> {
-  try {
-    // Check if a payment link already exists for this split
-    const { data: existingLink, error: fetchError } = await supabase
-      .from('payment_links')
-      .select('*')
-      .eq('split_id', splitId)
-      .eq('is_active', true)
-      .single();
-
-    if (existingLink && !fetchError) {
-      return {
-        link: existingLink,
-        url: `${WEB_BASE_URL}/pay/${existingLink.short_code}`,
-      };
-    }
-
-    // Generate a unique short code
-    let shortCode = generateShortCode();
-    let attempts = 0;
-    const maxAttempts = 5;
-
-    // Ensure uniqueness
-    while (attempts < maxAttempts) {
-      const { data: existing } = await supabase
-        .from('payment_links')
-        .select('id')
-        .eq('short_code', shortCode)
-        .single();
-
-      if (!existing) break;
-      shortCode = generateShortCode();
-      attempts++;
-    }
-
-    // Create new payment link
-    const { data: newLink, error: createError } = await supabase
-      .from('payment_links')
-      .insert({
-        split_id: splitId,
-        short_code: shortCode,
-        created_by: creatorId,
-        is_active: true,
-      })
-      .select()
-      .single();
-
-    if (createError) {
-      console.error('Error creating payment link:', createError);
-      throw createError;
-    }
+  message += `Powered by ZapSplit ⚡`;
 
-    return {
-      link: newLink,
-      url: `${WEB_BASE_URL}/pay/${newLink.short_code}`,
-    };
-  } catch (error) {
-    console.error('Failed to get or create payment link:', error);
-    return null;
-  }
+  return message;
 }
 
 /**
- * Generate a shareable message with payment link
+ * Generate a message sending one participant the link to their share
+ *
+ * @param participant - Their name, what's left to pay (in the split's
+ * currency) and their payment reference for direct transfers
  */
-export function generateShareMessageWithLink(
+export function generateParticipantShareMessage(
   split: SplitWithParticipants,
-  paymentUrl: string
+  participant: { name: string; outstanding: number; reference?: string | null },
+  paymentUrl: string,
+  payoutDetails?: PaymentDetails | null
 ): string {
   let message = `💸 ${split.title}\n\n`;
-  message += `Total: $${split.total_amount.toFixed(2)} AUD\n`;
-  message += `Split between ${split.participant_count} people\n\n`;
-  message += `Tap to select your items and pay:\n`;
+  message += `Hi ${participant.name}, your share is $${participant.outstanding.toFixed(2)} ${split.currency}.\n\n`;
+  message += `Tap to pay, no account needed:\n`;
   message += `${paymentUrl}\n\n`;
+  if (payoutDetails) {
+    // Direct transfers are in AUD, so only suggest an amount when the split is too
+    const directAmount = split.currency === PAYMENT_CURRENCY ? participant.outstanding : undefined;
+    message += `Prefer to pay directly?\n`;
+    message += `${formatPaymentInstructions(payoutDetails, directAmount, participant.reference || undefined)}\n`;
+  }
   message += `Powered by ZapSplit ⚡`;
 
   return message;
@@ -2,7 +2,10 @@
 // Stripe Service - Client-side wrapper for Stripe payments
 // ═══════════════════════════════════════════════════════════════
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { quoteFees } from '../../supabase/functions/_shared/feeSchedule';
+import { fromCents, toCents } from '../utils/money';
 // Note: Stripe functions (initPaymentSheet, presentPaymentSheet) should be
 // accessed via useStripe() hook in components, not imported directly here
 
@@ -15,6 +18,25 @@ export interface PaymentFeeBreakdown {
   total: number;
 }
 
+/**
+ * Fee breakdown quoted by the server; `total` is exactly what will be charged
+ */
+export interface PaymentQuote extends PaymentFeeBreakdown {
+  feeScheduleVersion: string;
+  participantCount: number;
+  outstanding?: number; // Everything still owed; any part of it can be paid
+}
+
+export type PaymentQuoteRequest =
+  | { splitId: string; participantId?: string; amount?: number }
+  | { toUserId: string; amount: number; settleUp: true };
+
+export interface PaymentQuoteResult {
+  success: boolean;
+  quote?: PaymentQuote;
+  error?: string;
+}
+
 export interface CreatePaymentResult {
   success: boolean;
   paymentIntentId?: string;
@@ -35,16 +57,39 @@ export interface ConnectAccountStatus {
   };
 }
 
+export type PaymentStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'disputed' // A dispute is open with the payer's bank
+  | 'charged_back'; // The payer won a dispute and got the money back
+
+export interface PaymentDispute {
+  id: string;
+  stripe_dispute_id: string;
+  amount: number;
+  reason: string | null;
+  status: string; // Stripe's dispute status (needs_response, under_review, won, lost, ...)
+  evidence_due_by: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
 export interface Payment {
   id: string;
   split_id: string;
   from_user_id: string;
   to_user_id: string;
   amount: number;
+  refunded_amount: number; // Cumulative, out of amount
   stripe_fee_amount: number | null;
   payment_method: string;
   stripe_payment_intent_id: string | null;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'refunded';
+  status: PaymentStatus;
   created_at: string;
   completed_at: string | null;
   // Nested relationship data returned by Supabase queries
@@ -64,6 +109,16 @@ export interface Payment {
     id: string;
     title: string;
   };
+  disputes?: PaymentDispute[];
+}
+
+export type RefundReason = 'requested_by_customer' | 'duplicate';
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  amount?: number;
+  error?: string;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -71,32 +126,74 @@ export interface Payment {
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 /**
- * Calculate all fees for a payment, split fairly among ALL participants:
- * 1. Stripe processing fee: 2.9% + $0.30 AUD (split equally among all participants)
- * 2. Instant payout fee: 1.5% (split equally among all participants)
- * 3. Platform fee: $0.50 AUD ZapSplit fee (split equally among all participants)
+ * Estimate the fees for a payment, split fairly among ALL participants:
+ * 1. Stripe processing fee (split equally among all participants)
+ * 2. Instant payout fee (split equally among all participants)
+ * 3. Platform fee: ZapSplit's fee (split equally among all participants)
+ *
+ * Rates come from the shared fee schedule (supabase/functions/_shared/feeSchedule.ts),
+ * the same one the server charges with. Use getPaymentQuote() for the
+ * authoritative total before taking a payment.
  *
  * @param amount - The amount this payer owes
- * @param participantCount - Total number of participants in the split (including receiver)
+ * @param participantCount - Number of paying participants in the split
  */
 export function calculateFees(amount: number, participantCount: number = 1): PaymentFeeBreakdown {
-  const stripeFee = amount * 0.029 + 0.3; // Stripe's fee for this transaction
-  const instantPayoutFee = amount * 0.015; // 1.5% instant payout fee
-  const platformFee = 0.5 / participantCount; // $0.50 split among all participants
-  const userFee = stripeFee / participantCount; // Each person's share of Stripe fee
-  const userInstantFee = instantPayoutFee / participantCount; // Each person's share of instant fee
-  const total = amount + userFee + userInstantFee + platformFee;
+  const quote = quoteFees(toCents(amount), participantCount);
 
   return {
-    amount: parseFloat(amount.toFixed(2)),
-    stripeFee: parseFloat(stripeFee.toFixed(2)),
-    userFee: parseFloat((userFee + userInstantFee + platformFee).toFixed(2)), // Total fee this payer pays
-    instantPayoutFee: parseFloat(userInstantFee.toFixed(2)),
-    platformFee: parseFloat(platformFee.toFixed(2)),
-    total: parseFloat(total.toFixed(2)),
+    amount: fromCents(quote.amountCents),
+    stripeFee: fromCents(quote.stripeFeeCents),
+    userFee: fromCents(quote.payerFeeCents), // Total fee this payer pays
+    instantPayoutFee: fromCents(quote.payerInstantPayoutFeeCents),
+    platformFee: fromCents(quote.payerPlatformFeeCents),
+    total: fromCents(quote.totalCents),
   };
 }
 
+/**
+ * Get the server's quote for a payment
+ *
+ * Takes the same fields as create-payment-intent; pass the quote's total
+ * back when paying so the charge is refused if it no longer matches.
+ */
+export async function getPaymentQuote(request: PaymentQuoteRequest): Promise<PaymentQuoteResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('quote-payment', {
+      body: request,
+    });
+
+    if (error) {
+      console.error('Error quoting payment:', error);
+      return {
+        success: false,
+        error: await getPaymentIntentErrorMessage(error),
+      };
+    }
+
+    return {
+      success: true,
+      quote: {
+        feeScheduleVersion: data.feeScheduleVersion,
+        participantCount: data.participantCount,
+        amount: parseFloat(data.amount),
+        stripeFee: parseFloat(data.stripeFee),
+        userFee: parseFloat(data.fee),
+        instantPayoutFee: parseFloat(data.instantPayoutFee),
+        platformFee: parseFloat(data.platformFee),
+        total: parseFloat(data.total),
+        ...(data.outstanding !== undefined && { outstanding: parseFloat(data.outstanding) }),
+      },
+    };
+  } catch (error: any) {
+    console.error('Failed to quote payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to quote payment',
+    };
+  }
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Connect Account Management
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -158,93 +255,200 @@ export async function checkAccountStatus(userId: string): Promise<ConnectAccount
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 /**
- * Create a payment intent and present the Stripe payment sheet
+ * Initialize and present the Stripe payment sheet for a PaymentIntent
+ *
+ * @returns An error message, or null if the payment went through
+ */
+async function presentPaymentSheetForIntent(
+  clientSecret: string,
+  initPaymentSheet: any,
+  presentPaymentSheet: any
+): Promise<string | null> {
+  // Initialize payment sheet with Apple Pay and Google Pay
+  const { error: initError } = await initPaymentSheet({
+    merchantDisplayName: 'ZapSplit',
+    paymentIntentClientSecret: clientSecret,
+    defaultBillingDetails: {},
+    allowsDelayedPaymentMethods: false,
+    // Enable Apple Pay
+    applePay: {
+      merchantCountryCode: 'AU',
+    },
+    // Enable Google Pay
+    // Note: testEnv must be false for Google Pay to appear in the payment sheet.
+    // In dev mode (Stripe test keys), Google Pay will show but can't complete payment.
+    // In production (live Stripe keys), Google Pay works fully.
+    googlePay: {
+      merchantCountryCode: 'AU',
+      testEnv: false,
+      currencyCode: 'AUD',
+    },
+  });
+
+  if (initError) {
+    console.error('Error initializing payment sheet:', initError);
+    return initError.message;
+  }
+
+  // Present payment sheet
+  const { error: presentError } = await presentPaymentSheet();
+
+  if (presentError) {
+    console.error('Error presenting payment sheet:', presentError);
+    return presentError.message;
+  }
+
+  return null;
+}
+
+/**
+ * User-facing message for a failed payment edge function call
+ * (quote-payment, create-payment-intent, refund-payment)
+ *
+ * Supabase wraps non-2xx responses in a generic error; the function's
+ * own message is in the response body.
+ */
+async function getPaymentIntentErrorMessage(error: any): Promise<string> {
+  const body = error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+
+  if (body?.receiverName && body.error?.includes('payment account')) {
+    return `${body.receiverName} hasn't set up their payment account yet. They need to connect Stripe in Settings before you can pay them.`;
+  }
+
+  if (body?.outstanding) {
+    return `${body.error}. You currently owe $${body.outstanding}.`;
+  }
+
+  if (body?.quote) {
+    return `${body.error}. It's now $${body.quote.total}.`;
+  }
+
+  if (body?.refundable) {
+    return `${body.error}. Up to $${body.refundable} can be refunded.`;
+  }
+
+  return body?.error || error.message || 'Failed to create payment';
+}
+
+/**
+ * Create a payment intent for the current user's share of a split and
+ * present the Stripe payment sheet
+ *
+ * The payer, receiver and amount are worked out by the server from the
+ * signed-in user's participant row. `amount` is what the user was shown;
+ * if it no longer matches what they owe the payment is refused.
  */
 export async function createPayment(
-  fromUserId: string,
-  toUserId: string,
-  amount: number,
   splitId: string,
+  amount: number,
   initPaymentSheet: any, // Pass from useStripe() hook
   presentPaymentSheet: any, // Pass from useStripe() hook
-  participantCount: number = 1
+  participantId?: string,
+  quotedTotal?: number // From getPaymentQuote(), so the charge matches what was shown
 ): Promise<CreatePaymentResult> {
   try {
     // Call Edge Function to create payment intent
     const { data, error } = await supabase.functions.invoke('create-payment-intent', {
       body: {
-        fromUserId,
-        toUserId,
-        amount,
         splitId,
-        participantCount,
+        participantId: participantId || undefined,
+        amount,
+        quotedTotal,
       },
     });
 
     if (error) {
       console.error('Error creating payment intent:', error);
-      // Supabase wraps non-2xx responses with a generic message,
-      // but the actual error details are in the data object
-      let errorMessage = data?.error || error.message || 'Failed to create payment';
-      if (data?.receiverName && errorMessage.includes('payment account')) {
-        errorMessage = `${data.receiverName} hasn't set up their payment account yet. They need to connect Stripe in Settings before you can pay them.`;
-      }
       return {
         success: false,
-        error: errorMessage,
+        error: await getPaymentIntentErrorMessage(error),
       };
     }
 
     const { clientSecret, paymentIntentId, paymentId } = data;
 
-    // Initialize payment sheet with Apple Pay and Google Pay
-    const { error: initError } = await initPaymentSheet({
-      merchantDisplayName: 'ZapSplit',
-      paymentIntentClientSecret: clientSecret,
-      defaultBillingDetails: {},
-      allowsDelayedPaymentMethods: false,
-      // Enable Apple Pay
-      applePay: {
-        merchantCountryCode: 'AU',
-      },
-      // Enable Google Pay
-      // Note: testEnv must be false for Google Pay to appear in the payment sheet.
-      // In dev mode (Stripe test keys), Google Pay will show but can't complete payment.
-      // In production (live Stripe keys), Google Pay works fully.
-      googlePay: {
-        merchantCountryCode: 'AU',
-        testEnv: false,
-        currencyCode: 'AUD',
+    const sheetError = await presentPaymentSheetForIntent(
+      clientSecret,
+      initPaymentSheet,
+      presentPaymentSheet
+    );
+
+    if (sheetError) {
+      return {
+        success: false,
+        error: sheetError,
+      };
+    }
+
+    // Payment successful!
+    return {
+      success: true,
+      paymentIntentId,
+      paymentId,
+    };
+  } catch (error: any) {
+    console.error('Payment failed:', error);
+    return {
+      success: false,
+      error: error.message || 'Payment failed',
+    };
+  }
+}
+
+/**
+ * Pay off the whole net balance with a friend in one payment.
+ * The stripe-webhook allocates the money across each underlying
+ * split_participants row, oldest split first.
+ */
+export async function createSettleUpPayment(
+  toUserId: string,
+  amount: number,
+  initPaymentSheet: any, // Pass from useStripe() hook
+  presentPaymentSheet: any, // Pass from useStripe() hook
+  quotedTotal?: number // From getPaymentQuote(), so the charge matches what was shown
+): Promise<CreatePaymentResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('create-payment-intent', {
+      body: {
+        toUserId,
+        amount,
+        settleUp: true,
+        quotedTotal,
       },
     });
 
-    if (initError) {
-      console.error('Error initializing payment sheet:', initError);
+    if (error) {
+      console.error('Error creating settle-up payment intent:', error);
       return {
         success: false,
-        error: initError.message,
+        error: await getPaymentIntentErrorMessage(error),
       };
     }
 
-    // Present payment sheet
-    const { error: presentError } = await presentPaymentSheet();
+    const { clientSecret, paymentIntentId, paymentId } = data;
+
+    const sheetError = await presentPaymentSheetForIntent(
+      clientSecret,
+      initPaymentSheet,
+      presentPaymentSheet
+    );
 
-    if (presentError) {
-      console.error('Error presenting payment sheet:', presentError);
+    if (sheetError) {
       return {
         success: false,
-        error: presentError.message,
+        error: sheetError,
       };
     }
 
-    // Payment successful!
     return {
       success: true,
       paymentIntentId,
       paymentId,
     };
   } catch (error: any) {
-    console.error('Payment failed:', error);
+    console.error('Settle-up payment failed:', error);
     return {
       success: false,
       error: error.message || 'Payment failed',
@@ -252,6 +456,68 @@ export async function createPayment(
   }
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Refunds & Disputes
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * How much of a payment can still be refunded (AUD); 0 if it can't be
+ */
+export function getRefundableAmount(payment: Pick<Payment, 'amount' | 'refunded_amount' | 'status' | 'payment_method'>): number {
+  if (payment.payment_method !== 'stripe') return 0;
+  if (payment.status !== 'completed' && payment.status !== 'partially_refunded') return 0;
+
+  const cents = toCents(Number(payment.amount)) - toCents(Number(payment.refunded_amount || 0));
+  return fromCents(Math.max(cents, 0));
+}
+
+/**
+ * The dispute that's still open on a payment, if any
+ */
+export function getOpenDispute(payment: Pick<Payment, 'disputes'>): PaymentDispute | null {
+  return payment.disputes?.find(dispute => !dispute.closed_at) || null;
+}
+
+/**
+ * Refund all or part of a card payment the current user received
+ *
+ * The money comes back off the payer's share (and a settled split is
+ * reopened) once Stripe confirms the refund via the stripe-webhook.
+ *
+ * @param amount - AUD to refund; defaults to everything not yet refunded
+ */
+export async function refundPayment(
+  paymentId: string,
+  amount?: number,
+  reason?: RefundReason
+): Promise<RefundResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('refund-payment', {
+      body: { paymentId, amount, reason },
+    });
+
+    if (error) {
+      console.error('Error refunding payment:', error);
+      return {
+        success: false,
+        error: await getPaymentIntentErrorMessage(error),
+      };
+    }
+
+    return {
+      success: true,
+      refundId: data.refundId,
+      amount: parseFloat(data.amount),
+    };
+  } catch (error: any) {
+    console.error('Failed to refund payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to refund payment',
+    };
+  }
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Payment History
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -267,7 +533,8 @@ export async function getPaymentHistory(userId: string): Promise<Payment[]> {
         *,
         payer:from_user_id (id, email, full_name, avatar_url),
         receiver:to_user_id (id, email, full_name, avatar_url),
-        split:split_id (id, title)
+        split:split_id (id, title),
+        disputes:payment_disputes (*)
       `)
       .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
       .order('created_at', { ascending: false });
@@ -294,7 +561,8 @@ export async function getPaymentsSent(userId: string): Promise<Payment[]> {
       .select(`
         *,
         receiver:to_user_id (id, email, full_name, avatar_url),
-        split:split_id (id, title)
+        split:split_id (id, title),
+        disputes:payment_disputes (*)
       `)
       .eq('from_user_id', userId)
       .neq('to_user_id', userId)
@@ -322,7 +590,8 @@ export async function getPaymentsReceived(userId: string): Promise<Payment[]> {
       .select(`
         *,
         payer:from_user_id (id, email, full_name, avatar_url),
-        split:split_id (id, title)
+        split:split_id (id, title),
+        disputes:payment_disputes (*)
       `)
       .eq('to_user_id', userId)
       .neq('from_user_id', userId)
@@ -340,6 +609,32 @@ export async function getPaymentsReceived(userId: string): Promise<Payment[]> {
   }
 }
 
+/**
+ * Get the card payments the current user can see on a split, keyed by payment ID
+ */
+export async function getSplitCardPayments(splitId: string): Promise<Map<string, Payment>> {
+  try {
+    const { data, error } = await supabase
+      .from('payments')
+      .select(`
+        *,
+        disputes:payment_disputes (*)
+      `)
+      .eq('split_id', splitId)
+      .eq('payment_method', 'stripe');
+
+    if (error) {
+      console.error('Error fetching split payments:', error);
+      throw new Error(error.message);
+    }
+
+    return new Map((data || []).map((payment: Payment) => [payment.id, payment]));
+  } catch (error) {
+    console.error('Failed to fetch split payments:', error);
+    return new Map();
+  }
+}
+
 /**
  * Get a specific payment by ID
  */
@@ -351,7 +646,8 @@ export async function getPaymentById(paymentId: string): Promise<Payment | null>
         *,
         payer:from_user_id (id, email, full_name, avatar_url),
         receiver:to_user_id (id, email, full_name, avatar_url),
-        split:split_id (id, title)
+        split:split_id (id, title),
+        disputes:payment_disputes (*)
       `)
       .eq('id', paymentId)
       .single();
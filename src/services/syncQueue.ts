@@ -0,0 +1,749 @@
+// ═══════════════════════════════════════════════════════════════
+// Sync Queue - Offline writes persisted in AsyncStorage and replayed
+// ═══════════════════════════════════════════════════════════════
+//
+// Split creations (with their receipt items and item assignments), item
+// claims on existing splits and recorded payments (mark-as-paid or part
+// payments) are written straight to Supabase when we can reach it.
+// If the request fails because there is no network, the write is queued here,
+// shown optimistically by useSplits, and replayed in order once we're back
+// online. Splits and participants get client-generated IDs so a replay whose
+// response was lost can safely run again.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import {
+  createSplit,
+  CreateSplitData,
+  CreateSplitItemAssignment,
+  getOutstandingAmount,
+  markParticipantAsPaid,
+  recordParticipantPayment,
+  SplitParticipant,
+  SplitWithParticipants,
+} from './splitService';
+import { NewItemClaim, saveItemClaims } from './itemService';
+import { getRateSnapshot } from './currencyService';
+import { uploadReceiptToStorage } from './receiptService';
+import { ReceiptItem } from '../types/receipt';
+import { isRateLimitError } from '../utils/rateLimiter';
+import { fromCents, sumCents, toCents } from '../utils/money';
+
+const SYNC_QUEUE_KEY = '@zapsplit_sync_queue';
+const SPLITS_CACHE_KEY = '@zapsplit_splits_cache';
+
+// How often to retry while there are writes waiting to sync
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type QueuedItemAssignment = CreateSplitItemAssignment;
+
+interface QueuedOperationBase {
+  id: string;
+  user_id: string;
+  created_at: string;
+  attempts: number;
+  status: 'pending' | 'conflict';
+  error?: string; // Why the server rejected the write (conflicts only)
+}
+
+export interface QueuedCreateSplit extends QueuedOperationBase {
+  type: 'create_split';
+  split_id: string;
+  data: CreateSplitData;
+  items?: ReceiptItem[];
+  item_assignments?: QueuedItemAssignment[];
+  receipt_image_uri?: string; // Local image, uploaded when the split syncs
+}
+
+export interface QueuedMarkPaid extends QueuedOperationBase {
+  type: 'mark_paid';
+  split_id: string;
+  participant_id: string;
+  amount_owed: number | null; // What the user saw when marking paid
+  amount?: number; // Part payment; omitted to mark everything left as paid
+  note?: string;
+  payment_id?: string; // Client-generated, so a replay records the payment once
+}
+
+export interface QueuedSaveItemClaims extends QueuedOperationBase {
+  type: 'save_item_claims';
+  split_id: string;
+  claims: NewItemClaim[];
+  amount_owed: number; // What the user's claimed items come to
+}
+
+export type QueuedOperation = QueuedCreateSplit | QueuedMarkPaid | QueuedSaveItemClaims;
+
+/**
+ * Queued writes to a split that already exists (or is queued itself)
+ */
+type QueuedSplitUpdate = QueuedMarkPaid | QueuedSaveItemClaims;
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+/**
+ * The server rejected a queued write because the data changed while offline
+ */
+class SyncConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Queue Storage
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type QueueListener = (queue: QueuedOperation[]) => void;
+
+const listeners = new Set<QueueListener>();
+let writeChain: Promise<unknown> = Promise.resolve();
+
+export async function getSyncQueue(): Promise<QueuedOperation[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading sync queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Read-modify-write the queue. Writes are chained so a replay and a new
+ * offline action never overwrite each other.
+ */
+function updateSyncQueue(
+  update: (queue: QueuedOperation[]) => QueuedOperation[]
+): Promise<QueuedOperation[]> {
+  const next = writeChain.then(async () => {
+    const queue = update(await getSyncQueue());
+    await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+    listeners.forEach(listener => listener(queue));
+    return queue;
+  });
+  writeChain = next.catch(error => console.error('Error writing sync queue:', error));
+  return next;
+}
+
+/**
+ * Subscribe to queue changes (new offline writes, syncs and conflicts)
+ */
+export function subscribeToSyncQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * True if a Supabase/fetch error means we couldn't reach the server at all
+ */
+export function isNetworkError(error: any): boolean {
+  if (!error) return false;
+  if (error.name === 'AuthRetryableFetchError') return true;
+
+  const message = String(error.message || error);
+  return /network request failed|failed to fetch|network error|fetch failed|load failed/i.test(message);
+}
+
+async function getSessionUserId(): Promise<string | null> {
+  // getSession reads the stored session, so it works without a connection
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id || null;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Offline-aware Writes
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Create a split (plus receipt items and item assignments), queueing it
+ * if there's no connection.
+ *
+ * @returns The split ID and whether it was queued instead of saved
+ * @throws Errors other than network failures, as createSplit would
+ */
+export async function createSplitOrQueue(
+  data: CreateSplitData,
+  options: {
+    items?: ReceiptItem[];
+    itemAssignments?: QueuedItemAssignment[];
+    receiptImageUri?: string;
+  } = {}
+): Promise<{ splitId: string; queued: boolean }> {
+  const userId = await getSessionUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  const splitId = data.id || Crypto.randomUUID();
+  // Rates as of now, not whenever a queued split gets replayed (fixed rates if offline)
+  const exchangeRates = data.exchange_rates || await getRateSnapshot(data.currency);
+  const operation: QueuedCreateSplit = {
+    id: Crypto.randomUUID(),
+    type: 'create_split',
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    split_id: splitId,
+    data: {
+      ...data,
+      id: splitId,
+      exchange_rates: exchangeRates,
+      participants: data.participants.map(p => ({ ...p, id: p.id || Crypto.randomUUID() })),
+    },
+    items: options.items,
+    item_assignments: options.itemAssignments,
+    receipt_image_uri: options.receiptImageUri,
+  };
+
+  try {
+    await applyCreateSplit(operation);
+    return { splitId, queued: false };
+  } catch (error) {
+    // Nothing is left behind on failure: the split is saved in one transaction
+    if (!isNetworkError(error)) throw error;
+
+    await updateSyncQueue(queue => [...queue, operation]);
+    return { splitId, queued: true };
+  }
+}
+
+/**
+ * Mark a participant as paid, queueing it if there's no connection or the
+ * split itself is still waiting to sync.
+ *
+ * @param amountOwed - Amount owed shown to the user, used to detect edits made while offline
+ */
+export async function markParticipantAsPaidOrQueue(
+  participantId: string,
+  splitId: string,
+  amountOwed: number | null = null
+): Promise<{ queued: boolean }> {
+  const userId = await getSessionUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  return applyOrQueueSplitUpdate({
+    id: Crypto.randomUUID(),
+    type: 'mark_paid',
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    split_id: splitId,
+    participant_id: participantId,
+    amount_owed: amountOwed,
+    payment_id: Crypto.randomUUID(),
+  });
+}
+
+/**
+ * Record a part payment towards a participant's share, queueing it if
+ * there's no connection or the split itself is still waiting to sync.
+ *
+ * @param amount - Amount paid, in the split's currency
+ * @param amountOwed - Amount owed shown to the user, used to detect edits made while offline
+ */
+export async function recordParticipantPaymentOrQueue(
+  participantId: string,
+  splitId: string,
+  amount: number,
+  options: { amountOwed?: number | null; note?: string } = {}
+): Promise<{ queued: boolean }> {
+  const userId = await getSessionUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  return applyOrQueueSplitUpdate({
+    id: Crypto.randomUUID(),
+    type: 'mark_paid',
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    split_id: splitId,
+    participant_id: participantId,
+    amount_owed: options.amountOwed ?? null,
+    amount,
+    note: options.note,
+    payment_id: Crypto.randomUUID(),
+  });
+}
+
+/**
+ * Save the user's item claims on a split and what they now owe, queueing
+ * them if there's no connection or the split itself is still waiting to sync.
+ *
+ * @param amountOwed - What the claimed items come to
+ * @throws ItemClaimConflictError if someone else claimed an item first
+ */
+export async function saveItemClaimsOrQueue(
+  splitId: string,
+  claims: NewItemClaim[],
+  amountOwed: number
+): Promise<{ queued: boolean }> {
+  const userId = await getSessionUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  return applyOrQueueSplitUpdate({
+    id: Crypto.randomUUID(),
+    type: 'save_item_claims',
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    split_id: splitId,
+    claims,
+    amount_owed: amountOwed,
+  });
+}
+
+async function applyOrQueueSplitUpdate(operation: QueuedSplitUpdate): Promise<{ queued: boolean }> {
+  const splitId = operation.split_id;
+  const queue = await getSyncQueue();
+  const splitNotSynced = queue.some(op => op.type === 'create_split' && op.split_id === splitId);
+
+  if (!splitNotSynced) {
+    try {
+      await applySplitUpdate(operation);
+      return { queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await updateSyncQueue(current => [...current, operation]);
+  return { queued: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Applying Operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Create the split with its items and item assignments. createSplit()
+ * saves it all at once and returns the existing split for an ID that's
+ * already saved, so a replay after a lost response is harmless.
+ */
+async function applyCreateSplit(operation: QueuedCreateSplit): Promise<void> {
+  const { data: existing, error } = await supabase
+    .from('splits')
+    .select('id')
+    .eq('id', operation.split_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) return;
+
+  let data = operation.data;
+
+  if (operation.receipt_image_uri && !data.image_url) {
+    try {
+      data = { ...data, image_url: await uploadReceiptToStorage(operation.receipt_image_uri, operation.user_id) };
+    } catch (uploadError) {
+      if (isNetworkError(uploadError)) throw uploadError;
+      // The local image may have been cleared from the cache; the split is still worth saving
+      console.warn('Receipt image could not be uploaded, saving split without it:', uploadError);
+    }
+  }
+
+  await createSplit(data, {
+    items: operation.items,
+    itemAssignments: operation.item_assignments,
+  });
+}
+
+async function applyMarkPaid(operation: QueuedMarkPaid): Promise<void> {
+  const { data: participant, error } = await supabase
+    .from('split_participants')
+    .select('status, amount_owed, amount_paid')
+    .eq('id', operation.participant_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!participant) {
+    throw new SyncConflictError('This split was deleted before the payment could sync');
+  }
+
+  // Already paid (e.g. by card while we were offline) - nothing left to do
+  if (participant.status === 'paid') return;
+
+  if (operation.amount_owed !== null && Number(participant.amount_owed) !== operation.amount_owed) {
+    throw new SyncConflictError('The amount owed changed while you were offline');
+  }
+
+  if (operation.amount === undefined) {
+    await markParticipantAsPaid(operation.participant_id, operation.split_id, operation.payment_id);
+    return;
+  }
+
+  // Others may have paid towards the share since; never record more than is left
+  const amount = Math.min(operation.amount, getOutstandingAmount(participant));
+  if (amount <= 0) return;
+
+  await recordParticipantPayment(operation.participant_id, operation.split_id, amount, {
+    note: operation.note,
+    paymentId: operation.payment_id,
+  });
+}
+
+/**
+ * Save the claims, then what the user owes for them. Claims replace the
+ * user's earlier claims on the same items, so a replay is harmless.
+ */
+async function applySaveItemClaims(operation: QueuedSaveItemClaims): Promise<void> {
+  await saveItemClaims(operation.claims);
+
+  const { error } = await supabase
+    .from('split_participants')
+    .update({ amount_owed: operation.amount_owed })
+    .eq('split_id', operation.split_id)
+    .eq('user_id', operation.user_id);
+
+  if (error) {
+    // The claims are saved by now; only a dropped connection is worth replaying for
+    if (isNetworkError(error)) throw error;
+    console.warn('Could not update participant amount:', error);
+  }
+}
+
+function applySplitUpdate(operation: QueuedSplitUpdate): Promise<void> {
+  return operation.type === 'mark_paid' ? applyMarkPaid(operation) : applySaveItemClaims(operation);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Replay
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Replay queued writes in order. Safe to call often - concurrent calls share
+ * the same run. Stops at the first network failure; writes the server rejects
+ * are kept as conflicts for the user to retry or discard.
+ */
+export function syncPendingOperations(): Promise<SyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = replayQueue().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
+
+async function replayQueue(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, remaining: 0 };
+
+  const userId = await getSessionUserId();
+  const queue = await getSyncQueue();
+
+  if (!userId || queue.length === 0) {
+    result.remaining = queue.length;
+    return result;
+  }
+
+  // Splits whose creation hasn't reached the server yet
+  const unsyncedSplits = new Set<string>();
+
+  for (const operation of queue) {
+    if (operation.user_id !== userId) continue;
+
+    if (operation.status === 'conflict') {
+      if (operation.type === 'create_split') unsyncedSplits.add(operation.split_id);
+      continue;
+    }
+
+    // Payments and claims on a split that failed to sync wait until it's resolved
+    if (operation.type !== 'create_split' && unsyncedSplits.has(operation.split_id)) continue;
+
+    try {
+      if (operation.type === 'create_split') {
+        await applyCreateSplit(operation);
+      } else {
+        await applySplitUpdate(operation);
+      }
+
+      await updateSyncQueue(current => current.filter(op => op.id !== operation.id));
+      result.synced++;
+    } catch (error: any) {
+      // Still offline, or over the split_create limit - try again later
+      if (isNetworkError(error) || isRateLimitError(error)) {
+        await updateSyncQueue(current =>
+          current.map(op => (op.id === operation.id ? { ...op, attempts: op.attempts + 1 } : op))
+        );
+        break;
+      }
+
+      console.error('Error replaying queued write:', error);
+      await updateSyncQueue(current =>
+        current.map(op =>
+          op.id === operation.id
+            ? { ...op, status: 'conflict', attempts: op.attempts + 1, error: error.message || 'Could not sync' }
+            : op
+        )
+      );
+      if (operation.type === 'create_split') unsyncedSplits.add(operation.split_id);
+      result.conflicts++;
+    }
+  }
+
+  result.remaining = (await getSyncQueue()).length;
+  return result;
+}
+
+/**
+ * Put a conflicted write back in the queue and try again
+ *
+ * @param options.force - For payments, skip the check that the amount owed hasn't changed
+ */
+export async function retryQueuedOperation(
+  operationId: string,
+  options: { force?: boolean } = {}
+): Promise<SyncResult> {
+  await updateSyncQueue(queue =>
+    queue.map(op => {
+      if (op.id !== operationId) return op;
+      const retried = { ...op, status: 'pending' as const, error: undefined };
+      return retried.type === 'mark_paid' && options.force ? { ...retried, amount_owed: null } : retried;
+    })
+  );
+  return syncPendingOperations();
+}
+
+/**
+ * Drop a queued write. Discarding a split also drops payments and claims queued against it.
+ */
+export async function discardQueuedOperation(operationId: string): Promise<void> {
+  await updateSyncQueue(queue => {
+    const operation = queue.find(op => op.id === operationId);
+    if (!operation) return queue;
+
+    return queue.filter(op =>
+      op.id !== operationId &&
+      !(operation.type === 'create_split' && op.type !== 'create_split' && op.split_id === operation.split_id)
+    );
+  });
+}
+
+/**
+ * The queued creation for a split that hasn't synced yet
+ */
+export async function getQueuedSplit(splitId: string): Promise<QueuedCreateSplit | null> {
+  const queue = await getSyncQueue();
+  return queue.find((op): op is QueuedCreateSplit => op.type === 'create_split' && op.split_id === splitId) || null;
+}
+
+/**
+ * Queued payments on a split that the server rejected
+ */
+export async function getPaymentConflicts(splitId: string): Promise<QueuedMarkPaid[]> {
+  const queue = await getSyncQueue();
+  return queue.filter(
+    (op): op is QueuedMarkPaid => op.type === 'mark_paid' && op.split_id === splitId && op.status === 'conflict'
+  );
+}
+
+/**
+ * Queued item claims on a split that the server rejected
+ */
+export async function getItemClaimConflicts(splitId: string): Promise<QueuedSaveItemClaims[]> {
+  const queue = await getSyncQueue();
+  return queue.filter(
+    (op): op is QueuedSaveItemClaims =>
+      op.type === 'save_item_claims' && op.split_id === splitId && op.status === 'conflict'
+  );
+}
+
+/**
+ * Replay now, whenever the app returns to the foreground, and periodically
+ * while writes are waiting.
+ *
+ * @returns Function that stops the background syncing
+ */
+export function startSyncQueue(): () => void {
+  syncPendingOperations();
+
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') syncPendingOperations();
+  });
+
+  const interval = setInterval(async () => {
+    const queue = await getSyncQueue();
+    if (queue.some(op => op.status === 'pending')) {
+      syncPendingOperations();
+    }
+  }, SYNC_INTERVAL_MS);
+
+  return () => {
+    appStateSubscription.remove();
+    clearInterval(interval);
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Optimistic Splits
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Build a split list entry for a creation that only exists in the queue
+ */
+function toPendingSplit(operation: QueuedCreateSplit): SplitWithParticipants {
+  const { data } = operation;
+
+  const participants: SplitParticipant[] = data.participants.map(p => ({
+    id: p.id as string,
+    split_id: operation.split_id,
+    user_id: p.user_id || null,
+    amount_owed: p.amount_owed,
+    amount_paid: 0,
+    status: 'pending',
+    external_name: p.external_name || null,
+    external_email: p.external_email || null,
+    external_phone: p.external_phone || null,
+  }));
+
+  const amountOwedByOthersCents = sumCents(
+    participants.filter(p => p.user_id !== operation.user_id).map(p => toCents(p.amount_owed))
+  );
+  const amountOwedByOthers = fromCents(amountOwedByOthersCents);
+
+  return {
+    id: operation.split_id,
+    creator_id: operation.user_id,
+    title: data.title,
+    description: data.description,
+    total_amount: data.total_amount,
+    currency: data.currency,
+    split_type: data.split_method,
+    status: 'active',
+    created_at: operation.created_at,
+    updated_at: operation.created_at,
+    participants,
+    participant_count: participants.length,
+    paid_count: 0,
+    total_paid: 0,
+    creator_claimed_amount: fromCents(toCents(data.total_amount) - amountOwedByOthersCents),
+    amount_owed_by_others: amountOwedByOthers,
+    amount_remaining: amountOwedByOthers,
+    sync_status: operation.status === 'conflict' ? 'failed' : 'pending',
+  };
+}
+
+/**
+ * Overlay queued writes on the splits loaded from the server: queued
+ * creations appear as new splits, queued claims set what the user owes
+ * and queued payments count towards participants' shares.
+ */
+export function applyPendingOperations(
+  splits: SplitWithParticipants[],
+  queue: QueuedOperation[],
+  userId: string
+): SplitWithParticipants[] {
+  const userQueue = queue.filter(op => op.user_id === userId);
+  const loadedIds = new Set(splits.map(s => s.id));
+
+  const pendingSplits = userQueue
+    .filter((op): op is QueuedCreateSplit => op.type === 'create_split')
+    .filter(op => !loadedIds.has(op.split_id))
+    .map(toPendingSplit);
+
+  const queuedClaims = userQueue.filter(
+    (op): op is QueuedSaveItemClaims => op.type === 'save_item_claims' && op.status === 'pending'
+  );
+  const queuedPayments = userQueue.filter(
+    (op): op is QueuedMarkPaid => op.type === 'mark_paid' && op.status === 'pending'
+  );
+  const paidParticipantIds = new Set(queuedPayments.map(op => op.participant_id));
+
+  return [...pendingSplits, ...splits]
+    .map(split => {
+      // The latest claims on a split are what the user owes
+      const claims = queuedClaims.filter(op => op.split_id === split.id).pop();
+      if (!claims) return split;
+
+      return {
+        ...split,
+        participants: split.participants.map(p =>
+          p.user_id === userId ? { ...p, amount_owed: claims.amount_owed } : p
+        ),
+      };
+    })
+    .map(split => {
+      if (!split.participants.some(p => paidParticipantIds.has(p.id) && p.status !== 'paid')) {
+        return split;
+      }
+
+      let newlyPaidCents = 0;
+      const participants = split.participants.map(p => {
+        if (!paidParticipantIds.has(p.id) || p.status === 'paid') return p;
+
+        // Part payments add up; a mark-as-paid clears whatever is left
+        const owedCents = toCents(p.amount_owed);
+        let paidCents = toCents(p.amount_paid || 0);
+        queuedPayments
+          .filter(op => op.participant_id === p.id)
+          .forEach(op => {
+            paidCents = op.amount === undefined
+              ? owedCents
+              : Math.min(owedCents, paidCents + toCents(op.amount));
+          });
+
+        newlyPaidCents += paidCents - toCents(p.amount_paid || 0);
+        return {
+          ...p,
+          status: paidCents >= owedCents ? 'paid' as const : p.status,
+          amount_paid: fromCents(paidCents),
+        };
+      });
+      const totalPaidCents = toCents(split.total_paid || 0) + newlyPaidCents;
+
+      return {
+        ...split,
+        participants,
+        paid_count: participants.filter(p => p.status === 'paid').length,
+        total_paid: fromCents(totalPaidCents),
+        amount_remaining: fromCents(
+          Math.max(0, toCents(split.amount_owed_by_others ?? split.total_amount) - totalPaidCents)
+        ),
+      };
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Splits Cache
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Remember the last splits loaded so the lists render when opened offline
+ */
+export async function cacheUserSplits(userId: string, splits: SplitWithParticipants[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SPLITS_CACHE_KEY, JSON.stringify({ user_id: userId, splits }));
+  } catch (error) {
+    console.error('Error caching splits:', error);
+  }
+}
+
+export async function getCachedUserSplits(userId: string): Promise<SplitWithParticipants[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SPLITS_CACHE_KEY);
+    if (!stored) return [];
+
+    const cache = JSON.parse(stored);
+    return cache.user_id === userId ? cache.splits : [];
+  } catch (error) {
+    console.error('Error reading cached splits:', error);
+    return [];
+  }
+}
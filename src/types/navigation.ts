@@ -9,6 +9,7 @@ export type RootStackParamList = {
   SplitFlow: undefined;
   ConnectStripe: undefined;
   PaymentHistory: undefined;
+  ReconcilePayments: undefined;
   // Friends & Groups
   Friends: undefined;
   AddFriend: undefined;
@@ -18,6 +19,7 @@ export type RootStackParamList = {
   CreateGroup: undefined;
   GroupDetail: { groupId: string };
   AddGroupMembers: { groupId: string };
+  RecurringSplit: { groupId: string; recurringSplitId?: string };
   // Notifications
   Notifications: undefined;
   NotificationSettings: undefined;
@@ -30,6 +32,7 @@ export type RootStackParamList = {
   DeleteAccount: undefined;
   // Settings & Profile
   Settings: undefined;
+  PayoutMethods: undefined;
   EditProfile: undefined;
   ChangePassword: undefined;
   HelpSupport: undefined;
@@ -66,6 +69,7 @@ export type SplitFlowParamList = {
     title: string;
     description?: string;
     groupId?: string;
+    currency?: string;
   };
   SplitMethod: {
     amount: number;
@@ -74,6 +78,7 @@ export type SplitFlowParamList = {
     selectedFriends: string[]; // Array of user IDs
     externalPeople?: { name: string; email?: string; phone?: string }[];
     groupId?: string;
+    currency?: string;
   };
   CustomAmounts: {
     amount: number;
@@ -83,6 +88,16 @@ export type SplitFlowParamList = {
     externalPeople?: { name: string; email?: string; phone?: string }[];
     splitMethod?: 'custom' | 'percentage';
     groupId?: string;
+    currency?: string;
+  };
+  ShareWeights: {
+    amount: number;
+    title: string;
+    description?: string;
+    selectedFriends: string[];
+    externalPeople?: { name: string; email?: string; phone?: string }[];
+    groupId?: string;
+    currency?: string;
   };
   ReviewSplit: {
     amount: number;
@@ -90,26 +105,33 @@ export type SplitFlowParamList = {
     description?: string;
     selectedFriends: string[];
     externalPeople?: { name: string; email?: string; phone?: string }[];
-    splitMethod: 'equal' | 'custom' | 'percentage' | 'receipt';
+    splitMethod: 'equal' | 'custom' | 'percentage' | 'shares' | 'receipt';
     customAmounts?: Record<string, number>; // userId -> amount
+    shareWeights?: Record<string, number>; // userId (creator included, ext_<n> for external people) -> weight
     receiptImageUri?: string;
     groupId?: string;
+    currency?: string;
   };
   PaymentRequest: {
     amount: number; // Your total amount
     description: string; // e.g., "Your share for dinner at Chipotle"
     splitId?: string;
+    participantId?: string; // Requesting one participant's share, includes their payment reference
   };
   SplitDetail: {
     splitId: string;
   };
+  EditSplit: {
+    splitId: string;
+  };
   SplitSuccess: {
     splitId: string;
     amount: number;
     participantCount: number;
-    splitMethod?: 'equal' | 'custom' | 'percentage' | 'receipt';
+    splitMethod?: 'equal' | 'custom' | 'percentage' | 'shares' | 'receipt';
     participantAmounts?: { name: string; amount: number }[];
     paymentLink?: string; // For sharing the split link
+    queued?: boolean; // Saved offline, waiting to sync
   };
   PayScreen: {
     splitId: string;
@@ -117,6 +139,10 @@ export type SplitFlowParamList = {
     recipientId: string;
     amount: number;
   };
+  PaymentPlan: {
+    splitId: string;
+    participantId: string;
+  };
   ClaimItems: {
     splitId?: string;
     paymentLinkCode?: string;
@@ -127,6 +153,7 @@ export type SplitFlowParamList = {
 export type SettingsStackParamList = {
   ConnectStripe: undefined;
   PaymentHistory: undefined;
+  ReconcilePayments: undefined;
 };
 
 // Screen Props Types
@@ -140,11 +167,14 @@ export type ItemAssignmentScreenProps = StackScreenProps<SplitFlowParamList, 'It
 export type SelectFriendsScreenProps = StackScreenProps<SplitFlowParamList, 'SelectFriends'>;
 export type SplitMethodScreenProps = StackScreenProps<SplitFlowParamList, 'SplitMethod'>;
 export type CustomAmountsScreenProps = StackScreenProps<SplitFlowParamList, 'CustomAmounts'>;
+export type ShareWeightsScreenProps = StackScreenProps<SplitFlowParamList, 'ShareWeights'>;
 export type ReviewSplitScreenProps = StackScreenProps<SplitFlowParamList, 'ReviewSplit'>;
 export type PaymentRequestScreenProps = StackScreenProps<SplitFlowParamList, 'PaymentRequest'>;
 export type SplitDetailScreenProps = StackScreenProps<SplitFlowParamList, 'SplitDetail'>;
+export type EditSplitScreenProps = StackScreenProps<SplitFlowParamList, 'EditSplit'>;
 export type SplitSuccessScreenProps = StackScreenProps<SplitFlowParamList, 'SplitSuccess'>;
 export type PayScreenProps = StackScreenProps<SplitFlowParamList, 'PayScreen'>;
+export type PaymentPlanScreenProps = StackScreenProps<SplitFlowParamList, 'PaymentPlan'>;
 export type ClaimItemsScreenProps = StackScreenProps<SplitFlowParamList, 'ClaimItems'>;
 
 // Settings/Payment Screen Props
@@ -14,18 +14,98 @@ export interface ReceiptItem {
   quantity: number; // Number of this item ordered
 }
 
+/**
+ * How tax, tip and bill-level adjustments are divided between people
+ * - equal: everyone pays the same
+ * - proportional: in proportion to what each person's items cost
+ */
+export type TaxTipMethod = 'equal' | 'proportional';
+
+/**
+ * Kinds of adjustment printed on receipts
+ */
+export type ReceiptAdjustmentKind =
+  | 'discount' // Member discount, promo, voucher (always taken off)
+  | 'surcharge' // Weekend, public holiday or card surcharge (always added)
+  | 'service_charge' // Service charge or fee (always added)
+  | 'rounding'; // Cash rounding (either way, as printed)
+
+/**
+ * A charge or reduction on top of the items
+ *
+ * Exactly one of `amount` and `percentage` is set. Percentages are of the
+ * item's line total (item-level) or of all the items (bill-level).
+ * Item-level adjustments are owed by whoever has the item; bill-level
+ * ones are divided by `distribution`.
+ */
+export interface ReceiptAdjustment {
+  id: string;
+  kind: ReceiptAdjustmentKind;
+  label: string; // As printed (e.g., "Sunday surcharge 10%")
+  amount?: number; // Fixed amount in dollars
+  percentage?: number; // Percentage (10 = 10%)
+  scope: 'bill' | 'item';
+  itemId?: string; // Item an item-level adjustment applies to
+  distribution: TaxTipMethod;
+}
+
 /**
  * Complete parsed receipt from OpenAI Vision API
  */
 export interface ParsedReceipt {
   items: ReceiptItem[]; // Array of extracted items
-  subtotal: number; // Sum of all items before tax/tip
+  subtotal: number; // Sum of all items before adjustments, tax and tip
   tax: number; // Tax amount
   tip: number; // Tip amount (if present on receipt)
+  adjustments?: ReceiptAdjustment[]; // Discounts, surcharges, service charges and rounding
   total: number; // Final total amount
   merchant?: string; // Restaurant/store name (optional)
   date?: string; // Receipt date (optional)
   confidence: number; // AI confidence score (0-1)
+  image_url?: string; // Uploaded receipt image (set once it has been stored for parsing)
+  corrections?: AppliedReceiptCorrection[]; // Reconciliation fixes the user accepted
+}
+
+/**
+ * Ways a parsed receipt's items can disagree with its printed totals
+ */
+export type ReceiptDiscrepancyType =
+  | 'missing_item' // Items add up to less than the receipt
+  | 'line_total_as_unit_price' // "2 Burger $20" read as two $20 burgers
+  | 'duplicated_combo_contents' // Combo contents listed as well as the combo
+  | 'discount_line' // A discount listed as a charge
+  | 'totals_mismatch' // Subtotal + adjustments + tax + tip doesn't equal the total
+  | 'unexplained'; // Items add up to more than the receipt, cause unknown
+
+/**
+ * A concrete change that resolves a discrepancy
+ */
+export type ReceiptFix =
+  | { kind: 'set_unit_price'; itemId: string; price: number }
+  | { kind: 'remove_items'; itemIds: string[] }
+  | { kind: 'add_item'; name: string; price: number }
+  | { kind: 'apply_discount'; itemId: string } // Drop the line and take it off the bill as a discount
+  | { kind: 'set_subtotal'; subtotal: number };
+
+/**
+ * A discrepancy found by reconcileReceipt, with its proposed fix (if any)
+ */
+export interface ReceiptDiscrepancy {
+  id: string;
+  type: ReceiptDiscrepancyType;
+  message: string; // User-friendly explanation
+  difference: number; // Items minus what the receipt says they should add up to
+  fix?: ReceiptFix;
+}
+
+/**
+ * A fix the user accepted, kept on the split for auditing
+ */
+export interface AppliedReceiptCorrection {
+  type: ReceiptDiscrepancyType;
+  message: string;
+  fix: ReceiptFix;
+  applied_at: string;
 }
 
 /**
@@ -37,6 +117,7 @@ export enum ReceiptParseErrorType {
   NO_ITEMS_FOUND = 'NO_ITEMS_FOUND', // AI couldn't extract any items
   INVALID_RESPONSE = 'INVALID_RESPONSE', // AI response doesn't match expected format
   NETWORK_ERROR = 'NETWORK_ERROR', // Network connection failed
+  RATE_LIMITED = 'RATE_LIMITED', // Too many scans in the rate limit window
 }
 
 /**
@@ -49,43 +130,17 @@ export interface ReceiptParseError {
 }
 
 /**
- * OpenAI Vision API request format
+ * Receipt parsing backends (selected with EXPO_PUBLIC_RECEIPT_PARSER)
+ * - openai: OpenAI Vision via the parse-receipt edge function
+ * - ocr: on-device text recognition + heuristic line-item parser
+ * - mock: fixed fixture receipts, for development and tests
  */
-export interface OpenAIVisionRequest {
-  model: string;
-  messages: Array<{
-    role: 'user' | 'system';
-    content: Array<{
-      type: 'text' | 'image_url';
-      text?: string;
-      image_url?: {
-        url: string;
-      };
-    }>;
-  }>;
-  max_tokens: number;
-  temperature?: number;
-}
+export type ReceiptParserProvider = 'openai' | 'ocr' | 'mock';
 
 /**
- * OpenAI Vision API response format
+ * Turns a receipt photo into a ParsedReceipt
  */
-export interface OpenAIVisionResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+export interface ReceiptParser {
+  provider: ReceiptParserProvider;
+  parse(imageUri: string): Promise<ParsedReceipt>;
 }
@@ -0,0 +1,252 @@
+import {
+  detectStatementFormat,
+  extractPaymentReference,
+  matchStatementTransactions,
+  OutstandingShare,
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  StatementTransaction,
+} from '../bankStatement';
+
+// CommBank: no header row, date / amount / description / balance
+const COMMBANK_CSV = [
+  '03/10/2026,"+52.00","Transfer From BOB SMITH ZS7K3QXM Dinner","+1052.00"',
+  '03/10/2026,"-18.40","WOOLWORTHS 1234 SYDNEY","+1000.00"',
+  '04/10/2026,"+25.50","Fast Transfer From Carol Jones rent","+1025.50"',
+].join('\r\n');
+
+// Westpac-style: header row with separate debit and credit columns
+const WESTPAC_CSV = [
+  'Bank Account,Date,Narrative,Debit Amount,Credit Amount,Balance,Categories',
+  '123456,13/10/2026,"DEPOSIT ONLINE 1234567 TFR Dave ZS-9P4MNB, thanks",,30.00,530.00,DEP',
+  '123456,14/10/2026,EFTPOS PURCHASE COLES,12.00,,518.00,POS',
+].join('\n');
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20261005120000[+10:AEST]
+<TRNAMT>40.00
+<FITID>202610050001
+<NAME>ERIN BROWN
+<MEMO>ZS 2X8QRT Pizza night
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20261006
+<TRNAMT>-9.95
+<FITID>202610060001
+<NAME>SPOTIFY
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const QIF = `!Type:Bank
+D07/10/2026
+T1,200.00
+PFRANK GREEN
+MBond share ZSH6WYJD
+^
+D08/10'26
+T-60.00
+PTELSTRA
+^
+`;
+
+function share(participantId: string, outstanding: number, overrides: Partial<OutstandingShare> = {}): OutstandingShare {
+  return {
+    participantId,
+    splitId: `split-${participantId}`,
+    splitTitle: 'Dinner',
+    participantName: 'Someone',
+    reference: `ZS${participantId.toUpperCase().padEnd(6, 'X')}`,
+    outstanding,
+    ...overrides,
+  };
+}
+
+function credit(fingerprint: string, amount: number, description = '', postedOn = '2026-10-03'): StatementTransaction {
+  return { fingerprint, postedOn, amount, description, reference: extractPaymentReference(description) };
+}
+
+describe('parseBankStatement', () => {
+  it.each([
+    [
+      'a CommBank CSV without a header row',
+      'csv' as const,
+      COMMBANK_CSV,
+      [
+        { postedOn: '2026-10-03', amount: 52, reference: 'ZS7K3QXM', description: 'Transfer From BOB SMITH ZS7K3QXM Dinner' },
+        { postedOn: '2026-10-04', amount: 25.5, reference: null, description: 'Fast Transfer From Carol Jones rent' },
+      ],
+    ],
+    [
+      'a CSV with separate debit and credit columns',
+      'csv' as const,
+      WESTPAC_CSV,
+      [
+        { postedOn: '2026-10-13', amount: 30, reference: 'ZS9P4MNB', description: 'DEPOSIT ONLINE 1234567 TFR Dave ZS-9P4MNB, thanks' },
+      ],
+    ],
+    [
+      'an OFX 1.x statement',
+      'ofx' as const,
+      OFX,
+      [{ postedOn: '2026-10-05', amount: 40, reference: 'ZS2X8QRT', description: 'ERIN BROWN ZS 2X8QRT Pizza night' }],
+    ],
+    [
+      'a QIF statement',
+      'qif' as const,
+      QIF,
+      [{ postedOn: '2026-10-07', amount: 1200, reference: 'ZSH6WYJD', description: 'FRANK GREEN Bond share ZSH6WYJD' }],
+    ],
+  ])('reads the credits from %s', (_, format, content, expected) => {
+    const transactions = parseBankStatement(content, format);
+
+    expect(transactions.map(({ fingerprint, ...transaction }) => transaction)).toEqual(expected);
+  });
+
+  it('fingerprints the same statement the same way on every import', () => {
+    const first = parseBankStatement(COMMBANK_CSV, 'csv').map(transaction => transaction.fingerprint);
+    const again = parseBankStatement(COMMBANK_CSV, 'csv').map(transaction => transaction.fingerprint);
+
+    expect(again).toEqual(first);
+    expect(new Set(first).size).toBe(first.length);
+  });
+
+  it('uses the bank\'s own transaction id when the statement has one', () => {
+    expect(parseBankStatement(OFX, 'ofx')[0].fingerprint).toBe('fitid:202610050001');
+  });
+
+  it('keeps identical credits on the same day apart', () => {
+    const statement = [
+      '03/10/2026,"+20.00","Transfer From ALEX","+20.00"',
+      '03/10/2026,"+20.00","Transfer From ALEX","+40.00"',
+    ].join('\n');
+
+    expect(parseBankStatement(statement, 'csv').map(transaction => transaction.fingerprint)).toEqual([
+      '2026-10-03|2000|transfer from alex',
+      '2026-10-03|2000|transfer from alex#2',
+    ]);
+  });
+});
+
+describe('statement fields', () => {
+  it.each([
+    ['03/04/2026', '2026-04-03'],
+    ['04/13/2026', '2026-04-13'],
+    ['2026-10-03', '2026-10-03'],
+    ['20261003093000', '2026-10-03'],
+    ['3 Oct 2026', '2026-10-03'],
+    ['03-Oct-26', '2026-10-03'],
+    ['08/10\'26', '2026-10-08'],
+    ['Pending', null],
+  ])('reads the date %s as %s', (value, expected) => {
+    expect(parseStatementDate(value)).toBe(expected);
+  });
+
+  it.each([
+    ['$1,234.50', 1234.5],
+    ['+52.00', 52],
+    ['(12.00)', -12],
+    ['12.00 CR', 12],
+    ['12.00 DR', -12],
+    ['0.1', 0.1],
+    ['n/a', null],
+  ])('reads the amount %s as %s', (value, expected) => {
+    expect(parseStatementAmount(value)).toBe(expected);
+  });
+
+  it.each([
+    ['Transfer ZS7K3QXM', 'ZS7K3QXM'],
+    ['tfr zs-7k3qxm', 'ZS7K3QXM'],
+    ['ZS 7K3QXM rent', 'ZS7K3QXM'],
+    ['ZS7K3QX0', null], // 0 is never used in references
+    ['ABZS7K3QXM', null],
+  ])('finds the reference in "%s"', (text, expected) => {
+    expect(extractPaymentReference(text)).toBe(expected);
+  });
+
+  it.each([
+    ['statement.QFX', 'ofx', ''],
+    ['export.qif', 'qif', ''],
+    ['download', 'ofx', 'OFXHEADER:100\nDATA:OFXSGML'],
+    ['download', 'qif', '!Type:Bank\nD07/10/2026'],
+    ['download', 'csv', '03/10/2026,+52.00,Transfer'],
+    ['notes.txt', null, 'nothing to see'],
+  ])('detects the format of %s as %s from its name or contents', (fileName, expected, content) => {
+    expect(detectStatementFormat(fileName, content)).toBe(expected);
+  });
+});
+
+describe('matchStatementTransactions', () => {
+  it('matches a credit carrying a share\'s reference and amount exactly', () => {
+    const bob = share('bob', 52, { reference: 'ZS7K3QXM' });
+    const transaction = credit('t1', 52, 'Transfer From BOB ZS7K3QXM');
+
+    expect(matchStatementTransactions([transaction], [share('carol', 52), bob])).toEqual({
+      matches: [{ transaction, share: bob, amount: 52, confidence: 'exact' }],
+      unmatched: [],
+    });
+  });
+
+  it('matches a part payment by reference, and never records more than is owed', () => {
+    const bob = share('bob', 52, { reference: 'ZS7K3QXM' });
+    const part = credit('t1', 20, 'ZS7K3QXM', '2026-10-03');
+    const over = credit('t2', 50, 'ZS7K3QXM', '2026-10-04');
+
+    const { matches } = matchStatementTransactions([over, part], [bob]);
+
+    expect(matches.map(match => [match.transaction.fingerprint, match.amount, match.confidence])).toEqual([
+      ['t1', 20, 'reference'],
+      ['t2', 32, 'reference'],
+    ]);
+  });
+
+  it('matches on amount alone only when one share is owed exactly that much', () => {
+    const carol = share('carol', 25.5);
+    const transaction = credit('t1', 25.5, 'Fast Transfer From Carol Jones');
+
+    expect(matchStatementTransactions([transaction], [share('bob', 52), carol]).matches).toEqual([
+      { transaction, share: carol, amount: 25.5, confidence: 'amount' },
+    ]);
+    expect(matchStatementTransactions([transaction], [share('bob', 25.5), carol]).unmatched).toEqual([transaction]);
+  });
+
+  it('breaks an amount tie with the payer\'s name', () => {
+    const carol = share('carol', 25.5, { participantName: 'Carol Jones' });
+    const dave = share('dave', 25.5, { participantName: 'Dave Lee' });
+
+    const { matches } = matchStatementTransactions([credit('t1', 25.5, 'Transfer From C JONES')], [dave, carol]);
+
+    expect(matches.map(match => match.share)).toEqual([carol]);
+  });
+
+  it('does not pay a share twice when the same credit is imported twice', () => {
+    const bob = share('bob', 52, { reference: 'ZS7K3QXM' });
+    const [first] = parseBankStatement(COMMBANK_CSV, 'csv');
+    const duplicate = { ...first, fingerprint: `${first.fingerprint}#2` };
+
+    const { matches, unmatched } = matchStatementTransactions([first, duplicate], [bob]);
+
+    expect(matches).toEqual([{ transaction: first, share: bob, amount: 52, confidence: 'exact' }]);
+    expect(unmatched).toEqual([duplicate]);
+  });
+
+  it('leaves a credit with an unknown reference and no amount match unmatched', () => {
+    const transaction = credit('t1', 99, 'Transfer ZS2X8QRT');
+
+    expect(matchStatementTransactions([transaction], [share('bob', 52)])).toEqual({
+      matches: [],
+      unmatched: [transaction],
+    });
+  });
+});
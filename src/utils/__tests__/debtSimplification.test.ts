@@ -0,0 +1,129 @@
+import fc from 'fast-check';
+import { toCents } from '../money';
+import {
+  BalanceParticipant,
+  BalanceSplit,
+  calculateNetBalances,
+  calculateSettlements,
+  simplifyDebts,
+} from '../debtSimplification';
+
+function split(creatorId: string, participants: BalanceParticipant[], status = 'active'): BalanceSplit {
+  return { creator_id: creatorId, status, participants };
+}
+
+function owes(userId: string | null, amountOwed: number, amountPaid = 0): BalanceParticipant {
+  return { user_id: userId, amount_owed: amountOwed, amount_paid: amountPaid };
+}
+
+describe('calculateNetBalances', () => {
+  it('skips external participants and splits that are not active', () => {
+    const balances = calculateNetBalances([
+      split('alice', [owes('bob', 20), owes(null, 20), owes(null, 15.5, 5)]),
+      split('bob', [owes('alice', 50)], 'settled'),
+    ]);
+
+    expect(balances).toEqual({ alice: 20, bob: -20 });
+  });
+
+  it('counts a credit from an edit as owed back by the creator', () => {
+    expect(calculateNetBalances([split('alice', [owes('bob', 10, 25)])])).toEqual({ alice: -15, bob: 15 });
+  });
+});
+
+describe('calculateSettlements', () => {
+  it('cancels a three-way cycle completely', () => {
+    const settlements = calculateSettlements([
+      split('bob', [owes('alice', 10)]),
+      split('carol', [owes('bob', 10)]),
+      split('alice', [owes('carol', 10)]),
+    ]);
+
+    expect(settlements).toEqual([]);
+  });
+
+  it('settles only what a partial payment leaves of a cycle', () => {
+    const settlements = calculateSettlements([
+      split('bob', [owes('alice', 10, 4)]),
+      split('carol', [owes('bob', 10)]),
+      split('alice', [owes('carol', 10)]),
+    ]);
+
+    expect(settlements).toEqual([{ from: 'bob', to: 'alice', amount: 4 }]);
+  });
+
+  it('nets an uneven cycle down to what is left over', () => {
+    const settlements = calculateSettlements([
+      split('bob', [owes('alice', 30)]),
+      split('carol', [owes('bob', 20)]),
+      split('alice', [owes('carol', 10)]),
+    ]);
+
+    expect(settlements).toEqual([
+      { from: 'alice', to: 'bob', amount: 10 },
+      { from: 'alice', to: 'carol', amount: 10 },
+    ]);
+  });
+
+  it('keeps cent remainders from uneven shares exact', () => {
+    // $100 three ways, twice over, with the odd cent on different people
+    const settlements = calculateSettlements([
+      split('alice', [owes('bob', 33.33), owes('carol', 33.33), owes('dan', 33.34)]),
+      split('bob', [owes('alice', 33.34), owes('carol', 33.33), owes('dan', 33.33)]),
+    ]);
+
+    expect(settlements).toEqual([
+      { from: 'dan', to: 'bob', amount: 66.67 },
+      { from: 'carol', to: 'alice', amount: 66.66 },
+    ]);
+  });
+
+  it('ignores rows for people without an account', () => {
+    const settlements = calculateSettlements([
+      split('alice', [owes(null, 40), owes('bob', 12.5)]),
+      split('bob', [owes(null, 9.99, 9.99)]),
+    ]);
+
+    expect(settlements).toEqual([{ from: 'bob', to: 'alice', amount: 12.5 }]);
+  });
+});
+
+describe('simplifyDebts', () => {
+  const balances = fc
+    .array(fc.integer({ min: -50_000, max: 50_000 }), { minLength: 1, maxLength: 12 })
+    .map(cents => {
+      // Close the books with one more member so the balances net to zero
+      const all = [...cents, -cents.reduce((sum, value) => sum + value, 0)];
+      const result: { [userId: string]: number } = {};
+      all.forEach((value, index) => {
+        result[`user-${index}`] = value / 100;
+      });
+      return result;
+    });
+
+  it('moves exactly each member\'s balance, in at most one fewer transfer than members, largest first', () => {
+    fc.assert(
+      fc.property(balances, memberBalances => {
+        const settlements = simplifyDebts(memberBalances);
+        const net: { [userId: string]: number } = {};
+
+        settlements.forEach(({ from, to, amount }) => {
+          expect(toCents(amount)).toBeGreaterThan(0);
+          net[from] = (net[from] || 0) - toCents(amount);
+          net[to] = (net[to] || 0) + toCents(amount);
+        });
+
+        Object.keys(memberBalances).forEach(userId => {
+          expect(net[userId] || 0).toBe(toCents(memberBalances[userId]));
+        });
+
+        const members = Object.values(memberBalances).filter(value => value !== 0).length;
+        expect(settlements.length).toBeLessThanOrEqual(Math.max(members - 1, 0));
+
+        settlements.slice(1).forEach((settlement, index) => {
+          expect(settlement.amount).toBeLessThanOrEqual(settlements[index].amount);
+        });
+      })
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import fc from 'fast-check';
+import { allocateCents, allocateCentsByKey, splitCentsEvenly, sumCents, toCents } from '../money';
+
+const cents = fc.integer({ min: -10_000_000, max: 10_000_000 });
+const weights = fc.array(fc.double({ min: -100, max: 10_000, noNaN: true }), { minLength: 1, maxLength: 20 });
+
+describe('toCents', () => {
+  it('rounds amounts stored just below a half cent up', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+
+  it('treats non-finite amounts as zero', () => {
+    expect(toCents(NaN)).toBe(0);
+    expect(toCents(Infinity)).toBe(0);
+  });
+});
+
+describe('allocateCents', () => {
+  it('always returns shares that add up to the total', () => {
+    fc.assert(
+      fc.property(cents, weights, (total, shareWeights) => {
+        const shares = allocateCents(total, shareWeights);
+
+        expect(shares).toHaveLength(shareWeights.length);
+        expect(sumCents(shares)).toBe(total);
+        shares.forEach(share => expect(Number.isInteger(share)).toBe(true));
+      })
+    );
+  });
+
+  it('keeps every share within a cent of its exact proportion', () => {
+    fc.assert(
+      fc.property(cents, weights, (total, shareWeights) => {
+        const positive = shareWeights.map(weight => Math.max(weight, 0));
+        const weightTotal = positive.reduce((sum, weight) => sum + weight, 0);
+        fc.pre(weightTotal > 0);
+
+        allocateCents(total, shareWeights).forEach((share, index) => {
+          expect(Math.abs(share - (total * positive[index]) / weightTotal)).toBeLessThan(1);
+        });
+      })
+    );
+  });
+
+  it('gives nothing to a zero or negative weight', () => {
+    expect(allocateCents(1000, [1, 0, -5, 1])).toEqual([500, 0, 0, 500]);
+  });
+
+  it('gives leftover cents to the largest remainders, earliest first on a tie', () => {
+    expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateCents(100, [1, 2])).toEqual([33, 67]);
+  });
+
+  it('divides negative amounts the same way', () => {
+    expect(allocateCents(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+  });
+
+  it('divides equally when no weight is positive', () => {
+    expect(allocateCents(10, [0, 0, 0])).toEqual([4, 3, 3]);
+  });
+});
+
+describe('splitCentsEvenly', () => {
+  it('always returns shares that add up to the total and differ by at most a cent', () => {
+    fc.assert(
+      fc.property(cents, fc.integer({ min: 1, max: 50 }), (total, count) => {
+        const shares = splitCentsEvenly(total, count);
+
+        expect(shares).toHaveLength(count);
+        expect(sumCents(shares)).toBe(total);
+        expect(Math.max(...shares) - Math.min(...shares)).toBeLessThanOrEqual(1);
+      })
+    );
+  });
+});
+
+describe('allocateCentsByKey', () => {
+  it('always returns shares that add up to the total, one per key', () => {
+    fc.assert(
+      fc.property(
+        cents,
+        fc.dictionary(fc.uuid(), fc.integer({ min: 0, max: 100_000 }), { minKeys: 1, maxKeys: 15 }),
+        (total, keyWeights) => {
+          const shares = allocateCentsByKey(total, keyWeights);
+
+          expect(Object.keys(shares)).toEqual(Object.keys(keyWeights));
+          expect(sumCents(Object.values(shares))).toBe(total);
+        }
+      )
+    );
+  });
+});
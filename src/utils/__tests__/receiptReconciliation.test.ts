@@ -0,0 +1,169 @@
+import { ParsedReceipt, ReceiptItem } from '../../types/receipt';
+import { applyReceiptFix, reconcileReceipt } from '../receiptReconciliation';
+
+function item(id: string, name: string, price: number, quantity = 1): ReceiptItem {
+  return { id, name, price, quantity };
+}
+
+function receipt(items: ReceiptItem[], totals: Partial<ParsedReceipt>): ParsedReceipt {
+  return { items, subtotal: 0, tax: 0, tip: 0, total: 0, confidence: 0.9, ...totals };
+}
+
+/**
+ * Apply every proposed fix in turn, as a user accepting them all would
+ */
+function applyAllFixes(original: ParsedReceipt): ParsedReceipt {
+  return reconcileReceipt(original).discrepancies.reduce(applyReceiptFix, original);
+}
+
+describe('reconcileReceipt', () => {
+  it.each([
+    [
+      'a GST-inclusive receipt',
+      receipt([item('1', 'Flat White', 4.5), item('2', 'Croissant', 4.5, 2)], { subtotal: 13.5, total: 13.5 }),
+    ],
+    [
+      'a receipt with tax and tip added',
+      receipt([item('1', 'Burger', 18), item('2', 'Fries', 6)], { subtotal: 24, tax: 2.4, tip: 3.6, total: 30 }),
+    ],
+    [
+      'a receipt with a surcharge',
+      receipt([item('1', 'Pasta', 25)], {
+        subtotal: 25,
+        total: 27.5,
+        adjustments: [
+          { id: 'a1', kind: 'surcharge', label: 'Sunday 10%', percentage: 10, scope: 'bill', distribution: 'proportional' },
+        ],
+      }),
+    ],
+    [
+      'per-unit prices rounded to the cent',
+      receipt([item('1', 'Dumplings', 3.33, 3)], { subtotal: 10, total: 10 }),
+    ],
+  ])('balances %s', (_, parsed) => {
+    const result = reconcileReceipt(parsed);
+
+    expect(result.balanced).toBe(true);
+    expect(result.discrepancies).toEqual([]);
+  });
+
+  it('offers to correct a subtotal that does not match the total', () => {
+    const parsed = receipt([item('1', 'Steak', 32), item('2', 'Wine', 14)], { subtotal: 41, total: 46 });
+    const result = reconcileReceipt(parsed);
+
+    expect(result.discrepancies).toEqual([
+      expect.objectContaining({
+        type: 'totals_mismatch',
+        difference: -5,
+        fix: { kind: 'set_subtotal', subtotal: 46 },
+      }),
+    ]);
+    expect(reconcileReceipt(applyAllFixes(parsed)).balanced).toBe(true);
+  });
+
+  it.each([
+    ['tax', { tax: 3, tip: 0 }],
+    ['tip', { tax: 0, tip: 5 }],
+  ])('flags %s the printed total leaves out', (_, extras) => {
+    // Read off the receipt, but the total was printed before it was added
+    const parsed = receipt([item('1', 'Curry', 22), item('2', 'Rice', 8)], { subtotal: 30, total: 30, ...extras });
+    const extrasTotal = extras.tax + extras.tip;
+    const result = reconcileReceipt(parsed);
+
+    expect(result.expectedItemsTotal).toBe(30 - extrasTotal);
+    expect(result.discrepancies.map(discrepancy => discrepancy.type)).toEqual(['totals_mismatch', 'unexplained']);
+    expect(result.discrepancies[0].difference).toBe(extrasTotal);
+    expect(result.discrepancies[1].difference).toBe(extrasTotal);
+  });
+
+  it('spots a quantity whose line total was read as the unit price', () => {
+    const parsed = receipt([item('1', 'Pale Ale', 27, 3), item('2', 'Chips', 8)], { subtotal: 35, total: 35 });
+    const result = reconcileReceipt(parsed);
+
+    expect(result.itemsTotal).toBe(89);
+    expect(result.discrepancies).toEqual([
+      expect.objectContaining({
+        type: 'line_total_as_unit_price',
+        difference: 54,
+        fix: { kind: 'set_unit_price', itemId: '1', price: 9 },
+      }),
+    ]);
+
+    const fixed = applyAllFixes(parsed);
+    expect(fixed.items[0]).toEqual(item('1', 'Pale Ale', 9, 3));
+    expect(reconcileReceipt(fixed).balanced).toBe(true);
+  });
+
+  it('spots combo contents listed as well as the combo', () => {
+    const parsed = receipt(
+      [item('1', 'Burger Meal', 15), item('2', 'Burger', 8), item('3', 'Chips', 4), item('4', 'Coke', 3)],
+      { subtotal: 15, total: 15 }
+    );
+
+    expect(reconcileReceipt(parsed).discrepancies).toEqual([
+      expect.objectContaining({
+        type: 'duplicated_combo_contents',
+        fix: { kind: 'remove_items', itemIds: ['2', '3', '4'] },
+      }),
+    ]);
+    expect(applyAllFixes(parsed).items.map(fixed => fixed.name)).toEqual(['Burger Meal']);
+  });
+
+  it('spots a discount that was read as a charge', () => {
+    const parsed = receipt([item('1', 'Pizza', 24), item('2', 'Happy Hour Discount', 4)], { subtotal: 20, total: 20 });
+
+    expect(reconcileReceipt(parsed).discrepancies).toEqual([
+      expect.objectContaining({ type: 'discount_line', difference: 8, fix: { kind: 'apply_discount', itemId: '2' } }),
+    ]);
+
+    const fixed = applyAllFixes(parsed);
+    expect(fixed.items).toEqual([item('1', 'Pizza', 24)]);
+    expect(fixed.subtotal).toBe(24);
+    expect(fixed.adjustments).toEqual([
+      expect.objectContaining({ kind: 'discount', label: 'Happy Hour Discount', amount: 4, scope: 'bill' }),
+    ]);
+    expect(reconcileReceipt(fixed).balanced).toBe(true);
+  });
+
+  it('offers to add an item the parser missed', () => {
+    const parsed = receipt([item('1', 'Laksa', 19.5)], { subtotal: 31, total: 31 });
+
+    expect(reconcileReceipt(parsed).discrepancies).toEqual([
+      expect.objectContaining({
+        type: 'missing_item',
+        difference: -11.5,
+        fix: { kind: 'add_item', name: 'Unlisted item', price: 11.5 },
+      }),
+    ]);
+    expect(reconcileReceipt(applyAllFixes(parsed)).balanced).toBe(true);
+  });
+
+  it('falls back to asking for a check when nothing explains the difference', () => {
+    const parsed = receipt([item('1', 'Ramen', 21), item('2', 'Gyoza', 12)], { subtotal: 30, total: 30 });
+
+    expect(reconcileReceipt(parsed).discrepancies).toEqual([
+      expect.objectContaining({ type: 'unexplained', difference: 3 }),
+    ]);
+    expect(reconcileReceipt(parsed).discrepancies[0].fix).toBeUndefined();
+  });
+});
+
+describe('applyReceiptFix', () => {
+  it('records each accepted fix on the receipt', () => {
+    const parsed = receipt([item('1', 'Steak', 32)], { subtotal: 30, total: 32 });
+    const [discrepancy] = reconcileReceipt(parsed).discrepancies;
+    const fixed = applyReceiptFix(parsed, discrepancy);
+
+    expect(fixed.subtotal).toBe(32);
+    expect(fixed.corrections).toEqual([
+      { type: 'totals_mismatch', message: discrepancy.message, fix: discrepancy.fix, applied_at: expect.any(String) },
+    ]);
+  });
+
+  it('leaves the receipt alone for a discrepancy with no fix', () => {
+    const parsed = receipt([item('1', 'Ramen', 21), item('2', 'Gyoza', 12)], { subtotal: 30, total: 30 });
+    const [unexplained] = reconcileReceipt(parsed).discrepancies;
+
+    expect(applyReceiptFix(parsed, unexplained)).toBe(parsed);
+  });
+});
@@ -0,0 +1,204 @@
+import { parseReceiptLines } from '../receiptText';
+
+type Case = {
+  name: string;
+  lines: string[];
+  items: { name: string; price: number; quantity: number }[];
+  subtotal: number;
+  total: number;
+};
+
+// Text as OCR returns it: header noise, GST and payment lines, stray spacing
+const cases: Case[] = [
+  {
+    name: 'a cafe receipt with GST and card payment lines',
+    lines: [
+      'THE GROUNDS CAFE',
+      'ABN 12 345 678 901',
+      'Tax Invoice',
+      '12/03/2024  10:42',
+      'Flat White          4.50',
+      '2 Croissant         9.00',
+      'Avocado Toast      18.50',
+      'TOTAL              32.00',
+      'Includes GST        2.91',
+      'EFTPOS             32.00',
+    ],
+    items: [
+      { name: 'Flat White', price: 4.5, quantity: 1 },
+      { name: 'Croissant', price: 4.5, quantity: 2 },
+      { name: 'Avocado Toast', price: 18.5, quantity: 1 },
+    ],
+    subtotal: 32,
+    total: 32,
+  },
+  {
+    name: 'per-unit prices written every way a POS prints them',
+    lines: [
+      'Coffee 2 @ 4.50      9.00',
+      'Burger x2           30.00',
+      '3x Pale Ale         27.00',
+      'Total               66.00',
+    ],
+    items: [
+      { name: 'Coffee', price: 4.5, quantity: 2 },
+      { name: 'Burger', price: 15, quantity: 2 },
+      { name: 'Pale Ale', price: 9, quantity: 3 },
+    ],
+    subtotal: 66,
+    total: 66,
+  },
+  {
+    name: 'a combo with its contents, a free modifier and a paid add-on',
+    lines: [
+      'Burger Meal        15.00',
+      '  Burger            8.00',
+      '  Chips             4.00',
+      '  Coke              3.00',
+      'No Mayo             0.00',
+      'Extra Cheese        1.50',
+      'Total              16.50',
+    ],
+    items: [
+      { name: 'Burger Meal', price: 15, quantity: 1 },
+      { name: 'Extra Cheese', price: 1.5, quantity: 1 },
+    ],
+    subtotal: 16.5,
+    total: 16.5,
+  },
+  {
+    name: 'lines that only look like a combo when the total says otherwise',
+    lines: [
+      'Steak              30.00',
+      'Chips              10.00',
+      'Salad              20.00',
+      'Total              60.00',
+    ],
+    items: [
+      { name: 'Steak', price: 30, quantity: 1 },
+      { name: 'Chips', price: 10, quantity: 1 },
+      { name: 'Salad', price: 20, quantity: 1 },
+    ],
+    subtotal: 60,
+    total: 60,
+  },
+  {
+    name: 'a price OCR put on the line after its item, with a tip and no total',
+    lines: [
+      'Margherita Pizza',
+      '22.00',
+      'Garlic Bread        8.00',
+      'Subtotal           30.00',
+      'Tip                 5.00',
+    ],
+    items: [
+      { name: 'Margherita Pizza', price: 22, quantity: 1 },
+      { name: 'Garlic Bread', price: 8, quantity: 1 },
+    ],
+    subtotal: 30,
+    total: 35,
+  },
+  {
+    name: 'thousands separators, comma decimals and GST markers',
+    lines: [
+      'Laptop Stand    1,249.00 A',
+      'USB Cable          12,50*',
+      'Total           1,261.50',
+    ],
+    items: [
+      { name: 'Laptop Stand', price: 1249, quantity: 1 },
+      { name: 'USB Cable', price: 12.5, quantity: 1 },
+    ],
+    subtotal: 1261.5,
+    total: 1261.5,
+  },
+];
+
+describe('parseReceiptLines', () => {
+  it.each(cases)('reads $name', ({ lines, items, subtotal, total }) => {
+    const receipt = parseReceiptLines(lines);
+
+    expect(receipt.items.map(({ name, price, quantity }) => ({ name, price, quantity }))).toEqual(items);
+    expect(receipt.subtotal).toBe(subtotal);
+    expect(receipt.total).toBe(total);
+    expect(receipt.tax).toBe(0);
+  });
+
+  it('keeps discounts, surcharges and rounding out of the items', () => {
+    const receipt = parseReceiptLines([
+      'Pizza              24.00',
+      'Staff Discount     -4.00',
+      'Salad              12.00',
+      'Card Surcharge      0.51',
+      'Rounding           -0.01',
+      'Total              32.50',
+    ]);
+
+    expect(receipt.items.map(item => item.name)).toEqual(['Pizza', 'Salad']);
+    expect(receipt.adjustments).toEqual([
+      expect.objectContaining({ kind: 'discount', label: 'Staff Discount', amount: -4, scope: 'item', itemId: '1' }),
+      expect.objectContaining({ kind: 'surcharge', label: 'Card Surcharge', amount: 0.51, scope: 'bill' }),
+      expect.objectContaining({ kind: 'rounding', label: 'Rounding', amount: -0.01, scope: 'bill' }),
+    ]);
+    // Items are what was paid before the adjustments
+    expect(receipt.subtotal).toBe(36);
+    expect(receipt.total).toBe(32.5);
+    expect(receipt.confidence).toBe(0.9);
+  });
+
+  it('moves a discount on combo contents onto the bill', () => {
+    const receipt = parseReceiptLines([
+      'Breakfast Combo    20.00',
+      'Eggs               12.00',
+      'Coffee Disc        -1.00',
+      'Juice               8.00',
+      'Total              19.00',
+    ]);
+
+    expect(receipt.items.map(item => item.name)).toEqual(['Breakfast Combo']);
+    expect(receipt.adjustments).toEqual([
+      expect.objectContaining({ kind: 'discount', amount: -1, scope: 'bill', itemId: undefined }),
+    ]);
+  });
+
+  it.each([
+    ['items match the total', ['Flat White 4.50', 'Muffin 5.50', 'Total 10.00'], 0.9],
+    ['items are 10% under the total', ['Flat White 4.50', 'Muffin 4.50', 'Total 10.00'], 0.7],
+    ['there is no total to check against', ['Flat White 4.50', 'Muffin 5.50'], 0.6],
+    ['items are nowhere near the total', ['Flat White 4.50', 'Total 45.00'], 0.3],
+  ])('is less confident the further the items are off (%s)', (_, lines, confidence) => {
+    expect(parseReceiptLines(lines).confidence).toBe(confidence);
+  });
+
+  it.each([
+    ['12/03/2024 10:42', '2024-03-12'],
+    ['Date: 5.7.24', '2024-07-05'],
+    ['2024-11-30 19:02', '2024-11-30'],
+    ['Table 12 Covers 4', undefined],
+  ])('reads "%s" as %s, day first', (line, date) => {
+    expect(parseReceiptLines(['Cafe Sydney', line, 'Latte 5.00']).date).toBe(date);
+  });
+
+  it('takes the merchant from the header, skipping invoice and contact lines', () => {
+    const receipt = parseReceiptLines([
+      'TAX INVOICE',
+      'Phone 02 9999 1234',
+      'Bills Darlinghurst',
+      'Ricotta Hotcakes 26.00',
+    ]);
+
+    expect(receipt.merchant).toBe('Bills Darlinghurst');
+  });
+
+  it('ignores priced lines after the total', () => {
+    const receipt = parseReceiptLines([
+      'Schnitzel          28.00',
+      'Total              28.00',
+      'Cash               50.00',
+      'Change             22.00',
+      'Loyalty Points      3.00',
+    ]);
+
+    expect(receipt.items.map(item => item.name)).toEqual(['Schnitzel']);
+  });
+});
@@ -0,0 +1,108 @@
+import fc from 'fast-check';
+import { ReceiptItem } from '../../types/receipt';
+import { sumCents, toCents } from '../money';
+import {
+  calculateFinalTotals,
+  calculateYourItemShare,
+  calculateYourTax,
+  calculateYourTip,
+  calculateYourTotal,
+  ItemAssignments,
+} from '../splitCalculations';
+
+const userIds = ['alice', 'bob', 'carol', 'dan'];
+
+/**
+ * Receipts of up to 8 items, each assigned to one or more of the users
+ */
+const receipts = fc
+  .array(
+    fc.record({
+      price: fc.integer({ min: 1, max: 50_000 }),
+      quantity: fc.integer({ min: 1, max: 4 }),
+      sharers: fc.subarray(userIds, { minLength: 1 }),
+    }),
+    { minLength: 1, maxLength: 8 }
+  )
+  .map(lines => {
+    const items: ReceiptItem[] = lines.map((line, index) => ({
+      id: `item-${index}`,
+      name: `Item ${index}`,
+      price: line.price / 100,
+      quantity: line.quantity,
+    }));
+    const assignments: ItemAssignments = {};
+    lines.forEach((line, index) => {
+      assignments[`item-${index}`] = line.sharers;
+    });
+    return { items, assignments };
+  });
+
+const amounts = fc.integer({ min: 0, max: 100_000 }).map(value => value / 100);
+
+describe('calculateFinalTotals', () => {
+  it('adds up to the items plus tax and tip, whichever way tax and tip are divided', () => {
+    fc.assert(
+      fc.property(receipts, amounts, amounts, fc.constantFrom('equal', 'proportional'), (receipt, tax, tip, method) => {
+        const totals = calculateFinalTotals(
+          receipt.items,
+          receipt.assignments,
+          tax,
+          tip,
+          userIds,
+          method as 'equal' | 'proportional'
+        );
+        const itemsCents = sumCents(receipt.items.map(item => toCents(item.price) * item.quantity));
+
+        expect(sumCents(Object.values(totals).map(toCents))).toBe(itemsCents + toCents(tax) + toCents(tip));
+      })
+    );
+  });
+
+  it('adds up to the receipt total with bill and item adjustments', () => {
+    fc.assert(
+      fc.property(receipts, amounts, fc.integer({ min: 1, max: 30 }), (receipt, tax, percentage) => {
+        const totals = calculateFinalTotals(receipt.items, receipt.assignments, tax, 0, userIds, 'proportional', [
+          { id: 'd', kind: 'discount', label: 'Member discount', percentage, scope: 'bill', distribution: 'proportional' },
+          { id: 's', kind: 'surcharge', label: 'Surcharge', amount: 1.01, scope: 'item', itemId: 'item-0', distribution: 'proportional' },
+        ]);
+        const itemsCents = sumCents(receipt.items.map(item => toCents(item.price) * item.quantity));
+        const discountCents = Math.round((itemsCents * percentage) / 100);
+
+        expect(sumCents(Object.values(totals).map(toCents))).toBe(itemsCents - discountCents + 101 + toCents(tax));
+      })
+    );
+  });
+});
+
+describe('your share of a receipt', () => {
+  const burger: ReceiptItem = { id: 'burger', name: 'Burger', price: 10, quantity: 1 };
+
+  it('splits an item in whole cents', () => {
+    expect(calculateYourItemShare(burger, { selected: true, splitWith: 3 })).toBe(3.34);
+    expect(calculateYourItemShare({ ...burger, price: 2.35, quantity: 3 }, { selected: true, yourQuantity: 2 })).toBe(4.7);
+  });
+
+  it('gives you and everyone else whole-cent shares of the tax that add up to within a cent', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100_000 }), fc.integer({ min: 1, max: 100_000 }), amounts, (yours, rest, tax) => {
+        const yourSubtotal = yours / 100;
+        const receiptSubtotal = (yours + rest) / 100;
+        const yourTax = calculateYourTax(yourSubtotal, receiptSubtotal, tax);
+        const theirTax = calculateYourTax(rest / 100, receiptSubtotal, tax);
+
+        expect(toCents(yourTax) / 100).toBe(yourTax);
+        expect(Math.abs(toCents(yourTax) + toCents(theirTax) - toCents(tax))).toBeLessThanOrEqual(1);
+        expect(calculateYourTip(yourSubtotal, receiptSubtotal, tax)).toBe(yourTax);
+      })
+    );
+  });
+
+  it('returns a total in whole cents that is the sum of its parts', () => {
+    const items: ReceiptItem[] = [burger, { id: 'fries', name: 'Fries', price: 4.5, quantity: 1 }];
+    const total = calculateYourTotal(items, { burger: { selected: true, splitWith: 3 } }, 14.5, 1.45, 2);
+
+    expect(total.subtotal).toBe(3.34);
+    expect(toCents(total.total)).toBe(toCents(total.subtotal) + toCents(total.tax) + toCents(total.tip));
+  });
+});
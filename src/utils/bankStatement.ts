@@ -0,0 +1,442 @@
+/**
+ * Bank Statement Utility
+ *
+ * Reads bank transaction exports (CSV, OFX, QIF) into incoming credits
+ * and matches them to outstanding shares by payment reference and
+ * amount. Matches are only proposals; the creator confirms each one.
+ * All arithmetic is done in whole cents.
+ */
+
+import { fromCents, toCents } from './money';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+/**
+ * One incoming credit from a statement (debits are dropped)
+ */
+export type StatementTransaction = {
+  fingerprint: string; // Stable across re-imports of the same statement
+  postedOn: string; // yyyy-MM-dd
+  amount: number; // AUD, always positive
+  description: string;
+  reference: string | null; // Payment reference found in the description
+};
+
+/**
+ * A share that's still owed to the creator, as the matcher sees it
+ */
+export type OutstandingShare = {
+  participantId: string;
+  splitId: string;
+  splitTitle: string;
+  participantName: string;
+  reference: string;
+  outstanding: number; // In PAYMENT_CURRENCY, what a bank transfer would be
+};
+
+/**
+ * 'exact' = reference and amount both match, 'reference' = reference
+ * matches but the amount differs (part payment or overpayment),
+ * 'amount' = no reference, but only one share is owed exactly this much
+ */
+export type MatchConfidence = 'exact' | 'reference' | 'amount';
+
+export type ProposedMatch<T extends StatementTransaction = StatementTransaction> = {
+  transaction: T;
+  share: OutstandingShare;
+  amount: number; // What to record against the share, in PAYMENT_CURRENCY
+  confidence: MatchConfidence;
+};
+
+export type StatementMatches<T extends StatementTransaction = StatementTransaction> = {
+  matches: ProposedMatch<T>[];
+  unmatched: T[];
+};
+
+// ZS + 6 characters without 0/O/1/I/L; banks may add spaces or dashes
+const REFERENCE_PATTERN = /\bZS[\s-]?([A-HJKMNP-Z2-9]{6})\b/i;
+
+const MONTHS: { [month: string]: number } = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Field parsing
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Find a payment reference in a transaction description
+ * @returns The reference without separators (e.g. "ZS7K3QXM"), or null
+ */
+export function extractPaymentReference(text: string): string | null {
+  const match = text.match(REFERENCE_PATTERN);
+  return match ? `ZS${match[1].toUpperCase()}` : null;
+}
+
+/**
+ * Parse a statement date into yyyy-MM-dd
+ *
+ * Australian banks write day first, so 03/04/2026 is 3 April; month-first
+ * dates are only recognised when the day is over 12. Also reads ISO,
+ * OFX (20261003...) and "3 Oct 2026" dates.
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim().replace(/'/g, '/');
+
+  // OFX: yyyyMMdd, optionally followed by a time and timezone
+  let match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) {
+    return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // ISO: yyyy-MM-dd
+  match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (match) {
+    return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // dd/MM/yyyy, or MM/dd/yyyy when the second part can't be a month
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (match) {
+    let day = Number(match[1]);
+    let month = Number(match[2]);
+    if (month > 12 && day <= 12) {
+      [day, month] = [month, day];
+    }
+    return buildDate(toFullYear(Number(match[3])), month, day);
+  }
+
+  // 3 Oct 2026 / 03-Oct-26
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    return buildDate(toFullYear(Number(match[3])), MONTHS[match[2].toLowerCase()], Number(match[1]));
+  }
+
+  return null;
+}
+
+function toFullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function buildDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Parse a statement amount: "$1,234.50", "+52.00", "(12.00)", "12.00 CR", "12.00 DR"
+ * @returns Signed amount (credits positive), or null if it isn't an amount
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\bDR$/i.test(text)) {
+    sign = -1;
+  }
+  text = text.replace(/\b(CR|DR)$/i, '').replace(/[$,\s]/g, '');
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(text)) return null;
+
+  return fromCents(toCents(parseFloat(text)) * sign);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Formats
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Work out a statement's format from its file name, or failing that its contents
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const start = content.trimStart().slice(0, 200);
+  if (/OFXHEADER|<OFX>/i.test(start)) return 'ofx';
+  if (/^!Type:/i.test(start)) return 'qif';
+  if (start.includes(',')) return 'csv';
+  return null;
+}
+
+type RawTransaction = {
+  id?: string; // The bank's own id (OFX FITID)
+  postedOn: string;
+  amount: number;
+  description: string;
+};
+
+/**
+ * Split CSV text into rows, honouring quoted fields
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(cell => cell !== '')) rows.push(row);
+
+  return rows;
+}
+
+function findColumn(header: string[], pattern: RegExp): number {
+  return header.findIndex(cell => pattern.test(cell));
+}
+
+/**
+ * CSV exports differ by bank. With a header row, columns are found by
+ * name (a single Amount column, or separate Credit/Debit columns).
+ * Without one (CommBank), the first date, the first amount after it and
+ * the longest text cell are used.
+ */
+function parseCsv(content: string): RawTransaction[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const hasHeader = !rows[0].some(cell => parseStatementDate(cell));
+
+  if (hasHeader) {
+    const header = rows[0].map(cell => cell.toLowerCase());
+    const dateColumn = findColumn(header, /date/);
+    const amountColumn = findColumn(header, /^(amount|value|transaction amount)/);
+    const creditColumn = findColumn(header, /credit|deposit|money in|paid in/);
+    const debitColumn = findColumn(header, /debit|withdrawal|money out|paid out/);
+    const descriptionColumns = header
+      .map((cell, index) => (/desc|narrative|details|particulars|memo|reference|payee|transaction$/.test(cell) ? index : -1))
+      .filter(index => index >= 0 && index !== dateColumn && index !== amountColumn);
+
+    if (dateColumn < 0 || (amountColumn < 0 && creditColumn < 0)) return [];
+
+    return rows.slice(1).flatMap(row => {
+      const postedOn = parseStatementDate(row[dateColumn] || '');
+      let amount = amountColumn >= 0 ? parseStatementAmount(row[amountColumn] || '') : null;
+
+      if (amount === null && creditColumn >= 0) {
+        const credit = parseStatementAmount(row[creditColumn] || '');
+        const debit = debitColumn >= 0 ? parseStatementAmount(row[debitColumn] || '') : null;
+        amount = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+      }
+
+      if (!postedOn || amount === null) return [];
+      return [{
+        postedOn,
+        amount,
+        description: descriptionColumns.map(index => row[index]).filter(Boolean).join(' '),
+      }];
+    });
+  }
+
+  return rows.flatMap(row => {
+    const dateIndex = row.findIndex(cell => parseStatementDate(cell));
+    if (dateIndex < 0) return [];
+
+    const amountIndex = row.findIndex((cell, index) => index > dateIndex && parseStatementAmount(cell) !== null);
+    if (amountIndex < 0) return [];
+
+    const description = row
+      .filter((cell, index) => index !== dateIndex && index !== amountIndex && parseStatementAmount(cell) === null)
+      .sort((a, b) => b.length - a.length)[0] || '';
+
+    return [{
+      postedOn: parseStatementDate(row[dateIndex])!,
+      amount: parseStatementAmount(row[amountIndex])!,
+      description,
+    }];
+  });
+}
+
+function ofxField(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * OFX 1.x (SGML) and 2.x (XML): one <STMTTRN> block per transaction
+ */
+function parseOfx(content: string): RawTransaction[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap(block => {
+    const postedOn = parseStatementDate(ofxField(block, 'DTPOSTED'));
+    const amount = parseStatementAmount(ofxField(block, 'TRNAMT'));
+    if (!postedOn || amount === null) return [];
+
+    return [{
+      id: ofxField(block, 'FITID') || undefined,
+      postedOn,
+      amount,
+      description: [ofxField(block, 'NAME'), ofxField(block, 'MEMO')].filter(Boolean).join(' '),
+    }];
+  });
+}
+
+/**
+ * QIF: one field per line (D date, T/U amount, P payee, M memo), records end with ^
+ */
+function parseQif(content: string): RawTransaction[] {
+  const transactions: RawTransaction[] = [];
+  let record: { [field: string]: string } = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      const postedOn = parseStatementDate(record.D || '');
+      const amount = parseStatementAmount(record.T || record.U || '');
+      if (postedOn && amount !== null) {
+        transactions.push({
+          postedOn,
+          amount,
+          description: [record.P, record.M].filter(Boolean).join(' '),
+        });
+      }
+      record = {};
+      continue;
+    }
+
+    record[line[0]] = line.slice(1).trim();
+  }
+
+  return transactions;
+}
+
+/**
+ * Read a statement export into its incoming credits
+ *
+ * Transactions without a bank id are fingerprinted by date, amount and
+ * description; identical ones on the same day are numbered so they stay
+ * distinct.
+ */
+export function parseBankStatement(content: string, format: StatementFormat): StatementTransaction[] {
+  const raw = format === 'ofx' ? parseOfx(content) : format === 'qif' ? parseQif(content) : parseCsv(content);
+  const seen = new Map<string, number>();
+
+  return raw
+    .filter(transaction => transaction.amount > 0)
+    .map(transaction => {
+      const description = transaction.description.replace(/\s+/g, ' ').trim();
+      const key = transaction.id
+        ? `fitid:${transaction.id}`
+        : `${transaction.postedOn}|${toCents(transaction.amount)}|${description.toLowerCase()}`;
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+
+      return {
+        fingerprint: occurrence > 1 ? `${key}#${occurrence}` : key,
+        postedOn: transaction.postedOn,
+        amount: transaction.amount,
+        description,
+        reference: extractPaymentReference(description),
+      };
+    });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Matching
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function mentionsName(description: string, name: string): boolean {
+  const text = description.toLowerCase();
+  return name
+    .toLowerCase()
+    .split(/\s+/)
+    .some(part => part.length >= 3 && text.includes(part));
+}
+
+/**
+ * Propose which outstanding share each credit pays
+ *
+ * Credits carrying a known reference go to that share: 'exact' if the
+ * amount is what's outstanding, otherwise 'reference' (never recording
+ * more than is outstanding). Credits without one are matched on amount
+ * alone when a single share is owed exactly that much, using the payer's
+ * name in the description to break ties. Earlier credits are matched
+ * first, and each one reduces what its share still owes.
+ */
+export function matchStatementTransactions<T extends StatementTransaction>(
+  transactions: T[],
+  shares: OutstandingShare[]
+): StatementMatches<T> {
+  const remaining = new Map(shares.map(share => [share.participantId, toCents(share.outstanding)]));
+  const byReference = new Map(shares.map(share => [share.reference.toUpperCase(), share]));
+  const matches: ProposedMatch<T>[] = [];
+  const unmatched: T[] = [];
+
+  const ordered = [...transactions].sort((a, b) => a.postedOn.localeCompare(b.postedOn));
+
+  for (const transaction of ordered) {
+    const amountCents = toCents(transaction.amount);
+    const referenced = transaction.reference ? byReference.get(transaction.reference.toUpperCase()) : undefined;
+
+    if (referenced && remaining.get(referenced.participantId)! > 0) {
+      const owedCents = remaining.get(referenced.participantId)!;
+      const appliedCents = Math.min(amountCents, owedCents);
+      remaining.set(referenced.participantId, owedCents - appliedCents);
+      matches.push({
+        transaction,
+        share: referenced,
+        amount: appliedCents / 100,
+        confidence: amountCents === owedCents ? 'exact' : 'reference',
+      });
+      continue;
+    }
+
+    let candidates = shares.filter(share => remaining.get(share.participantId) === amountCents);
+    if (candidates.length > 1) {
+      candidates = candidates.filter(share => mentionsName(transaction.description, share.participantName));
+    }
+
+    if (candidates.length === 1) {
+      remaining.set(candidates[0].participantId, 0);
+      matches.push({ transaction, share: candidates[0], amount: transaction.amount, confidence: 'amount' });
+    } else {
+      unmatched.push(transaction);
+    }
+  }
+
+  return { matches, unmatched };
+}
@@ -0,0 +1,134 @@
+/**
+ * Currency Utility
+ *
+ * Supported currencies, display formatting and conversion using the
+ * exchange-rate snapshot stored on each split when it was created.
+ * Snapshots are never refreshed, so a split's converted amounts stay
+ * stable no matter how rates move afterwards.
+ */
+
+import { fromCents, toCents } from './money';
+
+/**
+ * Currency used when a split, group or profile doesn't specify one
+ */
+export const DEFAULT_CURRENCY = 'AUD';
+
+/**
+ * Currency card payments are charged in (Stripe account currency)
+ */
+export const PAYMENT_CURRENCY = 'AUD';
+
+/**
+ * Display information for a supported currency
+ */
+export type CurrencyInfo = {
+  code: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+};
+
+/**
+ * Currencies a split can be in
+ *
+ * Amounts are stored and divided in hundredths (see utils/money), so only
+ * currencies with two-decimal minor units are offered. Zero-decimal ones
+ * such as JPY would show shares that don't add up to the total.
+ */
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'AUD', symbol: '$', name: 'Australian Dollar', decimals: 2 },
+  { code: 'NZD', symbol: 'NZ$', name: 'New Zealand Dollar', decimals: 2 },
+  { code: 'USD', symbol: 'US$', name: 'US Dollar', decimals: 2 },
+  { code: 'CAD', symbol: 'CA$', name: 'Canadian Dollar', decimals: 2 },
+  { code: 'EUR', symbol: '€', name: 'Euro', decimals: 2 },
+  { code: 'GBP', symbol: '£', name: 'British Pound', decimals: 2 },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar', decimals: 2 },
+  { code: 'THB', symbol: '฿', name: 'Thai Baht', decimals: 2 },
+];
+
+/**
+ * Exchange rates captured when a split was created
+ *
+ * `rates[code]` is how many units of `code` one unit of `base` buys,
+ * so `rates[base]` is always 1.
+ */
+export type ExchangeRateSnapshot = {
+  base: string;
+  rates: { [currency: string]: number };
+  provider: string;
+  captured_at: string;
+};
+
+/**
+ * Look up display information for a currency code
+ *
+ * @param code - ISO 4217 currency code
+ * @returns Currency info (unknown codes use the code as their symbol)
+ */
+export function getCurrencyInfo(code: string | null | undefined): CurrencyInfo {
+  const upper = (code || DEFAULT_CURRENCY).toUpperCase();
+  return (
+    SUPPORTED_CURRENCIES.find(c => c.code === upper) || {
+      code: upper,
+      symbol: `${upper} `,
+      name: upper,
+      decimals: 2,
+    }
+  );
+}
+
+/**
+ * Get the symbol used to prefix amounts in a currency
+ *
+ * @param code - ISO 4217 currency code
+ * @returns Symbol (e.g., "$", "€", "NZ$")
+ */
+export function getCurrencySymbol(code: string | null | undefined): string {
+  return getCurrencyInfo(code).symbol;
+}
+
+/**
+ * Format an amount in the given currency
+ *
+ * @param amount - Amount to format
+ * @param code - ISO 4217 currency code
+ * @returns Formatted string (e.g., "€12.50", "NZ$8.00")
+ */
+export function formatMoney(amount: number, code: string | null | undefined = DEFAULT_CURRENCY): string {
+  const info = getCurrencyInfo(code);
+  const cents = toCents(amount);
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}${info.symbol}${fromCents(Math.abs(cents)).toFixed(info.decimals)}`;
+}
+
+/**
+ * Convert an amount between currencies using a split's rate snapshot
+ *
+ * Splits created before multi-currency support have no snapshot and were
+ * always single-currency, so their amounts are returned unchanged.
+ *
+ * @param amount - Amount in `from` currency
+ * @param from - Currency the amount is in
+ * @param to - Currency to convert to
+ * @param snapshot - Rates captured when the split was created
+ * @returns Converted amount rounded to cents
+ * @throws Error if the snapshot has no rate for either currency
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  snapshot: ExchangeRateSnapshot | null | undefined
+): number {
+  if (from === to || !snapshot) return amount;
+
+  const fromRate = from === snapshot.base ? 1 : snapshot.rates[from];
+  const toRate = to === snapshot.base ? 1 : snapshot.rates[to];
+
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate from ${from} to ${to}`);
+  }
+
+  return fromCents(toCents((amount / fromRate) * toRate));
+}
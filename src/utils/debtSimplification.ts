@@ -0,0 +1,139 @@
+/**
+ * Debt Simplification Utility
+ *
+ * Nets every member's balance across a set of splits and reduces the
+ * resulting debts to the smallest practical set of transfers.
+ * All arithmetic is done in whole cents so results are penny-perfect.
+ */
+
+import { PersonTotals } from './splitCalculations';
+import { fromCents, toCents } from './money';
+
+/**
+ * A single participant row as used for balance netting
+ */
+export type BalanceParticipant = {
+  user_id: string | null;
+  amount_owed: number;
+  amount_paid: number;
+};
+
+/**
+ * Minimal split shape needed to compute balances
+ */
+export type BalanceSplit = {
+  creator_id: string;
+  status: string;
+  participants: BalanceParticipant[];
+};
+
+/**
+ * A suggested transfer: `from` pays `to` the given amount
+ */
+export type Settlement = {
+  from: string;
+  to: string;
+  amount: number;
+};
+
+/**
+ * Calculate each member's net balance across all active splits
+ *
+ * Positive balance = member is owed money, negative = member owes money.
+ * Outstanding amounts are `amount_owed - amount_paid` per participant row,
+ * owed to the split creator; a negative amount (paid more than an edited
+ * share) is a credit the creator owes back. External participants (no
+ * user_id) are skipped.
+ *
+ * @param splits - Splits with their participant rows
+ * @returns PersonTotals object with net balances in dollars
+ */
+export function calculateNetBalances(splits: BalanceSplit[]): PersonTotals {
+  const balanceCents: { [userId: string]: number } = {};
+
+  splits.forEach((split) => {
+    // Only count active splits
+    if (split.status !== 'active') return;
+
+    split.participants.forEach((participant) => {
+      if (!participant.user_id) return;
+      if (participant.user_id === split.creator_id) return;
+
+      const outstanding =
+        toCents(participant.amount_owed) - toCents(participant.amount_paid || 0);
+      if (outstanding === 0) return;
+
+      balanceCents[participant.user_id] =
+        (balanceCents[participant.user_id] || 0) - outstanding;
+      balanceCents[split.creator_id] =
+        (balanceCents[split.creator_id] || 0) + outstanding;
+    });
+  });
+
+  const balances: PersonTotals = {};
+  Object.keys(balanceCents).forEach((userId) => {
+    balances[userId] = fromCents(balanceCents[userId]);
+  });
+
+  return balances;
+}
+
+/**
+ * Reduce net balances to a minimal set of transfers
+ *
+ * Repeatedly matches the largest debtor with the largest creditor, so each
+ * step settles at least one member completely. Cycles (A owes B, B owes C,
+ * C owes A) cancel out during netting and produce no transfers.
+ *
+ * @param balances - Net balances per member (positive = owed money)
+ * @returns Array of settlements, largest first
+ */
+export function simplifyDebts(balances: PersonTotals): Settlement[] {
+  const creditors: { userId: string; cents: number }[] = [];
+  const debtors: { userId: string; cents: number }[] = [];
+
+  Object.keys(balances)
+    .sort()
+    .forEach((userId) => {
+      const cents = toCents(balances[userId]);
+      if (cents > 0) creditors.push({ userId, cents });
+      if (cents < 0) debtors.push({ userId, cents: -cents });
+    });
+
+  const byAmountDesc = (a: { cents: number }, b: { cents: number }) => b.cents - a.cents;
+  const settlements: Settlement[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort(byAmountDesc);
+    debtors.sort(byAmountDesc);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const transfer = Math.min(creditor.cents, debtor.cents);
+
+    settlements.push({
+      from: debtor.userId,
+      to: creditor.userId,
+      amount: fromCents(transfer),
+    });
+
+    creditor.cents -= transfer;
+    debtor.cents -= transfer;
+
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  // Largest first (ties keep the order they were found in)
+  return settlements.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Calculate the simplified settlements for a set of splits
+ *
+ * @param splits - Splits with their participant rows
+ * @returns Array of settlements
+ */
+export function calculateSettlements(splits: BalanceSplit[]): Settlement[] {
+  return simplifyDebts(calculateNetBalances(splits));
+}
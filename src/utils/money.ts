@@ -0,0 +1,117 @@
+/**
+ * Money Utility
+ *
+ * Split math works in whole cents and only converts back to dollars at
+ * the edges (display, the database). Dividing an amount between people
+ * uses largest-remainder allocation: everyone gets the whole cents of
+ * their exact share, and the cents left over go one each to the largest
+ * fractional parts, so the shares always add up to exactly the amount.
+ */
+
+/**
+ * An amount in whole cents (integer)
+ */
+export type Cents = number;
+
+/**
+ * Convert a dollar amount to whole cents
+ *
+ * Rounds via a fixed-precision string first, so values like 1.005 that
+ * are stored as 1.00499999... still round up.
+ *
+ * @param amount - Amount in dollars
+ * @returns Amount in cents
+ */
+export function toCents(amount: number): Cents {
+  if (!Number.isFinite(amount)) return 0;
+  return Math.round(Number((amount * 100).toFixed(6)));
+}
+
+/**
+ * Convert whole cents back to a dollar amount
+ *
+ * @param cents - Amount in cents
+ * @returns Amount in dollars
+ */
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+/**
+ * Add up amounts in cents
+ */
+export function sumCents(values: Cents[]): Cents {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Divide an amount in proportion to weights (largest remainder)
+ *
+ * Ties for a leftover cent go to the earliest weight, so the result only
+ * depends on the order of the inputs. Negative weights count as zero; if
+ * no weight is positive the amount is divided equally. Negative amounts
+ * (e.g. discounts) are divided the same way and returned negative.
+ *
+ * @param total - Amount to divide, in cents
+ * @param weights - One weight per share (any scale: amounts, percentages, 1s)
+ * @returns Shares in cents, in the same order as `weights`, summing to `total`
+ */
+export function allocateCents(total: Cents, weights: number[]): Cents[] {
+  if (weights.length === 0) return [];
+
+  const sign = total < 0 ? -1 : 1;
+  const magnitude = Math.abs(Math.round(total));
+  const positive = weights.map(weight => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const weightTotal = positive.reduce((sum, weight) => sum + weight, 0);
+  const effective = weightTotal > 0 ? positive : weights.map(() => 1);
+  const effectiveTotal = weightTotal > 0 ? weightTotal : weights.length;
+
+  const exact = effective.map(weight => (magnitude * weight) / effectiveTotal);
+  const shares = exact.map(share => Math.floor(share));
+  let leftover = magnitude - sumCents(shares);
+
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - shares[index] }))
+    .filter(({ index }) => effective[index] > 0)
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length) {
+    shares[byRemainder[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return shares.map(share => (share === 0 ? 0 : share * sign));
+}
+
+/**
+ * Divide an amount into equal shares, giving leftover cents to the first shares
+ *
+ * @param total - Amount to divide, in cents
+ * @param count - Number of shares
+ * @returns Shares in cents, summing to `total`
+ */
+export function splitCentsEvenly(total: Cents, count: number): Cents[] {
+  return allocateCents(total, new Array(Math.max(count, 0)).fill(1));
+}
+
+/**
+ * Divide an amount between keys in proportion to their weights
+ *
+ * @param total - Amount to divide, in cents
+ * @param weights - Weight per key (insertion order breaks ties)
+ * @returns Share per key in cents, summing to `total`
+ */
+export function allocateCentsByKey(
+  total: Cents,
+  weights: { [key: string]: number }
+): { [key: string]: Cents } {
+  const keys = Object.keys(weights);
+  const shares = allocateCents(total, keys.map(key => weights[key]));
+  const result: { [key: string]: Cents } = {};
+
+  keys.forEach((key, index) => {
+    result[key] = shares[index];
+  });
+
+  return result;
+}
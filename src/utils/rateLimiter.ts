@@ -15,33 +15,41 @@ export type RateLimitAction =
 export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
-  resetAt: number;
+  resetAt: number; // Unix time in seconds
   limit: number;
 }
 
+// SQLSTATE raised by the database when an insert is over its limit
+const RATE_LIMIT_ERROR_CODE = 'P0429';
+
 /**
  * Check if an action is rate limited
  * @param action - The type of action to check
+ * @param options.consume - false to read the remaining quota without using it
  * @returns RateLimitResult with allowed status and remaining quota
  */
-export async function checkRateLimit(action: RateLimitAction): Promise<RateLimitResult> {
+export async function checkRateLimit(
+  action: RateLimitAction,
+  options: { consume?: boolean } = {}
+): Promise<RateLimitResult> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { session } } = await supabase.auth.getSession();
 
-    if (!user) {
+    if (!session) {
       // Allow unauthenticated users but with stricter limits
       return {
         allowed: true,
         remaining: 10,
-        resetAt: Date.now() + 60000,
+        resetAt: Math.floor(Date.now() / 1000) + 60,
         limit: 10,
       };
     }
 
+    // The function limits whoever the session belongs to
     const { data, error } = await supabase.functions.invoke('rate-limiter', {
       body: {
-        userId: user.id,
         action,
+        consume: options.consume !== false,
       },
     });
 
@@ -109,8 +117,36 @@ export function getRateLimitMessage(result: RateLimitResult): string {
   }
 }
 
+/**
+ * Check if an error is the database rejecting a write that's over its rate limit
+ */
+export function isRateLimitError(error: any): boolean {
+  return error?.code === RATE_LIMIT_ERROR_CODE;
+}
+
+/**
+ * Human-readable message for a rate limit error from the database
+ */
+export function getRateLimitErrorMessage(error: any): string {
+  try {
+    const details = JSON.parse(error?.details || '{}');
+    if (details.reset_at) {
+      return getRateLimitMessage({
+        allowed: false,
+        remaining: 0,
+        resetAt: Number(details.reset_at),
+        limit: details.limit,
+      });
+    }
+  } catch {
+    // Fall through to the generic message
+  }
+  return 'Rate limited. Please try again later.';
+}
+
 /**
  * Rate limit configurations (for display purposes)
+ * Enforced limits live in the rate_limits table (supabase/add-rate-limits.sql)
  */
 export const RATE_LIMIT_INFO = {
   api_default: {
@@ -0,0 +1,245 @@
+/**
+ * Receipt Reconciliation Utility
+ *
+ * Checks a parsed receipt's arithmetic (items against subtotal,
+ * adjustments, tax, tip and total), explains where it's off and proposes
+ * fixes the user can accept. Items are expected to add up to
+ * total - adjustments - tax - tip, which holds for both GST-inclusive
+ * (tax 0) and tax-added receipts.
+ * All arithmetic is done in whole cents.
+ */
+
+import {
+  AppliedReceiptCorrection,
+  ParsedReceipt,
+  ReceiptDiscrepancy,
+  ReceiptFix,
+  ReceiptItem,
+} from '../types/receipt';
+import { formatMoney } from './currency';
+import { sumCents, toCents } from './money';
+import { getAdjustmentCents } from './splitCalculations';
+
+/**
+ * Result of reconciling a receipt
+ */
+export type ReceiptReconciliation = {
+  balanced: boolean;
+  itemsTotal: number; // What the items add up to
+  expectedItemsTotal: number; // What the receipt says they should add up to
+  discrepancies: ReceiptDiscrepancy[];
+};
+
+// Per-unit prices are rounded to cents, so multi-quantity lines can be off by a few cents
+const TOLERANCE_CENTS = 5;
+
+const DISCOUNT_PATTERN = /discount|promo|voucher|coupon|saving|\boff\b|rebate/i;
+
+function lineCents(item: ReceiptItem): number {
+  return toCents(item.price) * item.quantity;
+}
+
+/**
+ * Find runs of items directly after a combo that add up to the combo's price
+ */
+function findComboContents(items: ReceiptItem[], surplusCents: number): ReceiptDiscrepancy[] {
+  const found: ReceiptDiscrepancy[] = [];
+
+  items.forEach((combo, index) => {
+    const comboCents = lineCents(combo);
+    let sum = 0;
+
+    for (let next = index + 1; next < items.length && sum < comboCents; next++) {
+      sum += lineCents(items[next]);
+      const contents = items.slice(index + 1, next + 1);
+
+      if (sum === comboCents && contents.length >= 2 && Math.abs(sum - surplusCents) <= TOLERANCE_CENTS) {
+        found.push({
+          id: `duplicated_combo_contents:${combo.id}`,
+          type: 'duplicated_combo_contents',
+          message: `${contents.map(item => item.name).join(', ')} look like what comes with ${combo.name}. Remove them?`,
+          difference: surplusCents / 100,
+          fix: { kind: 'remove_items', itemIds: contents.map(item => item.id) },
+        });
+        break;
+      }
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Find multi-quantity items whose price looks like the line total
+ */
+function findLineTotalsAsUnitPrices(items: ReceiptItem[], surplusCents: number): ReceiptDiscrepancy[] {
+  return items
+    .filter(item => item.quantity > 1)
+    .filter(item => {
+      const overcharge = toCents(item.price) * (item.quantity - 1);
+      return Math.abs(overcharge - surplusCents) <= Math.max(TOLERANCE_CENTS, item.quantity);
+    })
+    .map(item => {
+      const unitPrice = Math.round(toCents(item.price) / item.quantity) / 100;
+      return {
+        id: `line_total_as_unit_price:${item.id}`,
+        type: 'line_total_as_unit_price' as const,
+        message: `${item.quantity}x ${item.name} at ${formatMoney(item.price)} looks like the line total. Use ${formatMoney(unitPrice)} each?`,
+        difference: surplusCents / 100,
+        fix: { kind: 'set_unit_price' as const, itemId: item.id, price: unitPrice },
+      };
+    });
+}
+
+/**
+ * Find discount lines that were read as charges
+ *
+ * A discount listed as a charge is counted twice: once added instead of
+ * taken off, so the items come out over by double its amount.
+ */
+function findDiscountLines(items: ReceiptItem[], surplusCents: number): ReceiptDiscrepancy[] {
+  return items
+    .filter(item => DISCOUNT_PATTERN.test(item.name))
+    .filter(item => items.length > 1 && Math.abs(lineCents(item) * 2 - surplusCents) <= TOLERANCE_CENTS)
+    .map(item => ({
+      id: `discount_line:${item.id}`,
+      type: 'discount_line' as const,
+      message: `${item.name} looks like a discount. Take ${formatMoney(lineCents(item) / 100)} off the bill instead?`,
+      difference: surplusCents / 100,
+      fix: { kind: 'apply_discount' as const, itemId: item.id },
+    }));
+}
+
+/**
+ * Compare a receipt's items with its printed totals
+ *
+ * @param receipt - Receipt with the totals as printed
+ * @returns Whether it balances, and what's wrong if it doesn't
+ */
+export function reconcileReceipt(receipt: ParsedReceipt): ReceiptReconciliation {
+  const itemsCents = receipt.items.reduce((sum, item) => sum + lineCents(item), 0);
+  const totalCents = toCents(receipt.total);
+  const taxCents = toCents(receipt.tax);
+  const tipCents = toCents(receipt.tip);
+  const adjustmentsCents = sumCents(
+    (receipt.adjustments || []).map(adjustment => getAdjustmentCents(adjustment, receipt.items))
+  );
+  const expectedCents = totalCents - adjustmentsCents - taxCents - tipCents;
+  const surplusCents = itemsCents - expectedCents;
+
+  const discrepancies: ReceiptDiscrepancy[] = [];
+
+  // The summary lines should add up on their own, whatever the items say
+  if (Math.abs(toCents(receipt.subtotal) - expectedCents) > TOLERANCE_CENTS) {
+    discrepancies.push({
+      id: 'totals_mismatch',
+      type: 'totals_mismatch',
+      message: `Subtotal ${formatMoney(receipt.subtotal)} plus adjustments, tax and tip doesn't match the total. Set the subtotal to ${formatMoney(expectedCents / 100)}?`,
+      difference: (toCents(receipt.subtotal) - expectedCents) / 100,
+      fix: { kind: 'set_subtotal', subtotal: expectedCents / 100 },
+    });
+  }
+
+  if (surplusCents < -TOLERANCE_CENTS) {
+    const missing = -surplusCents / 100;
+    discrepancies.push({
+      id: 'missing_item',
+      type: 'missing_item',
+      message: `Items add up to ${formatMoney(missing)} less than the receipt. An item may have been missed. Add it?`,
+      difference: surplusCents / 100,
+      fix: { kind: 'add_item', name: 'Unlisted item', price: missing },
+    });
+  } else if (surplusCents > TOLERANCE_CENTS) {
+    const explained = [
+      ...findLineTotalsAsUnitPrices(receipt.items, surplusCents),
+      ...findComboContents(receipt.items, surplusCents),
+      ...findDiscountLines(receipt.items, surplusCents),
+    ];
+
+    discrepancies.push(
+      ...(explained.length > 0
+        ? explained
+        : [{
+            id: 'unexplained',
+            type: 'unexplained' as const,
+            message: `Items add up to ${formatMoney(surplusCents / 100)} more than the receipt. Check the prices and quantities.`,
+            difference: surplusCents / 100,
+          }])
+    );
+  }
+
+  return {
+    balanced: discrepancies.length === 0,
+    itemsTotal: itemsCents / 100,
+    expectedItemsTotal: expectedCents / 100,
+    discrepancies,
+  };
+}
+
+/**
+ * Apply a proposed fix to a receipt and record it
+ *
+ * @param receipt - Receipt the discrepancy was found on
+ * @param discrepancy - Discrepancy with the fix to apply
+ * @returns Updated receipt with the correction appended to `corrections`
+ */
+export function applyReceiptFix(receipt: ParsedReceipt, discrepancy: ReceiptDiscrepancy): ParsedReceipt {
+  const fix: ReceiptFix | undefined = discrepancy.fix;
+  if (!fix) return receipt;
+
+  let updated: ParsedReceipt;
+
+  switch (fix.kind) {
+    case 'set_unit_price':
+      updated = {
+        ...receipt,
+        items: receipt.items.map(item => (item.id === fix.itemId ? { ...item, price: fix.price } : item)),
+      };
+      break;
+    case 'remove_items':
+      updated = { ...receipt, items: receipt.items.filter(item => !fix.itemIds.includes(item.id)) };
+      break;
+    case 'add_item':
+      updated = {
+        ...receipt,
+        items: [...receipt.items, { id: `item-${Date.now()}`, name: fix.name, price: fix.price, quantity: 1 }],
+      };
+      break;
+    case 'apply_discount': {
+      // The subtotal is what the items come to before the discount
+      const discount = receipt.items.find(item => item.id === fix.itemId);
+      const items = receipt.items.filter(item => item.id !== fix.itemId);
+      updated = {
+        ...receipt,
+        items,
+        subtotal: items.reduce((sum, item) => sum + lineCents(item), 0) / 100,
+        adjustments: discount
+          ? [
+              ...(receipt.adjustments || []),
+              {
+                id: `adjustment-${Date.now()}`,
+                kind: 'discount',
+                label: discount.name,
+                amount: lineCents(discount) / 100,
+                scope: 'bill',
+                distribution: 'proportional',
+              },
+            ]
+          : receipt.adjustments,
+      };
+      break;
+    }
+    case 'set_subtotal':
+      updated = { ...receipt, subtotal: fix.subtotal };
+      break;
+  }
+
+  const correction: AppliedReceiptCorrection = {
+    type: discrepancy.type,
+    message: discrepancy.message,
+    fix,
+    applied_at: new Date().toISOString(),
+  };
+
+  return { ...updated, corrections: [...(receipt.corrections || []), correction] };
+}
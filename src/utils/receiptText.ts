@@ -0,0 +1,323 @@
+/**
+ * Receipt Text Utility
+ *
+ * Deterministic line-item parser for OCR'd receipt text. It follows the
+ * same rules the vision prompt gives the model:
+ * - Prices are per unit ("2 Burger 20.00" is two $10.00 burgers)
+ * - Combo contents listed under a combo aren't separate charges
+ * - Lines under a combo that push past the combo price are standalone add-ons
+ * - $0.00 modifiers ("No Mayo") are ignored
+ * - Discounts, surcharges, service charges and rounding are adjustments,
+ *   not items; a discount straight after an item is for that item
+ * - Australian prices include GST, so tax is 0 and subtotal is what the
+ *   items come to before adjustments and tip
+ * All arithmetic is done in whole cents.
+ */
+
+import { ParsedReceipt, ReceiptAdjustment, ReceiptAdjustmentKind, ReceiptItem } from '../types/receipt';
+import { signAdjustmentCents } from './splitCalculations';
+
+/**
+ * A priced line before combo contents are collapsed
+ */
+type PricedLine = {
+  name: string;
+  quantity: number;
+  unitCents: number;
+  lineCents: number;
+};
+
+/**
+ * An adjustment line, with the item line it follows if it's for that item
+ */
+type AdjustmentLine = {
+  kind: ReceiptAdjustmentKind;
+  label: string;
+  cents: number; // Signed for its kind (discounts negative)
+  item: PricedLine | null;
+};
+
+type SummaryKind = 'subtotal' | 'tax' | 'tip' | 'total' | 'payment';
+
+// Trailing amount, optionally followed by a GST/flag marker ("10.00 A", "4.50*")
+const AMOUNT_PATTERN = /(-)?\$?\s?(\d{1,3}(?:,\d{3})+|\d+)[.,](\d{2})\s*[A-Z*#^]?$/;
+const UNIT_PRICE_PATTERN = /\s*(\d{1,3})\s*@\s*\$?(\d+)[.,](\d{2})\s*(?:ea(?:ch)?)?$/i;
+const LEADING_QUANTITY_PATTERN = /^(\d{1,2})\s*(?:[xX×]\s*|\s+)(?=\D)(.+)$/;
+const TRAILING_QUANTITY_PATTERN = /^(.+?)\s+[xX×]\s*(\d{1,3})$/;
+const HEADER_NOISE_PATTERN = /tax invoice|receipt|abn|phone|tel[:.\s]|www\.|\.com|order\s*#|table\s*\d/i;
+const ADJUSTMENT_PATTERN = /surcharge|service (fee|charge)|rounding|discount|\bdisc\b|promo|voucher|coupon/i;
+
+/**
+ * Parse an amount such as "1,234.56", "12,50" or "$4.00" into cents
+ */
+function parseCents(whole: string, fraction: string): number {
+  return parseInt(whole.replace(/,/g, ''), 10) * 100 + parseInt(fraction, 10);
+}
+
+/**
+ * Classify a non-item line with an amount (totals, tax, tip, payment details)
+ *
+ * "Total incl. GST" is the total, but "Includes GST" is the tax breakdown,
+ * so lines starting with "total" are checked before tax keywords.
+ */
+function getSummaryKind(label: string): SummaryKind | null {
+  const text = label.toLowerCase();
+
+  if (ADJUSTMENT_PATTERN.test(text)) return null;
+  if (/^sub[\s-]?total/.test(text)) return 'subtotal';
+  if (/^(grand\s+)?total\b|^(amount|balance)\s+due|^to\s+pay\b/.test(text)) return 'total';
+  if (/\b(gst|tax|vat)\b/.test(text)) return 'tax';
+  if (/\b(tip|gratuity)\b/.test(text)) return 'tip';
+  if (/\b(cash|change|eftpos|visa|mastercard|amex|card|paid|payment|tendered|balance)\b/.test(text)) {
+    return 'payment';
+  }
+
+  return null;
+}
+
+/**
+ * Classify a discount, surcharge, service charge or rounding line
+ *
+ * Any other negative line is taken to be a discount.
+ */
+function getAdjustmentKind(label: string, cents: number): ReceiptAdjustmentKind | null {
+  const text = label.toLowerCase();
+
+  if (/surcharge/.test(text)) return 'surcharge';
+  if (/service (fee|charge)/.test(text)) return 'service_charge';
+  if (/rounding/.test(text)) return 'rounding';
+  if (cents < 0 || ADJUSTMENT_PATTERN.test(text)) return 'discount';
+
+  return null;
+}
+
+/**
+ * Split a priced line's label into item name, quantity and (if shown) unit price
+ */
+function parseItemLabel(label: string, lineCents: number): PricedLine | null {
+  let name = label.trim();
+  let quantity = 1;
+  let unitCents: number | null = null;
+
+  // "Coffee 2 @ 4.50"
+  const unitMatch = name.match(UNIT_PRICE_PATTERN);
+  if (unitMatch) {
+    quantity = parseInt(unitMatch[1], 10);
+    unitCents = parseCents(unitMatch[2], unitMatch[3]);
+    name = name.slice(0, unitMatch.index).trim();
+  } else {
+    // "2 Burger" / "2x Burger" / "Burger x2"
+    const leading = name.match(LEADING_QUANTITY_PATTERN);
+    const trailing = name.match(TRAILING_QUANTITY_PATTERN);
+    if (leading) {
+      quantity = parseInt(leading[1], 10);
+      name = leading[2].trim();
+    } else if (trailing) {
+      quantity = parseInt(trailing[2], 10);
+      name = trailing[1].trim();
+    }
+  }
+
+  name = name.replace(/[.\s]+$/, '');
+  if (!/[a-z]{2}/i.test(name) || quantity < 1) return null;
+
+  return {
+    name,
+    quantity,
+    // The printed amount is the line total, so divide it back to a per-unit price
+    unitCents: unitCents ?? Math.round(lineCents / quantity),
+    lineCents,
+  };
+}
+
+/**
+ * Drop combo contents listed under a combo line
+ *
+ * A line is a combo when two or more of the lines after it add up to exactly
+ * its price. Anything after those lines stays a standalone item (add-on).
+ */
+function collapseCombos(lines: PricedLine[]): PricedLine[] {
+  const result: PricedLine[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const combo = lines[index];
+    result.push(combo);
+
+    let sum = 0;
+    let contentsEnd = -1;
+    for (let next = index + 1; next < lines.length && sum < combo.lineCents; next++) {
+      sum += lines[next].lineCents;
+      if (sum === combo.lineCents && next - index >= 2) {
+        contentsEnd = next;
+      }
+    }
+
+    index = contentsEnd === -1 ? index + 1 : contentsEnd + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Find the merchant name in the receipt header
+ */
+function findMerchant(lines: string[]): string | undefined {
+  return lines
+    .slice(0, 5)
+    .find(line => /[a-z]{3}/i.test(line) && !HEADER_NOISE_PATTERN.test(line) && !AMOUNT_PATTERN.test(line));
+}
+
+/**
+ * Find the receipt date (day-first, as printed on Australian receipts)
+ *
+ * @returns Date as YYYY-MM-DD, or undefined if none was found
+ */
+function findDate(lines: string[]): string | undefined {
+  for (const line of lines) {
+    const iso = line.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+    const dayFirst = line.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    if (dayFirst) {
+      const day = parseInt(dayFirst[1], 10);
+      const month = parseInt(dayFirst[2], 10);
+      const year = dayFirst[3].length === 2 ? 2000 + parseInt(dayFirst[3], 10) : parseInt(dayFirst[3], 10);
+      if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Score how much the parsed items can be trusted
+ *
+ * Items that add up to the printed total are as good as it gets for OCR;
+ * the further they are off, the lower the score.
+ */
+function scoreConfidence(itemsCents: number, totalCents: number | null): number {
+  if (totalCents === null || totalCents === 0) return 0.6;
+  if (itemsCents === totalCents) return 0.9;
+
+  const relativeError = Math.abs(itemsCents - totalCents) / totalCents;
+  return Math.max(0.3, Math.round((0.8 - relativeError) * 100) / 100);
+}
+
+/**
+ * Parse OCR'd receipt lines into a ParsedReceipt
+ *
+ * Lines should be in reading order with each row's name and price on the
+ * same line. A price on its own line is joined to the text line before it.
+ *
+ * @param rawLines - Receipt text, one printed row per entry
+ * @returns Parsed receipt (items may be empty if nothing looked like an item)
+ */
+export function parseReceiptLines(rawLines: string[]): ParsedReceipt {
+  const lines = rawLines.map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  const priced: PricedLine[] = [];
+  const adjustmentLines: AdjustmentLine[] = [];
+  const summary: { [kind in SummaryKind]?: number } = {};
+  let pendingLabel: string | null = null;
+  let previousItem: PricedLine | null = null;
+  let itemsEnded = false;
+
+  for (const line of lines) {
+    const amountMatch = line.match(AMOUNT_PATTERN);
+    if (!amountMatch) {
+      pendingLabel = line;
+      continue;
+    }
+
+    let label = line.slice(0, amountMatch.index).trim();
+    if (!label && pendingLabel) {
+      label = pendingLabel;
+    }
+    pendingLabel = null;
+
+    const cents = parseCents(amountMatch[2], amountMatch[3]) * (amountMatch[1] ? -1 : 1);
+    const kind = getSummaryKind(label);
+
+    if (kind) {
+      // Only the first figure of each kind counts (card slips often repeat the total)
+      if (summary[kind] === undefined) summary[kind] = cents;
+      if (kind === 'total') itemsEnded = true;
+      previousItem = null;
+      continue;
+    }
+
+    // Anything priced after the total is payment detail; $0.00 lines are modifiers
+    if (itemsEnded || cents === 0) continue;
+
+    const adjustmentKind = getAdjustmentKind(label, cents);
+    if (adjustmentKind) {
+      adjustmentLines.push({
+        kind: adjustmentKind,
+        label: label || 'Adjustment',
+        cents: signAdjustmentCents(adjustmentKind, cents),
+        item: adjustmentKind === 'discount' ? previousItem : null,
+      });
+      previousItem = null;
+      continue;
+    }
+
+    const item = cents > 0 ? parseItemLabel(label, cents) : null;
+    if (item) {
+      priced.push(item);
+      previousItem = item;
+    }
+  }
+
+  const rawCents = priced.reduce((sum, line) => sum + line.lineCents, 0);
+  const collapsed = collapseCombos(priced);
+  const collapsedCents = collapsed.reduce((sum, line) => sum + line.lineCents, 0);
+
+  const tipCents = Math.max(summary.tip ?? 0, 0);
+  const adjustmentsCents = adjustmentLines.reduce((sum, line) => sum + line.cents, 0);
+  const totalCents =
+    summary.total ?? (summary.subtotal !== undefined ? summary.subtotal + adjustmentsCents + tipCents : null);
+  // GST is already in the item prices, so items should add up to what was paid before adjustments and tip
+  const subtotalCents = totalCents === null ? null : totalCents - adjustmentsCents - tipCents;
+
+  // Prefer whichever reading adds up to the printed total (the VERIFY rule)
+  const useCollapsed =
+    subtotalCents === null || Math.abs(collapsedCents - subtotalCents) <= Math.abs(rawCents - subtotalCents);
+  const itemLines = useCollapsed ? collapsed : priced;
+  const itemsCents = useCollapsed ? collapsedCents : rawCents;
+
+  const items: ReceiptItem[] = itemLines.map((line, index) => ({
+    id: String(index + 1),
+    name: line.name,
+    price: line.unitCents / 100,
+    quantity: line.quantity,
+  }));
+
+  // A discount on an item that turned out to be combo contents comes off the bill instead
+  const adjustments: ReceiptAdjustment[] = adjustmentLines.map((line, index) => {
+    const itemIndex = line.item ? itemLines.indexOf(line.item) : -1;
+    return {
+      id: `adjustment-${index + 1}`,
+      kind: line.kind,
+      label: line.label,
+      amount: line.cents / 100,
+      scope: itemIndex === -1 ? 'bill' : 'item',
+      itemId: itemIndex === -1 ? undefined : items[itemIndex].id,
+      distribution: 'proportional',
+    };
+  });
+
+  return {
+    items,
+    subtotal: Math.max(subtotalCents ?? itemsCents, 0) / 100,
+    tax: 0,
+    tip: tipCents / 100,
+    adjustments,
+    total: (totalCents ?? itemsCents + adjustmentsCents + tipCents) / 100,
+    merchant: findMerchant(lines),
+    date: findDate(lines),
+    confidence: scoreConfidence(itemsCents, subtotalCents),
+  };
+}
@@ -2,10 +2,25 @@
  * Split Calculations Utility
  *
  * All math functions for calculating fair splits, shared items,
- * and tax/tip distribution with penny-perfect accuracy.
+ * adjustments and tax/tip distribution with penny-perfect accuracy.
+ *
+ * Amounts are worked out in cents (see ./money) and every split is
+ * allocated so the shares add up exactly to what's being split.
  */
 
-import { ReceiptItem } from '../types/receipt';
+import { ReceiptAdjustment, ReceiptAdjustmentKind, ReceiptItem, TaxTipMethod } from '../types/receipt';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+import {
+  allocateCents,
+  allocateCentsByKey,
+  Cents,
+  fromCents,
+  splitCentsEvenly,
+  sumCents,
+  toCents,
+} from './money';
+
+export type { TaxTipMethod };
 
 /**
  * Item assignment mapping: { itemId: [userId1, userId2, ...] }
@@ -21,11 +36,6 @@ export type PersonTotals = {
   [userId: string]: number;
 };
 
-/**
- * Tax/Tip distribution methods
- */
-export type TaxTipMethod = 'equal' | 'proportional';
-
 /**
  * Calculate share percentage for an item
  *
@@ -55,9 +65,62 @@ export function calculateIndividualAmount(
   return totalItemCost / numberOfPeople;
 }
 
+/**
+ * An item's line total (price × quantity) in cents
+ */
+function itemCents(item: ReceiptItem): Cents {
+  return Math.round(toCents(item.price) * item.quantity);
+}
+
+/**
+ * Convert per-person amounts in cents to dollars
+ */
+function toPersonTotals(cents: { [userId: string]: Cents }): PersonTotals {
+  const totals: PersonTotals = {};
+
+  Object.keys(cents).forEach((userId) => {
+    totals[userId] = fromCents(cents[userId]);
+  });
+
+  return totals;
+}
+
+/**
+ * Divide an amount equally among participants (leftover cents go to the
+ * first participants)
+ */
+function distributeEqually(amount: number, userIds: string[]): PersonTotals {
+  const shares = splitCentsEvenly(toCents(amount), userIds.length);
+  const totals: PersonTotals = {};
+
+  userIds.forEach((userId, index) => {
+    totals[userId] = fromCents(shares[index]);
+  });
+
+  return totals;
+}
+
+/**
+ * Divide an amount in proportion to subtotals (equally if nobody has a
+ * subtotal yet)
+ */
+function distributeProportionally(amount: number, subtotals: PersonTotals): PersonTotals {
+  const weights: { [userId: string]: number } = {};
+
+  Object.keys(subtotals).forEach((userId) => {
+    weights[userId] = toCents(subtotals[userId] || 0);
+  });
+
+  return toPersonTotals(allocateCentsByKey(toCents(amount), weights));
+}
+
 /**
  * Calculate subtotals for each person based on item assignments
  *
+ * A shared item's cost is divided exactly, and the leftover cents across
+ * all shared items go to whoever's exact share was largest, so the
+ * subtotals add up to the cost of the assigned items.
+ *
  * @param items - Array of receipt items
  * @param assignments - Item assignments mapping
  * @returns PersonTotals object with subtotals
@@ -66,7 +129,8 @@ export function calculatePersonSubtotals(
   items: ReceiptItem[],
   assignments: ItemAssignments
 ): PersonTotals {
-  const subtotals: PersonTotals = {};
+  const exactShares: { [userId: string]: number } = {};
+  let assignedCents = 0;
 
   items.forEach((item) => {
     const assignedPeople = assignments[item.id] || [];
@@ -74,18 +138,15 @@ export function calculatePersonSubtotals(
 
     if (numberOfPeople === 0) return; // Skip unassigned items
 
-    const amountPerPerson = calculateIndividualAmount(
-      item.price,
-      item.quantity,
-      numberOfPeople
-    );
+    const lineCents = itemCents(item);
+    assignedCents += lineCents;
 
     assignedPeople.forEach((userId) => {
-      subtotals[userId] = (subtotals[userId] || 0) + amountPerPerson;
+      exactShares[userId] = (exactShares[userId] || 0) + lineCents / numberOfPeople;
     });
   });
 
-  return subtotals;
+  return toPersonTotals(allocateCentsByKey(assignedCents, exactShares));
 }
 
 /**
@@ -99,14 +160,7 @@ export function distributeTaxEqually(
   tax: number,
   userIds: string[]
 ): PersonTotals {
-  const taxPerPerson = tax / userIds.length;
-  const taxTotals: PersonTotals = {};
-
-  userIds.forEach((userId) => {
-    taxTotals[userId] = taxPerPerson;
-  });
-
-  return taxTotals;
+  return distributeEqually(tax, userIds);
 }
 
 /**
@@ -120,14 +174,7 @@ export function distributeTipEqually(
   tip: number,
   userIds: string[]
 ): PersonTotals {
-  const tipPerPerson = tip / userIds.length;
-  const tipTotals: PersonTotals = {};
-
-  userIds.forEach((userId) => {
-    tipTotals[userId] = tipPerPerson;
-  });
-
-  return tipTotals;
+  return distributeEqually(tip, userIds);
 }
 
 /**
@@ -141,26 +188,7 @@ export function distributeTaxProportionally(
   tax: number,
   subtotals: PersonTotals
 ): PersonTotals {
-  const totalSubtotal = Object.values(subtotals).reduce(
-    (sum, amount) => sum + amount,
-    0
-  );
-
-  if (totalSubtotal === 0) {
-    // Fallback to equal distribution if no items assigned
-    const userIds = Object.keys(subtotals);
-    return distributeTaxEqually(tax, userIds);
-  }
-
-  const taxTotals: PersonTotals = {};
-
-  Object.keys(subtotals).forEach((userId) => {
-    const personSubtotal = subtotals[userId] || 0;
-    const proportion = personSubtotal / totalSubtotal;
-    taxTotals[userId] = tax * proportion;
-  });
-
-  return taxTotals;
+  return distributeProportionally(tax, subtotals);
 }
 
 /**
@@ -174,26 +202,123 @@ export function distributeTipProportionally(
   tip: number,
   subtotals: PersonTotals
 ): PersonTotals {
-  const totalSubtotal = Object.values(subtotals).reduce(
-    (sum, amount) => sum + amount,
-    0
-  );
+  return distributeProportionally(tip, subtotals);
+}
 
-  if (totalSubtotal === 0) {
-    // Fallback to equal distribution if no items assigned
-    const userIds = Object.keys(subtotals);
-    return distributeTipEqually(tip, userIds);
+/**
+ * Work out an adjustment's amount in cents
+ *
+ * Discounts always come out negative and surcharges and service charges
+ * positive, whichever sign they were given; rounding keeps its sign. An
+ * item-level adjustment on an item that's no longer on the receipt comes
+ * to nothing.
+ *
+ * @param adjustment - Adjustment to work out
+ * @param items - Array of receipt items (percentages are of these)
+ * @returns Amount in cents (negative if it reduces the bill)
+ */
+export function getAdjustmentCents(
+  adjustment: ReceiptAdjustment,
+  items: ReceiptItem[]
+): Cents {
+  const appliesTo =
+    adjustment.scope === 'item'
+      ? items.filter((item) => item.id === adjustment.itemId)
+      : items;
+
+  if (appliesTo.length === 0) return 0;
+
+  const cents =
+    typeof adjustment.percentage === 'number'
+      ? Math.round((sumCents(appliesTo.map(itemCents)) * adjustment.percentage) / 100)
+      : toCents(adjustment.amount ?? 0);
+
+  return signAdjustmentCents(adjustment.kind, cents);
+}
+
+/**
+ * Give an adjustment amount the sign its kind calls for
+ *
+ * @param kind - Kind of adjustment
+ * @param cents - Amount in cents, with any sign
+ * @returns Negative for discounts, positive for surcharges and service
+ * charges, unchanged for rounding
+ */
+export function signAdjustmentCents(kind: ReceiptAdjustmentKind, cents: Cents): Cents {
+  switch (kind) {
+    case 'discount':
+      return -Math.abs(cents);
+    case 'rounding':
+      return cents;
+    default:
+      return Math.abs(cents);
   }
+}
 
-  const tipTotals: PersonTotals = {};
+/**
+ * Add up a receipt's adjustments
+ *
+ * @param items - Array of receipt items
+ * @param adjustments - Receipt adjustments
+ * @returns Net adjustment (negative when discounts outweigh charges)
+ */
+export function calculateAdjustmentsTotal(
+  items: ReceiptItem[],
+  adjustments: ReceiptAdjustment[] = []
+): number {
+  return fromCents(sumCents(adjustments.map((adjustment) => getAdjustmentCents(adjustment, items))));
+}
 
-  Object.keys(subtotals).forEach((userId) => {
-    const personSubtotal = subtotals[userId] || 0;
-    const proportion = personSubtotal / totalSubtotal;
-    tipTotals[userId] = tip * proportion;
+/**
+ * Distribute adjustments among participants
+ *
+ * An item-level adjustment is shared by whoever has the item, the same
+ * way as the item itself, and nobody owes it while the item is
+ * unassigned. A bill-level adjustment is divided equally or in proportion
+ * to subtotals, as its `distribution` says.
+ *
+ * @param items - Array of receipt items
+ * @param assignments - Item assignments mapping
+ * @param adjustments - Receipt adjustments
+ * @param subtotals - Person subtotals from items
+ * @param userIds - Array of all participant user IDs
+ * @returns PersonTotals object with each person's net adjustment
+ */
+export function distributeAdjustments(
+  items: ReceiptItem[],
+  assignments: ItemAssignments,
+  adjustments: ReceiptAdjustment[],
+  subtotals: PersonTotals,
+  userIds: string[]
+): PersonTotals {
+  const cents: { [userId: string]: Cents } = {};
+
+  userIds.forEach((userId) => {
+    cents[userId] = 0;
+  });
+
+  adjustments.forEach((adjustment) => {
+    const weights: { [userId: string]: number } = {};
+
+    if (adjustment.scope === 'item') {
+      (assignments[adjustment.itemId ?? ''] || []).forEach((userId) => {
+        weights[userId] = 1;
+      });
+    } else {
+      userIds.forEach((userId) => {
+        weights[userId] =
+          adjustment.distribution === 'equal' ? 1 : toCents(subtotals[userId] || 0);
+      });
+    }
+
+    const shares = allocateCentsByKey(getAdjustmentCents(adjustment, items), weights);
+
+    Object.keys(shares).forEach((userId) => {
+      cents[userId] = (cents[userId] || 0) + shares[userId];
+    });
   });
 
-  return tipTotals;
+  return toPersonTotals(cents);
 }
 
 /**
@@ -205,6 +330,7 @@ export function distributeTipProportionally(
  * @param tip - Total tip amount
  * @param userIds - Array of all participant user IDs
  * @param taxTipMethod - Distribution method ('equal' or 'proportional')
+ * @param adjustments - Discounts, surcharges, service charges and rounding
  * @returns PersonTotals object with final amounts
  */
 export function calculateFinalTotals(
@@ -213,7 +339,8 @@ export function calculateFinalTotals(
   tax: number,
   tip: number,
   userIds: string[],
-  taxTipMethod: TaxTipMethod = 'proportional'
+  taxTipMethod: TaxTipMethod = 'proportional',
+  adjustments: ReceiptAdjustment[] = []
 ): PersonTotals {
   // Calculate subtotals from items
   const subtotals = calculatePersonSubtotals(items, assignments);
@@ -237,14 +364,18 @@ export function calculateFinalTotals(
       ? distributeTipEqually(tip, userIds)
       : distributeTipProportionally(tip, subtotals);
 
+  const adjustmentTotals = distributeAdjustments(items, assignments, adjustments, subtotals, userIds);
+
   // Combine all amounts
   const finalTotals: PersonTotals = {};
 
   userIds.forEach((userId) => {
-    finalTotals[userId] =
-      (subtotals[userId] || 0) +
-      (taxTotals[userId] || 0) +
-      (tipTotals[userId] || 0);
+    finalTotals[userId] = fromCents(
+      toCents(subtotals[userId] || 0) +
+        toCents(adjustmentTotals[userId] || 0) +
+        toCents(taxTotals[userId] || 0) +
+        toCents(tipTotals[userId] || 0)
+    );
   });
 
   return finalTotals;
@@ -290,17 +421,18 @@ export function areAllItemsAssigned(
  * @returns Rounded amount
  */
 export function roundToTwoDecimals(amount: number): number {
-  return Math.round(amount * 100) / 100;
+  return fromCents(toCents(amount));
 }
 
 /**
  * Format amount as currency string
  *
  * @param amount - Amount to format
- * @returns Formatted string (e.g., "$12.50")
+ * @param currency - ISO 4217 currency code (defaults to AUD)
+ * @returns Formatted string (e.g., "$12.50", "€12.50")
  */
-export function formatCurrency(amount: number): string {
-  return `$${roundToTwoDecimals(amount).toFixed(2)}`;
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return formatMoney(roundToTwoDecimals(amount), currency);
 }
 
 /**
@@ -313,7 +445,8 @@ export function formatCurrency(amount: number): string {
  * @param tip - Total tip amount
  * @param userIds - Array of all participant user IDs
  * @param taxTipMethod - Distribution method
- * @returns Breakdown object with subtotal, tax, tip, total
+ * @param adjustments - Discounts, surcharges, service charges and rounding
+ * @returns Breakdown object with subtotal, adjustments, tax, tip, total
  */
 export function getPersonBreakdown(
   userId: string,
@@ -322,9 +455,18 @@ export function getPersonBreakdown(
   tax: number,
   tip: number,
   userIds: string[],
-  taxTipMethod: TaxTipMethod = 'proportional'
+  taxTipMethod: TaxTipMethod = 'proportional',
+  adjustments: ReceiptAdjustment[] = []
 ) {
   const subtotals = calculatePersonSubtotals(items, assignments);
+
+  // Same as calculateFinalTotals, so the breakdown matches what's owed
+  userIds.forEach((id) => {
+    if (!(id in subtotals)) {
+      subtotals[id] = 0;
+    }
+  });
+
   const taxTotals =
     taxTipMethod === 'equal'
       ? distributeTaxEqually(tax, userIds)
@@ -333,16 +475,19 @@ export function getPersonBreakdown(
     taxTipMethod === 'equal'
       ? distributeTipEqually(tip, userIds)
       : distributeTipProportionally(tip, subtotals);
+  const adjustmentTotals = distributeAdjustments(items, assignments, adjustments, subtotals, userIds);
+
+  const subtotalCents = toCents(subtotals[userId] || 0);
+  const adjustmentCents = toCents(adjustmentTotals[userId] || 0);
+  const taxCents = toCents(taxTotals[userId] || 0);
+  const tipCents = toCents(tipTotals[userId] || 0);
 
   return {
-    subtotal: roundToTwoDecimals(subtotals[userId] || 0),
-    tax: roundToTwoDecimals(taxTotals[userId] || 0),
-    tip: roundToTwoDecimals(tipTotals[userId] || 0),
-    total: roundToTwoDecimals(
-      (subtotals[userId] || 0) +
-        (taxTotals[userId] || 0) +
-        (tipTotals[userId] || 0)
-    ),
+    subtotal: fromCents(subtotalCents),
+    adjustments: fromCents(adjustmentCents),
+    tax: fromCents(taxCents),
+    tip: fromCents(tipCents),
+    total: fromCents(subtotalCents + adjustmentCents + taxCents + tipCents),
   };
 }
 
@@ -379,24 +524,45 @@ export function calculateYourItemShare(
   item: ReceiptItem,
   selection: ItemSelection
 ): number {
-  const itemTotal = item.price * item.quantity;
+  return fromCents(yourItemShareCents(item, selection));
+}
 
+/**
+ * Your share of an item in cents
+ *
+ * A split item's leftover cents go to the first share, which is the one
+ * reported as yours (as the other sharers aren't known here).
+ */
+function yourItemShareCents(item: ReceiptItem, selection: ItemSelection): Cents {
   // If multiple items (quantity > 1) and you specified how many you got
   if (item.quantity > 1 && selection.yourQuantity) {
     // You got X out of Y items
     // Your share = (price per item) × (your quantity)
-    const pricePerItem = item.price;
-    return pricePerItem * selection.yourQuantity;
+    return Math.round(toCents(item.price) * selection.yourQuantity);
   }
 
   // If single item or you specified split
   if (selection.splitWith) {
     // Item split between X people
-    return itemTotal / selection.splitWith;
+    return splitCentsEvenly(itemCents(item), selection.splitWith)[0];
   }
 
   // Default: you get the whole item
-  return itemTotal;
+  return itemCents(item);
+}
+
+/**
+ * Your part of an amount shared between your items and everyone else's
+ *
+ * The amount is allocated between the two, so your share and the rest
+ * add up to it exactly.
+ *
+ * @param amountCents - Amount to share, in cents
+ * @param yourCents - What your items come to, in cents
+ * @param restCents - What everyone else's items come to, in cents
+ */
+function yourShareCents(amountCents: Cents, yourCents: Cents, restCents: Cents): Cents {
+  return yourCents + restCents > 0 ? allocateCents(amountCents, [yourCents, restCents])[0] : 0;
 }
 
 /**
@@ -410,16 +576,16 @@ export function calculateYourSubtotal(
   items: ReceiptItem[],
   selections: UserItemSelections
 ): number {
-  let subtotal = 0;
+  let subtotalCents = 0;
 
   items.forEach((item) => {
     const selection = selections[item.id];
     if (selection && selection.selected) {
-      subtotal += calculateYourItemShare(item, selection);
+      subtotalCents += yourItemShareCents(item, selection);
     }
   });
 
-  return subtotal;
+  return fromCents(subtotalCents);
 }
 
 /**
@@ -435,9 +601,9 @@ export function calculateYourTax(
   receiptSubtotal: number,
   totalTax: number
 ): number {
-  if (receiptSubtotal === 0) return 0;
-  const proportion = yourSubtotal / receiptSubtotal;
-  return totalTax * proportion;
+  const subtotalCents = toCents(yourSubtotal);
+  const restCents = Math.max(toCents(receiptSubtotal) - subtotalCents, 0);
+  return fromCents(yourShareCents(toCents(totalTax), subtotalCents, restCents));
 }
 
 /**
@@ -453,42 +619,72 @@ export function calculateYourTip(
   receiptSubtotal: number,
   totalTip: number
 ): number {
-  if (receiptSubtotal === 0) return 0;
-  const proportion = yourSubtotal / receiptSubtotal;
-  return totalTip * proportion;
+  const subtotalCents = toCents(yourSubtotal);
+  const restCents = Math.max(toCents(receiptSubtotal) - subtotalCents, 0);
+  return fromCents(yourShareCents(toCents(totalTip), subtotalCents, restCents));
 }
 
 /**
  * Calculate your complete total with breakdown
  *
+ * Item-level adjustments follow your share of the item. Bill-level ones
+ * are divided like tax and tip, by your share of the items, since who
+ * else is on the receipt isn't known here.
+ *
  * @param items - Array of receipt items
  * @param selections - Your item selections
  * @param receiptSubtotal - Total receipt subtotal
  * @param totalTax - Total tax amount
  * @param totalTip - Total tip amount
- * @returns Breakdown with subtotal, tax, tip, total
+ * @param adjustments - Discounts, surcharges, service charges and rounding
+ * @returns Breakdown with subtotal, adjustments, tax, tip, total
  */
 export function calculateYourTotal(
   items: ReceiptItem[],
   selections: UserItemSelections,
   receiptSubtotal: number,
   totalTax: number,
-  totalTip: number
+  totalTip: number,
+  adjustments: ReceiptAdjustment[] = []
 ): {
   subtotal: number;
+  adjustments: number;
   tax: number;
   tip: number;
   total: number;
 } {
   const yourSubtotal = calculateYourSubtotal(items, selections);
-  const yourTax = calculateYourTax(yourSubtotal, receiptSubtotal, totalTax);
-  const yourTip = calculateYourTip(yourSubtotal, receiptSubtotal, totalTip);
+
+  // Tax and tip are divided between your items and the rest of the
+  // receipt, so your share and everyone else's add up to the total
+  const subtotalCents = toCents(yourSubtotal);
+  const restCents = Math.max(toCents(receiptSubtotal) - subtotalCents, 0);
+
+  const taxCents = yourShareCents(toCents(totalTax), subtotalCents, restCents);
+  const tipCents = yourShareCents(toCents(totalTip), subtotalCents, restCents);
+  const adjustmentCents = sumCents(
+    adjustments.map((adjustment) => {
+      const amountCents = getAdjustmentCents(adjustment, items);
+
+      if (adjustment.scope === 'bill') {
+        return yourShareCents(amountCents, subtotalCents, restCents);
+      }
+
+      const item = items.find((candidate) => candidate.id === adjustment.itemId);
+      const selection = item ? selections[item.id] : undefined;
+      if (!item || !selection?.selected) return 0;
+
+      const yourItemCents = Math.min(yourItemShareCents(item, selection), itemCents(item));
+      return yourShareCents(amountCents, yourItemCents, itemCents(item) - yourItemCents);
+    })
+  );
 
   return {
-    subtotal: roundToTwoDecimals(yourSubtotal),
-    tax: roundToTwoDecimals(yourTax),
-    tip: roundToTwoDecimals(yourTip),
-    total: roundToTwoDecimals(yourSubtotal + yourTax + yourTip),
+    subtotal: fromCents(subtotalCents),
+    adjustments: fromCents(adjustmentCents),
+    tax: fromCents(taxCents),
+    tip: fromCents(tipCents),
+    total: fromCents(subtotalCents + adjustmentCents + taxCents + tipCents),
   };
 }
 
@@ -2,6 +2,8 @@
 // Input Validation Utilities - Security & Data Integrity
 // ═══════════════════════════════════════════════════════════════
 
+import { fromCents, toCents } from './money';
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Types
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -116,8 +118,8 @@ export function validateAmount(
     return { isValid: false, error: `Amount cannot exceed $${max.toFixed(2)}` };
   }
 
-  // Round to 2 decimal places
-  const sanitized = Math.round(numAmount * 100) / 100;
+  // Round to whole cents
+  const sanitized = fromCents(toCents(numAmount));
 
   return { isValid: true, sanitized };
 }
@@ -0,0 +1,287 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Atomic Payment Allocation: apply a confirmed payment in one transaction
+-- ═══════════════════════════════════════════════════════════════
+-- The payment webhooks used to read each participant row, work out its
+-- new amount_paid and write it back, then insert the allocation as a
+-- separate step. That went wrong in three ways:
+--
+--   - a manual payment recorded between the read and the write was
+--     overwritten
+--   - money beyond what was still outstanding (a settle-up paid twice,
+--     a card and a link payment racing for one share) was dropped
+--     without a trace
+--   - if the allocation insert failed, a redelivered webhook found no
+--     allocation and counted the payment again
+--
+-- allocate_payment() locks the rows, works out what is outstanding from
+-- the locked values, adds to amount_paid incrementally and records every
+-- allocation in the same transaction. Whatever is left once every row is
+-- paid stays on the credit row as an overpayment (amount_paid above
+-- amount_owed), which the creator owes back like a credit left by an
+-- edit (see add-split-editing.sql).
+--
+-- Credits count towards settling up like any other balance: a credit the
+-- payee owes back is paid off by a settle-up (lowering the share's
+-- amount_paid, recorded as a 'credit' allocation), and one the payer is
+-- owed is offset against what they owe.
+--
+-- Only the webhooks (service role) call it.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. participant_due_cents()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- What is left to clear on a share, in payment currency cents: what the
+-- participant still owes, or with p_credit what the creator owes them
+-- back. Never negative.
+
+CREATE OR REPLACE FUNCTION participant_due_cents(
+  p_amount_owed NUMERIC,
+  p_amount_paid NUMERIC,
+  p_rate NUMERIC,
+  p_credit BOOLEAN DEFAULT false
+)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(GREATEST(
+    (ROUND(COALESCE(p_amount_paid, 0) * 100) - ROUND(p_amount_owed * 100)) * CASE WHEN p_credit THEN 1 ELSE -1 END,
+    0
+  ) * p_rate)::BIGINT;
+$$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. apply_payment_to_participant()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Applies up to p_cents (payment currency) to one share and records the
+-- allocation. p_rate converts the split's currency to the payment
+-- currency. With p_credit it pays back the share's credit instead of
+-- paying it off. Without p_allow_credit nothing beyond what is
+-- outstanding is taken. Returns how much of p_cents was used.
+
+CREATE OR REPLACE FUNCTION apply_payment_to_participant(
+  p_payment_id UUID,
+  p_participant_id UUID,
+  p_rate NUMERIC,
+  p_cents BIGINT,
+  p_allocation_type TEXT,
+  p_payment_method TEXT,
+  p_allow_credit BOOLEAN DEFAULT false,
+  p_credit BOOLEAN DEFAULT false
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant split_participants%ROWTYPE;
+  v_outstanding BIGINT; -- Split currency, cents
+  v_due BIGINT;         -- Payment currency, cents
+  v_applied BIGINT;
+  v_split_cents BIGINT;
+BEGIN
+  IF p_cents IS NULL OR p_cents <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_participant FROM split_participants WHERE id = p_participant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_outstanding := participant_due_cents(v_participant.amount_owed, v_participant.amount_paid, 1, p_credit);
+  v_due := participant_due_cents(v_participant.amount_owed, v_participant.amount_paid, p_rate, p_credit);
+  v_applied := CASE WHEN p_allow_credit THEN p_cents ELSE LEAST(v_due, p_cents) END;
+
+  -- Convert back to the split's currency; paying off the rest clears the row exactly
+  v_split_cents := CASE
+    WHEN v_applied >= v_due THEN v_outstanding + ROUND((v_applied - v_due) / p_rate)
+    ELSE ROUND(v_applied / p_rate)
+  END;
+
+  IF v_applied <= 0 OR v_split_cents <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF p_credit THEN
+    -- Paying a credit back brings amount_paid down towards amount_owed
+    UPDATE split_participants
+    SET amount_paid = amount_paid - v_split_cents / 100.0
+    WHERE id = p_participant_id;
+  ELSE
+    UPDATE split_participants
+    SET amount_paid = COALESCE(amount_paid, 0) + v_split_cents / 100.0,
+        status = CASE WHEN COALESCE(amount_paid, 0) + v_split_cents / 100.0 >= amount_owed THEN 'paid' ELSE 'pending' END,
+        payment_method = p_payment_method
+    WHERE id = p_participant_id;
+  END IF;
+
+  INSERT INTO payment_allocations (payment_id, participant_id, split_id, amount, allocation_type)
+  VALUES (
+    p_payment_id,
+    p_participant_id,
+    v_participant.split_id,
+    v_split_cents / 100.0,
+    CASE WHEN p_credit THEN 'credit' ELSE p_allocation_type END
+  );
+
+  RETURN v_applied;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_payment_to_participant(UUID, UUID, NUMERIC, BIGINT, TEXT, TEXT, BOOLEAN, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. allocate_payment()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Rows are [{ "participant_id": ..., "rate": 1.0, "credit": false }], in
+-- the order they should be paid (the webhooks pass the oldest split
+-- first). "credit" marks a share whose credit is being cleared rather
+-- than what is owed on it:
+--   p_rows         shares the payment pays off
+--   p_offset_rows  shares the payee owes the payer back (settle-up only);
+--                  the smaller of the two sides is cleared on both as an
+--                  'offset', so the payment only covers the net amount
+--   p_credit_row   share any remainder is left on as a credit
+--
+-- Returns { already_allocated, split_ids, credit_cents }. credit_cents is
+-- the remainder left as a credit (or, without a credit row, left
+-- unallocated) in payment currency cents.
+
+CREATE OR REPLACE FUNCTION allocate_payment(
+  p_payment_id UUID,
+  p_amount_cents BIGINT,
+  p_rows JSONB,
+  p_offset_rows JSONB DEFAULT '[]',
+  p_credit_row JSONB DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'stripe'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_all_rows JSONB;
+  v_rows_due BIGINT;
+  v_offset_due BIGINT;
+  v_offset BIGINT;
+  v_remaining BIGINT;
+  v_applied BIGINT;
+  v_credit BIGINT := 0;
+  v_split_id UUID;
+  v_split_ids UUID[] := '{}';
+BEGIN
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0';
+  END IF;
+
+  -- A payment is allocated once, however often its webhook is delivered
+  IF p_payment_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('allocate_payment:' || p_payment_id::TEXT));
+
+    IF EXISTS (SELECT 1 FROM payment_allocations WHERE payment_id = p_payment_id) THEN
+      RETURN jsonb_build_object('already_allocated', true, 'split_ids', '[]'::JSONB, 'credit_cents', 0);
+    END IF;
+  END IF;
+
+  v_all_rows := COALESCE(p_rows, '[]') || COALESCE(p_offset_rows, '[]')
+    || CASE WHEN p_credit_row IS NULL THEN '[]'::JSONB ELSE jsonb_build_array(p_credit_row) END;
+
+  -- Lock every share up front, in id order so two allocations can't deadlock
+  PERFORM 1 FROM split_participants
+  WHERE id IN (SELECT (r->>'participant_id')::UUID FROM jsonb_array_elements(v_all_rows) r)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- What is outstanding on each side now the rows are locked (payment currency)
+  SELECT COALESCE(SUM(participant_due_cents(
+    sp.amount_owed, sp.amount_paid, (r->>'rate')::NUMERIC, COALESCE((r->>'credit')::BOOLEAN, false)
+  )), 0)
+  INTO v_rows_due
+  FROM jsonb_array_elements(COALESCE(p_rows, '[]')) r
+  JOIN split_participants sp ON sp.id = (r->>'participant_id')::UUID;
+
+  SELECT COALESCE(SUM(participant_due_cents(
+    sp.amount_owed, sp.amount_paid, (r->>'rate')::NUMERIC, COALESCE((r->>'credit')::BOOLEAN, false)
+  )), 0)
+  INTO v_offset_due
+  FROM jsonb_array_elements(COALESCE(p_offset_rows, '[]')) r
+  JOIN split_participants sp ON sp.id = (r->>'participant_id')::UUID;
+
+  v_offset := LEAST(v_rows_due, v_offset_due);
+
+  -- What the payee owes back is cleared first: that's how the net amount was worked out
+  v_remaining := v_offset;
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_offset_rows, '[]')) LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_applied := apply_payment_to_participant(
+      p_payment_id, (v_row->>'participant_id')::UUID, (v_row->>'rate')::NUMERIC, v_remaining, 'offset', 'offset',
+      false, COALESCE((v_row->>'credit')::BOOLEAN, false)
+    );
+    IF v_applied > 0 THEN
+      v_remaining := v_remaining - v_applied;
+      SELECT split_id INTO v_split_id FROM split_participants WHERE id = (v_row->>'participant_id')::UUID;
+      v_split_ids := array_append(v_split_ids, v_split_id);
+    END IF;
+  END LOOP;
+
+  -- The payment plus the offset then pays off the payer's shares, in order
+  v_remaining := p_amount_cents + v_offset;
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_rows, '[]')) LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_applied := apply_payment_to_participant(
+      p_payment_id, (v_row->>'participant_id')::UUID, (v_row->>'rate')::NUMERIC, v_remaining, 'payment', p_payment_method,
+      false, COALESCE((v_row->>'credit')::BOOLEAN, false)
+    );
+    IF v_applied > 0 THEN
+      v_remaining := v_remaining - v_applied;
+      SELECT split_id INTO v_split_id FROM split_participants WHERE id = (v_row->>'participant_id')::UUID;
+      v_split_ids := array_append(v_split_ids, v_split_id);
+    END IF;
+  END LOOP;
+
+  -- Anything left over was paid twice or raced another payment: keep it as a credit
+  IF v_remaining > 0 THEN
+    v_credit := v_remaining;
+
+    IF p_credit_row IS NOT NULL THEN
+      v_applied := apply_payment_to_participant(
+        p_payment_id, (p_credit_row->>'participant_id')::UUID, (p_credit_row->>'rate')::NUMERIC,
+        v_remaining, 'payment', p_payment_method, true
+      );
+      IF v_applied > 0 THEN
+        SELECT split_id INTO v_split_id FROM split_participants WHERE id = (p_credit_row->>'participant_id')::UUID;
+        v_split_ids := array_append(v_split_ids, v_split_id);
+      END IF;
+    END IF;
+  END IF;
+
+  -- A split everyone has covered exactly settles; a credit to pay back keeps it active
+  UPDATE splits s
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM split_participants sp
+          WHERE sp.split_id = s.id
+            AND sp.user_id IS DISTINCT FROM s.creator_id
+            AND (sp.status <> 'paid' OR COALESCE(sp.amount_paid, 0) > sp.amount_owed)
+        ) THEN 'active'
+        ELSE 'settled'
+      END,
+      updated_at = NOW()
+  WHERE s.id = ANY(v_split_ids)
+    AND s.status IN ('active', 'settled');
+
+  RETURN jsonb_build_object(
+    'already_allocated', false,
+    'split_ids', to_jsonb(ARRAY(SELECT DISTINCT unnest(v_split_ids))),
+    'credit_cents', v_credit
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_payment(UUID, BIGINT, JSONB, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,117 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Atomic Payment Reversal: take a refund or chargeback back in one transaction
+-- ═══════════════════════════════════════════════════════════════
+-- stripe-webhook used to reverse a refunded or charged back card payment
+-- by reading each share's amount_paid, working out the new value,
+-- writing it back and then inserting the reversal allocation as a
+-- separate step. A payment or another refund landing in between could
+-- overwrite amount_paid, and a failed insert left amount_paid lowered
+-- with no allocation to show for it.
+--
+-- reverse_payment_allocations() does it the way allocate_payment() (see
+-- add-atomic-payment-allocation.sql) applies a payment: under the same
+-- per-payment advisory lock, with the shares locked, lowering
+-- amount_paid incrementally and recording every reversal in the same
+-- transaction.
+--
+-- Only the webhooks (service role) call it.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. reverse_payment_allocations()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Takes up to p_amount_cents (payment currency) back off the shares the
+-- payment was allocated to, most recently paid first. Only what is still
+-- allocated after earlier reversals can be taken back. p_rates maps each
+-- split ID to its split-to-payment currency rate ({ "<split id>": 1.0 });
+-- splits not listed use 1. Each reversal is recorded as a
+-- p_reversal_type allocation and any settled split is reopened.
+--
+-- Returns the IDs of the splits that were touched.
+
+CREATE OR REPLACE FUNCTION reverse_payment_allocations(
+  p_payment_id UUID,
+  p_amount_cents BIGINT,
+  p_reversal_type TEXT,
+  p_rates JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry RECORD;
+  v_rate NUMERIC;
+  v_allocated BIGINT;   -- Payment currency, cents
+  v_applied BIGINT;
+  v_reversed BIGINT;    -- Split currency, cents
+  v_remaining BIGINT := p_amount_cents;
+  v_split_ids UUID[] := '{}';
+BEGIN
+  IF p_reversal_type NOT IN ('refund', 'chargeback') THEN
+    RAISE EXCEPTION 'Reversal must be a refund or a chargeback';
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RETURN '[]'::JSONB;
+  END IF;
+
+  -- Serialised with the payment's allocation and any other reversal of it
+  PERFORM pg_advisory_xact_lock(hashtext('allocate_payment:' || p_payment_id::TEXT));
+
+  -- Lock every share up front, in id order so this can't deadlock with an allocation
+  PERFORM 1 FROM split_participants
+  WHERE id IN (SELECT participant_id FROM payment_allocations WHERE payment_id = p_payment_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- What is still allocated to each share, most recently paid first
+  FOR v_entry IN
+    SELECT
+      participant_id,
+      split_id,
+      SUM(CASE WHEN allocation_type = 'payment' THEN ROUND(amount * 100) ELSE -ROUND(amount * 100) END)::BIGINT AS cents
+    FROM payment_allocations
+    WHERE payment_id = p_payment_id
+      AND allocation_type <> 'offset'
+    GROUP BY participant_id, split_id
+    ORDER BY MAX(created_at) DESC
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    CONTINUE WHEN v_entry.cents <= 0;
+
+    v_rate := COALESCE((p_rates->>v_entry.split_id::TEXT)::NUMERIC, 1);
+    v_allocated := ROUND(v_entry.cents * v_rate);
+    v_applied := LEAST(v_allocated, v_remaining);
+    v_remaining := v_remaining - v_applied;
+
+    -- Convert back to the split's currency; taking it all back clears the allocation exactly
+    v_reversed := CASE
+      WHEN v_applied >= v_allocated THEN v_entry.cents
+      ELSE ROUND(v_applied / v_rate)
+    END;
+
+    CONTINUE WHEN v_reversed <= 0;
+
+    UPDATE split_participants
+    SET amount_paid = GREATEST(COALESCE(amount_paid, 0) - v_reversed / 100.0, 0),
+        status = 'pending'
+    WHERE id = v_entry.participant_id;
+
+    INSERT INTO payment_allocations (payment_id, participant_id, split_id, amount, allocation_type)
+    VALUES (p_payment_id, v_entry.participant_id, v_entry.split_id, v_reversed / 100.0, p_reversal_type);
+
+    v_split_ids := array_append(v_split_ids, v_entry.split_id);
+  END LOOP;
+
+  -- Money is owed again, so a settled split is active again
+  UPDATE splits
+  SET status = 'active', updated_at = NOW()
+  WHERE id = ANY(v_split_ids)
+    AND status = 'settled';
+
+  RETURN to_jsonb(ARRAY(SELECT DISTINCT unnest(v_split_ids)));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reverse_payment_allocations(UUID, BIGINT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
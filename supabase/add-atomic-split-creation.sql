@@ -0,0 +1,218 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Atomic Split Creation: create a split and everything on it at once
+-- ═══════════════════════════════════════════════════════════════
+-- Creating a split used to take several requests: the split, then its
+-- participants, then (for receipts) its items and item assignments, then
+-- a payment link. The app deleted the split itself if a later step
+-- failed, which it can't do once the connection has dropped, leaving
+-- splits without participants or receipts without items.
+--
+-- create_split() does all of it in one transaction: the split, its
+-- participants, items, item assignments, an optional split-wide payment
+-- link and a 'split_created' notification for everyone added. Either
+-- everything is saved or nothing is.
+--
+-- The app generates the split's ID, so running it again for a split that
+-- already exists (an offline replay that may have reached the server
+-- before) returns the existing split instead of failing.
+--
+-- This is the only definition of create_split(). Migrations that change
+-- what it saves add their columns and edit it here, so applying the
+-- files in any order leaves the current version. It saves
+-- creator_share_weight and share_weight (add-split-shares.sql) and
+-- receipt_adjustments (add-receipt-adjustments.sql), so apply those
+-- before creating splits.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. create_split()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- p_split: { id, title, description, total_amount, currency,
+--            exchange_rates, split_type, creator_share_weight, image_url,
+--            group_id, receipt_corrections, receipt_adjustments,
+--            recurring_split_id }
+-- p_participants: [{ id, user_id, amount_owed, share_weight, external_name,
+--                    external_email, external_phone }]
+-- Weights are ignored unless split_type is 'shares'.
+-- p_items: [{ id, name, unit_price, quantity, total_price }]
+-- p_item_assignments: [{ item_id, user_id, share, amount }] for items in p_items
+-- p_payment_link: { short_code, expires_at } to create a split-wide link
+--
+-- Returns { split, payment_link } (payment_link is null without one).
+-- A short code that's already taken raises unique_violation like
+-- create_payment_link(), and the app retries with a new code.
+
+CREATE OR REPLACE FUNCTION create_split(
+  p_split JSONB,
+  p_participants JSONB DEFAULT '[]',
+  p_items JSONB DEFAULT '[]',
+  p_item_assignments JSONB DEFAULT '[]',
+  p_payment_link JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_split splits%ROWTYPE;
+  v_link payment_links%ROWTYPE;
+  v_split_id UUID := COALESCE((p_split->>'id')::uuid, gen_random_uuid());
+  v_group_id UUID := (p_split->>'group_id')::uuid;
+  v_creator_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- Replayed creation: hand back what was saved the first time
+  SELECT * INTO v_split FROM splits WHERE id = v_split_id;
+  IF FOUND THEN
+    IF v_split.creator_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Split not found';
+    END IF;
+
+    SELECT * INTO v_link
+    FROM payment_links
+    WHERE split_id = v_split_id AND participant_id IS NULL AND is_active;
+
+    RETURN jsonb_build_object(
+      'split', to_jsonb(v_split),
+      'payment_link', CASE WHEN v_link.id IS NULL THEN NULL ELSE to_jsonb(v_link) END
+    );
+  END IF;
+
+  IF NULLIF(TRIM(p_split->>'title'), '') IS NULL THEN
+    RAISE EXCEPTION 'A split needs a title';
+  END IF;
+
+  IF COALESCE((p_split->>'total_amount')::numeric, 0) <= 0 THEN
+    RAISE EXCEPTION 'Total must be more than zero';
+  END IF;
+
+  IF v_group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = v_group_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this group';
+  END IF;
+
+  INSERT INTO splits (
+    id, creator_id, title, description, total_amount, currency, exchange_rates,
+    split_type, creator_share_weight, image_url, group_id, receipt_corrections,
+    receipt_adjustments, recurring_split_id, status
+  )
+  VALUES (
+    v_split_id,
+    auth.uid(),
+    TRIM(p_split->>'title'),
+    NULLIF(TRIM(p_split->>'description'), ''),
+    ROUND((p_split->>'total_amount')::numeric, 2),
+    p_split->>'currency',
+    p_split->'exchange_rates',
+    p_split->>'split_type',
+    CASE WHEN p_split->>'split_type' = 'shares' THEN (p_split->>'creator_share_weight')::numeric END,
+    NULLIF(p_split->>'image_url', ''),
+    v_group_id,
+    COALESCE(p_split->'receipt_corrections', '[]'::jsonb),
+    COALESCE(NULLIF(p_split->'receipt_adjustments', 'null'::jsonb), '[]'::jsonb),
+    (p_split->>'recurring_split_id')::uuid,
+    'active'
+  )
+  RETURNING * INTO v_split;
+
+  INSERT INTO split_participants (
+    id, split_id, user_id, amount_owed, amount_paid, status, share_weight,
+    external_name, external_email, external_phone
+  )
+  SELECT
+    COALESCE((p->>'id')::uuid, gen_random_uuid()),
+    v_split.id,
+    (p->>'user_id')::uuid,
+    ROUND(COALESCE((p->>'amount_owed')::numeric, 0), 2),
+    0,
+    'pending',
+    CASE WHEN v_split.split_type = 'shares' THEN (p->>'share_weight')::numeric END,
+    NULLIF(p->>'external_name', ''),
+    NULLIF(p->>'external_email', ''),
+    NULLIF(p->>'external_phone', '')
+  FROM jsonb_array_elements(COALESCE(p_participants, '[]'::jsonb)) AS p;
+
+  INSERT INTO split_items (id, split_id, name, unit_price, quantity, total_price)
+  SELECT
+    COALESCE((i->>'id')::uuid, gen_random_uuid()),
+    v_split.id,
+    i->>'name',
+    (i->>'unit_price')::numeric,
+    (i->>'quantity')::numeric,
+    (i->>'total_price')::numeric
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS i;
+
+  -- Only for this split's items, and only for people on the split
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_item_assignments, '[]'::jsonb)) AS a
+    WHERE NOT EXISTS (
+        SELECT 1 FROM split_items si
+        WHERE si.id = (a->>'item_id')::uuid AND si.split_id = v_split.id
+      )
+      OR (
+        (a->>'user_id')::uuid IS DISTINCT FROM v_split.creator_id
+        AND NOT EXISTS (
+          SELECT 1 FROM split_participants sp
+          WHERE sp.split_id = v_split.id AND sp.user_id = (a->>'user_id')::uuid
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Item assignments must be for this split''s items and people';
+  END IF;
+
+  INSERT INTO item_assignments (item_id, user_id, share, amount)
+  SELECT
+    (a->>'item_id')::uuid,
+    (a->>'user_id')::uuid,
+    (a->>'share')::numeric,
+    (a->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(p_item_assignments, '[]'::jsonb)) AS a;
+
+  IF p_payment_link IS NOT NULL THEN
+    IF (p_payment_link->>'expires_at')::timestamptz <= NOW() THEN
+      RAISE EXCEPTION 'Expiry must be in the future';
+    END IF;
+
+    INSERT INTO payment_links (split_id, short_code, created_by, expires_at, is_active)
+    VALUES (
+      v_split.id,
+      p_payment_link->>'short_code',
+      auth.uid(),
+      (p_payment_link->>'expires_at')::timestamptz,
+      true
+    )
+    RETURNING * INTO v_link;
+  END IF;
+
+  SELECT COALESCE(NULLIF(TRIM(full_name), ''), 'Someone') INTO v_creator_name
+  FROM profiles
+  WHERE id = auth.uid();
+
+  INSERT INTO notifications (user_id, type, title, body, data, action_url, channels)
+  SELECT DISTINCT
+    sp.user_id,
+    'split_created',
+    'New Split',
+    format('%s added you to "%s"', COALESCE(v_creator_name, 'Someone'), v_split.title),
+    jsonb_build_object('splitId', v_split.id),
+    '/splits/' || v_split.id,
+    ARRAY['in_app', 'push']
+  FROM split_participants sp
+  WHERE sp.split_id = v_split.id
+    AND sp.user_id IS NOT NULL
+    AND sp.user_id <> v_split.creator_id;
+
+  RETURN jsonb_build_object(
+    'split', to_jsonb(v_split),
+    'payment_link', CASE WHEN v_link.id IS NULL THEN NULL ELSE to_jsonb(v_link) END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_split(JSONB, JSONB, JSONB, JSONB, JSONB) TO authenticated;
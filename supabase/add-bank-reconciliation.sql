@@ -0,0 +1,101 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Bank Reconciliation: match bank transfers to shares by reference
+-- ═══════════════════════════════════════════════════════════════
+-- Every participant row gets a short payment reference (e.g. ZS7K3QXM)
+-- that goes into the PayID / bank transfer message they're sent. The
+-- creator imports a bank statement export (CSV, OFX or QIF) and incoming
+-- credits are matched to outstanding shares by reference and amount.
+-- Confirmed matches are recorded with record_participant_payment(),
+-- using the bank transaction's id so a match is only ever counted once.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Payment references on split_participants
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 'ZS' + 6 characters with the easily confused ones (0/O, 1/I/L) left
+-- out, so it survives being typed into a banking app.
+
+CREATE OR REPLACE FUNCTION generate_payment_reference()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_reference TEXT;
+BEGIN
+  LOOP
+    v_reference := 'ZS';
+    FOR i IN 1..6 LOOP
+      v_reference := v_reference || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INT, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM split_participants WHERE payment_reference = v_reference);
+  END LOOP;
+
+  RETURN v_reference;
+END;
+$$;
+
+ALTER TABLE split_participants
+  ADD COLUMN IF NOT EXISTS payment_reference TEXT;
+
+-- Existing shares get one too
+UPDATE split_participants
+  SET payment_reference = generate_payment_reference()
+  WHERE payment_reference IS NULL;
+
+ALTER TABLE split_participants
+  ALTER COLUMN payment_reference SET DEFAULT generate_payment_reference(),
+  ALTER COLUMN payment_reference SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_split_participants_payment_reference
+  ON split_participants(payment_reference);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Create bank_transactions table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Incoming credits from imported statements. Importing the same
+-- statement (or an overlapping one) again skips what's already here.
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL, -- Whose statement it came from
+  -- OFX FITID when there is one, otherwise date, amount and description
+  fingerprint TEXT NOT NULL,
+  posted_on DATE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0), -- AUD
+  description TEXT,
+  reference TEXT, -- Payment reference found in the description, if any
+  source_format TEXT NOT NULL CHECK (source_format IN ('csv', 'ofx', 'qif')),
+  status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  participant_id UUID REFERENCES split_participants(id) ON DELETE SET NULL, -- Once matched
+  matched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_user_status ON bank_transactions(user_id, status);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Statements are private to whoever imported them
+CREATE POLICY "Users can view their own bank transactions"
+  ON bank_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can import their own bank transactions"
+  ON bank_transactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bank transactions"
+  ON bank_transactions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bank transactions"
+  ON bank_transactions FOR DELETE
+  USING (auth.uid() = user_id);
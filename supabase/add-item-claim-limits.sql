@@ -0,0 +1,133 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Item Claim Limits: stop two people claiming the last of an item
+-- ═══════════════════════════════════════════════════════════════
+-- Claims used to be checked only in the app, so two friends claiming the
+-- last beer at the same moment could both succeed. Every claim is now
+-- checked against the item's quantity in the database, with the item
+-- row locked so concurrent claims for it are checked one at a time.
+--
+-- A claim of quantity_claimed units shared between share_count people
+-- uses quantity_claimed / share_count of the item, so an item can't be
+-- claimed beyond its quantity or shared beyond 100%. A rejected claim
+-- raises check_violation (23514), which the app shows as a conflict.
+--
+-- item_claims is also added to realtime so everyone claiming sees
+-- other people's claims as they happen.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Point claims at the item they're for
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- item_index is the item's position in the split (oldest first), which
+-- is ambiguous for items created in the same insert. New claims send
+-- item_id; older ones are matched up here.
+
+ALTER TABLE item_claims
+  ADD COLUMN IF NOT EXISTS item_id UUID REFERENCES split_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_item_claims_item_id ON item_claims(item_id);
+
+UPDATE item_claims ic
+SET item_id = numbered.id
+FROM (
+  SELECT id, split_id, ROW_NUMBER() OVER (PARTITION BY split_id ORDER BY created_at, id) - 1 AS item_index
+  FROM split_items
+) numbered
+WHERE ic.item_id IS NULL
+  AND numbered.split_id = ic.split_id
+  AND numbered.item_index = ic.item_index;
+
+-- Existing rows aren't checked, so old data can't block the migration
+ALTER TABLE item_claims
+  DROP CONSTRAINT IF EXISTS item_claims_quantity_claimed_check,
+  DROP CONSTRAINT IF EXISTS item_claims_share_count_check;
+
+ALTER TABLE item_claims
+  ADD CONSTRAINT item_claims_quantity_claimed_check CHECK (quantity_claimed IS NULL OR quantity_claimed >= 1) NOT VALID,
+  ADD CONSTRAINT item_claims_share_count_check CHECK (share_count >= 1) NOT VALID;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. enforce_item_claim_limit()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Runs before every insert and update. Re-claiming replaces your own
+-- claim (the app upserts), so your existing claim on the item doesn't
+-- count against the new one.
+
+CREATE OR REPLACE FUNCTION enforce_item_claim_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item split_items%ROWTYPE;
+  v_claimant TEXT := COALESCE(NEW.claimed_by_user_id::text, lower(NEW.claimed_by_email));
+  v_claimed NUMERIC;
+  v_remaining NUMERIC;
+BEGIN
+  IF NEW.item_id IS NULL THEN
+    SELECT id INTO NEW.item_id
+    FROM (
+      SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) - 1 AS item_index
+      FROM split_items
+      WHERE split_id = NEW.split_id
+    ) numbered
+    WHERE numbered.item_index = NEW.item_index;
+  END IF;
+
+  -- Waits for anyone else claiming this item, then sees their claim
+  SELECT * INTO v_item
+  FROM split_items
+  WHERE id = NEW.item_id AND split_id = NEW.split_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This item is no longer on the bill'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(quantity_claimed, 1)::numeric / GREATEST(share_count, 1)), 0)
+  INTO v_claimed
+  FROM item_claims
+  WHERE split_id = NEW.split_id
+    AND (item_id = NEW.item_id OR (item_id IS NULL AND item_index = NEW.item_index))
+    AND id IS DISTINCT FROM NEW.id
+    AND COALESCE(claimed_by_user_id::text, lower(claimed_by_email)) IS DISTINCT FROM v_claimant;
+
+  v_remaining := GREATEST(v_item.quantity - v_claimed, 0);
+
+  -- Allow for thirds and the like not adding up exactly
+  IF COALESCE(NEW.quantity_claimed, 1)::numeric / GREATEST(NEW.share_count, 1) > v_remaining + 0.0001 THEN
+    RAISE EXCEPTION '%', CASE
+      WHEN v_remaining < 0.0001 THEN format('Someone else just claimed the last of "%s"', v_item.name)
+      ELSE format('Only %s of "%s" is left to claim', trim_scale(round(v_remaining, 2)), v_item.name)
+    END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS item_claims_enforce_limit ON item_claims;
+CREATE TRIGGER item_claims_enforce_limit
+  BEFORE INSERT OR UPDATE ON item_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_item_claim_limit();
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Broadcast claims over realtime
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- Deletes carry the whole row, so subscribers filtered by split_id see them
+ALTER TABLE item_claims REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'item_claims'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE item_claims;
+  END IF;
+END;
+$$;
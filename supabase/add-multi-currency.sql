@@ -0,0 +1,37 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Multi-currency: split currencies, rate snapshots, home currency
+-- ═══════════════════════════════════════════════════════════════
+-- Each split keeps the exchange rates from the moment it was created,
+-- so shares shown in other currencies never drift afterwards.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Exchange-rate snapshot on splits
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- { "base": "EUR", "rates": { "AUD": 1.64, ... }, "provider": "http", "captured_at": "..." }
+ALTER TABLE splits
+  ADD COLUMN IF NOT EXISTS exchange_rates JSONB;
+
+-- Receipt splits were previously saved as 'USD' even though every amount
+-- was in AUD. Relabel them so they aren't converted.
+UPDATE splits
+  SET currency = 'AUD'
+  WHERE currency = 'USD' AND exchange_rates IS NULL;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Home currency on profiles
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS home_currency TEXT NOT NULL DEFAULT 'AUD';
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Default currency on groups (used by trip groups)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE groups
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'AUD';
+
+-- Settle-up allocations are recorded in the split's own currency, matching
+-- the split_participants row they were applied to.
+COMMENT ON COLUMN payment_allocations.amount IS 'Amount applied, in the currency of the split';
@@ -0,0 +1,218 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Partial Payments: pay a share in instalments, optionally on a plan
+-- ═══════════════════════════════════════════════════════════════
+-- A participant can pay any amount up to what's outstanding on their
+-- share. Every instalment, by card or recorded by the split creator, is
+-- a payment_allocations row, so the history of a share is the list of
+-- its allocations. split_participants.amount_paid is their running total
+-- and status only becomes 'paid' once nothing is left.
+--
+-- A payment plan spreads what was outstanding when it was set up over a
+-- number of weekly, fortnightly or monthly instalments. Instalments are
+-- worked out from the plan (src/services/paymentPlanService.ts) rather
+-- than stored, so any payment counts towards the next one due.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Record manual payments as allocations
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_allocations
+  DROP CONSTRAINT IF EXISTS payment_allocations_allocation_type_check;
+
+-- 'manual' = recorded by the split creator (cash, bank transfer), with no payments row
+ALTER TABLE payment_allocations
+  ADD CONSTRAINT payment_allocations_allocation_type_check
+  CHECK (allocation_type IN ('payment', 'offset', 'manual'));
+
+ALTER TABLE payment_allocations
+  ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- Everyone on a split can see its payment history
+CREATE POLICY "Split members can view allocations on their splits"
+  ON payment_allocations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM splits
+      WHERE splits.id = payment_allocations.split_id
+      AND splits.creator_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM split_participants
+      WHERE split_participants.split_id = payment_allocations.split_id
+      AND split_participants.user_id = auth.uid()
+    )
+  );
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. record_participant_payment()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Adds a manual payment to a participant's share and records it as an
+-- allocation in one transaction. Only the split creator can record
+-- payments, and never more than is outstanding. Passing p_allocation_id
+-- (client-generated) makes a replayed offline write a no-op.
+
+CREATE OR REPLACE FUNCTION record_participant_payment(
+  p_participant_id UUID,
+  p_amount NUMERIC,
+  p_note TEXT DEFAULT NULL,
+  p_allocation_id UUID DEFAULT NULL
+)
+RETURNS split_participants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant split_participants%ROWTYPE;
+  v_creator_id UUID;
+  v_amount NUMERIC(10,2) := ROUND(p_amount, 2);
+  v_outstanding NUMERIC(10,2);
+BEGIN
+  -- Lock the row so two recordings can't both take the last of the balance
+  SELECT * INTO v_participant FROM split_participants WHERE id = p_participant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant not found';
+  END IF;
+
+  IF p_allocation_id IS NOT NULL AND EXISTS (SELECT 1 FROM payment_allocations WHERE id = p_allocation_id) THEN
+    RETURN v_participant;
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM splits WHERE id = v_participant.split_id;
+  IF auth.uid() IS DISTINCT FROM v_creator_id THEN
+    RAISE EXCEPTION 'Only the split creator can record payments';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0';
+  END IF;
+
+  v_outstanding := v_participant.amount_owed - COALESCE(v_participant.amount_paid, 0);
+  IF v_amount > v_outstanding THEN
+    RAISE EXCEPTION 'Amount exceeds the outstanding balance of %', v_outstanding;
+  END IF;
+
+  UPDATE split_participants
+  SET amount_paid = COALESCE(amount_paid, 0) + v_amount,
+      status = CASE WHEN v_amount >= v_outstanding THEN 'paid' ELSE 'pending' END,
+      payment_method = 'manual'
+  WHERE id = p_participant_id
+  RETURNING * INTO v_participant;
+
+  INSERT INTO payment_allocations (id, participant_id, split_id, amount, allocation_type, recorded_by, note)
+  VALUES (
+    COALESCE(p_allocation_id, uuid_generate_v4()),
+    p_participant_id,
+    v_participant.split_id,
+    v_amount,
+    'manual',
+    auth.uid(),
+    NULLIF(TRIM(p_note), '')
+  );
+
+  RETURN v_participant;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_participant_payment(UUID, NUMERIC, TEXT, UUID) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Create payment_plans table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS payment_plans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  participant_id UUID REFERENCES split_participants(id) ON DELETE CASCADE NOT NULL,
+  split_id UUID REFERENCES splits(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL, -- Who pays (and is reminded)
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly')),
+  instalment_count INTEGER NOT NULL CHECK (instalment_count BETWEEN 2 AND 12),
+  -- What was outstanding, and already paid, when the plan was set up (split currency)
+  plan_amount NUMERIC(10,2) NOT NULL CHECK (plan_amount > 0),
+  paid_at_start NUMERIC(10,2) NOT NULL DEFAULT 0,
+  first_due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  last_reminded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One active plan per share
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_plans_active_participant
+  ON payment_plans(participant_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_payment_plans_user_active
+  ON payment_plans(user_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_payment_plans_split_id ON payment_plans(split_id);
+
+-- A share that's been paid off has nothing left to plan for
+CREATE OR REPLACE FUNCTION complete_payment_plans()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE payment_plans
+  SET status = 'completed', updated_at = NOW()
+  WHERE participant_id = NEW.id AND status = 'active';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS complete_payment_plans_on_paid ON split_participants;
+CREATE TRIGGER complete_payment_plans_on_paid
+  AFTER UPDATE OF status ON split_participants
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+  EXECUTE FUNCTION complete_payment_plans();
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_plans ENABLE ROW LEVEL SECURITY;
+
+-- The payer and the split creator can see and manage a plan
+CREATE POLICY "Payers and split creators can view payment plans"
+  ON payment_plans FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM splits
+      WHERE splits.id = payment_plans.split_id
+      AND splits.creator_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Payers and split creators can create payment plans"
+  ON payment_plans FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM split_participants
+      WHERE split_participants.id = payment_plans.participant_id
+      AND split_participants.split_id = payment_plans.split_id
+      AND split_participants.user_id = payment_plans.user_id
+    )
+    AND (
+      auth.uid() = user_id
+      OR EXISTS (
+        SELECT 1 FROM splits
+        WHERE splits.id = payment_plans.split_id
+        AND splits.creator_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Payers and split creators can update payment plans"
+  ON payment_plans FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM splits
+      WHERE splits.id = payment_plans.split_id
+      AND splits.creator_id = auth.uid()
+    )
+  );
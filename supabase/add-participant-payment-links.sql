@@ -0,0 +1,254 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Participant Payment Links: a link per person for their share
+-- ═══════════════════════════════════════════════════════════════
+-- Alongside the split-wide link (which sends people to pick their
+-- items), equal, custom and percentage splits can have a link per
+-- participant that opens straight to that person's share. Participants
+-- without an account (external_name / external_email / external_phone)
+-- can pay by card from the web page without signing up.
+--
+-- The web page calls get_participant_payment_link() to show the share
+-- and the create-link-payment-intent edge function to pay it. The
+-- payment is recorded against the participant row, so stripe-webhook
+-- marks the right split_participants row paid even when it has no
+-- user_id.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Link payment links to a participant
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- NULL for the split-wide link
+ALTER TABLE payment_links
+  ADD COLUMN IF NOT EXISTS participant_id UUID REFERENCES split_participants(id) ON DELETE CASCADE;
+
+-- One active split-wide link per split, and one active link per participant
+DROP INDEX IF EXISTS idx_payment_links_one_active;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_links_one_active
+  ON payment_links(split_id)
+  WHERE is_active AND participant_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_links_one_active_participant
+  ON payment_links(participant_id)
+  WHERE is_active AND participant_id IS NOT NULL;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Record card payments made through a participant link
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- Payers without an account have no from_user_id; the payment is
+-- allocated to participant_id instead
+ALTER TABLE payments
+  ALTER COLUMN from_user_id DROP NOT NULL;
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS participant_id UUID REFERENCES split_participants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS payment_link_id UUID REFERENCES payment_links(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS payer_email TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_participant_id ON payments(participant_id);
+
+-- Link payments are recorded by stripe-webhook; one 'pay' event per payment
+ALTER TABLE payment_link_events
+  ADD COLUMN IF NOT EXISTS payment_id UUID REFERENCES payments(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_link_events_payment_id
+  ON payment_link_events(payment_id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. create_payment_link()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Same as before, but only replaces the split-wide link; participant
+-- links are left alone.
+
+CREATE OR REPLACE FUNCTION create_payment_link(
+  p_split_id UUID,
+  p_short_code TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS payment_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_split splits%ROWTYPE;
+  v_link payment_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_split FROM splits WHERE id = p_split_id;
+
+  IF NOT FOUND OR v_split.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the split creator can create payment links';
+  END IF;
+
+  IF v_split.status = 'settled' THEN
+    RAISE EXCEPTION 'This split has already been settled';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  UPDATE payment_links
+  SET is_active = false,
+      deactivated_at = NOW(),
+      deactivated_reason = 'regenerated'
+  WHERE split_id = p_split_id
+    AND participant_id IS NULL
+    AND is_active;
+
+  INSERT INTO payment_links (split_id, short_code, created_by, expires_at, is_active)
+  VALUES (p_split_id, p_short_code, auth.uid(), p_expires_at, true)
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. create_participant_payment_link()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Replaces a participant's active link (if any) with a new code. Receipt
+-- splits don't have a share until items are claimed, so they keep using
+-- the split-wide link.
+
+CREATE OR REPLACE FUNCTION create_participant_payment_link(
+  p_participant_id UUID,
+  p_short_code TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS payment_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant split_participants%ROWTYPE;
+  v_split splits%ROWTYPE;
+  v_link payment_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_participant FROM split_participants WHERE id = p_participant_id;
+  SELECT * INTO v_split FROM splits WHERE id = v_participant.split_id;
+
+  IF NOT FOUND OR v_split.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the split creator can create payment links';
+  END IF;
+
+  IF v_split.split_type = 'receipt' THEN
+    RAISE EXCEPTION 'Receipt splits use the split payment link';
+  END IF;
+
+  IF v_split.status = 'settled' THEN
+    RAISE EXCEPTION 'This split has already been settled';
+  END IF;
+
+  IF v_participant.user_id = v_split.creator_id THEN
+    RAISE EXCEPTION 'You can''t create a payment link for yourself';
+  END IF;
+
+  IF v_participant.status = 'paid' THEN
+    RAISE EXCEPTION 'This participant has already paid';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  UPDATE payment_links
+  SET is_active = false,
+      deactivated_at = NOW(),
+      deactivated_reason = 'regenerated'
+  WHERE participant_id = p_participant_id
+    AND is_active;
+
+  INSERT INTO payment_links (split_id, participant_id, short_code, created_by, expires_at, is_active)
+  VALUES (v_split.id, p_participant_id, p_short_code, auth.uid(), p_expires_at, true)
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_participant_payment_link(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 5. get_participant_payment_link()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- What the web page shows for a participant link: whose share it is and
+-- what's left to pay. Opening it is recorded like any other link (see
+-- open_payment_link()). Returns nothing for split-wide, revoked,
+-- expired or unknown codes.
+
+CREATE OR REPLACE FUNCTION get_participant_payment_link(p_short_code TEXT)
+RETURNS TABLE (
+  split_id UUID,
+  participant_id UUID,
+  split_title TEXT,
+  creator_name TEXT,
+  participant_name TEXT,
+  currency TEXT,
+  amount_owed NUMERIC,
+  amount_paid NUMERIC,
+  status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_links pl
+    WHERE pl.short_code = upper(p_short_code)
+      AND pl.participant_id IS NOT NULL
+  ) OR open_payment_link(p_short_code) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    sp.id,
+    s.title,
+    creator.full_name,
+    COALESCE(sp.external_name, participant.full_name),
+    COALESCE(s.currency, 'AUD'),
+    sp.amount_owed,
+    COALESCE(sp.amount_paid, 0),
+    sp.status
+  FROM payment_links pl
+  JOIN split_participants sp ON sp.id = pl.participant_id
+  JOIN splits s ON s.id = pl.split_id
+  LEFT JOIN profiles creator ON creator.id = s.creator_id
+  LEFT JOIN profiles participant ON participant.id = sp.user_id
+  WHERE pl.short_code = upper(p_short_code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_participant_payment_link(TEXT) TO anon, authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 6. Credit web payments to the split-wide link only
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Participant link payments go through payments, not web_payments, and
+-- stripe-webhook records their 'pay' event itself.
+
+CREATE OR REPLACE FUNCTION record_payment_link_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'settled' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'settled') THEN
+    INSERT INTO payment_link_events (payment_link_id, event_type, web_payment_id, amount)
+    SELECT id, 'pay', NEW.id, NEW.amount
+    FROM payment_links
+    WHERE split_id = NEW.split_id
+      AND participant_id IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Payment intents: one payments row per Stripe PaymentIntent
+-- ═══════════════════════════════════════════════════════════════
+-- create-payment-intent reuses an open PaymentIntent for the same payer
+-- and split, and concurrent requests share a Stripe idempotency key.
+-- This index stops two requests that raced from recording it twice.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Stop on duplicates left by earlier double taps
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Either copy of a duplicated intent may have allocations, refunds or a
+-- webhook status behind it, so which one is real can only be settled
+-- against Stripe. Rather than drop one, the migration fails and lists
+-- them. Once each extra copy is resolved (its allocations moved or
+-- reversed, and its stripe_payment_intent_id cleared or the row
+-- deleted), run it again.
+
+DO $$
+DECLARE
+  v_duplicates TEXT;
+BEGIN
+  SELECT string_agg(
+    format(
+      '%s: %s',
+      d.stripe_payment_intent_id,
+      (
+        SELECT string_agg(
+          format(
+            '%s (%s, %s, created %s)',
+            p.id,
+            p.status,
+            p.amount,
+            p.created_at
+          ),
+          ', ' ORDER BY p.created_at
+        )
+        FROM payments p
+        WHERE p.stripe_payment_intent_id = d.stripe_payment_intent_id
+      )
+    ),
+    E'\n'
+  )
+  INTO v_duplicates
+  FROM (
+    SELECT stripe_payment_intent_id
+    FROM payments
+    WHERE stripe_payment_intent_id IS NOT NULL
+    GROUP BY stripe_payment_intent_id
+    HAVING COUNT(*) > 1
+  ) d;
+
+  IF v_duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Payments share a Stripe PaymentIntent'
+      USING DETAIL = v_duplicates,
+            HINT = 'Keep the payment that matches the PaymentIntent in Stripe and clear stripe_payment_intent_id on the others, then run this migration again.';
+  END IF;
+END;
+$$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Unique PaymentIntent per payment (NULLs are allowed for manual payments)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_stripe_payment_intent_id
+  ON payments(stripe_payment_intent_id);
+
+-- Lookup of a payer's earlier intents for the same split
+CREATE INDEX IF NOT EXISTS idx_payments_payer_split
+  ON payments(from_user_id, to_user_id, split_id, created_at DESC);
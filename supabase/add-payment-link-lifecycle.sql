@@ -0,0 +1,292 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Payment Link Lifecycle: expiry, revoke/regenerate and analytics
+-- ═══════════════════════════════════════════════════════════════
+-- Creators can give a split's payment link an expiry, revoke it, or
+-- regenerate it (which revokes the old code). Opens, item claims and
+-- web payments are recorded per link so creators can see how a link
+-- is doing. Links deactivate themselves once the split settles.
+--
+-- Short codes are generated on the device with a secure random source;
+-- the unique index on short_code is what guarantees they don't collide,
+-- and create_payment_link() lets the 23505 error through so the client
+-- can retry with a fresh code.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Track why a link stopped working
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_links
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deactivated_reason TEXT
+    CHECK (deactivated_reason IN ('revoked', 'regenerated', 'settled', 'expired'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_links_short_code
+  ON payment_links(short_code);
+
+-- Older clients could end up with several active links for one split;
+-- keep the newest and retire the rest before enforcing one per split
+UPDATE payment_links pl
+SET is_active = false,
+    deactivated_at = NOW(),
+    deactivated_reason = 'regenerated'
+WHERE pl.is_active
+  AND EXISTS (
+    SELECT 1 FROM payment_links newer
+    WHERE newer.split_id = pl.split_id
+      AND newer.is_active
+      AND newer.created_at > pl.created_at
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_links_one_active
+  ON payment_links(split_id)
+  WHERE is_active;
+
+-- Links on splits that have already settled stop working too
+UPDATE payment_links pl
+SET is_active = false,
+    deactivated_at = NOW(),
+    deactivated_reason = 'settled'
+FROM splits s
+WHERE s.id = pl.split_id
+  AND s.status = 'settled'
+  AND pl.is_active;
+
+-- Creators change expiry directly; everything else goes through the functions below
+DROP POLICY IF EXISTS "Users can update their own payment links" ON payment_links;
+CREATE POLICY "Users can update their own payment links"
+  ON payment_links FOR UPDATE
+  USING (auth.uid() = created_by);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Create payment_link_events table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS payment_link_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_link_id UUID REFERENCES payment_links(id) ON DELETE CASCADE NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('open', 'claim', 'pay')),
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- NULL for the signed-out web page
+  web_payment_id UUID REFERENCES web_payments(id) ON DELETE SET NULL,
+  amount NUMERIC(10,2), -- 'pay' events only
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_link_events_link_id ON payment_link_events(payment_link_id);
+
+ALTER TABLE payment_link_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the functions below
+CREATE POLICY "Users can view events on their payment links"
+  ON payment_link_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM payment_links pl
+      WHERE pl.id = payment_link_events.payment_link_id
+        AND pl.created_by = auth.uid()
+    )
+  );
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. create_payment_link()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Replaces the split's active link (if any) with a new code. A clashing
+-- short code raises unique_violation for the client to retry.
+
+CREATE OR REPLACE FUNCTION create_payment_link(
+  p_split_id UUID,
+  p_short_code TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS payment_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_split splits%ROWTYPE;
+  v_link payment_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_split FROM splits WHERE id = p_split_id;
+
+  IF NOT FOUND OR v_split.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the split creator can create payment links';
+  END IF;
+
+  IF v_split.status = 'settled' THEN
+    RAISE EXCEPTION 'This split has already been settled';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  UPDATE payment_links
+  SET is_active = false,
+      deactivated_at = NOW(),
+      deactivated_reason = 'regenerated'
+  WHERE split_id = p_split_id
+    AND is_active;
+
+  INSERT INTO payment_links (split_id, short_code, created_by, expires_at, is_active)
+  VALUES (p_split_id, p_short_code, auth.uid(), p_expires_at, true)
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_payment_link(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. open_payment_link()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Resolves a short code to its split and records the open. Used by the
+-- app and the signed-out web page. Returns nothing for revoked, expired
+-- or unknown codes; an expired link is deactivated on the way.
+
+CREATE OR REPLACE FUNCTION open_payment_link(p_short_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link payment_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM payment_links
+  WHERE short_code = upper(p_short_code)
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_link.expires_at IS NOT NULL AND v_link.expires_at <= NOW() THEN
+    UPDATE payment_links
+    SET is_active = false,
+        deactivated_at = NOW(),
+        deactivated_reason = 'expired'
+    WHERE id = v_link.id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO payment_link_events (payment_link_id, event_type, user_id)
+  VALUES (v_link.id, 'open', auth.uid());
+
+  RETURN v_link.split_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_payment_link(TEXT) TO anon, authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 5. record_payment_link_claim()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Called after someone who arrived through a link claims their items.
+-- Claiming needs an account, so only signed-in users can record one,
+-- and each user counts once per link however often they re-save.
+
+-- Keep the first claim per user before enforcing one
+DELETE FROM payment_link_events e
+WHERE e.event_type = 'claim'
+  AND e.user_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM payment_link_events earlier
+    WHERE earlier.payment_link_id = e.payment_link_id
+      AND earlier.user_id = e.user_id
+      AND earlier.event_type = 'claim'
+      AND (earlier.created_at, earlier.id) < (e.created_at, e.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_link_events_one_claim
+  ON payment_link_events(payment_link_id, user_id)
+  WHERE event_type = 'claim';
+
+CREATE OR REPLACE FUNCTION record_payment_link_claim(p_short_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO payment_link_events (payment_link_id, event_type, user_id)
+  SELECT id, 'claim', auth.uid()
+  FROM payment_links
+  WHERE short_code = upper(p_short_code)
+    AND is_active
+    AND (expires_at IS NULL OR expires_at > NOW())
+  ON CONFLICT (payment_link_id, user_id) WHERE event_type = 'claim' DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment_link_claim(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_payment_link_claim(TEXT) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 6. Record web payments against the link they came through
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- web_payments doesn't store a link, so a settled payment is credited to
+-- the split's newest link (the one that was shared most recently).
+
+CREATE OR REPLACE FUNCTION record_payment_link_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'settled' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'settled') THEN
+    INSERT INTO payment_link_events (payment_link_id, event_type, web_payment_id, amount)
+    SELECT id, 'pay', NEW.id, NEW.amount
+    FROM payment_links
+    WHERE split_id = NEW.split_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS web_payments_payment_link_event ON web_payments;
+CREATE TRIGGER web_payments_payment_link_event
+  AFTER INSERT OR UPDATE OF status ON web_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_payment_link_payment();
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 7. Deactivate links when a split settles
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- A refund that reopens the split doesn't bring the link back; the
+-- creator can regenerate one.
+
+CREATE OR REPLACE FUNCTION deactivate_payment_links_on_settle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'settled' AND OLD.status IS DISTINCT FROM 'settled' THEN
+    UPDATE payment_links
+    SET is_active = false,
+        deactivated_at = NOW(),
+        deactivated_reason = 'settled'
+    WHERE split_id = NEW.id
+      AND is_active;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS splits_deactivate_payment_links ON splits;
+CREATE TRIGGER splits_deactivate_payment_links
+  AFTER UPDATE OF status ON splits
+  FOR EACH ROW
+  EXECUTE FUNCTION deactivate_payment_links_on_settle();
@@ -0,0 +1,197 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Payout Methods: saved ways to be paid without Stripe
+-- ═══════════════════════════════════════════════════════════════
+-- Users can save several payout methods (PayID, BSB/account, PayPal)
+-- and pick one as their default. Anyone without a Stripe Connect
+-- account gets their default included in share messages, payment
+-- requests and the web payment link, so people can still pay them
+-- directly.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Create payout_methods table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS payout_methods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('payid', 'bank_transfer', 'paypal')),
+  label TEXT, -- e.g. "Everyday account"
+  -- PayID
+  payid TEXT,
+  payid_type TEXT CHECK (payid_type IN ('phone', 'email')),
+  -- Bank transfer
+  bsb TEXT CHECK (bsb ~ '^\d{6}$'),
+  account_number TEXT,
+  bank_name TEXT,
+  -- PayID and bank transfer
+  account_name TEXT,
+  -- PayPal
+  paypal_username TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (
+    (method = 'payid' AND payid IS NOT NULL AND payid_type IS NOT NULL)
+    OR (method = 'bank_transfer' AND bsb IS NOT NULL AND account_number IS NOT NULL AND account_name IS NOT NULL)
+    OR (method = 'paypal' AND paypal_username IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_methods_user_id ON payout_methods(user_id);
+
+-- At most one default per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_methods_one_default
+  ON payout_methods(user_id)
+  WHERE is_default;
+
+-- Existing PayIDs become each user's default payout method
+INSERT INTO payout_methods (user_id, method, payid, payid_type, account_name, is_default)
+SELECT
+  id,
+  'payid',
+  payid,
+  CASE WHEN payid LIKE '%@%' THEN 'email' ELSE 'phone' END,
+  full_name,
+  true
+FROM profiles
+WHERE payid IS NOT NULL
+  AND payid <> ''
+  AND NOT EXISTS (SELECT 1 FROM payout_methods WHERE payout_methods.user_id = profiles.id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Only the owner reads the table directly; other people only ever see
+-- a default method, through the functions below.
+
+ALTER TABLE payout_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payout methods"
+  ON payout_methods FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own payout methods"
+  ON payout_methods FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payout methods"
+  ON payout_methods FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payout methods"
+  ON payout_methods FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION update_payout_methods_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payout_methods_updated_at ON payout_methods;
+CREATE TRIGGER payout_methods_updated_at
+  BEFORE UPDATE ON payout_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payout_methods_updated_at();
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. set_default_payout_method()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Moves the default in one statement so the unique index never sees two.
+
+CREATE OR REPLACE FUNCTION set_default_payout_method(p_payout_method_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payout_methods WHERE id = p_payout_method_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Payout method not found';
+  END IF;
+
+  UPDATE payout_methods
+  SET is_default = (id = p_payout_method_id)
+  WHERE user_id = auth.uid()
+    AND (is_default OR id = p_payout_method_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_default_payout_method(UUID) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. get_preferred_payout_method()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Someone's default payout method, for people who owe them money.
+-- Returns nothing if they take card payments through Stripe Connect,
+-- or if the caller doesn't share a split with them.
+
+CREATE OR REPLACE FUNCTION get_preferred_payout_method(p_user_id UUID)
+RETURNS SETOF payout_methods
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id AND NOT EXISTS (
+    SELECT 1
+    FROM split_participants sp
+    JOIN splits s ON s.id = sp.split_id
+    WHERE (s.creator_id = p_user_id AND sp.user_id = auth.uid())
+       OR (s.creator_id = auth.uid() AND sp.user_id = p_user_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT pm.*
+  FROM payout_methods pm
+  JOIN profiles p ON p.id = pm.user_id
+  WHERE pm.user_id = p_user_id
+    AND pm.is_default
+    AND COALESCE(p.stripe_connect_onboarding_complete, false) = false;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_preferred_payout_method(UUID) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 5. get_payment_link_payout_method()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- The same for the web payment page, which is opened without signing
+-- in: whoever has an active link can see the creator's default method.
+
+CREATE OR REPLACE FUNCTION get_payment_link_payout_method(p_short_code TEXT)
+RETURNS TABLE (
+  method TEXT,
+  payid TEXT,
+  payid_type TEXT,
+  bsb TEXT,
+  account_number TEXT,
+  bank_name TEXT,
+  account_name TEXT,
+  paypal_username TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pm.method, pm.payid, pm.payid_type, pm.bsb, pm.account_number,
+         pm.bank_name, pm.account_name, pm.paypal_username
+  FROM payment_links pl
+  JOIN splits s ON s.id = pl.split_id
+  JOIN profiles p ON p.id = s.creator_id
+  JOIN payout_methods pm ON pm.user_id = s.creator_id AND pm.is_default
+  WHERE pl.short_code = upper(p_short_code)
+    AND pl.is_active
+    AND (pl.expires_at IS NULL OR pl.expires_at > NOW())
+    AND COALESCE(p.stripe_connect_onboarding_complete, false) = false;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_payment_link_payout_method(TEXT) TO anon, authenticated;
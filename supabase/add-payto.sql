@@ -0,0 +1,63 @@
+-- ═══════════════════════════════════════════════════════════════
+-- PayTo: direct bank-to-bank payments for participant shares
+-- ═══════════════════════════════════════════════════════════════
+-- A payer approves a PayTo agreement in their banking app once; after
+-- that ZapSplit can initiate payments against it up to the agreed
+-- maximum. create-payto-payment creates the agreement (if needed) and
+-- the payment, and payto-webhook applies the provider's status
+-- callbacks to payments and split_participants the same way the
+-- stripe-webhook does for card payments.
+--
+-- See docs/PAYTO_INTEGRATION.md for the flow.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Create payment_agreements table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- One row per agreement a payer has set up with the PayTo provider
+
+CREATE TABLE IF NOT EXISTS payment_agreements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL, -- The payer
+  provider TEXT NOT NULL DEFAULT 'payto',
+  provider_agreement_id TEXT UNIQUE NOT NULL,
+  payer_payid TEXT NOT NULL, -- The account the payer agreed to be debited from
+  maximum_amount NUMERIC(10,2) NOT NULL CHECK (maximum_amount > 0), -- AUD, per payment
+  -- 'pending' until the payer approves it in their banking app
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'declined', 'cancelled')),
+  approval_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_agreements_user_id ON payment_agreements(user_id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Link payments to the provider
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- A PayTo payment stays 'pending' while its agreement waits for approval,
+-- is 'processing' once initiated, and 'completed' when the provider
+-- reports it settled.
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS provider_payment_id TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS agreement_id UUID REFERENCES payment_agreements(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_agreement_id ON payments(agreement_id);
+
+ALTER TABLE payments
+  DROP CONSTRAINT IF EXISTS payments_payment_method_check;
+
+ALTER TABLE payments
+  ADD CONSTRAINT payments_payment_method_check
+  CHECK (payment_method IN ('stripe', 'payto', 'payid', 'bank_transfer', 'paypal', 'manual'));
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_agreements ENABLE ROW LEVEL SECURITY;
+
+-- Written by create-payto-payment and payto-webhook (service role) only
+CREATE POLICY "Users can view their own payment agreements"
+  ON payment_agreements FOR SELECT
+  USING (auth.uid() = user_id);
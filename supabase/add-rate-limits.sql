@@ -0,0 +1,154 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Rate Limits: sliding-window limits per user and action
+-- ═══════════════════════════════════════════════════════════════
+-- Every limited action is logged in rate_limit_events. An action is
+-- allowed while fewer than max_requests events fall inside the last
+-- window_seconds. The rate-limiter edge function and the triggers on
+-- splits/friendships both go through check_rate_limit(), so the client
+-- can't skip enforcement by not asking.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Limits per action (keep in sync with RATE_LIMIT_INFO in src/utils/rateLimiter.ts)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  action TEXT PRIMARY KEY,
+  max_requests INTEGER NOT NULL CHECK (max_requests > 0),
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0)
+);
+
+INSERT INTO rate_limits (action, max_requests, window_seconds) VALUES
+  ('api_default', 60, 60),
+  ('receipt_scan', 20, 86400),
+  ('friend_request', 30, 3600),
+  ('split_create', 50, 3600),
+  ('payment', 20, 3600),
+  ('login', 10, 900)
+ON CONFLICT (action) DO UPDATE
+  SET max_requests = EXCLUDED.max_requests,
+      window_seconds = EXCLUDED.window_seconds;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Event log
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  action TEXT REFERENCES rate_limits(action) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_lookup
+  ON rate_limit_events(user_id, action, created_at DESC);
+
+-- Only reachable through check_rate_limit() (SECURITY DEFINER) and the service role
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. check_rate_limit()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Returns { allowed, remaining, limit, reset_at } where reset_at is the
+-- unix time (seconds) at which the oldest event in the window expires.
+-- p_consume = false reports the current state without using a slot.
+
+CREATE OR REPLACE FUNCTION check_rate_limit(
+  p_user_id UUID,
+  p_action TEXT,
+  p_consume BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit rate_limits%ROWTYPE;
+  v_window_start TIMESTAMPTZ;
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_allowed BOOLEAN;
+BEGIN
+  SELECT * INTO v_limit FROM rate_limits WHERE action = p_action;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rate limit action: %', p_action;
+  END IF;
+
+  -- Serialise checks for the same user and action so two requests can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || p_action));
+
+  v_window_start := NOW() - make_interval(secs => v_limit.window_seconds);
+
+  -- Events outside the window will never count again
+  DELETE FROM rate_limit_events
+    WHERE user_id = p_user_id AND action = p_action AND created_at <= v_window_start;
+
+  SELECT COUNT(*), MIN(created_at) INTO v_count, v_oldest
+    FROM rate_limit_events
+    WHERE user_id = p_user_id AND action = p_action;
+
+  v_allowed := v_count < v_limit.max_requests;
+
+  IF v_allowed AND p_consume THEN
+    INSERT INTO rate_limit_events (user_id, action) VALUES (p_user_id, p_action);
+    v_count := v_count + 1;
+    v_oldest := COALESCE(v_oldest, NOW());
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'remaining', GREATEST(v_limit.max_requests - v_count, 0),
+    'limit', v_limit.max_requests,
+    'reset_at', FLOOR(EXTRACT(EPOCH FROM COALESCE(v_oldest, NOW()) + make_interval(secs => v_limit.window_seconds)))
+  );
+END;
+$$;
+
+-- Clients go through the rate-limiter edge function instead
+REVOKE EXECUTE ON FUNCTION check_rate_limit(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. Enforcement on inserts
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Rejects inserts made by a user who is over the limit for TG_ARGV[0]
+-- with SQLSTATE P0429 (the client maps it to a friendly message).
+-- Inserts made by the service role (no auth.uid()) aren't limited.
+
+CREATE OR REPLACE FUNCTION enforce_rate_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_result := check_rate_limit(auth.uid(), TG_ARGV[0]);
+
+  IF NOT (v_result->>'allowed')::BOOLEAN THEN
+    RAISE EXCEPTION 'Rate limit exceeded for %', TG_ARGV[0]
+      USING ERRCODE = 'P0429',
+            DETAIL = v_result::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_split_create_rate_limit ON splits;
+CREATE TRIGGER enforce_split_create_rate_limit
+  BEFORE INSERT ON splits
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_rate_limit('split_create');
+
+DROP TRIGGER IF EXISTS enforce_friend_request_rate_limit ON friendships;
+CREATE TRIGGER enforce_friend_request_rate_limit
+  BEFORE INSERT ON friendships
+  FOR EACH ROW
+  WHEN (NEW.status = 'pending')
+  EXECUTE FUNCTION enforce_rate_limit('friend_request');
@@ -0,0 +1,22 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Receipt Adjustments: keep discounts and surcharges on the split
+-- ═══════════════════════════════════════════════════════════════
+-- Discounts, surcharges, service charges and rounding read off a receipt
+-- (see ReceiptAdjustment in src/types/receipt.ts) are saved with the
+-- split, so shares worked out after it was created honour them too:
+-- what people claiming items through a payment link pay, and the
+-- creator's share and amount paid on a claim-based receipt split.
+--
+-- Item-level adjustments refer to the split_items row they apply to.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Adjustments on splits
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- [{ "id": "...", "kind": "discount", "label": "Member discount", "percentage": 10,
+--    "scope": "bill", "distribution": "proportional" }]
+ALTER TABLE splits
+  ADD COLUMN IF NOT EXISTS receipt_adjustments JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- create_split() (add-atomic-split-creation.sql) saves
+-- p_split.receipt_adjustments into this column.
@@ -0,0 +1,15 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Receipt corrections: reconciliation fixes applied before saving
+-- ═══════════════════════════════════════════════════════════════
+-- When a scanned receipt's items don't add up to its totals, the review
+-- screen proposes fixes (missing item, line total read as unit price,
+-- combo contents listed twice, discount read as a charge). The ones the
+-- creator accepted are kept on the split so amounts can be audited later.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Applied corrections on splits
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- [{ "type": "missing_item", "message": "...", "fix": { "kind": "add_item", ... }, "applied_at": "..." }]
+ALTER TABLE splits
+  ADD COLUMN IF NOT EXISTS receipt_corrections JSONB NOT NULL DEFAULT '[]'::JSONB;
@@ -0,0 +1,304 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Recurring Split Schedule: generate recurring bills on the server
+-- ═══════════════════════════════════════════════════════════════
+-- Recurring bills used to be generated only by the creator's app when
+-- it was opened, so a household whose creator stopped opening ZapSplit
+-- never got the bill. generate_due_recurring_splits() generates every
+-- due occurrence on the server and notifies the people on it, and
+-- pg_cron runs it every 15 minutes.
+--
+-- It claims an occurrence like the app does (see
+-- processDueRecurringSplits() in recurringSplitService.ts), by moving
+-- next_run_at on, in the transaction that generates the split. The
+-- app's claim only matches the next_run_at it read, so the job and an
+-- app opened at the same moment can't both generate an occurrence. The
+-- app still runs its catch-up on open, which only finds something to do
+-- when the job hasn't run yet.
+--
+-- Schedules are saved in the creator's local time (midnight on the due
+-- day), so each one now records its time zone to be worked out the same
+-- way here.
+--
+-- Requires the pg_cron extension (Database → Extensions in Supabase).
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Time zone of each schedule
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- The app saves the device's zone. Schedules saved before this are
+-- assumed to be in Sydney time.
+
+ALTER TABLE recurring_splits
+  ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'Australia/Sydney';
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. next_recurring_occurrence()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Occurrence that follows p_previous, matching calculateNextOccurrence()
+-- in the app: a week or two later, or the anchor day of the next month
+-- clamped to that month's length (the 31st runs on the 30th in April).
+
+CREATE OR REPLACE FUNCTION next_recurring_occurrence(
+  p_previous TIMESTAMPTZ,
+  p_frequency TEXT,
+  p_day_of_month INTEGER,
+  p_time_zone TEXT
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_previous AT TIME ZONE p_time_zone;
+  v_month DATE;
+  v_days INTEGER;
+BEGIN
+  IF p_frequency = 'weekly' THEN
+    RETURN (v_local + INTERVAL '7 days') AT TIME ZONE p_time_zone;
+  ELSIF p_frequency = 'fortnightly' THEN
+    RETURN (v_local + INTERVAL '14 days') AT TIME ZONE p_time_zone;
+  END IF;
+
+  v_month := (date_trunc('month', v_local) + INTERVAL '1 month')::DATE;
+  v_days := EXTRACT(DAY FROM v_month + INTERVAL '1 month' - INTERVAL '1 day')::INTEGER;
+
+  RETURN (
+    v_month
+    + (LEAST(COALESCE(p_day_of_month, EXTRACT(DAY FROM v_local)::INTEGER), v_days) - 1)
+    + v_local::TIME
+  ) AT TIME ZONE p_time_zone;
+END;
+$$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. recurring_occurrence_amounts()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- What each person on a recurring split owes for one occurrence,
+-- matching buildOccurrenceParticipants() in the app. Equal and percentage
+-- splits are divided by largest remainder with ties going to the
+-- earliest person, and the creator is listed first in equal splits so
+-- they absorb leftover cents. The creator's own share is included; the
+-- caller leaves it out of the participants.
+
+CREATE OR REPLACE FUNCTION recurring_occurrence_amounts(p_recurring recurring_splits)
+RETURNS TABLE (user_id UUID, amount_cents BIGINT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_total BIGINT := ROUND(p_recurring.total_amount * 100);
+  v_percentage_total NUMERIC;
+BEGIN
+  IF p_recurring.split_method = 'custom' THEN
+    RETURN QUERY
+    SELECT (p->>'user_id')::UUID, ROUND(COALESCE((p->>'amount')::NUMERIC, 0) * 100)::BIGINT
+    FROM jsonb_array_elements(p_recurring.participants) AS p;
+    RETURN;
+  END IF;
+
+  IF p_recurring.split_method = 'percentage' THEN
+    SELECT COALESCE(SUM(GREATEST(COALESCE((p->>'percentage')::NUMERIC, 0), 0)), 0)
+    INTO v_percentage_total
+    FROM jsonb_array_elements(p_recurring.participants) AS p;
+
+    -- Percentages within a hundredth of 100 (e.g. three lots of 33.33) cover the whole total
+    IF ABS(v_percentage_total - 100) > 0.01 THEN
+      v_total := ROUND(v_total * v_percentage_total / 100);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH weights AS (
+    SELECT
+      (p->>'user_id')::UUID AS user_id,
+      CASE
+        WHEN p_recurring.split_method = 'equal' THEN 1
+        ELSE GREATEST(COALESCE((p->>'percentage')::NUMERIC, 0), 0)
+      END AS weight,
+      CASE
+        WHEN p_recurring.split_method = 'equal' AND (p->>'user_id')::UUID = p_recurring.creator_id THEN 0
+        ELSE ordinality
+      END AS ordinality
+    FROM jsonb_array_elements(p_recurring.participants) WITH ORDINALITY AS e(p, ordinality)
+  ),
+  exact AS (
+    SELECT
+      w.user_id,
+      w.ordinality,
+      w.weight,
+      v_total * w.weight / NULLIF(SUM(w.weight) OVER (), 0) AS share
+    FROM weights w
+  ),
+  floored AS (
+    SELECT
+      e.user_id,
+      e.weight,
+      FLOOR(COALESCE(e.share, 0))::BIGINT AS cents,
+      ROW_NUMBER() OVER (ORDER BY COALESCE(e.share, 0) - FLOOR(COALESCE(e.share, 0)) DESC, e.ordinality) AS rank
+    FROM exact e
+  )
+  SELECT
+    f.user_id,
+    f.cents + CASE
+      WHEN f.weight > 0 AND f.rank <= v_total - SUM(f.cents) OVER () THEN 1
+      ELSE 0
+    END
+  FROM floored f;
+END;
+$$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. generate_due_recurring_splits()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Generates a split, in the creator's name, for every due occurrence of
+-- every unpaused recurring split, up to 12 missed occurrences each (the
+-- same limit as the app). Each occurrence is titled with its due date,
+-- e.g. "Rent (1 Mar)". The people on it get a 'split_created'
+-- notification and the creator a 'group_activity' one.
+--
+-- An occurrence that fails (e.g. the creator has left the group) is
+-- logged and left due, without stopping the others.
+--
+-- Returns the number of splits generated. Only pg_cron (and the service
+-- role) calls it.
+
+CREATE OR REPLACE FUNCTION generate_due_recurring_splits()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recurring recurring_splits%ROWTYPE;
+  v_occurrence TIMESTAMPTZ;
+  v_next TIMESTAMPTZ;
+  v_split_id UUID;
+  v_title TEXT;
+  v_creator_name TEXT;
+  v_generated INTEGER := 0;
+BEGIN
+  -- Skip templates an app is generating right now; its claim moves them on
+  FOR v_recurring IN
+    SELECT * FROM recurring_splits
+    WHERE paused = FALSE
+      AND next_run_at <= NOW()
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT COALESCE(NULLIF(TRIM(full_name), ''), 'Someone') INTO v_creator_name
+    FROM profiles
+    WHERE id = v_recurring.creator_id;
+
+    FOR i IN 1..12 LOOP
+      v_occurrence := v_recurring.next_run_at;
+      EXIT WHEN v_occurrence > NOW();
+
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM group_members
+          WHERE group_id = v_recurring.group_id AND user_id = v_recurring.creator_id
+        ) THEN
+          RAISE EXCEPTION 'Creator is not a member of the group';
+        END IF;
+
+        -- Monthly schedules saved before they stored a day keep the day they were created on
+        v_next := next_recurring_occurrence(
+          v_occurrence,
+          v_recurring.frequency,
+          CASE
+            WHEN v_recurring.frequency = 'monthly' AND v_recurring.day_of_month IS NULL
+              THEN EXTRACT(DAY FROM v_recurring.created_at AT TIME ZONE v_recurring.time_zone)::INTEGER
+            ELSE v_recurring.day_of_month
+          END,
+          v_recurring.time_zone
+        );
+
+        v_title := format(
+          '%s (%s)',
+          v_recurring.title,
+          to_char(v_occurrence AT TIME ZONE v_recurring.time_zone, 'FMDD Mon')
+        );
+
+        -- Recurring bills are in the home currency; keep the previous bill's rates for anyone paying in another
+        INSERT INTO splits (
+          creator_id, title, description, total_amount, currency, exchange_rates,
+          split_type, group_id, recurring_split_id, status
+        )
+        VALUES (
+          v_recurring.creator_id,
+          v_title,
+          v_recurring.description,
+          v_recurring.total_amount,
+          v_recurring.currency,
+          (SELECT exchange_rates FROM splits WHERE id = v_recurring.last_split_id),
+          v_recurring.split_method,
+          v_recurring.group_id,
+          v_recurring.id,
+          'active'
+        )
+        RETURNING id INTO v_split_id;
+
+        -- The creator is paid back rather than owing themselves
+        INSERT INTO split_participants (split_id, user_id, amount_owed, amount_paid, status)
+        SELECT v_split_id, a.user_id, a.amount_cents / 100.0, 0, 'pending'
+        FROM recurring_occurrence_amounts(v_recurring) a
+        WHERE a.user_id <> v_recurring.creator_id
+          AND a.amount_cents > 0;
+
+        INSERT INTO notifications (user_id, type, title, body, data, action_url, channels)
+        SELECT
+          sp.user_id,
+          'split_created',
+          'New Split',
+          format('%s added you to "%s"', v_creator_name, v_title),
+          jsonb_build_object('splitId', v_split_id),
+          '/splits/' || v_split_id,
+          ARRAY['in_app', 'push']
+        FROM split_participants sp
+        WHERE sp.split_id = v_split_id;
+
+        INSERT INTO notifications (user_id, type, title, body, data, action_url, channels)
+        VALUES (
+          v_recurring.creator_id,
+          'group_activity',
+          'Recurring Bill Created',
+          format('"%s" was sent to your group', v_title),
+          jsonb_build_object('splitId', v_split_id, 'groupId', v_recurring.group_id),
+          '/splits/' || v_split_id,
+          ARRAY['in_app', 'push']
+        );
+
+        UPDATE recurring_splits
+        SET next_run_at = v_next,
+            last_run_at = v_occurrence,
+            last_split_id = v_split_id
+        WHERE id = v_recurring.id
+        RETURNING * INTO v_recurring;
+
+        v_generated := v_generated + 1;
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Recurring split % not generated: %', v_recurring.id, SQLERRM;
+        EXIT;
+      END;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_generated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_due_recurring_splits() FROM PUBLIC, anon, authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 5. Schedule
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Scheduling a job under the same name again replaces it.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-recurring-splits',
+  '*/15 * * * *',
+  $$SELECT generate_due_recurring_splits()$$
+);
@@ -0,0 +1,79 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Recurring Splits: scheduled bills for household groups
+-- ═══════════════════════════════════════════════════════════════
+-- A recurring split is a template (rent, utilities, internet) that
+-- generates a normal split every period. Editing a template only
+-- affects future occurrences; splits already generated are untouched.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Create recurring_splits table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS recurring_splits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID REFERENCES groups(id) ON DELETE CASCADE NOT NULL,
+  creator_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  total_amount NUMERIC(10,2) NOT NULL CHECK (total_amount > 0),
+  currency TEXT NOT NULL DEFAULT 'AUD',
+  split_method TEXT NOT NULL DEFAULT 'equal' CHECK (split_method IN ('equal', 'custom', 'percentage')),
+  -- [{ "user_id": "...", "amount": 12.50, "percentage": 25 }]
+  participants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly', 'custom')),
+  -- 'custom': the chosen day; 'monthly': the day it started on.
+  -- Clamped to the last day of shorter months
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  last_split_id UUID REFERENCES splits(id) ON DELETE SET NULL,
+  paused BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_splits_group_id ON recurring_splits(group_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_splits_due ON recurring_splits(creator_id, next_run_at) WHERE paused = FALSE;
+
+-- Link generated splits back to their template
+ALTER TABLE splits
+  ADD COLUMN IF NOT EXISTS recurring_split_id UUID REFERENCES recurring_splits(id) ON DELETE SET NULL;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE recurring_splits ENABLE ROW LEVEL SECURITY;
+
+-- Any current group member can see the group's recurring bills
+CREATE POLICY "Group members can view recurring splits"
+  ON recurring_splits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members
+      WHERE group_members.group_id = recurring_splits.group_id
+      AND group_members.user_id = auth.uid()
+      AND group_members.left_at IS NULL
+    )
+  );
+
+-- Only the creator manages a recurring split (splits are generated in their name)
+CREATE POLICY "Creators can insert recurring splits"
+  ON recurring_splits FOR INSERT
+  WITH CHECK (
+    auth.uid() = creator_id
+    AND EXISTS (
+      SELECT 1 FROM group_members
+      WHERE group_members.group_id = recurring_splits.group_id
+      AND group_members.user_id = auth.uid()
+      AND group_members.left_at IS NULL
+    )
+  );
+
+CREATE POLICY "Creators can update recurring splits"
+  ON recurring_splits FOR UPDATE
+  USING (auth.uid() = creator_id);
+
+CREATE POLICY "Creators can delete recurring splits"
+  ON recurring_splits FOR DELETE
+  USING (auth.uid() = creator_id);
@@ -0,0 +1,128 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Refunds & Disputes: roll card payments back off participant shares
+-- ═══════════════════════════════════════════════════════════════
+-- The person who received a card payment can refund all or part of it
+-- from the app (refund-payment edge function). Stripe then sends
+-- charge.refunded, and the stripe-webhook takes the refunded amount back
+-- off the participant rows the payment was allocated to, newest first,
+-- and reopens any split that had been settled.
+--
+-- A refund or a lost dispute is recorded as a 'refund' or 'chargeback'
+-- allocation against the same payment, so a share's payment history
+-- still adds up to its amount_paid.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Track refunds and disputes on payments
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- How much of payments.amount has been refunded so far (cumulative)
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+ALTER TABLE payments
+  DROP CONSTRAINT IF EXISTS payments_status_check;
+
+-- 'disputed' while a dispute is open, 'charged_back' once the payer has won it
+ALTER TABLE payments
+  ADD CONSTRAINT payments_status_check
+  CHECK (status IN (
+    'pending', 'processing', 'completed', 'failed', 'cancelled',
+    'refunded', 'partially_refunded', 'disputed', 'charged_back'
+  ));
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Record reversals as allocations
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_allocations
+  DROP CONSTRAINT IF EXISTS payment_allocations_allocation_type_check;
+
+-- 'refund' and 'chargeback' take money back off a share (amount is still positive)
+ALTER TABLE payment_allocations
+  ADD CONSTRAINT payment_allocations_allocation_type_check
+  CHECK (allocation_type IN ('payment', 'offset', 'manual', 'refund', 'chargeback'));
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Create payment_refunds table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  stripe_refund_id TEXT UNIQUE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0), -- AUD, what the payer gets back
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled')),
+  initiated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment_id ON payment_refunds(payment_id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 4. Create payment_disputes table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- One row per Stripe dispute, kept up to date from charge.dispute.* events
+CREATE TABLE IF NOT EXISTS payment_disputes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  stripe_dispute_id TEXT UNIQUE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL,
+  reason TEXT,
+  -- Stripe's dispute status: needs_response, under_review, won, lost, warning_*
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_payment_id ON payment_disputes(payment_id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 5. Notification types for refunds and disputes
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'split_created', 'split_updated',
+    'payment_requested', 'payment_received', 'payment_sent', 'payment_reminder',
+    'payment_refunded', 'payment_disputed',
+    'friend_request', 'friend_accepted',
+    'group_invite', 'group_activity'
+  ));
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 6. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Written by refund-payment and stripe-webhook (service role) only.
+-- Both sides of a payment can see its refunds and disputes.
+CREATE POLICY "Users can view refunds of their payments"
+  ON payment_refunds FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM payments
+      WHERE payments.id = payment_refunds.payment_id
+      AND (auth.uid() = payments.from_user_id OR auth.uid() = payments.to_user_id)
+    )
+  );
+
+CREATE POLICY "Users can view disputes of their payments"
+  ON payment_disputes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM payments
+      WHERE payments.id = payment_disputes.payment_id
+      AND (auth.uid() = payments.from_user_id OR auth.uid() = payments.to_user_id)
+    )
+  );
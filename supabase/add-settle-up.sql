@@ -0,0 +1,50 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Settle Up: one payment that pays off a whole friend balance
+-- ═══════════════════════════════════════════════════════════════
+-- A settle-up payment is not tied to a single split, so payments.split_id
+-- stays NULL and each portion of the money is recorded against the
+-- split_participants row it paid off.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Allow payments without a split
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payments
+  ALTER COLUMN split_id DROP NOT NULL;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Create payment_allocations table
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES split_participants(id) ON DELETE CASCADE,
+  split_id UUID REFERENCES splits(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  -- 'payment' = cash from the payer, 'offset' = cancelled against what the receiver owed back
+  allocation_type TEXT NOT NULL DEFAULT 'payment' CHECK (allocation_type IN ('payment', 'offset')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment_id ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_participant_id ON payment_allocations(participant_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_split_id ON payment_allocations(split_id);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. Enable Row Level Security (RLS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Allocations are written by the stripe-webhook (service role) only.
+-- Users can view allocations for payments they sent or received.
+CREATE POLICY "Users can view allocations of their payments"
+  ON payment_allocations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM payments
+      WHERE payments.id = payment_allocations.payment_id
+      AND (auth.uid() = payments.from_user_id OR auth.uid() = payments.to_user_id)
+    )
+  );
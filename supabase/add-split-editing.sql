@@ -0,0 +1,340 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Split Editing: change a split and rebalance everyone's share
+-- ═══════════════════════════════════════════════════════════════
+-- The creator can change an equal, custom, percentage or shares split's
+-- total, add or remove people, switch method or adjust amounts. The app
+-- works out the new shares (src/services/splitService.ts, editSplit()) and
+-- edit_split() applies them in one transaction. What people have already
+-- paid is never touched:
+--
+--   - a share that grows past what was paid reopens, and the difference
+--     is a top-up the participant still owes
+--   - a share that shrinks below what was paid (or a removed participant
+--     who had paid something) leaves a credit: amount_paid - amount_owed,
+--     which the creator owes back
+--
+-- Removed participants who hadn't paid anything are deleted; those with
+-- payments keep their row with nothing owed, so the credit and payment
+-- history stay visible. Once the creator has paid a credit back they
+-- record it with settle_participant_credit().
+--
+-- The creator's own share isn't stored: it's whatever of the total the
+-- other shares don't cover, as when the split was created.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Record credits paid back as allocations
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE payment_allocations
+  DROP CONSTRAINT IF EXISTS payment_allocations_allocation_type_check;
+
+-- 'credit' = an overpayment the creator paid back (takes money back off a share, amount is positive)
+ALTER TABLE payment_allocations
+  ADD CONSTRAINT payment_allocations_allocation_type_check
+  CHECK (allocation_type IN ('payment', 'offset', 'manual', 'refund', 'chargeback', 'credit'));
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. edit_split()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- p_participants is everyone except the creator, with their new share:
+--   [{ "id": existing participant id, "amount_owed": 12.50 },
+--    { "user_id": new participant's user id, "amount_owed": 12.50 }]
+-- Existing participants left out are removed. Returns one row per
+-- participant that was added, removed or whose share changed, so the
+-- app can tell them.
+--
+-- 'shares' splits also pass share_weight on each participant and
+-- p_creator_share_weight (columns from add-split-shares.sql); other
+-- methods clear them.
+--
+-- This is the only definition of edit_split(). Migrations that change it
+-- edit it here, so applying the files in any order leaves the current
+-- version.
+
+DROP FUNCTION IF EXISTS edit_split(UUID, TEXT, TEXT, NUMERIC, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION edit_split(
+  p_split_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_total_amount NUMERIC,
+  p_split_type TEXT,
+  p_participants JSONB,
+  p_creator_share_weight NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+  participant_id UUID,
+  user_id UUID,
+  change TEXT, -- 'added' | 'removed' | 'updated'
+  previous_amount_owed NUMERIC,
+  amount_owed NUMERIC,
+  amount_paid NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_split splits%ROWTYPE;
+  v_total NUMERIC(10,2) := ROUND(p_total_amount, 2);
+  v_shares_total NUMERIC(10,2);
+  v_entry JSONB;
+  v_existing split_participants%ROWTYPE;
+  v_amount NUMERIC(10,2);
+  v_user_id UUID;
+  v_weight NUMERIC(10,4);
+  v_kept UUID[] := '{}';
+BEGIN
+  -- Lock the split so two edits (or an edit and a payment check) don't interleave
+  SELECT * INTO v_split FROM splits WHERE id = p_split_id FOR UPDATE;
+
+  IF NOT FOUND OR v_split.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the split creator can edit this split';
+  END IF;
+
+  IF v_split.split_type = 'receipt' THEN
+    RAISE EXCEPTION 'Receipt split shares come from claimed items and can''t be edited here';
+  END IF;
+
+  IF p_split_type NOT IN ('equal', 'custom', 'percentage', 'shares') THEN
+    RAISE EXCEPTION 'Split method must be equal, custom, percentage or shares';
+  END IF;
+
+  IF NULLIF(TRIM(p_title), '') IS NULL THEN
+    RAISE EXCEPTION 'Title is required';
+  END IF;
+
+  IF v_total IS NULL OR v_total <= 0 THEN
+    RAISE EXCEPTION 'Total must be greater than 0';
+  END IF;
+
+  IF jsonb_typeof(p_participants) IS DISTINCT FROM 'array' OR jsonb_array_length(p_participants) = 0 THEN
+    RAISE EXCEPTION 'A split needs at least one other person';
+  END IF;
+
+  SELECT COALESCE(SUM(ROUND((entry->>'amount_owed')::numeric, 2)), 0)
+  INTO v_shares_total
+  FROM jsonb_array_elements(p_participants) entry;
+
+  IF v_shares_total > v_total THEN
+    RAISE EXCEPTION 'Shares add up to more than the total';
+  END IF;
+
+  -- Existing participants: new share, paid amount kept
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_participants) LOOP
+    v_amount := ROUND((v_entry->>'amount_owed')::numeric, 2);
+
+    IF v_amount IS NULL OR v_amount < 0 THEN
+      RAISE EXCEPTION 'Shares can''t be negative';
+    END IF;
+
+    IF p_split_type = 'shares' AND COALESCE((v_entry->>'share_weight')::numeric, -1) < 0 THEN
+      RAISE EXCEPTION 'Everyone needs a weight of 0 or more';
+    END IF;
+
+    IF v_entry ? 'id' THEN
+      SELECT * INTO v_existing
+      FROM split_participants sp
+      WHERE sp.id = (v_entry->>'id')::uuid AND sp.split_id = p_split_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant is no longer on this split';
+      END IF;
+
+      v_kept := v_kept || v_existing.id;
+
+      -- Kept so a later edit starts from the same weights
+      UPDATE split_participants sp
+      SET share_weight = CASE WHEN p_split_type = 'shares' THEN (v_entry->>'share_weight')::numeric END
+      WHERE sp.id = v_existing.id;
+
+      IF v_existing.amount_owed IS DISTINCT FROM v_amount THEN
+        UPDATE split_participants sp
+        SET amount_owed = v_amount,
+            status = CASE WHEN COALESCE(sp.amount_paid, 0) >= v_amount THEN 'paid' ELSE 'pending' END
+        WHERE sp.id = v_existing.id;
+
+        -- A plan was for the old share; the participant can set up a new one
+        UPDATE payment_plans pp
+        SET status = 'cancelled', updated_at = NOW()
+        WHERE pp.participant_id = v_existing.id AND pp.status = 'active';
+
+        participant_id := v_existing.id;
+        user_id := v_existing.user_id;
+        change := 'updated';
+        previous_amount_owed := v_existing.amount_owed;
+        amount_owed := v_amount;
+        amount_paid := COALESCE(v_existing.amount_paid, 0);
+        RETURN NEXT;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Removed participants: deleted, unless they've paid something
+  FOR v_existing IN
+    SELECT * FROM split_participants sp
+    WHERE sp.split_id = p_split_id
+      AND sp.id <> ALL(v_kept)
+      AND sp.user_id IS DISTINCT FROM v_split.creator_id
+      -- Rows already removed and kept for their credit stay as they are
+      AND (sp.amount_owed > 0 OR COALESCE(sp.amount_paid, 0) = 0)
+    FOR UPDATE
+  LOOP
+    IF COALESCE(v_existing.amount_paid, 0) > 0 THEN
+      UPDATE split_participants sp
+      SET amount_owed = 0, status = 'paid', share_weight = NULL
+      WHERE sp.id = v_existing.id;
+
+      UPDATE payment_plans pp
+      SET status = 'cancelled', updated_at = NOW()
+      WHERE pp.participant_id = v_existing.id AND pp.status = 'active';
+    ELSE
+      DELETE FROM split_participants sp WHERE sp.id = v_existing.id;
+    END IF;
+
+    participant_id := v_existing.id;
+    user_id := v_existing.user_id;
+    change := 'removed';
+    previous_amount_owed := v_existing.amount_owed;
+    amount_owed := 0;
+    amount_paid := COALESCE(v_existing.amount_paid, 0);
+    RETURN NEXT;
+  END LOOP;
+
+  -- New participants
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_participants) LOOP
+    CONTINUE WHEN v_entry ? 'id';
+
+    v_user_id := (v_entry->>'user_id')::uuid;
+    v_amount := ROUND((v_entry->>'amount_owed')::numeric, 2);
+    v_weight := CASE WHEN p_split_type = 'shares' THEN (v_entry->>'share_weight')::numeric END;
+
+    IF v_user_id IS NULL THEN
+      RAISE EXCEPTION 'New participants need a user';
+    END IF;
+
+    IF v_user_id = v_split.creator_id THEN
+      RAISE EXCEPTION 'You''re already on this split';
+    END IF;
+
+    -- Someone removed earlier (kept for their credit) rejoins on their old row
+    SELECT * INTO v_existing
+    FROM split_participants sp
+    WHERE sp.split_id = p_split_id AND sp.user_id = v_user_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_existing.id = ANY(v_kept) OR v_existing.amount_owed > 0 THEN
+        RAISE EXCEPTION 'That person is already on this split';
+      END IF;
+
+      UPDATE split_participants sp
+      SET amount_owed = v_amount,
+          share_weight = v_weight,
+          status = CASE WHEN COALESCE(sp.amount_paid, 0) >= v_amount THEN 'paid' ELSE 'pending' END
+      WHERE sp.id = v_existing.id;
+
+      v_kept := v_kept || v_existing.id;
+      participant_id := v_existing.id;
+      amount_paid := COALESCE(v_existing.amount_paid, 0);
+    ELSE
+      INSERT INTO split_participants (split_id, user_id, amount_owed, amount_paid, status, share_weight)
+      VALUES (p_split_id, v_user_id, v_amount, 0, CASE WHEN v_amount = 0 THEN 'paid' ELSE 'pending' END, v_weight)
+      RETURNING id INTO participant_id;
+
+      v_kept := v_kept || participant_id;
+      amount_paid := 0;
+    END IF;
+
+    user_id := v_user_id;
+    change := 'added';
+    previous_amount_owed := 0;
+    amount_owed := v_amount;
+    RETURN NEXT;
+  END LOOP;
+
+  -- A top-up or a credit still to pay back reopens a settled split; a split
+  -- everyone has now covered exactly settles
+  UPDATE splits s
+  SET title = TRIM(p_title),
+      description = NULLIF(TRIM(p_description), ''),
+      total_amount = v_total,
+      split_type = p_split_type,
+      creator_share_weight = CASE WHEN p_split_type = 'shares' THEN p_creator_share_weight END,
+      status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM split_participants sp
+          WHERE sp.split_id = p_split_id
+            AND (sp.status <> 'paid' OR COALESCE(sp.amount_paid, 0) > sp.amount_owed)
+        ) THEN 'active'
+        ELSE 'settled'
+      END,
+      updated_at = NOW()
+  WHERE s.id = p_split_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION edit_split(UUID, TEXT, TEXT, NUMERIC, TEXT, JSONB, NUMERIC) TO authenticated;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 3. settle_participant_credit()
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- The creator records that they've paid a participant's credit back
+-- (cash, bank transfer). Brings amount_paid down to amount_owed and
+-- records the difference as a 'credit' allocation, so the share's
+-- payment history still adds up.
+
+CREATE OR REPLACE FUNCTION settle_participant_credit(
+  p_participant_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS split_participants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant split_participants%ROWTYPE;
+  v_creator_id UUID;
+  v_credit NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_participant FROM split_participants WHERE id = p_participant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant not found';
+  END IF;
+
+  SELECT creator_id INTO v_creator_id FROM splits WHERE id = v_participant.split_id;
+  IF auth.uid() IS DISTINCT FROM v_creator_id THEN
+    RAISE EXCEPTION 'Only the split creator can settle credits';
+  END IF;
+
+  v_credit := COALESCE(v_participant.amount_paid, 0) - v_participant.amount_owed;
+  IF v_credit <= 0 THEN
+    RAISE EXCEPTION 'This participant has no credit to settle';
+  END IF;
+
+  UPDATE split_participants
+  SET amount_paid = amount_owed
+  WHERE id = p_participant_id
+  RETURNING * INTO v_participant;
+
+  INSERT INTO payment_allocations (participant_id, split_id, amount, allocation_type, recorded_by, note)
+  VALUES (p_participant_id, v_participant.split_id, v_credit, 'credit', auth.uid(), NULLIF(TRIM(p_note), ''));
+
+  -- The last credit paid back settles the split
+  UPDATE splits s
+  SET status = 'settled', updated_at = NOW()
+  WHERE s.id = v_participant.split_id
+    AND s.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM split_participants sp
+      WHERE sp.split_id = s.id
+        AND (sp.status <> 'paid' OR COALESCE(sp.amount_paid, 0) > sp.amount_owed)
+    );
+
+  RETURN v_participant;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION settle_participant_credit(UUID, TEXT) TO authenticated;
@@ -0,0 +1,53 @@
+-- ═══════════════════════════════════════════════════════════════
+-- Split Shares: divide a split by weights ("Sam pays 2 shares")
+-- ═══════════════════════════════════════════════════════════════
+-- A 'shares' split gives everyone a weight (whole or decimal, e.g. 2
+-- shares, or 1.5 for an income-weighted split) and divides the total in
+-- proportion. The app works out the amounts; the weights are stored next
+-- to them so an edit starts from the same weights rather than guessing
+-- them back from rounded amounts.
+--
+-- The creator's share isn't stored as a participant row, so their weight
+-- is kept on the split (creator_share_weight). create_split()
+-- (add-atomic-split-creation.sql) and edit_split() (add-split-editing.sql)
+-- save both; switching a split to another method clears them.
+--
+-- Groups can keep default weights per member alongside
+-- default_split_type, used to fill in new splits in the group.
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 1. Store weights on splits
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE splits
+  DROP CONSTRAINT IF EXISTS splits_split_type_check;
+
+ALTER TABLE splits
+  ADD CONSTRAINT splits_split_type_check
+  CHECK (split_type IN ('equal', 'custom', 'percentage', 'shares', 'receipt'));
+
+-- Only set for 'shares' splits
+ALTER TABLE splits
+  ADD COLUMN IF NOT EXISTS creator_share_weight NUMERIC(10,4)
+    CHECK (creator_share_weight IS NULL OR creator_share_weight >= 0);
+
+ALTER TABLE split_participants
+  ADD COLUMN IF NOT EXISTS share_weight NUMERIC(10,4)
+    CHECK (share_weight IS NULL OR share_weight >= 0);
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- 2. Group default weights
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- default_share_weights maps member user IDs to their weight, e.g.
+-- { "<sam's id>": 2 }. Members not listed default to 1.
+
+ALTER TABLE groups
+  ADD COLUMN IF NOT EXISTS default_share_weights JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE groups
+  DROP CONSTRAINT IF EXISTS groups_default_split_type_check;
+
+-- Existing rows aren't checked, so old data can't block the migration
+ALTER TABLE groups
+  ADD CONSTRAINT groups_default_split_type_check
+  CHECK (default_split_type IN ('equal', 'custom', 'percentage', 'shares')) NOT VALID;
@@ -0,0 +1,103 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: Fee schedule for card payments
+// Purpose: One cent-exact fee calculation for the app and edge functions
+// ═══════════════════════════════════════════════════════════════
+// The app imports this file directly (src/services/stripeService.ts),
+// so it must stay free of Deno and React Native imports.
+//
+// Schedules are never edited once released: add a new version and point
+// CURRENT_FEE_SCHEDULE_VERSION at it, so quotes can always be explained.
+
+export interface FeeSchedule {
+  version: string;
+  currency: string;
+  stripePercentBps: number; // Card processing, in basis points of the amount
+  stripeFixedCents: number; // Card processing, fixed per transaction
+  instantPayoutPercentBps: number; // Instant payout to the receiver
+  platformFeeCents: number; // ZapSplit's fee per split payment
+  shareAmongPayers: boolean; // Split each fee equally among a split's paying participants
+}
+
+export const FEE_SCHEDULES: { [version: string]: FeeSchedule } = {
+  '2025-01': {
+    version: '2025-01',
+    currency: 'AUD',
+    stripePercentBps: 290, // 2.9%
+    stripeFixedCents: 30, // $0.30
+    instantPayoutPercentBps: 150, // 1.5%
+    platformFeeCents: 50, // $0.50
+    shareAmongPayers: true,
+  },
+};
+
+export const CURRENT_FEE_SCHEDULE_VERSION = '2025-01';
+
+export interface FeeQuote {
+  feeScheduleVersion: string;
+  currency: string;
+  participantCount: number; // Payers the fees were shared among
+  amountCents: number; // What the payer owes
+  stripeFeeCents: number; // Processing fee on the whole transaction
+  payerStripeFeeCents: number;
+  payerInstantPayoutFeeCents: number;
+  payerPlatformFeeCents: number;
+  payerFeeCents: number; // Sum of this payer's fee shares
+  totalCents: number; // What the card is charged
+  receiverPayoutCents: number; // Instant payout sent to the receiver
+}
+
+/**
+ * Look up a fee schedule by version
+ *
+ * @throws Error if the version doesn't exist
+ */
+export function getFeeSchedule(version: string = CURRENT_FEE_SCHEDULE_VERSION): FeeSchedule {
+  const schedule = FEE_SCHEDULES[version];
+  if (!schedule) throw new Error(`Unknown fee schedule: ${version}`);
+  return schedule;
+}
+
+function percentOf(amountCents: number, bps: number): number {
+  return Math.round((amountCents * bps) / 10000);
+}
+
+/**
+ * Work out what a payer is charged for paying `amountCents`
+ *
+ * Each fee is rounded to whole cents once, then this payer's share is
+ * rounded again, so the app and the server always agree to the cent.
+ *
+ * @param amountCents - Amount the payer owes, in cents
+ * @param participantCount - Paying participants on the split (1 for settle-up)
+ * @param schedule - Fee schedule to quote against
+ */
+export function quoteFees(
+  amountCents: number,
+  participantCount = 1,
+  schedule: FeeSchedule = getFeeSchedule()
+): FeeQuote {
+  const payers = schedule.shareAmongPayers ? Math.max(1, Math.floor(participantCount)) : 1;
+  const share = (cents: number) => Math.round(cents / payers);
+
+  const stripeFeeCents = percentOf(amountCents, schedule.stripePercentBps) + schedule.stripeFixedCents;
+  const instantPayoutFeeCents = percentOf(amountCents, schedule.instantPayoutPercentBps);
+
+  const payerStripeFeeCents = share(stripeFeeCents);
+  const payerInstantPayoutFeeCents = share(instantPayoutFeeCents);
+  const payerPlatformFeeCents = share(schedule.platformFeeCents);
+  const payerFeeCents = payerStripeFeeCents + payerInstantPayoutFeeCents + payerPlatformFeeCents;
+
+  return {
+    feeScheduleVersion: schedule.version,
+    currency: schedule.currency,
+    participantCount: payers,
+    amountCents,
+    stripeFeeCents,
+    payerStripeFeeCents,
+    payerInstantPayoutFeeCents,
+    payerPlatformFeeCents,
+    payerFeeCents,
+    totalCents: amountCents + payerFeeCents,
+    receiverPayoutCents: amountCents - payerStripeFeeCents,
+  };
+}
@@ -0,0 +1,37 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: In-app notifications from edge functions
+// ═══════════════════════════════════════════════════════════════
+// Mirrors createNotification() in the app's notificationService, for
+// events that only the server sees (payment provider webhooks).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type ServerNotificationType =
+  | 'payment_sent'
+  | 'payment_received'
+  | 'payment_refunded'
+  | 'payment_disputed';
+
+export async function createNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  type: ServerNotificationType,
+  title: string,
+  body: string,
+  data?: Record<string, unknown>,
+  actionUrl?: string
+): Promise<void> {
+  const { error } = await supabase.from('notifications').insert({
+    user_id: userId,
+    type,
+    title,
+    body,
+    data: data || null,
+    action_url: actionUrl || null,
+    channels: ['in_app', 'push'],
+  });
+
+  if (error) {
+    console.error('Error creating notification:', error);
+  }
+}
@@ -0,0 +1,288 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: Resolve what a card payment is for and what it costs
+// Purpose: Used by quote-payment and create-payment-intent so the
+//          quoted total is exactly what gets charged
+// ═══════════════════════════════════════════════════════════════
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getNetOutstandingCents, getPaymentRate, toCents } from './settleUp.ts';
+import { FeeQuote, quoteFees } from './feeSchedule.ts';
+
+export interface PaymentRequest {
+  splitId?: string;
+  participantId?: string;
+  amount?: number; // What to pay; split payments default to everything owed and can be any part of it
+  toUserId?: string; // Settle-up only
+  settleUp?: boolean; // Pay off the whole net balance with toUserId across every split
+}
+
+export interface ResolvedPayment {
+  fromUserId: string;
+  toUserId: string;
+  splitId: string | null; // null for settle-up
+  settleUp: boolean;
+  outstandingCents: number; // Owed before this payment
+  quote: FeeQuote;
+}
+
+export type PaymentResolution =
+  | { ok: true; payment: ResolvedPayment }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+function reject(status: number, body: Record<string, unknown>): PaymentResolution {
+  return { ok: false, status, body };
+}
+
+/**
+ * Work out who is paid, how much and with what fees for a payment by `fromUserId`
+ *
+ * Split payments can be for all or part of the payer's outstanding share
+ * (in the payment currency, at the split's snapshot rate), so a share can
+ * be paid in instalments. Settle-up payments can't exceed the current net
+ * balance between the two users.
+ */
+export async function resolvePayment(
+  supabase: SupabaseClient,
+  fromUserId: string,
+  request: PaymentRequest
+): Promise<PaymentResolution> {
+  const { splitId, participantId, amount, toUserId, settleUp = false } = request;
+
+  if (!settleUp && !splitId) {
+    return reject(400, { error: 'Missing required field: splitId' });
+  }
+
+  if (settleUp && (!toUserId || !amount)) {
+    return reject(400, { error: 'Missing required fields: toUserId, amount' });
+  }
+
+  if (amount !== undefined && !(amount > 0)) {
+    return reject(400, { error: 'Amount must be greater than 0' });
+  }
+
+  if (settleUp) {
+    if (toUserId === fromUserId) {
+      return reject(400, { error: 'You can\'t pay yourself' });
+    }
+
+    const amountCents = Math.round(amount! * 100);
+    const netOutstandingCents = await getNetOutstandingCents(supabase, fromUserId, toUserId!);
+    if (amountCents > netOutstandingCents) {
+      return reject(409, {
+        error: 'Amount exceeds the outstanding balance',
+        outstanding: (netOutstandingCents / 100).toFixed(2),
+      });
+    }
+
+    // Settle-up payments cover many splits, so the payer carries the full fee
+    return {
+      ok: true,
+      payment: {
+        fromUserId,
+        toUserId: toUserId!,
+        splitId: null,
+        settleUp,
+        outstandingCents: netOutstandingCents,
+        quote: quoteFees(amountCents, 1),
+      },
+    };
+  }
+
+  const { data: split, error: splitError } = await supabase
+    .from('splits')
+    .select('id, creator_id, status, currency, exchange_rates')
+    .eq('id', splitId)
+    .single();
+
+  if (splitError || !split) {
+    return reject(404, { error: 'Split not found' });
+  }
+
+  if (split.status === 'settled') {
+    return reject(409, { error: 'This split has already been settled' });
+  }
+
+  if (split.creator_id === fromUserId) {
+    return reject(400, { error: 'You can\'t pay yourself' });
+  }
+
+  const { data: participant } = await supabase
+    .from('split_participants')
+    .select('id, amount_owed, amount_paid, status')
+    .eq('split_id', splitId)
+    .eq('user_id', fromUserId)
+    .maybeSingle();
+
+  if (!participant || (participantId && participantId !== participant.id)) {
+    return reject(403, { error: 'You are not a participant in this split' });
+  }
+
+  // Outstanding share in the payment currency, at the split's snapshot rate
+  const outstandingCents = Math.round(
+    (toCents(participant.amount_owed) - toCents(participant.amount_paid || 0)) * getPaymentRate(split)
+  );
+
+  if (participant.status === 'paid' || outstandingCents <= 0) {
+    return reject(409, { error: 'You have already paid for this split' });
+  }
+
+  const amountCents = amount !== undefined ? Math.round(amount * 100) : outstandingCents;
+
+  if (amountCents > outstandingCents) {
+    return reject(409, {
+      error: 'Amount exceeds what you owe',
+      outstanding: (outstandingCents / 100).toFixed(2),
+    });
+  }
+
+  // Fees are shared among everyone who pays (everyone but the creator)
+  const { count: payingCount } = await supabase
+    .from('split_participants')
+    .select('*', { count: 'exact', head: true })
+    .eq('split_id', splitId)
+    .neq('user_id', split.creator_id);
+
+  return {
+    ok: true,
+    payment: {
+      fromUserId,
+      toUserId: split.creator_id,
+      splitId: splitId!,
+      settleUp,
+      outstandingCents,
+      quote: quoteFees(amountCents, payingCount || 1),
+    },
+  };
+}
+
+export interface ResolvedLinkPayment {
+  paymentLinkId: string;
+  participantId: string;
+  fromUserId: string | null; // null for participants without an account
+  toUserId: string;
+  splitId: string;
+  outstandingCents: number; // Owed before this payment
+  quote: FeeQuote;
+}
+
+export type LinkPaymentResolution =
+  | { ok: true; payment: ResolvedLinkPayment }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Work out what a payment through a participant's payment link pays for
+ *
+ * Anyone with the link can pay, signed in or not, so everything comes from
+ * the link: the participant row, the split and the amount still owed.
+ * Like split payments, it can be all or part of the outstanding share.
+ */
+export async function resolveLinkPayment(
+  supabase: SupabaseClient,
+  shortCode: string,
+  amount?: number
+): Promise<LinkPaymentResolution> {
+  if (!shortCode) {
+    return { ok: false, status: 400, body: { error: 'Missing required field: code' } };
+  }
+
+  if (amount !== undefined && !(amount > 0)) {
+    return { ok: false, status: 400, body: { error: 'Amount must be greater than 0' } };
+  }
+
+  const { data: link } = await supabase
+    .from('payment_links')
+    .select('id, split_id, participant_id, is_active, expires_at')
+    .eq('short_code', shortCode.toUpperCase())
+    .maybeSingle();
+
+  if (
+    !link?.participant_id ||
+    !link.is_active ||
+    (link.expires_at && new Date(link.expires_at) <= new Date())
+  ) {
+    return { ok: false, status: 404, body: { error: 'This payment link is invalid or has expired' } };
+  }
+
+  const { data: split, error: splitError } = await supabase
+    .from('splits')
+    .select('id, creator_id, status, currency, exchange_rates')
+    .eq('id', link.split_id)
+    .single();
+
+  if (splitError || !split) {
+    return { ok: false, status: 404, body: { error: 'Split not found' } };
+  }
+
+  if (split.status === 'settled') {
+    return { ok: false, status: 409, body: { error: 'This split has already been settled' } };
+  }
+
+  const { data: participant } = await supabase
+    .from('split_participants')
+    .select('id, user_id, amount_owed, amount_paid, status')
+    .eq('id', link.participant_id)
+    .single();
+
+  if (!participant) {
+    return { ok: false, status: 404, body: { error: 'This payment link is invalid or has expired' } };
+  }
+
+  const outstandingCents = Math.round(
+    (toCents(participant.amount_owed) - toCents(participant.amount_paid || 0)) * getPaymentRate(split)
+  );
+
+  if (participant.status === 'paid' || outstandingCents <= 0) {
+    return { ok: false, status: 409, body: { error: 'This share has already been paid' } };
+  }
+
+  const amountCents = amount !== undefined ? Math.round(amount * 100) : outstandingCents;
+
+  if (amountCents > outstandingCents) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: 'Amount exceeds what is owed', outstanding: (outstandingCents / 100).toFixed(2) },
+    };
+  }
+
+  // Fees are shared among everyone who pays, as for split payments
+  // (including participants without an account, whose user_id is null)
+  const { count: payingCount } = await supabase
+    .from('split_participants')
+    .select('*', { count: 'exact', head: true })
+    .eq('split_id', split.id)
+    .or(`user_id.is.null,user_id.neq.${split.creator_id}`);
+
+  return {
+    ok: true,
+    payment: {
+      paymentLinkId: link.id,
+      participantId: participant.id,
+      fromUserId: participant.user_id,
+      toUserId: split.creator_id,
+      splitId: split.id,
+      outstandingCents,
+      quote: quoteFees(amountCents, payingCount || 1),
+    },
+  };
+}
+
+/**
+ * Quote fields returned to the app (amounts in dollars, as strings)
+ *
+ * @param outstandingCents - Included when known, so the app can offer to pay any part of it
+ */
+export function formatQuote(quote: FeeQuote, outstandingCents?: number): Record<string, string | number> {
+  return {
+    ...(outstandingCents !== undefined && { outstanding: (outstandingCents / 100).toFixed(2) }),
+    feeScheduleVersion: quote.feeScheduleVersion,
+    currency: quote.currency,
+    participantCount: quote.participantCount,
+    amount: (quote.amountCents / 100).toFixed(2),
+    fee: (quote.payerFeeCents / 100).toFixed(2),
+    stripeFee: (quote.payerStripeFeeCents / 100).toFixed(2),
+    instantPayoutFee: (quote.payerInstantPayoutFeeCents / 100).toFixed(2),
+    platformFee: (quote.payerPlatformFeeCents / 100).toFixed(2),
+    total: (quote.totalCents / 100).toFixed(2),
+  };
+}
@@ -0,0 +1,269 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: PayTo payment provider
+// Purpose: Agreements, payment initiation and status callbacks for
+//          create-payto-payment & payto-webhook
+// ═══════════════════════════════════════════════════════════════
+// PayTo providers (Azupay, Zepto, Monoova) sit behind PayToProvider so
+// the edge functions don't depend on one provider's API. The HTTP
+// provider speaks the Azupay-style API in docs/PAYTO_INTEGRATION.md;
+// point PAYTO_API_URL at scripts/paytoSimulator.js to run the whole
+// flow locally without a bank.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type AgreementStatus = 'pending' | 'active' | 'declined' | 'cancelled';
+export type PayToPaymentStatus = 'processing' | 'settled' | 'failed';
+
+export interface CreateAgreementInput {
+  payerName: string;
+  payerEmail?: string | null;
+  payerPayId: string; // The account the payer will be debited from
+  maximumAmountCents: number; // Per payment
+  description: string;
+  clientTransactionId: string;
+}
+
+export interface AgreementResult {
+  agreementId: string;
+  status: AgreementStatus;
+  approvalUrl: string | null; // Where the payer approves it, while pending
+}
+
+export interface InitiatePaymentInput {
+  agreementId: string;
+  amountCents: number;
+  description: string;
+  recipientPayId: string;
+  clientTransactionId: string; // Our payments.id, so a retry can't pay twice
+}
+
+export interface PaymentInitiationResult {
+  paymentId: string;
+  status: PayToPaymentStatus;
+}
+
+export type PayToEvent =
+  | { type: 'agreement'; agreementId: string; status: AgreementStatus }
+  | {
+      type: 'payment';
+      paymentId: string;
+      clientTransactionId: string | null; // Our payments.id, as sent with initiatePayment
+      status: PayToPaymentStatus;
+      amountCents: number | null;
+      settledAt: string | null;
+      failureReason: string | null;
+    };
+
+export interface PayToProvider {
+  name: string;
+  createAgreement(input: CreateAgreementInput): Promise<AgreementResult>;
+  initiatePayment(input: InitiatePaymentInput): Promise<PaymentInitiationResult>;
+  /** The callback's event, or null if its signature doesn't check out */
+  parseCallback(rawBody: string, signature: string | null): Promise<PayToEvent | null>;
+}
+
+export interface HttpPayToConfig {
+  apiUrl: string;
+  apiKey: string;
+  webhookSecret: string;
+}
+
+// Header the provider signs callbacks with (hex HMAC-SHA256 of the body)
+export const SIGNATURE_HEADER = 'x-payto-signature';
+
+const AGREEMENT_STATUSES: { [status: string]: AgreementStatus } = {
+  CREATED: 'pending',
+  PENDING: 'pending',
+  ACTIVE: 'active',
+  DECLINED: 'declined',
+  REJECTED: 'declined',
+  EXPIRED: 'declined',
+  CANCELLED: 'cancelled',
+  SUSPENDED: 'cancelled',
+};
+
+const PAYMENT_STATUSES: { [status: string]: PayToPaymentStatus } = {
+  PENDING: 'processing',
+  PROCESSING: 'processing',
+  SETTLED: 'settled',
+  COMPLETED: 'settled',
+  FAILED: 'failed',
+  REJECTED: 'failed',
+  RETURNED: 'failed',
+};
+
+function toAgreementStatus(status: string): AgreementStatus {
+  const mapped = AGREEMENT_STATUSES[String(status).toUpperCase()];
+  if (!mapped) throw new Error(`Unknown PayTo agreement status: ${status}`);
+  return mapped;
+}
+
+function toPaymentStatus(status: string): PayToPaymentStatus {
+  const mapped = PAYMENT_STATUSES[String(status).toUpperCase()];
+  if (!mapped) throw new Error(`Unknown PayTo payment status: ${status}`);
+  return mapped;
+}
+
+async function hmacHex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Compare without leaking how much of the signature matched
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * PayTo provider speaking the Azupay-style REST API
+ * (POST /paymentAgreement, POST /paymentInitiation, signed JSON callbacks)
+ */
+export function createHttpPayToProvider(config: HttpPayToConfig): PayToProvider {
+  const request = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${config.apiUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: config.apiKey,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`PayTo ${path} failed (${response.status}): ${data.message || data.error || 'Unknown error'}`);
+    }
+    return data;
+  };
+
+  return {
+    name: 'payto',
+
+    async createAgreement(input) {
+      const data = await request('/paymentAgreement', {
+        payerName: input.payerName,
+        payerEmail: input.payerEmail || undefined,
+        payerId: input.payerPayId,
+        maximumAmount: Number((input.maximumAmountCents / 100).toFixed(2)),
+        frequency: 'ADHOC',
+        description: input.description,
+        clientTransactionId: input.clientTransactionId,
+      });
+
+      return {
+        agreementId: data.agreementId,
+        status: toAgreementStatus(data.status),
+        approvalUrl: data.approvalUrl || null,
+      };
+    },
+
+    async initiatePayment(input) {
+      const data = await request('/paymentInitiation', {
+        agreementId: input.agreementId,
+        amount: Number((input.amountCents / 100).toFixed(2)),
+        description: input.description,
+        recipientPayId: input.recipientPayId,
+        clientTransactionId: input.clientTransactionId,
+      });
+
+      return {
+        paymentId: data.paymentId,
+        status: toPaymentStatus(data.status),
+      };
+    },
+
+    async parseCallback(rawBody, signature) {
+      if (!signature || !timingSafeEqual(await hmacHex(config.webhookSecret, rawBody), signature.toLowerCase())) {
+        return null;
+      }
+
+      const body = JSON.parse(rawBody);
+
+      // Payment callbacks carry a paymentId; agreement callbacks only an agreementId
+      if (body.paymentId) {
+        return {
+          type: 'payment',
+          paymentId: body.paymentId,
+          clientTransactionId: body.clientTransactionId || null,
+          status: toPaymentStatus(body.status),
+          amountCents: body.amount !== undefined ? Math.round(Number(body.amount) * 100) : null,
+          settledAt: body.settledAt || null,
+          failureReason: body.failureReason || null,
+        };
+      }
+
+      return {
+        type: 'agreement',
+        agreementId: body.agreementId,
+        status: toAgreementStatus(body.status),
+      };
+    },
+  };
+}
+
+/**
+ * The payment a payment callback is about
+ *
+ * A payment can settle before initiatePayment has returned and
+ * provider_payment_id has been saved, so it is also found by the
+ * clientTransactionId it was initiated with. Throws if there is no such
+ * payment, so the webhook fails and the provider retries the callback.
+ */
+export async function findCallbackPayment<T>(
+  supabase: SupabaseClient,
+  event: Extract<PayToEvent, { type: 'payment' }>,
+  fields: string
+): Promise<T> {
+  const { data: byProviderId, error } = await supabase
+    .from('payments')
+    .select(fields)
+    .eq('provider_payment_id', event.paymentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (byProviderId) return byProviderId as T;
+
+  if (event.clientTransactionId) {
+    const { data: byId, error: idError } = await supabase
+      .from('payments')
+      .select(fields)
+      .eq('id', event.clientTransactionId)
+      .eq('payment_method', 'payto')
+      .maybeSingle();
+
+    if (idError) throw idError;
+    if (byId) return byId as T;
+  }
+
+  throw new Error(`No payment for PayTo callback: ${event.paymentId}`);
+}
+
+/**
+ * The configured PayTo provider (PAYTO_API_URL, PAYTO_API_KEY,
+ * PAYTO_WEBHOOK_SECRET)
+ */
+export function getPayToProvider(): PayToProvider {
+  const apiUrl = Deno.env.get('PAYTO_API_URL');
+  const apiKey = Deno.env.get('PAYTO_API_KEY');
+  const webhookSecret = Deno.env.get('PAYTO_WEBHOOK_SECRET');
+
+  if (!apiUrl || !apiKey || !webhookSecret) {
+    throw new Error('PayTo is not configured');
+  }
+
+  return createHttpPayToProvider({ apiUrl, apiKey, webhookSecret });
+}
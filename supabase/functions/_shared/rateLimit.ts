@@ -0,0 +1,76 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: sliding-window rate limiting for edge functions
+// ═══════════════════════════════════════════════════════════════
+// Limits live in the rate_limits table and are applied by the
+// check_rate_limit() Postgres function (see supabase/add-rate-limits.sql).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const RATE_LIMIT_ACTIONS = [
+  'api_default',
+  'receipt_scan',
+  'friend_request',
+  'split_create',
+  'payment',
+  'login',
+] as const;
+
+export type RateLimitAction = typeof RATE_LIMIT_ACTIONS[number];
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number; // Unix time in seconds
+  limit: number;
+}
+
+export function isRateLimitAction(action: unknown): action is RateLimitAction {
+  return typeof action === 'string' && (RATE_LIMIT_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * Check (and by default use up) one slot of a user's limit for an action
+ *
+ * @param supabase - Service-role client
+ * @param consume - false to report the current state without counting a request
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  action: RateLimitAction,
+  consume = true
+): Promise<RateLimitResult> {
+  const { data, error } = await supabase.rpc('check_rate_limit', {
+    p_user_id: userId,
+    p_action: action,
+    p_consume: consume,
+  });
+
+  if (error) throw error;
+
+  return {
+    allowed: data.allowed,
+    remaining: data.remaining,
+    resetAt: Number(data.reset_at),
+    limit: data.limit,
+  };
+}
+
+/**
+ * 429 response for a request that went over its limit
+ */
+export function rateLimitedResponse(result: RateLimitResult): Response {
+  const retryAfter = Math.max(0, result.resetAt - Math.floor(Date.now() / 1000));
+
+  return new Response(
+    JSON.stringify({ error: 'Rate limit exceeded', ...result }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Retry-After': String(retryAfter),
+      },
+    }
+  );
+}
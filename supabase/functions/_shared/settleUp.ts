@@ -0,0 +1,429 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared: Settle-up helpers for create-payment-intent & the payment webhooks
+// Purpose: Net and allocate payments across split_participants
+// ═══════════════════════════════════════════════════════════════
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Settle-up payments are charged in AUD; splits in other currencies are
+// converted at the rate snapshot stored on the split when it was created.
+const PAYMENT_CURRENCY = 'AUD';
+
+export interface SettleUpRow {
+  id: string;
+  split_id: string;
+  amount_owed: number;
+  amount_paid: number;
+  rate: number; // Units of PAYMENT_CURRENCY per unit of the split's currency
+  outstandingCents: number; // In PAYMENT_CURRENCY; negative for a credit the creditor owes back
+}
+
+export function toCents(amount: number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Units of PAYMENT_CURRENCY per unit of a split's currency, from the
+ * rate snapshot stored on the split
+ */
+export function getPaymentRate(split: { currency?: string | null; exchange_rates?: any }): number {
+  const currency = split.currency || PAYMENT_CURRENCY;
+  const snapshot = split.exchange_rates;
+  if (currency === PAYMENT_CURRENCY || !snapshot?.rates) return 1;
+
+  const fromRate = currency === snapshot.base ? 1 : Number(snapshot.rates[currency]);
+  const toRate = PAYMENT_CURRENCY === snapshot.base ? 1 : Number(snapshot.rates[PAYMENT_CURRENCY]);
+  if (!fromRate || !toRate) return 1;
+
+  return toRate / fromRate;
+}
+
+function toSettleUpRow(participant: any, rate: number): SettleUpRow {
+  return {
+    id: participant.id,
+    split_id: participant.split_id,
+    amount_owed: Number(participant.amount_owed),
+    amount_paid: Number(participant.amount_paid || 0),
+    rate,
+    outstandingCents: Math.round((toCents(participant.amount_owed) - toCents(participant.amount_paid || 0)) * rate),
+  };
+}
+
+/**
+ * Get every participant row with a balance between `debtorId` and
+ * `creditorId` on `creditorId`'s active splits, oldest split first.
+ *
+ * Rows where the debtor has paid more than they owe (a credit left by an
+ * edit or an overpayment) are included with a negative outstandingCents.
+ */
+export async function getSettleUpRows(
+  supabase: SupabaseClient,
+  debtorId: string,
+  creditorId: string
+): Promise<SettleUpRow[]> {
+  const { data: splits, error: splitsError } = await supabase
+    .from('splits')
+    .select('id, created_at, currency, exchange_rates')
+    .eq('creator_id', creditorId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: true });
+
+  if (splitsError) throw splitsError;
+  if (!splits || splits.length === 0) return [];
+
+  const { data: participants, error: participantsError } = await supabase
+    .from('split_participants')
+    .select('id, split_id, amount_owed, amount_paid')
+    .eq('user_id', debtorId)
+    .in('split_id', splits.map((s: any) => s.id));
+
+  if (participantsError) throw participantsError;
+
+  const splitOrder = new Map(splits.map((s: any, index: number) => [s.id, index]));
+  const splitRates = new Map(splits.map((s: any) => [s.id, getPaymentRate(s)]));
+
+  return (participants || [])
+    .map((p: any) => toSettleUpRow(p, splitRates.get(p.split_id) || 1))
+    .filter((row: SettleUpRow) => row.outstandingCents !== 0)
+    .sort((a: SettleUpRow, b: SettleUpRow) =>
+      (splitOrder.get(a.split_id) as number) - (splitOrder.get(b.split_id) as number)
+    );
+}
+
+/**
+ * Net amount (in cents) that `fromUserId` owes `toUserId` across all
+ * active splits, after offsetting what `toUserId` owes back. Credits
+ * count for whoever is owed them.
+ */
+export async function getNetOutstandingCents(
+  supabase: SupabaseClient,
+  fromUserId: string,
+  toUserId: string
+): Promise<number> {
+  const [forward, reverse] = await Promise.all([
+    getSettleUpRows(supabase, fromUserId, toUserId),
+    getSettleUpRows(supabase, toUserId, fromUserId),
+  ]);
+
+  const sum = (rows: SettleUpRow[]) => rows.reduce((total, row) => total + row.outstandingCents, 0);
+  return Math.max(0, sum(forward) - sum(reverse));
+}
+
+interface AllocationResult {
+  already_allocated: boolean;
+  split_ids: string[];
+  credit_cents: number;
+}
+
+const toAllocationRow = (row: SettleUpRow) => ({
+  participant_id: row.id,
+  rate: row.rate,
+  credit: row.outstandingCents < 0,
+});
+
+/**
+ * Apply a payment to participant rows with allocate_payment(), which
+ * locks them, re-checks what is outstanding and records each allocation
+ * in one transaction. Anything left once every row is paid stays on
+ * `creditRow` as a credit. Returns the ids of every split that was touched.
+ */
+async function allocatePayment(
+  supabase: SupabaseClient,
+  paymentId: string | null,
+  amountCents: number,
+  rows: SettleUpRow[],
+  offsetRows: SettleUpRow[],
+  creditRow: SettleUpRow | null,
+  paymentMethod: string
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc('allocate_payment', {
+    p_payment_id: paymentId,
+    p_amount_cents: amountCents,
+    p_rows: rows.map(toAllocationRow),
+    p_offset_rows: offsetRows.map(toAllocationRow),
+    p_credit_row: creditRow ? { participant_id: creditRow.id, rate: creditRow.rate } : null,
+    p_payment_method: paymentMethod,
+  });
+
+  if (error) throw error;
+
+  const result = data as AllocationResult;
+  if (result.already_allocated) {
+    console.log('Payment already allocated:', paymentId);
+    return [];
+  }
+
+  if (result.credit_cents > 0) {
+    if (creditRow) {
+      console.warn('Payment was more than was outstanding; kept as a credit:', paymentId, result.credit_cents, creditRow.id);
+    } else {
+      console.error('Payment was more than was outstanding and has no share to credit:', paymentId, result.credit_cents);
+    }
+  }
+
+  return result.split_ids;
+}
+
+/**
+ * The payer's share on the most recent of the payee's splits, to hold
+ * any overpayment when nothing is outstanding between them any more
+ */
+async function getLatestSettleUpRow(
+  supabase: SupabaseClient,
+  debtorId: string,
+  creditorId: string
+): Promise<SettleUpRow | null> {
+  const { data: splits, error: splitsError } = await supabase
+    .from('splits')
+    .select('id, currency, exchange_rates')
+    .eq('creator_id', creditorId)
+    .order('created_at', { ascending: false });
+
+  if (splitsError) throw splitsError;
+  if (!splits || splits.length === 0) return null;
+
+  const { data: participants, error: participantsError } = await supabase
+    .from('split_participants')
+    .select('id, split_id, amount_owed, amount_paid')
+    .eq('user_id', debtorId)
+    .in('split_id', splits.map((s: any) => s.id));
+
+  if (participantsError) throw participantsError;
+
+  for (const split of splits) {
+    const participant = (participants || []).find((p: any) => p.split_id === split.id);
+    if (participant) return toSettleUpRow(participant, getPaymentRate(split));
+  }
+
+  return null;
+}
+
+/**
+ * Allocate a settle-up payment back across the underlying participant rows.
+ *
+ * What `toUserId` owes `fromUserId` (their unpaid shares and the payer's
+ * credits) is cleared first as an offset: that is how the net amount was
+ * computed. The cash payment plus that offset is then applied to what
+ * `fromUserId` owes `toUserId` (their unpaid shares, then the payee's
+ * credits), oldest split first, and anything left over (e.g. a settle-up
+ * paid twice) is kept as a credit on the payer's newest share. Returns
+ * the ids of every split that was touched.
+ */
+export async function allocateSettleUpPayment(
+  supabase: SupabaseClient,
+  fromUserId: string,
+  toUserId: string,
+  amountCents: number,
+  paymentId: string | null,
+  paymentMethod = 'stripe'
+): Promise<string[]> {
+  const forward = await getSettleUpRows(supabase, fromUserId, toUserId);
+  const reverse = await getSettleUpRows(supabase, toUserId, fromUserId);
+
+  const owed = forward.filter(row => row.outstandingCents > 0);
+  const payerOwes = [...owed, ...reverse.filter(row => row.outstandingCents < 0)];
+  const payeeOwes = [...reverse.filter(row => row.outstandingCents > 0), ...forward.filter(row => row.outstandingCents < 0)];
+  const creditRow = owed.length > 0
+    ? owed[owed.length - 1]
+    : await getLatestSettleUpRow(supabase, fromUserId, toUserId);
+
+  return allocatePayment(supabase, paymentId, amountCents, payerOwes, payeeOwes, creditRow, paymentMethod);
+}
+
+async function applyToParticipant(
+  supabase: SupabaseClient,
+  participant: any,
+  amountCents: number,
+  paymentId: string | null,
+  paymentMethod: string
+): Promise<string[]> {
+  const { data: split, error } = await supabase
+    .from('splits')
+    .select('currency, exchange_rates')
+    .eq('id', participant.split_id)
+    .single();
+
+  if (error) throw error;
+
+  // A payment that raced another one for the share stays on it as a credit
+  const row = toSettleUpRow(participant, getPaymentRate(split));
+  return allocatePayment(supabase, paymentId, amountCents, [row], [], row, paymentMethod);
+}
+
+/**
+ * Apply a payment for one split to the payer's participant row.
+ *
+ * The payment can be any part of what's outstanding (an instalment); the
+ * row is only marked paid once nothing is left. Returns the ids of every
+ * split that was touched.
+ */
+export async function allocateSplitPayment(
+  supabase: SupabaseClient,
+  fromUserId: string,
+  splitId: string,
+  amountCents: number,
+  paymentId: string | null,
+  paymentMethod = 'stripe'
+): Promise<string[]> {
+  const { data: participant } = await supabase
+    .from('split_participants')
+    .select('id, split_id, amount_owed, amount_paid')
+    .eq('split_id', splitId)
+    .eq('user_id', fromUserId)
+    .maybeSingle();
+
+  if (!participant) {
+    console.error('No participant row for split payment:', splitId, fromUserId);
+    return [];
+  }
+
+  return applyToParticipant(supabase, participant, amountCents, paymentId, paymentMethod);
+}
+
+/**
+ * Apply a payment made through a participant's payment link to that row.
+ *
+ * Whoever paid, it's the row the link was for; it may belong to someone
+ * without an account. Returns the ids of every split that was touched
+ * (none if the row no longer exists).
+ */
+export async function allocateParticipantPayment(
+  supabase: SupabaseClient,
+  participantId: string,
+  amountCents: number,
+  paymentId: string | null,
+  paymentMethod = 'stripe'
+): Promise<string[]> {
+  const { data: participant } = await supabase
+    .from('split_participants')
+    .select('id, split_id, amount_owed, amount_paid')
+    .eq('id', participantId)
+    .maybeSingle();
+
+  if (!participant) {
+    console.error('No participant row for link payment:', participantId);
+    return [];
+  }
+
+  return applyToParticipant(supabase, participant, amountCents, paymentId, paymentMethod);
+}
+
+export interface CompletedPayment {
+  id: string | null;
+  fromUserId: string | null; // null for link payments by someone without an account
+  toUserId: string;
+  splitId: string | null;
+  participantId?: string | null; // Set for payments through a participant's payment link
+  settleUp: boolean;
+}
+
+/**
+ * Allocate a payment the provider has confirmed to the participant rows
+ * it pays for, then settle any split that is now fully paid.
+ *
+ * Shared by stripe-webhook and payto-webhook so a share is paid off the
+ * same way whichever rail the money came through. Does nothing if the
+ * payment was already allocated.
+ *
+ * @param amountCents - What the payer owed, in PAYMENT_CURRENCY (no fees)
+ */
+export async function applyCompletedPayment(
+  supabase: SupabaseClient,
+  payment: CompletedPayment,
+  amountCents: number,
+  paymentMethod = 'stripe'
+): Promise<void> {
+  if (payment.id && await isPaymentAllocated(supabase, payment.id)) {
+    console.log('Payment already allocated:', payment.id);
+    return;
+  }
+
+  // Participant link payments pay the row the link was for
+  if (payment.participantId) {
+    await allocateParticipantPayment(supabase, payment.participantId, amountCents, payment.id, paymentMethod);
+    return;
+  }
+
+  if (!payment.fromUserId) {
+    console.error('Completed payment has no payer or participant:', payment.id);
+    return;
+  }
+
+  // Settle-up payments cover many splits: allocate oldest first
+  if (payment.settleUp) {
+    await allocateSettleUpPayment(supabase, payment.fromUserId, payment.toUserId, amountCents, payment.id, paymentMethod);
+    return;
+  }
+
+  // Split payments can be an instalment: add it to what the participant has paid
+  if (payment.splitId) {
+    await allocateSplitPayment(supabase, payment.fromUserId, payment.splitId, amountCents, payment.id, paymentMethod);
+  }
+}
+
+/**
+ * True once a payment has been allocated to participant rows, so a
+ * webhook Stripe delivers again doesn't count the money twice
+ */
+export async function isPaymentAllocated(
+  supabase: SupabaseClient,
+  paymentId: string
+): Promise<boolean> {
+  const { count } = await supabase
+    .from('payment_allocations')
+    .select('id', { count: 'exact', head: true })
+    .eq('payment_id', paymentId);
+
+  return (count || 0) > 0;
+}
+
+/**
+ * Take a refunded (or charged back) card payment back off the participant
+ * rows it was allocated to.
+ *
+ * Shares paid most recently are reversed first, and only what is still
+ * allocated after earlier reversals can be taken back. The
+ * reverse_payment_allocations RPC does it under the payment's lock, so a
+ * payment or refund running at the same time can't overwrite amount_paid;
+ * each reversal is recorded as a `reversalType` allocation against the
+ * same payment, and any split that was settled is reopened. Returns the
+ * ids of every split that was touched.
+ *
+ * @param amountCents - Amount to take back, in PAYMENT_CURRENCY
+ */
+export async function reversePaymentAllocations(
+  supabase: SupabaseClient,
+  paymentId: string,
+  amountCents: number,
+  reversalType: 'refund' | 'chargeback'
+): Promise<string[]> {
+  const { data: allocations, error } = await supabase
+    .from('payment_allocations')
+    .select('split_id')
+    .eq('payment_id', paymentId);
+
+  if (error) throw error;
+
+  const splitIds = Array.from(new Set((allocations || []).map((allocation: any) => allocation.split_id)));
+  if (splitIds.length === 0) return [];
+
+  const { data: splits } = await supabase
+    .from('splits')
+    .select('id, currency, exchange_rates')
+    .in('id', splitIds);
+
+  const rates: { [splitId: string]: number } = {};
+  (splits || []).forEach((split: any) => {
+    rates[split.id] = getPaymentRate(split);
+  });
+
+  const { data, error: reverseError } = await supabase.rpc('reverse_payment_allocations', {
+    p_payment_id: paymentId,
+    p_amount_cents: amountCents,
+    p_reversal_type: reversalType,
+    p_rates: rates,
+  });
+
+  if (reverseError) throw reverseError;
+  return (data as string[]) || [];
+}
@@ -0,0 +1,200 @@
+// ═══════════════════════════════════════════════════════════════
+// Supabase Edge Function: create-link-payment-intent
+// Purpose: Create a Stripe PaymentIntent for a participant payment link
+// ═══════════════════════════════════════════════════════════════
+// Called by the web payment page, where the payer may not have an account
+// (participants added by name, email or phone). The link decides who is
+// paying and how much is owed; the payer only chooses how much of it to
+// pay. The payment is recorded against the participant row, which
+// stripe-webhook marks paid once the charge succeeds.
+// Repeated requests for the same charge return the same PaymentIntent.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno';
+import { formatQuote, resolveLinkPayment } from '../_shared/payment.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// PaymentIntents the payer can still complete on the payment page
+const OPEN_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+serve(async (req) => {
+  try {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST',
+          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+        },
+      });
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // code is the link's short code; email is where Stripe sends the receipt
+    const { code, amount, email, quotedTotal } = await req.json();
+
+    const resolution = await resolveLinkPayment(supabase, code, amount);
+    if (!resolution.ok) {
+      return jsonResponse(resolution.body, resolution.status);
+    }
+
+    const { paymentLinkId, participantId, fromUserId, toUserId, splitId, quote } = resolution.payment;
+
+    if (quotedTotal !== undefined && Math.round(Number(quotedTotal) * 100) !== quote.totalCents) {
+      return jsonResponse({ error: 'The payment total has changed', quote: formatQuote(quote) }, 409);
+    }
+
+    const { data: receiver, error: receiverError } = await supabase
+      .from('profiles')
+      .select('stripe_connect_account_id, stripe_connect_onboarding_complete, full_name')
+      .eq('id', toUserId)
+      .single();
+
+    if (receiverError || !receiver) {
+      return jsonResponse({ error: 'Receiver not found' }, 404);
+    }
+
+    // The page falls back to get_payment_link_payout_method() for direct transfers
+    if (!receiver.stripe_connect_account_id || !receiver.stripe_connect_onboarding_complete) {
+      return jsonResponse({
+        error: 'Receiver has not set up their payment account yet',
+        receiverName: receiver.full_name,
+      }, 400);
+    }
+
+    const payerTotal = quote.totalCents;
+
+    const buildResponse = (intent: Stripe.PaymentIntent, paymentId: string | undefined) =>
+      jsonResponse({
+        clientSecret: intent.client_secret,
+        paymentIntentId: intent.id,
+        paymentId,
+        ...formatQuote(quote, resolution.payment.outstandingCents),
+      });
+
+    // Earlier card payments for this share: reuse an open one for the same
+    // amount, refuse while one is being processed, cancel the rest
+    const { data: earlierPayments, error: earlierError } = await supabase
+      .from('payments')
+      .select('id, status, stripe_payment_intent_id')
+      .eq('participant_id', participantId)
+      .eq('payment_method', 'stripe')
+      .order('created_at', { ascending: false });
+
+    if (earlierError) throw earlierError;
+
+    for (const payment of earlierPayments || []) {
+      if (payment.status !== 'pending' || !payment.stripe_payment_intent_id) continue;
+
+      const intent = await stripe.paymentIntents.retrieve(payment.stripe_payment_intent_id);
+
+      if (intent.status === 'processing' || intent.status === 'succeeded') {
+        return jsonResponse({ error: 'A payment for this share is already being processed' }, 409);
+      }
+
+      if (OPEN_INTENT_STATUSES.includes(intent.status)) {
+        if (intent.amount === payerTotal) {
+          return buildResponse(intent, payment.id);
+        }
+        await stripe.paymentIntents.cancel(intent.id);
+        await supabase.from('payments').update({ status: 'cancelled' }).eq('id', payment.id);
+      }
+    }
+
+    // Destination charge, as for in-app payments
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: payerTotal,
+        currency: 'aud',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        ...(email && { receipt_email: email }),
+        application_fee_amount: quote.payerPlatformFeeCents, // ZapSplit keeps the platform fee portion
+        transfer_data: {
+          destination: receiver.stripe_connect_account_id,
+        },
+        metadata: {
+          splitId,
+          settleUp: 'false',
+          participantId,
+          paymentLinkId,
+          fromUserId: fromUserId || '',
+          toUserId,
+          originalAmount: (quote.amountCents / 100).toString(),
+          instantPayoutAmount: quote.receiverPayoutCents.toString(), // Amount receiver gets (in cents)
+          connectedAccountId: receiver.stripe_connect_account_id,
+          participantCount: quote.participantCount.toString(),
+          feeScheduleVersion: quote.feeScheduleVersion,
+        },
+        description: `Payment for Split #${splitId.substring(0, 8)}`,
+      },
+      {
+        idempotencyKey: `link-payment:${participantId}:${payerTotal}:${earlierPayments?.length || 0}`,
+      }
+    );
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        split_id: splitId,
+        from_user_id: fromUserId,
+        to_user_id: toUserId,
+        participant_id: participantId,
+        payment_link_id: paymentLinkId,
+        payer_email: email || null,
+        amount: quote.amountCents / 100,
+        stripe_fee_amount: (quote.stripeFeeCents / 100).toFixed(2),
+        payment_method: 'stripe',
+        stripe_payment_intent_id: paymentIntent.id,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (paymentError) {
+      // A concurrent request for the same intent already recorded it
+      if (paymentError.code === '23505') {
+        const { data: recorded } = await supabase
+          .from('payments')
+          .select('id')
+          .eq('stripe_payment_intent_id', paymentIntent.id)
+          .single();
+        return buildResponse(paymentIntent, recorded?.id);
+      }
+
+      console.error('Failed to create payment record:', paymentError);
+      // Continue anyway - the webhook allocates from the intent's metadata
+    }
+
+    return buildResponse(paymentIntent, payment?.id);
+  } catch (error: any) {
+    console.error('Error creating link payment intent:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
@@ -2,10 +2,17 @@
 // Supabase Edge Function: create-payment-intent
 // Purpose: Create a Stripe PaymentIntent for peer-to-peer payment
 // ═══════════════════════════════════════════════════════════════
+// The payer is always the signed-in caller and the amount is checked
+// here against their participant row, never taken on trust from the app.
+// Split payments can be any part of what's owed (an instalment).
+// Fees come from the shared fee schedule, and a quotedTotal from
+// quote-payment must still match or the charge is refused.
+// Repeated requests for the same charge return the same PaymentIntent.
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno';
+import { formatQuote, resolvePayment } from '../_shared/payment.ts';
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
   apiVersion: '2023-10-16',
@@ -15,6 +22,78 @@ const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
+// PaymentIntents the payer can still complete from the payment sheet
+const OPEN_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+interface PaymentKey {
+  fromUserId: string;
+  toUserId: string;
+  splitId: string | null; // null for settle-up
+}
+
+interface ExistingIntents {
+  open: { intent: Stripe.PaymentIntent; paymentId: string } | null;
+  inFlight: boolean; // A payment has been submitted and is waiting on the webhook
+  attempts: number;
+}
+
+/**
+ * Look at earlier PaymentIntents for the same payer, receiver and split
+ *
+ * An open intent for the same amount is reused, so a double tap shows the
+ * same payment sheet. Open intents for a different amount (what's owed
+ * has changed since) are cancelled so they can never be paid.
+ */
+async function getExistingIntents(
+  supabase: SupabaseClient,
+  key: PaymentKey,
+  amountCents: number
+): Promise<ExistingIntents> {
+  let query = supabase
+    .from('payments')
+    .select('id, status, stripe_payment_intent_id')
+    .eq('from_user_id', key.fromUserId)
+    .eq('to_user_id', key.toUserId)
+    .eq('payment_method', 'stripe')
+    .order('created_at', { ascending: false });
+
+  query = key.splitId ? query.eq('split_id', key.splitId) : query.is('split_id', null);
+
+  const { data: payments, error } = await query;
+  if (error) throw error;
+
+  const result: ExistingIntents = { open: null, inFlight: false, attempts: payments?.length || 0 };
+
+  for (const payment of payments || []) {
+    if (payment.status !== 'pending' || !payment.stripe_payment_intent_id) continue;
+
+    const intent = await stripe.paymentIntents.retrieve(payment.stripe_payment_intent_id);
+
+    if (intent.status === 'processing' || intent.status === 'succeeded') {
+      result.inFlight = true;
+    } else if (OPEN_INTENT_STATUSES.includes(intent.status)) {
+      if (intent.amount === amountCents && !result.open) {
+        result.open = { intent, paymentId: payment.id };
+      } else {
+        await stripe.paymentIntents.cancel(intent.id);
+        await supabase.from('payments').update({ status: 'cancelled' }).eq('id', payment.id);
+      }
+    }
+  }
+
+  return result;
+}
+
 serve(async (req) => {
   try {
     // Handle CORS preflight
@@ -36,26 +115,35 @@ serve(async (req) => {
       });
     }
 
-    // Get request body
-    const { fromUserId, toUserId, amount, splitId, participantCount = 1 } = await req.json();
+    // Initialize Supabase client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Validate input
-    if (!fromUserId || !toUserId || !amount || !splitId) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: fromUserId, toUserId, amount, splitId' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    // The payer is whoever is signed in, never a user ID from the body
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
     }
 
-    if (amount <= 0) {
-      return new Response(
-        JSON.stringify({ error: 'Amount must be greater than 0' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    const fromUserId = user.id;
+
+    // Get request body
+    // quotedTotal is the total the app displayed (from quote-payment)
+    const { quotedTotal, ...request } = await req.json();
+
+    const resolution = await resolvePayment(supabase, fromUserId, request);
+    if (!resolution.ok) {
+      return jsonResponse(resolution.body, resolution.status);
     }
 
-    // Initialize Supabase client
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { toUserId, splitId, settleUp, quote } = resolution.payment;
+
+    if (quotedTotal !== undefined && Math.round(Number(quotedTotal) * 100) !== quote.totalCents) {
+      return jsonResponse({ error: 'The payment total has changed', quote: formatQuote(quote) }, 409);
+    }
 
     // Get payer's profile (to check Stripe customer ID)
     const { data: payer, error: payerError } = await supabase
@@ -65,10 +153,7 @@ serve(async (req) => {
       .single();
 
     if (payerError || !payer) {
-      return new Response(
-        JSON.stringify({ error: 'Payer not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Payer not found' }, 404);
     }
 
     // Get receiver's profile (to check Stripe Connect account)
@@ -79,34 +164,60 @@ serve(async (req) => {
       .single();
 
     if (receiverError || !receiver) {
-      return new Response(
-        JSON.stringify({ error: 'Receiver not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Receiver not found' }, 404);
     }
 
     // Check if receiver has completed Stripe onboarding
     if (!receiver.stripe_connect_account_id || !receiver.stripe_connect_onboarding_complete) {
-      return new Response(
-        JSON.stringify({
-          error: 'Receiver has not set up their payment account yet',
-          receiverName: receiver.full_name
-        }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({
+        error: 'Receiver has not set up their payment account yet',
+        receiverName: receiver.full_name,
+      }, 400);
+    }
+
+    const payerTotal = quote.totalCents;
+
+    const paymentKey: PaymentKey = { fromUserId, toUserId, splitId };
+    const existing = await getExistingIntents(supabase, paymentKey, payerTotal);
+
+    // Until the webhook has allocated it, a payment in flight isn't reflected in
+    // the outstanding balance, so another one now could pay the same money twice
+    if (existing.inFlight) {
+      return jsonResponse({
+        error: settleUp
+          ? 'Your last settle-up payment is still being processed'
+          : 'Your payment for this split is already being processed',
+      }, 409);
+    }
+
+    const buildResponse = (intent: Stripe.PaymentIntent, paymentId: string | undefined) =>
+      jsonResponse({
+        clientSecret: intent.client_secret,
+        paymentIntentId: intent.id,
+        paymentId,
+        ...formatQuote(quote),
+        instantPayout: true,
+      });
+
+    // Double tap or retry: hand back the intent that's already open
+    if (existing.open) {
+      return buildResponse(existing.open.intent, existing.open.paymentId);
     }
 
     // Create or get Stripe customer for payer
     let customerId = payer.stripe_customer_id;
 
     if (!customerId) {
-      const customer = await stripe.customers.create({
-        email: payer.email,
-        name: payer.full_name,
-        metadata: {
-          userId: fromUserId,
+      const customer = await stripe.customers.create(
+        {
+          email: payer.email,
+          name: payer.full_name,
+          metadata: {
+            userId: fromUserId,
+          },
         },
-      });
+        { idempotencyKey: `customer:${fromUserId}` }
+      );
       customerId = customer.id;
 
       // Update profile with customer ID
@@ -116,63 +227,40 @@ serve(async (req) => {
         .eq('id', fromUserId);
     }
 
-    // Get the actual paying participant count (exclude the creator)
-    const { data: splitData } = await supabase
-      .from('splits')
-      .select('creator_id')
-      .eq('id', splitId)
-      .single();
-
-    let actualParticipantCount = participantCount;
-    if (splitData?.creator_id) {
-      const { count: payingCount } = await supabase
-        .from('split_participants')
-        .select('*', { count: 'exact', head: true })
-        .eq('split_id', splitId)
-        .neq('user_id', splitData.creator_id);
-      if (payingCount && payingCount > 0) {
-        actualParticipantCount = payingCount;
-      }
-    }
-
-    // Calculate fees — all fees split equally among paying participants
-    // 1. Stripe processing fee: 2.9% + $0.30 AUD per transaction
-    // 2. Instant payout fee: 1.5% per transaction
-    // 3. Platform fee: $0.50 AUD total (ZapSplit's revenue)
-    const amountCents = Math.round(amount * 100);
-    const stripeFee = Math.round(amount * 0.029 * 100 + 30); // 2.9% + $0.30 in cents
-    const instantPayoutFee = Math.round(amountCents * 0.015); // 1.5% for instant payout
-    const platformFeeCents = Math.round(50 / actualParticipantCount); // $0.50 split among paying participants
-    const payerStripeFee = Math.round(stripeFee / actualParticipantCount); // This payer's share of Stripe fee
-    const payerInstantFee = Math.round(instantPayoutFee / actualParticipantCount); // This payer's share of instant fee
-
-    const payerTotal = amountCents + payerStripeFee + payerInstantFee + platformFeeCents;
-    const applicationFee = platformFeeCents; // ZapSplit keeps the platform fee portion
-
     // Create PaymentIntent with destination charge
     // Enable automatic_payment_methods to support Apple Pay, Google Pay, and cards
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: payerTotal,
-      currency: 'aud',
-      customer: customerId,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      application_fee_amount: applicationFee,
-      transfer_data: {
-        destination: receiver.stripe_connect_account_id,
-      },
-      metadata: {
-        splitId,
-        fromUserId,
-        toUserId,
-        originalAmount: amount.toString(),
-        instantPayoutAmount: (amountCents - payerStripeFee).toString(), // Amount receiver gets (in cents)
-        connectedAccountId: receiver.stripe_connect_account_id,
-        participantCount: participantCount.toString(),
+    // Concurrent requests share the idempotency key, so Stripe returns one intent for both
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: payerTotal,
+        currency: 'aud',
+        customer: customerId,
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        application_fee_amount: quote.payerPlatformFeeCents, // ZapSplit keeps the platform fee portion
+        transfer_data: {
+          destination: receiver.stripe_connect_account_id,
+        },
+        metadata: {
+          splitId: splitId || '',
+          settleUp: settleUp ? 'true' : 'false',
+          fromUserId,
+          toUserId,
+          originalAmount: (quote.amountCents / 100).toString(),
+          instantPayoutAmount: quote.receiverPayoutCents.toString(), // Amount receiver gets (in cents)
+          connectedAccountId: receiver.stripe_connect_account_id,
+          participantCount: quote.participantCount.toString(),
+          feeScheduleVersion: quote.feeScheduleVersion,
+        },
+        description: settleUp
+          ? `Settle up with ${receiver.full_name}`
+          : `Payment for Split #${splitId!.substring(0, 8)}`,
       },
-      description: `Payment for Split #${splitId.substring(0, 8)}`,
-    });
+      {
+        idempotencyKey: `payment:${fromUserId}:${settleUp ? toUserId : splitId}:${payerTotal}:${existing.attempts}`,
+      }
+    );
 
     // Create payment record in database
     const { data: payment, error: paymentError } = await supabase
@@ -181,8 +269,8 @@ serve(async (req) => {
         split_id: splitId,
         from_user_id: fromUserId,
         to_user_id: toUserId,
-        amount: amount,
-        stripe_fee_amount: (stripeFee / 100).toFixed(2),
+        amount: quote.amountCents / 100,
+        stripe_fee_amount: (quote.stripeFeeCents / 100).toFixed(2),
         payment_method: 'stripe',
         stripe_payment_intent_id: paymentIntent.id,
         status: 'pending',
@@ -191,41 +279,24 @@ serve(async (req) => {
       .single();
 
     if (paymentError) {
+      // A concurrent request for the same intent already recorded it
+      if (paymentError.code === '23505') {
+        const { data: recorded } = await supabase
+          .from('payments')
+          .select('id')
+          .eq('stripe_payment_intent_id', paymentIntent.id)
+          .single();
+        return buildResponse(paymentIntent, recorded?.id);
+      }
+
       console.error('Failed to create payment record:', paymentError);
       // Continue anyway - webhook will create it later if needed
     }
 
     // Return client secret for frontend
-    const totalFee = payerStripeFee + payerInstantFee + platformFeeCents;
-    return new Response(
-      JSON.stringify({
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id,
-        paymentId: payment?.id,
-        amount: (payerTotal / 100).toFixed(2),
-        fee: (totalFee / 100).toFixed(2),
-        platformFee: (platformFeeCents / 100).toFixed(2),
-        instantPayout: true,
-      }),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    return buildResponse(paymentIntent, payment?.id);
   } catch (error: any) {
     console.error('Error creating payment intent:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Internal server error' }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
   }
 });
@@ -0,0 +1,300 @@
+// ═══════════════════════════════════════════════════════════════
+// Supabase Edge Function: create-payto-payment
+// Purpose: Pay a participant's share straight from their bank (PayTo)
+// ═══════════════════════════════════════════════════════════════
+// The payer and amount are checked exactly as for card payments
+// (resolvePayment), but there are no card fees: the payer is debited
+// what they owe and the receiver's PayID gets all of it.
+//
+// Payments run against the payer's PayTo agreement. The first time, an
+// agreement is created and the app sends the payer to approvalUrl; the
+// payment waits as 'pending' and payto-webhook initiates it once the
+// agreement is active. The share is only marked paid when the provider
+// reports the payment settled.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolvePayment } from '../_shared/payment.ts';
+import { getPayToProvider, PayToProvider } from '../_shared/payto.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Most a new agreement lets ZapSplit take per payment, unless the share is bigger
+const DEFAULT_AGREEMENT_MAXIMUM_CENTS = 50000; // $500
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+interface Agreement {
+  id: string;
+  provider_agreement_id: string;
+  maximum_amount: number;
+  status: string;
+  approval_url: string | null;
+}
+
+const AGREEMENT_FIELDS = 'id, provider_agreement_id, maximum_amount, status, approval_url';
+
+interface InFlightPayment {
+  id: string;
+  amount: number;
+  status: string;
+  agreement: Pick<Agreement, 'approval_url'> | null;
+}
+
+/**
+ * The payer's newest agreement that can cover `amountCents`, whether
+ * active or still waiting for approval
+ */
+async function findAgreement(
+  supabase: SupabaseClient,
+  provider: PayToProvider,
+  userId: string,
+  amountCents: number
+): Promise<Agreement | null> {
+  const { data: agreements, error } = await supabase
+    .from('payment_agreements')
+    .select(AGREEMENT_FIELDS)
+    .eq('user_id', userId)
+    .eq('provider', provider.name)
+    .in('status', ['active', 'pending'])
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (agreements || []).find(
+    (agreement: Agreement) => Math.round(Number(agreement.maximum_amount) * 100) >= amountCents
+  ) || null;
+}
+
+async function createAgreement(
+  supabase: SupabaseClient,
+  provider: PayToProvider,
+  payer: { id: string; full_name: string; email: string | null },
+  payerPayId: string,
+  amountCents: number
+): Promise<Agreement> {
+  const maximumAmountCents = Math.max(DEFAULT_AGREEMENT_MAXIMUM_CENTS, amountCents);
+  const created = await provider.createAgreement({
+    payerName: payer.full_name,
+    payerEmail: payer.email,
+    payerPayId,
+    maximumAmountCents,
+    description: 'ZapSplit payments',
+    clientTransactionId: crypto.randomUUID(),
+  });
+
+  const { data: agreement, error } = await supabase
+    .from('payment_agreements')
+    .insert({
+      user_id: payer.id,
+      provider: provider.name,
+      provider_agreement_id: created.agreementId,
+      payer_payid: payerPayId,
+      maximum_amount: maximumAmountCents / 100,
+      status: created.status,
+      approval_url: created.approvalUrl,
+    })
+    .select(AGREEMENT_FIELDS)
+    .single();
+
+  if (error || !agreement) throw error || new Error('Failed to save payment agreement');
+
+  return agreement;
+}
+
+serve(async (req) => {
+  try {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST',
+          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+        },
+      });
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Initialize Supabase client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The payer is whoever is signed in, never a user ID from the body
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Get request body
+    // payerPayId is only needed the first time, if the payer's profile has no PayID
+    const { splitId, participantId, amount, payerPayId } = await req.json();
+
+    // PayTo pays one share at a time; settle-up stays on cards for now
+    const resolution = await resolvePayment(supabase, user.id, { splitId, participantId, amount });
+    if (!resolution.ok) {
+      return jsonResponse(resolution.body, resolution.status);
+    }
+
+    const { toUserId, quote } = resolution.payment;
+    const amountCents = quote.amountCents;
+
+    const { data: payer, error: payerError } = await supabase
+      .from('profiles')
+      .select('id, full_name, email, payid, phone_number')
+      .eq('id', user.id)
+      .single();
+
+    if (payerError || !payer) {
+      return jsonResponse({ error: 'Payer not found' }, 404);
+    }
+
+    const { data: receiver, error: receiverError } = await supabase
+      .from('profiles')
+      .select('full_name, payid, phone_number')
+      .eq('id', toUserId)
+      .single();
+
+    if (receiverError || !receiver) {
+      return jsonResponse({ error: 'Receiver not found' }, 404);
+    }
+
+    const recipientPayId = receiver.payid || receiver.phone_number;
+    if (!recipientPayId) {
+      return jsonResponse({
+        error: 'Receiver has not set up a PayID yet',
+        receiverName: receiver.full_name,
+      }, 400);
+    }
+
+    // A PayTo payment still in flight for this share: hand it back rather than pay twice
+    const { data: inFlight } = await supabase
+      .from('payments')
+      .select('id, amount, status, agreement:payment_agreements (approval_url)')
+      .eq('from_user_id', user.id)
+      .eq('split_id', splitId)
+      .eq('payment_method', 'payto')
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<InFlightPayment>();
+
+    if (inFlight?.status === 'processing') {
+      return jsonResponse({ error: 'Your payment for this split is already being processed' }, 409);
+    }
+
+    if (inFlight) {
+      if (Math.round(Number(inFlight.amount) * 100) === amountCents) {
+        return jsonResponse({
+          paymentId: inFlight.id,
+          status: 'awaiting_approval',
+          approvalUrl: inFlight.agreement?.approval_url || null,
+          amount: (amountCents / 100).toFixed(2),
+        });
+      }
+
+      // Still waiting on approval but for a different amount: it must never be initiated
+      await supabase
+        .from('payments')
+        .update({ status: 'cancelled' })
+        .eq('id', inFlight.id)
+        .eq('status', 'pending');
+    }
+
+    const provider = getPayToProvider();
+
+    // First payment (or a share above the agreed maximum): set up a new agreement
+    let agreement = await findAgreement(supabase, provider, user.id, amountCents);
+    if (!agreement) {
+      const payId = payerPayId || payer.payid || payer.phone_number;
+      if (!payId) {
+        return jsonResponse({ error: 'Add your PayID to pay from your bank' }, 400);
+      }
+      agreement = await createAgreement(supabase, provider, payer, payId, amountCents);
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        from_user_id: user.id,
+        to_user_id: toUserId,
+        split_id: splitId,
+        amount: amountCents / 100,
+        stripe_fee_amount: 0,
+        payment_method: 'payto',
+        agreement_id: agreement.id,
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (paymentError || !payment) {
+      console.error('Failed to create payment record:', paymentError);
+      return jsonResponse({ error: 'Failed to create payment' }, 500);
+    }
+
+    // Waiting on the payer's bank: payto-webhook initiates it once approved
+    if (agreement.status !== 'active') {
+      return jsonResponse({
+        paymentId: payment.id,
+        status: 'awaiting_approval',
+        approvalUrl: agreement.approval_url,
+        amount: (amountCents / 100).toFixed(2),
+      });
+    }
+
+    try {
+      const initiation = await provider.initiatePayment({
+        agreementId: agreement.provider_agreement_id,
+        amountCents,
+        description: `ZapSplit - Split #${splitId.substring(0, 8)}`,
+        recipientPayId,
+        clientTransactionId: payment.id,
+      });
+
+      await supabase
+        .from('payments')
+        .update({ provider_payment_id: initiation.paymentId })
+        .eq('id', payment.id);
+
+      // Unless payto-webhook has already had a callback for it (it can settle first)
+      await supabase
+        .from('payments')
+        .update({ status: 'processing' })
+        .eq('id', payment.id)
+        .eq('status', 'pending');
+    } catch (initiationError: any) {
+      console.error('Failed to initiate PayTo payment:', initiationError);
+      await supabase.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+      return jsonResponse({ error: 'Your bank couldn\'t start the payment. Please try again.' }, 502);
+    }
+
+    return jsonResponse({
+      paymentId: payment.id,
+      status: 'processing',
+      amount: (amountCents / 100).toFixed(2),
+    });
+  } catch (error: any) {
+    console.error('Error creating PayTo payment:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
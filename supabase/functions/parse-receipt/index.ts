@@ -0,0 +1,269 @@
+// ═══════════════════════════════════════════════════════════════
+// Supabase Edge Function: parse-receipt
+// Purpose: Extract items and totals from an uploaded receipt image
+// ═══════════════════════════════════════════════════════════════
+// The app uploads the photo to the split-receipts bucket first and sends
+// its storage path here. The OpenAI key only lives in this function's
+// environment, and each scan counts against the caller's receipt_scan limit.
+//
+// Errors are returned as { error: { type, message, details } } using the
+// ReceiptParseErrorType values from src/types/receipt.ts.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const RECEIPTS_BUCKET = 'split-receipts';
+
+// src/utils/receiptText.ts applies the same rules on-device; keep them in step
+const RECEIPT_PROMPT = `You are a receipt parsing assistant. Analyze this receipt image and extract the following information in JSON format:
+
+{
+  "items": [
+    {"id": "uuid", "name": "item name", "price": 0.00, "quantity": 1}
+  ],
+  "subtotal": 0.00,
+  "tax": 0.00,
+  "tip": 0.00,
+  "adjustments": [
+    {"id": "a1", "kind": "discount", "label": "as printed", "amount": 0.00, "scope": "bill", "distribution": "proportional"}
+  ],
+  "total": 0.00,
+  "merchant": "restaurant name",
+  "date": "YYYY-MM-DD",
+  "confidence": <calculated>
+}
+
+CRITICAL - AUSTRALIAN RECEIPTS (AUD):
+All prices on Australian receipts INCLUDE GST. The "Subtotal" and "Tax/GST" lines just show the GST breakdown — the GST is ALREADY included in the item prices. Therefore:
+- Set "subtotal" to what the items add up to: the receipt TOTAL (the final amount paid) minus any adjustments and tip
+- Set "tax" to 0 (GST is already included in item prices, do NOT add it again)
+- Set "total" to the final amount paid
+- All item prices must sum to the subtotal
+
+CRITICAL - PRICE INTERPRETATION:
+The "price" field must be the PER-UNIT price, NOT the line total.
+- If a line shows "2 Burger $20.00", the $20 is the LINE TOTAL for 2 burgers
+  - price should be: 10.00 (20 ÷ 2 = 10 per burger)
+  - quantity should be: 2
+- If a line shows "Burger $10.00", then price: 10.00, quantity: 1
+
+IMPORTANT RULES:
+1. Extract ONLY top-level purchasable items (meals, combos, boxes, individual items, standalone add-ons)
+2. ALWAYS calculate per-unit price by dividing the line total by quantity
+3. Generate a unique ID for each item (use simple incrementing numbers like "1", "2", "3")
+4. If quantity is not shown, assume quantity = 1
+5. Set subtotal to the receipt TOTAL (the final amount paid, GST-inclusive) minus adjustments and tip
+6. Set tax to 0 (GST is already included in item prices)
+7. Extract tip amount (if shown, otherwise set to 0)
+8. Set total to the final amount on the receipt
+9. COMBO/BOX/MEAL DEALS: Items like "Zing Box", "Big Mac Meal", "Family Feast", etc. are COMBO items. The items listed underneath them (burger, chips, drink, sides, etc.) are what COMES WITH the combo — they are NOT separate charges. Only output the combo/box/meal as ONE item at the combo price. Do NOT list individual combo contents as separate items. To identify combo contents: sum the prices of items listed under a combo. If they equal the combo price, they are combo contents.
+10. STANDALONE ADD-ONS: If an item listed under a combo causes the sum of sub-items to EXCEED the combo price, that item is a STANDALONE ADD-ON — list it as its own separate item. Example: "H&C Zing Box $15.45" has sub-items summing to $15.45, plus "Dip Supercharged $0.60" listed after them. The Dip is NOT part of the $15.45 combo — it is a separate $0.60 item. Output: {"name": "H&C Zing Box", "price": 15.45} AND {"name": "Dip Supercharged", "price": 0.60}.
+11. MODIFIERS: Items like "No Mayo", "Extra Cheese", "$0.00" customisations listed under a combo are just modifications — ignore them entirely, do NOT create items for them.
+12. ADJUSTMENTS: Discounts, surcharges (weekend, public holiday, card), service charges and cash rounding printed BEFORE the total are NOT items. Put each one in "adjustments" (use [] if there are none):
+   - "kind": "discount", "surcharge", "service_charge" or "rounding"
+   - "label": the line as printed, e.g. "Sunday surcharge 10%"
+   - "amount": the printed amount, positive (rounding keeps its sign: -0.02 rounds down). If only a percentage is printed, leave out "amount" and set "percentage" instead (10 for 10%)
+   - "scope": "item" with "itemId" set to the item's id when the discount is printed directly under one item (e.g. "Member price -2.00"), otherwise "bill"
+   - "distribution": "proportional"
+   Rounding printed AFTER the total (with the cash or change lines) is payment detail — ignore it.
+13. VERIFY: The sum of all item prices times quantities plus the adjustments (discounts taken off) MUST equal the receipt TOTAL (the final amount paid, GST-inclusive) minus tip. If it doesn't, you likely missed a standalone add-on or incorrectly merged an item into a combo. Go back and check.
+14. CONFIDENCE SCORING - Set based on how well you could read the receipt:
+   - 0.98-1.0: Perfect quality, all text crystal clear
+   - 0.90-0.97: Good quality, most text readable
+   - 0.80-0.89: Moderate quality, some items may be unclear
+   - 0.70-0.79: Poor quality, had to guess some values
+   - Below 0.70: Very poor quality, many items unreadable
+
+Return ONLY the JSON object, no additional text.`;
+
+// Phrases the model uses when the photo isn't a receipt
+const NOT_RECEIPT_INDICATORS = [
+  "doesn't contain a receipt",
+  "does not contain a receipt",
+  "not a receipt",
+  "unable to extract",
+  "cannot extract",
+  "can't extract",
+  "no receipt",
+  "isn't a receipt",
+  "is not a receipt",
+  "doesn't appear to be a receipt",
+  "does not appear to be a receipt",
+];
+
+type ParseErrorType = 'API_ERROR' | 'INVALID_IMAGE' | 'INVALID_RESPONSE' | 'RATE_LIMITED';
+
+function errorResponse(
+  status: number,
+  type: ParseErrorType,
+  message: string,
+  details?: string,
+  extra: Record<string, unknown> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ error: { type, message, details }, ...extra }),
+    { status, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+  );
+}
+
+serve(async (req) => {
+  try {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST',
+          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+        },
+      });
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!openAIApiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    // Initialize Supabase client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Not authenticated' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+      );
+    }
+
+    // Get request body
+    const { imagePath } = await req.json();
+
+    // Users can only scan images from their own receipts folder
+    if (typeof imagePath !== 'string' || !imagePath.startsWith(`${user.id}/receipts/`) || imagePath.includes('..')) {
+      return errorResponse(400, 'INVALID_IMAGE', 'Please take a photo of a receipt', 'Invalid image path');
+    }
+
+    // Each scan is a paid vision call, so it counts against the receipt_scan limit
+    const rateLimit = await checkRateLimit(supabase, user.id, 'receipt_scan');
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.max(0, rateLimit.resetAt - Math.floor(Date.now() / 1000));
+      const response = errorResponse(429, 'RATE_LIMITED', 'Rate limit exceeded', undefined, { ...rateLimit });
+      response.headers.set('Retry-After', String(retryAfter));
+      return response;
+    }
+
+    // Read the uploaded image
+    const { data: image, error: downloadError } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .download(imagePath);
+
+    if (downloadError || !image) {
+      return errorResponse(400, 'INVALID_IMAGE', 'Please take a photo of a receipt', 'Receipt image not found');
+    }
+
+    const base64 = encodeBase64(new Uint8Array(await image.arrayBuffer()));
+
+    // Call OpenAI API
+    const response = await fetch(OPENAI_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${openAIApiKey}`,
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o', // Latest vision model
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: RECEIPT_PROMPT },
+              { type: 'image_url', image_url: { url: `data:${image.type || 'image/jpeg'};base64,${base64}` } },
+            ],
+          },
+        ],
+        max_tokens: 1500,
+        temperature: 0.2, // Low temperature for consistent, accurate parsing
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('OpenAI API error:', errorData);
+      return errorResponse(
+        502,
+        'API_ERROR',
+        'Failed to parse receipt',
+        `OpenAI API error: ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    const data = await response.json();
+
+    // Extract the JSON from the response
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+    if (!content) {
+      return errorResponse(502, 'INVALID_RESPONSE', 'Failed to parse receipt', 'No content in OpenAI response');
+    }
+
+    // Check if AI indicates this is not a receipt
+    const contentLower = content.toLowerCase();
+    if (NOT_RECEIPT_INDICATORS.some(indicator => contentLower.includes(indicator))) {
+      return errorResponse(
+        400,
+        'INVALID_IMAGE',
+        'Please take a photo of a receipt',
+        'The image does not appear to be a receipt. Please try again with a clear photo of your receipt.'
+      );
+    }
+
+    // Parse the JSON response (removing markdown code blocks if present)
+    let receipt;
+    try {
+      receipt = JSON.parse(
+        content
+          .replace(/```json\n?/g, '')
+          .replace(/```\n?/g, '')
+          .trim()
+      );
+    } catch {
+      console.error('Failed to parse OpenAI response:', content);
+
+      // If JSON parsing fails, it might still be a non-receipt message we didn't catch
+      return errorResponse(
+        400,
+        'INVALID_IMAGE',
+        'Please take a photo of a receipt',
+        'Could not read the receipt. Please try again with a clearer photo.'
+      );
+    }
+
+    return new Response(JSON.stringify(receipt), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error parsing receipt:', error);
+    return errorResponse(500, 'API_ERROR', 'Failed to parse receipt', error.message || 'Internal server error');
+  }
+});
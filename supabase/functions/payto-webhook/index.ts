@@ -0,0 +1,274 @@
+// ═══════════════════════════════════════════════════════════════
+// Supabase Edge Function: payto-webhook
+// Purpose: Apply PayTo agreement and payment status callbacks
+// ═══════════════════════════════════════════════════════════════
+// Agreement approved: initiate the payments that were waiting on it.
+// Agreement declined or cancelled: those payments fail.
+// Payment settled: mark it completed and allocate it to the payer's
+// share exactly like stripe-webhook does for a card payment.
+// Providers retry callbacks, so every step is safe to run twice.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { applyCompletedPayment, toCents } from '../_shared/settleUp.ts';
+import {
+  findCallbackPayment,
+  getPayToProvider,
+  PayToEvent,
+  PayToProvider,
+  SIGNATURE_HEADER,
+} from '../_shared/payto.ts';
+import { createNotification } from '../_shared/notify.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+interface PayToPaymentRecord {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  split_id: string;
+  amount: number;
+  status: string;
+}
+
+const PAYMENT_FIELDS = 'id, from_user_id, to_user_id, split_id, amount, status';
+
+/**
+ * Initiate every payment that was waiting for this agreement to be approved
+ */
+async function initiateWaitingPayments(
+  supabase: SupabaseClient,
+  provider: PayToProvider,
+  agreement: { id: string; provider_agreement_id: string; maximum_amount: number }
+): Promise<void> {
+  const { data: payments } = await supabase
+    .from('payments')
+    .select(PAYMENT_FIELDS)
+    .eq('agreement_id', agreement.id)
+    .eq('status', 'pending');
+
+  for (const payment of (payments || []) as PayToPaymentRecord[]) {
+    // Claim it first so a repeated callback can't initiate it twice
+    const { data: claimed } = await supabase
+      .from('payments')
+      .update({ status: 'processing' })
+      .eq('id', payment.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (!claimed?.length) continue;
+
+    if (toCents(payment.amount) > toCents(agreement.maximum_amount)) {
+      console.error('Payment is more than the agreement allows:', payment.id);
+      await supabase.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+      continue;
+    }
+
+    const { data: receiver } = await supabase
+      .from('profiles')
+      .select('payid, phone_number')
+      .eq('id', payment.to_user_id)
+      .single();
+
+    const recipientPayId = receiver?.payid || receiver?.phone_number;
+    if (!recipientPayId) {
+      console.error('Receiver has no PayID for payment:', payment.id);
+      await supabase.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+      continue;
+    }
+
+    try {
+      const initiation = await provider.initiatePayment({
+        agreementId: agreement.provider_agreement_id,
+        amountCents: toCents(payment.amount),
+        description: `ZapSplit - Split #${payment.split_id.substring(0, 8)}`,
+        recipientPayId,
+        clientTransactionId: payment.id,
+      });
+
+      await supabase
+        .from('payments')
+        .update({ provider_payment_id: initiation.paymentId })
+        .eq('id', payment.id);
+    } catch (error) {
+      console.error('Failed to initiate PayTo payment:', payment.id, error);
+      await supabase.from('payments').update({ status: 'failed' }).eq('id', payment.id);
+    }
+  }
+}
+
+async function handleAgreementEvent(
+  supabase: SupabaseClient,
+  provider: PayToProvider,
+  event: Extract<PayToEvent, { type: 'agreement' }>
+): Promise<void> {
+  const { data: agreement, error } = await supabase
+    .from('payment_agreements')
+    .update({ status: event.status, updated_at: new Date().toISOString() })
+    .eq('provider_agreement_id', event.agreementId)
+    .select('id, provider_agreement_id, maximum_amount')
+    .maybeSingle();
+
+  if (error || !agreement) {
+    console.error('No payment agreement for callback:', event.agreementId, error);
+    return;
+  }
+
+  if (event.status === 'active') {
+    await initiateWaitingPayments(supabase, provider, agreement);
+    return;
+  }
+
+  if (event.status === 'declined' || event.status === 'cancelled') {
+    // Nothing can be taken against it any more
+    await supabase
+      .from('payments')
+      .update({ status: event.status === 'declined' ? 'failed' : 'cancelled' })
+      .eq('agreement_id', agreement.id)
+      .eq('status', 'pending');
+  }
+}
+
+async function handlePaymentEvent(
+  supabase: SupabaseClient,
+  event: Extract<PayToEvent, { type: 'payment' }>
+): Promise<void> {
+  // Throws (so the provider retries) if the payment can't be found yet
+  const payment = await findCallbackPayment<PayToPaymentRecord>(supabase, event, PAYMENT_FIELDS);
+
+  if (event.status === 'failed') {
+    console.log('PayTo payment failed:', payment.id, event.failureReason);
+    await supabase
+      .from('payments')
+      .update({ status: 'failed' })
+      .eq('id', payment.id)
+      .in('status', ['pending', 'processing']);
+    return;
+  }
+
+  if (event.status !== 'settled') return;
+
+  const { data: claimed } = await supabase
+    .from('payments')
+    .update({
+      status: 'completed',
+      completed_at: event.settledAt || new Date().toISOString(),
+    })
+    .eq('id', payment.id)
+    .in('status', ['pending', 'processing'])
+    .select('id');
+
+  // Already completed by an earlier callback: allocating again is a no-op
+  if (!claimed?.length && payment.status !== 'completed') {
+    console.error('Settled PayTo payment is no longer in flight:', payment.id, payment.status);
+    return;
+  }
+
+  const amountCents = toCents(payment.amount);
+  if (event.amountCents !== null && event.amountCents !== amountCents) {
+    console.error('PayTo settled a different amount:', payment.id, event.amountCents, amountCents);
+  }
+
+  await applyCompletedPayment(
+    supabase,
+    {
+      id: payment.id,
+      fromUserId: payment.from_user_id,
+      toUserId: payment.to_user_id,
+      splitId: payment.split_id,
+      settleUp: false,
+    },
+    event.amountCents ?? amountCents,
+    'payto'
+  );
+
+  if (claimed?.length) {
+    await notifySettled(supabase, payment);
+  }
+}
+
+/**
+ * Card payments are confirmed while the payer is in the app; a bank
+ * transfer can settle after they've left, so tell both sides
+ */
+async function notifySettled(supabase: SupabaseClient, payment: PayToPaymentRecord): Promise<void> {
+  const [{ data: profiles }, { data: split }] = await Promise.all([
+    supabase.from('profiles').select('id, full_name').in('id', [payment.from_user_id, payment.to_user_id]),
+    supabase.from('splits').select('title').eq('id', payment.split_id).single(),
+  ]);
+
+  const nameOf = (userId: string) => profiles?.find((p: any) => p.id === userId)?.full_name || 'Someone';
+  const amount = `$${Number(payment.amount).toFixed(2)}`;
+  const paidFor = split?.title ? ` for "${split.title}"` : '';
+  const data = { paymentId: payment.id, splitId: payment.split_id };
+  const actionUrl = `/splits/${payment.split_id}`;
+
+  await createNotification(
+    supabase,
+    payment.from_user_id,
+    'payment_sent',
+    'Payment Sent',
+    `You paid ${nameOf(payment.to_user_id)} ${amount}${paidFor}`,
+    data,
+    actionUrl
+  );
+  await createNotification(
+    supabase,
+    payment.to_user_id,
+    'payment_received',
+    'Payment Received',
+    `${nameOf(payment.from_user_id)} paid you ${amount}${paidFor}`,
+    data,
+    actionUrl
+  );
+}
+
+serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { status: 200 });
+    }
+
+    if (req.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const body = await req.text();
+    const provider = getPayToProvider();
+
+    let event: PayToEvent | null;
+    try {
+      event = await provider.parseCallback(body, req.headers.get(SIGNATURE_HEADER));
+    } catch (err: any) {
+      console.error('Invalid PayTo callback:', err.message);
+      return new Response(`Webhook Error: ${err.message}`, { status: 400 });
+    }
+
+    if (!event) {
+      console.error('PayTo callback signature verification failed');
+      return new Response('Invalid signature', { status: 400 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('PayTo callback:', event.type, event.status);
+
+    if (event.type === 'agreement') {
+      await handleAgreementEvent(supabase, provider, event);
+    } else {
+      await handlePaymentEvent(supabase, event);
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Webhook error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
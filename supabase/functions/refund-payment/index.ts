@@ -0,0 +1,173 @@
+// ═══════════════════════════════════════════════════════════════
+// Supabase Edge Function: refund-payment
+// Purpose: Refund all or part of a card payment the caller received
+// ═══════════════════════════════════════════════════════════════
+// Only the person who received the payment can refund it. This creates
+// the Stripe refund; the stripe-webhook takes the money back off the
+// participant's share when Stripe confirms it (charge.refunded).
+// Refunding the whole payment at once also returns the payer's fees.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno';
+import { toCents } from '../_shared/settleUp.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Payments with money that can still be refunded
+const REFUNDABLE_STATUSES = ['completed', 'partially_refunded'];
+
+const REFUND_REASONS = ['duplicate', 'requested_by_customer'] as const;
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+serve(async (req) => {
+  try {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', {
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST',
+          'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+        },
+      });
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Initialize Supabase client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Get request body
+    // amount is in AUD and defaults to everything not yet refunded
+    const { paymentId, amount, reason } = await req.json();
+
+    if (!paymentId) {
+      return jsonResponse({ error: 'Missing required field: paymentId' }, 400);
+    }
+
+    if (amount !== undefined && !(amount > 0)) {
+      return jsonResponse({ error: 'Amount must be greater than 0' }, 400);
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('id, from_user_id, to_user_id, amount, refunded_amount, status, payment_method, stripe_payment_intent_id')
+      .eq('id', paymentId)
+      .single();
+
+    if (paymentError || !payment) {
+      return jsonResponse({ error: 'Payment not found' }, 404);
+    }
+
+    if (payment.to_user_id !== user.id) {
+      return jsonResponse({ error: 'Only the person who received this payment can refund it' }, 403);
+    }
+
+    if (payment.payment_method !== 'stripe' || !payment.stripe_payment_intent_id) {
+      return jsonResponse({ error: 'Only card payments can be refunded' }, 400);
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      return jsonResponse({
+        error: payment.status === 'disputed'
+          ? 'This payment is being disputed and can\'t be refunded'
+          : 'This payment can\'t be refunded',
+      }, 409);
+    }
+
+    const refundableCents = toCents(payment.amount) - toCents(payment.refunded_amount || 0);
+    const amountCents = amount !== undefined ? toCents(amount) : refundableCents;
+
+    if (refundableCents <= 0) {
+      return jsonResponse({ error: 'This payment has already been refunded' }, 409);
+    }
+
+    if (amountCents > refundableCents) {
+      return jsonResponse({
+        error: 'Amount is more than can be refunded',
+        refundable: (refundableCents / 100).toFixed(2),
+      }, 409);
+    }
+
+    // The whole payment at once: refund the full charge, fees included
+    const fullRefund = amountCents === toCents(payment.amount);
+
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: payment.stripe_payment_intent_id,
+        ...(!fullRefund && { amount: amountCents }),
+        reverse_transfer: true, // Take it back from the receiver's connected account
+        refund_application_fee: true,
+        ...(REFUND_REASONS.includes(reason) && { reason }),
+        metadata: {
+          paymentId: payment.id,
+          initiatedBy: user.id,
+          amount: (amountCents / 100).toString(),
+        },
+      },
+      {
+        // A double tap refunds once; a later refund of the same amount is a new one
+        idempotencyKey: `refund:${payment.id}:${toCents(payment.refunded_amount || 0)}:${amountCents}`,
+      }
+    );
+
+    const { error: refundError } = await supabase
+      .from('payment_refunds')
+      .upsert(
+        {
+          payment_id: payment.id,
+          stripe_refund_id: refund.id,
+          amount: amountCents / 100,
+          reason: reason || null,
+          status: refund.status,
+          initiated_by: user.id,
+        },
+        { onConflict: 'stripe_refund_id' }
+      );
+
+    if (refundError) {
+      console.error('Failed to record refund:', refundError);
+      // Continue anyway - the webhook still rolls the payment back
+    }
+
+    return jsonResponse({
+      refundId: refund.id,
+      status: refund.status,
+      amount: (amountCents / 100).toFixed(2),
+    });
+  } catch (error: any) {
+    console.error('Error refunding payment:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
@@ -1,6 +1,12 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno';
+import {
+  applyCompletedPayment,
+  reversePaymentAllocations,
+  toCents,
+} from '../_shared/settleUp.ts';
+import { createNotification, ServerNotificationType } from '../_shared/notify.ts';
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
   apiVersion: '2023-10-16',
@@ -13,6 +19,71 @@ const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const cryptoProvider = Stripe.createSubtleCryptoProvider();
 
+interface PaymentRecord {
+  id: string;
+  from_user_id: string | null; // null for link payments by someone without an account
+  to_user_id: string;
+  split_id: string | null;
+  amount: number;
+  refunded_amount: number;
+  status: string;
+}
+
+async function getPaymentForIntent(
+  supabase: SupabaseClient,
+  paymentIntentId: string | null
+): Promise<PaymentRecord | null> {
+  if (!paymentIntentId) return null;
+
+  const { data } = await supabase
+    .from('payments')
+    .select('id, from_user_id, to_user_id, split_id, amount, refunded_amount, status')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Tell the payer and the receiver about something that happened to a payment
+ *
+ * Each message is given the other person's name and what the payment was for.
+ */
+async function notifyPaymentParties(
+  supabase: SupabaseClient,
+  payment: PaymentRecord,
+  type: ServerNotificationType,
+  messages: {
+    payer: (receiverName: string, paidFor: string) => { title: string; body: string };
+    receiver: (payerName: string, paidFor: string) => { title: string; body: string };
+  }
+): Promise<void> {
+  const [{ data: profiles }, { data: split }] = await Promise.all([
+    supabase.from('profiles').select('id, full_name').in('id', [payment.from_user_id, payment.to_user_id].filter(Boolean)),
+    payment.split_id
+      ? supabase.from('splits').select('title').eq('id', payment.split_id).single()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const nameOf = (userId: string | null) => profiles?.find((p: any) => p.id === userId)?.full_name || 'Someone';
+  const paidFor = split?.title ? `"${split.title}"` : 'settling up';
+  const data = { paymentId: payment.id, splitId: payment.split_id };
+  const actionUrl = payment.split_id ? `/splits/${payment.split_id}` : '/payments';
+
+  const toPayer = messages.payer(nameOf(payment.to_user_id), paidFor);
+  const toReceiver = messages.receiver(nameOf(payment.from_user_id), paidFor);
+
+  // Payers without an account only get Stripe's emails
+  if (payment.from_user_id) {
+    await createNotification(supabase, payment.from_user_id, type, toPayer.title, toPayer.body, data, actionUrl);
+  }
+  await createNotification(supabase, payment.to_user_id, type, toReceiver.title, toReceiver.body, data, actionUrl);
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
 serve(async (req) => {
   try {
     if (req.method === 'OPTIONS') {
@@ -87,54 +158,44 @@ serve(async (req) => {
           }
         }
 
-        // Update split_participant status
         const { data: payment } = await supabase
           .from('payments')
-          .select('from_user_id, split_id, amount')
+          .select('id, from_user_id, split_id, participant_id, payment_link_id')
           .eq('stripe_payment_intent_id', paymentIntent.id)
           .single();
 
-        if (payment) {
-          // Get participant's amount_owed to set as amount_paid
-          const { data: participant } = await supabase
-            .from('split_participants')
-            .select('amount_owed')
-            .eq('split_id', payment.split_id)
-            .eq('user_id', payment.from_user_id)
-            .single();
-
+        const settleUp = paymentIntent.metadata?.settleUp === 'true';
+        const amountCents = Math.round(parseFloat(paymentIntent.metadata.originalAmount) * 100);
+
+        // Stripe can deliver the same event more than once; this allocates once
+        await applyCompletedPayment(
+          supabase,
+          {
+            id: payment?.id || null,
+            fromUserId: payment?.from_user_id || paymentIntent.metadata.fromUserId || null,
+            toUserId: paymentIntent.metadata.toUserId,
+            splitId: payment?.split_id || null,
+            participantId: payment?.participant_id || paymentIntent.metadata.participantId || null,
+            settleUp,
+          },
+          amountCents
+        );
+
+        // Paid through a participant's payment link: count it in the link's analytics
+        const paymentLinkId = payment?.payment_link_id || paymentIntent.metadata.paymentLinkId;
+        if (paymentLinkId && payment?.id) {
           await supabase
-            .from('split_participants')
-            .update({
-              status: 'paid',
-              amount_paid: participant?.amount_owed || payment.amount,
-              payment_method: 'stripe',
-            })
-            .eq('split_id', payment.split_id)
-            .eq('user_id', payment.from_user_id);
-
-          // Check if all participants paid -> mark split as settled
-          const { data: participants } = await supabase
-            .from('split_participants')
-            .select('status, user_id')
-            .eq('split_id', payment.split_id);
-
-          // Get the split to know the creator_id
-          const { data: splitData } = await supabase
-            .from('splits')
-            .select('creator_id')
-            .eq('id', payment.split_id)
-            .single();
-
-          // All non-creator participants are paid
-          const nonCreatorParticipants = participants?.filter(p => p.user_id !== splitData?.creator_id);
-          const allPaid = nonCreatorParticipants?.every((p) => p.status === 'paid');
-          if (allPaid && nonCreatorParticipants && nonCreatorParticipants.length > 0) {
-            await supabase
-              .from('splits')
-              .update({ status: 'settled' })
-              .eq('id', payment.split_id);
-          }
+            .from('payment_link_events')
+            .upsert(
+              {
+                payment_link_id: paymentLinkId,
+                event_type: 'pay',
+                user_id: payment.from_user_id,
+                payment_id: payment.id,
+                amount: amountCents / 100,
+              },
+              { onConflict: 'payment_id', ignoreDuplicates: true }
+            );
         }
 
         break;
@@ -182,10 +243,157 @@ serve(async (req) => {
         const charge = event.data.object as Stripe.Charge;
         console.log('Charge refunded:', charge.id);
 
-        await supabase
+        const payment = await getPaymentForIntent(supabase, charge.payment_intent as string);
+        if (!payment) {
+          console.error('No payment for refunded charge:', charge.id);
+          break;
+        }
+
+        // amount_refunded is cumulative and can include the payer's fees;
+        // only the payment amount was allocated to shares
+        const amountCents = toCents(payment.amount);
+        const refundedCents = Math.min(charge.amount_refunded, amountCents);
+        const previouslyRefundedCents = toCents(payment.refunded_amount || 0);
+        const newlyRefundedCents = refundedCents - previouslyRefundedCents;
+
+        if (newlyRefundedCents <= 0) {
+          console.log('Refund already applied:', payment.id);
+          break;
+        }
+
+        // Claim the refund: only matches if no other delivery has applied it
+        const { data: claimed } = await supabase
           .from('payments')
-          .update({ status: 'refunded' })
-          .eq('stripe_payment_intent_id', charge.payment_intent as string);
+          .update({
+            refunded_amount: refundedCents / 100,
+            status: refundedCents >= amountCents ? 'refunded' : 'partially_refunded',
+          })
+          .eq('id', payment.id)
+          .eq('refunded_amount', payment.refunded_amount || 0)
+          .select('id');
+
+        if (!claimed || claimed.length === 0) {
+          console.log('Refund applied by another delivery:', payment.id);
+          break;
+        }
+
+        // Take the money back off the shares it paid, reopening settled splits
+        await reversePaymentAllocations(supabase, payment.id, newlyRefundedCents, 'refund');
+
+        await notifyPaymentParties(supabase, payment, 'payment_refunded', {
+          payer: (receiverName, paidFor) => ({
+            title: 'Refund Received',
+            body: `${receiverName} refunded ${formatDollars(newlyRefundedCents)} of your payment for ${paidFor}`,
+          }),
+          receiver: (payerName, paidFor) => ({
+            title: 'Refund Sent',
+            body: `You refunded ${payerName} ${formatDollars(newlyRefundedCents)} for ${paidFor}`,
+          }),
+        });
+
+        break;
+      }
+
+      case 'charge.refund.updated': {
+        const refund = event.data.object as Stripe.Refund;
+        console.log('Refund updated:', refund.id, refund.status);
+
+        await supabase
+          .from('payment_refunds')
+          .update({ status: refund.status, updated_at: new Date().toISOString() })
+          .eq('stripe_refund_id', refund.id);
+
+        break;
+      }
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed': {
+        const dispute = event.data.object as Stripe.Dispute;
+        console.log('Dispute event:', event.type, dispute.id, dispute.status);
+
+        const payment = await getPaymentForIntent(supabase, dispute.payment_intent as string | null);
+        if (!payment) {
+          console.error('No payment for disputed charge:', dispute.charge);
+          break;
+        }
+
+        const closed = event.type === 'charge.dispute.closed';
+
+        await supabase
+          .from('payment_disputes')
+          .upsert(
+            {
+              payment_id: payment.id,
+              stripe_dispute_id: dispute.id,
+              amount: dispute.amount / 100,
+              reason: dispute.reason,
+              status: dispute.status,
+              evidence_due_by: dispute.evidence_details?.due_by
+                ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+                : null,
+              ...(closed && { closed_at: new Date().toISOString() }),
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: 'stripe_dispute_id' }
+          );
+
+        if (event.type === 'charge.dispute.created') {
+          await supabase.from('payments').update({ status: 'disputed' }).eq('id', payment.id);
+
+          await notifyPaymentParties(supabase, payment, 'payment_disputed', {
+            payer: (receiverName, paidFor) => ({
+              title: 'Payment Disputed',
+              body: `Your bank has opened a dispute on your ${formatDollars(toCents(payment.amount))} payment to ${receiverName} for ${paidFor}`,
+            }),
+            receiver: (payerName, paidFor) => ({
+              title: 'Payment Disputed',
+              body: `${payerName}'s ${formatDollars(toCents(payment.amount))} payment for ${paidFor} is being disputed with their bank`,
+            }),
+          });
+        }
+
+        if (!closed) break;
+
+        if (dispute.status === 'lost') {
+          // The payer's bank took the money back: claim it once, then reverse it off the shares
+          const { data: claimed } = await supabase
+            .from('payments')
+            .update({ status: 'charged_back' })
+            .eq('id', payment.id)
+            .neq('status', 'charged_back')
+            .select('id');
+
+          if (claimed && claimed.length > 0) {
+            const chargedBackCents = Math.min(
+              dispute.amount,
+              toCents(payment.amount) - toCents(payment.refunded_amount || 0)
+            );
+            await reversePaymentAllocations(supabase, payment.id, chargedBackCents, 'chargeback');
+          }
+        } else {
+          // Won (or only a warning): the payment stands as it was
+          await supabase
+            .from('payments')
+            .update({ status: toCents(payment.refunded_amount || 0) > 0 ? 'partially_refunded' : 'completed' })
+            .eq('id', payment.id)
+            .eq('status', 'disputed');
+        }
+
+        await notifyPaymentParties(supabase, payment, 'payment_disputed', {
+          payer: (receiverName, paidFor) => ({
+            title: 'Dispute Closed',
+            body: dispute.status === 'lost'
+              ? `Your dispute was upheld: your payment to ${receiverName} for ${paidFor} has been returned to you`
+              : `Your dispute of the payment to ${receiverName} for ${paidFor} was closed and the payment stands`,
+          }),
+          receiver: (payerName, paidFor) => ({
+            title: 'Dispute Closed',
+            body: dispute.status === 'lost'
+              ? `${payerName}'s payment for ${paidFor} was returned to them, so they owe it again`
+              : `${payerName}'s dispute of their payment for ${paidFor} was closed in your favour`,
+          }),
+        });
 
         break;
       }